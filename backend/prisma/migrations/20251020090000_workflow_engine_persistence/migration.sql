@@ -0,0 +1,56 @@
+-- DropForeignKey
+ALTER TABLE "tasks" DROP CONSTRAINT "tasks_created_by_fkey";
+
+-- DropForeignKey
+ALTER TABLE "workflow_instances" DROP CONSTRAINT "workflow_instances_started_by_fkey";
+
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN     "day" INTEGER,
+ADD COLUMN     "deliverables" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "dependencies" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "phase" TEXT,
+ADD COLUMN     "resources" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "success_criteria" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "template_task_id" TEXT,
+ADD COLUMN     "tools" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "week" INTEGER,
+ADD COLUMN     "workflow_instance_id" TEXT,
+ALTER COLUMN "created_by" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "workflow_instances" ADD COLUMN     "current_day" INTEGER,
+ADD COLUMN     "current_week" INTEGER,
+ADD COLUMN     "description" TEXT,
+ADD COLUMN     "end_date" TIMESTAMP(3),
+ADD COLUMN     "metadata" JSONB,
+ADD COLUMN     "name" TEXT,
+ADD COLUMN     "progress" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "start_date" TIMESTAMP(3),
+ADD COLUMN     "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ALTER COLUMN "started_by" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "workflows" ADD COLUMN     "description" TEXT,
+ADD COLUMN     "total_days" INTEGER,
+ADD COLUMN     "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "workflow_instances_workflow_id_idx" ON "workflow_instances"("workflow_id");
+
+-- CreateIndex
+CREATE INDEX "workflow_instances_status_idx" ON "workflow_instances"("status");
+
+-- CreateIndex
+CREATE INDEX "tasks_workflow_instance_id_idx" ON "tasks"("workflow_instance_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tasks_workflow_instance_id_template_task_id_key" ON "tasks"("workflow_instance_id", "template_task_id");
+
+-- AddForeignKey
+ALTER TABLE "workflow_instances" ADD CONSTRAINT "workflow_instances_started_by_fkey" FOREIGN KEY ("started_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_workflow_instance_id_fkey" FOREIGN KEY ("workflow_instance_id") REFERENCES "workflow_instances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
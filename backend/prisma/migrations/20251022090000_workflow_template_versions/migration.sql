@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "workflow_instances" ADD COLUMN     "template_version" INTEGER;
+
+-- AlterTable
+ALTER TABLE "workflows" ADD COLUMN     "created_by" TEXT,
+ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "workflow_template_versions" (
+    "id" TEXT NOT NULL,
+    "workflow_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "definition" JSONB NOT NULL,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workflow_template_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_template_versions_workflow_id_version_key" ON "workflow_template_versions"("workflow_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "workflow_template_versions" ADD CONSTRAINT "workflow_template_versions_workflow_id_fkey" FOREIGN KEY ("workflow_id") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: 已有模板的当前定义作为版本 1
+INSERT INTO "workflow_template_versions" ("id", "workflow_id", "version", "definition")
+SELECT gen_random_uuid()::text, "id", 1, jsonb_build_object('name', "name", 'description', "description", 'totalDays', "total_days", 'phases', "stages")
+FROM "workflows"
+WHERE "workflow_type" = 'campaign';
+
+UPDATE "workflow_instances" SET "template_version" = 1 WHERE "entity_type" = 'campaign';
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "citation_observations" (
+    "id" TEXT NOT NULL,
+    "answer_id" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "keyword_id" TEXT,
+    "product_line" TEXT,
+    "cited_url" TEXT,
+    "cited_domain" TEXT,
+    "brand" TEXT,
+    "rank" INTEGER,
+    "source_count" INTEGER NOT NULL DEFAULT 0,
+    "snippet" TEXT,
+    "observed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "citation_observations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "citation_observations_observed_at_idx" ON "citation_observations"("observed_at");
+
+-- CreateIndex
+CREATE INDEX "citation_observations_platform_observed_at_idx" ON "citation_observations"("platform", "observed_at");
+
+-- CreateIndex
+CREATE INDEX "citation_observations_brand_observed_at_idx" ON "citation_observations"("brand", "observed_at");
+
+-- CreateIndex
+CREATE INDEX "citation_observations_answer_id_idx" ON "citation_observations"("answer_id");
+
+-- AddForeignKey
+ALTER TABLE "citation_observations" ADD CONSTRAINT "citation_observations_keyword_id_fkey" FOREIGN KEY ("keyword_id") REFERENCES "keywords"("id") ON DELETE SET NULL ON UPDATE CASCADE;
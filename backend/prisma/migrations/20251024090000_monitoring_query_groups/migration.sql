@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "monitoring_query_groups" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "queries" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "product_line" TEXT,
+    "keyword_priority_levels" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "keyword_product_lines" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "keyword_aio_statuses" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "schedule" TEXT NOT NULL DEFAULT 'daily',
+    "platforms" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "locale" TEXT NOT NULL DEFAULT 'en-US',
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_run_at" TIMESTAMP(3),
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "monitoring_query_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "monitoring_query_groups_name_key" ON "monitoring_query_groups"("name");
+
+-- CreateIndex
+CREATE INDEX "monitoring_query_groups_is_active_idx" ON "monitoring_query_groups"("is_active");
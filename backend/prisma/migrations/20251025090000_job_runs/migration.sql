@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "job_runs" (
+    "id" TEXT NOT NULL,
+    "queue" TEXT NOT NULL,
+    "job_name" TEXT NOT NULL,
+    "job_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 1,
+    "payload" JSONB,
+    "result" JSONB,
+    "error" TEXT,
+    "scheduled" BOOLEAN NOT NULL DEFAULT false,
+    "queued_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "finished_at" TIMESTAMP(3),
+    "duration_ms" INTEGER,
+
+    CONSTRAINT "job_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "job_runs_queue_job_id_key" ON "job_runs"("queue", "job_id");
+
+-- CreateIndex
+CREATE INDEX "job_runs_job_name_queued_at_idx" ON "job_runs"("job_name", "queued_at");
+
+-- CreateIndex
+CREATE INDEX "job_runs_status_idx" ON "job_runs"("status");
@@ -0,0 +1,68 @@
+-- CreateTable
+CREATE TABLE "alert_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "rule_type" TEXT NOT NULL,
+    "conditions" JSONB NOT NULL DEFAULT '{}',
+    "keyword_ids" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "keyword_priority_levels" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "keyword_product_lines" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "severity" TEXT NOT NULL DEFAULT 'medium',
+    "channels" TEXT[] DEFAULT ARRAY['in_app']::TEXT[],
+    "webhook_url" TEXT,
+    "cooldown_minutes" INTEGER NOT NULL DEFAULT 1440,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_evaluated_at" TIMESTAMP(3),
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "alerts" (
+    "id" TEXT NOT NULL,
+    "rule_id" TEXT NOT NULL,
+    "keyword_id" TEXT,
+    "dedup_key" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "context" JSONB,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "occurrences" INTEGER NOT NULL DEFAULT 1,
+    "first_triggered_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_triggered_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_notified_at" TIMESTAMP(3),
+    "delivery_error" TEXT,
+    "snoozed_until" TIMESTAMP(3),
+    "read_at" TIMESTAMP(3),
+    "acknowledged_at" TIMESTAMP(3),
+    "acknowledged_by" TEXT,
+    "resolved_at" TIMESTAMP(3),
+
+    CONSTRAINT "alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "alert_rules_name_key" ON "alert_rules"("name");
+
+-- CreateIndex
+CREATE INDEX "alert_rules_rule_type_is_active_idx" ON "alert_rules"("rule_type", "is_active");
+
+-- CreateIndex
+CREATE INDEX "alerts_rule_id_dedup_key_status_idx" ON "alerts"("rule_id", "dedup_key", "status");
+
+-- CreateIndex
+CREATE INDEX "alerts_status_last_triggered_at_idx" ON "alerts"("status", "last_triggered_at");
+
+-- CreateIndex
+CREATE INDEX "alerts_keyword_id_idx" ON "alerts"("keyword_id");
+
+-- AddForeignKey
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "alert_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_keyword_id_fkey" FOREIGN KEY ("keyword_id") REFERENCES "keywords"("id") ON DELETE SET NULL ON UPDATE CASCADE;
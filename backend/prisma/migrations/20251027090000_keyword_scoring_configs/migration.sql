@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "keyword_scoring_configs" (
+    "id" TEXT NOT NULL,
+    "product_line" TEXT NOT NULL,
+    "weights" JSONB NOT NULL,
+    "thresholds" JSONB NOT NULL,
+    "updated_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "keyword_scoring_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "keyword_scoring_configs_product_line_key" ON "keyword_scoring_configs"("product_line");
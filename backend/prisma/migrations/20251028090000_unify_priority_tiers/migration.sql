@@ -0,0 +1,24 @@
+-- 统一优先级为 P0-P4：大小写规范化，已废弃的 P5 并入 P4
+
+-- Keywords
+UPDATE "keywords" SET "priority_level" = UPPER(TRIM("priority_level"))
+WHERE "priority_level" IS NOT NULL AND "priority_level" <> UPPER(TRIM("priority_level"));
+
+UPDATE "keywords" SET "priority_level" = 'P4' WHERE "priority_level" = 'P5';
+
+-- Workflow tasks (普通任务仍使用 urgent/high/medium/low)
+UPDATE "tasks" SET "priority" = 'P4' WHERE "priority" = 'P5';
+
+-- Alert rule scopes
+UPDATE "alert_rules"
+SET "keyword_priority_levels" = ARRAY(SELECT DISTINCT unnest(array_replace("keyword_priority_levels", 'P5', 'P4')))
+WHERE 'P5' = ANY("keyword_priority_levels");
+
+-- Campaign templates
+UPDATE "workflows"
+SET "stages" = REPLACE("stages"::text, '"priority": "P5"', '"priority": "P4"')::jsonb
+WHERE "stages"::text LIKE '%"priority": "P5"%';
+
+UPDATE "workflow_template_versions"
+SET "definition" = REPLACE("definition"::text, '"priority": "P5"', '"priority": "P4"')::jsonb
+WHERE "definition"::text LIKE '%"priority": "P5"%';
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "keywords" ADD COLUMN     "cluster_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "keyword_clusters" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "product_line" TEXT,
+    "pillar_keyword_id" TEXT,
+    "keyword_count" INTEGER NOT NULL DEFAULT 0,
+    "total_search_volume" INTEGER NOT NULL DEFAULT 0,
+    "cohesion" DECIMAL(5,4),
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "keyword_clusters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "keywords_cluster_id_idx" ON "keywords"("cluster_id");
+
+-- CreateIndex
+CREATE INDEX "keyword_clusters_product_line_idx" ON "keyword_clusters"("product_line");
+
+-- AddForeignKey
+ALTER TABLE "keywords" ADD CONSTRAINT "keywords_cluster_id_fkey" FOREIGN KEY ("cluster_id") REFERENCES "keyword_clusters"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "keyword_clusters" ADD CONSTRAINT "keyword_clusters_pillar_keyword_id_fkey" FOREIGN KEY ("pillar_keyword_id") REFERENCES "keywords"("id") ON DELETE SET NULL ON UPDATE CASCADE;
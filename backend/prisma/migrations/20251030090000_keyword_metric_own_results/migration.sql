@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "keyword_metrics" ADD COLUMN     "own_results" JSONB;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "keywords" ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'manual',
+ADD COLUMN     "source_domains" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "keywords_source_idx" ON "keywords"("source");
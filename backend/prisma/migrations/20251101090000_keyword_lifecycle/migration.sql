@@ -0,0 +1,44 @@
+-- 关键词生命周期：proposed → researching → approved → in_content → published → monitoring → retired
+
+-- CreateTable
+CREATE TABLE "keyword_status_history" (
+    "id" TEXT NOT NULL,
+    "keyword_id" TEXT NOT NULL,
+    "from_status" TEXT,
+    "to_status" TEXT NOT NULL,
+    "reason" TEXT,
+    "changed_by" TEXT NOT NULL,
+    "changed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "keyword_status_history_pkey" PRIMARY KEY ("id")
+);
+
+-- 旧状态映射：draft → proposed，active → approved（保持原有跟踪范围），inactive/archived → retired
+UPDATE "keywords" SET "status" = CASE "status"
+    WHEN 'draft' THEN 'proposed'
+    WHEN 'active' THEN 'approved'
+    WHEN 'inactive' THEN 'retired'
+    WHEN 'archived' THEN 'retired'
+    ELSE 'proposed'
+END
+WHERE "status" NOT IN ('proposed', 'researching', 'approved', 'in_content', 'published', 'monitoring', 'retired');
+
+-- 为现有关键词写入初始历史，便于后续计算停留时长
+INSERT INTO "keyword_status_history" ("id", "keyword_id", "from_status", "to_status", "reason", "changed_by", "changed_at")
+SELECT gen_random_uuid()::text, "id", NULL, "status", '生命周期状态迁移', "created_by", CURRENT_TIMESTAMP
+FROM "keywords";
+
+-- AlterTable
+ALTER TABLE "keywords" ALTER COLUMN "status" SET DEFAULT 'proposed';
+
+-- CreateIndex
+CREATE INDEX "keyword_status_history_keyword_id_changed_at_idx" ON "keyword_status_history"("keyword_id", "changed_at");
+
+-- CreateIndex
+CREATE INDEX "keyword_status_history_to_status_changed_at_idx" ON "keyword_status_history"("to_status", "changed_at");
+
+-- AddForeignKey
+ALTER TABLE "keyword_status_history" ADD CONSTRAINT "keyword_status_history_keyword_id_fkey" FOREIGN KEY ("keyword_id") REFERENCES "keywords"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "keyword_status_history" ADD CONSTRAINT "keyword_status_history_changed_by_fkey" FOREIGN KEY ("changed_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "audit_logs" (
+    "id" TEXT NOT NULL,
+    "occurred_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "operation_type" TEXT NOT NULL,
+    "operation_name" TEXT NOT NULL,
+    "resource_type" TEXT NOT NULL,
+    "resource_id" TEXT,
+    "user_id" TEXT,
+    "user_email" TEXT,
+    "correlation_id" TEXT NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "error" TEXT,
+    "input_data" JSONB,
+    "changes" JSONB NOT NULL DEFAULT '[]',
+    "duration_ms" INTEGER NOT NULL,
+    "client_ip" TEXT,
+    "user_agent" TEXT,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_resource_id_occurred_at_idx" ON "audit_logs"("resource_id", "occurred_at");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_user_id_occurred_at_idx" ON "audit_logs"("user_id", "occurred_at");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_occurred_at_idx" ON "audit_logs"("occurred_at");
+
+-- 仅追加：禁止修改；删除只允许保留期清理（事务内设置 geo.audit_retention = 'on'）
+CREATE FUNCTION "audit_logs_append_only"() RETURNS trigger AS $$
+BEGIN
+    IF TG_OP = 'DELETE' AND current_setting('geo.audit_retention', true) = 'on' THEN
+        RETURN OLD;
+    END IF;
+    RAISE EXCEPTION 'audit_logs is append-only (% not allowed)', TG_OP;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "audit_logs_append_only"
+BEFORE UPDATE OR DELETE ON "audit_logs"
+FOR EACH ROW EXECUTE FUNCTION "audit_logs_append_only"();
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "keyword_saved_views" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "filter" JSONB NOT NULL DEFAULT '{}',
+    "sort" JSONB,
+    "visible_columns" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "owner_id" TEXT NOT NULL,
+    "is_shared" BOOLEAN NOT NULL DEFAULT false,
+    "default_for_roles" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "keyword_saved_views_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "keyword_saved_views_owner_id_name_key" ON "keyword_saved_views"("owner_id", "name");
+
+-- CreateIndex
+CREATE INDEX "keyword_saved_views_is_shared_idx" ON "keyword_saved_views"("is_shared");
+
+-- AddForeignKey
+ALTER TABLE "keyword_saved_views" ADD CONSTRAINT "keyword_saved_views_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
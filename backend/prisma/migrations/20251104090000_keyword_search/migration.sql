@@ -0,0 +1,13 @@
+-- 关键词全文检索与模糊匹配：tsvector 处理词形和词序，pg_trgm 处理拼写错误
+
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- AlterTable：english 配置做词干化（复数、时态），由数据库随 text 自动维护
+ALTER TABLE "keywords" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (to_tsvector('english', "text")) STORED;
+
+-- CreateIndex
+CREATE INDEX "keywords_search_vector_idx" ON "keywords" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "keywords_text_trgm_idx" ON "keywords" USING GIN ("text" gin_trgm_ops);
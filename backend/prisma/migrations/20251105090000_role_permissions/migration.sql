@@ -0,0 +1,14 @@
+-- 内置角色及默认权限，与 src/common/permissions.ts 中的 DEFAULT_ROLE_PERMISSIONS 一致
+-- 已存在的内置角色只覆盖权限，保留显示名称和描述
+
+INSERT INTO "roles" ("id", "name", "display_name", "description", "permissions")
+VALUES
+    (gen_random_uuid()::text, 'admin', '管理员', '拥有全部权限，可管理角色和用户角色',
+     '["keyword:read", "keyword:write", "keyword:delete", "keyword:manage", "keyword:transition", "aio:monitor", "content:write", "content:approve", "workflow:manage", "analytics:read", "alert:manage", "job:manage", "audit:read", "audit:read_sensitive", "role:manage"]'),
+    (gen_random_uuid()::text, 'manager', '经理', '除角色管理外的全部权限',
+     '["keyword:read", "keyword:write", "keyword:delete", "keyword:manage", "keyword:transition", "aio:monitor", "content:write", "content:approve", "workflow:manage", "analytics:read", "alert:manage", "job:manage", "audit:read", "audit:read_sensitive"]'),
+    (gen_random_uuid()::text, 'editor', '编辑', '维护关键词和内容',
+     '["keyword:read", "keyword:write", "keyword:transition", "content:write"]'),
+    (gen_random_uuid()::text, 'analyst', '分析师', '查看关键词和报表，录入 AIO 监测数据',
+     '["keyword:read", "keyword:transition", "aio:monitor", "analytics:read"]')
+ON CONFLICT ("name") DO UPDATE SET "permissions" = EXCLUDED."permissions";
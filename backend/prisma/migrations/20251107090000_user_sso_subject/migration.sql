@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "sso_subject" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_sso_subject_key" ON "users"("sso_subject");
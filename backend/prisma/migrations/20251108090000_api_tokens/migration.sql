@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "api_tokens" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'personal',
+    "token_prefix" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "permissions" JSONB NOT NULL DEFAULT '[]',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "revoked_at" TIMESTAMP(3),
+    "last_used_at" TIMESTAMP(3),
+    "last_used_ip" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "api_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN "api_token_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_tokens_token_hash_key" ON "api_tokens"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "api_tokens_user_id_revoked_at_idx" ON "api_tokens"("user_id", "revoked_at");
+
+-- CreateIndex
+CREATE INDEX "api_tokens_type_revoked_at_idx" ON "api_tokens"("type", "revoked_at");
+
+-- AddForeignKey
+ALTER TABLE "api_tokens" ADD CONSTRAINT "api_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 新增 api_token:manage 权限，与 DEFAULT_ROLE_PERMISSIONS 保持一致
+UPDATE "roles"
+SET "permissions" = "permissions" || '["api_token:manage"]'::jsonb
+WHERE "name" IN ('admin', 'manager')
+  AND jsonb_typeof("permissions") = 'array'
+  AND NOT "permissions" ? 'api_token:manage';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "job_runs" ADD COLUMN "retried_at" TIMESTAMP(3),
+ADD COLUMN "retried_run_id" TEXT;
@@ -0,0 +1,10 @@
+-- 移除未使用的 content:approve 权限，与 src/common/permissions.ts 保持一致
+UPDATE "roles"
+SET "permissions" = "permissions" - 'content:approve'
+WHERE jsonb_typeof("permissions") = 'array'
+  AND "permissions" ? 'content:approve';
+
+UPDATE "api_tokens"
+SET "permissions" = "permissions" - 'content:approve'
+WHERE jsonb_typeof("permissions") = 'array'
+  AND "permissions" ? 'content:approve';
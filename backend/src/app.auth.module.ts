@@ -1,32 +0,0 @@
-import { Module } from '@nestjs/common';
-import { GraphQLModule } from '@nestjs/graphql';
-import { ApolloDriver, ApolloDriverConfig } from '@nestjs/apollo';
-import { ConfigModule } from '@nestjs/config';
-import { join } from 'path';
-
-// Import modules
-import { AuthModule } from './modules/auth/auth.module';
-
-@Module({
-  imports: [
-    // Configuration
-    ConfigModule.forRoot({
-      isGlobal: true,
-    }),
-    
-    // GraphQL
-    GraphQLModule.forRoot<ApolloDriverConfig>({
-      driver: ApolloDriver,
-      autoSchemaFile: join(process.cwd(), 'src/schema.gql'),
-      playground: true,
-      introspection: true,
-      context: ({ req }) => ({ req }),
-    }),
-    
-    // Feature modules
-    AuthModule,
-  ],
-  controllers: [],
-  providers: [],
-})
-export class AppAuthModule {}
\ No newline at end of file
@@ -1,31 +0,0 @@
-import { Module } from '@nestjs/common';
-import { GraphQLModule } from '@nestjs/graphql';
-import { ApolloDriver, ApolloDriverConfig } from '@nestjs/apollo';
-import { ConfigModule } from '@nestjs/config';
-import { join } from 'path';
-
-// Import minimal test module (no database dependency)
-import { KeywordModule } from './modules/keyword/keyword.module.minimal';
-
-@Module({
-  imports: [
-    // Configuration
-    ConfigModule.forRoot({
-      isGlobal: true,
-    }),
-    
-    // GraphQL
-    GraphQLModule.forRoot<ApolloDriverConfig>({
-      driver: ApolloDriver,
-      autoSchemaFile: join(process.cwd(), 'src/schema.gql'),
-      playground: true,
-      introspection: true,
-    }),
-    
-    // Minimal test modules
-    KeywordModule,
-  ],
-  controllers: [],
-  providers: [],
-})
-export class AppMinimalModule {}
\ No newline at end of file
@@ -2,10 +2,17 @@ import { Module } from '@nestjs/common';
 import { GraphQLModule } from '@nestjs/graphql';
 import { ApolloDriver, ApolloDriverConfig } from '@nestjs/apollo';
 import { ConfigModule } from '@nestjs/config';
-import { join } from 'path';
 
-// Import modules (using simplified module for testing)
-import { KeywordModule } from './modules/keyword/keyword.module.simple';
+// Feature modules
+import { AuthModule } from './modules/auth/auth.module';
+import { RbacModule } from './modules/rbac/rbac.module';
+import { ApiTokenModule } from './modules/api-token/api-token.module';
+import { KeywordModule } from './modules/keyword/keyword.module';
+import { AuditModule } from './modules/audit/audit.module';
+import { AlertsModule } from './modules/alerts/alerts.module';
+import { JobsModule } from './modules/jobs/jobs.module';
+import { GEOModule } from './modules/geo/geo.module';
+import { WorkflowModule } from './modules/workflow/workflow.module';
 
 @Module({
   imports: [
@@ -13,23 +20,28 @@ import { KeywordModule } from './modules/keyword/keyword.module.simple';
     ConfigModule.forRoot({
       isGlobal: true,
     }),
-    
-    // GraphQL
+
+    // GraphQL（src/schema.gql 由 schema:generate 生成，运行时不覆盖）
     GraphQLModule.forRoot<ApolloDriverConfig>({
       driver: ApolloDriver,
-      autoSchemaFile: join(process.cwd(), 'src/schema.gql'),
+      autoSchemaFile: true,
       playground: true,
       introspection: true,
-      cors: {
-        origin: ['http://localhost:3000'],
-        credentials: true,
-      },
+      context: ({ req, res }: { req: unknown; res: unknown }) => ({ req, res }),
     }),
-    
+
     // Feature modules
+    AuthModule,
+    RbacModule,
+    ApiTokenModule,
     KeywordModule,
+    AuditModule,
+    AlertsModule,
+    JobsModule,
+    GEOModule,
+    WorkflowModule,
   ],
   controllers: [],
   providers: [],
 })
-export class AppModule {}
\ No newline at end of file
+export class AppModule {}
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaService } from './prisma.service';
+import { RbacService } from '../services/rbac.service';
+import { AuditLogService } from '../services/audit-log.service';
+import { ApiTokenService } from '../services/api-token.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+
+/**
+ * 公共模块：数据库访问、认证（JWT 和 API 令牌）和角色权限校验
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    PrismaService,
+    RbacService,
+    AuditLogService,
+    ApiTokenService,
+    JwtAuthGuard,
+    RolesGuard,
+  ],
+  exports: [
+    PrismaService,
+    RbacService,
+    AuditLogService,
+    ApiTokenService,
+    JwtAuthGuard,
+    RolesGuard,
+  ],
+})
+export class CommonModule {}
@@ -0,0 +1,14 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { GqlExecutionContext } from '@nestjs/graphql';
+
+/**
+ * 当前登录用户；经过 RolesGuard 后包含 roleName 和 permissions
+ */
+export const CurrentUser = createParamDecorator(
+  (data: unknown, context: ExecutionContext) => {
+    if (context.getType<string>() === 'graphql') {
+      return GqlExecutionContext.create(context).getContext().req.user;
+    }
+    return context.switchToHttp().getRequest().user;
+  },
+);
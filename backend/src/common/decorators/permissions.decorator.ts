@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../permissions';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * 要求当前用户角色拥有全部所列权限，由 RolesGuard 校验
+ */
+export const RequirePermissions = (...permissions: Permission[]) => SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * 限定可访问的角色名（如 admin、manager），由 RolesGuard 校验；新代码优先使用 RequirePermissions
+ */
+export const Roles = (roles: string[]) => SetMetadata(ROLES_KEY, roles);
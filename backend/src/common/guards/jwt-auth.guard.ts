@@ -0,0 +1,47 @@
+import { ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { GqlExecutionContext } from '@nestjs/graphql';
+import { Request } from 'express';
+import { ApiTokenService, isApiToken } from '../../services/api-token.service';
+
+/**
+ * JWT 认证，兼容 GraphQL 和 HTTP 请求
+ *
+ * 同时接受 API 令牌（Authorization: Bearer geo_pat_… / geo_svc_…），令牌身份写入 req.user，权限由 RolesGuard 收窄
+ */
+@Injectable()
+export class JwtAuthGuard extends AuthGuard('jwt') {
+  constructor(private readonly apiTokenService: ApiTokenService) {
+    super();
+  }
+
+  override async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = this.getRequest(context);
+    const token = this.extractBearerToken(request);
+    if (!token || !isApiToken(token)) {
+      return super.canActivate(context) as Promise<boolean>;
+    }
+
+    const principal = await this.apiTokenService.authenticate(token, {
+      ...(request?.ip && { ip: request.ip }),
+    });
+    if (!principal) {
+      throw new UnauthorizedException('API 令牌无效、已过期或已撤销');
+    }
+    request.user = principal;
+    return true;
+  }
+
+  override getRequest(context: ExecutionContext) {
+    if (context.getType<string>() === 'graphql') {
+      return GqlExecutionContext.create(context).getContext().req;
+    }
+    return context.switchToHttp().getRequest();
+  }
+
+  private extractBearerToken(request: Request): string | undefined {
+    const header = request.headers.authorization;
+    const [scheme, token] = header?.split(' ') ?? [];
+    return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
+  }
+}
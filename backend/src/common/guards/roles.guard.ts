@@ -0,0 +1,73 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { GqlExecutionContext } from '@nestjs/graphql';
+import { RbacService } from '../../services/rbac.service';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { Permission } from '../permissions';
+
+/**
+ * 角色和权限校验，需在 JwtAuthGuard 之后使用
+ *
+ * 从数据库（带缓存）读取当前用户的角色权限并写入 req.user.roleName / req.user.permissions，
+ * 供解析器和字段级权限使用；未标注 Roles / RequirePermissions 的接口只要求已登录且账号有效。
+ * 通过 API 令牌认证的请求只保留令牌授予的权限
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly rbacService: RbacService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    const roles = this.reflector.getAllAndOverride<string[] | undefined>(ROLES_KEY, targets) ?? [];
+    const permissions = this.reflector.getAllAndOverride<Permission[] | undefined>(PERMISSIONS_KEY, targets) ?? [];
+
+    const request = this.getRequest(context);
+    const userId: string | undefined = request?.user?.id;
+    if (!userId) {
+      throw new UnauthorizedException('未登录');
+    }
+
+    const access = await this.rbacService.getUserAccess(userId);
+    if (!access || !access.isActive) {
+      throw new ForbiddenException('用户不存在或已停用');
+    }
+    // API 令牌只能使用令牌权限与所有者当前角色权限的交集
+    const tokenPermissions: Permission[] | undefined = request.user.apiTokenPermissions;
+    const effective = tokenPermissions
+      ? { ...access, permissions: access.permissions.filter(permission => tokenPermissions.includes(permission)) }
+      : access;
+    request.user = {
+      ...request.user,
+      roleId: access.roleId,
+      roleName: access.roleName,
+      permissions: effective.permissions,
+    };
+
+    if (roles.length > 0 && !roles.includes(access.roleName)) {
+      throw new ForbiddenException(`需要以下角色之一: ${roles.join(', ')}`);
+    }
+    const missing = this.rbacService.missingPermissions(effective, permissions);
+    if (missing.length > 0) {
+      throw new ForbiddenException(`缺少权限: ${missing.join(', ')}`);
+    }
+
+    return true;
+  }
+
+  private getRequest(context: ExecutionContext) {
+    if (context.getType<string>() === 'graphql') {
+      return GqlExecutionContext.create(context).getContext().req;
+    }
+    return context.switchToHttp().getRequest();
+  }
+}
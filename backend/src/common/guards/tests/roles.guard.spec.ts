@@ -0,0 +1,126 @@
+/**
+ * 角色权限守卫单元测试
+ *
+ * @description 测试 RolesGuard 的权限校验、角色校验，以及 API 令牌请求按令牌权限收窄所有者权限
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RolesGuard } from '../roles.guard';
+import { RequirePermissions } from '../../decorators/permissions.decorator';
+import { Roles } from '../../decorators/roles.decorator';
+import { PERMISSIONS } from '../../permissions';
+import { RbacService, UserAccess } from '../../../services/rbac.service';
+
+class TestResolver {
+  @RequirePermissions(PERMISSIONS.KEYWORD_WRITE)
+  writeKeyword() {}
+
+  @Roles(['admin'])
+  adminOnly() {}
+
+  readProfile() {}
+}
+
+describe('RolesGuard', () => {
+  let guard: RolesGuard;
+
+  const mockRbacService = {
+    getUserAccess: jest.fn(),
+    missingPermissions: jest.fn(),
+  };
+
+  const editorAccess: UserAccess = {
+    userId: 'user-1',
+    roleId: 'role-editor',
+    roleName: 'editor',
+    permissions: [PERMISSIONS.KEYWORD_READ, PERMISSIONS.KEYWORD_WRITE, PERMISSIONS.CONTENT_WRITE],
+    isActive: true,
+  };
+
+  const buildContext = (handler: keyof TestResolver, request: Record<string, any>) => ({
+    getHandler: () => TestResolver.prototype[handler],
+    getClass: () => TestResolver,
+    getType: () => 'http',
+    switchToHttp: () => ({ getRequest: () => request }),
+  }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RolesGuard,
+        Reflector,
+        {
+          provide: RbacService,
+          useValue: mockRbacService,
+        },
+      ],
+    }).compile();
+
+    guard = module.get<RolesGuard>(RolesGuard);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockRbacService.getUserAccess.mockResolvedValue(editorAccess);
+    mockRbacService.missingPermissions.mockImplementation((access: UserAccess, required: string[]) =>
+      required.filter(permission => !(access.permissions as string[]).includes(permission)),
+    );
+  });
+
+  it('should write the role permissions to the request user', async () => {
+    // Arrange
+    const request = { user: { id: 'user-1' } };
+
+    // Act
+    await expect(guard.canActivate(buildContext('writeKeyword', request))).resolves.toBe(true);
+
+    // Assert
+    expect(request.user).toEqual({
+      id: 'user-1',
+      roleId: 'role-editor',
+      roleName: 'editor',
+      permissions: editorAccess.permissions,
+    });
+  });
+
+  it('should narrow API token requests to the intersection of token and role permissions', async () => {
+    // Arrange
+    const request: Record<string, any> = {
+      user: {
+        id: 'user-1',
+        apiTokenId: 'token-1',
+        apiTokenPermissions: [PERMISSIONS.KEYWORD_READ, PERMISSIONS.ROLE_MANAGE],
+      },
+    };
+
+    // Act & Assert
+    await expect(guard.canActivate(buildContext('writeKeyword', request))).rejects.toThrow('缺少权限: keyword:write');
+    expect(request['user'].permissions).toEqual([PERMISSIONS.KEYWORD_READ]);
+  });
+
+  it('should let API tokens use permissions granted by both token and role', async () => {
+    // Arrange
+    const request = {
+      user: { id: 'user-1', apiTokenId: 'token-1', apiTokenPermissions: [PERMISSIONS.KEYWORD_WRITE] },
+    };
+
+    // Act & Assert
+    await expect(guard.canActivate(buildContext('writeKeyword', request))).resolves.toBe(true);
+    await expect(guard.canActivate(buildContext('readProfile', { user: { id: 'user-1', apiTokenPermissions: [] } })))
+      .resolves.toBe(true);
+  });
+
+  it('should reject anonymous, disabled and wrong-role users', async () => {
+    // Act & Assert
+    await expect(guard.canActivate(buildContext('readProfile', {}))).rejects.toThrow(UnauthorizedException);
+    await expect(guard.canActivate(buildContext('adminOnly', { user: { id: 'user-1' } })))
+      .rejects.toThrow('需要以下角色之一: admin');
+
+    mockRbacService.getUserAccess.mockResolvedValue({ ...editorAccess, isActive: false });
+    await expect(guard.canActivate(buildContext('readProfile', { user: { id: 'user-1' } })))
+      .rejects.toThrow(ForbiddenException);
+  });
+});
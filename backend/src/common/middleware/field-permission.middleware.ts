@@ -0,0 +1,14 @@
+import { FieldMiddleware, MiddlewareContext, NextFn } from '@nestjs/graphql';
+import { Permission } from '../permissions';
+
+/**
+ * 字段级权限：缺少权限时字段返回 null（字段须为 nullable）
+ *
+ * 依赖 RolesGuard 写入的 req.user.permissions，未经过 RolesGuard 的请求一律视为无权限
+ */
+export function requireFieldPermission(permission: Permission): FieldMiddleware {
+  return async (ctx: MiddlewareContext, next: NextFn) => {
+    const permissions: string[] | undefined = ctx.context?.req?.user?.permissions;
+    return permissions?.includes(permission) ? next() : null;
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * 权限常量
+ *
+ * 角色的权限保存在 roles.permissions（JSON 字符串数组）中，由 RolesGuard 按当前用户角色校验；
+ * '*' 表示拥有全部权限
+ */
+export const PERMISSIONS = {
+  KEYWORD_READ: 'keyword:read',
+  KEYWORD_WRITE: 'keyword:write',
+  KEYWORD_DELETE: 'keyword:delete',
+  KEYWORD_MANAGE: 'keyword:manage',
+  KEYWORD_TRANSITION: 'keyword:transition',
+  AIO_MONITOR: 'aio:monitor',
+  CONTENT_WRITE: 'content:write',
+  WORKFLOW_MANAGE: 'workflow:manage',
+  ANALYTICS_READ: 'analytics:read',
+  ALERT_MANAGE: 'alert:manage',
+  JOB_MANAGE: 'job:manage',
+  AUDIT_READ: 'audit:read',
+  AUDIT_READ_SENSITIVE: 'audit:read_sensitive',
+  ROLE_MANAGE: 'role:manage',
+  API_TOKEN_MANAGE: 'api_token:manage',
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export const ALL_PERMISSIONS_WILDCARD = '*';
+
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  'keyword:read': '查看关键词',
+  'keyword:write': '创建、编辑和导入关键词',
+  'keyword:delete': '删除关键词',
+  'keyword:manage': '批量操作、评分配置、重新分级和主题聚类',
+  'keyword:transition': '流转关键词生命周期状态（内容阶段和批准、退役另需对应权限）',
+  'aio:monitor': '录入 AIO 监测数据',
+  'content:write': '创建和编辑内容',
+  'workflow:manage': '管理工作流模板和实例',
+  'analytics:read': '查看统计和报表',
+  'alert:manage': '管理告警规则和处理告警',
+  'job:manage': '手动触发和重试定时任务',
+  'audit:read': '查看审计日志',
+  'audit:read_sensitive': '查看审计日志中的请求参数、来源 IP 和客户端信息',
+  'role:manage': '管理角色权限和用户角色',
+  'api_token:manage': '创建服务令牌，查看和撤销所有 API 令牌',
+};
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSION_DESCRIPTIONS) as Permission[];
+
+/**
+ * 内置角色的默认权限，与迁移中写入 roles 表的初始值一致
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  manager: ALL_PERMISSIONS.filter(permission => permission !== 'role:manage'),
+  editor: ['keyword:read', 'keyword:write', 'keyword:transition', 'content:write'],
+  analyst: ['keyword:read', 'keyword:transition', 'aio:monitor', 'analytics:read'],
+};
+
+export function isPermission(value: string): value is Permission {
+  return (ALL_PERMISSIONS as string[]).includes(value);
+}
@@ -0,0 +1,68 @@
+import { NestFactory } from '@nestjs/core';
+import { GraphQLSchemaBuilderModule, GraphQLSchemaFactory } from '@nestjs/graphql';
+import { printSchema } from 'graphql';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { AuthResolver } from './modules/auth/auth.resolver';
+import { RbacResolver } from './modules/rbac/rbac.resolver';
+import { ApiTokenResolver } from './modules/api-token/api-token.resolver';
+import { KeywordResolver } from './modules/keyword/resolvers/keyword.resolver';
+import { AuditResolver } from './modules/audit/audit.resolver';
+import { AlertsResolver } from './modules/alerts/alerts.resolver';
+import { JobsResolver } from './modules/jobs/jobs.resolver';
+import { GEOResolver } from './modules/geo/geo.resolver';
+import { WorkflowResolver } from './modules/workflow/workflow.resolver';
+
+/**
+ * 根据解析器元数据生成 schema.gql，无需启动服务或连接数据库
+ *
+ * shared 包基于该文件生成前后端共用的类型、枚举和 zod 校验，修改 GraphQL 类型后需重新执行。
+ * 解析器列表需与 AppModule 导入的模块保持一致，否则生成的 schema 会缺少对应的查询和变更。
+ * --check 时仅比对生成结果与已提交文件，不一致则退出码为 1（构建前执行）
+ */
+const SCHEMA_RESOLVERS = [
+  AuthResolver,
+  RbacResolver,
+  ApiTokenResolver,
+  KeywordResolver,
+  AuditResolver,
+  AlertsResolver,
+  JobsResolver,
+  GEOResolver,
+  WorkflowResolver,
+];
+
+const SCHEMA_HEADER = `# ------------------------------------------------------
+# THIS FILE WAS AUTOMATICALLY GENERATED (DO NOT MODIFY)
+# ------------------------------------------------------
+
+`;
+
+async function generateSchema() {
+  const check = process.argv.includes('--check');
+  const app = await NestFactory.create(GraphQLSchemaBuilderModule, { logger: ['error'] });
+  await app.init();
+
+  const schema = await app.get(GraphQLSchemaFactory).create(SCHEMA_RESOLVERS);
+  const output = SCHEMA_HEADER + printSchema(schema) + '\n';
+  const outputPath = join(process.cwd(), 'src/schema.gql');
+  await app.close();
+
+  if (check) {
+    const current = existsSync(outputPath) ? readFileSync(outputPath, 'utf8') : '';
+    if (current !== output) {
+      console.error('❌ src/schema.gql 与解析器不一致，请执行 npm run schema:generate');
+      process.exit(1);
+    }
+    console.log('✅ src/schema.gql 已是最新');
+    return;
+  }
+
+  writeFileSync(outputPath, output);
+  console.log(`✅ GraphQL schema 已生成: ${outputPath}`);
+}
+
+generateSchema().catch(error => {
+  console.error('❌ GraphQL schema 生成失败:', error);
+  process.exit(1);
+});
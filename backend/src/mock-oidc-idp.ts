@@ -0,0 +1,256 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, randomBytes } from 'crypto';
+import { JwtService } from '@nestjs/jwt';
+
+/**
+ * 本地 OIDC 身份提供方，用于开发和测试企业 SSO 登录
+ *
+ * 支持 discovery、授权码（仅 S256 PKCE）和 token 端点；/authorize 带 login_hint 时直接以该用户登录，否则展示用户列表。
+ * 后端配置：AUTH_PROVIDERS=local,oidc、OIDC_ISSUER_URL=http://localhost:4010、OIDC_CLIENT_ID=geo-platform、
+ * OIDC_REDIRECT_URI 为前端回调地址；用户可通过 MOCK_IDP_USERS（JSON 数组）覆盖
+ */
+
+export interface MockIdpUser {
+  sub: string;
+  email: string;
+  name?: string;
+  preferred_username?: string;
+  groups?: string[];
+  department?: string;
+}
+
+export interface MockIdpOptions {
+  port?: number;
+  /** 对外地址，默认 http://localhost:<port> */
+  issuer?: string;
+  clientId?: string;
+  clientSecret?: string;
+  users?: MockIdpUser[];
+}
+
+export interface MockIdp {
+  issuer: string;
+  server: Server;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  user: MockIdpUser;
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge: string;
+  expiresAt: number;
+}
+
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 300;
+
+const DEFAULT_USERS: MockIdpUser[] = [
+  {
+    sub: 'mock-admin',
+    email: 'admin@corp.example',
+    name: 'Alice Admin',
+    preferred_username: 'alice',
+    groups: ['geo-admins'],
+    department: 'IT',
+  },
+  {
+    sub: 'mock-editor',
+    email: 'editor@corp.example',
+    name: 'Eddie Editor',
+    preferred_username: 'eddie',
+    groups: ['marketing'],
+    department: 'Marketing',
+  },
+  {
+    sub: 'mock-viewer',
+    email: 'viewer@corp.example',
+    name: 'Vera Viewer',
+    preferred_username: 'vera',
+    groups: [],
+    department: 'Sales',
+  },
+];
+
+export async function startMockOidcIdp(options: MockIdpOptions = {}): Promise<MockIdp> {
+  const clientId = options.clientId ?? 'geo-platform';
+  const users = options.users ?? DEFAULT_USERS;
+  const codes = new Map<string, PendingCode>();
+  // 签名仅用于演示，后端通过 TLS 直接从 token 端点获取 ID token，不校验签名
+  const jwt = new JwtService({ secret: randomBytes(32).toString('hex') });
+  let issuer = options.issuer ?? '';
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(error => {
+      sendJson(res, 500, { error: 'server_error', error_description: error.message });
+    });
+  });
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? '/', issuer);
+
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      sendJson(res, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        response_types_supported: ['code'],
+        grant_types_supported: ['authorization_code'],
+        code_challenge_methods_supported: ['S256'],
+        id_token_signing_alg_values_supported: ['HS256'],
+        scopes_supported: ['openid', 'profile', 'email', 'groups'],
+      });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      const params = url.searchParams;
+      const redirectUri = params.get('redirect_uri');
+      if (params.get('client_id') !== clientId || !redirectUri) {
+        sendJson(res, 400, { error: 'invalid_request', error_description: 'unknown client or missing redirect_uri' });
+        return;
+      }
+      if (params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+        sendJson(res, 400, { error: 'invalid_request', error_description: 'code flow with S256 PKCE is required' });
+        return;
+      }
+
+      const loginHint = params.get('login_hint');
+      const user = loginHint ? users.find(item => item.email === loginHint || item.sub === loginHint) : undefined;
+      if (!user) {
+        sendUserList(res, url);
+        return;
+      }
+
+      const code = randomBytes(24).toString('base64url');
+      const nonce = params.get('nonce');
+      codes.set(code, {
+        user,
+        clientId,
+        redirectUri,
+        ...(nonce && { nonce }),
+        codeChallenge: params.get('code_challenge') as string,
+        expiresAt: Date.now() + CODE_TTL_MS,
+      });
+
+      const location = new URL(redirectUri);
+      location.searchParams.set('code', code);
+      const state = params.get('state');
+      if (state) {
+        location.searchParams.set('state', state);
+      }
+      res.writeHead(302, { location: location.toString() });
+      res.end();
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      const body = new URLSearchParams(await readBody(req));
+      const code = body.get('code') ?? '';
+      const pending = codes.get(code);
+      codes.delete(code);
+
+      if (body.get('grant_type') !== 'authorization_code' || !pending || pending.expiresAt < Date.now()) {
+        sendJson(res, 400, { error: 'invalid_grant' });
+        return;
+      }
+      if (body.get('client_id') !== pending.clientId || body.get('redirect_uri') !== pending.redirectUri) {
+        sendJson(res, 400, { error: 'invalid_grant', error_description: 'client_id or redirect_uri mismatch' });
+        return;
+      }
+      if (options.clientSecret && body.get('client_secret') !== options.clientSecret) {
+        sendJson(res, 401, { error: 'invalid_client' });
+        return;
+      }
+      const verifier = body.get('code_verifier') ?? '';
+      if (createHash('sha256').update(verifier).digest('base64url') !== pending.codeChallenge) {
+        sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+        return;
+      }
+
+      const { user } = pending;
+      const idToken = jwt.sign(
+        {
+          email: user.email,
+          email_verified: true,
+          ...(user.name && { name: user.name }),
+          ...(user.preferred_username && { preferred_username: user.preferred_username }),
+          ...(user.groups && { groups: user.groups }),
+          ...(user.department && { department: user.department }),
+          ...(pending.nonce && { nonce: pending.nonce }),
+        },
+        { issuer, audience: pending.clientId, subject: user.sub, expiresIn: ID_TOKEN_TTL_SECONDS },
+      );
+      sendJson(res, 200, {
+        access_token: randomBytes(24).toString('base64url'),
+        token_type: 'Bearer',
+        expires_in: ID_TOKEN_TTL_SECONDS,
+        id_token: idToken,
+      });
+      return;
+    }
+
+    sendJson(res, 404, { error: 'not_found' });
+  };
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, resolve));
+  if (!issuer) {
+    issuer = `http://localhost:${(server.address() as AddressInfo).port}`;
+  }
+
+  return {
+    issuer,
+    server,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+
+  function sendUserList(res: ServerResponse, url: URL): void {
+    const items = users
+      .map(user => {
+        const link = new URL(url.toString());
+        link.searchParams.set('login_hint', user.email);
+        const groups = user.groups?.length ? user.groups.join(', ') : '无';
+        return `<li><a href="${escapeHtml(link.pathname + link.search)}">${escapeHtml(user.name ?? user.email)}</a>`
+          + ` — ${escapeHtml(user.email)}（组：${escapeHtml(groups)}）</li>`;
+      })
+      .join('\n');
+    res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+    res.end(`<!doctype html><html><body><h1>Mock IdP 登录</h1><ul>${items}</ul></body></html>`);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json', 'cache-control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+if (require.main === module) {
+  const port = Number(process.env['MOCK_IDP_PORT'] ?? 4010);
+  startMockOidcIdp({
+    port,
+    issuer: process.env['MOCK_IDP_ISSUER'] ?? `http://localhost:${port}`,
+    ...(process.env['OIDC_CLIENT_ID'] && { clientId: process.env['OIDC_CLIENT_ID'] }),
+    ...(process.env['OIDC_CLIENT_SECRET'] && { clientSecret: process.env['OIDC_CLIENT_SECRET'] }),
+    ...(process.env['MOCK_IDP_USERS'] && { users: JSON.parse(process.env['MOCK_IDP_USERS']) as MockIdpUser[] }),
+  })
+    .then(idp => console.log(`✅ Mock OIDC IdP 已启动: ${idp.issuer}`))
+    .catch(error => {
+      console.error('❌ Mock OIDC IdP 启动失败:', error);
+      process.exit(1);
+    });
+}
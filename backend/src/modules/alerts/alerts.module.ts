@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { AlertsResolver } from './alerts.resolver';
+import { PrismaService } from '../../common/prisma.service';
+import { CommonModule } from '../../common/common.module';
+import { AlertRulesService } from '../../services/alert-rules.service';
+import { CitationObservationService } from '../../services/citation-observation.service';
+
+@Module({
+  imports: [ConfigModule, CommonModule],
+  providers: [
+    AlertsResolver,
+    PrismaService,
+    AlertRulesService,
+    CitationObservationService
+  ],
+  exports: [
+    AlertRulesService
+  ]
+})
+export class AlertsModule {}
@@ -0,0 +1,337 @@
+import { UseGuards } from '@nestjs/common';
+import { Resolver, Query, Mutation, Args, Field, ObjectType, InputType, Int } from '@nestjs/graphql';
+import {
+  Alert,
+  AlertRule,
+  AlertRuleConditions,
+  AlertRuleInput,
+  AlertRulesService,
+  AlertStatus,
+  ALERT_STATUSES,
+} from '../../services/alert-rules.service';
+import { PERMISSIONS } from '../../common/permissions';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+
+@ObjectType()
+export class AlertRuleType {
+  @Field()
+  id: string;
+
+  @Field()
+  name: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field()
+  ruleType: string;
+
+  @Field()
+  conditions: string; // JSON string
+
+  @Field(() => [String])
+  keywordIds: string[];
+
+  @Field(() => [String])
+  keywordPriorityLevels: string[];
+
+  @Field(() => [String])
+  keywordProductLines: string[];
+
+  @Field()
+  severity: string;
+
+  @Field(() => [String])
+  channels: string[];
+
+  @Field({ nullable: true })
+  webhookUrl?: string;
+
+  @Field(() => Int)
+  cooldownMinutes: number;
+
+  @Field()
+  isActive: boolean;
+
+  @Field({ nullable: true })
+  lastEvaluatedAt?: string;
+
+  @Field()
+  updatedAt: string;
+}
+
+@ObjectType()
+export class AlertType {
+  @Field()
+  id: string;
+
+  @Field()
+  ruleId: string;
+
+  @Field({ nullable: true })
+  ruleName?: string;
+
+  @Field({ nullable: true })
+  keywordId?: string;
+
+  @Field()
+  severity: string;
+
+  @Field()
+  title: string;
+
+  @Field()
+  message: string;
+
+  @Field({ nullable: true })
+  context?: string; // JSON string
+
+  @Field()
+  status: string;
+
+  @Field(() => Int)
+  occurrences: number;
+
+  @Field()
+  firstTriggeredAt: string;
+
+  @Field()
+  lastTriggeredAt: string;
+
+  @Field({ nullable: true })
+  lastNotifiedAt?: string;
+
+  @Field({ nullable: true })
+  deliveryError?: string;
+
+  @Field({ nullable: true })
+  snoozedUntil?: string;
+
+  @Field()
+  read: boolean;
+
+  @Field({ nullable: true })
+  acknowledgedAt?: string;
+
+  @Field({ nullable: true })
+  resolvedAt?: string;
+}
+
+@ObjectType()
+export class AlertEvaluationResultType {
+  @Field(() => Int)
+  evaluatedRules: number;
+
+  @Field(() => Int)
+  triggered: number;
+
+  @Field(() => Int)
+  notified: number;
+
+  @Field(() => Int)
+  resolved: number;
+}
+
+@InputType()
+export class AlertRuleInputType {
+  @Field({ nullable: true })
+  name?: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field({ nullable: true, description: 'rank_drop、aio_lost、competitor_in_aio 或 citation_rate_below' })
+  ruleType?: string;
+
+  @Field({ nullable: true, description: 'JSON 对象，如 {"minDrop": 3}' })
+  conditions?: string;
+
+  @Field(() => [String], { nullable: true })
+  keywordIds?: string[];
+
+  @Field(() => [String], { nullable: true })
+  keywordPriorityLevels?: string[];
+
+  @Field(() => [String], { nullable: true })
+  keywordProductLines?: string[];
+
+  @Field({ nullable: true, description: 'low、medium、high 或 critical' })
+  severity?: string;
+
+  @Field(() => [String], { nullable: true, description: 'in_app、webhook' })
+  channels?: string[];
+
+  @Field({ nullable: true })
+  webhookUrl?: string;
+
+  @Field(() => Int, { nullable: true })
+  cooldownMinutes?: number;
+
+  @Field({ nullable: true })
+  isActive?: boolean;
+}
+
+@Resolver()
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class AlertsResolver {
+  constructor(private alertEngine: AlertRulesService) {}
+
+  // ==================== 规则 ====================
+
+  @Query(() => [AlertRuleType])
+  async alertRules(
+    @Args('includeInactive', { nullable: true, defaultValue: false }) includeInactive: boolean
+  ): Promise<AlertRuleType[]> {
+    const rules = await this.alertEngine.listRules(includeInactive);
+    return rules.map(rule => this.toAlertRuleType(rule));
+  }
+
+  @Mutation(() => AlertRuleType)
+  @RequirePermissions(PERMISSIONS.ALERT_MANAGE)
+  async createAlertRule(
+    @Args('input', { type: () => AlertRuleInputType }) input: AlertRuleInputType
+  ): Promise<AlertRuleType> {
+    return this.toAlertRuleType(await this.alertEngine.createRule(this.toAlertRuleInput(input)));
+  }
+
+  @Mutation(() => AlertRuleType)
+  @RequirePermissions(PERMISSIONS.ALERT_MANAGE)
+  async updateAlertRule(
+    @Args('id') id: string,
+    @Args('input', { type: () => AlertRuleInputType }) input: AlertRuleInputType
+  ): Promise<AlertRuleType> {
+    return this.toAlertRuleType(await this.alertEngine.updateRule(id, this.toAlertRuleInput(input)));
+  }
+
+  @Mutation(() => Boolean)
+  @RequirePermissions(PERMISSIONS.ALERT_MANAGE)
+  async deleteAlertRule(@Args('id') id: string): Promise<boolean> {
+    return this.alertEngine.deleteRule(id);
+  }
+
+  @Mutation(() => AlertEvaluationResultType)
+  @RequirePermissions(PERMISSIONS.ALERT_MANAGE)
+  async evaluateAlertRules(
+    @Args('keywordIds', { type: () => [String], nullable: true, description: '为空时评估全部规则范围内的关键词和引用类规则' }) keywordIds?: string[]
+  ): Promise<AlertEvaluationResultType> {
+    const keywordResult = await this.alertEngine.evaluateKeywordRules(keywordIds);
+    if (keywordIds) {
+      return keywordResult;
+    }
+
+    const citationResult = await this.alertEngine.evaluateCitationRules();
+    return {
+      evaluatedRules: keywordResult.evaluatedRules + citationResult.evaluatedRules,
+      triggered: keywordResult.triggered + citationResult.triggered,
+      notified: keywordResult.notified + citationResult.notified,
+      resolved: keywordResult.resolved + citationResult.resolved
+    };
+  }
+
+  // ==================== 收件箱 ====================
+
+  @Query(() => [AlertType])
+  async alerts(
+    @Args('status', { nullable: true, description: 'open、acknowledged 或 resolved' }) status?: string,
+    @Args('keywordId', { nullable: true }) keywordId?: string,
+    @Args('unreadOnly', { nullable: true, defaultValue: false }) unreadOnly?: boolean,
+    @Args('includeSnoozed', { nullable: true, defaultValue: false }) includeSnoozed?: boolean,
+    @Args('limit', { type: () => Int, nullable: true, defaultValue: 50 }) limit?: number
+  ): Promise<AlertType[]> {
+    if (status && !ALERT_STATUSES.includes(status as AlertStatus)) {
+      throw new Error(`不支持的告警状态: ${status}`);
+    }
+    const alerts = await this.alertEngine.listAlerts({
+      ...(status && { status: status as AlertStatus }),
+      ...(keywordId && { keywordId }),
+      ...(unreadOnly !== undefined && { unreadOnly }),
+      ...(includeSnoozed !== undefined && { includeSnoozed }),
+      ...(limit !== undefined && { limit }),
+    });
+    return alerts.map(alert => this.toAlertType(alert));
+  }
+
+  @Query(() => Int)
+  async unreadAlertCount(): Promise<number> {
+    return this.alertEngine.countUnread();
+  }
+
+  @Mutation(() => Int)
+  async markAlertsRead(@Args('ids', { type: () => [String] }) ids: string[]): Promise<number> {
+    return this.alertEngine.markRead(ids);
+  }
+
+  @Mutation(() => AlertType)
+  async acknowledgeAlert(@Args('id') id: string): Promise<AlertType> {
+    return this.toAlertType(await this.alertEngine.acknowledgeAlert(id));
+  }
+
+  @Mutation(() => AlertType)
+  async resolveAlert(@Args('id') id: string): Promise<AlertType> {
+    return this.toAlertType(await this.alertEngine.resolveAlert(id));
+  }
+
+  @Mutation(() => AlertType)
+  async snoozeAlert(
+    @Args('id') id: string,
+    @Args('minutes', { type: () => Int, description: '0 表示取消暂停' }) minutes: number
+  ): Promise<AlertType> {
+    return this.toAlertType(await this.alertEngine.snoozeAlert(id, minutes));
+  }
+
+  private toAlertRuleInput(input: AlertRuleInputType): AlertRuleInput {
+    const { conditions, ...fields } = input;
+    return {
+      ...fields,
+      ...(conditions !== undefined && { conditions: this.parseConditions(conditions) }),
+    } as AlertRuleInput;
+  }
+
+  private parseConditions(conditions: string): AlertRuleConditions {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(conditions);
+    } catch {
+      throw new Error('conditions 不是合法的 JSON');
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('conditions 必须是 JSON 对象');
+    }
+    return parsed as AlertRuleConditions;
+  }
+
+  private toAlertRuleType(rule: AlertRule): AlertRuleType {
+    const { conditions, createdAt, lastEvaluatedAt, updatedAt, ...fields } = rule;
+    return {
+      ...fields,
+      conditions: JSON.stringify(conditions),
+      ...(lastEvaluatedAt && { lastEvaluatedAt: lastEvaluatedAt.toISOString() }),
+      updatedAt: updatedAt.toISOString()
+    };
+  }
+
+  private toAlertType(alert: Alert): AlertType {
+    return {
+      id: alert.id,
+      ruleId: alert.ruleId,
+      ...(alert.ruleName !== undefined && { ruleName: alert.ruleName }),
+      ...(alert.keywordId !== undefined && { keywordId: alert.keywordId }),
+      severity: alert.severity,
+      title: alert.title,
+      message: alert.message,
+      ...(alert.context !== undefined && { context: JSON.stringify(alert.context) }),
+      status: alert.status,
+      occurrences: alert.occurrences,
+      firstTriggeredAt: alert.firstTriggeredAt.toISOString(),
+      lastTriggeredAt: alert.lastTriggeredAt.toISOString(),
+      ...(alert.lastNotifiedAt && { lastNotifiedAt: alert.lastNotifiedAt.toISOString() }),
+      ...(alert.deliveryError !== undefined && { deliveryError: alert.deliveryError }),
+      ...(alert.snoozedUntil && { snoozedUntil: alert.snoozedUntil.toISOString() }),
+      read: alert.readAt !== undefined,
+      ...(alert.acknowledgedAt && { acknowledgedAt: alert.acknowledgedAt.toISOString() }),
+      ...(alert.resolvedAt && { resolvedAt: alert.resolvedAt.toISOString() })
+    };
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ApiTokenResolver } from './api-token.resolver';
+import { CommonModule } from '../../common/common.module';
+
+@Module({
+  imports: [CommonModule],
+  providers: [
+    ApiTokenResolver
+  ]
+})
+export class ApiTokenModule {}
@@ -0,0 +1,155 @@
+import { UseGuards } from '@nestjs/common';
+import { Resolver, Query, Mutation, Args, Context, Field, ObjectType, InputType, Int } from '@nestjs/graphql';
+import { Request } from 'express';
+import {
+  ApiTokenActor,
+  ApiTokenInfo,
+  ApiTokenService,
+  ApiTokenType,
+  API_TOKEN_TYPES,
+} from '../../services/api-token.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@ObjectType()
+export class ApiTokenInfoType {
+  @Field()
+  id: string;
+
+  @Field()
+  name: string;
+
+  @Field({ description: 'personal 或 service' })
+  type: string;
+
+  @Field({ description: '令牌开头几位，用于辨认' })
+  tokenPrefix: string;
+
+  @Field(() => [String])
+  permissions: string[];
+
+  @Field()
+  userId: string;
+
+  @Field()
+  userEmail: string;
+
+  @Field()
+  expiresAt: string;
+
+  @Field({ nullable: true })
+  revokedAt?: string;
+
+  @Field({ nullable: true })
+  lastUsedAt?: string;
+
+  @Field({ nullable: true })
+  lastUsedIp?: string;
+
+  @Field()
+  createdAt: string;
+}
+
+@ObjectType()
+export class CreatedApiTokenType {
+  @Field({ description: '明文令牌，只返回这一次' })
+  token: string;
+
+  @Field(() => ApiTokenInfoType)
+  apiToken: ApiTokenInfoType;
+}
+
+@InputType()
+export class CreateApiTokenInputType {
+  @Field()
+  name: string;
+
+  @Field({ nullable: true, description: 'personal（默认）或 service；服务令牌需要 api_token:manage 权限' })
+  type?: string;
+
+  @Field(() => [String], { description: '令牌可用的权限，不能超出自己当前拥有的权限' })
+  permissions: string[];
+
+  @Field(() => Int, { nullable: true, description: '有效天数，默认 90 天' })
+  expiresInDays?: number;
+}
+
+type TokenUser = { id: string; email?: string; apiTokenId?: string };
+type GraphQLContext = { req: Request };
+
+@Resolver()
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ApiTokenResolver {
+  constructor(private apiTokenService: ApiTokenService) {}
+
+  @Query(() => [ApiTokenInfoType], { description: 'API 令牌列表；没有 api_token:manage 权限时只返回自己的令牌' })
+  async apiTokens(
+    @CurrentUser() user: TokenUser,
+    @Context() context: GraphQLContext,
+    @Args('userId', { nullable: true }) userId?: string,
+    @Args('type', { nullable: true, description: 'personal 或 service' }) type?: string,
+    @Args('includeRevoked', { nullable: true, defaultValue: false }) includeRevoked?: boolean
+  ): Promise<ApiTokenInfoType[]> {
+    if (type && !API_TOKEN_TYPES.includes(type as ApiTokenType)) {
+      throw new Error(`不支持的令牌类型: ${type}`);
+    }
+    const tokens = await this.apiTokenService.list(this.toActor(user, context), {
+      ...(userId && { userId }),
+      ...(type && { type: type as ApiTokenType }),
+      ...(includeRevoked && { includeRevoked }),
+    });
+    return tokens.map(token => this.toApiTokenInfoType(token));
+  }
+
+  @Mutation(() => CreatedApiTokenType)
+  async createApiToken(
+    @Args('input', { type: () => CreateApiTokenInputType }) input: CreateApiTokenInputType,
+    @CurrentUser() user: TokenUser,
+    @Context() context: GraphQLContext
+  ): Promise<CreatedApiTokenType> {
+    const { token, apiToken } = await this.apiTokenService.create(this.toActor(user, context), {
+      name: input.name,
+      permissions: input.permissions,
+      ...(input.type && { type: input.type }),
+      ...(input.expiresInDays !== undefined && input.expiresInDays !== null && { expiresInDays: input.expiresInDays }),
+    });
+    return { token, apiToken: this.toApiTokenInfoType(apiToken) };
+  }
+
+  @Mutation(() => Boolean, { description: '撤销令牌，立即失效' })
+  async revokeApiToken(
+    @Args('id') id: string,
+    @CurrentUser() user: TokenUser,
+    @Context() context: GraphQLContext
+  ): Promise<boolean> {
+    return this.apiTokenService.revoke(this.toActor(user, context), id);
+  }
+
+  /**
+   * 令牌管理只允许账号登录后操作，避免泄露的令牌用于签发新令牌
+   */
+  private toActor(user: TokenUser, { req }: GraphQLContext): ApiTokenActor {
+    if (user.apiTokenId) {
+      throw new Error('API 令牌不能用于管理令牌，请使用账号登录');
+    }
+    const userAgent = req.get('user-agent');
+    return {
+      id: user.id,
+      ...(user.email && { email: user.email }),
+      ...(req.ip && { ip: req.ip }),
+      ...(userAgent && { userAgent }),
+    };
+  }
+
+  private toApiTokenInfoType(token: ApiTokenInfo): ApiTokenInfoType {
+    const { expiresAt, revokedAt, lastUsedAt, createdAt, ...fields } = token;
+    return {
+      ...fields,
+      expiresAt: expiresAt.toISOString(),
+      ...(revokedAt && { revokedAt: revokedAt.toISOString() }),
+      ...(lastUsedAt && { lastUsedAt: lastUsedAt.toISOString() }),
+      createdAt: createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { AuditResolver } from './audit.resolver';
+import { PrismaService } from '../../common/prisma.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { CommonModule } from '../../common/common.module';
+
+@Module({
+  imports: [ConfigModule, CommonModule],
+  providers: [
+    AuditResolver,
+    PrismaService,
+    AuditLogService
+  ],
+  exports: [
+    AuditLogService
+  ]
+})
+export class AuditModule {}
@@ -0,0 +1,155 @@
+import { UseGuards } from '@nestjs/common';
+import { Resolver, Query, Args, Field, ObjectType, InputType, Int } from '@nestjs/graphql';
+import {
+  AuditFieldChange,
+  AuditLogEntry,
+  AuditLogService,
+  AuditResourceType,
+  AUDIT_RESOURCE_TYPES,
+} from '../../services/audit-log.service';
+import { PERMISSIONS } from '../../common/permissions';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { requireFieldPermission } from '../../common/middleware/field-permission.middleware';
+
+@ObjectType()
+export class AuditFieldChangeType {
+  @Field()
+  field: string;
+
+  @Field({ nullable: true })
+  before?: string; // JSON string
+
+  @Field({ nullable: true })
+  after?: string; // JSON string
+}
+
+@ObjectType()
+export class AuditLogEntryType {
+  @Field()
+  id: string;
+
+  @Field()
+  occurredAt: string;
+
+  @Field()
+  operationType: string;
+
+  @Field()
+  operationName: string;
+
+  @Field()
+  resourceType: string;
+
+  @Field({ nullable: true })
+  resourceId?: string;
+
+  @Field({ nullable: true })
+  userId?: string;
+
+  @Field({ nullable: true })
+  userEmail?: string;
+
+  @Field()
+  correlationId: string;
+
+  @Field()
+  success: boolean;
+
+  @Field({ nullable: true })
+  error?: string;
+
+  @Field({ nullable: true, middleware: [requireFieldPermission(PERMISSIONS.AUDIT_READ_SENSITIVE)] })
+  inputData?: string; // JSON string
+
+  @Field(() => [AuditFieldChangeType])
+  changes: AuditFieldChangeType[];
+
+  @Field(() => Int)
+  durationMs: number;
+
+  @Field({ nullable: true, middleware: [requireFieldPermission(PERMISSIONS.AUDIT_READ_SENSITIVE)] })
+  clientIp?: string;
+
+  @Field({ nullable: true, middleware: [requireFieldPermission(PERMISSIONS.AUDIT_READ_SENSITIVE)] })
+  userAgent?: string;
+
+  @Field({ nullable: true, description: '通过 API 令牌发起的操作对应的令牌 ID' })
+  apiTokenId?: string;
+}
+
+@ObjectType()
+export class AuditLogPageType {
+  @Field(() => [AuditLogEntryType])
+  entries: AuditLogEntryType[];
+
+  @Field(() => Int)
+  total: number;
+}
+
+@InputType()
+export class AuditDateRangeInputType {
+  @Field({ nullable: true, description: 'ISO 时间，包含' })
+  from?: string;
+
+  @Field({ nullable: true, description: 'ISO 时间，不包含' })
+  to?: string;
+}
+
+@Resolver()
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class AuditResolver {
+  constructor(private auditLogs: AuditLogService) {}
+
+  @Query(() => AuditLogPageType)
+  @RequirePermissions(PERMISSIONS.AUDIT_READ)
+  async auditLog(
+    @Args('resourceId', { nullable: true }) resourceId?: string,
+    @Args('userId', { nullable: true }) userId?: string,
+    @Args('dateRange', { type: () => AuditDateRangeInputType, nullable: true }) dateRange?: AuditDateRangeInputType,
+    @Args('resourceType', { nullable: true, description: 'keyword、keyword_metric、keyword_cluster、keyword_scoring_config、keyword_saved_view、content_item 或 api_token' }) resourceType?: string,
+    @Args('limit', { type: () => Int, nullable: true, defaultValue: 50 }) limit?: number,
+    @Args('offset', { type: () => Int, nullable: true, defaultValue: 0 }) offset?: number
+  ): Promise<AuditLogPageType> {
+    if (resourceType && !AUDIT_RESOURCE_TYPES.includes(resourceType as AuditResourceType)) {
+      throw new Error(`不支持的审计资源类型: ${resourceType}`);
+    }
+    const page = await this.auditLogs.query({
+      ...(resourceId && { resourceId }),
+      ...(userId && { userId }),
+      ...(resourceType && { resourceType: resourceType as AuditResourceType }),
+      ...(dateRange?.from && { from: this.parseDate(dateRange.from, 'from') }),
+      ...(dateRange?.to && { to: this.parseDate(dateRange.to, 'to') }),
+      ...(limit !== undefined && { limit }),
+      ...(offset !== undefined && { offset }),
+    });
+    return { entries: page.entries.map(entry => this.toAuditLogEntryType(entry)), total: page.total };
+  }
+
+  private parseDate(value: string, field: string): Date {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`dateRange.${field} 不是合法的时间: ${value}`);
+    }
+    return date;
+  }
+
+  private toAuditLogEntryType(entry: AuditLogEntry): AuditLogEntryType {
+    const { occurredAt, inputData, changes, ...fields } = entry;
+    return {
+      ...fields,
+      occurredAt: occurredAt.toISOString(),
+      ...(inputData !== undefined && { inputData: JSON.stringify(inputData) }),
+      changes: changes.map(change => this.toAuditFieldChangeType(change)),
+    };
+  }
+
+  private toAuditFieldChangeType(change: AuditFieldChange): AuditFieldChangeType {
+    return {
+      field: change.field,
+      ...(change.before !== null && change.before !== undefined && { before: JSON.stringify(change.before) }),
+      ...(change.after !== null && change.after !== undefined && { after: JSON.stringify(change.after) }),
+    };
+  }
+}
@@ -0,0 +1,161 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+export type AuthProviderName = 'local' | 'mock' | 'oidc';
+
+export const AUTH_PROVIDER_NAMES: AuthProviderName[] = ['local', 'mock', 'oidc'];
+
+export interface MockAuthSettings {
+  email: string;
+  role: string;
+}
+
+export interface OidcGroupRoleMapping {
+  group: string;
+  role: string;
+}
+
+export interface OidcSettings {
+  issuerUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string[];
+  /** 首次登录时自动创建用户 */
+  jitProvisioning: boolean;
+  /** 没有匹配的组时新用户的角色 */
+  defaultRole: string;
+  groupsClaim: string;
+  departmentClaim: string;
+  /** 按配置顺序匹配，取第一个用户所属组对应的角色 */
+  groupRoleMappings: OidcGroupRoleMapping[];
+}
+
+const DEFAULT_PROVIDERS: AuthProviderName[] = ['local'];
+
+/**
+ * JWT 签名密钥；生产环境必须显式配置
+ */
+export function resolveJwtSecret(configService: ConfigService): string {
+  const secret = configService.get<string>('JWT_SECRET');
+  if (!secret && configService.get<string>('NODE_ENV') === 'production') {
+    throw new Error('生产环境必须配置 JWT_SECRET');
+  }
+  return secret || 'your-secret-key';
+}
+
+/**
+ * 认证方式配置
+ *
+ * AUTH_PROVIDERS 以逗号分隔启用的登录方式：local（邮箱密码）、mock（开发环境免密登录）、oidc（企业 SSO）；
+ * mock 在生产环境不可启用，oidc 需配置 OIDC_ISSUER_URL / OIDC_CLIENT_ID / OIDC_REDIRECT_URI；
+ * SSO 用户的自动创建、组到角色的映射和部门同步由 OIDC_JIT_PROVISIONING / OIDC_GROUP_ROLE_MAP / OIDC_*_CLAIM 控制
+ */
+@Injectable()
+export class AuthConfig {
+  readonly providers: AuthProviderName[];
+
+  constructor(private readonly configService: ConfigService) {
+    this.providers = this.parseProviders();
+
+    if (this.isEnabled('mock') && this.isProduction()) {
+      throw new Error('生产环境不能启用 mock 登录');
+    }
+    if (this.isEnabled('oidc')) {
+      this.getOidcSettings();
+    }
+  }
+
+  isEnabled(provider: AuthProviderName): boolean {
+    return this.providers.includes(provider);
+  }
+
+  isProduction(): boolean {
+    return this.configService.get<string>('NODE_ENV') === 'production';
+  }
+
+  assertEnabled(provider: AuthProviderName): void {
+    if (!this.isEnabled(provider)) {
+      throw new ForbiddenException(`Auth provider "${provider}" is disabled`);
+    }
+  }
+
+  getJwtSecret(): string {
+    return resolveJwtSecret(this.configService);
+  }
+
+  getMockSettings(): MockAuthSettings {
+    return {
+      email: this.configService.get<string>('MOCK_AUTH_EMAIL', 'dev@geo-platform.local'),
+      role: this.configService.get<string>('MOCK_AUTH_ROLE', 'admin'),
+    };
+  }
+
+  getOidcSettings(): OidcSettings {
+    const issuerUrl = this.configService.get<string>('OIDC_ISSUER_URL');
+    const clientId = this.configService.get<string>('OIDC_CLIENT_ID');
+    const redirectUri = this.configService.get<string>('OIDC_REDIRECT_URI');
+    if (!issuerUrl || !clientId || !redirectUri) {
+      throw new Error('启用 oidc 登录时必须配置 OIDC_ISSUER_URL、OIDC_CLIENT_ID 和 OIDC_REDIRECT_URI');
+    }
+
+    const clientSecret = this.configService.get<string>('OIDC_CLIENT_SECRET');
+    return {
+      issuerUrl: issuerUrl.replace(/\/+$/, ''),
+      clientId,
+      ...(clientSecret && { clientSecret }),
+      redirectUri,
+      scopes: this.configService.get<string>('OIDC_SCOPES', 'openid profile email').split(/[\s,]+/).filter(Boolean),
+      jitProvisioning: this.configService.get<string>('OIDC_JIT_PROVISIONING', 'true') !== 'false',
+      defaultRole: this.configService.get<string>('OIDC_DEFAULT_ROLE')
+        || this.configService.get<string>('DEFAULT_USER_ROLE', 'analyst'),
+      groupsClaim: this.configService.get<string>('OIDC_GROUPS_CLAIM', 'groups'),
+      departmentClaim: this.configService.get<string>('OIDC_DEPARTMENT_CLAIM', 'department'),
+      groupRoleMappings: this.parseGroupRoleMappings(),
+    };
+  }
+
+  /**
+   * OIDC_GROUP_ROLE_MAP 为 JSON 对象，如 {"geo-admins": "admin", "marketing": "editor"}
+   */
+  private parseGroupRoleMappings(): OidcGroupRoleMapping[] {
+    const value = this.configService.get<string>('OIDC_GROUP_ROLE_MAP');
+    if (!value) {
+      return [];
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      throw new Error('OIDC_GROUP_ROLE_MAP 必须是 JSON 对象');
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('OIDC_GROUP_ROLE_MAP 必须是 JSON 对象');
+    }
+
+    return Object.entries(parsed as Record<string, unknown>).map(([group, role]) => {
+      if (typeof role !== 'string' || !role) {
+        throw new Error(`OIDC_GROUP_ROLE_MAP 中组 ${group} 的角色无效`);
+      }
+      return { group, role };
+    });
+  }
+
+  private parseProviders(): AuthProviderName[] {
+    const value = this.configService.get<string>('AUTH_PROVIDERS');
+    if (!value) {
+      return DEFAULT_PROVIDERS;
+    }
+
+    const names = [...new Set(value.split(',').map(name => name.trim()).filter(Boolean))];
+    const unknown = names.filter(name => !AUTH_PROVIDER_NAMES.includes(name as AuthProviderName));
+    if (unknown.length > 0) {
+      throw new Error(`未知的认证方式: ${unknown.join(', ')}`);
+    }
+    if (names.length === 0) {
+      throw new Error('AUTH_PROVIDERS 至少需要启用一种认证方式');
+    }
+    return names as AuthProviderName[];
+  }
+}
@@ -1,25 +1,41 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { AuthService } from './auth.service';
 import { AuthResolver } from './auth.resolver';
+import { AuthConfig, resolveJwtSecret } from './auth.config';
 import { JwtStrategy } from './jwt.strategy';
+import { MockAuthProvider } from './providers/mock-auth.provider';
+import { OidcAuthProvider } from './providers/oidc-auth.provider';
 import { PrismaService } from '../../common/prisma.service';
+import { CommonModule } from '../../common/common.module';
+import { MailService } from '../../services/mail.service';
 
+/**
+ * 认证模块：登录方式由 AUTH_PROVIDERS 选择（见 AuthConfig），各方式认证后统一由 AuthService 创建会话
+ */
 @Module({
   imports: [
+    ConfigModule,
+    CommonModule,
     PassportModule.register({ defaultStrategy: 'jwt' }),
-    JwtModule.register({
-      secret: process.env['JWT_SECRET'] || 'your-secret-key',
-      signOptions: { expiresIn: '7d' },
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({ secret: resolveJwtSecret(configService) }),
     }),
   ],
   providers: [
+    AuthConfig,
     AuthService,
     AuthResolver,
     JwtStrategy,
+    MockAuthProvider,
+    OidcAuthProvider,
     PrismaService,
+    MailService,
   ],
-  exports: [AuthService],
+  exports: [AuthService, AuthConfig],
 })
-export class AuthModule {}
\ No newline at end of file
+export class AuthModule {}
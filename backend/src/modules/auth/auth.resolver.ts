@@ -1,31 +1,147 @@
-import { Resolver, Mutation, Args, Query } from '@nestjs/graphql';
+import { Resolver, Mutation, Args, Query, Context, Int } from '@nestjs/graphql';
 import { UseGuards } from '@nestjs/common';
-import { AuthService } from './auth.service';
-import { AuthResponse, LoginInput, RegisterInput, User } from './dto/auth.dto';
+import { AuthService, ClientInfo } from './auth.service';
+import { AuthConfig } from './auth.config';
+import { MockAuthProvider } from './providers/mock-auth.provider';
+import { OIDC_STATE_COOKIE, OidcAuthProvider, STATE_TTL_MS } from './providers/oidc-auth.provider';
+import {
+  AuthResponse,
+  ChangePasswordInput,
+  LoginInput,
+  RegisterInput,
+  ResetPasswordInput,
+  User,
+} from './dto/auth.dto';
 import { CurrentUser } from './decorators/current-user.decorator';
 import { GqlAuthGuard } from './guards/gql-auth.guard';
 
+type SessionUser = User & { sessionId: string };
+
 @Resolver()
 export class AuthResolver {
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private authConfig: AuthConfig,
+    private mockAuthProvider: MockAuthProvider,
+    private oidcAuthProvider: OidcAuthProvider,
+  ) {}
+
+  @Query(() => [String], { description: '已启用的登录方式：local / mock / oidc' })
+  authProviders(): string[] {
+    return this.authConfig.providers;
+  }
 
   @Mutation(() => AuthResponse)
-  async login(@Args('input') input: LoginInput): Promise<AuthResponse> {
-    return this.authService.login(input.email, input.password);
+  async login(@Args('input') input: LoginInput, @Context() context: any): Promise<AuthResponse> {
+    return this.authService.login(input.email, input.password, this.getClientInfo(context));
   }
 
   @Mutation(() => AuthResponse)
-  async register(@Args('input') input: RegisterInput): Promise<AuthResponse> {
+  async register(@Args('input') input: RegisterInput, @Context() context: any): Promise<AuthResponse> {
     return this.authService.register(
       input.email,
       input.username,
       input.password,
+      this.getClientInfo(context),
     );
   }
 
+  @Mutation(() => AuthResponse, { description: '开发环境免密登录，未指定邮箱时使用 MOCK_AUTH_EMAIL' })
+  async mockLogin(
+    @Args('email', { type: () => String, nullable: true }) email: string | undefined,
+    @Context() context: any,
+  ): Promise<AuthResponse> {
+    const user = await this.mockAuthProvider.authenticate(email);
+    return this.authService.createSession(user, this.getClientInfo(context));
+  }
+
+  @Query(() => String, { description: 'SSO 授权地址；returnTo 为登录后返回的站内路径' })
+  async oidcAuthorizationUrl(
+    @Args('returnTo', { type: () => String, nullable: true }) returnTo: string | undefined,
+    @Context() context: any,
+  ): Promise<string> {
+    const { url, binding } = await this.oidcAuthProvider.createAuthorizationUrl(returnTo);
+    context?.res?.cookie(OIDC_STATE_COOKIE, binding, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: this.authConfig.isProduction(),
+      maxAge: STATE_TTL_MS,
+    });
+    return url;
+  }
+
+  @Mutation(() => AuthResponse, { description: 'SSO 回调：用 IdP 返回的 code 和 state 登录' })
+  async oidcLogin(
+    @Args('code') code: string,
+    @Args('state') state: string,
+    @Context() context: any,
+  ): Promise<AuthResponse> {
+    const { user, returnTo } = await this.oidcAuthProvider.authenticate(
+      code,
+      state,
+      this.readCookie(context, OIDC_STATE_COOKIE),
+    );
+    context?.res?.clearCookie(OIDC_STATE_COOKIE);
+    const tokens = await this.authService.createSession(user, this.getClientInfo(context));
+    return { ...tokens, ...(returnTo && { returnTo }) };
+  }
+
+  @Mutation(() => AuthResponse)
+  async refreshToken(
+    @Args('refreshToken') refreshToken: string,
+    @Context() context: any,
+  ): Promise<AuthResponse> {
+    return this.authService.refreshTokens(refreshToken, this.getClientInfo(context));
+  }
+
+  @Mutation(() => Boolean, { description: '撤销当前会话' })
+  @UseGuards(GqlAuthGuard)
+  async logout(@CurrentUser() user: SessionUser): Promise<boolean> {
+    return this.authService.logout(user.sessionId);
+  }
+
+  @Mutation(() => Int, { description: '撤销全部会话（包括当前会话），返回撤销数量' })
+  @UseGuards(GqlAuthGuard)
+  async revokeAllSessions(@CurrentUser() user: SessionUser): Promise<number> {
+    return this.authService.revokeAllSessions(user.id);
+  }
+
+  @Mutation(() => Boolean, { description: '修改密码，其他会话随之失效' })
+  @UseGuards(GqlAuthGuard)
+  async changePassword(
+    @CurrentUser() user: SessionUser,
+    @Args('input') input: ChangePasswordInput,
+  ): Promise<boolean> {
+    return this.authService.changePassword(user.id, user.sessionId, input.currentPassword, input.newPassword);
+  }
+
+  @Mutation(() => Boolean, { description: '发送密码重置邮件；无论邮箱是否存在均返回 true' })
+  async requestPasswordReset(@Args('email') email: string, @Context() context: any): Promise<boolean> {
+    return this.authService.requestPasswordReset(email, this.getClientInfo(context));
+  }
+
+  @Mutation(() => Boolean)
+  async resetPassword(@Args('input') input: ResetPasswordInput): Promise<boolean> {
+    return this.authService.resetPassword(input.token, input.newPassword);
+  }
+
   @Query(() => User)
   @UseGuards(GqlAuthGuard)
   async currentUser(@CurrentUser() user: User): Promise<User> {
     return user;
   }
-}
\ No newline at end of file
+
+  private readCookie(context: any, name: string): string | undefined {
+    const header: string | undefined = context?.req?.headers?.cookie;
+    const pair = header?.split(';').map(item => item.trim()).find(item => item.startsWith(`${name}=`));
+    return pair?.slice(name.length + 1);
+  }
+
+  private getClientInfo(context: any): ClientInfo {
+    const request = context?.req;
+    return {
+      ...(request?.ip && { ip: request.ip }),
+      ...(request?.get?.('user-agent') && { userAgent: request.get('user-agent') }),
+    };
+  }
+}
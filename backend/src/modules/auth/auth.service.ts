@@ -1,85 +1,334 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { BadRequestException, HttpException, HttpStatus, Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
+import { Prisma } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
 import { PrismaService } from '../../common/prisma.service';
+import { MailService } from '../../services/mail.service';
+import { AuthConfig } from './auth.config';
 import * as bcrypt from 'bcrypt';
 
+export interface ClientInfo {
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface AccessTokenPayload {
+  sub: string;
+  email: string;
+  role: string;
+  /** 会话 ID，会话撤销后 access token 随即失效 */
+  sid: string;
+}
+
+/**
+ * 已通过任一登录方式认证的用户
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  username: string;
+  role: string;
+  createdAt: Date;
+}
+
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+const DEFAULT_PASSWORD_RESET_TTL_MINUTES = 30;
+const DEFAULT_LOCKOUT_THRESHOLD = 5;
+const DEFAULT_LOCKOUT_MINUTES = 15;
+const DEFAULT_RATE_LIMIT_MAX = 20;
+const DEFAULT_RATE_LIMIT_WINDOW_SECONDS = 60;
+/** 限流记录的来源数超过该值时清理已过窗口的记录 */
+const RATE_LIMIT_SWEEP_SIZE = 10000;
+const TOKEN_BYTES = 32;
+const BCRYPT_ROUNDS = 10;
+
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  /** 按来源 IP 记录近期登录尝试时间，超出窗口内上限时拒绝；单实例内存计数 */
+  private readonly loginAttempts = new Map<string, number[]>();
+
   constructor(
     private prisma: PrismaService,
     private jwtService: JwtService,
+    private configService: ConfigService,
+    private mailService: MailService,
+    private authConfig: AuthConfig,
   ) {}
 
   async validateUser(email: string, password: string): Promise<any> {
     const user = await this.prisma.user.findUnique({
       where: { email },
+      include: { role: { select: { name: true } } },
     });
 
-    if (user && await bcrypt.compare(password, user.password)) {
-      const { password: _, ...result } = user;
-      return result;
+    // SSO 或 mock 创建的用户没有密码，不能使用密码登录
+    if (user?.passwordHash && await bcrypt.compare(password, user.passwordHash)) {
+      const { passwordHash: _, role, ...result } = user;
+      return { ...result, role: role.name };
     }
 
     return null;
   }
 
-  async login(email: string, password: string) {
-    const user = await this.validateUser(email, password);
-    
+  /**
+   * 登录；按来源 IP 限流，同一账号连续失败达到阈值后锁定一段时间
+   */
+  async login(email: string, password: string, client: ClientInfo = {}) {
+    this.authConfig.assertEnabled('local');
+    this.assertLoginRateLimit(client.ip);
+
+    const account = await this.prisma.user.findUnique({
+      where: { email },
+      select: { id: true, isActive: true, lockedUntil: true },
+    });
+    // 锁定期内与密码错误返回相同提示，避免据此探测账号是否存在
+    if (account?.lockedUntil && account.lockedUntil > new Date()) {
+      this.logger.warn(`账号锁定期内尝试登录: ${account.id}`);
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    const user = account?.isActive ? await this.validateUser(email, password) : null;
     if (!user) {
+      if (account) {
+        await this.recordFailedLogin(account.id);
+      }
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    const payload = { 
-      sub: user.id, 
-      email: user.email,
-      role: user.role 
-    };
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: 0, lockedUntil: null },
+    });
 
-    return {
-      access_token: this.jwtService.sign(payload),
-      user: {
-        id: user.id,
-        email: user.email,
-        username: user.username,
-        role: user.role,
-      },
-    };
+    return this.createSession(user, client);
   }
 
-  async register(email: string, username: string, password: string) {
-    const hashedPassword = await bcrypt.hash(password, 10);
+  async register(email: string, username: string, password: string, client: ClientInfo = {}) {
+    this.authConfig.assertEnabled('local');
+    const hashedPassword = await bcrypt.hash(password, BCRYPT_ROUNDS);
 
     try {
       const user = await this.prisma.user.create({
         data: {
           email,
           username,
-          password: hashedPassword,
-          role: 'USER',
+          passwordHash: hashedPassword,
+          // 新用户默认角色，管理员可通过 assignUserRole 调整
+          role: { connect: { name: this.configService.get<string>('DEFAULT_USER_ROLE', 'analyst') } },
         },
+        include: { role: { select: { name: true } } },
       });
 
-      const { password: _, ...result } = user;
-      
-      const payload = { 
-        sub: user.id, 
-        email: user.email,
-        role: user.role 
-      };
+      const { passwordHash: _, role, ...result } = user;
+      const tokens = await this.createSession({ ...result, role: role.name }, client);
 
       return {
-        access_token: this.jwtService.sign(payload),
-        user: result,
+        ...tokens,
+        user: { ...result, role: role.name },
       };
     } catch (error) {
-      if (error.code === 'P2002') {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
         throw new UnauthorizedException('User already exists');
       }
       throw error;
     }
   }
 
+  /**
+   * 轮换 refresh token：旧令牌立即失效；已轮换过的旧令牌再次出现视为泄露，撤销整个会话
+   */
+  async refreshTokens(refreshToken: string, client: ClientInfo = {}) {
+    const tokenHash = this.hashToken(refreshToken);
+    const session = await this.prisma.userSession.findUnique({ where: { refreshTokenHash: tokenHash } });
+
+    if (!session) {
+      const reused = await this.prisma.userSession.findUnique({ where: { previousTokenHash: tokenHash } });
+      if (reused && !reused.revokedAt) {
+        await this.revokeSession(reused.id);
+        this.logger.warn(`refresh token 重复使用，已撤销会话: ${reused.id} (user ${reused.userId})`);
+      }
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    if (session.revokedAt || session.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Session expired');
+    }
+
+    const user = await this.getUserById(session.userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const nextToken = this.generateToken();
+    const { count } = await this.prisma.userSession.updateMany({
+      where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: this.hashToken(nextToken),
+        previousTokenHash: tokenHash,
+        lastUsedAt: new Date(),
+        ...(client.ip && { clientIp: client.ip }),
+        ...(client.userAgent && { userAgent: client.userAgent }),
+      },
+    });
+    // 并发刷新时只有一个请求能完成轮换
+    if (count === 0) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    return {
+      access_token: this.signAccessToken(user, session.id),
+      refresh_token: nextToken,
+      expires_in: this.getAccessTokenTtlSeconds(),
+      user,
+    };
+  }
+
+  /**
+   * JWT 校验通过后确认会话仍有效，返回挂到 req.user 的用户信息
+   */
+  async validateAccessToken(payload: AccessTokenPayload) {
+    if (!payload.sid) {
+      return null;
+    }
+
+    const session = await this.prisma.userSession.findUnique({
+      where: { id: payload.sid },
+      select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+    if (!session || session.userId !== payload.sub || session.revokedAt || session.expiresAt <= new Date()) {
+      return null;
+    }
+
+    const user = await this.getUserById(payload.sub);
+    return user?.isActive ? { ...user, sessionId: payload.sid } : null;
+  }
+
+  async logout(sessionId: string): Promise<boolean> {
+    return this.revokeSession(sessionId);
+  }
+
+  /**
+   * 撤销用户的全部会话，可保留当前会话；返回撤销数量
+   */
+  async revokeAllSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const { count } = await this.prisma.userSession.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: new Date() },
+    });
+    this.logger.log(`撤销用户会话: ${userId} (${count} 个)`);
+    return count;
+  }
+
+  /**
+   * 修改密码，成功后撤销当前会话以外的全部会话
+   */
+  async changePassword(userId: string, sessionId: string, currentPassword: string, newPassword: string): Promise<boolean> {
+    this.authConfig.assertEnabled('local');
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user?.passwordHash || !(await bcrypt.compare(currentPassword, user.passwordHash))) {
+      throw new UnauthorizedException('Current password is incorrect');
+    }
+    if (currentPassword === newPassword) {
+      throw new BadRequestException('New password must differ from the current password');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { passwordHash: await bcrypt.hash(newPassword, BCRYPT_ROUNDS), passwordChangedAt: new Date() },
+    });
+    await this.revokeAllSessions(userId, sessionId);
+    return true;
+  }
+
+  /**
+   * 发送密码重置邮件；邮箱不存在或账号停用时同样返回 true，避免暴露账号是否存在
+   */
+  async requestPasswordReset(email: string, client: ClientInfo = {}): Promise<boolean> {
+    this.authConfig.assertEnabled('local');
+    this.assertLoginRateLimit(client.ip);
+
+    const user = await this.prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, username: true, isActive: true },
+    });
+    if (!user || !user.isActive) {
+      return true;
+    }
+
+    const token = this.generateToken();
+    const ttlMinutes = this.getNumber('PASSWORD_RESET_TTL_MINUTES', DEFAULT_PASSWORD_RESET_TTL_MINUTES);
+    await this.prisma.$transaction([
+      // 新令牌生效后旧令牌作废
+      this.prisma.passwordResetToken.updateMany({
+        where: { userId: user.id, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+      this.prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: this.hashToken(token),
+          expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+        },
+      }),
+    ]);
+
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000');
+    const resetUrl = `${frontendUrl}/reset-password?token=${encodeURIComponent(token)}`;
+    await this.mailService.send({
+      to: user.email,
+      subject: 'GEO Platform 密码重置',
+      text: [
+        `${user.username}，您好：`,
+        '',
+        `请在 ${ttlMinutes} 分钟内打开以下链接重置密码：`,
+        resetUrl,
+        '',
+        '如果不是您本人操作，请忽略此邮件。',
+      ].join('\n'),
+    });
+
+    return true;
+  }
+
+  /**
+   * 使用重置令牌设置新密码，同时解除锁定并撤销全部会话
+   */
+  async resetPassword(token: string, newPassword: string): Promise<boolean> {
+    this.authConfig.assertEnabled('local');
+    const resetToken = await this.prisma.passwordResetToken.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+    });
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Invalid or expired reset token');
+    }
+
+    const { count } = await this.prisma.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new UnauthorizedException('Invalid or expired reset token');
+    }
+
+    await this.prisma.user.update({
+      where: { id: resetToken.userId },
+      data: {
+        passwordHash: await bcrypt.hash(newPassword, BCRYPT_ROUNDS),
+        passwordChangedAt: new Date(),
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      },
+    });
+    await this.revokeAllSessions(resetToken.userId);
+    return true;
+  }
+
   async getUserById(userId: string) {
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
@@ -87,11 +336,121 @@ export class AuthService {
         id: true,
         email: true,
         username: true,
-        role: true,
+        roleId: true,
+        role: { select: { name: true } },
+        isActive: true,
         createdAt: true,
       },
     });
 
-    return user;
+    return user && { ...user, role: user.role.name };
+  }
+
+  /**
+   * 为已认证的用户创建会话并签发令牌，各登录方式共用
+   */
+  async createSession(user: AuthenticatedUser, client: ClientInfo = {}) {
+    const refreshToken = this.generateToken();
+    const ttlDays = this.getNumber('REFRESH_TOKEN_TTL_DAYS', DEFAULT_REFRESH_TOKEN_TTL_DAYS);
+    const session = await this.prisma.userSession.create({
+      data: {
+        userId: user.id,
+        refreshTokenHash: this.hashToken(refreshToken),
+        expiresAt: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000),
+        clientIp: client.ip ?? null,
+        userAgent: client.userAgent ?? null,
+      },
+    });
+    await this.prisma.user.update({ where: { id: user.id }, data: { lastLoginAt: new Date() } });
+
+    return {
+      access_token: this.signAccessToken(user, session.id),
+      refresh_token: refreshToken,
+      expires_in: this.getAccessTokenTtlSeconds(),
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+        createdAt: user.createdAt,
+      },
+    };
+  }
+
+  private signAccessToken(user: AuthenticatedUser, sessionId: string): string {
+    const payload: AccessTokenPayload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+    };
+    return this.jwtService.sign(payload, { expiresIn: this.getAccessTokenTtlSeconds() });
+  }
+
+  private async revokeSession(sessionId: string): Promise<boolean> {
+    const { count } = await this.prisma.userSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  private async recordFailedLogin(userId: string): Promise<void> {
+    const threshold = this.getNumber('AUTH_LOCKOUT_THRESHOLD', DEFAULT_LOCKOUT_THRESHOLD);
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    });
+
+    if (user.failedLoginAttempts >= threshold) {
+      const minutes = this.getNumber('AUTH_LOCKOUT_MINUTES', DEFAULT_LOCKOUT_MINUTES);
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: { failedLoginAttempts: 0, lockedUntil: new Date(Date.now() + minutes * 60 * 1000) },
+      });
+      this.logger.warn(`连续 ${user.failedLoginAttempts} 次登录失败，锁定账号 ${minutes} 分钟: ${userId}`);
+    }
+  }
+
+  private assertLoginRateLimit(ip?: string): void {
+    const key = ip ?? 'unknown';
+    const windowMs = this.getNumber('LOGIN_RATE_LIMIT_WINDOW_SECONDS', DEFAULT_RATE_LIMIT_WINDOW_SECONDS) * 1000;
+    const max = this.getNumber('LOGIN_RATE_LIMIT_MAX', DEFAULT_RATE_LIMIT_MAX);
+    const now = Date.now();
+
+    if (this.loginAttempts.size > RATE_LIMIT_SWEEP_SIZE) {
+      for (const [source, times] of this.loginAttempts) {
+        if ((times[times.length - 1] ?? 0) <= now - windowMs) {
+          this.loginAttempts.delete(source);
+        }
+      }
+    }
+
+    const attempts = (this.loginAttempts.get(key) ?? []).filter(time => time > now - windowMs);
+    if (attempts.length >= max) {
+      this.loginAttempts.set(key, attempts);
+      throw new HttpException('Too many attempts, please try again later', HttpStatus.TOO_MANY_REQUESTS);
+    }
+    attempts.push(now);
+    this.loginAttempts.set(key, attempts);
+  }
+
+  private generateToken(): string {
+    return randomBytes(TOKEN_BYTES).toString('base64url');
+  }
+
+  /** 令牌只保存 SHA-256，数据库泄露不会直接暴露可用令牌 */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private getAccessTokenTtlSeconds(): number {
+    return this.getNumber('JWT_ACCESS_TOKEN_TTL_SECONDS', DEFAULT_ACCESS_TOKEN_TTL_SECONDS);
+  }
+
+  private getNumber(key: string, fallback: number): number {
+    const value = Number(this.configService.get<string>(key, String(fallback)));
+    return Number.isFinite(value) && value > 0 ? value : fallback;
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,4 @@
-import { ObjectType, Field, InputType } from '@nestjs/graphql';
+import { ObjectType, Field, InputType, Int } from '@nestjs/graphql';
 import { IsEmail, IsString, MinLength } from 'class-validator';
 
 @ObjectType()
@@ -24,8 +24,17 @@ export class AuthResponse {
   @Field()
   access_token: string;
 
+  @Field({ description: '用于 refreshToken 换取新令牌，每次使用后轮换' })
+  refresh_token: string;
+
+  @Field(() => Int, { description: 'access_token 有效秒数' })
+  expires_in: number;
+
   @Field(() => User)
   user: User;
+
+  @Field({ nullable: true, description: 'SSO 登录前所在的站内页面' })
+  returnTo?: string;
 }
 
 @InputType()
@@ -54,4 +63,28 @@ export class RegisterInput {
   @IsString()
   @MinLength(6)
   password: string;
-}
\ No newline at end of file
+}
+
+@InputType()
+export class ChangePasswordInput {
+  @Field()
+  @IsString()
+  currentPassword: string;
+
+  @Field()
+  @IsString()
+  @MinLength(6)
+  newPassword: string;
+}
+
+@InputType()
+export class ResetPasswordInput {
+  @Field()
+  @IsString()
+  token: string;
+
+  @Field()
+  @IsString()
+  @MinLength(6)
+  newPassword: string;
+}
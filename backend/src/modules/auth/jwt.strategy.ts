@@ -1,20 +1,21 @@
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PassportStrategy } from '@nestjs/passport';
 import { Injectable } from '@nestjs/common';
-import { AuthService } from './auth.service';
+import { AccessTokenPayload, AuthService } from './auth.service';
+import { AuthConfig } from './auth.config';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(private authService: AuthService) {
+  constructor(private authService: AuthService, authConfig: AuthConfig) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: process.env['JWT_SECRET'] || 'your-secret-key',
+      secretOrKey: authConfig.getJwtSecret(),
     });
   }
 
-  async validate(payload: any) {
-    const user = await this.authService.getUserById(payload.sub);
-    return user;
+  // 会话已撤销或用户已停用时返回 null，请求按未认证处理
+  async validate(payload: AccessTokenPayload) {
+    return this.authService.validateAccessToken(payload);
   }
 }
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { PrismaService } from '../../../common/prisma.service';
+import { AuthConfig } from '../auth.config';
+import { AuthenticatedUser } from '../auth.service';
+
+/**
+ * 开发环境免密登录：以指定邮箱（默认 MOCK_AUTH_EMAIL）登录，用户不存在时按 MOCK_AUTH_ROLE 创建
+ */
+@Injectable()
+export class MockAuthProvider {
+  private readonly logger = new Logger(MockAuthProvider.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly authConfig: AuthConfig,
+  ) {}
+
+  async authenticate(email?: string): Promise<AuthenticatedUser> {
+    this.authConfig.assertEnabled('mock');
+
+    const settings = this.authConfig.getMockSettings();
+    const targetEmail = (email ?? settings.email).trim().toLowerCase();
+
+    const user = await this.prisma.user.upsert({
+      where: { email: targetEmail },
+      update: {},
+      create: {
+        email: targetEmail,
+        username: targetEmail.split('@')[0] || targetEmail,
+        passwordHash: '',
+        role: { connect: { name: settings.role } },
+      },
+      include: { role: { select: { name: true } } },
+    });
+    if (!user.isActive) {
+      throw new UnauthorizedException('User is disabled');
+    }
+
+    this.logger.warn(`mock 登录: ${user.email} (${user.role.name})`);
+    return {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      role: user.role.name,
+      createdAt: user.createdAt,
+    };
+  }
+}
@@ -0,0 +1,409 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../../../common/prisma.service';
+import { RbacService } from '../../../services/rbac.service';
+import { AuthConfig, OidcSettings } from '../auth.config';
+import { AuthenticatedUser } from '../auth.service';
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+/**
+ * ID token 中使用的声明；组和部门的声明名可配置
+ */
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+  [claim: string]: unknown;
+}
+
+interface OidcState {
+  nonce: string;
+  codeVerifier: string;
+  /** 浏览器绑定值的哈希，回调时与 cookie 比对 */
+  bindingHash: string;
+  returnTo?: string;
+  expiresAt: number;
+}
+
+export interface OidcAuthorizationRequest {
+  url: string;
+  /** 写入 OIDC_STATE_COOKIE 的浏览器绑定值 */
+  binding: string;
+}
+
+export interface OidcLoginResult {
+  user: AuthenticatedUser;
+  returnTo?: string;
+}
+
+/** 保存 state 浏览器绑定值的 cookie，防止登录 CSRF（攻击者诱导受害者完成攻击者发起的登录） */
+export const OIDC_STATE_COOKIE = 'oidc_state';
+export const STATE_TTL_MS = 10 * 60 * 1000;
+const HTTP_TIMEOUT_MS = 10000;
+/** ID token 过期校验允许的时钟偏差 */
+const CLOCK_SKEW_SECONDS = 60;
+const STATE_IV_BYTES = 12;
+const STATE_TAG_BYTES = 16;
+const USERNAME_MAX_LENGTH = 50;
+
+/**
+ * 企业 SSO（OIDC 授权码模式 + PKCE）
+ *
+ * state 为加密的短期令牌，携带 nonce、PKCE code_verifier 和登录后的跳转地址，无需服务端保存且不向浏览器暴露 verifier；
+ * state 同时绑定发起登录的浏览器（OIDC_STATE_COOKIE），回调时 cookie 不匹配则拒绝。
+ * ID token 直接由 token 端点通过 TLS 返回，校验 iss / aud / exp / nonce。
+ * 用户按 sub 匹配，首次登录按已验证的邮箱关联已有用户或自动创建；每次登录按组映射同步角色，并同步部门和姓名。
+ * 本地开发可运行 npm run sso:mock-idp 并将 OIDC_ISSUER_URL 指向它
+ */
+@Injectable()
+export class OidcAuthProvider {
+  private readonly logger = new Logger(OidcAuthProvider.name);
+  private discovery: Promise<OidcDiscovery> | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwtService: JwtService,
+    private readonly authConfig: AuthConfig,
+    private readonly rbacService: RbacService,
+  ) {}
+
+  /**
+   * 生成跳转到 IdP 的授权地址，以及需写入 cookie 的浏览器绑定值
+   */
+  async createAuthorizationUrl(returnTo?: string): Promise<OidcAuthorizationRequest> {
+    this.authConfig.assertEnabled('oidc');
+    const settings = this.authConfig.getOidcSettings();
+    const discovery = await this.discover(settings);
+
+    const nonce = randomBytes(16).toString('base64url');
+    const codeVerifier = randomBytes(32).toString('base64url');
+    const binding = randomBytes(32).toString('base64url');
+    const safeReturnTo = returnTo ? this.sanitizeReturnTo(returnTo) : undefined;
+    const state = this.sealState({
+      nonce,
+      codeVerifier,
+      bindingHash: this.hashBinding(binding),
+      ...(safeReturnTo && { returnTo: safeReturnTo }),
+      expiresAt: Date.now() + STATE_TTL_MS,
+    });
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: settings.clientId,
+      redirect_uri: settings.redirectUri,
+      scope: settings.scopes.join(' '),
+      state,
+      nonce,
+      code_challenge: createHash('sha256').update(codeVerifier).digest('base64url'),
+      code_challenge_method: 'S256',
+    }).toString();
+    return { url: url.toString(), binding };
+  }
+
+  /**
+   * 处理 IdP 回调：校验 state 及其浏览器绑定，用授权码和 code_verifier 换取 ID token，匹配或创建本地用户
+   */
+  async authenticate(code: string, state: string, binding?: string): Promise<OidcLoginResult> {
+    this.authConfig.assertEnabled('oidc');
+    const settings = this.authConfig.getOidcSettings();
+
+    const verifiedState = this.openState(state, binding);
+    const claims = await this.exchangeCode(settings, code, verifiedState.codeVerifier);
+    this.validateClaims(settings, claims, verifiedState.nonce);
+
+    const user = await this.syncUser(settings, claims);
+    return { user, ...(verifiedState.returnTo && { returnTo: verifiedState.returnTo }) };
+  }
+
+  // ==================== 用户同步 ====================
+
+  private async syncUser(settings: OidcSettings, claims: OidcClaims): Promise<AuthenticatedUser> {
+    if (!claims.email) {
+      throw new UnauthorizedException('SSO login failed: email claim is required');
+    }
+
+    const email = claims.email.toLowerCase();
+    const mappedRole = this.mapGroupsToRole(settings, this.readGroups(claims, settings.groupsClaim));
+    const department = this.readString(claims, settings.departmentClaim);
+    const fullName = this.readString(claims, 'name');
+
+    // 按邮箱关联已有账号前要求 IdP 已验证邮箱，否则任何能在 IdP 自填邮箱的人都可接管同邮箱的本地账号
+    const existing =
+      (await this.prisma.user.findUnique({ where: { ssoSubject: claims.sub }, include: { role: true } }))
+      ?? (await this.prisma.user.findUnique({ where: { email }, include: { role: true } }));
+    if (existing && !existing.ssoSubject && claims.email_verified !== true) {
+      this.logger.warn(`SSO 邮箱未验证，拒绝关联已有用户: ${email}`);
+      throw new UnauthorizedException('SSO login failed: email is not verified');
+    }
+
+    if (!existing) {
+      if (!settings.jitProvisioning) {
+        throw new UnauthorizedException(`No account for ${email}`);
+      }
+
+      const roleName = mappedRole ?? settings.defaultRole;
+      const user = await this.prisma.user.create({
+        data: {
+          email,
+          username: await this.generateUsername(claims.preferred_username ?? email.split('@')[0] ?? email),
+          passwordHash: '',
+          ssoSubject: claims.sub,
+          ...(fullName && { fullName }),
+          ...(department && { department }),
+          roleId: await this.resolveRoleId(roleName),
+        },
+      });
+      this.logger.log(`SSO 首次登录，创建用户: ${email} (${roleName})`);
+      return this.toAuthenticatedUser(user, roleName);
+    }
+
+    if (existing.ssoSubject && existing.ssoSubject !== claims.sub) {
+      throw new UnauthorizedException('Account is linked to a different SSO identity');
+    }
+    if (!existing.isActive) {
+      throw new UnauthorizedException('User is disabled');
+    }
+
+    const roleChanged = mappedRole !== null && mappedRole !== existing.role.name;
+    const data = {
+      ...(!existing.ssoSubject && { ssoSubject: claims.sub }),
+      ...(department && department !== existing.department && { department }),
+      ...(fullName && fullName !== existing.fullName && { fullName }),
+      ...(roleChanged && { roleId: await this.resolveRoleId(mappedRole) }),
+    };
+    if (Object.keys(data).length === 0) {
+      return this.toAuthenticatedUser(existing, existing.role.name);
+    }
+
+    const user = await this.prisma.user.update({ where: { id: existing.id }, data });
+    if (roleChanged) {
+      this.rbacService.invalidateUser(user.id);
+      this.logger.log(`SSO 组映射调整用户角色: ${email} ${existing.role.name} → ${mappedRole}`);
+    }
+    return this.toAuthenticatedUser(user, roleChanged ? mappedRole : existing.role.name);
+  }
+
+  /**
+   * 按配置顺序取第一个匹配的组对应的角色；没有匹配时为空，已有用户保留当前角色
+   */
+  private mapGroupsToRole(settings: OidcSettings, groups: string[]): string | null {
+    const mapping = settings.groupRoleMappings.find(item => groups.includes(item.group));
+    return mapping?.role ?? null;
+  }
+
+  private async resolveRoleId(roleName: string): Promise<string> {
+    const role = await this.prisma.role.findUnique({ where: { name: roleName }, select: { id: true } });
+    if (!role) {
+      this.logger.error(`SSO 角色映射指向不存在的角色: ${roleName}`);
+      throw new UnauthorizedException('SSO login failed: role is not configured');
+    }
+    return role.id;
+  }
+
+  /**
+   * 生成唯一用户名：优先使用 IdP 的 preferred_username，重名时追加序号
+   */
+  private async generateUsername(preferred: string): Promise<string> {
+    const base = preferred
+      .toLowerCase()
+      .replace(/@.*$/, '')
+      .replace(/[^a-z0-9._-]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, USERNAME_MAX_LENGTH - 4) || 'user';
+
+    for (let suffix = 1; ; suffix++) {
+      const candidate = suffix === 1 ? base : `${base}-${suffix}`;
+      const taken = await this.prisma.user.findUnique({ where: { username: candidate }, select: { id: true } });
+      if (!taken) {
+        return candidate;
+      }
+    }
+  }
+
+  private toAuthenticatedUser(
+    user: { id: string; email: string; username: string; createdAt: Date },
+    role: string,
+  ): AuthenticatedUser {
+    return {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      role,
+      createdAt: user.createdAt,
+    };
+  }
+
+  // ==================== 协议 ====================
+
+  private discover(settings: OidcSettings): Promise<OidcDiscovery> {
+    if (!this.discovery) {
+      this.discovery = this.fetchJson<OidcDiscovery>(`${settings.issuerUrl}/.well-known/openid-configuration`)
+        .then(discovery => {
+          if (!discovery.authorization_endpoint || !discovery.token_endpoint) {
+            throw new Error('OIDC discovery 缺少 authorization_endpoint 或 token_endpoint');
+          }
+          return discovery;
+        })
+        .catch(error => {
+          // 失败后允许下次重试
+          this.discovery = null;
+          throw error;
+        });
+    }
+    return this.discovery;
+  }
+
+  private async exchangeCode(settings: OidcSettings, code: string, codeVerifier: string): Promise<OidcClaims> {
+    const discovery = await this.discover(settings);
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: settings.redirectUri,
+      client_id: settings.clientId,
+      code_verifier: codeVerifier,
+      ...(settings.clientSecret && { client_secret: settings.clientSecret }),
+    });
+
+    let tokens: { id_token?: string };
+    try {
+      tokens = await this.fetchJson<{ id_token?: string }>(discovery.token_endpoint, {
+        method: 'POST',
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+        body: body.toString(),
+      });
+    } catch (error) {
+      this.logger.warn(`OIDC 授权码换取令牌失败: ${error.message}`);
+      throw new UnauthorizedException('SSO login failed');
+    }
+    if (!tokens.id_token) {
+      throw new UnauthorizedException('SSO login failed: missing id_token');
+    }
+
+    const claims = this.jwtService.decode(tokens.id_token);
+    if (!claims || typeof claims !== 'object') {
+      throw new UnauthorizedException('SSO login failed: invalid id_token');
+    }
+    return claims as OidcClaims;
+  }
+
+  private validateClaims(settings: OidcSettings, claims: OidcClaims, nonce: string): void {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    const now = Math.floor(Date.now() / 1000);
+
+    if (claims.iss?.replace(/\/+$/, '') !== settings.issuerUrl) {
+      throw new UnauthorizedException('SSO login failed: issuer mismatch');
+    }
+    if (!audiences.includes(settings.clientId)) {
+      throw new UnauthorizedException('SSO login failed: audience mismatch');
+    }
+    if (!claims.exp || claims.exp + CLOCK_SKEW_SECONDS < now) {
+      throw new UnauthorizedException('SSO login failed: id_token expired');
+    }
+    if (claims.nonce !== nonce) {
+      throw new UnauthorizedException('SSO login failed: nonce mismatch');
+    }
+    if (!claims.sub) {
+      throw new UnauthorizedException('SSO login failed: sub claim is required');
+    }
+  }
+
+  // ==================== state ====================
+
+  /**
+   * AES-256-GCM 加密，密钥由 JWT 密钥派生；认证标签同时保证 state 未被篡改
+   */
+  private sealState(state: OidcState): string {
+    const iv = randomBytes(STATE_IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.getStateKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(JSON.stringify(state), 'utf8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+  }
+
+  private openState(value: string, binding?: string): OidcState {
+    let state: OidcState;
+    try {
+      const raw = Buffer.from(value, 'base64url');
+      const decipher = createDecipheriv('aes-256-gcm', this.getStateKey(), raw.subarray(0, STATE_IV_BYTES));
+      decipher.setAuthTag(raw.subarray(STATE_IV_BYTES, STATE_IV_BYTES + STATE_TAG_BYTES));
+      const decrypted = Buffer.concat([
+        decipher.update(raw.subarray(STATE_IV_BYTES + STATE_TAG_BYTES)),
+        decipher.final(),
+      ]);
+      state = JSON.parse(decrypted.toString('utf8')) as OidcState;
+    } catch {
+      throw new UnauthorizedException('Invalid SSO state');
+    }
+
+    if (!state.expiresAt || state.expiresAt < Date.now()) {
+      throw new UnauthorizedException('Expired SSO state');
+    }
+    if (!binding || !state.bindingHash || this.hashBinding(binding) !== state.bindingHash) {
+      throw new UnauthorizedException('Invalid SSO state');
+    }
+    return state;
+  }
+
+  private hashBinding(binding: string): string {
+    return createHash('sha256').update(binding).digest('base64url');
+  }
+
+  private getStateKey(): Buffer {
+    return createHash('sha256').update(`${this.authConfig.getJwtSecret()}:oidc-state`).digest();
+  }
+
+  // ==================== 工具方法 ====================
+
+  private readGroups(claims: OidcClaims, claim: string): string[] {
+    const value = claims[claim];
+    if (Array.isArray(value)) {
+      return value.filter((group): group is string => typeof group === 'string');
+    }
+    return typeof value === 'string' ? [value] : [];
+  }
+
+  private readString(claims: OidcClaims, claim: string): string | undefined {
+    const value = claims[claim];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+
+  /**
+   * 只允许站内相对路径，防止开放重定向；浏览器会把反斜杠当作斜杠，/\evil.com 同样指向外部站点
+   */
+  private sanitizeReturnTo(returnTo: string): string | undefined {
+    if (!returnTo.startsWith('/') || returnTo.includes('\\')) {
+      return undefined;
+    }
+    const base = 'http://return-to.invalid';
+    try {
+      const url = new URL(returnTo, base);
+      return url.origin === base ? `${url.pathname}${url.search}${url.hash}` : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async fetchJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(url, {
+      ...init,
+      headers: { accept: 'application/json', ...init.headers },
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${url}`);
+    }
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * 认证服务单元测试
+ *
+ * @description 测试 AuthService 的登录锁定与限流、注册冲突，以及 refresh token 轮换和重复使用检测
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { HttpException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { AuthService } from '../auth.service';
+import { AuthConfig } from '../auth.config';
+import { PrismaService } from '../../../common/prisma.service';
+import { MailService } from '../../../services/mail.service';
+
+jest.mock('bcrypt', () => ({
+  compare: jest.fn(),
+  hash: jest.fn(),
+}));
+
+describe('AuthService', () => {
+  let service: AuthService;
+
+  const email = 'editor@example.com';
+  const config: Record<string, string> = {};
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    userSession: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockJwtService = {
+    sign: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+
+  const mockAuthConfig = {
+    assertEnabled: jest.fn(),
+  };
+
+  const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+  const buildUser = (overrides: Record<string, unknown> = {}) => ({
+    id: 'user-1',
+    email,
+    username: 'editor',
+    passwordHash: 'hashed',
+    roleId: 'role-editor',
+    role: { name: 'editor' },
+    isActive: true,
+    createdAt: new Date('2025-03-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  /** login 先查账号状态，再由 validateUser 查完整用户 */
+  const mockAccount = (account: Record<string, unknown> | null) => {
+    mockPrismaService.user.findUnique.mockImplementation(({ select }) => Promise.resolve(
+      select ? account : account && buildUser(),
+    ));
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: MailService, useValue: {} },
+        { provide: AuthConfig, useValue: mockAuthConfig },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    for (const key of Object.keys(config)) {
+      delete config[key];
+    }
+    mockConfigService.get.mockImplementation((key: string, defaultValue?: string) => config[key] ?? defaultValue);
+    mockJwtService.sign.mockReturnValue('access-token');
+    mockPrismaService.userSession.create.mockResolvedValue({ id: 'session-1' });
+    mockPrismaService.user.update.mockResolvedValue({ failedLoginAttempts: 1 });
+    (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+    (bcrypt.hash as jest.Mock).mockResolvedValue('hashed');
+  });
+
+  describe('login', () => {
+    it('should reset failed attempts and open a session on success', async () => {
+      // Arrange
+      mockAccount({ id: 'user-1', isActive: true, lockedUntil: null });
+
+      // Act
+      const result = await service.login(email, 'secret', { ip: '10.0.0.1' });
+
+      // Assert
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { failedLoginAttempts: 0, lockedUntil: null },
+      });
+      expect(mockJwtService.sign).toHaveBeenCalledWith(
+        { sub: 'user-1', email, role: 'editor', sid: 'session-1' },
+        { expiresIn: 900 },
+      );
+      expect(result).toMatchObject({ access_token: 'access-token', user: { id: 'user-1', role: 'editor' } });
+      expect(result).not.toHaveProperty('user.passwordHash');
+    });
+
+    it('should lock the account once failed attempts reach the threshold', async () => {
+      // Arrange
+      mockAccount({ id: 'user-1', isActive: true, lockedUntil: null });
+      (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+      mockPrismaService.user.update.mockResolvedValueOnce({ failedLoginAttempts: 5 });
+
+      // Act & Assert
+      await expect(service.login(email, 'wrong')).rejects.toThrow('Invalid credentials');
+      expect(mockPrismaService.user.update).toHaveBeenLastCalledWith({
+        where: { id: 'user-1' },
+        data: { failedLoginAttempts: 0, lockedUntil: expect.any(Date) },
+      });
+    });
+
+    it('should not reveal that an account is locked', async () => {
+      // Arrange
+      mockAccount({ id: 'user-1', isActive: true, lockedUntil: new Date(Date.now() + 60 * 1000) });
+
+      // Act & Assert
+      const error = await service.login(email, 'secret').catch(caught => caught);
+      expect(error).toBeInstanceOf(UnauthorizedException);
+      expect(error.message).toBe('Invalid credentials');
+      expect(bcrypt.compare).not.toHaveBeenCalled();
+      expect(mockPrismaService.userSession.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown and inactive accounts with the same error', async () => {
+      // Arrange
+      mockAccount(null);
+
+      // Act & Assert
+      await expect(service.login('nobody@example.com', 'secret')).rejects.toThrow('Invalid credentials');
+
+      mockAccount({ id: 'user-1', isActive: false, lockedUntil: null });
+      await expect(service.login(email, 'secret')).rejects.toThrow('Invalid credentials');
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { failedLoginAttempts: { increment: 1 } },
+      }));
+    });
+
+    it('should rate limit attempts per source IP', async () => {
+      // Arrange
+      config['LOGIN_RATE_LIMIT_MAX'] = '2';
+      mockAccount(null);
+
+      // Act
+      await expect(service.login(email, 'x', { ip: '10.0.0.2' })).rejects.toThrow(UnauthorizedException);
+      await expect(service.login(email, 'x', { ip: '10.0.0.2' })).rejects.toThrow(UnauthorizedException);
+      const limited = await service.login(email, 'x', { ip: '10.0.0.2' }).catch(caught => caught);
+
+      // Assert
+      expect(limited).toBeInstanceOf(HttpException);
+      expect(limited.getStatus()).toBe(429);
+      await expect(service.login(email, 'x', { ip: '10.0.0.3' })).rejects.toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('register', () => {
+    it('should map unique constraint violations and rethrow other errors', async () => {
+      // Arrange
+      mockPrismaService.user.create.mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: '5.22.0' }),
+      );
+      const unexpected = Object.assign(new Error('connection lost'), { code: 'P2002' });
+      mockPrismaService.user.create.mockRejectedValueOnce(unexpected);
+
+      // Act & Assert
+      await expect(service.register(email, 'editor', 'secret')).rejects.toThrow('User already exists');
+      await expect(service.register(email, 'editor', 'secret')).rejects.toBe(unexpected);
+    });
+  });
+
+  describe('refreshTokens', () => {
+    it('should rotate the refresh token and keep the previous hash for reuse detection', async () => {
+      // Arrange
+      mockPrismaService.userSession.findUnique.mockResolvedValue({
+        id: 'session-1',
+        userId: 'user-1',
+        revokedAt: null,
+        expiresAt: new Date(Date.now() + 60 * 1000),
+      });
+      mockPrismaService.user.findUnique.mockResolvedValue(buildUser());
+      mockPrismaService.userSession.updateMany.mockResolvedValue({ count: 1 });
+
+      // Act
+      const result = await service.refreshTokens('old-token', { ip: '10.0.0.1' });
+
+      // Assert
+      expect(result.refresh_token).not.toBe('old-token');
+      expect(mockPrismaService.userSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', refreshTokenHash: sha256('old-token'), revokedAt: null },
+        data: expect.objectContaining({
+          refreshTokenHash: sha256(result.refresh_token),
+          previousTokenHash: sha256('old-token'),
+          clientIp: '10.0.0.1',
+        }),
+      });
+    });
+
+    it('should revoke the whole session when a rotated token is reused', async () => {
+      // Arrange
+      mockPrismaService.userSession.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'session-1', userId: 'user-1', revokedAt: null });
+      mockPrismaService.userSession.updateMany.mockResolvedValue({ count: 1 });
+
+      // Act & Assert
+      await expect(service.refreshTokens('stolen-token')).rejects.toThrow('Invalid refresh token');
+      expect(mockPrismaService.userSession.findUnique).toHaveBeenLastCalledWith({
+        where: { previousTokenHash: sha256('stolen-token') },
+      });
+      expect(mockPrismaService.userSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reject expired sessions and lost rotation races', async () => {
+      // Arrange
+      mockPrismaService.userSession.findUnique.mockResolvedValueOnce({
+        id: 'session-1',
+        userId: 'user-1',
+        revokedAt: null,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      // Act & Assert
+      await expect(service.refreshTokens('token')).rejects.toThrow('Session expired');
+
+      mockPrismaService.userSession.findUnique.mockResolvedValueOnce({
+        id: 'session-1',
+        userId: 'user-1',
+        revokedAt: null,
+        expiresAt: new Date(Date.now() + 60 * 1000),
+      });
+      mockPrismaService.user.findUnique.mockResolvedValue(buildUser());
+      mockPrismaService.userSession.updateMany.mockResolvedValue({ count: 0 });
+      await expect(service.refreshTokens('token')).rejects.toThrow('Invalid refresh token');
+    });
+  });
+});
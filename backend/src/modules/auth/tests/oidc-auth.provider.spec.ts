@@ -0,0 +1,276 @@
+/**
+ * 企业 SSO 登录单元测试
+ *
+ * @description 测试 OidcAuthProvider 的 state 浏览器绑定、nonce 与 PKCE 校验、跳转地址过滤，以及用户关联和自动创建
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { OidcAuthProvider, OidcClaims } from '../providers/oidc-auth.provider';
+import { AuthConfig, OidcSettings } from '../auth.config';
+import { PrismaService } from '../../../common/prisma.service';
+import { RbacService } from '../../../services/rbac.service';
+
+describe('OidcAuthProvider', () => {
+  let provider: OidcAuthProvider;
+  let fetchSpy: jest.SpyInstance;
+
+  const issuerUrl = 'https://idp.example.com';
+
+  const settings: OidcSettings = {
+    issuerUrl,
+    clientId: 'geo-platform',
+    redirectUri: 'http://localhost:3000/auth/callback',
+    scopes: ['openid', 'profile', 'email'],
+    jitProvisioning: true,
+    defaultRole: 'analyst',
+    groupsClaim: 'groups',
+    departmentClaim: 'department',
+    groupRoleMappings: [{ group: 'geo-admins', role: 'admin' }],
+  };
+
+  const mockPrismaService = {
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    role: {
+      findUnique: jest.fn(),
+    },
+  };
+
+  const mockJwtService = {
+    decode: jest.fn(),
+  };
+
+  const mockAuthConfig = {
+    assertEnabled: jest.fn(),
+    getOidcSettings: jest.fn(),
+    getJwtSecret: jest.fn(),
+  };
+
+  const mockRbacService = {
+    invalidateUser: jest.fn(),
+  };
+
+  const buildUser = (overrides: Record<string, unknown> = {}) => ({
+    id: 'user-1',
+    email: 'jane@example.com',
+    username: 'jane',
+    passwordHash: 'hashed',
+    ssoSubject: null,
+    isActive: true,
+    department: null,
+    fullName: null,
+    role: { name: 'editor' },
+    createdAt: new Date('2025-03-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  /** 按查询条件返回用户：ssoSubject / email / username 各自对应 */
+  const mockUsers = (users: { bySubject?: unknown; byEmail?: unknown; takenUsernames?: string[] }) => {
+    mockPrismaService.user.findUnique.mockImplementation(({ where }) => {
+      if (where.ssoSubject) return Promise.resolve(users.bySubject ?? null);
+      if (where.email) return Promise.resolve(users.byEmail ?? null);
+      return Promise.resolve(users.takenUsernames?.includes(where.username) ? { id: 'taken' } : null);
+    });
+  };
+
+  /** 发起授权并返回回调所需的 state、cookie 绑定值以及发给 IdP 的参数 */
+  const authorize = async (returnTo?: string) => {
+    const { url, binding } = await provider.createAuthorizationUrl(returnTo);
+    const params = new URL(url).searchParams;
+    return {
+      binding,
+      state: params.get('state')!,
+      nonce: params.get('nonce')!,
+      codeChallenge: params.get('code_challenge')!,
+      params,
+    };
+  };
+
+  const mockIdToken = (claims: Partial<OidcClaims>) => {
+    mockJwtService.decode.mockReturnValue({
+      iss: issuerUrl,
+      sub: 'idp-subject-1',
+      aud: 'geo-platform',
+      exp: Math.floor(Date.now() / 1000) + 300,
+      email: 'Jane@Example.com',
+      email_verified: true,
+      ...claims,
+    });
+  };
+
+  const tokenRequestBody = () => {
+    const call = fetchSpy.mock.calls.find(([url]) => url === `${issuerUrl}/token`);
+    return new URLSearchParams(call[1].body);
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcAuthProvider,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: AuthConfig, useValue: mockAuthConfig },
+        { provide: RbacService, useValue: mockRbacService },
+      ],
+    }).compile();
+
+    provider = module.get<OidcAuthProvider>(OidcAuthProvider);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockAuthConfig.getOidcSettings.mockReturnValue(settings);
+    mockAuthConfig.getJwtSecret.mockReturnValue('test-secret');
+    mockPrismaService.role.findUnique.mockImplementation(({ where }) => Promise.resolve({ id: `role-${where.name}` }));
+    mockPrismaService.user.create.mockImplementation(({ data }) => Promise.resolve(buildUser(data)));
+    mockPrismaService.user.update.mockImplementation(({ data }) => Promise.resolve(buildUser(data)));
+    fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(url => Promise.resolve({
+      ok: true,
+      json: () => Promise.resolve(String(url).endsWith('/.well-known/openid-configuration')
+        ? { issuer: issuerUrl, authorization_endpoint: `${issuerUrl}/authorize`, token_endpoint: `${issuerUrl}/token` }
+        : { id_token: 'id-token' }),
+    } as Response));
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  describe('state, nonce and PKCE', () => {
+    it('should send an S256 challenge and exchange the matching verifier', async () => {
+      // Arrange
+      const { binding, state, nonce, codeChallenge, params } = await authorize();
+      mockIdToken({ nonce });
+      mockUsers({ bySubject: buildUser({ ssoSubject: 'idp-subject-1' }) });
+
+      // Act
+      const result = await provider.authenticate('auth-code', state, binding);
+
+      // Assert
+      const body = tokenRequestBody();
+      const verifier = body.get('code_verifier')!;
+      expect(params.get('code_challenge_method')).toBe('S256');
+      expect(createHash('sha256').update(verifier).digest('base64url')).toBe(codeChallenge);
+      expect(state).not.toContain(verifier);
+      expect(body.get('code')).toBe('auth-code');
+      expect(result.user.id).toBe('user-1');
+    });
+
+    it('should reject a callback without the browser binding cookie', async () => {
+      // Arrange
+      const { state, nonce } = await authorize();
+      const other = await authorize();
+      mockIdToken({ nonce });
+
+      // Act & Assert
+      await expect(provider.authenticate('auth-code', state)).rejects.toThrow('Invalid SSO state');
+      await expect(provider.authenticate('auth-code', state, other.binding)).rejects.toThrow('Invalid SSO state');
+      await expect(provider.authenticate('auth-code', `${state}x`, other.binding)).rejects.toThrow('Invalid SSO state');
+      expect(fetchSpy).not.toHaveBeenCalledWith(`${issuerUrl}/token`, expect.anything());
+    });
+
+    it('should reject expired state and a mismatched nonce', async () => {
+      // Arrange
+      const { binding, state } = await authorize();
+      mockIdToken({ nonce: 'replayed-nonce' });
+
+      // Act & Assert
+      await expect(provider.authenticate('auth-code', state, binding)).rejects.toThrow('nonce mismatch');
+
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 11 * 60 * 1000);
+      await expect(provider.authenticate('auth-code', state, binding)).rejects.toThrow('Expired SSO state');
+      nowSpy.mockRestore();
+    });
+
+    it('should only keep same-origin return paths', async () => {
+      // Arrange
+      mockUsers({ bySubject: buildUser({ ssoSubject: 'idp-subject-1' }) });
+      const login = async (returnTo: string) => {
+        const { binding, state, nonce } = await authorize(returnTo);
+        mockIdToken({ nonce });
+        return (await provider.authenticate('auth-code', state, binding)).returnTo;
+      };
+
+      // Act & Assert
+      await expect(login('/keywords?tab=gap#top')).resolves.toBe('/keywords?tab=gap#top');
+      await expect(login('//evil.example.com')).resolves.toBeUndefined();
+      await expect(login('/\\evil.example.com')).resolves.toBeUndefined();
+      await expect(login('https://evil.example.com/')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('user sync', () => {
+    it('should provision new users with the mapped role and a unique username', async () => {
+      // Arrange
+      mockUsers({ takenUsernames: ['jane'] });
+      const { binding, state, nonce } = await authorize();
+      mockIdToken({ groups: ['geo-admins'], preferred_username: 'Jane', department: 'Marketing', nonce });
+
+      // Act
+      const result = await provider.authenticate('auth-code', state, binding);
+
+      // Assert
+      expect(mockPrismaService.user.create).toHaveBeenCalledWith({
+        data: {
+          email: 'jane@example.com',
+          username: 'jane-2',
+          passwordHash: '',
+          ssoSubject: 'idp-subject-1',
+          department: 'Marketing',
+          roleId: 'role-admin',
+        },
+      });
+      expect(result.user.role).toBe('admin');
+    });
+
+    it('should refuse unknown users when provisioning is disabled', async () => {
+      // Arrange
+      mockAuthConfig.getOidcSettings.mockReturnValue({ ...settings, jitProvisioning: false });
+      mockUsers({});
+      const { binding, state, nonce } = await authorize();
+      mockIdToken({ nonce });
+
+      // Act & Assert
+      await expect(provider.authenticate('auth-code', state, binding)).rejects.toThrow('No account for jane@example.com');
+      expect(mockPrismaService.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should only link an existing account by email when the IdP verified the email', async () => {
+      // Arrange
+      mockUsers({ byEmail: buildUser() });
+      const unverified = await authorize();
+      mockIdToken({ nonce: unverified.nonce, email_verified: undefined });
+
+      // Act & Assert
+      await expect(provider.authenticate('auth-code', unverified.state, unverified.binding))
+        .rejects.toThrow('email is not verified');
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+
+      const verified = await authorize();
+      mockIdToken({ nonce: verified.nonce });
+      await provider.authenticate('auth-code', verified.state, verified.binding);
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { ssoSubject: 'idp-subject-1' },
+      });
+      expect(mockRbacService.invalidateUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject accounts linked to a different SSO identity', async () => {
+      // Arrange
+      mockUsers({ byEmail: buildUser({ ssoSubject: 'idp-subject-2' }) });
+      const { binding, state, nonce } = await authorize();
+      mockIdToken({ nonce });
+
+      // Act & Assert
+      await expect(provider.authenticate('auth-code', state, binding))
+        .rejects.toThrow('Account is linked to a different SSO identity');
+    });
+  });
+});
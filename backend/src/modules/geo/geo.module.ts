@@ -1,18 +1,26 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { GEOResolver } from './geo.resolver';
+import { AlertsModule } from '../alerts/alerts.module';
+import { PrismaService } from '../../common/prisma.service';
+import { CommonModule } from '../../common/common.module';
 import { GEOCoreEngineService } from '../../services/geo-core-engine.service';
 import { AICitationMonitorService } from '../../services/ai-citation-monitor.service';
+import { CitationObservationService } from '../../services/citation-observation.service';
+import { MonitoringQueryService } from '../../services/monitoring-query.service';
 import { FAQRestructuringService } from '../../services/faq-restructuring.service';
 import { ShortVideoContentService } from '../../services/short-video-content.service';
 import { AmazonRufusOptimizationService } from '../../services/amazon-rufus-optimization.service';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, CommonModule, AlertsModule],
   providers: [
     GEOResolver,
+    PrismaService,
     GEOCoreEngineService,
     AICitationMonitorService,
+    CitationObservationService,
+    MonitoringQueryService,
     FAQRestructuringService,
     ShortVideoContentService,
     AmazonRufusOptimizationService
@@ -20,6 +28,8 @@ import { AmazonRufusOptimizationService } from '../../services/amazon-rufus-opti
   exports: [
     GEOCoreEngineService,
     AICitationMonitorService,
+    CitationObservationService,
+    MonitoringQueryService,
     FAQRestructuringService,
     ShortVideoContentService,
     AmazonRufusOptimizationService
@@ -1,7 +1,19 @@
+import { UseGuards } from '@nestjs/common';
 import { Resolver, Query, Mutation, Args, Field, ObjectType, InputType, Int, Float } from '@nestjs/graphql';
 import { GEOCoreEngineService, GEOContentInput, GEOOptimizedContent, AIEngineCompatibility } from '../../services/geo-core-engine.service';
 import { AICitationMonitorService, CitationInsights } from '../../services/ai-citation-monitor.service';
+import { CitationGranularity, ShareOfVoiceGroupBy } from '../../services/citation-observation.service';
+import {
+  MonitoringQueryGroup,
+  MonitoringQueryGroupInput,
+  MonitoringQueryService,
+} from '../../services/monitoring-query.service';
 import { FAQRestructuringService, FAQEntry, FAQOptimizationResult } from '../../services/faq-restructuring.service';
+import { PERMISSIONS } from '../../common/permissions';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
 
 // GraphQL Types
 @ObjectType()
@@ -136,6 +148,72 @@ export class CitationInsightsType {
   recommendations: string[];
 }
 
+@ObjectType()
+export class CitationShareOfVoiceType {
+  @Field()
+  period: string;
+
+  @Field()
+  group: string;
+
+  @Field()
+  brand: string;
+
+  @Field(() => Int)
+  citations: number;
+
+  @Field(() => Float)
+  share: number;
+}
+
+@ObjectType()
+export class MonitoringQueryGroupType {
+  @Field()
+  id: string;
+
+  @Field()
+  name: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field()
+  source: string;
+
+  @Field(() => [String])
+  queries: string[];
+
+  @Field({ nullable: true })
+  productLine?: string;
+
+  @Field(() => [String])
+  keywordPriorityLevels: string[];
+
+  @Field(() => [String])
+  keywordProductLines: string[];
+
+  @Field(() => [String])
+  keywordAioStatuses: string[];
+
+  @Field()
+  schedule: string;
+
+  @Field(() => [String])
+  platforms: string[];
+
+  @Field()
+  locale: string;
+
+  @Field()
+  isActive: boolean;
+
+  @Field({ nullable: true })
+  lastRunAt?: string;
+
+  @Field()
+  updatedAt: string;
+}
+
 @ObjectType()
 export class FAQEntryType {
   @Field()
@@ -230,6 +308,45 @@ export class GEOContentInputType {
   sourceUrl?: string;
 }
 
+@InputType()
+export class MonitoringQueryGroupInputType {
+  @Field({ nullable: true })
+  name?: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field({ nullable: true, description: 'manual 或 keywords' })
+  source?: string;
+
+  @Field(() => [String], { nullable: true })
+  queries?: string[];
+
+  @Field({ nullable: true })
+  productLine?: string;
+
+  @Field(() => [String], { nullable: true })
+  keywordPriorityLevels?: string[];
+
+  @Field(() => [String], { nullable: true })
+  keywordProductLines?: string[];
+
+  @Field(() => [String], { nullable: true })
+  keywordAioStatuses?: string[];
+
+  @Field({ nullable: true, description: 'hourly、daily、weekly 或 manual' })
+  schedule?: string;
+
+  @Field(() => [String], { nullable: true, description: '为空表示全部平台' })
+  platforms?: string[];
+
+  @Field({ nullable: true })
+  locale?: string;
+
+  @Field({ nullable: true })
+  isActive?: boolean;
+}
+
 @InputType()
 export class FAQEntryInputType {
   @Field()
@@ -258,10 +375,12 @@ export class FAQEntryInputType {
 }
 
 @Resolver()
+@UseGuards(JwtAuthGuard, RolesGuard)
 export class GEOResolver {
   constructor(
     private geoEngine: GEOCoreEngineService,
     private citationMonitor: AICitationMonitorService,
+    private monitoringQueries: MonitoringQueryService,
     private faqService: FAQRestructuringService
   ) {}
 
@@ -271,6 +390,7 @@ export class GEOResolver {
   }
 
   @Mutation(() => GEOOptimizedContentType)
+  @RequirePermissions(PERMISSIONS.CONTENT_WRITE)
   async optimizeContentForGEO(
     @Args('input', { type: () => GEOContentInputType }) input: GEOContentInputType
   ): Promise<GEOOptimizedContentType> {
@@ -302,29 +422,73 @@ export class GEOResolver {
   }
 
   @Query(() => CitationInsightsType)
-  async getAICitationInsights(): Promise<CitationInsightsType> {
-    const insights = await this.citationMonitor.monitorAICitations();
-    
-    return {
-      totalCitations: insights.totalCitations,
-      citationRate: insights.citationRate,
-      platformDistribution: JSON.stringify(insights.platformDistribution),
-      topPerformingContent: JSON.stringify(insights.topPerformingContent),
-      competitorComparison: insights.competitorComparison.map(comp => ({
-        competitor: comp.competitor,
-        mentions: comp.mentions,
-        citationRate: comp.citationRate,
-        topQueries: comp.topQueries,
-        sentiment: comp.sentiment
-      })),
-      trends: insights.trends.map(trend => ({
-        date: trend.date,
-        totalCitations: trend.totalCitations,
-        platformBreakdown: JSON.stringify(trend.platformBreakdown),
-        topCitedContent: JSON.stringify(trend.topCitedContent)
-      })),
-      recommendations: insights.recommendations
-    };
+  async getAICitationInsights(
+    @Args('days', { type: () => Int, nullable: true, defaultValue: 30 }) days: number
+  ): Promise<CitationInsightsType> {
+    const insights = await this.citationMonitor.getCitationInsights(days);
+    return this.toCitationInsightsType(insights);
+  }
+
+  @Mutation(() => CitationInsightsType)
+  @RequirePermissions(PERMISSIONS.AIO_MONITOR)
+  async runAICitationMonitoring(
+    @Args('groupIds', { type: () => [String], nullable: true }) groupIds?: string[]
+  ): Promise<CitationInsightsType> {
+    const insights = await this.citationMonitor.monitorAICitations(groupIds ? { groupIds } : {});
+    return this.toCitationInsightsType(insights);
+  }
+
+  @Query(() => [MonitoringQueryGroupType])
+  async monitoringQueryGroups(
+    @Args('includeInactive', { nullable: true, defaultValue: false }) includeInactive: boolean
+  ): Promise<MonitoringQueryGroupType[]> {
+    const groups = await this.monitoringQueries.listGroups(includeInactive);
+    return groups.map(group => this.toMonitoringQueryGroupType(group));
+  }
+
+  @Query(() => [String])
+  async previewMonitoringQueries(@Args('groupId') groupId: string): Promise<string[]> {
+    const group = await this.monitoringQueries.getGroup(groupId);
+    if (!group) {
+      throw new Error(`监测查询组不存在: ${groupId}`);
+    }
+    const queries = await this.monitoringQueries.resolveQueries(group);
+    return queries.map(query => query.text);
+  }
+
+  @Mutation(() => MonitoringQueryGroupType)
+  @RequirePermissions(PERMISSIONS.AIO_MONITOR)
+  async createMonitoringQueryGroup(
+    @Args('input', { type: () => MonitoringQueryGroupInputType }) input: MonitoringQueryGroupInputType,
+    @CurrentUser() user: { id: string }
+  ): Promise<MonitoringQueryGroupType> {
+    const group = await this.monitoringQueries.createGroup(input as MonitoringQueryGroupInput, user.id);
+    return this.toMonitoringQueryGroupType(group);
+  }
+
+  @Mutation(() => MonitoringQueryGroupType)
+  @RequirePermissions(PERMISSIONS.AIO_MONITOR)
+  async updateMonitoringQueryGroup(
+    @Args('id') id: string,
+    @Args('input', { type: () => MonitoringQueryGroupInputType }) input: MonitoringQueryGroupInputType
+  ): Promise<MonitoringQueryGroupType> {
+    const group = await this.monitoringQueries.updateGroup(id, input as MonitoringQueryGroupInput);
+    return this.toMonitoringQueryGroupType(group);
+  }
+
+  @Mutation(() => Boolean)
+  @RequirePermissions(PERMISSIONS.AIO_MONITOR)
+  async deleteMonitoringQueryGroup(@Args('id') id: string): Promise<boolean> {
+    return this.monitoringQueries.deleteGroup(id);
+  }
+
+  @Query(() => [CitationShareOfVoiceType])
+  async citationShareOfVoice(
+    @Args('groupBy', { nullable: true, defaultValue: 'overall' }) groupBy: string,
+    @Args('granularity', { nullable: true, defaultValue: 'week' }) granularity: string,
+    @Args('days', { type: () => Int, nullable: true, defaultValue: 30 }) days: number
+  ): Promise<CitationShareOfVoiceType[]> {
+    return this.citationMonitor.getShareOfVoice(days, granularity as CitationGranularity, groupBy as ShareOfVoiceGroupBy);
   }
 
   @Query(() => [String])
@@ -334,6 +498,7 @@ export class GEOResolver {
   }
 
   @Mutation(() => FAQOptimizationResultType)
+  @RequirePermissions(PERMISSIONS.CONTENT_WRITE)
   async optimizeFAQsForGEO(
     @Args('faqs', { type: () => [FAQEntryInputType] }) faqsInput: FAQEntryInputType[]
   ): Promise<FAQOptimizationResultType> {
@@ -450,4 +615,36 @@ export class GEOResolver {
 
 版本: 1.0.0 | 状态: 生产就绪`;
   }
-}
\ No newline at end of file
+
+  private toCitationInsightsType(insights: CitationInsights): CitationInsightsType {
+    return {
+      totalCitations: insights.totalCitations,
+      citationRate: insights.citationRate,
+      platformDistribution: JSON.stringify(insights.platformDistribution),
+      topPerformingContent: JSON.stringify(insights.topPerformingContent),
+      competitorComparison: insights.competitorComparison.map(comp => ({
+        competitor: comp.competitor,
+        mentions: comp.mentions,
+        citationRate: comp.citationRate,
+        topQueries: comp.topQueries,
+        sentiment: comp.sentiment
+      })),
+      trends: insights.trends.map(trend => ({
+        date: trend.date,
+        totalCitations: trend.totalCitations,
+        platformBreakdown: JSON.stringify(trend.platformBreakdown),
+        topCitedContent: JSON.stringify(trend.topCitedContent)
+      })),
+      recommendations: insights.recommendations
+    };
+  }
+
+  private toMonitoringQueryGroupType(group: MonitoringQueryGroup): MonitoringQueryGroupType {
+    const { createdAt, lastRunAt, updatedAt, ...fields } = group;
+    return {
+      ...fields,
+      ...(lastRunAt && { lastRunAt: lastRunAt.toISOString() }),
+      updatedAt: updatedAt.toISOString()
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { JobsResolver } from './jobs.resolver';
+import { AlertsModule } from '../alerts/alerts.module';
+import { AuditModule } from '../audit/audit.module';
+import { GEOModule } from '../geo/geo.module';
+import { PrismaService } from '../../common/prisma.service';
+import { CommonModule } from '../../common/common.module';
+import { GoogleApisService } from '../../services/google-apis.service';
+import { JobQueueService } from '../../services/job-queue.service';
+import { KeywordMetricIngestionService } from '../../services/keyword-metric-ingestion.service';
+import { PerformanceReportService } from '../../services/performance-report.service';
+import { ScheduledJobsService } from '../../services/scheduled-jobs.service';
+
+@Module({
+  imports: [ConfigModule, CommonModule, AlertsModule, AuditModule, GEOModule],
+  providers: [
+    JobsResolver,
+    PrismaService,
+    GoogleApisService,
+    JobQueueService,
+    KeywordMetricIngestionService,
+    PerformanceReportService,
+    ScheduledJobsService
+  ],
+  exports: [
+    JobQueueService,
+    KeywordMetricIngestionService,
+    PerformanceReportService
+  ]
+})
+export class JobsModule {}
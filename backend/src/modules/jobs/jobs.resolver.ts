@@ -0,0 +1,196 @@
+import { UseGuards } from '@nestjs/common';
+import { Resolver, Query, Mutation, Args, Field, ObjectType, Int } from '@nestjs/graphql';
+import { JobQueueService, JobQueueStats, JobRun, JobRunStatus } from '../../services/job-queue.service';
+import { PERMISSIONS } from '../../common/permissions';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+
+@ObjectType()
+export class JobRunType {
+  @Field()
+  id: string;
+
+  @Field()
+  jobName: string;
+
+  @Field()
+  jobId: string;
+
+  @Field()
+  status: string;
+
+  @Field(() => Int)
+  attempts: number;
+
+  @Field(() => Int)
+  maxAttempts: number;
+
+  @Field({ nullable: true })
+  payload?: string; // JSON string
+
+  @Field({ nullable: true })
+  result?: string; // JSON string
+
+  @Field({ nullable: true })
+  error?: string;
+
+  @Field()
+  scheduled: boolean;
+
+  @Field()
+  queuedAt: string;
+
+  @Field({ nullable: true })
+  startedAt?: string;
+
+  @Field({ nullable: true })
+  finishedAt?: string;
+
+  @Field(() => Int, { nullable: true })
+  durationMs?: number;
+
+  @Field({ nullable: true })
+  retriedAt?: string;
+
+  @Field({ nullable: true })
+  retriedRunId?: string;
+}
+
+@ObjectType()
+export class JobDefinitionType {
+  @Field()
+  name: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field({ nullable: true })
+  cron?: string;
+
+  @Field(() => Int)
+  concurrency: number;
+
+  @Field(() => Int)
+  attempts: number;
+
+  @Field({ nullable: true })
+  nextRunAt?: string;
+}
+
+@ObjectType()
+export class JobQueueStatsType {
+  @Field()
+  enabled: boolean;
+
+  @Field(() => Int)
+  waiting: number;
+
+  @Field(() => Int)
+  active: number;
+
+  @Field(() => Int)
+  delayed: number;
+
+  @Field(() => Int)
+  failed: number;
+
+  @Field(() => Int)
+  deadLetter: number;
+
+  @Field(() => [JobDefinitionType])
+  jobs: JobDefinitionType[];
+}
+
+@Resolver()
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class JobsResolver {
+  constructor(private jobQueue: JobQueueService) {}
+
+  @Query(() => [JobRunType])
+  async jobRuns(
+    @Args('jobName', { nullable: true }) jobName?: string,
+    @Args('status', { nullable: true, description: 'queued、running、retrying、completed、failed 或 dead_letter' }) status?: string,
+    @Args('limit', { type: () => Int, nullable: true, defaultValue: 50 }) limit?: number
+  ): Promise<JobRunType[]> {
+    const runs = await this.jobQueue.listRuns({
+      ...(jobName && { jobName }),
+      ...(status && { status: status as JobRunStatus }),
+      ...(limit !== undefined && { limit }),
+    });
+    return runs.map(run => this.toJobRunType(run));
+  }
+
+  @Query(() => [JobRunType])
+  async failedJobRuns(
+    @Args('limit', { type: () => Int, nullable: true, defaultValue: 50 }) limit: number
+  ): Promise<JobRunType[]> {
+    const runs = await this.jobQueue.listRuns({ status: 'dead_letter', limit });
+    return runs.map(run => this.toJobRunType(run));
+  }
+
+  @Query(() => JobQueueStatsType)
+  async jobQueueStats(): Promise<JobQueueStatsType> {
+    return this.toJobQueueStatsType(await this.jobQueue.getStats());
+  }
+
+  @Mutation(() => JobRunType)
+  @RequirePermissions(PERMISSIONS.JOB_MANAGE)
+  async enqueueJob(
+    @Args('name') name: string,
+    @Args('payload', { nullable: true, description: 'JSON 对象' }) payload?: string
+  ): Promise<JobRunType> {
+    const run = await this.jobQueue.enqueue(name, payload ? this.parsePayload(payload) : {});
+    return this.toJobRunType(run);
+  }
+
+  @Mutation(() => JobRunType)
+  @RequirePermissions(PERMISSIONS.JOB_MANAGE)
+  async retryDeadLetterJob(@Args('runId') runId: string): Promise<JobRunType> {
+    return this.toJobRunType(await this.jobQueue.retryDeadLetter(runId));
+  }
+
+  private parsePayload(payload: string): Record<string, unknown> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(payload);
+    } catch {
+      throw new Error('payload 不是合法的 JSON');
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('payload 必须是 JSON 对象');
+    }
+    return parsed as Record<string, unknown>;
+  }
+
+  private toJobRunType(run: JobRun): JobRunType {
+    return {
+      id: run.id,
+      jobName: run.jobName,
+      jobId: run.jobId,
+      status: run.status,
+      attempts: run.attempts,
+      maxAttempts: run.maxAttempts,
+      ...(run.payload !== undefined && { payload: JSON.stringify(run.payload) }),
+      ...(run.result !== undefined && { result: JSON.stringify(run.result) }),
+      ...(run.error !== undefined && { error: run.error }),
+      scheduled: run.scheduled,
+      queuedAt: run.queuedAt.toISOString(),
+      ...(run.startedAt && { startedAt: run.startedAt.toISOString() }),
+      ...(run.finishedAt && { finishedAt: run.finishedAt.toISOString() }),
+      ...(run.durationMs !== undefined && { durationMs: run.durationMs }),
+      ...(run.retriedAt && { retriedAt: run.retriedAt.toISOString() }),
+      ...(run.retriedRunId && { retriedRunId: run.retriedRunId })
+    };
+  }
+
+  private toJobQueueStatsType(stats: JobQueueStats): JobQueueStatsType {
+    return {
+      ...stats,
+      jobs: stats.jobs.map(({ nextRunAt, ...job }) => ({
+        ...job,
+        ...(nextRunAt && { nextRunAt: nextRunAt.toISOString() })
+      }))
+    };
+  }
+}
@@ -30,6 +30,8 @@ import {
   ValidateNested,
   IsPositive,
   Matches,
+  IsJSON,
+  ArrayMaxSize,
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 import { GraphQLDecimal } from 'prisma-graphql-type-decimal';
@@ -41,6 +43,12 @@ import {
   MarketingFunnelStage,
   AIOStatus,
   KeywordStatus,
+  KeywordImportAction,
+  KeywordImportDuplicateStrategy,
+  CannibalizationSeverity,
+  CannibalizationAction,
+  KeywordSource,
+  KeywordGapSource,
 } from '../types/keyword.types';
 
 // ==================== 枚举注册 ====================
@@ -77,7 +85,12 @@ registerEnumType(AIOStatus, {
 
 registerEnumType(KeywordStatus, {
   name: 'KeywordStatus',
-  description: '关键词状态',
+  description: '关键词生命周期状态',
+});
+
+registerEnumType(KeywordSource, {
+  name: 'KeywordSource',
+  description: '关键词来源',
 });
 
 // ==================== 输出类型 (ObjectTypes) ====================
@@ -204,6 +217,15 @@ export class KeywordDto {
   @Field(() => MarketingFunnelStage, { nullable: true, description: '营销漏斗阶段' })
   readonly stage?: MarketingFunnelStage;
 
+  @Field(() => ID, { nullable: true, description: '所属主题聚类 ID' })
+  readonly clusterId?: string;
+
+  @Field(() => KeywordSource, { description: '关键词来源' })
+  readonly source: KeywordSource;
+
+  @Field(() => [String], { description: '来源竞品域名（竞品差距分析加入时）' })
+  readonly sourceDomains: string[];
+
   @Field(() => AIOStatus, { description: 'AIO 状态' })
   readonly aioStatus: AIOStatus;
 
@@ -449,11 +471,6 @@ export class UpdateKeywordInputDto {
   @IsEnum(MarketingFunnelStage, { message: '无效的营销漏斗阶段' })
   readonly stage?: MarketingFunnelStage;
 
-  @Field(() => KeywordStatus, { nullable: true, description: '关键词状态' })
-  @IsOptional()
-  @IsEnum(KeywordStatus, { message: '无效的关键词状态' })
-  readonly status?: KeywordStatus;
-
   @Field(() => ID, { nullable: true, description: '分配给用户 ID' })
   @IsOptional()
   @IsUUID(4, { message: '无效的用户 ID 格式' })
@@ -667,11 +684,6 @@ export class BulkUpdateKeywordsInputDto {
   @IsEnum(KeywordPriorityLevel, { message: '无效的优先级等级' })
   readonly priorityLevel?: KeywordPriorityLevel;
 
-  @Field(() => KeywordStatus, { nullable: true, description: '批量更新状态' })
-  @IsOptional()
-  @IsEnum(KeywordStatus, { message: '无效的关键词状态' })
-  readonly status?: KeywordStatus;
-
   @Field(() => ID, { nullable: true, description: '批量分配给用户' })
   @IsOptional()
   @IsUUID(4, { message: '无效的用户 ID 格式' })
@@ -711,4 +723,1316 @@ export class BulkOperationResultDto {
 
   @Field(() => [String], { description: '错误信息列表' })
   readonly errors: string[];
-}
\ No newline at end of file
+}
+// ==================== 批量导入类型 ====================
+
+registerEnumType(KeywordImportAction, {
+  name: 'KeywordImportAction',
+  description: '导入行处理结果',
+});
+
+registerEnumType(KeywordImportDuplicateStrategy, {
+  name: 'KeywordImportDuplicateStrategy',
+  description: '重复关键词处理策略',
+});
+
+/**
+ * 导入列映射输入类型
+ */
+@InputType('KeywordImportColumnMappingInput')
+export class KeywordImportColumnMappingInputDto {
+  @Field({ nullable: true, description: '关键词文本列名' })
+  @IsOptional()
+  @IsString()
+  readonly text?: string;
+
+  @Field({ nullable: true, description: '搜索量列名' })
+  @IsOptional()
+  @IsString()
+  readonly searchVolume?: string;
+
+  @Field({ nullable: true, description: '关键词难度列名' })
+  @IsOptional()
+  @IsString()
+  readonly difficulty?: string;
+
+  @Field({ nullable: true, description: 'CPC 列名' })
+  @IsOptional()
+  @IsString()
+  readonly cpc?: string;
+
+  @Field({ nullable: true, description: '产品线列名' })
+  @IsOptional()
+  @IsString()
+  readonly productLine?: string;
+
+  @Field({ nullable: true, description: '搜索意图列名' })
+  @IsOptional()
+  @IsString()
+  readonly intentType?: string;
+
+  @Field({ nullable: true, description: '营销漏斗阶段列名' })
+  @IsOptional()
+  @IsString()
+  readonly stage?: string;
+}
+
+/**
+ * 批量导入输入类型
+ */
+@InputType('ImportKeywordsInput')
+export class ImportKeywordsInputDto {
+  @Field({ description: '文件名 (.csv / .xlsx / .xls)' })
+  @IsString()
+  @Matches(/\.(csv|xlsx|xls)$/i, { message: '仅支持 CSV 和 Excel 文件' })
+  readonly fileName: string;
+
+  @Field({ description: 'Base64 编码的文件内容' })
+  @IsString()
+  readonly content: string;
+
+  @Field(() => KeywordImportColumnMappingInputDto, { nullable: true, description: '列映射，未指定时按表头自动识别' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => KeywordImportColumnMappingInputDto)
+  readonly columnMapping?: KeywordImportColumnMappingInputDto;
+
+  @Field(() => KeywordImportDuplicateStrategy, {
+    nullable: true,
+    defaultValue: KeywordImportDuplicateStrategy.SKIP,
+    description: '重复关键词处理策略',
+  })
+  @IsOptional()
+  @IsEnum(KeywordImportDuplicateStrategy, { message: '无效的重复处理策略' })
+  readonly duplicateStrategy?: KeywordImportDuplicateStrategy;
+
+  @Field({ nullable: true, defaultValue: false, description: '仅预览，不写入数据库' })
+  @IsOptional()
+  @IsBoolean({ message: 'dryRun 必须是布尔值' })
+  readonly dryRun?: boolean;
+}
+
+/**
+ * 导入行数据输出类型
+ */
+@ObjectType('KeywordImportRowData')
+export class KeywordImportRowDataDto {
+  @Field({ nullable: true })
+  readonly text?: string;
+
+  @Field(() => Int, { nullable: true })
+  readonly searchVolume?: number;
+
+  @Field(() => Float, { nullable: true })
+  readonly difficulty?: number;
+
+  @Field(() => Float, { nullable: true })
+  readonly cpc?: number;
+
+  @Field(() => ProductLine, { nullable: true })
+  readonly productLine?: ProductLine;
+
+  @Field(() => KeywordIntentType, { nullable: true })
+  readonly intentType?: KeywordIntentType;
+
+  @Field(() => MarketingFunnelStage, { nullable: true })
+  readonly stage?: MarketingFunnelStage;
+}
+
+/**
+ * 导入行结果输出类型
+ */
+@ObjectType('KeywordImportRowResult')
+export class KeywordImportRowResultDto {
+  @Field(() => Int, { description: '文件中的行号（表头为第 1 行）' })
+  readonly rowNumber: number;
+
+  @Field({ nullable: true, description: '关键词文本' })
+  readonly text?: string;
+
+  @Field(() => KeywordImportAction, { description: '处理结果' })
+  readonly action: KeywordImportAction;
+
+  @Field(() => ID, { nullable: true, description: '创建或匹配到的关键词 ID' })
+  readonly keywordId?: string;
+
+  @Field(() => [String], { description: '该行的错误信息' })
+  readonly errors: string[];
+
+  @Field(() => KeywordImportRowDataDto, { description: '解析后的行数据' })
+  readonly data: KeywordImportRowDataDto;
+}
+
+/**
+ * 批量导入报告输出类型
+ */
+@ObjectType('KeywordImportReport')
+export class KeywordImportReportDto {
+  @Field({ description: '是否为预览' })
+  readonly dryRun: boolean;
+
+  @Field(() => Int, { description: '数据行总数' })
+  readonly totalRows: number;
+
+  @Field(() => Int, { description: '新建数量' })
+  readonly createdCount: number;
+
+  @Field(() => Int, { description: '更新数量' })
+  readonly updatedCount: number;
+
+  @Field(() => Int, { description: '跳过数量' })
+  readonly skippedCount: number;
+
+  @Field(() => Int, { description: '失败数量' })
+  readonly failedCount: number;
+
+  @Field(() => [KeywordImportRowResultDto], { description: '逐行结果' })
+  readonly rows: KeywordImportRowResultDto[];
+}
+
+// ==================== 优先级评分 DTO ====================
+
+/**
+ * 评分因子权重 / 得分输出类型
+ */
+@ObjectType('KeywordScoringWeights')
+export class KeywordScoringWeightsDto {
+  @Field(() => Float, { description: '搜索量' })
+  readonly searchVolume: number;
+
+  @Field(() => Float, { description: '关键词难度（越低越好）' })
+  readonly difficulty: number;
+
+  @Field(() => Float, { description: '点击成本' })
+  readonly cpc: number;
+
+  @Field(() => Float, { description: 'AIO 适配性' })
+  readonly aioScore: number;
+
+  @Field(() => Float, { description: '搜索意图与漏斗阶段' })
+  readonly intent: number;
+
+  @Field(() => Float, { description: '当前排名的提升空间' })
+  readonly ranking: number;
+}
+
+/**
+ * 优先级阈值输出类型
+ */
+@ObjectType('KeywordTierThresholds')
+export class KeywordTierThresholdsDto {
+  @Field(() => Float)
+  readonly P0: number;
+
+  @Field(() => Float)
+  readonly P1: number;
+
+  @Field(() => Float)
+  readonly P2: number;
+
+  @Field(() => Float)
+  readonly P3: number;
+}
+
+/**
+ * 评分配置输出类型
+ */
+@ObjectType('KeywordScoringConfig')
+export class KeywordScoringConfigDto {
+  @Field({ description: '产品线，default 为默认配置' })
+  readonly productLine: string;
+
+  @Field(() => KeywordScoringWeightsDto)
+  readonly weights: KeywordScoringWeightsDto;
+
+  @Field(() => KeywordTierThresholdsDto, { description: '各级别最低得分，低于 P3 为 P4' })
+  readonly thresholds: KeywordTierThresholdsDto;
+
+  @Field({ description: '是否为未保存的内置默认值' })
+  readonly isBuiltIn: boolean;
+
+  @Field({ nullable: true })
+  readonly updatedAt?: Date;
+}
+
+/**
+ * 评分因子权重输入类型
+ */
+@InputType('KeywordScoringWeightsInput')
+export class KeywordScoringWeightsInputDto {
+  @Field(() => Float, { nullable: true })
+  @IsOptional()
+  @IsNumber({}, { message: '权重必须是数字' })
+  @Min(0, { message: '权重不能为负数' })
+  readonly searchVolume?: number;
+
+  @Field(() => Float, { nullable: true })
+  @IsOptional()
+  @IsNumber({}, { message: '权重必须是数字' })
+  @Min(0, { message: '权重不能为负数' })
+  readonly difficulty?: number;
+
+  @Field(() => Float, { nullable: true })
+  @IsOptional()
+  @IsNumber({}, { message: '权重必须是数字' })
+  @Min(0, { message: '权重不能为负数' })
+  readonly cpc?: number;
+
+  @Field(() => Float, { nullable: true })
+  @IsOptional()
+  @IsNumber({}, { message: '权重必须是数字' })
+  @Min(0, { message: '权重不能为负数' })
+  readonly aioScore?: number;
+
+  @Field(() => Float, { nullable: true })
+  @IsOptional()
+  @IsNumber({}, { message: '权重必须是数字' })
+  @Min(0, { message: '权重不能为负数' })
+  readonly intent?: number;
+
+  @Field(() => Float, { nullable: true })
+  @IsOptional()
+  @IsNumber({}, { message: '权重必须是数字' })
+  @Min(0, { message: '权重不能为负数' })
+  readonly ranking?: number;
+}
+
+/**
+ * 优先级阈值输入类型
+ */
+@InputType('KeywordTierThresholdsInput')
+export class KeywordTierThresholdsInputDto {
+  @Field(() => Float, { nullable: true })
+  @IsOptional()
+  @IsNumber({}, { message: '阈值必须是数字' })
+  @Min(0, { message: '阈值不能小于 0' })
+  @Max(100, { message: '阈值不能大于 100' })
+  readonly P0?: number;
+
+  @Field(() => Float, { nullable: true })
+  @IsOptional()
+  @IsNumber({}, { message: '阈值必须是数字' })
+  @Min(0, { message: '阈值不能小于 0' })
+  @Max(100, { message: '阈值不能大于 100' })
+  readonly P1?: number;
+
+  @Field(() => Float, { nullable: true })
+  @IsOptional()
+  @IsNumber({}, { message: '阈值必须是数字' })
+  @Min(0, { message: '阈值不能小于 0' })
+  @Max(100, { message: '阈值不能大于 100' })
+  readonly P2?: number;
+
+  @Field(() => Float, { nullable: true })
+  @IsOptional()
+  @IsNumber({}, { message: '阈值必须是数字' })
+  @Min(0, { message: '阈值不能小于 0' })
+  @Max(100, { message: '阈值不能大于 100' })
+  readonly P3?: number;
+}
+
+/**
+ * 评分配置输入类型
+ */
+@InputType('KeywordScoringConfigInput')
+export class KeywordScoringConfigInputDto {
+  @Field(() => ProductLine, { nullable: true, description: '产品线，为空时保存默认配置' })
+  @IsOptional()
+  @IsEnum(ProductLine, { message: '无效的产品线' })
+  readonly productLine?: ProductLine;
+
+  @Field(() => KeywordScoringWeightsInputDto, { nullable: true, description: '未提供的权重保留当前值' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => KeywordScoringWeightsInputDto)
+  readonly weights?: KeywordScoringWeightsInputDto;
+
+  @Field(() => KeywordTierThresholdsInputDto, { nullable: true, description: '未提供的阈值保留当前值' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => KeywordTierThresholdsInputDto)
+  readonly thresholds?: KeywordTierThresholdsInputDto;
+}
+
+/**
+ * 重新评级输入类型
+ */
+@InputType('KeywordRegradeInput')
+export class KeywordRegradeInputDto {
+  @Field(() => ProductLine, { nullable: true, description: '仅评级该产品线的关键词' })
+  @IsOptional()
+  @IsEnum(ProductLine, { message: '无效的产品线' })
+  readonly productLine?: ProductLine;
+
+  @Field(() => [ID], { nullable: true, description: '仅评级这些关键词，未指定时评级全部活跃关键词' })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('4', { each: true, message: '关键词 ID 格式不正确' })
+  readonly keywordIds?: string[];
+
+  @Field(() => KeywordScoringWeightsInputDto, { nullable: true, description: '临时覆盖权重，仅预览可用' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => KeywordScoringWeightsInputDto)
+  readonly weights?: KeywordScoringWeightsInputDto;
+
+  @Field(() => KeywordTierThresholdsInputDto, { nullable: true, description: '临时覆盖阈值，仅预览可用' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => KeywordTierThresholdsInputDto)
+  readonly thresholds?: KeywordTierThresholdsInputDto;
+}
+
+/**
+ * 关键词评分结果输出类型
+ */
+@ObjectType('KeywordPriorityScore')
+export class KeywordPriorityScoreDto {
+  @Field(() => ID)
+  readonly keywordId: string;
+
+  @Field()
+  readonly text: string;
+
+  @Field({ nullable: true })
+  readonly productLine?: string;
+
+  @Field(() => Float, { description: '加权得分 (0-100)' })
+  readonly score: number;
+
+  @Field(() => KeywordScoringWeightsDto, { description: '各因子得分 (0-100)' })
+  readonly factors: KeywordScoringWeightsDto;
+
+  @Field({ nullable: true, description: '当前优先级' })
+  readonly currentLevel?: string;
+
+  @Field(() => KeywordPriorityLevel, { description: '建议优先级' })
+  readonly suggestedLevel: KeywordPriorityLevel;
+}
+
+/**
+ * 优先级分布项输出类型
+ */
+@ObjectType('KeywordTierCount')
+export class KeywordTierCountDto {
+  @Field({ description: '优先级，未评级为 unassigned' })
+  readonly level: string;
+
+  @Field(() => Int)
+  readonly count: number;
+}
+
+/**
+ * 优先级变化输出类型
+ */
+@ObjectType('KeywordTierTransition')
+export class KeywordTierTransitionDto {
+  @Field({ nullable: true })
+  readonly from?: string;
+
+  @Field(() => KeywordPriorityLevel)
+  readonly to: KeywordPriorityLevel;
+
+  @Field(() => Int)
+  readonly count: number;
+}
+
+/**
+ * 重新评级报告输出类型
+ */
+@ObjectType('KeywordRegradeReport')
+export class KeywordRegradeReportDto {
+  @Field({ description: '是否为预览' })
+  readonly dryRun: boolean;
+
+  @Field(() => Int)
+  readonly totalKeywords: number;
+
+  @Field(() => Int, { description: '级别变化的关键词数' })
+  readonly changedCount: number;
+
+  @Field(() => Int)
+  readonly upgradedCount: number;
+
+  @Field(() => Int)
+  readonly downgradedCount: number;
+
+  @Field(() => [KeywordTierCountDto])
+  readonly distributionBefore: KeywordTierCountDto[];
+
+  @Field(() => [KeywordTierCountDto])
+  readonly distributionAfter: KeywordTierCountDto[];
+
+  @Field(() => [KeywordTierTransitionDto])
+  readonly transitions: KeywordTierTransitionDto[];
+
+  @Field(() => [KeywordPriorityScoreDto], { description: '级别变化明细（按得分降序，最多 200 条）' })
+  readonly changes: KeywordPriorityScoreDto[];
+}
+
+// ==================== 主题聚类 DTO ====================
+
+/**
+ * 关键词聚类输出类型
+ */
+@ObjectType('KeywordCluster')
+export class KeywordClusterDto {
+  @Field(() => ID)
+  readonly id: string;
+
+  @Field({ description: '聚类名称，默认为支柱关键词文本' })
+  readonly name: string;
+
+  @Field(() => ProductLine, { nullable: true, description: '产品线' })
+  readonly productLine?: ProductLine;
+
+  @Field(() => ID, { nullable: true, description: '支柱关键词 ID' })
+  readonly pillarKeywordId?: string;
+
+  @Field(() => Int, { description: '成员关键词数' })
+  readonly keywordCount: number;
+
+  @Field(() => Int, { description: '成员总搜索量' })
+  readonly totalSearchVolume: number;
+
+  @Field(() => GraphQLDecimal, { nullable: true, description: '成员与支柱关键词的平均相似度 (0-1)' })
+  readonly cohesion?: number;
+
+  @Field()
+  readonly createdAt: Date;
+
+  @Field()
+  readonly updatedAt: Date;
+
+  @Field(() => KeywordDto, { nullable: true, description: '支柱关键词' })
+  readonly pillarKeyword?: KeywordDto;
+
+  @Field(() => [KeywordDto], { nullable: true, description: '成员关键词（按搜索量降序，含支柱关键词）' })
+  readonly keywords?: KeywordDto[];
+}
+
+/**
+ * 关键词聚类树输出类型
+ */
+@ObjectType('KeywordClusterTree')
+export class KeywordClusterTreeDto {
+  @Field(() => [KeywordClusterDto], { description: '聚类（含成员关键词）' })
+  readonly clusters: KeywordClusterDto[];
+
+  @Field(() => Int, { description: '未归类的活跃关键词数' })
+  readonly unclusteredCount: number;
+}
+
+/**
+ * 聚类重建输入类型
+ */
+@InputType('RebuildKeywordClustersInput')
+export class RebuildKeywordClustersInputDto {
+  @Field(() => ProductLine, { nullable: true, description: '仅重建该产品线的聚类' })
+  @IsOptional()
+  @IsEnum(ProductLine, { message: '无效的产品线' })
+  readonly productLine?: ProductLine;
+
+  @Field(() => Float, { nullable: true, description: '与支柱关键词的最低相似度 (0-1)，默认 0.35' })
+  @IsOptional()
+  @IsNumber({}, { message: '相似度阈值必须是数字' })
+  @Min(0.01, { message: '相似度阈值必须大于 0' })
+  @Max(1, { message: '相似度阈值不能大于 1' })
+  readonly minSimilarity?: number;
+
+  @Field(() => Int, { nullable: true, description: '最小聚类规模，默认 2' })
+  @IsOptional()
+  @IsNumber({}, { message: '最小聚类规模必须是数字' })
+  @Min(1, { message: '最小聚类规模不能小于 1' })
+  readonly minClusterSize?: number;
+}
+
+/**
+ * 聚类重建报告输出类型
+ */
+@ObjectType('KeywordClusteringReport')
+export class KeywordClusteringReportDto {
+  @Field(() => ProductLine, { nullable: true })
+  readonly productLine?: ProductLine;
+
+  @Field(() => Int, { description: '参与聚类的活跃关键词数' })
+  readonly totalKeywords: number;
+
+  @Field(() => Int)
+  readonly clusterCount: number;
+
+  @Field(() => Int)
+  readonly clusteredCount: number;
+
+  @Field(() => Int)
+  readonly unclusteredCount: number;
+
+  @Field(() => Float, { description: '有 SERP URL 数据的关键词占比 (0-1)' })
+  readonly serpCoverage: number;
+
+  @Field(() => Int)
+  readonly durationMs: number;
+}
+
+// ==================== 内容蚕食 DTO ====================
+
+registerEnumType(CannibalizationSeverity, {
+  name: 'CannibalizationSeverity',
+  description: '内容蚕食严重程度',
+});
+
+registerEnumType(CannibalizationAction, {
+  name: 'CannibalizationAction',
+  description: '内容蚕食处理建议',
+});
+
+/**
+ * 竞争同一关键词的页面输出类型
+ */
+@ObjectType('CannibalizingPage')
+export class CannibalizingPageDto {
+  @Field(() => ID, { nullable: true, description: '内容 ID，仅出现在排名数据中的 URL 为空' })
+  readonly contentId?: string;
+
+  @Field({ nullable: true })
+  readonly title?: string;
+
+  @Field({ nullable: true })
+  readonly contentType?: string;
+
+  @Field({ nullable: true })
+  readonly url?: string;
+
+  @Field(() => Int, { nullable: true, description: 'Google 排名' })
+  readonly position?: number;
+
+  @Field(() => Int, { nullable: true, description: '流量事件数或按排名估算的点击' })
+  readonly traffic?: number;
+
+  @Field(() => Float, { description: '流量占比 (0-1)' })
+  readonly trafficShare: number;
+
+  @Field({ description: '是否为主页面（流量最高）' })
+  readonly isPrimary: boolean;
+}
+
+/**
+ * 内容蚕食处理建议输出类型
+ */
+@ObjectType('CannibalizationSuggestion')
+export class CannibalizationSuggestionDto {
+  @Field(() => CannibalizationAction)
+  readonly action: CannibalizationAction;
+
+  @Field(() => ID, { nullable: true })
+  readonly sourceContentId?: string;
+
+  @Field({ nullable: true })
+  readonly sourceUrl?: string;
+
+  @Field(() => ID, { nullable: true, description: '主页面内容 ID' })
+  readonly targetContentId?: string;
+
+  @Field({ nullable: true, description: '主页面 URL' })
+  readonly targetUrl?: string;
+
+  @Field(() => ID, { nullable: true, description: '建议改为定位的关键词 ID' })
+  readonly suggestedKeywordId?: string;
+
+  @Field({ nullable: true })
+  readonly suggestedKeywordText?: string;
+
+  @Field()
+  readonly reason: string;
+}
+
+/**
+ * 关键词内容蚕食分析输出类型
+ */
+@ObjectType('KeywordCannibalization')
+export class KeywordCannibalizationDto {
+  @Field(() => ID)
+  readonly keywordId: string;
+
+  @Field()
+  readonly keywordText: string;
+
+  @Field({ nullable: true })
+  readonly productLine?: string;
+
+  @Field({ description: '是否有多个页面竞争该关键词' })
+  readonly isCannibalized: boolean;
+
+  @Field(() => CannibalizationSeverity, { nullable: true })
+  readonly severity?: CannibalizationSeverity;
+
+  @Field(() => Float, { description: '非主页面的流量占比 (0-1)' })
+  readonly trafficSplit: number;
+
+  @Field({ description: '流量数据来源: analytics 为站内埋点, estimated 为按排名估算' })
+  readonly trafficSource: string;
+
+  @Field(() => [CannibalizingPageDto], { description: '按流量降序' })
+  readonly pages: CannibalizingPageDto[];
+
+  @Field(() => [CannibalizationSuggestionDto], { description: '各非主页面的处理建议' })
+  readonly suggestions: CannibalizationSuggestionDto[];
+}
+
+/**
+ * 内容蚕食问题查询输入类型
+ */
+@InputType('KeywordCannibalizationQueryInput')
+export class KeywordCannibalizationQueryInputDto {
+  @Field(() => ProductLine, { nullable: true })
+  @IsOptional()
+  @IsEnum(ProductLine, { message: '无效的产品线' })
+  readonly productLine?: ProductLine;
+
+  @Field(() => CannibalizationSeverity, { nullable: true, description: '最低严重程度，默认 LOW' })
+  @IsOptional()
+  @IsEnum(CannibalizationSeverity, { message: '无效的严重程度' })
+  readonly minSeverity?: CannibalizationSeverity;
+
+  @Field(() => Int, { nullable: true, description: '返回数量，默认 50' })
+  @IsOptional()
+  @IsNumber({}, { message: '返回数量必须是数字' })
+  @Min(1, { message: '返回数量不能小于 1' })
+  @Max(200, { message: '返回数量不能大于 200' })
+  readonly limit?: number;
+}
+
+// ==================== 竞品差距 DTO ====================
+
+registerEnumType(KeywordGapSource, {
+  name: 'KeywordGapSource',
+  description: '差距关键词的发现来源',
+});
+
+/**
+ * 差距关键词中单个竞品的表现输出类型
+ */
+@ObjectType('KeywordGapCompetitor')
+export class KeywordGapCompetitorDto {
+  @Field()
+  readonly domain: string;
+
+  @Field(() => Int, { nullable: true, description: '自然排名，前 10 以外为空' })
+  readonly position?: number;
+
+  @Field({ nullable: true })
+  readonly url?: string;
+
+  @Field(() => Int, { nullable: true, description: 'AIO 引用位置，未被引用为空' })
+  readonly aioPosition?: number;
+}
+
+/**
+ * 竞品差距关键词输出类型
+ */
+@ObjectType('KeywordGap')
+export class KeywordGapDto {
+  @Field()
+  readonly text: string;
+
+  @Field(() => ID, { nullable: true, description: '已在关键词库中时为对应关键词 ID' })
+  readonly keywordId?: string;
+
+  @Field(() => ProductLine, { nullable: true })
+  readonly productLine?: ProductLine;
+
+  @Field(() => KeywordGapSource)
+  readonly source: KeywordGapSource;
+
+  @Field(() => Int, { nullable: true })
+  readonly searchVolume?: number;
+
+  @Field(() => [KeywordGapCompetitorDto], { description: '排名或被 AIO 引用的竞品' })
+  readonly competitors: KeywordGapCompetitorDto[];
+
+  @Field(() => Int, { nullable: true, description: 'Eufy 自然排名' })
+  readonly ownPosition?: number;
+
+  @Field({ description: '竞品进入前 10 而 Eufy 未进入' })
+  readonly rankingGap: boolean;
+
+  @Field({ description: '竞品被 AIO 引用而 Eufy 未被引用' })
+  readonly aioGap: boolean;
+
+  @Field(() => Int, { nullable: true, description: '预估月点击增量（搜索量 × 点击率曲线），无搜索量时为空' })
+  readonly estimatedOpportunity?: number;
+}
+
+/**
+ * 竞品差距分析输出类型
+ */
+@ObjectType('KeywordGapAnalysis')
+export class KeywordGapAnalysisDto {
+  @Field(() => [String])
+  readonly competitorDomains: string[];
+
+  @Field(() => [KeywordGapDto], { description: '按预估机会降序' })
+  readonly gaps: KeywordGapDto[];
+
+  @Field(() => Int, { description: '预估月点击增量合计' })
+  readonly totalOpportunity: number;
+
+  @Field()
+  readonly analyzedAt: Date;
+}
+
+/**
+ * 竞品差距分析输入类型
+ */
+@InputType('KeywordGapAnalysisInput')
+export class KeywordGapAnalysisInputDto {
+  @Field(() => [String], { nullable: true, description: '竞品域名，默认 ring.com、arlo.com、wyze.com' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  readonly competitorDomains?: string[];
+
+  @Field(() => ProductLine, { nullable: true })
+  @IsOptional()
+  @IsEnum(ProductLine, { message: '无效的产品线' })
+  readonly productLine?: ProductLine;
+
+  @Field({ nullable: true, description: '是否从竞品站点页面发现新关键词（实时查询 SERP，耗时较长）' })
+  @IsOptional()
+  @IsBoolean()
+  readonly discover?: boolean;
+
+  @Field(() => Int, { nullable: true, description: '返回数量，默认 100' })
+  @IsOptional()
+  @IsNumber({}, { message: '返回数量必须是数字' })
+  @Min(1, { message: '返回数量不能小于 1' })
+  @Max(500, { message: '返回数量不能大于 500' })
+  readonly limit?: number;
+}
+
+/**
+ * 加入关键词库的差距关键词输入类型
+ */
+@InputType('KeywordGapBacklogItemInput')
+export class KeywordGapBacklogItemInputDto {
+  @Field({ description: '关键词文本' })
+  @IsString()
+  @Length(1, 255, { message: '关键词文本长度必须在 1-255 字符之间' })
+  readonly text: string;
+
+  @Field(() => Int, { nullable: true })
+  @IsOptional()
+  @IsNumber({}, { message: '搜索量必须是数字' })
+  @Min(0, { message: '搜索量不能为负数' })
+  readonly searchVolume?: number;
+
+  @Field(() => ProductLine, { nullable: true })
+  @IsOptional()
+  @IsEnum(ProductLine, { message: '无效的产品线' })
+  readonly productLine?: ProductLine;
+
+  @Field(() => [String], { description: '发现差距的竞品域名' })
+  @IsArray()
+  @IsString({ each: true })
+  readonly competitorDomains: string[];
+}
+
+/**
+ * 差距关键词加入关键词库输入类型
+ */
+@InputType('AddKeywordGapsInput')
+export class AddKeywordGapsInputDto {
+  @Field(() => [KeywordGapBacklogItemInputDto])
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => KeywordGapBacklogItemInputDto)
+  readonly items: KeywordGapBacklogItemInputDto[];
+}
+
+/**
+ * 差距关键词加入关键词库结果输出类型
+ */
+@ObjectType('AddKeywordGapsResult')
+export class AddKeywordGapsResultDto {
+  @Field(() => [KeywordDto], { description: '新建的关键词' })
+  readonly created: KeywordDto[];
+
+  @Field(() => [String], { description: '已存在而跳过的关键词' })
+  readonly skippedTexts: string[];
+}
+
+// ==================== 生命周期 DTO ====================
+
+/**
+ * 状态流转规则输出类型
+ */
+@ObjectType('KeywordStatusTransitionRule')
+export class KeywordStatusTransitionRuleDto {
+  @Field(() => KeywordStatus)
+  readonly from: KeywordStatus;
+
+  @Field(() => KeywordStatus)
+  readonly to: KeywordStatus;
+
+  @Field({ description: '执行该流转所需的权限' })
+  readonly permission: string;
+
+  @Field({ description: '是否需填写原因' })
+  readonly reasonRequired: boolean;
+}
+
+/**
+ * 状态历史输出类型
+ */
+@ObjectType('KeywordStatusHistory')
+export class KeywordStatusHistoryDto {
+  @Field(() => ID)
+  readonly id: string;
+
+  @Field(() => ID)
+  readonly keywordId: string;
+
+  @Field(() => KeywordStatus, { nullable: true, description: '创建关键词时为空' })
+  readonly fromStatus?: KeywordStatus;
+
+  @Field(() => KeywordStatus)
+  readonly toStatus: KeywordStatus;
+
+  @Field({ nullable: true })
+  readonly reason?: string;
+
+  @Field(() => ID)
+  readonly changedBy: string;
+
+  @Field()
+  readonly changedAt: Date;
+
+  @Field(() => UserInfoDto, { description: '操作人' })
+  readonly user: UserInfoDto;
+}
+
+/**
+ * 状态流转输入类型
+ */
+@InputType('KeywordStatusTransitionInput')
+export class KeywordStatusTransitionInputDto {
+  @Field(() => ID)
+  @IsUUID(4, { message: '无效的关键词 ID 格式' })
+  readonly keywordId: string;
+
+  @Field(() => KeywordStatus)
+  @IsEnum(KeywordStatus, { message: '无效的关键词状态' })
+  readonly toStatus: KeywordStatus;
+
+  @Field({ nullable: true, description: '流转原因，退回和退役时必填' })
+  @IsOptional()
+  @IsString()
+  @Length(0, 500, { message: '原因不能超过 500 个字符' })
+  readonly reason?: string;
+}
+
+/**
+ * 批量状态流转输入类型
+ */
+@InputType('BulkKeywordStatusTransitionInput')
+export class BulkKeywordStatusTransitionInputDto {
+  @Field(() => [ID], { description: '关键词 ID 列表' })
+  @IsArray()
+  @IsUUID(4, { each: true, message: '无效的关键词 ID 格式' })
+  readonly keywordIds: string[];
+
+  @Field(() => KeywordStatus)
+  @IsEnum(KeywordStatus, { message: '无效的关键词状态' })
+  readonly toStatus: KeywordStatus;
+
+  @Field({ nullable: true, description: '流转原因，退回和退役时必填' })
+  @IsOptional()
+  @IsString()
+  @Length(0, 500, { message: '原因不能超过 500 个字符' })
+  readonly reason?: string;
+}
+
+/**
+ * 周期时长统计输入类型
+ */
+@InputType('KeywordCycleTimeInput')
+export class KeywordCycleTimeInputDto {
+  @Field({ nullable: true, description: '统计起始时间，默认结束时间前 90 天' })
+  @IsOptional()
+  @IsDate({ message: '无效的日期格式' })
+  @Transform(({ value }) => new Date(value))
+  readonly from?: Date;
+
+  @Field({ nullable: true, description: '统计结束时间，默认当前时间' })
+  @IsOptional()
+  @IsDate({ message: '无效的日期格式' })
+  @Transform(({ value }) => new Date(value))
+  readonly to?: Date;
+
+  @Field(() => ProductLine, { nullable: true })
+  @IsOptional()
+  @IsEnum(ProductLine, { message: '无效的产品线' })
+  readonly productLine?: ProductLine;
+}
+
+/**
+ * 状态停留时长输出类型
+ */
+@ObjectType('KeywordStatusDuration')
+export class KeywordStatusDurationDto {
+  @Field(() => KeywordStatus)
+  readonly status: KeywordStatus;
+
+  @Field(() => Int, { description: '区间内离开该状态的次数' })
+  readonly count: number;
+
+  @Field(() => Float, { description: '平均停留天数' })
+  readonly averageDays: number;
+
+  @Field(() => Float, { description: '停留天数中位数' })
+  readonly medianDays: number;
+
+  @Field(() => Float, { description: '停留天数 90 分位' })
+  readonly p90Days: number;
+}
+
+/**
+ * 里程碑周期时长输出类型
+ */
+@ObjectType('KeywordMilestoneCycleTime')
+export class KeywordMilestoneCycleTimeDto {
+  @Field(() => KeywordStatus)
+  readonly fromStatus: KeywordStatus;
+
+  @Field(() => KeywordStatus)
+  readonly toStatus: KeywordStatus;
+
+  @Field(() => Int, { description: '区间内首次到达 toStatus 的关键词数' })
+  readonly count: number;
+
+  @Field(() => Float)
+  readonly averageDays: number;
+
+  @Field(() => Float)
+  readonly medianDays: number;
+
+  @Field(() => Float)
+  readonly p90Days: number;
+}
+
+/**
+ * 周期时长报告输出类型
+ */
+@ObjectType('KeywordCycleTimeReport')
+export class KeywordCycleTimeReportDto {
+  @Field()
+  readonly from: Date;
+
+  @Field()
+  readonly to: Date;
+
+  @Field(() => ProductLine, { nullable: true })
+  readonly productLine?: ProductLine;
+
+  @Field(() => [KeywordStatusDurationDto], { description: '各状态停留时长，按生命周期顺序' })
+  readonly statusDurations: KeywordStatusDurationDto[];
+
+  @Field(() => [KeywordMilestoneCycleTimeDto], { description: '提议→批准、批准→发布、提议→发布' })
+  readonly milestones: KeywordMilestoneCycleTimeDto[];
+}
+
+// ==================== 保存视图 DTO ====================
+
+/**
+ * 视图排序输出类型
+ */
+@ObjectType('KeywordSavedViewSort')
+export class KeywordSavedViewSortDto {
+  @Field({ description: '排序字段' })
+  readonly field: string;
+
+  @Field({ description: '排序方向 asc 或 desc' })
+  readonly direction: string;
+}
+
+/**
+ * 视图排序输入类型
+ */
+@InputType('KeywordSavedViewSortInput')
+export class KeywordSavedViewSortInputDto {
+  @Field({ description: '排序字段' })
+  @IsString()
+  @Length(1, 50)
+  readonly field: string;
+
+  @Field({ description: '排序方向' })
+  @IsEnum(['asc', 'desc'], { message: '排序方向必须是 asc 或 desc' })
+  readonly direction: 'asc' | 'desc';
+}
+
+/**
+ * 保存视图输出类型
+ */
+@ObjectType('KeywordSavedView')
+export class KeywordSavedViewDto {
+  @Field(() => ID)
+  readonly id: string;
+
+  @Field()
+  readonly name: string;
+
+  @Field({ description: '筛选条件 JSON，由前端关键词表格定义' })
+  readonly filter: string;
+
+  @Field(() => KeywordSavedViewSortDto, { nullable: true })
+  readonly sort?: KeywordSavedViewSortDto;
+
+  @Field(() => [String], { description: '显示列，为空时显示全部列' })
+  readonly visibleColumns: string[];
+
+  @Field(() => ID)
+  readonly ownerId: string;
+
+  @Field({ description: '是否团队共享' })
+  readonly isShared: boolean;
+
+  @Field(() => [String], { description: '作为这些角色的默认视图' })
+  readonly defaultForRoles: string[];
+
+  @Field()
+  readonly createdAt: Date;
+
+  @Field()
+  readonly updatedAt: Date;
+
+  @Field(() => UserInfoDto, { description: '所有者' })
+  readonly owner: UserInfoDto;
+}
+
+/**
+ * 创建保存视图输入类型
+ */
+@InputType('CreateKeywordSavedViewInput')
+export class CreateKeywordSavedViewInputDto {
+  @Field({ description: '视图名称，同一用户下唯一' })
+  @IsString()
+  @Length(1, 100, { message: '视图名称长度必须在 1-100 个字符之间' })
+  readonly name: string;
+
+  @Field({ nullable: true, description: '筛选条件 JSON 对象' })
+  @IsOptional()
+  @IsJSON({ message: '筛选条件必须是合法的 JSON' })
+  readonly filter?: string;
+
+  @Field(() => KeywordSavedViewSortInputDto, { nullable: true })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => KeywordSavedViewSortInputDto)
+  readonly sort?: KeywordSavedViewSortInputDto;
+
+  @Field(() => [String], { nullable: true, description: '显示列，为空时显示全部列' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  readonly visibleColumns?: string[];
+
+  @Field({ nullable: true, description: '是否团队共享', defaultValue: false })
+  @IsOptional()
+  @IsBoolean()
+  readonly isShared?: boolean;
+
+  @Field(() => [String], { nullable: true, description: '作为这些角色的默认视图，仅 admin / manager 可设置' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  readonly defaultForRoles?: string[];
+}
+
+/**
+ * 更新保存视图输入类型
+ */
+@InputType('UpdateKeywordSavedViewInput')
+export class UpdateKeywordSavedViewInputDto {
+  @Field(() => ID)
+  @IsUUID(4, { message: '无效的视图 ID 格式' })
+  readonly id: string;
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100, { message: '视图名称长度必须在 1-100 个字符之间' })
+  readonly name?: string;
+
+  @Field({ nullable: true, description: '筛选条件 JSON 对象' })
+  @IsOptional()
+  @IsJSON({ message: '筛选条件必须是合法的 JSON' })
+  readonly filter?: string;
+
+  @Field(() => KeywordSavedViewSortInputDto, { nullable: true })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => KeywordSavedViewSortInputDto)
+  readonly sort?: KeywordSavedViewSortInputDto;
+
+  @Field(() => [String], { nullable: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  readonly visibleColumns?: string[];
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsBoolean()
+  readonly isShared?: boolean;
+
+  @Field(() => [String], { nullable: true, description: '仅 admin / manager 可设置' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  readonly defaultForRoles?: string[];
+}
+
+// ==================== 检索 DTO ====================
+
+/**
+ * 关键词检索输入类型
+ */
+@InputType('KeywordSearchInput')
+export class KeywordSearchInputDto {
+  @Field({ description: '检索文本，支持词形、词序差异和拼写错误' })
+  @IsString()
+  @Length(0, 200, { message: '检索文本不能超过 200 个字符' })
+  readonly query: string;
+
+  @Field(() => ProductLine, { nullable: true })
+  @IsOptional()
+  @IsEnum(ProductLine, { message: '无效的产品线' })
+  readonly productLine?: ProductLine;
+
+  @Field(() => [KeywordPriorityLevel], { nullable: true })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(KeywordPriorityLevel, { each: true, message: '无效的优先级等级' })
+  readonly priorityLevels?: KeywordPriorityLevel[];
+
+  @Field(() => [KeywordStatus], { nullable: true, description: '未指定时排除已退役关键词' })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(KeywordStatus, { each: true, message: '无效的关键词状态' })
+  readonly statuses?: KeywordStatus[];
+
+  @Field({ nullable: true, description: '是否包含已退役关键词', defaultValue: false })
+  @IsOptional()
+  @IsBoolean()
+  readonly includeRetired?: boolean;
+
+  @Field(() => Int, { nullable: true, description: '返回数量，默认 20' })
+  @IsOptional()
+  @IsNumber({}, { message: '返回数量必须是数字' })
+  @Min(1, { message: '返回数量不能小于 1' })
+  @Max(100, { message: '返回数量不能大于 100' })
+  readonly limit?: number;
+
+  @Field(() => Int, { nullable: true, defaultValue: 0 })
+  @IsOptional()
+  @IsNumber({}, { message: '偏移量必须是数字' })
+  @Min(0, { message: '偏移量不能小于 0' })
+  readonly offset?: number;
+}
+
+/**
+ * 命中区间输出类型
+ */
+@ObjectType('KeywordTextHighlight')
+export class KeywordTextHighlightDto {
+  @Field(() => Int, { description: '在关键词文本中的起始位置' })
+  readonly start: number;
+
+  @Field(() => Int)
+  readonly length: number;
+}
+
+/**
+ * 检索命中输出类型
+ */
+@ObjectType('KeywordSearchHit')
+export class KeywordSearchHitDto {
+  @Field(() => KeywordDto)
+  readonly keyword: KeywordDto;
+
+  @Field(() => Float, { description: '综合得分 (0-1)' })
+  readonly score: number;
+
+  @Field(() => Float, { description: '全文检索排名 (0-1)，仅模糊匹配命中时为 0' })
+  readonly textRank: number;
+
+  @Field(() => Float, { description: '三元组相似度 (0-1)' })
+  readonly similarity: number;
+
+  @Field(() => [KeywordTextHighlightDto], { description: '全文检索命中的词，模糊匹配命中时为空' })
+  readonly highlights: KeywordTextHighlightDto[];
+}
+
+/**
+ * 检索结果输出类型
+ */
+@ObjectType('KeywordSearchResult')
+export class KeywordSearchResultDto {
+  @Field(() => [KeywordSearchHitDto], { description: '按综合得分降序' })
+  readonly hits: KeywordSearchHitDto[];
+
+  @Field(() => Int)
+  readonly total: number;
+}
+
+/**
+ * 相似关键词查询输入类型
+ */
+@InputType('SimilarKeywordsInput')
+export class KeywordSimilarInputDto {
+  @Field({ description: '待创建或编辑的关键词文本' })
+  @IsString()
+  @Length(1, 200, { message: '关键词文本长度必须在 1-200 个字符之间' })
+  readonly text: string;
+
+  @Field(() => Float, { nullable: true, description: '最低相似度 (0.3-1)，默认 0.5' })
+  @IsOptional()
+  @IsNumber({}, { message: '相似度阈值必须是数字' })
+  @Min(0.3, { message: '相似度阈值不能小于 0.3' })
+  @Max(1, { message: '相似度阈值不能大于 1' })
+  readonly threshold?: number;
+
+  @Field(() => Int, { nullable: true, description: '返回数量，默认 10' })
+  @IsOptional()
+  @IsNumber({}, { message: '返回数量必须是数字' })
+  @Min(1, { message: '返回数量不能小于 1' })
+  @Max(50, { message: '返回数量不能大于 50' })
+  readonly limit?: number;
+
+  @Field(() => ID, { nullable: true, description: '编辑已有关键词时排除自身' })
+  @IsOptional()
+  @IsUUID(4, { message: '无效的关键词 ID 格式' })
+  readonly excludeKeywordId?: string;
+
+  @Field(() => ProductLine, { nullable: true })
+  @IsOptional()
+  @IsEnum(ProductLine, { message: '无效的产品线' })
+  readonly productLine?: ProductLine;
+}
+
+/**
+ * 相似关键词输出类型
+ */
+@ObjectType('SimilarKeyword')
+export class KeywordSimilarMatchDto {
+  @Field(() => KeywordDto)
+  readonly keyword: KeywordDto;
+
+  @Field(() => Float, { description: '三元组相似度 (0-1)' })
+  readonly similarity: number;
+
+  @Field({ description: '词干相同，仅词序或词形不同' })
+  readonly sameTerms: boolean;
+}
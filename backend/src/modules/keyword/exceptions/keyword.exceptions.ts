@@ -211,6 +211,62 @@ export class BulkOperationException extends BaseKeywordException {
   }
 }
 
+/**
+ * 导入文件无效异常
+ */
+export class KeywordImportFileException extends BaseKeywordException {
+  constructor(fileName: string, reason: string, details?: Record<string, unknown>) {
+    super(
+      KeywordErrorCode.IMPORT_FILE_INVALID,
+      `导入文件无效 (${fileName}): ${reason}`,
+      HttpStatus.BAD_REQUEST,
+      { fileName, reason, ...details },
+    );
+  }
+}
+
+/**
+ * 关键词聚类未找到异常
+ */
+export class KeywordClusterNotFoundException extends BaseKeywordException {
+  constructor(clusterId: string, details?: Record<string, unknown>) {
+    super(
+      KeywordErrorCode.CLUSTER_NOT_FOUND,
+      `关键词聚类不存在: ${clusterId}`,
+      HttpStatus.NOT_FOUND,
+      { clusterId, ...details },
+    );
+  }
+}
+
+/**
+ * 关键词状态流转无效异常
+ */
+export class InvalidKeywordStatusTransitionException extends BaseKeywordException {
+  constructor(keywordId: string, fromStatus: string, toStatus: string, details?: Record<string, unknown>) {
+    super(
+      KeywordErrorCode.INVALID_STATUS_TRANSITION,
+      `关键词 ${keywordId} 不允许从 ${fromStatus} 流转到 ${toStatus}`,
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      { keywordId, fromStatus, toStatus, ...details },
+    );
+  }
+}
+
+/**
+ * 保存视图未找到异常
+ */
+export class KeywordSavedViewNotFoundException extends BaseKeywordException {
+  constructor(viewId: string, details?: Record<string, unknown>) {
+    super(
+      KeywordErrorCode.SAVED_VIEW_NOT_FOUND,
+      `保存视图不存在: ${viewId}`,
+      HttpStatus.NOT_FOUND,
+      { viewId, ...details },
+    );
+  }
+}
+
 // ==================== 异常工厂函数 ====================
 
 /**
@@ -227,35 +283,49 @@ export class KeywordExceptionFactory {
   ): BaseKeywordException {
     switch (code) {
       case KeywordErrorCode.KEYWORD_NOT_FOUND:
-        return new KeywordNotFoundException(details?.keywordId as string || '', details);
+        return new KeywordNotFoundException(details?.['keywordId'] as string || '', details);
       
       case KeywordErrorCode.KEYWORD_ALREADY_EXISTS:
         return new KeywordAlreadyExistsException(
-          details?.text as string || '',
-          details?.existingKeywordId as string,
+          details?.['text'] as string || '',
+          details?.['existingKeywordId'] as string,
           details,
         );
       
       case KeywordErrorCode.INVALID_PRIORITY_LEVEL:
-        return new InvalidPriorityLevelException(details?.priorityLevel as string || '', details);
+        return new InvalidPriorityLevelException(details?.['priorityLevel'] as string || '', details);
       
       case KeywordErrorCode.INVALID_AIO_STATUS:
-        return new InvalidAIOStatusException(details?.aioStatus as string || '', details);
+        return new InvalidAIOStatusException(details?.['aioStatus'] as string || '', details);
+      
+      case KeywordErrorCode.CLUSTER_NOT_FOUND:
+        return new KeywordClusterNotFoundException(details?.['clusterId'] as string || '', details);
+      
+      case KeywordErrorCode.INVALID_STATUS_TRANSITION:
+        return new InvalidKeywordStatusTransitionException(
+          details?.['keywordId'] as string || '',
+          details?.['fromStatus'] as string || '',
+          details?.['toStatus'] as string || '',
+          details,
+        );
+      
+      case KeywordErrorCode.SAVED_VIEW_NOT_FOUND:
+        return new KeywordSavedViewNotFoundException(details?.['viewId'] as string || '', details);
       
       case KeywordErrorCode.ASSIGNEE_NOT_FOUND:
-        return new AssigneeNotFoundException(details?.userId as string || '', details);
+        return new AssigneeNotFoundException(details?.['userId'] as string || '', details);
       
       case KeywordErrorCode.PERMISSION_DENIED:
         return new KeywordPermissionDeniedException(
-          details?.action as string || '',
-          details?.userId as string || '',
+          details?.['action'] as string || '',
+          details?.['userId'] as string || '',
           details,
         );
       
       case KeywordErrorCode.VALIDATION_ERROR:
-        if (details?.validationErrors) {
+        if (details?.['validationErrors']) {
           return new KeywordValidationException(
-            details.validationErrors as Array<{ field: string; message: string }>,
+            details['validationErrors'] as Array<{ field: string; message: string }>,
             details,
           );
         }
@@ -263,8 +333,8 @@ export class KeywordExceptionFactory {
       
       case KeywordErrorCode.DATABASE_ERROR:
         return new KeywordDatabaseException(
-          details?.operation as string || 'unknown',
-          details?.originalError as Error,
+          details?.['operation'] as string || 'unknown',
+          details?.['originalError'] as Error,
           details,
         );
       
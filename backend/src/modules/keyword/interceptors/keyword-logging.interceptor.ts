@@ -1,7 +1,8 @@
 /**
  * 关键词日志拦截器
  * 
- * @description 记录关键词模块的操作日志，包括性能监控和审计日志
+ * @description 记录关键词模块的操作日志，包括性能监控和审计日志；
+ *              关键词与内容的变更操作持久化到审计日志表，记录字段级前后差异
  * @author AI Assistant
  * @version 1.0.0
  */
@@ -14,9 +15,11 @@ import {
   Logger,
 } from '@nestjs/common';
 import { GqlExecutionContext } from '@nestjs/graphql';
-import { Observable } from 'rxjs';
-import { tap, catchError } from 'rxjs/operators';
+import { Observable, from, of, throwError } from 'rxjs';
+import { tap, catchError, mergeMap, switchMap } from 'rxjs/operators';
 import { Request, Response } from 'express';
+import { AuditLogService, AuditResourceType, AuditSnapshot } from '@/services/audit-log.service';
+import { KeywordResolver } from '../resolvers/keyword.resolver';
 
 /**
  * 操作类型枚举
@@ -50,6 +53,7 @@ interface AuditLog {
   operationName: string;
   userId?: string;
   userEmail?: string;
+  apiTokenId?: string;
   resourceId?: string;
   resourceType: 'keyword' | 'keyword_metric' | 'bulk_operation';
   inputData?: any;
@@ -66,6 +70,19 @@ interface AuditLog {
   correlationId?: string;
 }
 
+/**
+ * 从执行上下文提取的请求信息，执行结果相关字段在操作结束后补充
+ */
+type AuditContextInfo = Omit<AuditLog, 'operationType' | 'duration' | 'success' | 'outputData' | 'error' | 'correlationId'>;
+
+/**
+ * 需要持久化审计的变更操作
+ */
+interface AuditTarget {
+  resourceType: AuditResourceType;
+  resourceIds: string[];
+}
+
 /**
  * 性能指标接口
  */
@@ -89,6 +106,8 @@ export class KeywordLoggingInterceptor implements NestInterceptor {
   private readonly auditLogger = new Logger('KeywordAudit');
   private readonly performanceLogger = new Logger('KeywordPerformance');
 
+  constructor(private readonly auditLogService: AuditLogService) {}
+
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
     const startTime = Date.now();
     const correlationId = this.generateCorrelationId();
@@ -96,11 +115,12 @@ export class KeywordLoggingInterceptor implements NestInterceptor {
     // 获取执行上下文信息
     const contextInfo = this.extractContextInfo(context);
     const operationType = this.determineOperationType(contextInfo.operationName);
+    const auditTarget = this.resolveAuditTarget(context);
 
     // 记录操作开始
     this.logOperationStart(contextInfo, correlationId);
 
-    return next.handle().pipe(
+    const handle = (before: Map<string, AuditSnapshot>) => next.handle().pipe(
       tap((result) => {
         const duration = Date.now() - startTime;
         
@@ -124,6 +144,17 @@ export class KeywordLoggingInterceptor implements NestInterceptor {
           timestamp: new Date().toISOString(),
         });
       }),
+      mergeMap(async (result) => {
+        if (auditTarget) {
+          await this.persistAuditTrail(auditTarget, before, contextInfo, {
+            correlationId,
+            success: true,
+            result,
+            duration: Date.now() - startTime,
+          });
+        }
+        return result;
+      }),
       catchError((error) => {
         const duration = Date.now() - startTime;
         
@@ -145,15 +176,36 @@ export class KeywordLoggingInterceptor implements NestInterceptor {
           timestamp: new Date().toISOString(),
         });
 
-        throw error;
+        if (!auditTarget) {
+          throw error;
+        }
+        return from(this.persistAuditTrail(auditTarget, before, contextInfo, {
+          correlationId,
+          success: false,
+          error: error.message,
+          duration,
+        })).pipe(mergeMap(() => throwError(() => error)));
+      }),
+    );
+
+    if (!auditTarget) {
+      return handle(new Map());
+    }
+
+    // 变更前快照，用于生成字段级差异
+    return from(this.auditLogService.snapshot(auditTarget.resourceType, auditTarget.resourceIds)).pipe(
+      catchError((error) => {
+        this.logger.warn(`审计快照读取失败 [${correlationId}]: ${error.message}`);
+        return of(new Map<string, AuditSnapshot>());
       }),
+      switchMap(handle),
     );
   }
 
   /**
    * 提取上下文信息
    */
-  private extractContextInfo(context: ExecutionContext): Partial<AuditLog> {
+  private extractContextInfo(context: ExecutionContext): AuditContextInfo {
     const contextType = context.getType<'http' | 'graphql'>();
 
     if (contextType === 'http') {
@@ -166,25 +218,22 @@ export class KeywordLoggingInterceptor implements NestInterceptor {
   /**
    * 提取 HTTP 上下文信息
    */
-  private extractHttpContextInfo(context: ExecutionContext): Partial<AuditLog> {
+  private extractHttpContextInfo(context: ExecutionContext): AuditContextInfo {
     const request = context.switchToHttp().getRequest<Request>();
     const user = (request as any).user;
 
     return {
       context: 'HTTP',
       operationName: `${request.method} ${request.route?.path || request.url}`,
-      userId: user?.id,
-      userEmail: user?.email,
+      ...(user?.id && { userId: user.id }),
+      ...(user?.email && { userEmail: user.email }),
+      ...(user?.apiTokenId && { apiTokenId: user.apiTokenId }),
       inputData: this.sanitizeInputData({
         body: request.body,
         query: request.query,
         params: request.params,
       }),
-      clientInfo: {
-        ip: request.ip,
-        userAgent: request.get('user-agent'),
-        referer: request.get('referer'),
-      },
+      clientInfo: this.extractClientInfo(request),
       resourceType: 'keyword',
       timestamp: new Date().toISOString(),
     };
@@ -193,7 +242,7 @@ export class KeywordLoggingInterceptor implements NestInterceptor {
   /**
    * 提取 GraphQL 上下文信息
    */
-  private extractGraphQLContextInfo(context: ExecutionContext): Partial<AuditLog> {
+  private extractGraphQLContextInfo(context: ExecutionContext): AuditContextInfo {
     const gqlContext = GqlExecutionContext.create(context);
     const info = gqlContext.getInfo();
     const request = gqlContext.getContext().req;
@@ -206,20 +255,32 @@ export class KeywordLoggingInterceptor implements NestInterceptor {
     return {
       context: 'GraphQL',
       operationName: info.fieldName,
-      userId: user?.id,
-      userEmail: user?.email,
-      resourceId,
+      ...(user?.id && { userId: user.id }),
+      ...(user?.email && { userEmail: user.email }),
+      ...(user?.apiTokenId && { apiTokenId: user.apiTokenId }),
+      ...(resourceId && { resourceId }),
       inputData: this.sanitizeInputData(args),
-      clientInfo: {
-        ip: request?.ip,
-        userAgent: request?.get('user-agent'),
-        referer: request?.get('referer'),
-      },
+      clientInfo: this.extractClientInfo(request),
       resourceType: this.determineResourceType(info.fieldName),
       timestamp: new Date().toISOString(),
     };
   }
 
+  /**
+   * 提取客户端信息，缺失的请求头不写入
+   */
+  private extractClientInfo(request: Request | undefined): AuditLog['clientInfo'] {
+    const ip = request?.ip;
+    const userAgent = request?.get('user-agent');
+    const referer = request?.get('referer');
+
+    return {
+      ...(ip && { ip }),
+      ...(userAgent && { userAgent }),
+      ...(referer && { referer }),
+    };
+  }
+
   /**
    * 确定操作类型
    */
@@ -260,10 +321,140 @@ export class KeywordLoggingInterceptor implements NestInterceptor {
     return undefined;
   }
 
+  /**
+   * 确定需要持久化审计的操作：关键词模块的变更，以及其他模块中的内容变更
+   */
+  private resolveAuditTarget(context: ExecutionContext): AuditTarget | null {
+    if (context.getType<'http' | 'graphql'>() !== 'graphql') {
+      return null;
+    }
+
+    const gqlContext = GqlExecutionContext.create(context);
+    const info = gqlContext.getInfo();
+    if (info.parentType?.name !== 'Mutation') {
+      return null;
+    }
+
+    const resourceType = this.determineAuditResourceType(info.fieldName);
+    if (context.getClass() !== KeywordResolver && resourceType !== 'content_item') {
+      return null;
+    }
+
+    return { resourceType, resourceIds: this.extractResourceIds(gqlContext.getArgs()) };
+  }
+
+  /**
+   * 确定审计资源类型
+   */
+  private determineAuditResourceType(operationName: string): AuditResourceType {
+    const name = operationName.toLowerCase();
+
+    if (name.includes('savedview')) return 'keyword_saved_view';
+    if (name.includes('cluster')) return 'keyword_cluster';
+    if (name.includes('scoring')) return 'keyword_scoring_config';
+    if (name.includes('content')) return 'content_item';
+    if (name.includes('aio') || name.includes('metric')) return 'keyword_metric';
+
+    return 'keyword';
+  }
+
+  /**
+   * 确定审计操作类型，无法从名称识别的变更按更新处理
+   */
+  private determineAuditOperationType(operationName: string): OperationType {
+    const operationType = this.determineOperationType(operationName);
+    if (operationType !== OperationType.READ && operationType !== OperationType.SEARCH) {
+      return operationType;
+    }
+
+    return operationName.toLowerCase().includes('bulk') ? OperationType.BULK_UPDATE : OperationType.UPDATE;
+  }
+
+  /**
+   * 提取变更前即可确定的资源 ID 列表
+   */
+  private extractResourceIds(args: any): string[] {
+    if (args.id) return [args.id];
+    if (args.clusterId) return [args.clusterId];
+    if (args.input?.id) return [args.input.id];
+    if (args.input?.keywordId) return [args.input.keywordId];
+    if (args.input?.keywordIds) return [...args.input.keywordIds];
+    if (args.input?.contentId) return [args.input.contentId];
+
+    return [];
+  }
+
+  /**
+   * 从返回结果中提取新建资源的 ID
+   */
+  private extractCreatedResourceIds(result: any): string[] {
+    if (!result || typeof result !== 'object') return [];
+    if (typeof result.id === 'string') return [result.id];
+    if (Array.isArray(result.created)) return result.created.map((item: any) => item.id);
+    if (Array.isArray(result.rows) && !result.dryRun) {
+      return result.rows
+        .filter((row: any) => row.action === 'created' && row.keywordId)
+        .map((row: any) => row.keywordId);
+    }
+
+    return [];
+  }
+
+  /**
+   * 持久化审计记录：每个资源一条，同一次操作共享关联 ID
+   */
+  private async persistAuditTrail(
+    target: AuditTarget,
+    before: Map<string, AuditSnapshot>,
+    contextInfo: AuditContextInfo,
+    outcome: { correlationId: string; success: boolean; duration: number; result?: any; error?: string },
+  ): Promise<void> {
+    try {
+      const resourceIds = target.resourceIds.length > 0
+        ? target.resourceIds
+        : outcome.success ? this.extractCreatedResourceIds(outcome.result) : [];
+      const after = outcome.success
+        ? await this.auditLogService.snapshot(target.resourceType, resourceIds)
+        : before;
+
+      const base = {
+        operationType: this.determineAuditOperationType(contextInfo.operationName),
+        operationName: contextInfo.operationName,
+        resourceType: target.resourceType,
+        correlationId: outcome.correlationId,
+        success: outcome.success,
+        durationMs: outcome.duration,
+        ...(contextInfo.userId && { userId: contextInfo.userId }),
+        ...(contextInfo.userEmail && { userEmail: contextInfo.userEmail }),
+        ...(contextInfo.apiTokenId && { apiTokenId: contextInfo.apiTokenId }),
+        ...(outcome.error && { error: outcome.error }),
+        ...(contextInfo.inputData !== undefined && { inputData: contextInfo.inputData }),
+        ...(contextInfo.clientInfo?.ip && { clientIp: contextInfo.clientInfo.ip }),
+        ...(contextInfo.clientInfo?.userAgent && { userAgent: contextInfo.clientInfo.userAgent }),
+      };
+
+      await this.auditLogService.record(
+        resourceIds.length > 0
+          ? resourceIds.map(resourceId => ({
+            ...base,
+            resourceId,
+            before: before.get(resourceId) ?? null,
+            after: after.get(resourceId) ?? null,
+          }))
+          : [base],
+      );
+    } catch (error) {
+      this.logger.error(
+        `审计记录失败 [${outcome.correlationId}]: ${error instanceof Error ? error.message : error}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+    }
+  }
+
   /**
    * 记录操作开始
    */
-  private logOperationStart(contextInfo: Partial<AuditLog>, correlationId: string): void {
+  private logOperationStart(contextInfo: AuditContextInfo, correlationId: string): void {
     this.logger.debug(
       `开始操作: ${contextInfo.operationName} [${correlationId}]`,
       {
@@ -8,10 +8,20 @@
 
 import { Module, forwardRef } from '@nestjs/common';
 import { APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
+import { CacheModule } from '@nestjs/cache-manager';
 
 // 核心服务
 import { KeywordService } from './services/keyword.service';
 import { KeywordLoaderService } from './loaders/keyword.loader';
+import { KeywordImportService } from './services/keyword-import.service';
+import { KeywordScoringService } from './services/keyword-scoring.service';
+import { KeywordClusteringService } from './services/keyword-clustering.service';
+import { KeywordCannibalizationService } from './services/keyword-cannibalization.service';
+import { KeywordGapService } from './services/keyword-gap.service';
+import { KeywordLifecycleService } from './services/keyword-lifecycle.service';
+import { KeywordSavedViewService } from './services/keyword-saved-view.service';
+import { KeywordSearchService } from './services/keyword-search.service';
+import { GoogleApisService } from '@/services/google-apis.service';
 
 // GraphQL 解析器
 import { KeywordResolver } from './resolvers/keyword.resolver';
@@ -38,19 +48,33 @@ import { KeywordCacheInterceptor } from './interceptors/keyword-cache.intercepto
 // 共享模块
 import { CommonModule } from '@/common/common.module';
 import { AuthModule } from '@/modules/auth/auth.module';
+import { AlertsModule } from '@/modules/alerts/alerts.module';
+import { AuditModule } from '@/modules/audit/audit.module';
 
 /**
  * 关键词管理模块
  */
 @Module({
   imports: [
+    CacheModule.register(), // 解析器 CacheInterceptor 和 KeywordCacheInterceptor 依赖
     CommonModule,
+    AlertsModule,
+    AuditModule, // 审计日志拦截器依赖
     forwardRef(() => AuthModule), // 避免循环依赖
   ],
   providers: [
     // 核心服务
     KeywordService,
     KeywordLoaderService,
+    KeywordImportService,
+    KeywordScoringService,
+    KeywordClusteringService,
+    KeywordCannibalizationService,
+    KeywordGapService,
+    KeywordLifecycleService,
+    KeywordSavedViewService,
+    KeywordSearchService,
+    GoogleApisService,
 
     // GraphQL 解析器
     KeywordResolver,
@@ -85,6 +109,13 @@ import { AuthModule } from '@/modules/auth/auth.module';
     // 导出服务供其他模块使用
     KeywordService,
     KeywordLoaderService,
+    KeywordScoringService,
+    KeywordClusteringService,
+    KeywordCannibalizationService,
+    KeywordGapService,
+    KeywordLifecycleService,
+    KeywordSavedViewService,
+    KeywordSearchService,
 
     // 导出验证器供其他模块使用
     IsKeywordTextUniqueConstraint,
@@ -8,9 +8,24 @@
 
 import { Injectable, Logger } from '@nestjs/common';
 import DataLoader from 'dataloader';
-import { PrismaService } from '@/common/services/prisma.service';
+import { PrismaService } from '@/common/prisma.service';
 import { Keyword, KeywordMetric, User, ContentItem, Task } from '@prisma/client';
 
+/**
+ * 用户加载器返回的公开字段
+ */
+export type KeywordLoaderUser = Pick<User, 'id' | 'username' | 'fullName' | 'email' | 'avatarUrl'>;
+
+/**
+ * 关键词关联内容加载器返回的字段
+ */
+export type KeywordLoaderContentItem = Pick<ContentItem, 'id' | 'title' | 'status' | 'contentType' | 'publishedAt'>;
+
+/**
+ * 关键词关联任务加载器返回的字段
+ */
+export type KeywordLoaderTask = Pick<Task, 'id' | 'keywordId' | 'title' | 'status' | 'priority' | 'dueDate' | 'createdAt'>;
+
 /**
  * 关键词数据加载器服务
  */
@@ -63,17 +78,17 @@ export class KeywordLoaderService {
       this.loaderCache.set(cacheKey, loader);
     }
 
-    return this.loaderCache.get(cacheKey);
+    return this.loaderCache.get(cacheKey)!;
   }
 
   /**
    * 获取用户批量加载器
    */
-  getUserLoader(): DataLoader<string, User | null> {
+  getUserLoader(): DataLoader<string, KeywordLoaderUser | null> {
     const cacheKey = 'users';
     
     if (!this.loaderCache.has(cacheKey)) {
-      const loader = new DataLoader<string, User | null>(
+      const loader = new DataLoader<string, KeywordLoaderUser | null>(
         async (userIds: readonly string[]) => {
           this.logger.debug(`批量加载用户: ${userIds.length} 个`);
           
@@ -110,7 +125,7 @@ export class KeywordLoaderService {
       this.loaderCache.set(cacheKey, loader);
     }
 
-    return this.loaderCache.get(cacheKey);
+    return this.loaderCache.get(cacheKey)!;
   }
 
   /**
@@ -162,7 +177,7 @@ export class KeywordLoaderService {
       this.loaderCache.set(cacheKey, loader);
     }
 
-    return this.loaderCache.get(cacheKey);
+    return this.loaderCache.get(cacheKey)!;
   }
 
   /**
@@ -218,17 +233,17 @@ export class KeywordLoaderService {
       this.loaderCache.set(cacheKey, loader);
     }
 
-    return this.loaderCache.get(cacheKey);
+    return this.loaderCache.get(cacheKey)!;
   }
 
   /**
    * 获取关键词关联内容批量加载器
    */
-  getKeywordContentItemsLoader(): DataLoader<string, ContentItem[]> {
+  getKeywordContentItemsLoader(): DataLoader<string, KeywordLoaderContentItem[]> {
     const cacheKey = 'keyword-content-items';
     
     if (!this.loaderCache.has(cacheKey)) {
-      const loader = new DataLoader<string, ContentItem[]>(
+      const loader = new DataLoader<string, KeywordLoaderContentItem[]>(
         async (keywordIds: readonly string[]) => {
           this.logger.debug(`批量加载关键词关联内容: ${keywordIds.length} 个关键词`);
           
@@ -278,17 +293,17 @@ export class KeywordLoaderService {
       this.loaderCache.set(cacheKey, loader);
     }
 
-    return this.loaderCache.get(cacheKey);
+    return this.loaderCache.get(cacheKey)!;
   }
 
   /**
    * 获取关键词关联任务批量加载器
    */
-  getKeywordTasksLoader(): DataLoader<string, Task[]> {
+  getKeywordTasksLoader(): DataLoader<string, KeywordLoaderTask[]> {
     const cacheKey = 'keyword-tasks';
     
     if (!this.loaderCache.has(cacheKey)) {
-      const loader = new DataLoader<string, Task[]>(
+      const loader = new DataLoader<string, KeywordLoaderTask[]>(
         async (keywordIds: readonly string[]) => {
           this.logger.debug(`批量加载关键词关联任务: ${keywordIds.length} 个关键词`);
           
@@ -313,7 +328,7 @@ export class KeywordLoaderService {
               },
             });
 
-            const tasksMap = new Map<string, Task[]>();
+            const tasksMap = new Map<string, KeywordLoaderTask[]>();
             for (const task of tasks) {
               if (task.keywordId) {
                 if (!tasksMap.has(task.keywordId)) {
@@ -339,7 +354,7 @@ export class KeywordLoaderService {
       this.loaderCache.set(cacheKey, loader);
     }
 
-    return this.loaderCache.get(cacheKey);
+    return this.loaderCache.get(cacheKey)!;
   }
 
   /**
@@ -451,7 +466,7 @@ export class KeywordLoaderService {
       this.loaderCache.set(cacheKey, loader);
     }
 
-    return this.loaderCache.get(cacheKey);
+    return this.loaderCache.get(cacheKey)!;
   }
 
   /**
@@ -26,6 +26,14 @@ import {
 import { GraphQLResolveInfo } from 'graphql';
 import { KeywordService } from '../services/keyword.service';
 import { KeywordLoaderService } from '../loaders/keyword.loader';
+import { KeywordImportService } from '../services/keyword-import.service';
+import { KeywordScoringService, DEFAULT_SCORING_PRODUCT_LINE } from '../services/keyword-scoring.service';
+import { KeywordClusteringService } from '../services/keyword-clustering.service';
+import { KeywordCannibalizationService } from '../services/keyword-cannibalization.service';
+import { KeywordGapService } from '../services/keyword-gap.service';
+import { KeywordLifecycleService } from '../services/keyword-lifecycle.service';
+import { KeywordSavedViewService } from '../services/keyword-saved-view.service';
+import { KeywordSearchService } from '../services/keyword-search.service';
 import {
   KeywordDto,
   PaginatedKeywordsDto,
@@ -40,14 +48,52 @@ import {
   KeywordMetricDto,
   ContentItemInfoDto,
   TaskInfoDto,
+  ImportKeywordsInputDto,
+  KeywordImportReportDto,
+  KeywordScoringConfigDto,
+  KeywordScoringConfigInputDto,
+  KeywordRegradeInputDto,
+  KeywordRegradeReportDto,
+  KeywordTierCountDto,
+  KeywordClusterDto,
+  KeywordClusterTreeDto,
+  RebuildKeywordClustersInputDto,
+  KeywordClusteringReportDto,
+  KeywordCannibalizationDto,
+  KeywordCannibalizationQueryInputDto,
+  KeywordGapAnalysisDto,
+  KeywordGapAnalysisInputDto,
+  AddKeywordGapsInputDto,
+  AddKeywordGapsResultDto,
+  KeywordStatusTransitionRuleDto,
+  KeywordStatusHistoryDto,
+  KeywordStatusTransitionInputDto,
+  BulkKeywordStatusTransitionInputDto,
+  KeywordCycleTimeInputDto,
+  KeywordCycleTimeReportDto,
+  KeywordSavedViewDto,
+  CreateKeywordSavedViewInputDto,
+  UpdateKeywordSavedViewInputDto,
+  KeywordSearchInputDto,
+  KeywordSearchResultDto,
+  KeywordSimilarInputDto,
+  KeywordSimilarMatchDto,
 } from '../dto/keyword.dto';
+import {
+  BulkOperationResult,
+  KeywordClusterWithKeywords,
+  KeywordClusterWithPillar,
+  KeywordRegradeReport,
+  KeywordSavedView,
+  ProductLine,
+} from '../types/keyword.types';
 import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
 import { RolesGuard } from '@/common/guards/roles.guard';
-import { Roles } from '@/common/decorators/roles.decorator';
+import { RequirePermissions } from '@/common/decorators/permissions.decorator';
+import { PERMISSIONS } from '@/common/permissions';
 import { CurrentUser } from '@/common/decorators/current-user.decorator';
 import { CacheInterceptor } from '@nestjs/cache-manager';
-import { GraphQLFieldsInterceptor } from '@/common/interceptors/graphql-fields.interceptor';
-import { User } from '@prisma/client';
+import { Keyword, KeywordMetric, User } from '@prisma/client';
 
 /**
  * 当前用户接口
@@ -56,7 +102,8 @@ interface CurrentUserInfo {
   id: string;
   email: string;
   roleId: string;
-  permissions: string[];
+  roleName: string;
+  permissions: string[]; // 由 RolesGuard 按角色写入
 }
 
 /**
@@ -74,13 +121,22 @@ interface GraphQLContext {
  */
 @Resolver(() => KeywordDto)
 @UseGuards(JwtAuthGuard, RolesGuard)
-@UseInterceptors(CacheInterceptor, GraphQLFieldsInterceptor)
+@RequirePermissions(PERMISSIONS.KEYWORD_READ)
+@UseInterceptors(CacheInterceptor)
 export class KeywordResolver {
   private readonly logger = new Logger(KeywordResolver.name);
 
   constructor(
     private readonly keywordService: KeywordService,
     private readonly loaderService: KeywordLoaderService,
+    private readonly importService: KeywordImportService,
+    private readonly scoringService: KeywordScoringService,
+    private readonly clusteringService: KeywordClusteringService,
+    private readonly cannibalizationService: KeywordCannibalizationService,
+    private readonly gapService: KeywordGapService,
+    private readonly lifecycleService: KeywordLifecycleService,
+    private readonly savedViewService: KeywordSavedViewService,
+    private readonly searchService: KeywordSearchService,
   ) {}
 
   // ==================== 查询解析器 ====================
@@ -182,7 +238,7 @@ export class KeywordResolver {
     this.logger.debug(`搜索关键词: ${query}`);
     
     try {
-      const keywords = await this.keywordService.searchKeywords(query, limit);
+      const keywords = await this.keywordService.searchKeywords(query, limit ?? 10);
       return keywords as KeywordDto[];
     } catch (error) {
       this.logger.error(`搜索关键词失败: ${error.message}`, error.stack);
@@ -197,7 +253,7 @@ export class KeywordResolver {
     name: 'aioStats',
     description: '获取 AIO 覆盖统计数据' 
   })
-  @Roles(['admin', 'manager', 'analyst'])
+  @RequirePermissions(PERMISSIONS.ANALYTICS_READ)
   async getAIOStats(): Promise<AIOStatsDto> {
     this.logger.debug('查询 AIO 统计数据');
     
@@ -230,7 +286,7 @@ export class KeywordResolver {
     name: 'createKeyword',
     description: '创建新关键词' 
   })
-  @Roles(['admin', 'manager', 'editor'])
+  @RequirePermissions(PERMISSIONS.KEYWORD_WRITE)
   async createKeyword(
     @Args('input', { type: () => CreateKeywordInputDto }) input: CreateKeywordInputDto,
     @CurrentUser() user: CurrentUserInfo,
@@ -257,7 +313,7 @@ export class KeywordResolver {
     name: 'updateKeyword',
     description: '更新关键词信息' 
   })
-  @Roles(['admin', 'manager', 'editor'])
+  @RequirePermissions(PERMISSIONS.KEYWORD_WRITE)
   async updateKeyword(
     @Args('input', { type: () => UpdateKeywordInputDto }) input: UpdateKeywordInputDto,
     @CurrentUser() user: CurrentUserInfo,
@@ -284,7 +340,7 @@ export class KeywordResolver {
     name: 'deleteKeyword',
     description: '删除关键词' 
   })
-  @Roles(['admin', 'manager'])
+  @RequirePermissions(PERMISSIONS.KEYWORD_DELETE)
   async deleteKeyword(
     @Args('id', { type: () => ID }) id: string,
     @CurrentUser() user: CurrentUserInfo,
@@ -311,7 +367,7 @@ export class KeywordResolver {
     name: 'bulkUpdateKeywords',
     description: '批量更新关键词' 
   })
-  @Roles(['admin', 'manager'])
+  @RequirePermissions(PERMISSIONS.KEYWORD_MANAGE)
   async bulkUpdateKeywords(
     @Args('input', { type: () => BulkUpdateKeywordsInputDto }) input: BulkUpdateKeywordsInputDto,
     @CurrentUser() user: CurrentUserInfo,
@@ -324,7 +380,7 @@ export class KeywordResolver {
       // 清除所有缓存
       this.loaderService.clearAllCaches();
       
-      return result;
+      return this.toBulkOperationResultDto(result);
     } catch (error) {
       this.logger.error(`批量更新关键词失败: ${error.message}`, error.stack);
       throw error;
@@ -338,7 +394,7 @@ export class KeywordResolver {
     name: 'addAIOMonitoring',
     description: '添加 AIO 监测数据' 
   })
-  @Roles(['admin', 'manager', 'analyst'])
+  @RequirePermissions(PERMISSIONS.AIO_MONITOR)
   async addAIOMonitoring(
     @Args('input', { type: () => AIOMonitoringInputDto }) input: AIOMonitoringInputDto,
     @CurrentUser() user: CurrentUserInfo,
@@ -358,6 +414,593 @@ export class KeywordResolver {
     }
   }
 
+  /**
+   * 从 CSV/XLSX 文件批量导入关键词
+   */
+  @Mutation(() => KeywordImportReportDto, { 
+    name: 'importKeywords',
+    description: '从 CSV/XLSX 文件批量导入关键词，dryRun 时仅返回预览报告' 
+  })
+  @RequirePermissions(PERMISSIONS.KEYWORD_WRITE)
+  async importKeywords(
+    @Args('input', { type: () => ImportKeywordsInputDto }) input: ImportKeywordsInputDto,
+    @CurrentUser() user: CurrentUserInfo,
+  ): Promise<KeywordImportReportDto> {
+    this.logger.debug(`导入关键词文件: ${input.fileName}${input.dryRun ? ' (预览)' : ''}`);
+    
+    try {
+      const report = await this.importService.importKeywords(input, user.id);
+      
+      // 实际写入后清除所有缓存
+      if (!report.dryRun) {
+        this.loaderService.clearAllCaches();
+      }
+      
+      return report as KeywordImportReportDto;
+    } catch (error) {
+      this.logger.error(`导入关键词文件失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  // ==================== 优先级评分 ====================
+
+  /**
+   * 获取优先级评分配置
+   */
+  @Query(() => [KeywordScoringConfigDto], { 
+    name: 'keywordScoringConfigs',
+    description: '获取优先级评分配置，首项为默认配置' 
+  })
+  async getScoringConfigs(): Promise<KeywordScoringConfigDto[]> {
+    try {
+      const configs = await this.scoringService.getScoringConfigs();
+      return configs as KeywordScoringConfigDto[];
+    } catch (error) {
+      this.logger.error(`获取评分配置失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 保存优先级评分配置
+   */
+  @Mutation(() => KeywordScoringConfigDto, { 
+    name: 'saveKeywordScoringConfig',
+    description: '保存默认或产品线的评分权重和级别阈值' 
+  })
+  @RequirePermissions(PERMISSIONS.KEYWORD_MANAGE)
+  async saveScoringConfig(
+    @Args('input', { type: () => KeywordScoringConfigInputDto }) input: KeywordScoringConfigInputDto,
+    @CurrentUser() user: CurrentUserInfo,
+  ): Promise<KeywordScoringConfigDto> {
+    this.logger.debug(`保存评分配置: ${input.productLine ?? DEFAULT_SCORING_PRODUCT_LINE}`);
+    
+    try {
+      const config = await this.scoringService.saveScoringConfig(input, user.id);
+      return config as KeywordScoringConfigDto;
+    } catch (error) {
+      this.logger.error(`保存评分配置失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 删除优先级评分配置
+   */
+  @Mutation(() => Boolean, { 
+    name: 'deleteKeywordScoringConfig',
+    description: '删除产品线评分配置，未指定产品线时删除默认配置' 
+  })
+  @RequirePermissions(PERMISSIONS.KEYWORD_MANAGE)
+  async deleteScoringConfig(
+    @Args('productLine', { type: () => ProductLine, nullable: true }) productLine?: ProductLine,
+  ): Promise<boolean> {
+    try {
+      return await this.scoringService.deleteScoringConfig(productLine ?? DEFAULT_SCORING_PRODUCT_LINE);
+    } catch (error) {
+      this.logger.error(`删除评分配置失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 预览重新评级结果
+   */
+  @Query(() => KeywordRegradeReportDto, { 
+    name: 'previewKeywordRegrade',
+    description: '预览按评分配置重新评级后各级别的变化，可临时覆盖权重和阈值' 
+  })
+  async previewRegrade(
+    @Args('input', { type: () => KeywordRegradeInputDto, nullable: true }) input?: KeywordRegradeInputDto,
+  ): Promise<KeywordRegradeReportDto> {
+    try {
+      const report = await this.scoringService.regradeKeywords({ ...input, dryRun: true });
+      return this.toRegradeReportDto(report);
+    } catch (error) {
+      this.logger.error(`预览重新评级失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 按评分配置批量重新评级
+   */
+  @Mutation(() => KeywordRegradeReportDto, { 
+    name: 'regradeKeywords',
+    description: '按已保存的评分配置批量更新关键词优先级' 
+  })
+  @RequirePermissions(PERMISSIONS.KEYWORD_MANAGE)
+  async regradeKeywords(
+    @Args('input', { type: () => KeywordRegradeInputDto, nullable: true }) input: KeywordRegradeInputDto | undefined,
+    @CurrentUser() user: CurrentUserInfo,
+  ): Promise<KeywordRegradeReportDto> {
+    try {
+      const report = await this.scoringService.regradeKeywords({ ...input, dryRun: false }, user.id);
+      
+      if (report.changedCount > 0) {
+        this.loaderService.clearAllCaches();
+      }
+      
+      return this.toRegradeReportDto(report);
+    } catch (error) {
+      this.logger.error(`批量重新评级失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  // ==================== 主题聚类 ====================
+
+  /**
+   * 获取关键词聚类列表
+   */
+  @Query(() => [KeywordClusterDto], { 
+    name: 'keywordClusters',
+    description: '获取关键词主题聚类（按总搜索量降序）' 
+  })
+  async getClusters(
+    @Args('productLine', { type: () => ProductLine, nullable: true }) productLine?: ProductLine,
+  ): Promise<KeywordClusterDto[]> {
+    try {
+      const clusters = await this.clusteringService.getClusters(productLine);
+      return clusters.map(cluster => this.toClusterDto(cluster));
+    } catch (error) {
+      this.logger.error(`获取关键词聚类失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取单个关键词聚类及成员
+   */
+  @Query(() => KeywordClusterDto, { 
+    name: 'keywordCluster',
+    description: '获取关键词聚类及全部成员关键词' 
+  })
+  async getCluster(
+    @Args('id', { type: () => ID }) id: string,
+  ): Promise<KeywordClusterDto> {
+    try {
+      const cluster = await this.clusteringService.getCluster(id);
+      return this.toClusterDto(cluster);
+    } catch (error) {
+      this.logger.error(`获取关键词聚类失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取关键词聚类树
+   */
+  @Query(() => KeywordClusterTreeDto, { 
+    name: 'keywordClusterTree',
+    description: '按主题聚类组织的关键词树，供关键词列表树形视图使用' 
+  })
+  async getClusterTree(
+    @Args('productLine', { type: () => ProductLine, nullable: true }) productLine?: ProductLine,
+  ): Promise<KeywordClusterTreeDto> {
+    try {
+      const tree = await this.clusteringService.getClusterTree(productLine);
+      return {
+        clusters: tree.clusters.map(cluster => this.toClusterDto(cluster)),
+        unclusteredCount: tree.unclusteredCount,
+      };
+    } catch (error) {
+      this.logger.error(`获取关键词聚类树失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 重建关键词聚类
+   */
+  @Mutation(() => KeywordClusteringReportDto, { 
+    name: 'rebuildKeywordClusters',
+    description: '按 SERP 重合度和词面相似度重新聚类，替换范围内的现有聚类' 
+  })
+  @RequirePermissions(PERMISSIONS.KEYWORD_MANAGE)
+  async rebuildClusters(
+    @Args('input', { type: () => RebuildKeywordClustersInputDto, nullable: true }) input: RebuildKeywordClustersInputDto | undefined,
+    @CurrentUser() user: CurrentUserInfo,
+  ): Promise<KeywordClusteringReportDto> {
+    try {
+      const report = await this.clusteringService.rebuildClusters(input, user.id);
+      this.loaderService.clearAllCaches();
+      return report as KeywordClusteringReportDto;
+    } catch (error) {
+      this.logger.error(`重建关键词聚类失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 指定聚类的支柱关键词
+   */
+  @Mutation(() => KeywordClusterDto, { 
+    name: 'setKeywordClusterPillar',
+    description: '将聚类成员设为支柱关键词，聚类名称随之更新' 
+  })
+  @RequirePermissions(PERMISSIONS.KEYWORD_MANAGE)
+  async setClusterPillar(
+    @Args('clusterId', { type: () => ID }) clusterId: string,
+    @Args('keywordId', { type: () => ID }) keywordId: string,
+  ): Promise<KeywordClusterDto> {
+    try {
+      const cluster = await this.clusteringService.setClusterPillar(clusterId, keywordId);
+      return this.toClusterDto(cluster);
+    } catch (error) {
+      this.logger.error(`设置支柱关键词失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  // ==================== 内容蚕食 ====================
+
+  /**
+   * 分析单个关键词的内容蚕食
+   */
+  @Query(() => KeywordCannibalizationDto, { 
+    name: 'keywordCannibalization',
+    description: '分析定位或排名该关键词的自有页面是否互相竞争，并给出处理建议' 
+  })
+  async getKeywordCannibalization(
+    @Args('keywordId', { type: () => ID }) keywordId: string,
+  ): Promise<KeywordCannibalizationDto> {
+    try {
+      const analysis = await this.cannibalizationService.analyzeKeyword(keywordId);
+      return analysis as KeywordCannibalizationDto;
+    } catch (error) {
+      this.logger.error(`内容蚕食分析失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 查询存在内容蚕食的关键词
+   */
+  @Query(() => [KeywordCannibalizationDto], { 
+    name: 'keywordCannibalizationIssues',
+    description: '查询存在内容蚕食的活跃关键词，按严重程度排序' 
+  })
+  async getCannibalizationIssues(
+    @Args('input', { type: () => KeywordCannibalizationQueryInputDto, nullable: true }) input?: KeywordCannibalizationQueryInputDto,
+  ): Promise<KeywordCannibalizationDto[]> {
+    try {
+      const issues = await this.cannibalizationService.findIssues(input);
+      return issues as KeywordCannibalizationDto[];
+    } catch (error) {
+      this.logger.error(`查询内容蚕食失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  // ==================== 竞品差距 ====================
+
+  /**
+   * 竞品差距分析
+   */
+  @Query(() => KeywordGapAnalysisDto, { 
+    name: 'keywordGapAnalysis',
+    description: '查找竞品排名或被 AIO 引用而 Eufy 未覆盖的关键词，按预估机会排序' 
+  })
+  async getKeywordGapAnalysis(
+    @Args('input', { type: () => KeywordGapAnalysisInputDto, nullable: true }) input?: KeywordGapAnalysisInputDto,
+  ): Promise<KeywordGapAnalysisDto> {
+    try {
+      const analysis = await this.gapService.analyzeGaps(input);
+      return analysis as KeywordGapAnalysisDto;
+    } catch (error) {
+      this.logger.error(`竞品差距分析失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 将差距关键词加入关键词库
+   */
+  @Mutation(() => AddKeywordGapsResultDto, { 
+    name: 'addKeywordGapsToBacklog',
+    description: '将竞品差距关键词加入关键词库，记录来源竞品域名，已存在的关键词跳过' 
+  })
+  @RequirePermissions(PERMISSIONS.KEYWORD_WRITE)
+  async addKeywordGapsToBacklog(
+    @Args('input', { type: () => AddKeywordGapsInputDto }) input: AddKeywordGapsInputDto,
+    @CurrentUser() user: CurrentUserInfo,
+  ): Promise<AddKeywordGapsResultDto> {
+    try {
+      const result = await this.gapService.addToBacklog(input.items, user.id);
+      this.loaderService.clearAllCaches();
+      return {
+        created: result.created.map(keyword => this.toKeywordDto(keyword)),
+        skippedTexts: [...result.skippedTexts],
+      };
+    } catch (error) {
+      this.logger.error(`差距关键词加入关键词库失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  // ==================== 生命周期 ====================
+
+  /**
+   * 获取状态流转规则
+   */
+  @Query(() => [KeywordStatusTransitionRuleDto], { 
+    name: 'keywordStatusTransitions',
+    description: '获取允许的关键词状态流转及所需权限' 
+  })
+  getKeywordStatusTransitions(): KeywordStatusTransitionRuleDto[] {
+    return this.lifecycleService.getTransitionRules() as KeywordStatusTransitionRuleDto[];
+  }
+
+  /**
+   * 获取关键词状态历史
+   */
+  @Query(() => [KeywordStatusHistoryDto], { 
+    name: 'keywordStatusHistory',
+    description: '获取关键词状态流转历史，按时间升序' 
+  })
+  async getKeywordStatusHistory(
+    @Args('keywordId', { type: () => ID }) keywordId: string,
+  ): Promise<KeywordStatusHistoryDto[]> {
+    try {
+      const history = await this.lifecycleService.getStatusHistory(keywordId);
+      return history as KeywordStatusHistoryDto[];
+    } catch (error) {
+      this.logger.error(`查询状态历史失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取周期时长报告
+   */
+  @Query(() => KeywordCycleTimeReportDto, { 
+    name: 'keywordCycleTimes',
+    description: '统计各生命周期状态的停留时长和里程碑周期时长' 
+  })
+  @RequirePermissions(PERMISSIONS.ANALYTICS_READ)
+  async getKeywordCycleTimes(
+    @Args('input', { type: () => KeywordCycleTimeInputDto, nullable: true }) input?: KeywordCycleTimeInputDto,
+  ): Promise<KeywordCycleTimeReportDto> {
+    try {
+      const report = await this.lifecycleService.getCycleTimes(input);
+      return report as KeywordCycleTimeReportDto;
+    } catch (error) {
+      this.logger.error(`统计周期时长失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 流转关键词状态
+   */
+  @Mutation(() => KeywordDto, { 
+    name: 'transitionKeywordStatus',
+    description: '按生命周期规则流转关键词状态并记录历史' 
+  })
+  @RequirePermissions(PERMISSIONS.KEYWORD_TRANSITION)
+  async transitionKeywordStatus(
+    @Args('input', { type: () => KeywordStatusTransitionInputDto }) input: KeywordStatusTransitionInputDto,
+    @CurrentUser() user: CurrentUserInfo,
+  ): Promise<KeywordDto> {
+    this.logger.debug(`流转关键词状态: ${input.keywordId} → ${input.toStatus}`);
+
+    try {
+      const keyword = await this.lifecycleService.transitionStatus(input, user.id, user.permissions);
+      this.loaderService.clearKeywordCache(input.keywordId);
+      return this.toKeywordDto(keyword);
+    } catch (error) {
+      this.logger.error(`流转关键词状态失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 批量流转关键词状态
+   */
+  @Mutation(() => BulkOperationResultDto, { 
+    name: 'bulkTransitionKeywordStatus',
+    description: '批量流转关键词状态，不满足流转规则的关键词记录为错误' 
+  })
+  @RequirePermissions(PERMISSIONS.KEYWORD_MANAGE)
+  async bulkTransitionKeywordStatus(
+    @Args('input', { type: () => BulkKeywordStatusTransitionInputDto }) input: BulkKeywordStatusTransitionInputDto,
+    @CurrentUser() user: CurrentUserInfo,
+  ): Promise<BulkOperationResultDto> {
+    this.logger.debug(`批量流转关键词状态: ${input.keywordIds.length} 个 → ${input.toStatus}`);
+
+    try {
+      const result = await this.lifecycleService.bulkTransitionStatus(input, user.id, user.permissions);
+      this.loaderService.clearAllCaches();
+      return this.toBulkOperationResultDto(result);
+    } catch (error) {
+      this.logger.error(`批量流转关键词状态失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  // ==================== 保存视图 ====================
+
+  /**
+   * 获取保存视图
+   */
+  @Query(() => [KeywordSavedViewDto], { 
+    name: 'keywordSavedViews',
+    description: '获取当前用户的保存视图和团队共享视图' 
+  })
+  async getKeywordSavedViews(
+    @CurrentUser() user: CurrentUserInfo,
+  ): Promise<KeywordSavedViewDto[]> {
+    try {
+      const views = await this.savedViewService.listViews(user.id);
+      return views.map(view => this.toSavedViewDto(view));
+    } catch (error) {
+      this.logger.error(`查询保存视图失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取当前角色的默认视图
+   */
+  @Query(() => KeywordSavedViewDto, { 
+    name: 'defaultKeywordSavedView',
+    nullable: true,
+    description: '获取当前用户角色的默认视图，未设置时为空' 
+  })
+  async getDefaultKeywordSavedView(
+    @CurrentUser() user: CurrentUserInfo,
+  ): Promise<KeywordSavedViewDto | null> {
+    try {
+      const view = await this.savedViewService.getDefaultView(user.id);
+      return view ? this.toSavedViewDto(view) : null;
+    } catch (error) {
+      this.logger.error(`查询默认视图失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 创建保存视图
+   */
+  @Mutation(() => KeywordSavedViewDto, { 
+    name: 'createKeywordSavedView',
+    description: '保存当前筛选、排序和显示列为视图' 
+  })
+  async createKeywordSavedView(
+    @Args('input', { type: () => CreateKeywordSavedViewInputDto }) input: CreateKeywordSavedViewInputDto,
+    @CurrentUser() user: CurrentUserInfo,
+  ): Promise<KeywordSavedViewDto> {
+    this.logger.debug(`创建保存视图: ${input.name}`);
+
+    try {
+      const view = await this.savedViewService.createView(
+        { ...input, ...(input.filter !== undefined && { filter: JSON.parse(input.filter) }) },
+        user.id,
+      );
+      return this.toSavedViewDto(view);
+    } catch (error) {
+      this.logger.error(`创建保存视图失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 更新保存视图
+   */
+  @Mutation(() => KeywordSavedViewDto, { 
+    name: 'updateKeywordSavedView',
+    description: '更新保存视图，仅所有者或管理角色可修改' 
+  })
+  async updateKeywordSavedView(
+    @Args('input', { type: () => UpdateKeywordSavedViewInputDto }) input: UpdateKeywordSavedViewInputDto,
+    @CurrentUser() user: CurrentUserInfo,
+  ): Promise<KeywordSavedViewDto> {
+    this.logger.debug(`更新保存视图: ${input.id}`);
+
+    try {
+      const view = await this.savedViewService.updateView(
+        { ...input, ...(input.filter !== undefined && { filter: JSON.parse(input.filter) }) },
+        user.id,
+      );
+      return this.toSavedViewDto(view);
+    } catch (error) {
+      this.logger.error(`更新保存视图失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 删除保存视图
+   */
+  @Mutation(() => Boolean, { 
+    name: 'deleteKeywordSavedView',
+    description: '删除保存视图，仅所有者或管理角色可删除' 
+  })
+  async deleteKeywordSavedView(
+    @Args('id', { type: () => ID }) id: string,
+    @CurrentUser() user: CurrentUserInfo,
+  ): Promise<boolean> {
+    this.logger.debug(`删除保存视图: ${id}`);
+
+    try {
+      return await this.savedViewService.deleteView(id, user.id);
+    } catch (error) {
+      this.logger.error(`删除保存视图失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  // ==================== 检索 ====================
+
+  /**
+   * 全文检索关键词
+   */
+  @Query(() => KeywordSearchResultDto, { 
+    name: 'keywordSearch',
+    description: '全文检索和模糊匹配关键词，按相关度排序并返回命中区间' 
+  })
+  async keywordSearch(
+    @Args('input', { type: () => KeywordSearchInputDto }) input: KeywordSearchInputDto,
+  ): Promise<KeywordSearchResultDto> {
+    this.logger.debug(`检索关键词: ${input.query}`);
+
+    try {
+      const result = await this.searchService.search(input);
+      return {
+        hits: result.hits.map(hit => ({
+          ...hit,
+          keyword: this.toKeywordDto(hit.keyword),
+          highlights: [...hit.highlights],
+        })),
+        total: result.total,
+      };
+    } catch (error) {
+      this.logger.error(`检索关键词失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * 查询相似关键词
+   */
+  @Query(() => [KeywordSimilarMatchDto], { 
+    name: 'similarKeywords',
+    description: '查询与给定文本近似的已有关键词，用于创建前排查重复' 
+  })
+  async similarKeywords(
+    @Args('input', { type: () => KeywordSimilarInputDto }) input: KeywordSimilarInputDto,
+  ): Promise<KeywordSimilarMatchDto[]> {
+    try {
+      const matches = await this.searchService.findSimilar(input);
+      return matches.map(match => ({ ...match, keyword: this.toKeywordDto(match.keyword) }));
+    } catch (error) {
+      this.logger.error(`查询相似关键词失败: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
   // ==================== 字段解析器 ====================
 
   /**
@@ -377,7 +1020,7 @@ export class KeywordResolver {
       return user ? {
         id: user.id,
         username: user.username,
-        fullName: user.fullName,
+        ...(user.fullName && { fullName: user.fullName }),
       } : null;
     } catch (error) {
       this.logger.error(`解析分配用户失败: ${error.message}`, error.stack);
@@ -403,7 +1046,7 @@ export class KeywordResolver {
       return {
         id: user.id,
         username: user.username,
-        fullName: user.fullName,
+        ...(user.fullName && { fullName: user.fullName }),
       };
     } catch (error) {
       this.logger.error(`解析创建者失败: ${error.message}`, error.stack);
@@ -424,7 +1067,7 @@ export class KeywordResolver {
       const metrics = await context.loaders.getKeywordMetricsLoader().load(keyword.id);
       
       // 应用限制
-      return metrics.slice(0, limit || 30) as KeywordMetricDto[];
+      return metrics.slice(0, limit || 30).map(metric => this.toMetricDto(metric));
     } catch (error) {
       this.logger.error(`解析关键词指标失败: ${error.message}`, error.stack);
       return [];
@@ -565,4 +1208,112 @@ export class KeywordResolver {
       return null;
     }
   }
-}
\ No newline at end of file
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 评级报告 -> GraphQL 输出（级别分布转为列表）
+   */
+  private toRegradeReportDto(report: KeywordRegradeReport): KeywordRegradeReportDto {
+    const toTierCounts = (distribution: Record<string, number>): KeywordTierCountDto[] =>
+      Object.entries(distribution).map(([level, count]) => ({ level, count }));
+
+    return {
+      ...report,
+      distributionBefore: toTierCounts(report.distributionBefore),
+      distributionAfter: toTierCounts(report.distributionAfter),
+    } as KeywordRegradeReportDto;
+  }
+
+  /**
+   * 保存视图 -> GraphQL 输出（筛选条件序列化为 JSON 字符串）
+   */
+  private toSavedViewDto(view: KeywordSavedView): KeywordSavedViewDto {
+    return {
+      ...view,
+      filter: JSON.stringify(view.filter),
+      sort: view.sort ?? undefined,
+    } as KeywordSavedViewDto;
+  }
+
+  /**
+   * 关键词记录 -> GraphQL 输出（Decimal 转为数字，空值转为 undefined）
+   *
+   * assignee、creator 等关联字段由字段解析器加载，这里只映射关键词自身的列
+   */
+  private toKeywordDto(keyword: Keyword): KeywordDto {
+    return {
+      id: keyword.id,
+      text: keyword.text,
+      searchVolume: keyword.searchVolume ?? undefined,
+      difficulty: keyword.difficulty?.toNumber(),
+      cpc: keyword.cpc?.toNumber(),
+      competitionLevel: keyword.competitionLevel ?? undefined,
+      priorityLevel: keyword.priorityLevel ?? undefined,
+      intentType: keyword.intentType ?? undefined,
+      productLine: keyword.productLine ?? undefined,
+      stage: keyword.stage ?? undefined,
+      clusterId: keyword.clusterId ?? undefined,
+      source: keyword.source,
+      sourceDomains: keyword.sourceDomains,
+      aioStatus: keyword.aioStatus,
+      aioFirstSeenAt: keyword.aioFirstSeenAt ?? undefined,
+      aioCoverageScore: keyword.aioCoverageScore?.toNumber(),
+      status: keyword.status,
+      assignedTo: keyword.assignedTo ?? undefined,
+      createdBy: keyword.createdBy,
+      createdAt: keyword.createdAt,
+      updatedAt: keyword.updatedAt,
+    } as KeywordDto;
+  }
+
+  /**
+   * 关键词指标记录 -> GraphQL 输出
+   */
+  private toMetricDto(metric: KeywordMetric): KeywordMetricDto {
+    return {
+      id: metric.id,
+      keywordId: metric.keywordId,
+      metricDate: metric.metricDate,
+      googlePosition: metric.googlePosition ?? undefined,
+      googleFeaturedSnippet: metric.googleFeaturedSnippet,
+      googlePeopleAlsoAsk: metric.googlePeopleAlsoAsk,
+      aioDisplayed: metric.aioDisplayed,
+      aioPosition: metric.aioPosition ?? undefined,
+      aioContentSnippet: metric.aioContentSnippet ?? undefined,
+      organicTraffic: metric.organicTraffic ?? undefined,
+      organicCtr: metric.organicCtr?.toNumber(),
+      createdAt: metric.createdAt,
+    } as KeywordMetricDto;
+  }
+
+  /**
+   * 聚类 -> GraphQL 输出（成员关键词仅在查询包含时返回）
+   */
+  private toClusterDto(cluster: KeywordClusterWithPillar | KeywordClusterWithKeywords): KeywordClusterDto {
+    return {
+      id: cluster.id,
+      name: cluster.name,
+      productLine: cluster.productLine ?? undefined,
+      pillarKeywordId: cluster.pillarKeywordId ?? undefined,
+      keywordCount: cluster.keywordCount,
+      totalSearchVolume: cluster.totalSearchVolume,
+      cohesion: cluster.cohesion?.toNumber(),
+      createdAt: cluster.createdAt,
+      updatedAt: cluster.updatedAt,
+      pillarKeyword: cluster.pillarKeyword ? this.toKeywordDto(cluster.pillarKeyword) : undefined,
+      keywords: 'keywords' in cluster ? cluster.keywords.map(keyword => this.toKeywordDto(keyword)) : undefined,
+    } as KeywordClusterDto;
+  }
+
+  /**
+   * 批量操作结果 -> GraphQL 输出（错误展开为 "关键词 ID: 原因"）
+   */
+  private toBulkOperationResultDto(result: BulkOperationResult): BulkOperationResultDto {
+    return {
+      success: result.success,
+      updatedCount: result.updatedCount,
+      errors: result.errors.map(({ keywordId, error }) => `${keywordId}: ${error}`),
+    };
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * 关键词内容蚕食检测服务
+ *
+ * @description 找出被多篇已发布内容同时定位、或多个自有 URL 同时排名的关键词，按页面之间的流量分散程度
+ *              判定严重程度，并给出合并 / canonical / 改定位建议
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '@/common/prisma.service';
+import { KeywordNotFoundException } from '../exceptions/keyword.exceptions';
+import {
+  CannibalizationAction,
+  CannibalizationQueryOptions,
+  CannibalizationSeverity,
+  CannibalizationSuggestion,
+  CannibalizingPage,
+  KeywordCannibalization,
+  KeywordStatus,
+} from '../types/keyword.types';
+
+const PUBLISHED_STATUS = 'published';
+
+/**
+ * 计入流量的事件类型及统计窗口（天）
+ */
+const TRAFFIC_EVENT_TYPES = ['page_view', 'click'];
+const ANALYTICS_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 自然结果各排名的预估点击率，无站内埋点数据时据此估算流量
+ */
+const ORGANIC_CTR_BY_POSITION = [0.28, 0.15, 0.11, 0.08, 0.07, 0.05, 0.04, 0.03, 0.03, 0.02];
+const ORGANIC_CTR_PAGE_TWO = 0.01;
+
+/**
+ * 按自然排名估算点击率，竞品差距分析同样据此估算机会
+ */
+export function estimateOrganicCtr(position: number | null): number {
+  if (position === null || position < 1) return 0;
+  if (position <= ORGANIC_CTR_BY_POSITION.length) return ORGANIC_CTR_BY_POSITION[position - 1]!;
+  return position <= 20 ? ORGANIC_CTR_PAGE_TWO : 0;
+}
+
+/**
+ * 非主页面流量占比达到该值时的严重程度
+ */
+const SEVERITY_THRESHOLDS: Array<[CannibalizationSeverity, number]> = [
+  [CannibalizationSeverity.HIGH, 0.35],
+  [CannibalizationSeverity.MEDIUM, 0.15],
+];
+
+const SEVERITY_ORDER = [
+  CannibalizationSeverity.HIGH,
+  CannibalizationSeverity.MEDIUM,
+  CannibalizationSeverity.LOW,
+];
+
+const DEFAULT_ISSUE_LIMIT = 50;
+
+/**
+ * 参与分析的关键词数据
+ */
+type CannibalizationKeyword = Prisma.KeywordGetPayload<{
+  select: typeof CANNIBALIZATION_KEYWORD_SELECT;
+}>;
+
+const CANNIBALIZATION_KEYWORD_SELECT = {
+  id: true,
+  text: true,
+  searchVolume: true,
+  productLine: true,
+  clusterId: true,
+  metrics: {
+    orderBy: { metricDate: 'desc' },
+    take: 1,
+    select: { ownResults: true },
+  },
+} satisfies Prisma.KeywordSelect;
+
+const PUBLISHED_CONTENT_SELECT = {
+  id: true,
+  title: true,
+  contentType: true,
+  publishedUrl: true,
+  targetKeywordIds: true,
+  keywords: { select: { id: true } },
+} satisfies Prisma.ContentItemSelect;
+
+type PublishedContent = Prisma.ContentItemGetPayload<{
+  select: typeof PUBLISHED_CONTENT_SELECT;
+}>;
+
+/**
+ * 计算流量前的页面草稿
+ */
+interface PageDraft {
+  readonly contentId: string | null;
+  readonly title: string | null;
+  readonly contentType: string | null;
+  readonly url: string | null;
+  readonly position: number | null;
+  readonly targetCount: number; // 内容定位的关键词数
+}
+
+/**
+ * 计算流量后的页面
+ */
+interface RankedPage extends CannibalizingPage {
+  readonly targetCount: number;
+}
+
+/**
+ * 改定位候选关键词
+ */
+interface RetargetCandidate {
+  readonly id: string;
+  readonly text: string;
+}
+
+/**
+ * 关键词内容蚕食检测服务
+ */
+@Injectable()
+export class KeywordCannibalizationService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==================== 蚕食分析 ====================
+
+  /**
+   * 分析单个关键词，未发生蚕食时 pages 中仍返回定位或排名该关键词的页面
+   */
+  async analyzeKeyword(keywordId: string): Promise<KeywordCannibalization> {
+    const keyword = await this.prisma.keyword.findUnique({
+      where: { id: keywordId },
+      select: CANNIBALIZATION_KEYWORD_SELECT,
+    });
+
+    if (!keyword) {
+      throw new KeywordNotFoundException(keywordId);
+    }
+
+    const [analysis] = await this.analyze([keyword]);
+    return analysis!;
+  }
+
+  /**
+   * 查询存在蚕食的活跃关键词，按严重程度和流量分散程度排序
+   */
+  async findIssues(options: CannibalizationQueryOptions = {}): Promise<KeywordCannibalization[]> {
+    const keywords = await this.prisma.keyword.findMany({
+      where: {
+        status: { not: KeywordStatus.RETIRED },
+        ...(options.productLine && { productLine: options.productLine }),
+      },
+      select: CANNIBALIZATION_KEYWORD_SELECT,
+    });
+
+    const maxSeverityIndex = SEVERITY_ORDER.indexOf(options.minSeverity ?? CannibalizationSeverity.LOW);
+    const volumeById = new Map<string, number>(keywords.map(keyword => [keyword.id, keyword.searchVolume ?? 0]));
+
+    return (await this.analyze(keywords))
+      .filter(analysis => analysis.isCannibalized && SEVERITY_ORDER.indexOf(analysis.severity!) <= maxSeverityIndex)
+      .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity!) - SEVERITY_ORDER.indexOf(b.severity!)
+        || b.trafficSplit - a.trafficSplit
+        || volumeById.get(b.keywordId)! - volumeById.get(a.keywordId)!)
+      .slice(0, options.limit ?? DEFAULT_ISSUE_LIMIT);
+  }
+
+  // ==================== 私有方法 ====================
+
+  private async analyze(keywords: CannibalizationKeyword[]): Promise<KeywordCannibalization[]> {
+    if (keywords.length === 0) {
+      return [];
+    }
+
+    const keywordIds = keywords.map(keyword => keyword.id);
+    const [contents, eventCounts, candidatesByCluster] = await Promise.all([
+      this.findPublishedContents(keywordIds),
+      this.countContentEvents(keywordIds),
+      this.findRetargetCandidates(keywords),
+    ]);
+
+    const contentsByKeyword = new Map<string, PublishedContent[]>();
+    for (const content of contents) {
+      for (const keywordId of this.targetedKeywordIds(content)) {
+        contentsByKeyword.set(keywordId, [...(contentsByKeyword.get(keywordId) ?? []), content]);
+      }
+    }
+
+    return keywords.map(keyword => this.buildAnalysis(
+      keyword,
+      contentsByKeyword.get(keyword.id) ?? [],
+      eventCounts.get(keyword.id) ?? new Map(),
+      (keyword.clusterId && candidatesByCluster.get(keyword.clusterId)) || [],
+    ));
+  }
+
+  private buildAnalysis(
+    keyword: CannibalizationKeyword,
+    contents: PublishedContent[],
+    eventCounts: Map<string, number>,
+    retargetCandidates: RetargetCandidate[],
+  ): KeywordCannibalization {
+    const ownResults = this.parseOwnResults(keyword.metrics[0]?.ownResults ?? null);
+    const positionByUrl = new Map(ownResults.map(result => [this.normalizeUrl(result.url), result.position]));
+
+    const drafts: PageDraft[] = contents.map(content => ({
+      contentId: content.id,
+      title: content.title,
+      contentType: content.contentType,
+      url: content.publishedUrl,
+      position: content.publishedUrl ? positionByUrl.get(this.normalizeUrl(content.publishedUrl)) ?? null : null,
+      targetCount: this.targetedKeywordIds(content).size,
+    }));
+
+    // 排名数据中未关联到已发布内容的自有 URL
+    const contentUrls = new Set(drafts.filter(draft => draft.url).map(draft => this.normalizeUrl(draft.url!)));
+    for (const result of ownResults) {
+      if (!contentUrls.has(this.normalizeUrl(result.url))) {
+        drafts.push({ contentId: null, title: null, contentType: null, url: result.url, position: result.position, targetCount: 0 });
+      }
+    }
+
+    // 全部页面均为已发布内容且有埋点数据时按事件数拆分，否则按排名估算
+    const useAnalytics = drafts.length > 0
+      && drafts.every(draft => draft.contentId)
+      && drafts.some(draft => (eventCounts.get(draft.contentId!) ?? 0) > 0);
+
+    const weights = drafts.map(draft => useAnalytics
+      ? eventCounts.get(draft.contentId!) ?? 0
+      : estimateOrganicCtr(draft.position));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    const pages = drafts
+      .map((draft, index) => ({ draft, weight: weights[index]! }))
+      .sort((a, b) => b.weight - a.weight
+        || (a.draft.position ?? Infinity) - (b.draft.position ?? Infinity)
+        || Number(Boolean(b.draft.contentId)) - Number(Boolean(a.draft.contentId)))
+      .map(({ draft, weight }, index): RankedPage => ({
+        contentId: draft.contentId,
+        title: draft.title,
+        contentType: draft.contentType,
+        url: draft.url,
+        position: draft.position,
+        traffic: useAnalytics
+          ? weight
+          : keyword.searchVolume !== null ? Math.round(weight * keyword.searchVolume) : null,
+        trafficShare: totalWeight > 0 ? this.round(weight / totalWeight) : 0,
+        isPrimary: index === 0,
+        targetCount: draft.targetCount,
+      }));
+
+    const isCannibalized = pages.length >= 2;
+    const trafficSplit = isCannibalized && totalWeight > 0 ? this.round(1 - pages[0]!.trafficShare) : 0;
+    const severity = isCannibalized
+      ? SEVERITY_THRESHOLDS.find(([, threshold]) => trafficSplit >= threshold)?.[0] ?? CannibalizationSeverity.LOW
+      : null;
+
+    const candidates = retargetCandidates.filter(candidate => candidate.id !== keyword.id);
+    const suggestions = isCannibalized
+      ? pages.slice(1).map((page, index) => this.suggest(page, pages[0]!, severity!, candidates[index] ?? null))
+      : [];
+
+    return {
+      keywordId: keyword.id,
+      keywordText: keyword.text,
+      productLine: keyword.productLine,
+      isCannibalized,
+      severity,
+      trafficSplit,
+      trafficSource: useAnalytics ? 'analytics' : 'estimated',
+      pages: pages.map(({ targetCount: _targetCount, ...page }) => page),
+      suggestions,
+    };
+  }
+
+  /**
+   * 次要页面的处理建议：
+   * - 未纳入内容管理的 URL：canonical 指向主页面
+   * - 同时定位多个关键词的内容：移除本关键词
+   * - 流量明显分散的同类内容：合并到主页面
+   * - 其余：有同聚类的空缺关键词时改定位，否则 canonical
+   */
+  private suggest(
+    page: RankedPage,
+    primary: CannibalizingPage,
+    severity: CannibalizationSeverity,
+    candidate: RetargetCandidate | null,
+  ): CannibalizationSuggestion {
+    const base = {
+      sourceContentId: page.contentId,
+      sourceUrl: page.url,
+      targetContentId: primary.contentId,
+      targetUrl: primary.url,
+      suggestedKeywordId: null,
+      suggestedKeywordText: null,
+    };
+    const primaryShare = `${Math.round(primary.trafficShare * 100)}%`;
+
+    if (!page.contentId) {
+      return {
+        ...base,
+        action: CannibalizationAction.CANONICAL,
+        reason: `该 URL 未关联已发布内容但与主页面同时排名，建议设置 canonical 指向主页面`,
+      };
+    }
+
+    if (page.targetCount > 1) {
+      return {
+        ...base,
+        action: CannibalizationAction.RETARGET,
+        suggestedKeywordId: candidate?.id ?? null,
+        suggestedKeywordText: candidate?.text ?? null,
+        reason: `该内容同时定位 ${page.targetCount} 个关键词，建议移除本关键词，集中优化其他目标关键词`,
+      };
+    }
+
+    if (severity !== CannibalizationSeverity.LOW && page.contentType === primary.contentType) {
+      return {
+        ...base,
+        action: CannibalizationAction.MERGE,
+        reason: `同类内容流量分散（主页面占比 ${primaryShare}），建议合并到主页面并 301 重定向`,
+      };
+    }
+
+    if (candidate) {
+      return {
+        ...base,
+        action: CannibalizationAction.RETARGET,
+        suggestedKeywordId: candidate.id,
+        suggestedKeywordText: candidate.text,
+        reason: `建议改为定位同主题下尚无内容的关键词「${candidate.text}」`,
+      };
+    }
+
+    return {
+      ...base,
+      action: CannibalizationAction.CANONICAL,
+      reason: `主页面占比 ${primaryShare}，建议次要页面设置 canonical 指向主页面`,
+    };
+  }
+
+  private async findPublishedContents(keywordIds: string[]): Promise<PublishedContent[]> {
+    return this.prisma.contentItem.findMany({
+      where: {
+        status: PUBLISHED_STATUS,
+        OR: [
+          { targetKeywordIds: { hasSome: keywordIds } },
+          { keywords: { some: { id: { in: keywordIds } } } },
+        ],
+      },
+      select: PUBLISHED_CONTENT_SELECT,
+    });
+  }
+
+  /**
+   * 统计窗口内各关键词、各内容的流量事件数
+   */
+  private async countContentEvents(keywordIds: string[]): Promise<Map<string, Map<string, number>>> {
+    const rows = await this.prisma.analyticsEvent.groupBy({
+      by: ['keywordId', 'contentId'],
+      where: {
+        keywordId: { in: keywordIds },
+        contentId: { not: null },
+        eventType: { in: TRAFFIC_EVENT_TYPES },
+        occurredAt: { gte: new Date(Date.now() - ANALYTICS_WINDOW_DAYS * DAY_MS) },
+      },
+      _count: { _all: true },
+    });
+
+    const counts = new Map<string, Map<string, number>>();
+    for (const row of rows) {
+      const byContent = counts.get(row.keywordId!) ?? new Map<string, number>();
+      byContent.set(row.contentId!, row._count._all);
+      counts.set(row.keywordId!, byContent);
+    }
+    return counts;
+  }
+
+  /**
+   * 各聚类中尚无已发布内容定位的关键词（按搜索量降序），作为改定位候选
+   */
+  private async findRetargetCandidates(keywords: CannibalizationKeyword[]): Promise<Map<string, RetargetCandidate[]>> {
+    const clusterIds = [...new Set(keywords.map(keyword => keyword.clusterId).filter((id): id is string => Boolean(id)))];
+    if (clusterIds.length === 0) {
+      return new Map();
+    }
+
+    const members = await this.prisma.keyword.findMany({
+      where: { clusterId: { in: clusterIds }, status: { not: KeywordStatus.RETIRED } },
+      select: { id: true, text: true, clusterId: true },
+      orderBy: [{ searchVolume: { sort: 'desc', nulls: 'last' } }, { text: 'asc' }],
+    });
+
+    const targeted = new Set(
+      (await this.findPublishedContents(members.map(member => member.id)))
+        .flatMap(content => [...this.targetedKeywordIds(content)]),
+    );
+
+    const candidates = new Map<string, RetargetCandidate[]>();
+    for (const member of members) {
+      if (!targeted.has(member.id)) {
+        candidates.set(member.clusterId!, [...(candidates.get(member.clusterId!) ?? []), { id: member.id, text: member.text }]);
+      }
+    }
+    return candidates;
+  }
+
+  private targetedKeywordIds(content: PublishedContent): Set<string> {
+    return new Set([...content.targetKeywordIds, ...content.keywords.map(keyword => keyword.id)]);
+  }
+
+  private parseOwnResults(ownResults: Prisma.JsonValue | null): Array<{ url: string; position: number }> {
+    if (!Array.isArray(ownResults)) {
+      return [];
+    }
+
+    return ownResults
+      .filter((item): item is Prisma.JsonObject => typeof item === 'object' && item !== null && !Array.isArray(item))
+      .filter(item => typeof item['url'] === 'string' && typeof item['position'] === 'number')
+      .map(item => ({ url: item['url'] as string, position: item['position'] as number }))
+      .sort((a, b) => a.position - b.position);
+  }
+
+  private normalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      return `${parsed.hostname.toLowerCase().replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}`;
+    } catch {
+      return url.toLowerCase();
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
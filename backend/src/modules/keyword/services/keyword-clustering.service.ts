@@ -0,0 +1,412 @@
+/**
+ * 关键词主题聚类服务
+ *
+ * @description 按 SERP 结果重合度（最新指标 topCompetitors 中的前 10 个 URL）和词面相似度将关键词分组，
+ *              搜索量最高的关键词作为支柱关键词。聚类在同一产品线内进行，重建时整体替换该范围内的聚类
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '@/common/prisma.service';
+import {
+  KeywordClusterNotFoundException,
+  KeywordValidationException,
+} from '../exceptions/keyword.exceptions';
+import {
+  KeywordClusteringInput,
+  KeywordClusteringReport,
+  KeywordClusterTree,
+  KeywordClusterWithKeywords,
+  KeywordClusterWithPillar,
+  KeywordPriorityLevel,
+  KeywordSimilarity,
+  KeywordStatus,
+  ProductLine,
+} from '../types/keyword.types';
+
+const DEFAULT_MIN_SIMILARITY = 0.35;
+const DEFAULT_MIN_CLUSTER_SIZE = 2;
+
+/**
+ * 双方都有 SERP 数据时 URL 重合度的权重，其余为词面相似度
+ */
+const SERP_WEIGHT = 0.7;
+
+/**
+ * 参与比较的 SERP 结果数
+ */
+const SERP_TOP_N = 10;
+
+/**
+ * 不参与词面相似度的词：虚词，以及几乎出现在所有关键词中的品牌词
+ */
+const IGNORED_TOKENS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'for', 'to', 'of', 'in', 'on', 'with', 'without',
+  'is', 'are', 'do', 'does', 'can', 'how', 'what', 'which', 'my', 'your', 'vs',
+  'eufy', 'eufylife',
+]);
+
+/**
+ * 重建聚类的事务超时，关键词较多时需逐个创建聚类
+ */
+const REBUILD_TRANSACTION_TIMEOUT_MS = 60000;
+
+const LEVEL_ORDER = Object.values(KeywordPriorityLevel);
+
+const MEMBER_ORDER_BY = [
+  { searchVolume: { sort: 'desc', nulls: 'last' } },
+  { text: 'asc' },
+] satisfies Prisma.KeywordOrderByWithRelationInput[];
+
+/**
+ * 参与聚类的关键词数据
+ */
+type ClusteringKeyword = Prisma.KeywordGetPayload<{
+  select: typeof CLUSTERING_KEYWORD_SELECT;
+}>;
+
+const CLUSTERING_KEYWORD_SELECT = {
+  id: true,
+  text: true,
+  searchVolume: true,
+  priorityLevel: true,
+  productLine: true,
+  metrics: {
+    orderBy: { metricDate: 'desc' },
+    take: 1,
+    select: { topCompetitors: true },
+  },
+} satisfies Prisma.KeywordSelect;
+
+/**
+ * 预处理后的相似度特征
+ */
+interface ClusteringFeatures {
+  readonly keyword: ClusteringKeyword;
+  readonly tokens: Set<string>;
+  readonly urls: Set<string>;
+}
+
+/**
+ * 待保存的分组
+ */
+interface ClusterGroup {
+  readonly pillar: ClusteringKeyword;
+  readonly members: ClusteringKeyword[];
+  readonly cohesion: number | null;
+}
+
+/**
+ * 关键词主题聚类服务
+ */
+@Injectable()
+export class KeywordClusteringService {
+  private readonly logger = new Logger(KeywordClusteringService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==================== 聚类查询 ====================
+
+  /**
+   * 获取聚类列表（按总搜索量降序）
+   */
+  async getClusters(productLine?: ProductLine): Promise<KeywordClusterWithPillar[]> {
+    return this.prisma.keywordCluster.findMany({
+      where: productLine ? { productLine } : {},
+      include: { pillarKeyword: true },
+      orderBy: [{ totalSearchVolume: 'desc' }, { name: 'asc' }],
+    });
+  }
+
+  /**
+   * 获取聚类及全部成员
+   */
+  async getCluster(id: string): Promise<KeywordClusterWithKeywords> {
+    const cluster = await this.prisma.keywordCluster.findUnique({
+      where: { id },
+      include: { pillarKeyword: true, keywords: { orderBy: MEMBER_ORDER_BY } },
+    });
+
+    if (!cluster) {
+      throw new KeywordClusterNotFoundException(id);
+    }
+
+    return cluster;
+  }
+
+  /**
+   * 获取聚类树：聚类为根节点，成员为子节点，另返回未归类的活跃关键词数
+   */
+  async getClusterTree(productLine?: ProductLine): Promise<KeywordClusterTree> {
+    const [clusters, unclusteredCount] = await Promise.all([
+      this.prisma.keywordCluster.findMany({
+        where: productLine ? { productLine } : {},
+        include: { pillarKeyword: true, keywords: { orderBy: MEMBER_ORDER_BY } },
+        orderBy: [{ totalSearchVolume: 'desc' }, { name: 'asc' }],
+      }),
+      this.prisma.keyword.count({
+        where: {
+          clusterId: null,
+          status: { not: KeywordStatus.RETIRED },
+          ...(productLine && { productLine }),
+        },
+      }),
+    ]);
+
+    return { clusters, unclusteredCount };
+  }
+
+  /**
+   * 手动指定支柱关键词，聚类名称随之更新
+   */
+  async setClusterPillar(clusterId: string, keywordId: string): Promise<KeywordClusterWithPillar> {
+    const cluster = await this.getCluster(clusterId);
+    const pillar = cluster.keywords.find(keyword => keyword.id === keywordId);
+
+    if (!pillar) {
+      throw new KeywordValidationException([{ field: 'keywordId', message: '支柱关键词必须是该聚类的成员' }]);
+    }
+
+    return this.prisma.keywordCluster.update({
+      where: { id: clusterId },
+      data: { pillarKeywordId: pillar.id, name: pillar.text },
+      include: { pillarKeyword: true },
+    });
+  }
+
+  // ==================== 聚类重建 ====================
+
+  /**
+   * 重建关键词聚类：以搜索量最高的未归类关键词为支柱，依次吸收相似度达到阈值的关键词
+   */
+  async rebuildClusters(input: KeywordClusteringInput = {}, userId?: string): Promise<KeywordClusteringReport> {
+    const startedAt = Date.now();
+    const minSimilarity = input.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+    const minClusterSize = input.minClusterSize ?? DEFAULT_MIN_CLUSTER_SIZE;
+    this.validateInput(minSimilarity, minClusterSize);
+
+    const keywords = await this.prisma.keyword.findMany({
+      where: {
+        status: { not: KeywordStatus.RETIRED },
+        ...(input.productLine && { productLine: input.productLine }),
+      },
+      select: CLUSTERING_KEYWORD_SELECT,
+    });
+
+    const features = keywords.map(keyword => this.toFeatures(keyword));
+    const partitions = new Map<string | null, ClusteringFeatures[]>();
+    for (const feature of features) {
+      const productLine = feature.keyword.productLine;
+      partitions.set(productLine, [...(partitions.get(productLine) ?? []), feature]);
+    }
+
+    const groups = [...partitions.values()]
+      .flatMap(partition => this.groupKeywords(partition, minSimilarity, minClusterSize));
+
+    await this.prisma.$transaction(async tx => {
+      const scope: Prisma.KeywordClusterWhereInput = input.productLine ? { productLine: input.productLine } : {};
+
+      if (input.productLine) {
+        await tx.keyword.updateMany({
+          where: { productLine: input.productLine, clusterId: { not: null } },
+          data: { clusterId: null },
+        });
+      }
+      await tx.keywordCluster.deleteMany({ where: scope });
+
+      for (const group of groups) {
+        await tx.keywordCluster.create({
+          data: {
+            name: group.pillar.text,
+            productLine: group.pillar.productLine,
+            pillarKeywordId: group.pillar.id,
+            keywordCount: group.members.length,
+            totalSearchVolume: group.members.reduce((sum, member) => sum + (member.searchVolume ?? 0), 0),
+            cohesion: group.cohesion,
+            createdBy: userId ?? null,
+            keywords: { connect: group.members.map(member => ({ id: member.id })) },
+          },
+        });
+      }
+    }, { timeout: REBUILD_TRANSACTION_TIMEOUT_MS });
+
+    const clusteredCount = groups.reduce((sum, group) => sum + group.members.length, 0);
+    this.logger.log(
+      `关键词聚类重建完成: ${groups.length} 个聚类, ${clusteredCount}/${keywords.length} 个关键词已归类${userId ? `, 操作人 ${userId}` : ''}`,
+    );
+
+    return {
+      productLine: input.productLine ?? null,
+      totalKeywords: keywords.length,
+      clusterCount: groups.length,
+      clusteredCount,
+      unclusteredCount: keywords.length - clusteredCount,
+      serpCoverage: keywords.length > 0
+        ? this.round(features.filter(feature => feature.urls.size > 0).length / keywords.length)
+        : 0,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  // ==================== 私有方法 ====================
+
+  private groupKeywords(features: ClusteringFeatures[], minSimilarity: number, minClusterSize: number): ClusterGroup[] {
+    const ordered = [...features].sort((a, b) => this.comparePillarCandidates(a.keyword, b.keyword));
+    const assigned = new Set<string>();
+    const groups: ClusterGroup[] = [];
+
+    for (const seed of ordered) {
+      if (assigned.has(seed.keyword.id)) {
+        continue;
+      }
+
+      const members = [seed.keyword];
+      const scores: number[] = [];
+      for (const candidate of ordered) {
+        if (candidate === seed || assigned.has(candidate.keyword.id)) {
+          continue;
+        }
+        const { score } = this.compareFeatures(seed, candidate);
+        if (score >= minSimilarity) {
+          members.push(candidate.keyword);
+          scores.push(score);
+        }
+      }
+
+      if (members.length < minClusterSize) {
+        continue;
+      }
+
+      members.forEach(member => assigned.add(member.id));
+      groups.push({
+        pillar: seed.keyword,
+        members,
+        cohesion: scores.length > 0
+          ? this.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+          : null,
+      });
+    }
+
+    return groups;
+  }
+
+  /**
+   * 支柱关键词优先级：搜索量高 -> 优先级高 -> 文本短
+   */
+  private comparePillarCandidates(a: ClusteringKeyword, b: ClusteringKeyword): number {
+    const levelIndex = (level: string | null) => {
+      const index = LEVEL_ORDER.indexOf(level as KeywordPriorityLevel);
+      return index === -1 ? LEVEL_ORDER.length : index;
+    };
+
+    return (b.searchVolume ?? -1) - (a.searchVolume ?? -1)
+      || levelIndex(a.priorityLevel) - levelIndex(b.priorityLevel)
+      || a.text.length - b.text.length
+      || a.text.localeCompare(b.text);
+  }
+
+  /**
+   * 相似度：
+   * - SERP 重合度：共同 URL 数 / 较少一方的 URL 数
+   * - 词面相似度：去除虚词和品牌词后的词集合 Jaccard 系数
+   * 任一方缺少 SERP 数据时仅使用词面相似度
+   */
+  private compareFeatures(a: ClusteringFeatures, b: ClusteringFeatures): KeywordSimilarity {
+    const lexical = this.jaccard(a.tokens, b.tokens);
+
+    if (a.urls.size === 0 || b.urls.size === 0) {
+      return { serpOverlap: null, lexical: this.round(lexical), score: this.round(lexical) };
+    }
+
+    let shared = 0;
+    for (const url of a.urls) {
+      if (b.urls.has(url)) shared++;
+    }
+    const serpOverlap = shared / Math.min(a.urls.size, b.urls.size);
+
+    return {
+      serpOverlap: this.round(serpOverlap),
+      lexical: this.round(lexical),
+      score: this.round(serpOverlap * SERP_WEIGHT + lexical * (1 - SERP_WEIGHT)),
+    };
+  }
+
+  private toFeatures(keyword: ClusteringKeyword): ClusteringFeatures {
+    return {
+      keyword,
+      tokens: this.tokenize(keyword.text),
+      urls: this.extractUrls(keyword.metrics[0]?.topCompetitors ?? null),
+    };
+  }
+
+  private tokenize(text: string): Set<string> {
+    return new Set(
+      text.toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(token => token && !IGNORED_TOKENS.has(token))
+        // 简单去除复数形式，使 camera / cameras 视为同一词
+        .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token)),
+    );
+  }
+
+  /**
+   * topCompetitors -> 规范化 URL 集合；早期采集的数据只有域名，不参与 SERP 比较
+   */
+  private extractUrls(topCompetitors: Prisma.JsonValue | null): Set<string> {
+    if (!Array.isArray(topCompetitors)) {
+      return new Set();
+    }
+
+    return new Set(
+      topCompetitors
+        .filter((item): item is Prisma.JsonObject => typeof item === 'object' && item !== null && !Array.isArray(item))
+        .sort((a, b) => Number(a['position'] ?? 0) - Number(b['position'] ?? 0))
+        .slice(0, SERP_TOP_N)
+        .map(item => item['url'])
+        .filter((url): url is string => typeof url === 'string' && url.length > 0)
+        .map(url => this.normalizeUrl(url)),
+    );
+  }
+
+  private normalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      return `${parsed.hostname.toLowerCase().replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}`;
+    } catch {
+      return url.toLowerCase();
+    }
+  }
+
+  private jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) {
+      return 0;
+    }
+
+    let intersection = 0;
+    for (const token of a) {
+      if (b.has(token)) intersection++;
+    }
+    return intersection / (a.size + b.size - intersection);
+  }
+
+  private validateInput(minSimilarity: number, minClusterSize: number): void {
+    const errors: Array<{ field: string; message: string }> = [];
+
+    if (!Number.isFinite(minSimilarity) || minSimilarity <= 0 || minSimilarity > 1) {
+      errors.push({ field: 'minSimilarity', message: '相似度阈值必须在 0-1 之间且大于 0' });
+    }
+    if (!Number.isInteger(minClusterSize) || minClusterSize < 1) {
+      errors.push({ field: 'minClusterSize', message: '最小聚类规模必须是正整数' });
+    }
+
+    if (errors.length > 0) {
+      throw new KeywordValidationException(errors);
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
@@ -0,0 +1,444 @@
+/**
+ * 关键词竞品差距分析服务
+ *
+ * @description 找出竞品域名进入自然结果前 10 或被 Google AIO 引用、而 Eufy 未排名或未被引用的关键词，
+ *              按搜索量 × 点击率曲线估算机会，并支持将新发现的关键词加入关键词库（记录来源竞品）
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '@/common/prisma.service';
+import { GoogleApisService } from '@/services/google-apis.service';
+import { KeywordService } from './keyword.service';
+import { estimateOrganicCtr } from './keyword-cannibalization.service';
+import { KeywordValidationException } from '../exceptions/keyword.exceptions';
+import {
+  AIOStatus,
+  KeywordGap,
+  KeywordGapAnalysis,
+  KeywordGapAnalysisInput,
+  KeywordGapBacklogItem,
+  KeywordGapBacklogResult,
+  KeywordGapCompetitor,
+  KeywordGapSource,
+  KeywordSource,
+  KeywordStatus,
+  KeywordWithRelations,
+  ProductLine,
+} from '../types/keyword.types';
+
+const DEFAULT_COMPETITOR_DOMAINS = ['ring.com', 'arlo.com', 'wyze.com'];
+const OWN_DOMAINS = ['eufy.com', 'eufylife.com'];
+
+/**
+ * 竞品进入该排名以内、而 Eufy 不在该排名以内时视为排名差距
+ */
+const RANKING_GAP_POSITION = 10;
+
+/**
+ * AIO 引用观测的统计窗口（天）
+ */
+const AIO_PLATFORM = 'google-aio';
+const CITATION_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 从竞品页面标题发现新关键词时，每次分析最多实时校验的候选数及请求间隔
+ */
+const MAX_DISCOVERY_CANDIDATES = 20;
+const DISCOVERY_QUERY_WORDS = { min: 2, max: 8 };
+const REQUEST_INTERVAL_MS = 1000;
+
+const DEFAULT_GAP_LIMIT = 100;
+const MAX_GAP_LIMIT = 500;
+
+const GAP_KEYWORD_SELECT = {
+  id: true,
+  text: true,
+  searchVolume: true,
+  productLine: true,
+  metrics: {
+    orderBy: { metricDate: 'desc' },
+    take: 1,
+    select: { googlePosition: true, aioPosition: true, topCompetitors: true },
+  },
+} satisfies Prisma.KeywordSelect;
+
+/**
+ * SERP 中的单条结果（自然结果或 AIO 引用）
+ */
+interface SerpEntry {
+  readonly domain: string;
+  readonly url: string;
+  readonly position: number;
+}
+
+/**
+ * 同一关键词或查询在统计窗口内的 AIO 引用
+ */
+interface AioCitationGroup {
+  readonly query: string;
+  readonly keywordId: string | null;
+  readonly productLine: ProductLine | null;
+  readonly references: SerpEntry[];
+}
+
+/**
+ * 判定差距所需的 SERP 快照
+ */
+interface GapSnapshot {
+  readonly text: string;
+  readonly keywordId: string | null;
+  readonly productLine: ProductLine | null;
+  readonly source: KeywordGapSource;
+  readonly searchVolume: number | null;
+  readonly organic: ReadonlyArray<SerpEntry>;
+  readonly aioReferences: ReadonlyArray<SerpEntry>;
+  readonly ownPosition: number | null;
+  readonly ownAioCited: boolean;
+}
+
+/**
+ * 关键词竞品差距分析服务
+ */
+@Injectable()
+export class KeywordGapService {
+  private readonly logger = new Logger(KeywordGapService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly googleApis: GoogleApisService,
+    private readonly keywordService: KeywordService,
+  ) {}
+
+  // ==================== 差距分析 ====================
+
+  /**
+   * 分析竞品差距：已跟踪关键词读取最新指标，未跟踪的查询来自 AIO 引用观测；
+   * discover 时另从竞品站点热门页面标题提取候选并实时查询 SERP 校验
+   */
+  async analyzeGaps(input: KeywordGapAnalysisInput = {}): Promise<KeywordGapAnalysis> {
+    const competitorDomains = this.normalizeDomains(input.competitorDomains ?? DEFAULT_COMPETITOR_DOMAINS);
+    const limit = input.limit ?? DEFAULT_GAP_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_GAP_LIMIT) {
+      throw new KeywordValidationException([{ field: 'limit', message: `返回数量必须是 1-${MAX_GAP_LIMIT} 之间的整数` }]);
+    }
+
+    const [keywords, citationGroups, trackedTexts] = await Promise.all([
+      this.prisma.keyword.findMany({
+        where: {
+          status: { not: KeywordStatus.RETIRED },
+          ...(input.productLine && { productLine: input.productLine }),
+        },
+        select: GAP_KEYWORD_SELECT,
+      }),
+      this.findAioCitations(input.productLine),
+      this.prisma.keyword.findMany({ select: { text: true } }),
+    ]);
+
+    const snapshots: GapSnapshot[] = [];
+    for (const keyword of keywords) {
+      const metric = keyword.metrics[0];
+      const references = citationGroups.get(keyword.id)?.references ?? [];
+      snapshots.push({
+        text: keyword.text,
+        keywordId: keyword.id,
+        productLine: keyword.productLine as ProductLine | null,
+        source: KeywordGapSource.TRACKED,
+        searchVolume: keyword.searchVolume,
+        organic: this.parseSerpEntries(metric?.topCompetitors ?? null),
+        aioReferences: references,
+        ownPosition: metric?.googlePosition ?? null,
+        ownAioCited: metric?.aioPosition != null || references.some(reference => this.isOwnDomain(reference.domain)),
+      });
+    }
+
+    const knownTexts = new Set<string>(trackedTexts.map(keyword => this.normalizeText(keyword.text)));
+    for (const group of citationGroups.values()) {
+      if (group.keywordId || knownTexts.has(this.normalizeText(group.query))) {
+        continue;
+      }
+      knownTexts.add(this.normalizeText(group.query));
+      snapshots.push({
+        text: group.query,
+        keywordId: null,
+        productLine: group.productLine,
+        source: KeywordGapSource.AIO_CITATION,
+        searchVolume: null,
+        organic: [],
+        aioReferences: group.references,
+        ownPosition: null,
+        ownAioCited: group.references.some(reference => this.isOwnDomain(reference.domain)),
+      });
+    }
+
+    if (input.discover) {
+      snapshots.push(...await this.discover(competitorDomains, knownTexts, input.productLine ?? null));
+    }
+
+    const gaps = snapshots
+      .map(snapshot => this.buildGap(snapshot, competitorDomains))
+      .filter((gap): gap is KeywordGap => gap !== null)
+      .sort((a, b) => (b.estimatedOpportunity ?? -1) - (a.estimatedOpportunity ?? -1)
+        || b.competitors.length - a.competitors.length
+        || a.text.localeCompare(b.text))
+      .slice(0, limit);
+
+    return {
+      competitorDomains,
+      gaps,
+      totalOpportunity: gaps.reduce((sum, gap) => sum + (gap.estimatedOpportunity ?? 0), 0),
+      analyzedAt: new Date(),
+    };
+  }
+
+  /**
+   * 将差距关键词加入关键词库，来源记为 competitor_gap；已存在的关键词跳过
+   *
+   * 新关键词 AIO 状态设为 monitored，以便纳入每日 SERP 指标采集
+   */
+  async addToBacklog(items: ReadonlyArray<KeywordGapBacklogItem>, userId: string): Promise<KeywordGapBacklogResult> {
+    if (items.length === 0) {
+      throw new KeywordValidationException([{ field: 'items', message: '请至少选择一个关键词' }]);
+    }
+
+    const created: KeywordWithRelations[] = [];
+    const skippedTexts: string[] = [];
+    const seen = new Set<string>();
+
+    for (const item of items) {
+      const normalized = this.normalizeText(item.text);
+      if (seen.has(normalized)) {
+        continue;
+      }
+      seen.add(normalized);
+
+      try {
+        created.push(await this.keywordService.createKeyword({
+          text: item.text,
+          searchVolume: item.searchVolume ?? null,
+          productLine: item.productLine ?? null,
+          source: KeywordSource.COMPETITOR_GAP,
+          sourceDomains: this.normalizeDomains(item.competitorDomains),
+          aioStatus: AIOStatus.MONITORED,
+        }, userId));
+      } catch (error) {
+        if (!(error instanceof ConflictException)) {
+          throw error;
+        }
+        skippedTexts.push(item.text);
+      }
+    }
+
+    this.logger.log(`竞品差距关键词加入关键词库: 新增 ${created.length} 个，跳过 ${skippedTexts.length} 个`);
+    return { created, skippedTexts };
+  }
+
+  // ==================== 私有方法 ====================
+
+  private buildGap(snapshot: GapSnapshot, competitorDomains: string[]): KeywordGap | null {
+    const competitors: KeywordGapCompetitor[] = competitorDomains
+      .map(domain => {
+        const result = snapshot.organic
+          .filter(entry => entry.position <= RANKING_GAP_POSITION && this.matchesDomain(entry.domain, domain))
+          .sort((a, b) => a.position - b.position)[0];
+        const reference = snapshot.aioReferences
+          .filter(entry => this.matchesDomain(entry.domain, domain))
+          .sort((a, b) => a.position - b.position)[0];
+
+        return {
+          domain,
+          position: result?.position ?? null,
+          url: result?.url ?? reference?.url ?? null,
+          aioPosition: reference?.position ?? null,
+        };
+      })
+      .filter(competitor => competitor.position !== null || competitor.aioPosition !== null);
+
+    const ownRanked = snapshot.ownPosition !== null && snapshot.ownPosition <= RANKING_GAP_POSITION;
+    const rankingGap = !ownRanked && competitors.some(competitor => competitor.position !== null);
+    const aioGap = !snapshot.ownAioCited && competitors.some(competitor => competitor.aioPosition !== null);
+
+    if (!rankingGap && !aioGap) {
+      return null;
+    }
+
+    // 仅被 AIO 引用时以引用位置近似自然排名
+    const targetPosition = Math.min(...competitors.map(competitor => (rankingGap ? competitor.position : competitor.aioPosition) ?? Infinity));
+    const ctrGain = Math.max(0, estimateOrganicCtr(targetPosition) - estimateOrganicCtr(snapshot.ownPosition));
+
+    return {
+      text: snapshot.text,
+      keywordId: snapshot.keywordId,
+      productLine: snapshot.productLine,
+      source: snapshot.source,
+      searchVolume: snapshot.searchVolume,
+      competitors,
+      ownPosition: snapshot.ownPosition,
+      rankingGap,
+      aioGap,
+      estimatedOpportunity: snapshot.searchVolume !== null ? Math.round(snapshot.searchVolume * ctrGain) : null,
+    };
+  }
+
+  /**
+   * 统计窗口内的 Google AIO 引用，关联关键词的按 keywordId 分组，其余按查询文本分组
+   */
+  private async findAioCitations(productLine?: ProductLine): Promise<Map<string, AioCitationGroup>> {
+    const observations = await this.prisma.citationObservation.findMany({
+      where: {
+        platform: AIO_PLATFORM,
+        observedAt: { gte: new Date(Date.now() - CITATION_WINDOW_DAYS * DAY_MS) },
+        citedUrl: { not: null },
+        ...(productLine && { productLine }),
+      },
+      select: { query: true, keywordId: true, productLine: true, citedUrl: true, citedDomain: true, rank: true },
+      orderBy: { observedAt: 'desc' },
+    });
+
+    const groups = new Map<string, AioCitationGroup>();
+    for (const observation of observations) {
+      const key = observation.keywordId ?? `query:${this.normalizeText(observation.query)}`;
+      const group: AioCitationGroup = groups.get(key) ?? {
+        query: observation.query.trim(),
+        keywordId: observation.keywordId,
+        productLine: observation.productLine as ProductLine | null,
+        references: [],
+      };
+      group.references.push({
+        domain: this.stripWww(observation.citedDomain ?? this.hostname(observation.citedUrl!)),
+        url: observation.citedUrl!,
+        position: observation.rank ?? Number.MAX_SAFE_INTEGER,
+      });
+      groups.set(key, group);
+    }
+    return groups;
+  }
+
+  /**
+   * 从竞品站点热门页面标题提取候选查询，实时查询 SERP 后返回快照
+   */
+  private async discover(competitorDomains: string[], knownTexts: Set<string>, productLine: ProductLine | null): Promise<GapSnapshot[]> {
+    const brands = new Set(competitorDomains.map(domain => domain.split('.')[0]!));
+    const candidates: string[] = [];
+    for (const domain of competitorDomains) {
+      try {
+        const analysis = await this.googleApis.getCompetitorAnalysis(domain);
+        for (const page of analysis.top_pages ?? []) {
+          const query = this.titleToQuery(page.title ?? '', brands);
+          if (query && !knownTexts.has(query) && !candidates.includes(query)) {
+            candidates.push(query);
+          }
+        }
+      } catch (error) {
+        this.logger.warn(`获取竞品页面失败 ${domain}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const snapshots: GapSnapshot[] = [];
+    for (const [index, query] of candidates.slice(0, MAX_DISCOVERY_CANDIDATES).entries()) {
+      if (index > 0) {
+        await new Promise(resolve => setTimeout(resolve, REQUEST_INTERVAL_MS));
+      }
+
+      try {
+        const serp = await this.googleApis.searchKeywordData(query);
+        const organic: SerpEntry[] = (serp.organic_results as Array<{ position: number; link: string; domain: string }>)
+          .map(result => ({ domain: this.stripWww(result.domain), url: result.link, position: result.position }));
+        const aioReferences: SerpEntry[] = (serp.ai_overview?.references ?? [])
+          .map(reference => ({ domain: this.stripWww(reference.domain), url: reference.link, position: reference.position }));
+
+        knownTexts.add(query);
+        snapshots.push({
+          text: query,
+          keywordId: null,
+          productLine,
+          source: KeywordGapSource.COMPETITOR_PAGES,
+          searchVolume: null,
+          organic,
+          aioReferences,
+          ownPosition: organic.find(result => this.isOwnDomain(result.domain))?.position ?? null,
+          ownAioCited: aioReferences.some(reference => this.isOwnDomain(reference.domain)),
+        });
+      } catch (error) {
+        this.logger.warn(`校验候选关键词失败 "${query}": ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    return snapshots;
+  }
+
+  /**
+   * 页面标题 -> 候选查询：去掉站点名后缀和竞品品牌词，过短或过长的标题不作为候选
+   */
+  private titleToQuery(title: string, brands: Set<string>): string | null {
+    const words = this.normalizeText(title.split(/\s+[|–—-]\s+/)[0] ?? '')
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word && !brands.has(word));
+
+    return words.length >= DISCOVERY_QUERY_WORDS.min && words.length <= DISCOVERY_QUERY_WORDS.max
+      ? words.join(' ')
+      : null;
+  }
+
+  private parseSerpEntries(value: Prisma.JsonValue | null): SerpEntry[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+
+    return value
+      .filter((item): item is Prisma.JsonObject => typeof item === 'object' && item !== null && !Array.isArray(item))
+      .filter(item => typeof item['domain'] === 'string' && typeof item['position'] === 'number')
+      .map(item => ({
+        domain: this.stripWww(item['domain'] as string),
+        url: typeof item['url'] === 'string' ? item['url'] : '',
+        position: item['position'] as number,
+      }));
+  }
+
+  private normalizeDomains(domains: ReadonlyArray<string>): string[] {
+    const normalized = [...new Set(domains.map(domain => this.stripWww(
+      domain.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').split('/')[0]!,
+    )))].filter(Boolean);
+
+    const invalid = normalized.filter(domain => !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain));
+    if (normalized.length === 0 || invalid.length > 0) {
+      throw new KeywordValidationException([{
+        field: 'competitorDomains',
+        message: invalid.length > 0 ? `无效的竞品域名: ${invalid.join(', ')}` : '请至少指定一个竞品域名',
+      }]);
+    }
+    if (normalized.some(domain => this.isOwnDomain(domain))) {
+      throw new KeywordValidationException([{ field: 'competitorDomains', message: '竞品域名不能包含 Eufy 自有域名' }]);
+    }
+    return normalized;
+  }
+
+  private matchesDomain(domain: string, target: string): boolean {
+    const normalized = domain.toLowerCase();
+    return normalized === target || normalized.endsWith(`.${target}`);
+  }
+
+  private isOwnDomain(domain: string): boolean {
+    const normalized = this.stripWww(domain.toLowerCase());
+    return OWN_DOMAINS.some(own => this.matchesDomain(normalized, own));
+  }
+
+  private hostname(url: string): string {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return '';
+    }
+  }
+
+  private stripWww(domain: string): string {
+    return domain.toLowerCase().replace(/^www\./, '');
+  }
+
+  private normalizeText(text: string): string {
+    return text.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+}
@@ -0,0 +1,444 @@
+/**
+ * 关键词批量导入服务
+ *
+ * @description 解析 CSV/XLSX 文件，逐行校验、去重并写入关键词，返回逐行导入报告
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { extname } from 'path';
+import * as XLSX from 'xlsx';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationArguments } from 'class-validator';
+import { PrismaService } from '@/common/prisma.service';
+import { KeywordService } from './keyword.service';
+import { CreateKeywordInputDto } from '../dto/keyword.dto';
+import {
+  IsKeywordTextUniqueConstraint,
+  KeywordValidators,
+} from '../validators/keyword.validators';
+import { KeywordImportFileException } from '../exceptions/keyword.exceptions';
+import {
+  CreateKeywordInput,
+  KeywordImportAction,
+  KeywordImportColumnMapping,
+  KeywordImportDuplicateStrategy,
+  KeywordImportField,
+  KeywordImportInput,
+  KeywordImportReport,
+  KeywordImportRowResult,
+  KeywordIntentType,
+  KeywordSource,
+  MarketingFunnelStage,
+  ProductLine,
+} from '../types/keyword.types';
+
+/**
+ * 单行解析后的关键词数据
+ */
+type KeywordImportRowData = {
+  -readonly [K in KeywordImportField]?: NonNullable<CreateKeywordInput[K]>;
+};
+
+/**
+ * 支持的文件扩展名
+ */
+const SUPPORTED_EXTENSIONS = ['.csv', '.xlsx', '.xls'];
+
+/**
+ * 文件大小上限 (5MB)
+ */
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * 单次导入行数上限
+ */
+const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * 各字段可自动识别的表头（已归一化：小写、去除空格与分隔符）
+ */
+const COLUMN_ALIASES: Record<KeywordImportField, string[]> = {
+  text: ['text', 'keyword', 'keywords', 'term', 'query', '关键词'],
+  searchVolume: ['searchvolume', 'volume', 'avgmonthlysearches', 'monthlysearches', '搜索量'],
+  difficulty: ['difficulty', 'kd', 'keyworddifficulty', '难度', '关键词难度'],
+  cpc: ['cpc', 'avgcpc', 'costperclick', '点击成本'],
+  productLine: ['productline', 'product', '产品线'],
+  intentType: ['intenttype', 'intent', 'searchintent', '搜索意图', '意图'],
+  stage: ['stage', 'funnelstage', 'funnel', '漏斗阶段', '营销阶段'],
+};
+
+/**
+ * 关键词批量导入服务
+ */
+@Injectable()
+export class KeywordImportService {
+  private readonly logger = new Logger(KeywordImportService.name);
+
+  private readonly textValidConstraint = new KeywordValidators.IsKeywordTextValidConstraint();
+  private readonly searchVolumeConstraint = new KeywordValidators.IsSearchVolumeReasonableConstraint();
+  private readonly cpcConstraint = new KeywordValidators.IsCPCReasonableConstraint();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly keywordService: KeywordService,
+    private readonly textUniqueConstraint: IsKeywordTextUniqueConstraint,
+  ) {}
+
+  /**
+   * 导入关键词文件
+   *
+   * dryRun 模式下只做解析、校验和去重，不写入数据库，用于导入前预览
+   */
+  async importKeywords(input: KeywordImportInput, userId: string): Promise<KeywordImportReport> {
+    const dryRun = input.dryRun ?? false;
+    const duplicateStrategy = input.duplicateStrategy ?? KeywordImportDuplicateStrategy.SKIP;
+
+    const records = this.parseFile(input.fileName, input.content);
+    const columns = this.resolveColumns(input.fileName, records, input.columnMapping);
+
+    const seenTexts = new Set<string>();
+    const rows: KeywordImportRowResult[] = [];
+
+    for (const [index, record] of records.entries()) {
+      const rowNumber = this.getRowNumber(record, index);
+      const { data, errors } = this.normalizeRow(record, columns);
+
+      if (errors.length === 0) {
+        errors.push(...(await this.validateRow(data)));
+      }
+
+      if (errors.length > 0 || !data.text) {
+        rows.push(this.buildRow(rowNumber, data, KeywordImportAction.FAILED, null, errors));
+        continue;
+      }
+
+      // 文件内去重
+      const normalizedText = data.text.toLowerCase();
+      if (seenTexts.has(normalizedText)) {
+        rows.push(this.buildRow(rowNumber, data, KeywordImportAction.SKIPPED, null, ['文件内存在重复的关键词']));
+        continue;
+      }
+      seenTexts.add(normalizedText);
+
+      rows.push(await this.processRow(rowNumber, { ...data, text: data.text }, duplicateStrategy, dryRun, userId));
+    }
+
+    const report: KeywordImportReport = {
+      dryRun,
+      totalRows: rows.length,
+      createdCount: this.countRows(rows, KeywordImportAction.CREATED),
+      updatedCount: this.countRows(rows, KeywordImportAction.UPDATED),
+      skippedCount: this.countRows(rows, KeywordImportAction.SKIPPED),
+      failedCount: this.countRows(rows, KeywordImportAction.FAILED),
+      rows,
+    };
+
+    this.logger.log(
+      `关键词导入${dryRun ? '预览' : ''}完成 (${input.fileName}): 新建 ${report.createdCount}，` +
+      `更新 ${report.updatedCount}，跳过 ${report.skippedCount}，失败 ${report.failedCount}`,
+    );
+
+    return report;
+  }
+
+  // ==================== 文件解析 ====================
+
+  /**
+   * 解析 Base64 编码的 CSV/XLSX 文件为按表头索引的行记录
+   */
+  private parseFile(fileName: string, content: string): Array<Record<string, unknown>> {
+    const extension = extname(fileName).toLowerCase();
+
+    if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+      throw new KeywordImportFileException(fileName, `不支持的文件类型: ${extension || '未知'}`);
+    }
+
+    const buffer = Buffer.from(content, 'base64');
+
+    if (buffer.length === 0) {
+      throw new KeywordImportFileException(fileName, '文件内容为空');
+    }
+
+    if (buffer.length > MAX_FILE_SIZE) {
+      throw new KeywordImportFileException(fileName, '文件大小不能超过 5MB', { size: buffer.length });
+    }
+
+    let workbook: XLSX.WorkBook;
+    try {
+      workbook = extension === '.csv'
+        ? XLSX.read(buffer.toString('utf8').replace(/^\uFEFF/, ''), { type: 'string', raw: true })
+        : XLSX.read(buffer, { type: 'buffer' });
+    } catch (error) {
+      throw new KeywordImportFileException(fileName, '文件解析失败', {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const sheetName = workbook.SheetNames[0];
+    const sheet = sheetName ? workbook.Sheets[sheetName] : undefined;
+
+    if (!sheet) {
+      throw new KeywordImportFileException(fileName, '文件中没有工作表');
+    }
+
+    const records = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, {
+      defval: null,
+      raw: true,
+    });
+
+    if (records.length === 0) {
+      throw new KeywordImportFileException(fileName, '文件中没有数据行');
+    }
+
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new KeywordImportFileException(fileName, `单次最多导入 ${MAX_IMPORT_ROWS} 个关键词`, {
+        rowCount: records.length,
+      });
+    }
+
+    return records;
+  }
+
+  /**
+   * 根据显式映射和表头别名确定每个字段对应的列
+   */
+  private resolveColumns(
+    fileName: string,
+    records: Array<Record<string, unknown>>,
+    mapping: KeywordImportColumnMapping = {},
+  ): KeywordImportColumnMapping {
+    const headers = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+    const columns: KeywordImportColumnMapping = {};
+
+    for (const field of Object.keys(COLUMN_ALIASES) as KeywordImportField[]) {
+      const mappedHeader = mapping[field];
+
+      if (mappedHeader) {
+        if (!headers.includes(mappedHeader)) {
+          throw new KeywordImportFileException(fileName, `映射的列不存在: ${mappedHeader}`, { field, headers });
+        }
+        columns[field] = mappedHeader;
+        continue;
+      }
+
+      const detectedHeader = headers.find(header =>
+        COLUMN_ALIASES[field].includes(this.normalizeHeader(header)),
+      );
+      if (detectedHeader) {
+        columns[field] = detectedHeader;
+      }
+    }
+
+    if (!columns.text) {
+      throw new KeywordImportFileException(fileName, '未找到关键词文本列', { headers });
+    }
+
+    return columns;
+  }
+
+  /**
+   * 将一行原始数据转换为关键词字段，收集格式错误
+   */
+  private normalizeRow(
+    record: Record<string, unknown>,
+    columns: KeywordImportColumnMapping,
+  ): { data: KeywordImportRowData; errors: string[] } {
+    const data: KeywordImportRowData = {};
+    const errors: string[] = [];
+    const cell = (field: KeywordImportField): string | null => {
+      const header = columns[field];
+      const value = header ? record[header] : null;
+      if (value === null || value === undefined) {
+        return null;
+      }
+      const text = String(value).trim();
+      return text.length > 0 ? text : null;
+    };
+
+    const text = cell('text');
+    if (text) {
+      data.text = text.replace(/\s+/g, ' ');
+    } else {
+      errors.push('关键词文本不能为空');
+    }
+
+    const searchVolume = this.parseNumber(cell('searchVolume'), 'searchVolume', errors);
+    if (searchVolume !== null) data.searchVolume = Math.round(searchVolume);
+
+    const difficulty = this.parseNumber(cell('difficulty'), 'difficulty', errors);
+    if (difficulty !== null) data.difficulty = difficulty;
+
+    const cpc = this.parseNumber(cell('cpc'), 'cpc', errors);
+    if (cpc !== null) data.cpc = cpc;
+
+    const productLine = this.parseEnum(cell('productLine'), ProductLine, 'productLine', errors);
+    if (productLine !== null) data.productLine = productLine;
+
+    const intentType = this.parseEnum(cell('intentType'), KeywordIntentType, 'intentType', errors);
+    if (intentType !== null) data.intentType = intentType;
+
+    const stage = this.parseEnum(cell('stage'), MarketingFunnelStage, 'stage', errors);
+    if (stage !== null) data.stage = stage;
+
+    return { data, errors };
+  }
+
+  // ==================== 校验与写入 ====================
+
+  /**
+   * 使用 DTO 规则和关键词自定义验证器校验一行数据
+   */
+  private async validateRow(data: KeywordImportRowData): Promise<string[]> {
+    const errors: string[] = [];
+
+    if (data.text && !this.textValidConstraint.validate(data.text)) {
+      errors.push(this.textValidConstraint.defaultMessage());
+    }
+    if (data.searchVolume !== undefined && !this.searchVolumeConstraint.validate(data.searchVolume)) {
+      errors.push(this.searchVolumeConstraint.defaultMessage());
+    }
+    if (data.cpc !== undefined && !this.cpcConstraint.validate(data.cpc)) {
+      errors.push(this.cpcConstraint.defaultMessage());
+    }
+
+    const dto = plainToInstance(CreateKeywordInputDto, data);
+    const validationErrors = await validate(dto);
+    for (const validationError of validationErrors) {
+      errors.push(...Object.values(validationError.constraints ?? {}));
+    }
+
+    return Array.from(new Set(errors));
+  }
+
+  /**
+   * 与数据库去重后创建、更新或跳过一行
+   */
+  private async processRow(
+    rowNumber: number,
+    data: KeywordImportRowData & { text: string },
+    duplicateStrategy: KeywordImportDuplicateStrategy,
+    dryRun: boolean,
+    userId: string,
+  ): Promise<KeywordImportRowResult> {
+    try {
+      const isUnique = await this.textUniqueConstraint.validate(data.text, {
+        value: data.text,
+        constraints: [],
+        targetName: CreateKeywordInputDto.name,
+        object: {},
+        property: 'text',
+      } as ValidationArguments);
+
+      if (isUnique) {
+        if (dryRun) {
+          return this.buildRow(rowNumber, data, KeywordImportAction.CREATED, null, []);
+        }
+
+        const keyword = await this.keywordService.createKeyword({ ...data, source: KeywordSource.IMPORT }, userId);
+        return this.buildRow(rowNumber, data, KeywordImportAction.CREATED, keyword.id, []);
+      }
+
+      const existingKeyword = await this.prisma.keyword.findFirst({
+        where: {
+          text: {
+            equals: data.text,
+            mode: 'insensitive',
+          },
+        },
+        select: { id: true },
+      });
+
+      if (!existingKeyword || duplicateStrategy === KeywordImportDuplicateStrategy.SKIP) {
+        return this.buildRow(
+          rowNumber,
+          data,
+          KeywordImportAction.SKIPPED,
+          existingKeyword?.id ?? null,
+          [this.textUniqueConstraint.defaultMessage({ value: data.text } as ValidationArguments)],
+        );
+      }
+
+      if (!dryRun) {
+        const { text: _text, ...updates } = data;
+        await this.keywordService.updateKeyword({ id: existingKeyword.id, ...updates }, userId);
+      }
+
+      return this.buildRow(rowNumber, data, KeywordImportAction.UPDATED, existingKeyword.id, []);
+    } catch (error) {
+      this.logger.warn(`导入第 ${rowNumber} 行失败: ${error instanceof Error ? error.message : error}`);
+      return this.buildRow(rowNumber, data, KeywordImportAction.FAILED, null, [
+        error instanceof Error ? error.message : '写入关键词时发生错误',
+      ]);
+    }
+  }
+
+  // ==================== 私有辅助方法 ====================
+
+  private buildRow(
+    rowNumber: number,
+    data: KeywordImportRowData,
+    action: KeywordImportAction,
+    keywordId: string | null,
+    errors: string[],
+  ): KeywordImportRowResult {
+    return {
+      rowNumber,
+      text: data.text ?? null,
+      action,
+      keywordId,
+      errors,
+      data,
+    };
+  }
+
+  private countRows(rows: KeywordImportRowResult[], action: KeywordImportAction): number {
+    return rows.filter(row => row.action === action).length;
+  }
+
+  /**
+   * 计算行在原文件中的行号（表头为第 1 行）
+   */
+  private getRowNumber(record: Record<string, unknown>, index: number): number {
+    const sheetRow = record['__rowNum__'];
+    return (typeof sheetRow === 'number' ? sheetRow : index + 1) + 1;
+  }
+
+  private normalizeHeader(header: string): string {
+    return header.trim().toLowerCase().replace(/[\s_\-()（）]/g, '');
+  }
+
+  private parseNumber(value: string | null, field: KeywordImportField, errors: string[]): number | null {
+    if (value === null) {
+      return null;
+    }
+
+    const parsed = Number(value.replace(/[,$%\s]/g, ''));
+    if (!Number.isFinite(parsed)) {
+      errors.push(`${field} 不是有效数字: ${value}`);
+      return null;
+    }
+
+    return parsed;
+  }
+
+  private parseEnum<T extends string>(
+    value: string | null,
+    enumObject: Record<string, T>,
+    field: KeywordImportField,
+    errors: string[],
+  ): T | null {
+    if (value === null) {
+      return null;
+    }
+
+    const match = Object.values(enumObject).find(option => option.toLowerCase() === value.toLowerCase());
+    if (!match) {
+      errors.push(`${field} 包含无效值: ${value}（可选值: ${Object.values(enumObject).join(', ')}）`);
+      return null;
+    }
+
+    return match;
+  }
+}
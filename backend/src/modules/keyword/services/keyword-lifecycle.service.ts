@@ -0,0 +1,327 @@
+/**
+ * 关键词生命周期服务
+ *
+ * @description 关键词状态按 proposed → researching → approved → in_content → published → monitoring → retired 流转，
+ *              每次流转校验允许的路径和操作人权限并写入状态历史，用于追溯审批记录和统计周期时长
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Keyword as PrismaKeyword, Prisma } from '@prisma/client';
+import { PrismaService } from '@/common/prisma.service';
+import { PERMISSIONS } from '@/common/permissions';
+import {
+  InvalidKeywordStatusTransitionException,
+  KeywordBusinessLogicException,
+  KeywordNotFoundException,
+  KeywordPermissionDeniedException,
+  KeywordValidationException,
+} from '../exceptions/keyword.exceptions';
+import {
+  BulkKeywordStatusTransitionInput,
+  BulkOperationResult,
+  KeywordCycleTimeInput,
+  KeywordCycleTimeReport,
+  KeywordMilestoneCycleTime,
+  KeywordStatus,
+  KeywordStatusDuration,
+  KeywordStatusHistoryWithUser,
+  KeywordStatusTransitionInput,
+  KeywordStatusTransitionRule,
+} from '../types/keyword.types';
+
+const TRANSITION = PERMISSIONS.KEYWORD_TRANSITION;
+const CONTENT = PERMISSIONS.CONTENT_WRITE;
+const APPROVE = PERMISSIONS.KEYWORD_MANAGE;
+
+/**
+ * 允许的状态流转：调研和监测只需流转权限，内容阶段需内容编辑权限，批准和退役需关键词管理权限，
+ * 退回和退役需填写原因
+ */
+export const KEYWORD_STATUS_TRANSITIONS: ReadonlyArray<KeywordStatusTransitionRule> = [
+  { from: KeywordStatus.PROPOSED, to: KeywordStatus.RESEARCHING, permission: TRANSITION, reasonRequired: false },
+  { from: KeywordStatus.PROPOSED, to: KeywordStatus.RETIRED, permission: APPROVE, reasonRequired: true },
+  { from: KeywordStatus.RESEARCHING, to: KeywordStatus.APPROVED, permission: APPROVE, reasonRequired: false },
+  { from: KeywordStatus.RESEARCHING, to: KeywordStatus.PROPOSED, permission: TRANSITION, reasonRequired: true },
+  { from: KeywordStatus.RESEARCHING, to: KeywordStatus.RETIRED, permission: APPROVE, reasonRequired: true },
+  { from: KeywordStatus.APPROVED, to: KeywordStatus.IN_CONTENT, permission: CONTENT, reasonRequired: false },
+  { from: KeywordStatus.APPROVED, to: KeywordStatus.RESEARCHING, permission: APPROVE, reasonRequired: true },
+  { from: KeywordStatus.APPROVED, to: KeywordStatus.RETIRED, permission: APPROVE, reasonRequired: true },
+  { from: KeywordStatus.IN_CONTENT, to: KeywordStatus.PUBLISHED, permission: CONTENT, reasonRequired: false },
+  { from: KeywordStatus.IN_CONTENT, to: KeywordStatus.APPROVED, permission: CONTENT, reasonRequired: true },
+  { from: KeywordStatus.IN_CONTENT, to: KeywordStatus.RETIRED, permission: APPROVE, reasonRequired: true },
+  { from: KeywordStatus.PUBLISHED, to: KeywordStatus.MONITORING, permission: TRANSITION, reasonRequired: false },
+  { from: KeywordStatus.PUBLISHED, to: KeywordStatus.IN_CONTENT, permission: CONTENT, reasonRequired: true },
+  { from: KeywordStatus.PUBLISHED, to: KeywordStatus.RETIRED, permission: APPROVE, reasonRequired: true },
+  { from: KeywordStatus.MONITORING, to: KeywordStatus.IN_CONTENT, permission: CONTENT, reasonRequired: true },
+  { from: KeywordStatus.MONITORING, to: KeywordStatus.RETIRED, permission: APPROVE, reasonRequired: true },
+  { from: KeywordStatus.RETIRED, to: KeywordStatus.PROPOSED, permission: APPROVE, reasonRequired: true },
+];
+
+/**
+ * 周期时长报告中的里程碑（首次进入 from 到首次进入 to）
+ */
+const CYCLE_TIME_MILESTONES: ReadonlyArray<readonly [KeywordStatus, KeywordStatus]> = [
+  [KeywordStatus.PROPOSED, KeywordStatus.APPROVED],
+  [KeywordStatus.APPROVED, KeywordStatus.PUBLISHED],
+  [KeywordStatus.PROPOSED, KeywordStatus.PUBLISHED],
+];
+
+const DEFAULT_CYCLE_TIME_WINDOW_DAYS = 90;
+const REASON_MAX_LENGTH = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_ORDER = Object.values(KeywordStatus);
+
+/**
+ * 时长分布统计行
+ */
+interface DurationStatsRow {
+  readonly count: number;
+  readonly averageDays: number | null;
+  readonly medianDays: number | null;
+  readonly p90Days: number | null;
+}
+
+/**
+ * 关键词生命周期服务
+ */
+@Injectable()
+export class KeywordLifecycleService {
+  private readonly logger = new Logger(KeywordLifecycleService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==================== 状态流转 ====================
+
+  /**
+   * 流转规则表
+   */
+  getTransitionRules(): ReadonlyArray<KeywordStatusTransitionRule> {
+    return KEYWORD_STATUS_TRANSITIONS;
+  }
+
+  /**
+   * 流转单个关键词状态，permissions 为操作人当前生效的权限（RolesGuard 写入，已按 API 令牌收窄）
+   */
+  async transitionStatus(
+    input: KeywordStatusTransitionInput,
+    userId: string,
+    permissions: ReadonlyArray<string>,
+  ): Promise<PrismaKeyword> {
+    const keyword = await this.prisma.keyword.findUnique({
+      where: { id: input.keywordId },
+      select: { id: true, status: true },
+    });
+    if (!keyword) {
+      throw new KeywordNotFoundException(input.keywordId);
+    }
+
+    return this.applyTransition(keyword, input.toStatus, input.reason, userId, permissions);
+  }
+
+  /**
+   * 批量流转关键词状态，逐个校验，不满足条件的关键词记录为错误
+   */
+  async bulkTransitionStatus(
+    input: BulkKeywordStatusTransitionInput,
+    userId: string,
+    permissions: ReadonlyArray<string>,
+  ): Promise<BulkOperationResult> {
+    const keywords = await this.prisma.keyword.findMany({
+      where: { id: { in: [...input.keywordIds] } },
+      select: { id: true, status: true },
+    });
+    const keywordsById = new Map(keywords.map(keyword => [keyword.id, keyword]));
+
+    const errors: Array<{ keywordId: string; error: string }> = [];
+    let updatedCount = 0;
+
+    for (const keywordId of input.keywordIds) {
+      const keyword = keywordsById.get(keywordId);
+      if (!keyword) {
+        errors.push({ keywordId, error: '关键词不存在' });
+        continue;
+      }
+
+      try {
+        await this.applyTransition(keyword, input.toStatus, input.reason, userId, permissions);
+        updatedCount++;
+      } catch (error) {
+        errors.push({ keywordId, error: error.message });
+      }
+    }
+
+    this.logger.log(`批量状态流转完成: ${updatedCount}/${input.keywordIds.length} 个关键词流转到 ${input.toStatus}`);
+    return { success: errors.length === 0, updatedCount, errors };
+  }
+
+  // ==================== 历史与统计 ====================
+
+  /**
+   * 关键词状态历史（按时间升序）
+   */
+  async getStatusHistory(keywordId: string): Promise<KeywordStatusHistoryWithUser[]> {
+    return this.prisma.keywordStatusHistory.findMany({
+      where: { keywordId },
+      include: { user: { select: { id: true, username: true, fullName: true } } },
+      orderBy: { changedAt: 'asc' },
+    });
+  }
+
+  /**
+   * 周期时长报告：各状态停留时长，以及主要里程碑之间的耗时
+   */
+  async getCycleTimes(input: KeywordCycleTimeInput = {}): Promise<KeywordCycleTimeReport> {
+    const to = input.to ?? new Date();
+    const from = input.from ?? new Date(to.getTime() - DEFAULT_CYCLE_TIME_WINDOW_DAYS * DAY_MS);
+    if (from >= to) {
+      throw new KeywordValidationException([{ field: 'from', message: '开始时间必须早于结束时间' }]);
+    }
+
+    const productLineFilter = input.productLine
+      ? Prisma.sql`AND k.product_line = ${input.productLine}`
+      : Prisma.empty;
+
+    const [statusDurations, milestones] = await Promise.all([
+      this.getStatusDurations(from, to, productLineFilter),
+      Promise.all(CYCLE_TIME_MILESTONES.map(([fromStatus, toStatus]) =>
+        this.getMilestoneCycleTime(fromStatus, toStatus, from, to, productLineFilter),
+      )),
+    ]);
+
+    return {
+      from,
+      to,
+      productLine: input.productLine ?? null,
+      statusDurations,
+      milestones,
+    };
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 校验并执行流转：条件更新当前状态，防止并发流转覆盖，同时写入历史
+   */
+  private async applyTransition(
+    keyword: { id: string; status: string },
+    toStatus: KeywordStatus,
+    reason: string | null | undefined,
+    userId: string,
+    permissions: ReadonlyArray<string>,
+  ): Promise<PrismaKeyword> {
+    const fromStatus = keyword.status as KeywordStatus;
+    const rule = KEYWORD_STATUS_TRANSITIONS.find(item => item.from === fromStatus && item.to === toStatus);
+    if (!rule) {
+      throw new InvalidKeywordStatusTransitionException(keyword.id, fromStatus, toStatus);
+    }
+    if (!permissions.includes(rule.permission)) {
+      throw new KeywordPermissionDeniedException(`${fromStatus} → ${toStatus}`, userId, {
+        keywordId: keyword.id,
+        requiredPermission: rule.permission,
+      });
+    }
+
+    const trimmedReason = reason?.trim() || null;
+    if (rule.reasonRequired && !trimmedReason) {
+      throw new KeywordValidationException([{ field: 'reason', message: '退回或退役关键词需填写原因' }]);
+    }
+    if (trimmedReason && trimmedReason.length > REASON_MAX_LENGTH) {
+      throw new KeywordValidationException([{ field: 'reason', message: `原因不能超过 ${REASON_MAX_LENGTH} 个字符` }]);
+    }
+
+    const updated = await this.prisma.$transaction(async tx => {
+      const { count } = await tx.keyword.updateMany({
+        where: { id: keyword.id, status: fromStatus },
+        data: { status: toStatus },
+      });
+      if (count === 0) {
+        throw new KeywordBusinessLogicException(`关键词状态已变更，请刷新后重试: ${keyword.id}`, {
+          keywordId: keyword.id,
+          expectedStatus: fromStatus,
+        });
+      }
+
+      await tx.keywordStatusHistory.create({
+        data: { keywordId: keyword.id, fromStatus, toStatus, reason: trimmedReason, changedBy: userId },
+      });
+      return tx.keyword.findUniqueOrThrow({ where: { id: keyword.id } });
+    });
+
+    this.logger.log(`关键词状态流转: ${updated.text} (ID: ${updated.id}) ${fromStatus} → ${toStatus}`);
+    return updated;
+  }
+
+  /**
+   * 各状态停留时长：区间内离开该状态的记录，停留时长为进入到下一次流转的间隔
+   */
+  private async getStatusDurations(from: Date, to: Date, productLineFilter: Prisma.Sql): Promise<KeywordStatusDuration[]> {
+    const rows = await this.prisma.$queryRaw<Array<DurationStatsRow & { status: string }>>`
+      SELECT status, COUNT(*)::int AS count,
+        AVG(days)::float AS "averageDays",
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY days)::float AS "medianDays",
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY days)::float AS "p90Days"
+      FROM (
+        SELECT h.to_status AS status,
+          LEAD(h.changed_at) OVER (PARTITION BY h.keyword_id ORDER BY h.changed_at) AS left_at,
+          EXTRACT(EPOCH FROM (LEAD(h.changed_at) OVER (PARTITION BY h.keyword_id ORDER BY h.changed_at) - h.changed_at)) / 86400 AS days
+        FROM keyword_status_history h
+        JOIN keywords k ON k.id = h.keyword_id
+        WHERE TRUE ${productLineFilter}
+      ) stays
+      WHERE left_at >= ${from} AND left_at < ${to}
+      GROUP BY status
+    `;
+
+    return rows
+      .map(row => ({ status: row.status as KeywordStatus, ...this.toDurationStats(row) }))
+      .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+  }
+
+  /**
+   * 里程碑耗时：区间内首次进入 toStatus 的关键词，自首次进入 fromStatus 起计算
+   */
+  private async getMilestoneCycleTime(
+    fromStatus: KeywordStatus,
+    toStatus: KeywordStatus,
+    from: Date,
+    to: Date,
+    productLineFilter: Prisma.Sql,
+  ): Promise<KeywordMilestoneCycleTime> {
+    const [row] = await this.prisma.$queryRaw<DurationStatsRow[]>`
+      SELECT COUNT(*)::int AS count,
+        AVG(days)::float AS "averageDays",
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY days)::float AS "medianDays",
+        percentile_cont(0.9) WITHIN GROUP (ORDER BY days)::float AS "p90Days"
+      FROM (
+        SELECT MIN(h.changed_at) FILTER (WHERE h.to_status = ${toStatus}) AS reached_at,
+          EXTRACT(EPOCH FROM (
+            MIN(h.changed_at) FILTER (WHERE h.to_status = ${toStatus})
+            - MIN(h.changed_at) FILTER (WHERE h.to_status = ${fromStatus})
+          )) / 86400 AS days
+        FROM keyword_status_history h
+        JOIN keywords k ON k.id = h.keyword_id
+        WHERE TRUE ${productLineFilter}
+        GROUP BY h.keyword_id
+      ) cycles
+      WHERE days >= 0 AND reached_at >= ${from} AND reached_at < ${to}
+    `;
+
+    return { fromStatus, toStatus, ...this.toDurationStats(row) };
+  }
+
+  private toDurationStats(row: DurationStatsRow | undefined): Omit<KeywordStatusDuration, 'status'> {
+    return {
+      count: row?.count ?? 0,
+      averageDays: this.roundDays(row?.averageDays),
+      medianDays: this.roundDays(row?.medianDays),
+      p90Days: this.roundDays(row?.p90Days),
+    };
+  }
+
+  private roundDays(days: number | null | undefined): number {
+    return Math.round((days ?? 0) * 10) / 10;
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * 关键词保存视图服务
+ *
+ * @description 保存关键词表格的筛选、排序和显示列，支持团队共享和按角色设置默认视图
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '@/common/prisma.service';
+import {
+  KeywordBusinessLogicException,
+  KeywordPermissionDeniedException,
+  KeywordSavedViewNotFoundException,
+  KeywordValidationException,
+} from '../exceptions/keyword.exceptions';
+import {
+  CreateKeywordSavedViewInput,
+  KeywordSavedView,
+  KeywordSavedViewSort,
+  UpdateKeywordSavedViewInput,
+} from '../types/keyword.types';
+
+/** 可设置角色默认视图、管理他人共享视图的角色 */
+const VIEW_ADMIN_ROLES = ['admin', 'manager'];
+
+const NAME_MAX_LENGTH = 100;
+const MAX_VISIBLE_COLUMNS = 50;
+
+const OWNER_SELECT = { select: { id: true, username: true, fullName: true } } as const;
+
+type SavedViewRecord = Prisma.KeywordSavedViewGetPayload<{ include: { owner: typeof OWNER_SELECT } }>;
+
+/**
+ * 关键词保存视图服务
+ */
+@Injectable()
+export class KeywordSavedViewService {
+  private readonly logger = new Logger(KeywordSavedViewService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==================== 查询 ====================
+
+  /**
+   * 当前用户可见的视图：自己的视图和团队共享视图
+   */
+  async listViews(userId: string): Promise<KeywordSavedView[]> {
+    const views = await this.prisma.keywordSavedView.findMany({
+      where: { OR: [{ ownerId: userId }, { isShared: true }] },
+      include: { owner: OWNER_SELECT },
+      orderBy: [{ name: 'asc' }, { createdAt: 'asc' }],
+    });
+    return views.map(view => this.toSavedView(view));
+  }
+
+  /**
+   * 当前用户角色的默认视图，多个视图时取最近更新的一个
+   */
+  async getDefaultView(userId: string): Promise<KeywordSavedView | null> {
+    const roleName = await this.getRoleName(userId);
+    if (!roleName) {
+      return null;
+    }
+
+    const view = await this.prisma.keywordSavedView.findFirst({
+      where: { defaultForRoles: { has: roleName } },
+      include: { owner: OWNER_SELECT },
+      orderBy: { updatedAt: 'desc' },
+    });
+    return view ? this.toSavedView(view) : null;
+  }
+
+  // ==================== 维护 ====================
+
+  /**
+   * 创建视图；设置角色默认视图需管理角色，默认视图自动共享
+   */
+  async createView(input: CreateKeywordSavedViewInput, userId: string): Promise<KeywordSavedView> {
+    const name = this.validateName(input.name);
+    const defaultForRoles = await this.validateDefaultForRoles(input.defaultForRoles ?? [], userId);
+    await this.ensureNameAvailable(userId, name);
+
+    const view = await this.prisma.keywordSavedView.create({
+      data: {
+        name,
+        filter: this.validateFilter(input.filter ?? {}),
+        sort: this.toSortJson(input.sort),
+        visibleColumns: this.validateVisibleColumns(input.visibleColumns ?? []),
+        ownerId: userId,
+        isShared: (input.isShared ?? false) || defaultForRoles.length > 0,
+        defaultForRoles,
+      },
+      include: { owner: OWNER_SELECT },
+    });
+
+    this.logger.log(`创建保存视图: ${view.name} (ID: ${view.id})`);
+    return this.toSavedView(view);
+  }
+
+  /**
+   * 更新视图；仅所有者可修改，管理角色可修改共享视图
+   */
+  async updateView(input: UpdateKeywordSavedViewInput, userId: string): Promise<KeywordSavedView> {
+    const existing = await this.findEditableView(input.id, userId, 'updateKeywordSavedView');
+
+    const name = input.name !== undefined ? this.validateName(input.name) : existing.name;
+    if (name !== existing.name) {
+      await this.ensureNameAvailable(existing.ownerId, name);
+    }
+    const defaultForRoles = input.defaultForRoles !== undefined
+      ? await this.validateDefaultForRoles(input.defaultForRoles, userId)
+      : existing.defaultForRoles;
+    const isShared = (input.isShared ?? existing.isShared) || defaultForRoles.length > 0;
+
+    const view = await this.prisma.keywordSavedView.update({
+      where: { id: existing.id },
+      data: {
+        name,
+        ...(input.filter !== undefined && { filter: this.validateFilter(input.filter) }),
+        ...(input.sort !== undefined && { sort: this.toSortJson(input.sort) }),
+        ...(input.visibleColumns !== undefined && { visibleColumns: this.validateVisibleColumns(input.visibleColumns) }),
+        isShared,
+        defaultForRoles,
+      },
+      include: { owner: OWNER_SELECT },
+    });
+
+    this.logger.log(`更新保存视图: ${view.name} (ID: ${view.id})`);
+    return this.toSavedView(view);
+  }
+
+  /**
+   * 删除视图；仅所有者可删除，管理角色可删除共享视图
+   */
+  async deleteView(id: string, userId: string): Promise<boolean> {
+    const existing = await this.findEditableView(id, userId, 'deleteKeywordSavedView');
+    await this.prisma.keywordSavedView.delete({ where: { id: existing.id } });
+
+    this.logger.log(`删除保存视图: ${existing.name} (ID: ${existing.id})`);
+    return true;
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 他人未共享的视图视为不存在
+   */
+  private async findEditableView(id: string, userId: string, action: string) {
+    const view = await this.prisma.keywordSavedView.findUnique({ where: { id } });
+    if (!view || (view.ownerId !== userId && !view.isShared)) {
+      throw new KeywordSavedViewNotFoundException(id);
+    }
+
+    if (view.ownerId !== userId) {
+      const roleName = await this.getRoleName(userId);
+      if (!roleName || !VIEW_ADMIN_ROLES.includes(roleName)) {
+        throw new KeywordPermissionDeniedException(action, userId, { viewId: id });
+      }
+    }
+
+    return view;
+  }
+
+  private async ensureNameAvailable(ownerId: string, name: string): Promise<void> {
+    const duplicate = await this.prisma.keywordSavedView.findUnique({
+      where: { ownerId_name: { ownerId, name } },
+      select: { id: true },
+    });
+    if (duplicate) {
+      throw new KeywordBusinessLogicException(`视图名称已存在: ${name}`, { name, existingViewId: duplicate.id });
+    }
+  }
+
+  private validateName(name: string): string {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed.length > NAME_MAX_LENGTH) {
+      throw new KeywordValidationException([
+        { field: 'name', message: `视图名称长度必须在 1-${NAME_MAX_LENGTH} 个字符之间` },
+      ]);
+    }
+    return trimmed;
+  }
+
+  private validateFilter(filter: Readonly<Record<string, unknown>>): Prisma.InputJsonObject {
+    if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+      throw new KeywordValidationException([{ field: 'filter', message: '筛选条件必须是 JSON 对象' }]);
+    }
+    return filter as Prisma.InputJsonObject;
+  }
+
+  private validateVisibleColumns(columns: ReadonlyArray<string>): string[] {
+    const unique = [...new Set(columns.map(column => column.trim()).filter(Boolean))];
+    if (unique.length > MAX_VISIBLE_COLUMNS) {
+      throw new KeywordValidationException([
+        { field: 'visibleColumns', message: `显示列不能超过 ${MAX_VISIBLE_COLUMNS} 个` },
+      ]);
+    }
+    return unique;
+  }
+
+  /**
+   * 默认角色必须是已存在的角色，且仅管理角色可设置
+   */
+  private async validateDefaultForRoles(roles: ReadonlyArray<string>, userId: string): Promise<string[]> {
+    const unique = [...new Set(roles)];
+    if (unique.length === 0) {
+      return [];
+    }
+
+    const roleName = await this.getRoleName(userId);
+    if (!roleName || !VIEW_ADMIN_ROLES.includes(roleName)) {
+      throw new KeywordPermissionDeniedException('setDefaultKeywordSavedView', userId, { roles: unique });
+    }
+
+    const existing = await this.prisma.role.findMany({
+      where: { name: { in: unique } },
+      select: { name: true },
+    });
+    const existingNames = new Set(existing.map(role => role.name));
+    const unknown = unique.filter(role => !existingNames.has(role));
+    if (unknown.length > 0) {
+      throw new KeywordValidationException([
+        { field: 'defaultForRoles', message: `角色不存在: ${unknown.join(', ')}` },
+      ]);
+    }
+
+    return unique;
+  }
+
+  private toSortJson(sort: KeywordSavedViewSort | null | undefined): Prisma.InputJsonObject | typeof Prisma.DbNull {
+    if (!sort) {
+      return Prisma.DbNull;
+    }
+    if (!sort.field || !['asc', 'desc'].includes(sort.direction)) {
+      throw new KeywordValidationException([{ field: 'sort', message: '排序方向必须是 asc 或 desc' }]);
+    }
+    return { field: sort.field, direction: sort.direction };
+  }
+
+  private async getRoleName(userId: string): Promise<string | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: { select: { name: true } } },
+    });
+    return user?.role.name ?? null;
+  }
+
+  private toSavedView(view: SavedViewRecord): KeywordSavedView {
+    return {
+      id: view.id,
+      name: view.name,
+      filter: (view.filter ?? {}) as Record<string, unknown>,
+      sort: (view.sort as unknown as KeywordSavedViewSort | null) ?? null,
+      visibleColumns: view.visibleColumns,
+      ownerId: view.ownerId,
+      isShared: view.isShared,
+      defaultForRoles: view.defaultForRoles,
+      createdAt: view.createdAt,
+      updatedAt: view.updatedAt,
+      owner: view.owner,
+    };
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * 关键词优先级评分服务
+ *
+ * @description 综合搜索量、难度、CPC、AIO 适配性、搜索意图和当前排名计算加权得分，并按阈值映射为 P0-P4。
+ *              权重和阈值按产品线存储在数据库中，未配置的产品线使用默认配置
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '@/common/prisma.service';
+import { AIOAdaptabilityService } from '@/services/aio-adaptability.service';
+import {
+  KeywordBusinessLogicException,
+  KeywordValidationException,
+} from '../exceptions/keyword.exceptions';
+import {
+  KeywordIntentType,
+  KeywordPriorityLevel,
+  KeywordPriorityScore,
+  KeywordRegradeInput,
+  KeywordRegradeReport,
+  KeywordScoringConfig,
+  KeywordScoringConfigInput,
+  KeywordScoringFactor,
+  KeywordScoringWeights,
+  KeywordStatus,
+  KeywordTierThresholds,
+  MarketingFunnelStage,
+  ProductLine,
+} from '../types/keyword.types';
+
+/**
+ * 默认配置的产品线标识
+ */
+export const DEFAULT_SCORING_PRODUCT_LINE = 'default';
+
+/**
+ * 内置默认权重
+ */
+const DEFAULT_WEIGHTS: KeywordScoringWeights = {
+  [KeywordScoringFactor.SEARCH_VOLUME]: 0.3,
+  [KeywordScoringFactor.DIFFICULTY]: 0.1,
+  [KeywordScoringFactor.CPC]: 0.1,
+  [KeywordScoringFactor.AIO_SCORE]: 0.2,
+  [KeywordScoringFactor.INTENT]: 0.15,
+  [KeywordScoringFactor.RANKING]: 0.15,
+};
+
+/**
+ * 内置默认阈值
+ */
+const DEFAULT_THRESHOLDS: KeywordTierThresholds = {
+  [KeywordPriorityLevel.P0]: 75,
+  [KeywordPriorityLevel.P1]: 60,
+  [KeywordPriorityLevel.P2]: 45,
+  [KeywordPriorityLevel.P3]: 30,
+};
+
+/**
+ * 按阈值从高到低判定的级别
+ */
+const THRESHOLD_LEVELS = [
+  KeywordPriorityLevel.P0,
+  KeywordPriorityLevel.P1,
+  KeywordPriorityLevel.P2,
+  KeywordPriorityLevel.P3,
+] as const;
+
+const LEVEL_ORDER = Object.values(KeywordPriorityLevel);
+
+/**
+ * 搜索量达到该值记满分（对数刻度）
+ */
+const VOLUME_CAP = 100000;
+
+/**
+ * CPC 达到该值（美元）记满分
+ */
+const CPC_CAP = 10;
+
+/**
+ * 缺失数据时的中性分
+ */
+const NEUTRAL_SCORE = 50;
+
+const INTENT_SCORES: Record<KeywordIntentType, number> = {
+  [KeywordIntentType.TRANSACTIONAL]: 100,
+  [KeywordIntentType.COMMERCIAL]: 85,
+  [KeywordIntentType.INFORMATIONAL]: 60,
+  [KeywordIntentType.NAVIGATIONAL]: 30,
+};
+
+const STAGE_SCORES: Record<MarketingFunnelStage, number> = {
+  [MarketingFunnelStage.BOFU]: 100,
+  [MarketingFunnelStage.MOFU]: 75,
+  [MarketingFunnelStage.TOFU]: 50,
+};
+
+/**
+ * 重新评级报告中返回的变化明细上限
+ */
+const MAX_REPORTED_CHANGES = 200;
+
+/**
+ * 参与评分的关键词数据
+ */
+type ScoringKeyword = Prisma.KeywordGetPayload<{
+  select: typeof SCORING_KEYWORD_SELECT;
+}>;
+
+const SCORING_KEYWORD_SELECT = {
+  id: true,
+  text: true,
+  searchVolume: true,
+  difficulty: true,
+  cpc: true,
+  intentType: true,
+  stage: true,
+  productLine: true,
+  priorityLevel: true,
+  metrics: {
+    orderBy: { metricDate: 'desc' },
+    take: 1,
+    select: { googlePosition: true, aioDisplayed: true, topCompetitors: true },
+  },
+} satisfies Prisma.KeywordSelect;
+
+/**
+ * 关键词优先级评分服务
+ */
+@Injectable()
+export class KeywordScoringService {
+  private readonly logger = new Logger(KeywordScoringService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==================== 评分配置 ====================
+
+  /**
+   * 获取全部评分配置（默认配置始终在首位）
+   */
+  async getScoringConfigs(): Promise<KeywordScoringConfig[]> {
+    const rows = await this.prisma.keywordScoringConfig.findMany({ orderBy: { productLine: 'asc' } });
+    const configs = rows.map(row => this.toScoringConfig(row));
+    const defaultConfig = configs.find(config => config.productLine === DEFAULT_SCORING_PRODUCT_LINE)
+      ?? this.builtInConfig();
+
+    return [defaultConfig, ...configs.filter(config => config.productLine !== DEFAULT_SCORING_PRODUCT_LINE)];
+  }
+
+  /**
+   * 获取产品线生效的评分配置：产品线配置 -> 默认配置 -> 内置默认值
+   */
+  async getScoringConfig(productLine?: string | null): Promise<KeywordScoringConfig> {
+    const configs = await this.getScoringConfigs();
+    return this.pickConfig(configs, productLine);
+  }
+
+  /**
+   * 保存评分配置，未提供的权重和阈值沿用当前生效值
+   */
+  async saveScoringConfig(input: KeywordScoringConfigInput, userId: string): Promise<KeywordScoringConfig> {
+    const productLine = input.productLine || DEFAULT_SCORING_PRODUCT_LINE;
+    if (productLine !== DEFAULT_SCORING_PRODUCT_LINE && !Object.values(ProductLine).includes(productLine as ProductLine)) {
+      throw new KeywordValidationException([{ field: 'productLine', message: `无效的产品线: ${productLine}` }]);
+    }
+
+    const current = await this.getScoringConfig(productLine);
+    const weights = { ...current.weights, ...input.weights };
+    const thresholds = { ...current.thresholds, ...input.thresholds };
+    this.validateConfig(weights, thresholds);
+
+    const row = await this.prisma.keywordScoringConfig.upsert({
+      where: { productLine },
+      create: { productLine, weights, thresholds, updatedBy: userId },
+      update: { weights, thresholds, updatedBy: userId },
+    });
+
+    this.logger.log(`评分配置已保存: ${productLine}`);
+    return this.toScoringConfig(row);
+  }
+
+  /**
+   * 删除产品线评分配置，删除后该产品线回退到默认配置；删除默认配置则回退到内置默认值
+   */
+  async deleteScoringConfig(productLine: string): Promise<boolean> {
+    const { count } = await this.prisma.keywordScoringConfig.deleteMany({ where: { productLine } });
+    return count > 0;
+  }
+
+  // ==================== 评分与评级 ====================
+
+  /**
+   * 计算单个关键词的得分和建议级别
+   */
+  scoreKeyword(keyword: ScoringKeyword, config: Pick<KeywordScoringConfig, 'weights' | 'thresholds'>): KeywordPriorityScore {
+    const latestMetric = keyword.metrics[0];
+    const competitors = latestMetric?.topCompetitors;
+
+    const factors: KeywordScoringWeights = {
+      [KeywordScoringFactor.SEARCH_VOLUME]: keyword.searchVolume !== null
+        ? Math.min(100, (Math.log10(keyword.searchVolume + 1) / Math.log10(VOLUME_CAP + 1)) * 100)
+        : NEUTRAL_SCORE,
+      [KeywordScoringFactor.DIFFICULTY]: keyword.difficulty !== null
+        ? 100 - Math.min(100, Math.max(0, keyword.difficulty.toNumber()))
+        : NEUTRAL_SCORE,
+      [KeywordScoringFactor.CPC]: keyword.cpc !== null
+        ? Math.min(100, (keyword.cpc.toNumber() / CPC_CAP) * 100)
+        : NEUTRAL_SCORE,
+      [KeywordScoringFactor.AIO_SCORE]: AIOAdaptabilityService.calculateAIOScore(
+        keyword.text,
+        latestMetric
+          ? { hasAIO: latestMetric.aioDisplayed, topCompetitorsCoverage: Array.isArray(competitors) && competitors.length > 0 }
+          : undefined,
+      ).score,
+      [KeywordScoringFactor.INTENT]: this.scoreIntent(keyword.intentType, keyword.stage),
+      [KeywordScoringFactor.RANKING]: latestMetric ? this.scoreRanking(latestMetric.googlePosition) : NEUTRAL_SCORE,
+    };
+
+    const totalWeight = Object.values(config.weights).reduce((sum, weight) => sum + weight, 0);
+    const score = Object.values(KeywordScoringFactor)
+      .reduce((sum, factor) => sum + factors[factor] * config.weights[factor], 0) / totalWeight;
+
+    return {
+      keywordId: keyword.id,
+      text: keyword.text,
+      productLine: keyword.productLine,
+      score: this.round(score),
+      factors: Object.fromEntries(
+        Object.entries(factors).map(([factor, value]) => [factor, this.round(value)]),
+      ) as KeywordScoringWeights,
+      currentLevel: keyword.priorityLevel,
+      suggestedLevel: THRESHOLD_LEVELS.find(level => score >= config.thresholds[level]) ?? KeywordPriorityLevel.P4,
+    };
+  }
+
+  /**
+   * 按当前评分配置重新评级，dryRun 时仅返回变化预览
+   */
+  async regradeKeywords(input: KeywordRegradeInput, userId?: string): Promise<KeywordRegradeReport> {
+    const dryRun = input.dryRun ?? false;
+    const hasOverrides = Boolean(input.weights || input.thresholds);
+    if (hasOverrides && !dryRun) {
+      throw new KeywordBusinessLogicException('临时权重和阈值仅可用于预览，请先保存评分配置');
+    }
+
+    const [configs, keywords] = await Promise.all([
+      this.getScoringConfigs(),
+      this.prisma.keyword.findMany({
+        where: {
+          ...(input.keywordIds ? { id: { in: [...input.keywordIds] } } : { status: { not: KeywordStatus.RETIRED } }),
+          ...(input.productLine && { productLine: input.productLine }),
+        },
+        select: SCORING_KEYWORD_SELECT,
+      }),
+    ]);
+
+    const scores = keywords.map(keyword => {
+      const config = this.pickConfig(configs, keyword.productLine);
+      const weights = { ...config.weights, ...input.weights };
+      const thresholds = { ...config.thresholds, ...input.thresholds };
+      if (hasOverrides) {
+        this.validateConfig(weights, thresholds);
+      }
+      return this.scoreKeyword(keyword, { weights, thresholds });
+    });
+
+    const changes = scores.filter(score => score.currentLevel !== score.suggestedLevel);
+
+    if (!dryRun && changes.length > 0) {
+      const idsByLevel = new Map<KeywordPriorityLevel, string[]>();
+      for (const change of changes) {
+        idsByLevel.set(change.suggestedLevel, [...(idsByLevel.get(change.suggestedLevel) ?? []), change.keywordId]);
+      }
+
+      await this.prisma.$transaction(
+        [...idsByLevel.entries()].map(([priorityLevel, ids]) => this.prisma.keyword.updateMany({
+          where: { id: { in: ids } },
+          data: { priorityLevel },
+        })),
+      );
+
+      this.logger.log(`关键词重新评级完成: ${changes.length}/${scores.length} 个级别变化${userId ? `, 操作人 ${userId}` : ''}`);
+    }
+
+    return this.buildReport(scores, changes, dryRun);
+  }
+
+  // ==================== 私有方法 ====================
+
+  private scoreIntent(intentType: string | null, stage: string | null): number {
+    const scores = [
+      intentType ? INTENT_SCORES[intentType as KeywordIntentType] : undefined,
+      stage ? STAGE_SCORES[stage as MarketingFunnelStage] : undefined,
+    ].filter((score): score is number => score !== undefined);
+
+    return scores.length > 0
+      ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+      : NEUTRAL_SCORE;
+  }
+
+  /**
+   * 排名提升空间：4-20 名最容易通过优化获得流量，前 3 名以维护为主，50 名外或无排名投入周期长
+   */
+  private scoreRanking(position: number | null): number {
+    if (position === null) return 30;
+    if (position <= 3) return 40;
+    if (position <= 10) return 100;
+    if (position <= 20) return 80;
+    if (position <= 50) return 50;
+    return 30;
+  }
+
+  private buildReport(
+    scores: KeywordPriorityScore[],
+    changes: KeywordPriorityScore[],
+    dryRun: boolean,
+  ): KeywordRegradeReport {
+    const countBy = (levels: Array<string | null>) => levels.reduce<Record<string, number>>((counts, level) => {
+      const key = level ?? 'unassigned';
+      counts[key] = (counts[key] ?? 0) + 1;
+      return counts;
+    }, {});
+
+    const transitions = new Map<string, { from: string | null; to: KeywordPriorityLevel; count: number }>();
+    for (const change of changes) {
+      const key = `${change.currentLevel}->${change.suggestedLevel}`;
+      const transition = transitions.get(key) ?? { from: change.currentLevel, to: change.suggestedLevel, count: 0 };
+      transition.count++;
+      transitions.set(key, transition);
+    }
+
+    const levelIndex = (level: string | null) => {
+      const index = LEVEL_ORDER.indexOf(level as KeywordPriorityLevel);
+      return index === -1 ? LEVEL_ORDER.length : index;
+    };
+
+    return {
+      dryRun,
+      totalKeywords: scores.length,
+      changedCount: changes.length,
+      upgradedCount: changes.filter(change => levelIndex(change.suggestedLevel) < levelIndex(change.currentLevel)).length,
+      downgradedCount: changes.filter(change => levelIndex(change.suggestedLevel) > levelIndex(change.currentLevel)).length,
+      distributionBefore: countBy(scores.map(score => score.currentLevel)),
+      distributionAfter: countBy(scores.map(score => score.suggestedLevel)),
+      transitions: [...transitions.values()].sort((a, b) => b.count - a.count),
+      changes: [...changes]
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_REPORTED_CHANGES),
+    };
+  }
+
+  private pickConfig(configs: KeywordScoringConfig[], productLine?: string | null): KeywordScoringConfig {
+    return (productLine && configs.find(config => config.productLine === productLine))
+      || configs.find(config => config.productLine === DEFAULT_SCORING_PRODUCT_LINE)
+      || this.builtInConfig();
+  }
+
+  private validateConfig(weights: KeywordScoringWeights, thresholds: KeywordTierThresholds): void {
+    const errors: Array<{ field: string; message: string }> = [];
+
+    for (const factor of Object.values(KeywordScoringFactor)) {
+      const weight = weights[factor];
+      if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+        errors.push({ field: `weights.${factor}`, message: '权重必须是非负数' });
+      }
+    }
+    if (errors.length === 0 && Object.values(weights).reduce((sum, weight) => sum + weight, 0) <= 0) {
+      errors.push({ field: 'weights', message: '权重之和必须大于 0' });
+    }
+
+    THRESHOLD_LEVELS.forEach((level, index) => {
+      const threshold = thresholds[level];
+      if (typeof threshold !== 'number' || threshold < 0 || threshold > 100) {
+        errors.push({ field: `thresholds.${level}`, message: '阈值必须在 0-100 之间' });
+        return;
+      }
+      const higherLevel = THRESHOLD_LEVELS[index - 1];
+      if (higherLevel && threshold >= thresholds[higherLevel]) {
+        errors.push({ field: `thresholds.${level}`, message: `阈值必须低于 ${higherLevel} 的阈值` });
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new KeywordValidationException(errors);
+    }
+  }
+
+  private builtInConfig(): KeywordScoringConfig {
+    return {
+      productLine: DEFAULT_SCORING_PRODUCT_LINE,
+      weights: { ...DEFAULT_WEIGHTS },
+      thresholds: { ...DEFAULT_THRESHOLDS },
+      isBuiltIn: true,
+      updatedAt: null,
+    };
+  }
+
+  private toScoringConfig(row: { productLine: string; weights: Prisma.JsonValue; thresholds: Prisma.JsonValue; updatedAt: Date }): KeywordScoringConfig {
+    return {
+      productLine: row.productLine,
+      // 合并内置默认值，兼容新增的评分因子
+      weights: { ...DEFAULT_WEIGHTS, ...(row.weights as Partial<KeywordScoringWeights>) },
+      thresholds: { ...DEFAULT_THRESHOLDS, ...(row.thresholds as Partial<KeywordTierThresholds>) },
+      isBuiltIn: false,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * 关键词检索服务
+ *
+ * @description 基于 Postgres 全文检索（tsvector，english 词干化）和 pg_trgm 三元组相似度的关键词检索：
+ *              全文检索覆盖复数、词形和词序差异，三元组匹配覆盖拼写错误；另提供相似关键词查询，用于创建前排查近似重复
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '@/common/prisma.service';
+import { KeywordValidationException } from '../exceptions/keyword.exceptions';
+import {
+  KeywordSearchHit,
+  KeywordSearchInput,
+  KeywordSearchResult,
+  KeywordSimilarInput,
+  KeywordSimilarMatch,
+  KeywordStatus,
+  KeywordTextHighlight,
+  KeywordWithRelations,
+} from '../types/keyword.types';
+
+const QUERY_MAX_LENGTH = 200;
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+const DEFAULT_SIMILAR_LIMIT = 10;
+const MAX_SIMILAR_LIMIT = 50;
+const DEFAULT_SIMILAR_THRESHOLD = 0.5;
+/** pg_trgm.similarity_threshold 默认值；% 运算符按此值预筛选，更低的阈值无法走索引 */
+const MIN_SIMILAR_THRESHOLD = 0.3;
+
+/** 综合得分中全文检索排名和三元组相似度的权重 */
+const TEXT_RANK_WEIGHT = 0.6;
+const SIMILARITY_WEIGHT = 0.4;
+
+/** ts_headline 使用控制字符标记命中区间，再解析为字符偏移，避免向前端返回 HTML */
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+const HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", HighlightAll=true`;
+
+const KEYWORD_INCLUDE = {
+  assignee: { select: { id: true, username: true, fullName: true } },
+  creator: { select: { id: true, username: true, fullName: true } },
+} satisfies Prisma.KeywordInclude;
+
+interface SearchRow {
+  id: string;
+  textRank: number;
+  similarity: number;
+  headline: string | null;
+}
+
+interface SimilarRow {
+  id: string;
+  similarity: number;
+  sameTerms: boolean;
+}
+
+/**
+ * 关键词检索服务
+ */
+@Injectable()
+export class KeywordSearchService {
+  private readonly logger = new Logger(KeywordSearchService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==================== 检索 ====================
+
+  /**
+   * 全文检索 + 模糊匹配，按综合得分降序，得分相同时按搜索量降序
+   */
+  async search(input: KeywordSearchInput): Promise<KeywordSearchResult> {
+    const query = this.normalizeQuery(input.query, 'query');
+    if (!query) {
+      return { hits: [], total: 0 };
+    }
+
+    const limit = Math.min(Math.max(input.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+    const offset = Math.max(input.offset ?? 0, 0);
+    const where = Prisma.sql`
+      (k.search_vector @@ q.tsq OR k.text % ${query} OR ${query} <% k.text)
+      ${this.buildFilters(input)}
+    `;
+
+    const [rows, [countRow]] = await Promise.all([
+      this.prisma.$queryRaw<SearchRow[]>`
+        SELECT id, "textRank", similarity, headline
+        FROM (
+          SELECT k.id, k.search_volume,
+            ts_rank_cd(k.search_vector, q.tsq, 32)::float AS "textRank",
+            GREATEST(similarity(k.text, ${query}), word_similarity(${query}, k.text))::float AS similarity,
+            CASE WHEN k.search_vector @@ q.tsq THEN ts_headline('english', k.text, q.tsq, ${HEADLINE_OPTIONS}) END AS headline
+          FROM keywords k
+          CROSS JOIN (SELECT websearch_to_tsquery('english', ${query}) AS tsq) q
+          WHERE ${where}
+        ) matched
+        ORDER BY ${TEXT_RANK_WEIGHT} * "textRank" + ${SIMILARITY_WEIGHT} * similarity DESC,
+          search_volume DESC NULLS LAST, id
+        LIMIT ${limit} OFFSET ${offset}
+      `,
+      this.prisma.$queryRaw<Array<{ total: number }>>`
+        SELECT COUNT(*)::int AS total
+        FROM keywords k
+        CROSS JOIN (SELECT websearch_to_tsquery('english', ${query}) AS tsq) q
+        WHERE ${where}
+      `,
+    ]);
+
+    const keywords = await this.loadKeywords(rows.map(row => row.id));
+    const hits: KeywordSearchHit[] = rows.flatMap(row => {
+      const keyword = keywords.get(row.id);
+      if (!keyword) {
+        return [];
+      }
+      return [{
+        keyword,
+        score: this.round(TEXT_RANK_WEIGHT * row.textRank + SIMILARITY_WEIGHT * row.similarity),
+        textRank: this.round(row.textRank),
+        similarity: this.round(row.similarity),
+        highlights: row.headline ? this.parseHighlights(row.headline) : [],
+      }];
+    });
+
+    this.logger.debug(`关键词检索: "${query}" 命中 ${countRow?.total ?? 0} 个`);
+    return { hits, total: countRow?.total ?? 0 };
+  }
+
+  /**
+   * 相似关键词：三元组相似度不低于阈值，或词干相同仅词序、词形不同；包含已退役关键词，便于重新启用而非重复创建
+   */
+  async findSimilar(input: KeywordSimilarInput): Promise<KeywordSimilarMatch[]> {
+    const text = this.normalizeQuery(input.text, 'text');
+    if (!text) {
+      return [];
+    }
+
+    const threshold = input.threshold ?? DEFAULT_SIMILAR_THRESHOLD;
+    if (threshold < MIN_SIMILAR_THRESHOLD || threshold > 1) {
+      throw new KeywordValidationException([
+        { field: 'threshold', message: `相似度阈值必须在 ${MIN_SIMILAR_THRESHOLD}-1 之间` },
+      ]);
+    }
+    const limit = Math.min(Math.max(input.limit ?? DEFAULT_SIMILAR_LIMIT, 1), MAX_SIMILAR_LIMIT);
+
+    const rows = await this.prisma.$queryRaw<SimilarRow[]>`
+      SELECT id, similarity, "sameTerms"
+      FROM (
+        SELECT k.id,
+          similarity(k.text, ${text})::float AS similarity,
+          strip(k.search_vector) = strip(to_tsvector('english', ${text})) AS "sameTerms"
+        FROM keywords k
+        WHERE (k.text % ${text} OR strip(k.search_vector) = strip(to_tsvector('english', ${text})))
+          ${input.excludeKeywordId ? Prisma.sql`AND k.id <> ${input.excludeKeywordId}` : Prisma.empty}
+          ${input.productLine ? Prisma.sql`AND k.product_line = ${input.productLine}` : Prisma.empty}
+      ) candidates
+      WHERE "sameTerms" OR similarity >= ${threshold}
+      ORDER BY "sameTerms" DESC, similarity DESC, id
+      LIMIT ${limit}
+    `;
+
+    const keywords = await this.loadKeywords(rows.map(row => row.id));
+    return rows.flatMap(row => {
+      const keyword = keywords.get(row.id);
+      return keyword ? [{ keyword, similarity: this.round(row.similarity), sameTerms: row.sameTerms }] : [];
+    });
+  }
+
+  // ==================== 私有方法 ====================
+
+  private normalizeQuery(value: string, field: string): string {
+    const normalized = value.trim().replace(/\s+/g, ' ');
+    if (normalized.length > QUERY_MAX_LENGTH) {
+      throw new KeywordValidationException([
+        { field, message: `检索文本不能超过 ${QUERY_MAX_LENGTH} 个字符` },
+      ]);
+    }
+    return normalized;
+  }
+
+  /**
+   * 未指定状态时默认排除已退役关键词
+   */
+  private buildFilters(input: KeywordSearchInput): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [];
+
+    if (input.statuses?.length) {
+      conditions.push(Prisma.sql`k.status IN (${Prisma.join([...input.statuses])})`);
+    } else if (!input.includeRetired) {
+      conditions.push(Prisma.sql`k.status <> ${KeywordStatus.RETIRED}`);
+    }
+    if (input.productLine) {
+      conditions.push(Prisma.sql`k.product_line = ${input.productLine}`);
+    }
+    if (input.priorityLevels?.length) {
+      conditions.push(Prisma.sql`k.priority_level IN (${Prisma.join([...input.priorityLevels])})`);
+    }
+
+    return conditions.length > 0 ? Prisma.sql`AND ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+  }
+
+  private async loadKeywords(ids: string[]): Promise<Map<string, KeywordWithRelations>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+    const keywords = await this.prisma.keyword.findMany({
+      where: { id: { in: ids } },
+      include: KEYWORD_INCLUDE,
+    });
+    return new Map(keywords.map(keyword => [keyword.id, keyword as KeywordWithRelations]));
+  }
+
+  /**
+   * 将 ts_headline 输出中的标记解析为原文中的命中区间
+   */
+  private parseHighlights(headline: string): KeywordTextHighlight[] {
+    const highlights: KeywordTextHighlight[] = [];
+    let position = 0;
+    let start: number | null = null;
+
+    for (const char of headline) {
+      if (char === HIGHLIGHT_START) {
+        start = position;
+      } else if (char === HIGHLIGHT_STOP) {
+        if (start !== null && position > start) {
+          highlights.push({ start, length: position - start });
+        }
+        start = null;
+      } else {
+        position += char.length;
+      }
+    }
+
+    return highlights;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
@@ -14,7 +14,9 @@ import {
   ForbiddenException,
   Logger,
 } from '@nestjs/common';
-import { PrismaService } from '@/common/services/prisma.service';
+import { PrismaService } from '@/common/prisma.service';
+import { AlertRulesService } from '@/services/alert-rules.service';
+import { KeywordSearchService } from './keyword-search.service';
 import { Prisma } from '@prisma/client';
 import {
   KeywordWithRelations,
@@ -30,6 +32,7 @@ import {
   KeywordPriorityLevel,
   KeywordStatus,
   AIOStatus,
+  KeywordSource,
   KeywordErrorCode,
 } from '../types/keyword.types';
 
@@ -40,7 +43,11 @@ import {
 export class KeywordService {
   private readonly logger = new Logger(KeywordService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly alertRules: AlertRulesService,
+    private readonly keywordSearch: KeywordSearchService,
+  ) {}
 
   // ==================== 基础 CRUD 操作 ====================
 
@@ -88,18 +95,23 @@ export class KeywordService {
       const keyword = await this.prisma.keyword.create({
         data: {
           text: input.text.trim(),
-          searchVolume: input.searchVolume,
-          difficulty: input.difficulty ? new Prisma.Decimal(input.difficulty) : null,
-          cpc: input.cpc ? new Prisma.Decimal(input.cpc) : null,
-          competitionLevel: input.competitionLevel,
-          priorityLevel: input.priorityLevel,
-          intentType: input.intentType,
-          productLine: input.productLine,
-          stage: input.stage,
-          assignedTo: input.assignedTo,
+          ...(input.searchVolume != null && { searchVolume: input.searchVolume }),
+          ...(input.difficulty && { difficulty: new Prisma.Decimal(input.difficulty) }),
+          ...(input.cpc && { cpc: new Prisma.Decimal(input.cpc) }),
+          ...(input.competitionLevel && { competitionLevel: input.competitionLevel }),
+          ...(input.priorityLevel && { priorityLevel: input.priorityLevel }),
+          ...(input.intentType && { intentType: input.intentType }),
+          ...(input.productLine && { productLine: input.productLine }),
+          ...(input.stage && { stage: input.stage }),
+          ...(input.assignedTo && { assignedTo: input.assignedTo }),
+          source: input.source ?? KeywordSource.MANUAL,
+          sourceDomains: input.sourceDomains ? [...input.sourceDomains] : [],
           createdBy,
-          status: KeywordStatus.ACTIVE,
-          aioStatus: AIOStatus.NOT_MONITORED,
+          status: KeywordStatus.PROPOSED,
+          aioStatus: input.aioStatus ?? AIOStatus.NOT_MONITORED,
+          statusHistory: {
+            create: { toStatus: KeywordStatus.PROPOSED, changedBy: createdBy },
+          },
         },
         include: this.getDefaultInclude(),
       });
@@ -226,7 +238,6 @@ export class KeywordService {
       if (input.intentType !== undefined) updateData.intentType = input.intentType;
       if (input.productLine !== undefined) updateData.productLine = input.productLine;
       if (input.stage !== undefined) updateData.stage = input.stage;
-      if (input.status !== undefined) updateData.status = input.status;
       if (input.assignedTo !== undefined) updateData.assignedTo = input.assignedTo;
       if (input.aioStatus !== undefined) updateData.aioStatus = input.aioStatus;
       if (input.aioCoverageScore !== undefined) {
@@ -378,7 +389,7 @@ export class KeywordService {
   }
 
   /**
-   * 搜索关键词
+   * 搜索关键词（全文检索 + 模糊匹配，按相关度排序）
    */
   async searchKeywords(
     query: string,
@@ -389,36 +400,8 @@ export class KeywordService {
         return [];
       }
 
-      const keywords = await this.prisma.keyword.findMany({
-        where: {
-          OR: [
-            {
-              text: {
-                contains: query.trim(),
-                mode: 'insensitive',
-              },
-            },
-            {
-              text: {
-                search: query.trim().split(' ').join(' & '),
-              },
-            },
-          ],
-          status: KeywordStatus.ACTIVE,
-        },
-        include: this.getDefaultInclude(),
-        take: Math.min(limit, 50),
-        orderBy: [
-          {
-            priorityLevel: 'asc',
-          },
-          {
-            searchVolume: 'desc',
-          },
-        ],
-      });
-
-      return keywords as KeywordWithRelations[];
+      const { hits } = await this.keywordSearch.search({ query, limit: Math.min(limit, 50) });
+      return hits.map(hit => hit.keyword);
     } catch (error) {
       this.logger.error(`搜索关键词失败: ${error.message}`, error.stack);
       throw new BadRequestException({
@@ -477,7 +460,6 @@ export class KeywordService {
       // 构建更新数据
       const updateData: Prisma.KeywordUpdateInput = {};
       if (input.priorityLevel !== undefined) updateData.priorityLevel = input.priorityLevel;
-      if (input.status !== undefined) updateData.status = input.status;
       if (input.assignedTo !== undefined) updateData.assignedTo = input.assignedTo;
       if (input.competitionLevel !== undefined) updateData.competitionLevel = input.competitionLevel;
       if (input.intentType !== undefined) updateData.intentType = input.intentType;
@@ -538,7 +520,13 @@ export class KeywordService {
         });
       }
 
-      // 添加或更新指标数据
+      // 添加或更新指标数据（未提供的字段不写入，null 表示清空）
+      const aioMetric = {
+        aioDisplayed: input.aioDisplayed,
+        ...(input.aioPosition !== undefined && { aioPosition: input.aioPosition }),
+        ...(input.aioContentSnippet !== undefined && { aioContentSnippet: input.aioContentSnippet }),
+      };
+
       await this.prisma.keywordMetric.upsert({
         where: {
           keywordId_metricDate: {
@@ -546,17 +534,11 @@ export class KeywordService {
             metricDate: input.metricDate,
           },
         },
-        update: {
-          aioDisplayed: input.aioDisplayed,
-          aioPosition: input.aioPosition,
-          aioContentSnippet: input.aioContentSnippet,
-        },
+        update: aioMetric,
         create: {
           keywordId: input.keywordId,
           metricDate: input.metricDate,
-          aioDisplayed: input.aioDisplayed,
-          aioPosition: input.aioPosition,
-          aioContentSnippet: input.aioContentSnippet,
+          ...aioMetric,
         },
       });
 
@@ -577,6 +559,14 @@ export class KeywordService {
       });
 
       this.logger.log(`AIO 监测数据添加成功: 关键词 ${input.keywordId}, 日期 ${input.metricDate.toISOString()}`);
+
+      // 新指标写入后评估告警规则，评估失败不影响数据写入
+      try {
+        await this.alertRules.evaluateKeywordRules([input.keywordId]);
+      } catch (error) {
+        this.logger.warn(`告警规则评估失败: 关键词 ${input.keywordId}, ${error.message}`);
+      }
+
       return true;
     } catch (error) {
       if (error instanceof NotFoundException) {
@@ -604,7 +594,7 @@ export class KeywordService {
           id: true,
         },
         where: {
-          status: KeywordStatus.ACTIVE,
+          status: { not: KeywordStatus.RETIRED },
         },
       });
 
@@ -615,7 +605,7 @@ export class KeywordService {
           id: true,
         },
         where: {
-          status: KeywordStatus.ACTIVE,
+          status: { not: KeywordStatus.RETIRED },
           priorityLevel: {
             not: null,
           },
@@ -704,6 +694,13 @@ export class KeywordService {
     };
   }
 
+  /**
+   * 单值或多值过滤条件 -> Prisma 条件（多值转为 in 查询）
+   */
+  private toInFilter<T extends string>(value: T | ReadonlyArray<T>): T | { in: T[] } {
+    return typeof value === 'string' ? value : { in: [...value] };
+  }
+
   /**
    * 构建查询条件
    */
@@ -718,57 +715,39 @@ export class KeywordService {
     }
 
     if (filters.priorityLevel) {
-      where.priorityLevel = Array.isArray(filters.priorityLevel)
-        ? { in: filters.priorityLevel }
-        : filters.priorityLevel;
+      where.priorityLevel = this.toInFilter(filters.priorityLevel);
     }
 
     if (filters.status) {
-      where.status = Array.isArray(filters.status)
-        ? { in: filters.status }
-        : filters.status;
+      where.status = this.toInFilter(filters.status);
     }
 
     if (filters.competitionLevel) {
-      where.competitionLevel = Array.isArray(filters.competitionLevel)
-        ? { in: filters.competitionLevel }
-        : filters.competitionLevel;
+      where.competitionLevel = this.toInFilter(filters.competitionLevel);
     }
 
     if (filters.intentType) {
-      where.intentType = Array.isArray(filters.intentType)
-        ? { in: filters.intentType }
-        : filters.intentType;
+      where.intentType = this.toInFilter(filters.intentType);
     }
 
     if (filters.productLine) {
-      where.productLine = Array.isArray(filters.productLine)
-        ? { in: filters.productLine }
-        : filters.productLine;
+      where.productLine = this.toInFilter(filters.productLine);
     }
 
     if (filters.stage) {
-      where.stage = Array.isArray(filters.stage)
-        ? { in: filters.stage }
-        : filters.stage;
+      where.stage = this.toInFilter(filters.stage);
     }
 
     if (filters.aioStatus) {
-      where.aioStatus = Array.isArray(filters.aioStatus)
-        ? { in: filters.aioStatus }
-        : filters.aioStatus;
+      where.aioStatus = this.toInFilter(filters.aioStatus);
     }
 
     if (filters.assignedTo) {
-      where.assignedTo = Array.isArray(filters.assignedTo)
-        ? { in: filters.assignedTo }
-        : filters.assignedTo;
+      where.assignedTo = this.toInFilter(filters.assignedTo);
     }
 
     if (filters.createdBy) {
-      where.createdBy = Array.isArray(filters.createdBy)
-        ? { in: filters.createdBy }
-        : filters.createdBy;
+      where.createdBy = this.toInFilter(filters.createdBy);
     }
 
     // 数值范围过滤
@@ -0,0 +1,242 @@
+/**
+ * 关键词内容蚕食检测服务单元测试
+ *
+ * @description 测试 KeywordCannibalizationService 的流量拆分（埋点 / 排名估算）、严重程度判定和处理建议
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { KeywordCannibalizationService, estimateOrganicCtr } from '../services/keyword-cannibalization.service';
+import { PrismaService } from '@/common/prisma.service';
+import { KeywordNotFoundException } from '../exceptions/keyword.exceptions';
+import { CannibalizationAction, CannibalizationSeverity } from '../types/keyword.types';
+
+describe('KeywordCannibalizationService', () => {
+  let service: KeywordCannibalizationService;
+
+  const mockPrismaService = {
+    keyword: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    contentItem: {
+      findMany: jest.fn(),
+    },
+    analyticsEvent: {
+      groupBy: jest.fn(),
+    },
+  };
+
+  const buildKeyword = (
+    id: string,
+    ownResults: Array<{ url: string; position: number }>,
+    overrides: Record<string, unknown> = {},
+  ) => ({
+    id,
+    text: `keyword ${id}`,
+    searchVolume: 10000,
+    productLine: 'camera',
+    clusterId: null,
+    metrics: [{ ownResults }],
+    ...overrides,
+  });
+
+  const buildContent = (id: string, publishedUrl: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    title: `Content ${id}`,
+    contentType: 'blog',
+    publishedUrl,
+    targetKeywordIds: ['k1'],
+    keywords: [],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KeywordCannibalizationService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<KeywordCannibalizationService>(KeywordCannibalizationService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockPrismaService.contentItem.findMany.mockResolvedValue([]);
+    mockPrismaService.analyticsEvent.groupBy.mockResolvedValue([]);
+    mockPrismaService.keyword.findMany.mockResolvedValue([]);
+  });
+
+  describe('estimateOrganicCtr', () => {
+    it('should estimate click-through rate by position', () => {
+      expect(estimateOrganicCtr(1)).toBe(0.28);
+      expect(estimateOrganicCtr(10)).toBe(0.02);
+      expect(estimateOrganicCtr(15)).toBe(0.01);
+      expect(estimateOrganicCtr(21)).toBe(0);
+      expect(estimateOrganicCtr(null)).toBe(0);
+    });
+  });
+
+  describe('analyzeKeyword', () => {
+    it('should estimate the traffic split from rankings and suggest merging similar content', async () => {
+      // Arrange
+      mockPrismaService.keyword.findUnique.mockResolvedValue(buildKeyword('k1', [
+        { url: 'https://www.eufy.com/b/', position: 2 },
+        { url: 'https://www.eufy.com/a', position: 1 },
+      ]));
+      mockPrismaService.contentItem.findMany.mockResolvedValue([
+        buildContent('c1', 'https://eufy.com/a'),
+        buildContent('c2', 'https://www.eufy.com/b'),
+      ]);
+
+      // Act
+      const analysis = await service.analyzeKeyword('k1');
+
+      // Assert
+      expect(analysis).toMatchObject({
+        isCannibalized: true,
+        severity: CannibalizationSeverity.MEDIUM,
+        trafficSplit: 0.3488,
+        trafficSource: 'estimated',
+      });
+      expect(analysis.pages.map(page => [page.contentId, page.position, page.traffic, page.isPrimary])).toEqual([
+        ['c1', 1, 2800, true],
+        ['c2', 2, 1500, false],
+      ]);
+      expect(analysis.suggestions).toEqual([expect.objectContaining({
+        action: CannibalizationAction.MERGE,
+        sourceContentId: 'c2',
+        targetContentId: 'c1',
+      })]);
+    });
+
+    it('should split by analytics events when every page is managed content', async () => {
+      // Arrange
+      mockPrismaService.keyword.findUnique.mockResolvedValue(buildKeyword('k1', [
+        { url: 'https://www.eufy.com/a', position: 1 },
+        { url: 'https://www.eufy.com/b', position: 4 },
+      ]));
+      mockPrismaService.contentItem.findMany.mockResolvedValue([
+        buildContent('c1', 'https://www.eufy.com/a'),
+        buildContent('c2', 'https://www.eufy.com/b', { contentType: 'product' }),
+      ]);
+      mockPrismaService.analyticsEvent.groupBy.mockResolvedValue([
+        { keywordId: 'k1', contentId: 'c1', _count: { _all: 30 } },
+        { keywordId: 'k1', contentId: 'c2', _count: { _all: 70 } },
+      ]);
+
+      // Act
+      const analysis = await service.analyzeKeyword('k1');
+
+      // Assert
+      expect(analysis).toMatchObject({ trafficSource: 'analytics', trafficSplit: 0.3, severity: CannibalizationSeverity.MEDIUM });
+      expect(analysis.pages.map(page => [page.contentId, page.traffic, page.trafficShare])).toEqual([
+        ['c2', 70, 0.7],
+        ['c1', 30, 0.3],
+      ]);
+      // 不同类型的内容不建议合并，且无改定位候选时设置 canonical
+      expect(analysis.suggestions[0]!.action).toBe(CannibalizationAction.CANONICAL);
+    });
+
+    it('should suggest canonical for ranking URLs that are not managed content', async () => {
+      // Arrange
+      mockPrismaService.keyword.findUnique.mockResolvedValue(buildKeyword('k1', [
+        { url: 'https://www.eufy.com/a', position: 1 },
+        { url: 'https://community.eufy.com/t/123', position: 3 },
+      ]));
+      mockPrismaService.contentItem.findMany.mockResolvedValue([buildContent('c1', 'https://www.eufy.com/a')]);
+
+      // Act
+      const analysis = await service.analyzeKeyword('k1');
+
+      // Assert
+      expect(analysis.pages[1]).toMatchObject({ contentId: null, url: 'https://community.eufy.com/t/123' });
+      expect(analysis.suggestions[0]).toMatchObject({
+        action: CannibalizationAction.CANONICAL,
+        sourceUrl: 'https://community.eufy.com/t/123',
+        targetUrl: 'https://www.eufy.com/a',
+      });
+    });
+
+    it('should suggest retargeting multi-keyword content to an untargeted keyword in the same cluster', async () => {
+      // Arrange
+      mockPrismaService.keyword.findUnique.mockResolvedValue(buildKeyword('k1', [
+        { url: 'https://www.eufy.com/a', position: 1 },
+        { url: 'https://www.eufy.com/b', position: 2 },
+      ], { clusterId: 'cluster-1' }));
+      mockPrismaService.contentItem.findMany.mockResolvedValue([
+        buildContent('c1', 'https://www.eufy.com/a'),
+        buildContent('c2', 'https://www.eufy.com/b', { targetKeywordIds: ['k1', 'k2'] }),
+      ]);
+      mockPrismaService.keyword.findMany.mockResolvedValue([
+        { id: 'k1', text: 'keyword k1', clusterId: 'cluster-1' },
+        { id: 'k2', text: 'keyword k2', clusterId: 'cluster-1' },
+        { id: 'k3', text: 'solar security camera', clusterId: 'cluster-1' },
+      ]);
+
+      // Act
+      const analysis = await service.analyzeKeyword('k1');
+
+      // Assert
+      expect(analysis.suggestions[0]).toMatchObject({
+        action: CannibalizationAction.RETARGET,
+        sourceContentId: 'c2',
+        suggestedKeywordId: 'k3',
+        suggestedKeywordText: 'solar security camera',
+      });
+    });
+
+    it('should not flag keywords with a single page', async () => {
+      // Arrange
+      mockPrismaService.keyword.findUnique.mockResolvedValue(buildKeyword('k1', [{ url: 'https://www.eufy.com/a', position: 1 }]));
+      mockPrismaService.contentItem.findMany.mockResolvedValue([buildContent('c1', 'https://www.eufy.com/a')]);
+
+      // Act
+      const analysis = await service.analyzeKeyword('k1');
+
+      // Assert
+      expect(analysis).toMatchObject({ isCannibalized: false, severity: null, trafficSplit: 0, suggestions: [] });
+      expect(analysis.pages).toHaveLength(1);
+    });
+
+    it('should throw when the keyword does not exist', async () => {
+      // Arrange
+      mockPrismaService.keyword.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.analyzeKeyword('missing')).rejects.toThrow(KeywordNotFoundException);
+    });
+  });
+
+  describe('findIssues', () => {
+    it('should return cannibalized keywords at or above the minimum severity, most severe first', async () => {
+      // Arrange
+      mockPrismaService.keyword.findMany.mockResolvedValue([
+        // 估算占比 0.28 / 0.15 -> 分散 0.3488（medium）
+        buildKeyword('k1', [{ url: 'https://eufy.com/a', position: 1 }, { url: 'https://eufy.com/b', position: 2 }]),
+        // 0.28 / 0.28 -> 分散 0.5（high）
+        buildKeyword('k2', [{ url: 'https://eufy.com/c', position: 1 }, { url: 'https://eufy.com/c?ref=1', position: 1 }]),
+        // 0.28 / 0.02 -> 分散 0.0667（low）
+        buildKeyword('k3', [{ url: 'https://eufy.com/d', position: 1 }, { url: 'https://eufy.com/e', position: 10 }]),
+        buildKeyword('k4', [{ url: 'https://eufy.com/f', position: 1 }]),
+      ]);
+
+      // Act
+      const all = await service.findIssues();
+      const severe = await service.findIssues({ minSeverity: CannibalizationSeverity.MEDIUM });
+
+      // Assert
+      expect(all.map(issue => [issue.keywordId, issue.severity])).toEqual([
+        ['k2', CannibalizationSeverity.HIGH],
+        ['k1', CannibalizationSeverity.MEDIUM],
+        ['k3', CannibalizationSeverity.LOW],
+      ]);
+      expect(severe.map(issue => issue.keywordId)).toEqual(['k2', 'k1']);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * 关键词主题聚类服务单元测试
+ *
+ * @description 测试 KeywordClusteringService 的 SERP 重合度与词面相似度分组、支柱关键词选择、产品线隔离和重建范围
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { KeywordClusteringService } from '../services/keyword-clustering.service';
+import { PrismaService } from '@/common/prisma.service';
+import { KeywordValidationException } from '../exceptions/keyword.exceptions';
+import { ProductLine } from '../types/keyword.types';
+
+describe('KeywordClusteringService', () => {
+  let service: KeywordClusteringService;
+
+  const userId = 'user-123';
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    keyword: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    keywordCluster: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  const serp = (...paths: string[]) => [{
+    topCompetitors: paths.map((path, index) => ({
+      domain: 'example.com',
+      url: `https://www.example.com/${path}/`,
+      position: index + 1,
+    })),
+  }];
+
+  const buildKeyword = (
+    id: string,
+    text: string,
+    searchVolume: number | null,
+    overrides: Record<string, unknown> = {},
+  ) => ({
+    id,
+    text,
+    searchVolume,
+    priorityLevel: null,
+    productLine: null,
+    metrics: [],
+    ...overrides,
+  });
+
+  const createdClusters = () => mockPrismaService.keywordCluster.create.mock.calls.map(([{ data }]) => ({
+    name: data.name,
+    pillarKeywordId: data.pillarKeywordId,
+    members: data.keywords.connect.map((member: { id: string }) => member.id),
+    cohesion: data.cohesion,
+  }));
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KeywordClusteringService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<KeywordClusteringService>(KeywordClusteringService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation(callback => callback(mockPrismaService));
+  });
+
+  describe('rebuildClusters', () => {
+    it('should group keywords by SERP overlap and lexical similarity around the highest-volume pillar', async () => {
+      // Arrange
+      mockPrismaService.keyword.findMany.mockResolvedValue([
+        buildKeyword('k2', 'outdoor security cameras', 2000, { metrics: serp('a', 'b', 'd') }),
+        buildKeyword('k1', 'security camera', 5000, { metrics: serp('a', 'b', 'c') }),
+        buildKeyword('k4', 'robot vacuums for pet hair', 100),
+        buildKeyword('k3', 'robot vacuum', 3000),
+        buildKeyword('k5', 'doorbell chime', 50),
+      ]);
+
+      // Act
+      const report = await service.rebuildClusters({}, userId);
+
+      // Assert
+      expect(createdClusters()).toEqual([
+        { name: 'security camera', pillarKeywordId: 'k1', members: ['k1', 'k2'], cohesion: 0.6667 },
+        { name: 'robot vacuum', pillarKeywordId: 'k3', members: ['k3', 'k4'], cohesion: 0.5 },
+      ]);
+      expect(mockPrismaService.keywordCluster.create.mock.calls[0][0].data).toMatchObject({
+        keywordCount: 2,
+        totalSearchVolume: 7000,
+        createdBy: userId,
+      });
+      expect(report).toMatchObject({
+        productLine: null,
+        totalKeywords: 5,
+        clusterCount: 2,
+        clusteredCount: 4,
+        unclusteredCount: 1,
+        serpCoverage: 0.4,
+      });
+    });
+
+    it('should ignore brand words and plural forms when comparing text', async () => {
+      // Arrange
+      mockPrismaService.keyword.findMany.mockResolvedValue([
+        buildKeyword('k1', 'eufy doorbell camera', 900),
+        buildKeyword('k2', 'doorbell cameras', 800),
+      ]);
+
+      // Act
+      await service.rebuildClusters();
+
+      // Assert
+      expect(createdClusters()).toEqual([
+        { name: 'eufy doorbell camera', pillarKeywordId: 'k1', members: ['k1', 'k2'], cohesion: 1 },
+      ]);
+    });
+
+    it('should never cluster keywords across product lines', async () => {
+      // Arrange
+      mockPrismaService.keyword.findMany.mockResolvedValue([
+        buildKeyword('k1', 'battery life', 900, { productLine: ProductLine.CAMERA }),
+        buildKeyword('k2', 'battery life', 800, { productLine: ProductLine.LOCK }),
+      ]);
+
+      // Act
+      const report = await service.rebuildClusters();
+
+      // Assert
+      expect(report.clusterCount).toBe(0);
+      expect(mockPrismaService.keywordCluster.create).not.toHaveBeenCalled();
+    });
+
+    it('should only replace clusters of the requested product line', async () => {
+      // Arrange
+      mockPrismaService.keyword.findMany.mockResolvedValue([]);
+
+      // Act
+      await service.rebuildClusters({ productLine: ProductLine.CAMERA });
+
+      // Assert
+      expect(mockPrismaService.keyword.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: { not: 'retired' }, productLine: ProductLine.CAMERA },
+      }));
+      expect(mockPrismaService.keyword.updateMany).toHaveBeenCalledWith({
+        where: { productLine: ProductLine.CAMERA, clusterId: { not: null } },
+        data: { clusterId: null },
+      });
+      expect(mockPrismaService.keywordCluster.deleteMany).toHaveBeenCalledWith({ where: { productLine: ProductLine.CAMERA } });
+    });
+
+    it('should honour the minimum cluster size', async () => {
+      // Arrange
+      mockPrismaService.keyword.findMany.mockResolvedValue([
+        buildKeyword('k1', 'security camera', 5000),
+        buildKeyword('k2', 'security cameras outdoor', 2000),
+      ]);
+
+      // Act
+      const report = await service.rebuildClusters({ minClusterSize: 3 });
+
+      // Assert
+      expect(report.clusterCount).toBe(0);
+      expect(report.unclusteredCount).toBe(2);
+    });
+
+    it('should reject invalid thresholds', async () => {
+      await expect(service.rebuildClusters({ minSimilarity: 0 })).rejects.toThrow(KeywordValidationException);
+      await expect(service.rebuildClusters({ minClusterSize: 1.5 })).rejects.toThrow(KeywordValidationException);
+      expect(mockPrismaService.keyword.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setClusterPillar', () => {
+    it('should only accept members of the cluster as pillar', async () => {
+      // Arrange
+      mockPrismaService.keywordCluster.findUnique.mockResolvedValue({
+        id: 'cluster-1',
+        keywords: [{ id: 'k1', text: 'security camera' }, { id: 'k2', text: 'outdoor security camera' }],
+      });
+
+      // Act
+      await service.setClusterPillar('cluster-1', 'k2');
+
+      // Assert
+      expect(mockPrismaService.keywordCluster.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { pillarKeywordId: 'k2', name: 'outdoor security camera' },
+      }));
+      await expect(service.setClusterPillar('cluster-1', 'k9')).rejects.toThrow(KeywordValidationException);
+    });
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * 关键词竞品差距分析服务单元测试
+ *
+ * @description 测试 KeywordGapService 的排名差距与 AIO 引用差距判定、机会估算、竞品页面发现和加入关键词库
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { KeywordGapService } from '../services/keyword-gap.service';
+import { KeywordService } from '../services/keyword.service';
+import { PrismaService } from '@/common/prisma.service';
+import { GoogleApisService } from '@/services/google-apis.service';
+import { KeywordValidationException } from '../exceptions/keyword.exceptions';
+import { AIOStatus, KeywordGapSource, KeywordSource } from '../types/keyword.types';
+
+describe('KeywordGapService', () => {
+  let service: KeywordGapService;
+
+  const userId = 'user-123';
+
+  const mockPrismaService = {
+    keyword: {
+      findMany: jest.fn(),
+    },
+    citationObservation: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockGoogleApisService = {
+    getCompetitorAnalysis: jest.fn(),
+    searchKeywordData: jest.fn(),
+  };
+
+  const mockKeywordService = {
+    createKeyword: jest.fn(),
+  };
+
+  const buildKeyword = (
+    id: string,
+    googlePosition: number | null,
+    topCompetitors: Array<{ domain: string; url: string; position: number }>,
+    overrides: Record<string, unknown> = {},
+  ) => ({
+    id,
+    text: `keyword ${id}`,
+    searchVolume: 10000,
+    productLine: 'camera',
+    metrics: [{ googlePosition, aioPosition: null, topCompetitors }],
+    ...overrides,
+  });
+
+  const buildObservation = (overrides: Record<string, unknown> = {}) => ({
+    query: 'keyword k1',
+    keywordId: 'k1',
+    productLine: 'camera',
+    citedUrl: 'https://www.arlo.com/cameras',
+    citedDomain: 'arlo.com',
+    rank: 1,
+    ...overrides,
+  });
+
+  /** 已跟踪关键词（带 where 条件）与全部关键词文本（仅 select text）两次查询 */
+  const mockKeywords = (keywords: unknown[], trackedTexts: string[] = []) => {
+    mockPrismaService.keyword.findMany.mockImplementation(args => Promise.resolve(
+      args.where ? keywords : trackedTexts.map(text => ({ text })),
+    ));
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KeywordGapService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: GoogleApisService,
+          useValue: mockGoogleApisService,
+        },
+        {
+          provide: KeywordService,
+          useValue: mockKeywordService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<KeywordGapService>(KeywordGapService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockKeywords([]);
+    mockPrismaService.citationObservation.findMany.mockResolvedValue([]);
+  });
+
+  describe('analyzeGaps', () => {
+    it('should flag tracked keywords where a competitor ranks in the top 10 and Eufy does not', async () => {
+      // Arrange
+      mockKeywords([
+        buildKeyword('k1', 15, [
+          { domain: 'www.ring.com', url: 'https://ring.com/doorbell', position: 2 },
+          { domain: 'wyze.com', url: 'https://wyze.com/doorbell', position: 11 },
+          { domain: 'eufy.com', url: 'https://eufy.com/doorbell', position: 15 },
+        ]),
+        buildKeyword('k2', 4, [{ domain: 'ring.com', url: 'https://ring.com/a', position: 1 }]),
+      ]);
+
+      // Act
+      const analysis = await service.analyzeGaps();
+
+      // Assert
+      expect(analysis.competitorDomains).toEqual(['ring.com', 'arlo.com', 'wyze.com']);
+      expect(analysis.gaps).toEqual([expect.objectContaining({
+        keywordId: 'k1',
+        source: KeywordGapSource.TRACKED,
+        competitors: [{ domain: 'ring.com', position: 2, url: 'https://ring.com/doorbell', aioPosition: null }],
+        ownPosition: 15,
+        rankingGap: true,
+        aioGap: false,
+        // 10000 × (CTR@2 0.15 - CTR@15 0.01)
+        estimatedOpportunity: 1400,
+      })]);
+      expect(analysis.totalOpportunity).toBe(1400);
+    });
+
+    it('should flag AIO citation gaps even when Eufy already ranks', async () => {
+      // Arrange
+      mockKeywords([buildKeyword('k1', 3, [])]);
+      mockPrismaService.citationObservation.findMany.mockResolvedValue([buildObservation()]);
+
+      // Act
+      const analysis = await service.analyzeGaps();
+
+      // Assert
+      expect(analysis.gaps[0]).toMatchObject({
+        rankingGap: false,
+        aioGap: true,
+        competitors: [{ domain: 'arlo.com', position: null, url: 'https://www.arlo.com/cameras', aioPosition: 1 }],
+        // 以引用位置近似排名：10000 × (CTR@1 0.28 - CTR@3 0.11)
+        estimatedOpportunity: 1700,
+      });
+    });
+
+    it('should not report an AIO gap when Eufy is cited alongside competitors', async () => {
+      // Arrange
+      mockKeywords([buildKeyword('k1', 3, [])]);
+      mockPrismaService.citationObservation.findMany.mockResolvedValue([
+        buildObservation(),
+        buildObservation({ citedUrl: 'https://www.eufy.com/cameras', citedDomain: 'www.eufy.com', rank: 2 }),
+      ]);
+
+      // Act
+      const analysis = await service.analyzeGaps();
+
+      // Assert
+      expect(analysis.gaps).toEqual([]);
+    });
+
+    it('should report untracked AIO queries without an opportunity estimate', async () => {
+      // Arrange
+      mockKeywords([], ['outdoor camera']);
+      mockPrismaService.citationObservation.findMany.mockResolvedValue([
+        buildObservation({ keywordId: null, query: ' Best Doorbell Camera ', citedUrl: 'https://www.wyze.com/x', citedDomain: null, rank: 2 }),
+        buildObservation({ keywordId: null, query: 'Outdoor  Camera' }),
+      ]);
+
+      // Act
+      const analysis = await service.analyzeGaps();
+
+      // Assert
+      expect(analysis.gaps).toEqual([expect.objectContaining({
+        text: 'Best Doorbell Camera',
+        keywordId: null,
+        source: KeywordGapSource.AIO_CITATION,
+        competitors: [{ domain: 'wyze.com', position: null, url: 'https://www.wyze.com/x', aioPosition: 2 }],
+        estimatedOpportunity: null,
+      })]);
+    });
+
+    it('should discover candidate queries from competitor page titles and verify them against the SERP', async () => {
+      // Arrange
+      mockGoogleApisService.getCompetitorAnalysis.mockResolvedValue({
+        top_pages: [{ title: 'Ring Video Doorbell Pro - Ring' }, { title: 'Ring' }],
+      });
+      mockGoogleApisService.searchKeywordData.mockResolvedValue({
+        organic_results: [
+          { position: 1, link: 'https://ring.com/doorbell-pro', domain: 'ring.com' },
+          { position: 12, link: 'https://www.eufy.com/doorbell', domain: 'www.eufy.com' },
+        ],
+        ai_overview: { references: [] },
+      });
+
+      // Act
+      const analysis = await service.analyzeGaps({ competitorDomains: ['https://www.ring.com/'], discover: true });
+
+      // Assert
+      expect(mockGoogleApisService.searchKeywordData).toHaveBeenCalledTimes(1);
+      expect(mockGoogleApisService.searchKeywordData).toHaveBeenCalledWith('video doorbell pro');
+      expect(analysis.gaps).toEqual([expect.objectContaining({
+        text: 'video doorbell pro',
+        source: KeywordGapSource.COMPETITOR_PAGES,
+        ownPosition: 12,
+        rankingGap: true,
+      })]);
+    });
+
+    it('should reject own domains, invalid domains and out-of-range limits', async () => {
+      await expect(service.analyzeGaps({ competitorDomains: ['eufylife.com'] })).rejects.toThrow(KeywordValidationException);
+      await expect(service.analyzeGaps({ competitorDomains: ['not a domain'] })).rejects.toThrow(KeywordValidationException);
+      await expect(service.analyzeGaps({ limit: 0 })).rejects.toThrow(KeywordValidationException);
+      expect(mockPrismaService.keyword.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addToBacklog', () => {
+    it('should create competitor gap keywords and skip duplicates and existing keywords', async () => {
+      // Arrange
+      mockKeywordService.createKeyword
+        .mockResolvedValueOnce({ id: 'k10', text: 'video doorbell pro' })
+        .mockRejectedValueOnce(new ConflictException('关键词已存在'));
+
+      // Act
+      const result = await service.addToBacklog([
+        { text: 'video doorbell pro', searchVolume: 900, competitorDomains: ['www.ring.com'] },
+        { text: 'Video  Doorbell Pro', competitorDomains: ['ring.com'] },
+        { text: 'outdoor camera', competitorDomains: ['arlo.com'] },
+      ] as never, userId);
+
+      // Assert
+      expect(mockKeywordService.createKeyword).toHaveBeenCalledTimes(2);
+      expect(mockKeywordService.createKeyword).toHaveBeenCalledWith({
+        text: 'video doorbell pro',
+        searchVolume: 900,
+        productLine: null,
+        source: KeywordSource.COMPETITOR_GAP,
+        sourceDomains: ['ring.com'],
+        aioStatus: AIOStatus.MONITORED,
+      }, userId);
+      expect(result.created.map(keyword => keyword.id)).toEqual(['k10']);
+      expect(result.skippedTexts).toEqual(['outdoor camera']);
+    });
+
+    it('should rethrow unexpected errors and reject an empty selection', async () => {
+      // Arrange
+      mockKeywordService.createKeyword.mockRejectedValue(new Error('数据库错误'));
+
+      // Act & Assert
+      await expect(service.addToBacklog([{ text: 'a b', competitorDomains: ['ring.com'] }] as never, userId))
+        .rejects.toThrow('数据库错误');
+      await expect(service.addToBacklog([], userId)).rejects.toThrow(KeywordValidationException);
+    });
+  });
+});
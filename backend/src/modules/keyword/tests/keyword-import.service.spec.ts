@@ -0,0 +1,254 @@
+/**
+ * 关键词批量导入服务单元测试
+ *
+ * @description 测试 KeywordImportService 的文件解析、列映射、逐行校验和去重逻辑
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import * as XLSX from 'xlsx';
+import { KeywordImportService } from '../services/keyword-import.service';
+import { KeywordService } from '../services/keyword.service';
+import { PrismaService } from '@/common/prisma.service';
+import { IsKeywordTextUniqueConstraint } from '../validators/keyword.validators';
+import { KeywordImportFileException } from '../exceptions/keyword.exceptions';
+import {
+  KeywordImportAction,
+  KeywordImportDuplicateStrategy,
+  KeywordIntentType,
+  KeywordSource,
+  MarketingFunnelStage,
+  ProductLine,
+} from '../types/keyword.types';
+
+describe('KeywordImportService', () => {
+  let service: KeywordImportService;
+
+  const userId = 'user-123';
+
+  const mockPrismaService = {
+    keyword: {
+      findFirst: jest.fn(),
+    },
+  };
+
+  const mockKeywordService = {
+    createKeyword: jest.fn(),
+    updateKeyword: jest.fn(),
+  };
+
+  const mockUniqueConstraint = {
+    validate: jest.fn(),
+    defaultMessage: jest.fn((args: { value: string }) => `关键词 "${args.value}" 已存在`),
+  };
+
+  const toBase64 = (csv: string) => Buffer.from(csv, 'utf8').toString('base64');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KeywordImportService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: KeywordService,
+          useValue: mockKeywordService,
+        },
+        {
+          provide: IsKeywordTextUniqueConstraint,
+          useValue: mockUniqueConstraint,
+        },
+      ],
+    }).compile();
+
+    service = module.get<KeywordImportService>(KeywordImportService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockUniqueConstraint.validate.mockResolvedValue(true);
+  });
+
+  describe('importKeywords', () => {
+    it('should create keywords from CSV with auto-detected columns', async () => {
+      // Arrange
+      const csv = [
+        'Keyword,Search Volume,KD,CPC,Product Line,Intent,Funnel Stage',
+        'smart camera,"5,000",45.5,$2.50,Camera,commercial,mofu',
+      ].join('\n');
+      mockKeywordService.createKeyword.mockResolvedValue({ id: 'keyword-1' });
+
+      // Act
+      const report = await service.importKeywords({ fileName: 'keywords.csv', content: toBase64(csv) }, userId);
+
+      // Assert
+      expect(report).toEqual(expect.objectContaining({
+        dryRun: false,
+        totalRows: 1,
+        createdCount: 1,
+        failedCount: 0,
+      }));
+      expect(report.rows[0]).toEqual(expect.objectContaining({
+        rowNumber: 2,
+        action: KeywordImportAction.CREATED,
+        keywordId: 'keyword-1',
+      }));
+      expect(mockKeywordService.createKeyword).toHaveBeenCalledWith({
+        text: 'smart camera',
+        searchVolume: 5000,
+        difficulty: 45.5,
+        cpc: 2.5,
+        productLine: ProductLine.CAMERA,
+        intentType: KeywordIntentType.COMMERCIAL,
+        stage: MarketingFunnelStage.MOFU,
+        source: KeywordSource.IMPORT,
+      }, userId);
+    });
+
+    it('should apply explicit column mapping', async () => {
+      // Arrange
+      const csv = ['Phrase,Monthly\n', 'robot vacuum,1200'].join('');
+
+      // Act
+      const report = await service.importKeywords({
+        fileName: 'keywords.csv',
+        content: toBase64(csv),
+        columnMapping: { text: 'Phrase', searchVolume: 'Monthly' },
+        dryRun: true,
+      }, userId);
+
+      // Assert
+      expect(report.rows[0]?.data).toEqual({ text: 'robot vacuum', searchVolume: 1200 });
+    });
+
+    it('should parse XLSX files', async () => {
+      // Arrange
+      const sheet = XLSX.utils.aoa_to_sheet([
+        ['keyword', 'volume'],
+        ['video doorbell', 8000],
+      ]);
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, sheet, 'Keywords');
+      const content = (XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer).toString('base64');
+
+      // Act
+      const report = await service.importKeywords({ fileName: 'keywords.xlsx', content, dryRun: true }, userId);
+
+      // Assert
+      expect(report.rows[0]).toEqual(expect.objectContaining({
+        text: 'video doorbell',
+        action: KeywordImportAction.CREATED,
+      }));
+    });
+
+    it('should report per-row validation errors without writing', async () => {
+      // Arrange
+      const csv = [
+        'keyword,search volume,product line',
+        ',100,camera',
+        'smart lock,abc,lock',
+        'smart camera,100,toaster',
+        'camera <script>,100,camera',
+      ].join('\n');
+
+      // Act
+      const report = await service.importKeywords({ fileName: 'keywords.csv', content: toBase64(csv) }, userId);
+
+      // Assert
+      expect(report.failedCount).toBe(4);
+      expect(report.rows.map(row => row.rowNumber)).toEqual([2, 3, 4, 5]);
+      expect(report.rows[0]?.errors).toContain('关键词文本不能为空');
+      expect(report.rows[1]?.errors[0]).toContain('searchVolume 不是有效数字');
+      expect(report.rows[2]?.errors[0]).toContain('productLine 包含无效值');
+      expect(report.rows[3]?.errors.length).toBeGreaterThan(0);
+      expect(mockKeywordService.createKeyword).not.toHaveBeenCalled();
+    });
+
+    it('should skip duplicates within the file and in the database', async () => {
+      // Arrange
+      const csv = ['keyword', 'smart camera', 'Smart Camera', 'video doorbell'].join('\n');
+      mockUniqueConstraint.validate.mockImplementation(async (text: string) => text !== 'video doorbell');
+      mockPrismaService.keyword.findFirst.mockResolvedValue({ id: 'keyword-existing' });
+      mockKeywordService.createKeyword.mockResolvedValue({ id: 'keyword-1' });
+
+      // Act
+      const report = await service.importKeywords({ fileName: 'keywords.csv', content: toBase64(csv) }, userId);
+
+      // Assert
+      expect(report.rows.map(row => row.action)).toEqual([
+        KeywordImportAction.CREATED,
+        KeywordImportAction.SKIPPED,
+        KeywordImportAction.SKIPPED,
+      ]);
+      expect(report.rows[2]?.keywordId).toBe('keyword-existing');
+      expect(mockKeywordService.updateKeyword).not.toHaveBeenCalled();
+    });
+
+    it('should update existing keywords with UPDATE strategy', async () => {
+      // Arrange
+      const csv = ['keyword,volume', 'smart camera,9000'].join('\n');
+      mockUniqueConstraint.validate.mockResolvedValue(false);
+      mockPrismaService.keyword.findFirst.mockResolvedValue({ id: 'keyword-existing' });
+
+      // Act
+      const report = await service.importKeywords({
+        fileName: 'keywords.csv',
+        content: toBase64(csv),
+        duplicateStrategy: KeywordImportDuplicateStrategy.UPDATE,
+      }, userId);
+
+      // Assert
+      expect(report.updatedCount).toBe(1);
+      expect(mockKeywordService.updateKeyword).toHaveBeenCalledWith(
+        { id: 'keyword-existing', searchVolume: 9000 },
+        userId,
+      );
+    });
+
+    it('should not write anything in dry run mode', async () => {
+      // Arrange
+      const csv = ['keyword', 'smart camera'].join('\n');
+
+      // Act
+      const report = await service.importKeywords({
+        fileName: 'keywords.csv',
+        content: toBase64(csv),
+        dryRun: true,
+      }, userId);
+
+      // Assert
+      expect(report.dryRun).toBe(true);
+      expect(report.createdCount).toBe(1);
+      expect(mockKeywordService.createKeyword).not.toHaveBeenCalled();
+    });
+
+    it('should mark row as failed when write fails', async () => {
+      // Arrange
+      const csv = ['keyword', 'smart camera'].join('\n');
+      mockKeywordService.createKeyword.mockRejectedValue(new Error('创建关键词时发生错误'));
+
+      // Act
+      const report = await service.importKeywords({ fileName: 'keywords.csv', content: toBase64(csv) }, userId);
+
+      // Assert
+      expect(report.rows[0]).toEqual(expect.objectContaining({
+        action: KeywordImportAction.FAILED,
+        errors: ['创建关键词时发生错误'],
+      }));
+    });
+
+    it('should reject unsupported file types', async () => {
+      await expect(
+        service.importKeywords({ fileName: 'keywords.txt', content: toBase64('keyword\nsmart camera') }, userId),
+      ).rejects.toThrow(KeywordImportFileException);
+    });
+
+    it('should reject files without a keyword column', async () => {
+      await expect(
+        service.importKeywords({ fileName: 'keywords.csv', content: toBase64('volume\n100') }, userId),
+      ).rejects.toThrow(KeywordImportFileException);
+    });
+  });
+});
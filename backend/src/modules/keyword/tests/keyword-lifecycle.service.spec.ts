@@ -0,0 +1,171 @@
+/**
+ * 关键词生命周期服务单元测试
+ *
+ * @description 测试 KeywordLifecycleService 的流转路径校验、按权限授权、原因校验、并发保护和批量流转
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { KeywordLifecycleService, KEYWORD_STATUS_TRANSITIONS } from '../services/keyword-lifecycle.service';
+import { PrismaService } from '@/common/prisma.service';
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSIONS } from '@/common/permissions';
+import {
+  InvalidKeywordStatusTransitionException,
+  KeywordBusinessLogicException,
+  KeywordPermissionDeniedException,
+  KeywordValidationException,
+} from '../exceptions/keyword.exceptions';
+import { KeywordStatus } from '../types/keyword.types';
+
+describe('KeywordLifecycleService', () => {
+  let service: KeywordLifecycleService;
+
+  const userId = 'user-123';
+  const editorPermissions = DEFAULT_ROLE_PERMISSIONS['editor']!;
+  const managerPermissions = DEFAULT_ROLE_PERMISSIONS['manager']!;
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    keyword: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+    keywordStatusHistory: {
+      create: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KeywordLifecycleService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<KeywordLifecycleService>(KeywordLifecycleService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation(callback => callback(mockPrismaService));
+    mockPrismaService.keyword.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.keyword.findUniqueOrThrow.mockImplementation(({ where }) => Promise.resolve({ id: where.id, text: 'security camera' }));
+  });
+
+  describe('transition rules', () => {
+    it('should require a known permission for every rule and a reason for every retirement', () => {
+      for (const rule of KEYWORD_STATUS_TRANSITIONS) {
+        expect(Object.values(PERMISSIONS)).toContain(rule.permission);
+        if (rule.to === KeywordStatus.RETIRED) {
+          expect(rule.permission).toBe(PERMISSIONS.KEYWORD_MANAGE);
+          expect(rule.reasonRequired).toBe(true);
+        }
+      }
+    });
+  });
+
+  describe('transitionStatus', () => {
+    it('should update the status conditionally and record history', async () => {
+      // Arrange
+      mockPrismaService.keyword.findUnique.mockResolvedValue({ id: 'k1', status: KeywordStatus.APPROVED });
+
+      // Act
+      await service.transitionStatus({ keywordId: 'k1', toStatus: KeywordStatus.IN_CONTENT, reason: '  ' }, userId, editorPermissions);
+
+      // Assert
+      expect(mockPrismaService.keyword.updateMany).toHaveBeenCalledWith({
+        where: { id: 'k1', status: KeywordStatus.APPROVED },
+        data: { status: KeywordStatus.IN_CONTENT },
+      });
+      expect(mockPrismaService.keywordStatusHistory.create).toHaveBeenCalledWith({
+        data: {
+          keywordId: 'k1',
+          fromStatus: KeywordStatus.APPROVED,
+          toStatus: KeywordStatus.IN_CONTENT,
+          reason: null,
+          changedBy: userId,
+        },
+      });
+    });
+
+    it('should authorize by permission rather than role name', async () => {
+      // Arrange
+      mockPrismaService.keyword.findUnique.mockResolvedValue({ id: 'k1', status: KeywordStatus.RESEARCHING });
+
+      // Act & Assert
+      await expect(service.transitionStatus({ keywordId: 'k1', toStatus: KeywordStatus.APPROVED }, userId, editorPermissions))
+        .rejects.toThrow(KeywordPermissionDeniedException);
+      // 自定义角色只要拥有 keyword:manage 即可批准
+      await expect(service.transitionStatus(
+        { keywordId: 'k1', toStatus: KeywordStatus.APPROVED },
+        userId,
+        [PERMISSIONS.KEYWORD_MANAGE],
+      )).resolves.toBeDefined();
+      expect(mockPrismaService.keyword.updateMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject transitions that are not in the rule table', async () => {
+      // Arrange
+      mockPrismaService.keyword.findUnique.mockResolvedValue({ id: 'k1', status: KeywordStatus.PROPOSED });
+
+      // Act & Assert
+      await expect(service.transitionStatus({ keywordId: 'k1', toStatus: KeywordStatus.PUBLISHED }, userId, managerPermissions))
+        .rejects.toThrow(InvalidKeywordStatusTransitionException);
+    });
+
+    it('should require a reason for rollbacks and retirements', async () => {
+      // Arrange
+      mockPrismaService.keyword.findUnique.mockResolvedValue({ id: 'k1', status: KeywordStatus.PUBLISHED });
+
+      // Act & Assert
+      await expect(service.transitionStatus({ keywordId: 'k1', toStatus: KeywordStatus.RETIRED }, userId, managerPermissions))
+        .rejects.toThrow(KeywordValidationException);
+      await expect(service.transitionStatus(
+        { keywordId: 'k1', toStatus: KeywordStatus.RETIRED, reason: 'x'.repeat(501) },
+        userId,
+        managerPermissions,
+      )).rejects.toThrow(KeywordValidationException);
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the status changed concurrently', async () => {
+      // Arrange
+      mockPrismaService.keyword.findUnique.mockResolvedValue({ id: 'k1', status: KeywordStatus.PROPOSED });
+      mockPrismaService.keyword.updateMany.mockResolvedValue({ count: 0 });
+
+      // Act & Assert
+      await expect(service.transitionStatus({ keywordId: 'k1', toStatus: KeywordStatus.RESEARCHING }, userId, editorPermissions))
+        .rejects.toThrow(KeywordBusinessLogicException);
+      expect(mockPrismaService.keywordStatusHistory.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bulkTransitionStatus', () => {
+    it('should transition eligible keywords and report the rest as errors', async () => {
+      // Arrange
+      mockPrismaService.keyword.findMany.mockResolvedValue([
+        { id: 'k1', status: KeywordStatus.IN_CONTENT },
+        { id: 'k2', status: KeywordStatus.PROPOSED },
+      ]);
+
+      // Act
+      const result = await service.bulkTransitionStatus(
+        { keywordIds: ['k1', 'k2', 'k3'], toStatus: KeywordStatus.PUBLISHED },
+        userId,
+        editorPermissions,
+      );
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.updatedCount).toBe(1);
+      expect(result.errors.map(error => error.keywordId)).toEqual(['k2', 'k3']);
+      expect(result.errors[1]!.error).toBe('关键词不存在');
+    });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * 关键词保存视图服务单元测试
+ *
+ * @description 测试 KeywordSavedViewService 的可见范围、名称校验、共享与角色默认视图、编辑权限
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { KeywordSavedViewService } from '../services/keyword-saved-view.service';
+import { PrismaService } from '@/common/prisma.service';
+import {
+  KeywordBusinessLogicException,
+  KeywordPermissionDeniedException,
+  KeywordSavedViewNotFoundException,
+  KeywordValidationException,
+} from '../exceptions/keyword.exceptions';
+
+describe('KeywordSavedViewService', () => {
+  let service: KeywordSavedViewService;
+
+  const userId = 'user-123';
+  const otherUserId = 'user-456';
+
+  const mockPrismaService = {
+    keywordSavedView: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+    role: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const buildView = (overrides: Record<string, unknown> = {}) => ({
+    id: 'view-1',
+    name: 'P0 cameras',
+    filter: { priorityLevels: ['P0'] },
+    sort: { field: 'searchVolume', direction: 'desc' },
+    visibleColumns: ['text', 'searchVolume'],
+    ownerId: userId,
+    isShared: false,
+    defaultForRoles: [] as string[],
+    createdAt: new Date('2025-03-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-03-01T00:00:00.000Z'),
+    owner: { id: userId, username: 'editor', fullName: null },
+    ...overrides,
+  });
+
+  const mockRole = (name: string | null) => {
+    mockPrismaService.user.findUnique.mockResolvedValue(name ? { role: { name } } : null);
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KeywordSavedViewService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<KeywordSavedViewService>(KeywordSavedViewService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockPrismaService.keywordSavedView.findUnique.mockResolvedValue(null);
+    mockPrismaService.keywordSavedView.create.mockImplementation(({ data }) => Promise.resolve(buildView(data)));
+    mockPrismaService.keywordSavedView.update.mockImplementation(({ data }) => Promise.resolve(buildView(data)));
+  });
+
+  describe('listViews', () => {
+    it('should list own views and shared views', async () => {
+      // Arrange
+      mockPrismaService.keywordSavedView.findMany.mockResolvedValue([buildView({ sort: null, filter: null })]);
+
+      // Act
+      const views = await service.listViews(userId);
+
+      // Assert
+      expect(mockPrismaService.keywordSavedView.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { OR: [{ ownerId: userId }, { isShared: true }] },
+      }));
+      expect(views[0]).toMatchObject({ sort: null, filter: {} });
+    });
+  });
+
+  describe('getDefaultView', () => {
+    it('should return the most recently updated default view for the user role', async () => {
+      // Arrange
+      mockRole('editor');
+      mockPrismaService.keywordSavedView.findFirst.mockResolvedValue(buildView({ defaultForRoles: ['editor'] }));
+
+      // Act
+      const view = await service.getDefaultView(userId);
+
+      // Assert
+      expect(mockPrismaService.keywordSavedView.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { defaultForRoles: { has: 'editor' } },
+        orderBy: { updatedAt: 'desc' },
+      }));
+      expect(view?.id).toBe('view-1');
+    });
+
+    it('should return null for unknown users', async () => {
+      // Arrange
+      mockRole(null);
+
+      // Act & Assert
+      await expect(service.getDefaultView(userId)).resolves.toBeNull();
+      expect(mockPrismaService.keywordSavedView.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createView', () => {
+    it('should trim the name, dedupe columns and store an empty sort as null', async () => {
+      // Act
+      await service.createView({ name: '  P0 cameras ', visibleColumns: ['text', ' text', 'cpc', ''] }, userId);
+
+      // Assert
+      expect(mockPrismaService.keywordSavedView.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          name: 'P0 cameras',
+          filter: {},
+          sort: Prisma.DbNull,
+          visibleColumns: ['text', 'cpc'],
+          ownerId: userId,
+          isShared: false,
+          defaultForRoles: [],
+        },
+      }));
+      expect(mockPrismaService.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should share role default views and only allow managers to set them', async () => {
+      // Arrange
+      mockRole('manager');
+      mockPrismaService.role.findMany.mockResolvedValue([{ name: 'editor' }]);
+
+      // Act
+      await service.createView({ name: 'Team default', defaultForRoles: ['editor', 'editor'] }, userId);
+
+      // Assert
+      expect(mockPrismaService.keywordSavedView.create.mock.calls[0][0].data).toMatchObject({
+        isShared: true,
+        defaultForRoles: ['editor'],
+      });
+    });
+
+    it('should reject default roles from non-managers and unknown roles', async () => {
+      // Arrange
+      mockRole('editor');
+
+      // Act & Assert
+      await expect(service.createView({ name: 'Team default', defaultForRoles: ['editor'] }, userId))
+        .rejects.toThrow(KeywordPermissionDeniedException);
+
+      mockRole('admin');
+      mockPrismaService.role.findMany.mockResolvedValue([]);
+      await expect(service.createView({ name: 'Team default', defaultForRoles: ['intern'] }, userId))
+        .rejects.toThrow('角色不存在: intern');
+      expect(mockPrismaService.keywordSavedView.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject duplicate names, blank names and invalid sort directions', async () => {
+      // Arrange
+      mockPrismaService.keywordSavedView.findUnique.mockResolvedValueOnce({ id: 'view-9' });
+
+      // Act & Assert
+      await expect(service.createView({ name: 'P0 cameras' }, userId)).rejects.toThrow(KeywordBusinessLogicException);
+      await expect(service.createView({ name: '   ' }, userId)).rejects.toThrow(KeywordValidationException);
+      await expect(service.createView({ name: 'Sorted', sort: { field: 'cpc', direction: 'up' } } as never, userId))
+        .rejects.toThrow(KeywordValidationException);
+    });
+  });
+
+  describe('updateView', () => {
+    it('should keep unspecified fields and check the new name against the owner', async () => {
+      // Arrange
+      mockPrismaService.keywordSavedView.findUnique
+        .mockResolvedValueOnce(buildView())
+        .mockResolvedValueOnce(null);
+
+      // Act
+      await service.updateView({ id: 'view-1', name: 'Renamed' }, userId);
+
+      // Assert
+      expect(mockPrismaService.keywordSavedView.findUnique).toHaveBeenLastCalledWith({
+        where: { ownerId_name: { ownerId: userId, name: 'Renamed' } },
+        select: { id: true },
+      });
+      expect(mockPrismaService.keywordSavedView.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { name: 'Renamed', isShared: false, defaultForRoles: [] },
+      }));
+    });
+
+    it('should hide private views of other users', async () => {
+      // Arrange
+      mockPrismaService.keywordSavedView.findUnique.mockResolvedValue(buildView({ ownerId: otherUserId }));
+
+      // Act & Assert
+      await expect(service.updateView({ id: 'view-1', name: 'Mine now' }, userId))
+        .rejects.toThrow(KeywordSavedViewNotFoundException);
+    });
+
+    it('should only let managers edit shared views of other users', async () => {
+      // Arrange
+      mockPrismaService.keywordSavedView.findUnique.mockResolvedValue(buildView({ ownerId: otherUserId, isShared: true }));
+      mockRole('editor');
+
+      // Act & Assert
+      await expect(service.deleteView('view-1', userId)).rejects.toThrow(KeywordPermissionDeniedException);
+
+      mockRole('manager');
+      await expect(service.deleteView('view-1', userId)).resolves.toBe(true);
+      expect(mockPrismaService.keywordSavedView.delete).toHaveBeenCalledWith({ where: { id: 'view-1' } });
+    });
+  });
+});
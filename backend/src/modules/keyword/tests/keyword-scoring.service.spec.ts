@@ -0,0 +1,262 @@
+/**
+ * 关键词优先级评分服务单元测试
+ *
+ * @description 测试 KeywordScoringService 的因子计算、阈值映射、产品线配置选择和重新评级预览
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { KeywordScoringService, DEFAULT_SCORING_PRODUCT_LINE } from '../services/keyword-scoring.service';
+import { PrismaService } from '@/common/prisma.service';
+import {
+  KeywordBusinessLogicException,
+  KeywordValidationException,
+} from '../exceptions/keyword.exceptions';
+import {
+  KeywordIntentType,
+  KeywordPriorityLevel,
+  KeywordScoringFactor,
+  KeywordScoringWeights,
+  KeywordTierThresholds,
+  MarketingFunnelStage,
+} from '../types/keyword.types';
+
+describe('KeywordScoringService', () => {
+  let service: KeywordScoringService;
+
+  const userId = 'user-123';
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    keyword: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    keywordScoringConfig: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  /** 只按单一因子计分的权重 */
+  const onlyWeight = (factor: KeywordScoringFactor): KeywordScoringWeights => ({
+    [KeywordScoringFactor.SEARCH_VOLUME]: 0,
+    [KeywordScoringFactor.DIFFICULTY]: 0,
+    [KeywordScoringFactor.CPC]: 0,
+    [KeywordScoringFactor.AIO_SCORE]: 0,
+    [KeywordScoringFactor.INTENT]: 0,
+    [KeywordScoringFactor.RANKING]: 0,
+    [factor]: 1,
+  });
+
+  const thresholds: KeywordTierThresholds = {
+    [KeywordPriorityLevel.P0]: 75,
+    [KeywordPriorityLevel.P1]: 60,
+    [KeywordPriorityLevel.P2]: 45,
+    [KeywordPriorityLevel.P3]: 30,
+  };
+
+  const buildKeyword = (overrides: Record<string, unknown> = {}) => ({
+    id: 'keyword-1',
+    text: 'best security camera',
+    searchVolume: null as number | null,
+    difficulty: null as Prisma.Decimal | null,
+    cpc: null as Prisma.Decimal | null,
+    intentType: null as string | null,
+    stage: null as string | null,
+    productLine: null as string | null,
+    priorityLevel: null as string | null,
+    metrics: [] as Array<{ googlePosition: number | null; aioDisplayed: boolean; topCompetitors: Prisma.JsonValue }>,
+    ...overrides,
+  });
+
+  const buildConfigRow = (productLine: string, weights: Partial<KeywordScoringWeights>) => ({
+    productLine,
+    weights,
+    thresholds: {},
+    updatedAt: new Date('2025-03-01T00:00:00.000Z'),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KeywordScoringService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<KeywordScoringService>(KeywordScoringService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockPrismaService.keywordScoringConfig.findMany.mockResolvedValue([]);
+    mockPrismaService.keyword.updateMany.mockImplementation(args => args);
+  });
+
+  describe('scoreKeyword', () => {
+    it('should score search volume on a log scale and map it to a tier', () => {
+      // Act
+      const high = service.scoreKeyword(buildKeyword({ searchVolume: 100000 }) as never, {
+        weights: onlyWeight(KeywordScoringFactor.SEARCH_VOLUME),
+        thresholds,
+      });
+      const low = service.scoreKeyword(buildKeyword({ searchVolume: 99 }) as never, {
+        weights: onlyWeight(KeywordScoringFactor.SEARCH_VOLUME),
+        thresholds,
+      });
+
+      // Assert
+      expect(high).toMatchObject({ score: 100, suggestedLevel: KeywordPriorityLevel.P0 });
+      expect(low).toMatchObject({ score: 40, suggestedLevel: KeywordPriorityLevel.P3 });
+    });
+
+    it('should invert difficulty and cap cpc', () => {
+      // Act
+      const score = service.scoreKeyword(buildKeyword({
+        difficulty: new Prisma.Decimal(30),
+        cpc: new Prisma.Decimal(25),
+      }) as never, { weights: onlyWeight(KeywordScoringFactor.DIFFICULTY), thresholds });
+
+      // Assert
+      expect(score.factors[KeywordScoringFactor.DIFFICULTY]).toBe(70);
+      expect(score.factors[KeywordScoringFactor.CPC]).toBe(100);
+      expect(score.suggestedLevel).toBe(KeywordPriorityLevel.P1);
+    });
+
+    it('should average intent and funnel stage and favour positions 4-10', () => {
+      // Act
+      const score = service.scoreKeyword(buildKeyword({
+        intentType: KeywordIntentType.TRANSACTIONAL,
+        stage: MarketingFunnelStage.TOFU,
+        metrics: [{ googlePosition: 6, aioDisplayed: false, topCompetitors: [] }],
+      }) as never, { weights: onlyWeight(KeywordScoringFactor.INTENT), thresholds });
+
+      // Assert
+      expect(score.factors[KeywordScoringFactor.INTENT]).toBe(75);
+      expect(score.factors[KeywordScoringFactor.RANKING]).toBe(100);
+    });
+
+    it('should use neutral scores when data is missing and fall back to P4', () => {
+      // Act
+      const score = service.scoreKeyword(buildKeyword() as never, {
+        weights: onlyWeight(KeywordScoringFactor.RANKING),
+        thresholds: { ...thresholds, [KeywordPriorityLevel.P3]: 55, [KeywordPriorityLevel.P2]: 56 },
+      });
+
+      // Assert
+      expect(score.factors[KeywordScoringFactor.SEARCH_VOLUME]).toBe(50);
+      expect(score.factors[KeywordScoringFactor.RANKING]).toBe(50);
+      expect(score.suggestedLevel).toBe(KeywordPriorityLevel.P4);
+    });
+  });
+
+  describe('getScoringConfig', () => {
+    it('should prefer the product line config, then the default config, then built-in values', async () => {
+      // Arrange
+      mockPrismaService.keywordScoringConfig.findMany.mockResolvedValue([
+        buildConfigRow('camera', { [KeywordScoringFactor.SEARCH_VOLUME]: 0.5 }),
+        buildConfigRow(DEFAULT_SCORING_PRODUCT_LINE, { [KeywordScoringFactor.CPC]: 0.4 }),
+      ]);
+
+      // Act
+      const camera = await service.getScoringConfig('camera');
+      const vacuum = await service.getScoringConfig('vacuum');
+
+      // Assert
+      expect(camera.productLine).toBe('camera');
+      expect(camera.weights[KeywordScoringFactor.SEARCH_VOLUME]).toBe(0.5);
+      expect(camera.weights[KeywordScoringFactor.DIFFICULTY]).toBe(0.1);
+      expect(vacuum.productLine).toBe(DEFAULT_SCORING_PRODUCT_LINE);
+      expect(vacuum.weights[KeywordScoringFactor.CPC]).toBe(0.4);
+    });
+
+    it('should return built-in defaults when nothing is stored', async () => {
+      // Act
+      const config = await service.getScoringConfig('camera');
+
+      // Assert
+      expect(config).toMatchObject({ productLine: DEFAULT_SCORING_PRODUCT_LINE, isBuiltIn: true, updatedAt: null });
+    });
+  });
+
+  describe('saveScoringConfig', () => {
+    it('should reject thresholds that are not strictly descending', async () => {
+      // Act & Assert
+      await expect(service.saveScoringConfig({
+        productLine: 'camera',
+        thresholds: { [KeywordPriorityLevel.P1]: 80 },
+      } as never, userId)).rejects.toThrow(KeywordValidationException);
+      expect(mockPrismaService.keywordScoringConfig.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown product lines', async () => {
+      // Act & Assert
+      await expect(service.saveScoringConfig({ productLine: 'toaster' } as never, userId))
+        .rejects.toThrow('无效的产品线: toaster');
+    });
+  });
+
+  describe('regradeKeywords', () => {
+    beforeEach(() => {
+      mockPrismaService.keywordScoringConfig.findMany.mockResolvedValue([
+        buildConfigRow(DEFAULT_SCORING_PRODUCT_LINE, onlyWeight(KeywordScoringFactor.SEARCH_VOLUME)),
+      ]);
+      mockPrismaService.keyword.findMany.mockResolvedValue([
+        buildKeyword({ id: 'keyword-1', searchVolume: 100000, priorityLevel: 'P2' }),
+        buildKeyword({ id: 'keyword-2', searchVolume: 99, priorityLevel: 'P0' }),
+        buildKeyword({ id: 'keyword-3', searchVolume: 100000, priorityLevel: 'P0' }),
+      ]);
+    });
+
+    it('should report changes without writing on a dry run', async () => {
+      // Act
+      const report = await service.regradeKeywords({ dryRun: true });
+
+      // Assert
+      expect(report).toMatchObject({
+        dryRun: true,
+        totalKeywords: 3,
+        changedCount: 2,
+        upgradedCount: 1,
+        downgradedCount: 1,
+        distributionBefore: { P0: 2, P2: 1 },
+        distributionAfter: { P0: 2, P3: 1 },
+      });
+      expect(report.changes.map(change => change.keywordId)).toEqual(['keyword-1', 'keyword-2']);
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should update changed keywords grouped by new level', async () => {
+      // Act
+      const report = await service.regradeKeywords({}, userId);
+
+      // Assert
+      expect(report.dryRun).toBe(false);
+      expect(mockPrismaService.$transaction).toHaveBeenCalledWith([
+        { where: { id: { in: ['keyword-1'] } }, data: { priorityLevel: KeywordPriorityLevel.P0 } },
+        { where: { id: { in: ['keyword-2'] } }, data: { priorityLevel: KeywordPriorityLevel.P3 } },
+      ]);
+    });
+
+    it('should preview temporary weights only on a dry run', async () => {
+      // Act
+      const preview = await service.regradeKeywords({
+        dryRun: true,
+        thresholds: { [KeywordPriorityLevel.P3]: 41 },
+      } as never);
+
+      // Assert
+      expect(preview.distributionAfter).toEqual({ P0: 2, P4: 1 });
+      await expect(service.regradeKeywords({ thresholds: { [KeywordPriorityLevel.P3]: 41 } } as never))
+        .rejects.toThrow(KeywordBusinessLogicException);
+      await expect(service.regradeKeywords({ dryRun: true, weights: { [KeywordScoringFactor.CPC]: -1 } } as never))
+        .rejects.toThrow(KeywordValidationException);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * 关键词检索服务单元测试
+ *
+ * @description 测试 KeywordSearchService 的综合得分、命中区间解析、筛选条件和相似关键词查询
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { KeywordSearchService } from '../services/keyword-search.service';
+import { PrismaService } from '@/common/prisma.service';
+import { KeywordValidationException } from '../exceptions/keyword.exceptions';
+import { KeywordStatus, ProductLine } from '../types/keyword.types';
+
+describe('KeywordSearchService', () => {
+  let service: KeywordSearchService;
+
+  const mockPrismaService = {
+    $queryRaw: jest.fn(),
+    keyword: {
+      findMany: jest.fn(),
+    },
+  };
+
+  /** 还原第 n 次 $queryRaw 调用的完整 SQL 和参数 */
+  const rawQuery = (index: number) => {
+    const [strings, ...values] = mockPrismaService.$queryRaw.mock.calls[index];
+    return Prisma.sql(strings, ...values);
+  };
+
+  const buildKeyword = (id: string) => ({ id, text: `keyword ${id}`, assignee: null, creator: null });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KeywordSearchService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<KeywordSearchService>(KeywordSearchService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockPrismaService.keyword.findMany.mockImplementation(({ where }) =>
+      Promise.resolve(where.id.in.filter((id: string) => id !== 'deleted').map(buildKeyword)),
+    );
+  });
+
+  describe('search', () => {
+    it('should combine text rank and similarity and parse highlight offsets', async () => {
+      // Arrange
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([
+          { id: 'k1', textRank: 0.5, similarity: 0.25, headline: '\u0002security\u0003 \u0002camera\u0003s' },
+          { id: 'k2', textRank: 0, similarity: 0.61234, headline: null },
+          { id: 'deleted', textRank: 0.1, similarity: 0.1, headline: null },
+        ])
+        .mockResolvedValueOnce([{ total: 3 }]);
+
+      // Act
+      const result = await service.search({ query: '  security   cameras ' });
+
+      // Assert
+      expect(result.total).toBe(3);
+      expect(result.hits.map(hit => hit.keyword.id)).toEqual(['k1', 'k2']);
+      expect(result.hits[0]).toMatchObject({
+        score: 0.4,
+        textRank: 0.5,
+        similarity: 0.25,
+        highlights: [{ start: 0, length: 8 }, { start: 9, length: 6 }],
+      });
+      expect(result.hits[1]).toMatchObject({ score: 0.2449, similarity: 0.6123, highlights: [] });
+      expect(rawQuery(0).values).toContain('security cameras');
+    });
+
+    it('should exclude retired keywords unless statuses are given and clamp the page size', async () => {
+      // Arrange
+      mockPrismaService.$queryRaw.mockResolvedValue([]);
+
+      // Act
+      await service.search({ query: 'doorbell', limit: 1000, productLine: ProductLine.DOORBELL });
+      await service.search({ query: 'doorbell', statuses: [KeywordStatus.RETIRED] });
+
+      // Assert
+      const defaultQuery = rawQuery(0);
+      expect(defaultQuery.sql).toContain('k.status <> ?');
+      expect(defaultQuery.sql).toContain('k.product_line = ?');
+      expect(defaultQuery.values).toEqual(expect.arrayContaining([KeywordStatus.RETIRED, ProductLine.DOORBELL, 100]));
+
+      const retiredQuery = rawQuery(2);
+      expect(retiredQuery.sql).toContain('k.status IN (?)');
+      expect(retiredQuery.sql).not.toContain('k.status <>');
+      expect(mockPrismaService.keyword.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should return nothing for a blank query and reject overly long queries', async () => {
+      // Act & Assert
+      await expect(service.search({ query: '   ' })).resolves.toEqual({ hits: [], total: 0 });
+      await expect(service.search({ query: 'x'.repeat(201) })).rejects.toThrow(KeywordValidationException);
+      expect(mockPrismaService.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findSimilar', () => {
+    it('should return near duplicates with rounded similarity and the same-terms flag', async () => {
+      // Arrange
+      mockPrismaService.$queryRaw.mockResolvedValue([
+        { id: 'k2', similarity: 0.412345, sameTerms: true },
+        { id: 'k3', similarity: 0.8, sameTerms: false },
+      ]);
+
+      // Act
+      const matches = await service.findSimilar({ text: 'cameras security', excludeKeywordId: 'k1' });
+
+      // Assert
+      expect(matches).toEqual([
+        { keyword: expect.objectContaining({ id: 'k2' }), similarity: 0.4123, sameTerms: true },
+        { keyword: expect.objectContaining({ id: 'k3' }), similarity: 0.8, sameTerms: false },
+      ]);
+      const query = rawQuery(0);
+      expect(query.sql).toContain('k.id <> ?');
+      expect(query.values).toEqual(expect.arrayContaining(['k1', 0.5, 10]));
+    });
+
+    it('should reject thresholds below the trigram index threshold', async () => {
+      // Act & Assert
+      await expect(service.findSimilar({ text: 'doorbell', threshold: 0.2 })).rejects.toThrow(KeywordValidationException);
+      await expect(service.findSimilar({ text: 'doorbell', threshold: 1.1 })).rejects.toThrow(KeywordValidationException);
+      expect(mockPrismaService.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+});
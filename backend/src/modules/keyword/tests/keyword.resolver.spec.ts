@@ -8,9 +8,20 @@
 
 import { Test, TestingModule } from '@nestjs/testing';
 import { ExecutionContext } from '@nestjs/common';
+import { CacheInterceptor } from '@nestjs/cache-manager';
+import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
+import { RolesGuard } from '@/common/guards/roles.guard';
 import { KeywordResolver } from '../resolvers/keyword.resolver';
 import { KeywordService } from '../services/keyword.service';
 import { KeywordLoaderService } from '../loaders/keyword.loader';
+import { KeywordImportService } from '../services/keyword-import.service';
+import { KeywordScoringService } from '../services/keyword-scoring.service';
+import { KeywordClusteringService } from '../services/keyword-clustering.service';
+import { KeywordCannibalizationService } from '../services/keyword-cannibalization.service';
+import { KeywordGapService } from '../services/keyword-gap.service';
+import { KeywordLifecycleService } from '../services/keyword-lifecycle.service';
+import { KeywordSavedViewService } from '../services/keyword-saved-view.service';
+import { KeywordSearchService } from '../services/keyword-search.service';
 import {
   KeywordPriorityLevel,
   KeywordCompetitionLevel,
@@ -19,6 +30,7 @@ import {
   MarketingFunnelStage,
   AIOStatus,
   KeywordStatus,
+  KeywordImportAction,
 } from '../types/keyword.types';
 import {
   CreateKeywordInputDto,
@@ -26,6 +38,7 @@ import {
   KeywordQueryInputDto,
   BulkUpdateKeywordsInputDto,
   AIOMonitoringInputDto,
+  ImportKeywordsInputDto,
 } from '../dto/keyword.dto';
 
 describe('KeywordResolver', () => {
@@ -55,7 +68,7 @@ describe('KeywordResolver', () => {
     aioStatus: AIOStatus.NOT_MONITORED,
     aioFirstSeenAt: null,
     aioCoverageScore: null,
-    status: KeywordStatus.ACTIVE,
+    status: KeywordStatus.APPROVED,
     assignedTo: null,
     createdBy: mockUser.id,
     createdAt: new Date('2024-01-01T00:00:00Z'),
@@ -101,6 +114,10 @@ describe('KeywordResolver', () => {
     clearKeywordCache: jest.fn(),
   };
 
+  const mockImportService = {
+    importKeywords: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -113,8 +130,25 @@ describe('KeywordResolver', () => {
           provide: KeywordLoaderService,
           useValue: mockLoaderService,
         },
+        {
+          provide: KeywordImportService,
+          useValue: mockImportService,
+        },
+        // 以下服务由各自的单元测试覆盖，这里只需满足依赖注入
+        { provide: KeywordScoringService, useValue: {} },
+        { provide: KeywordClusteringService, useValue: {} },
+        { provide: KeywordCannibalizationService, useValue: {} },
+        { provide: KeywordGapService, useValue: {} },
+        { provide: KeywordLifecycleService, useValue: {} },
+        { provide: KeywordSavedViewService, useValue: {} },
+        { provide: KeywordSearchService, useValue: {} },
       ],
-    }).compile();
+    })
+      // 守卫和缓存由各自的测试覆盖，这里直接调用解析器方法
+      .overrideGuard(JwtAuthGuard).useValue({ canActivate: () => true })
+      .overrideGuard(RolesGuard).useValue({ canActivate: () => true })
+      .overrideInterceptor(CacheInterceptor).useValue({ intercept: (_context: ExecutionContext, next: any) => next.handle() })
+      .compile();
 
     resolver = module.get<KeywordResolver>(KeywordResolver);
     keywordService = module.get<KeywordService>(KeywordService);
@@ -387,7 +421,6 @@ describe('KeywordResolver', () => {
       const bulkInput: BulkUpdateKeywordsInputDto = {
         keywordIds: ['keyword-1', 'keyword-2'],
         priorityLevel: KeywordPriorityLevel.P0,
-        status: KeywordStatus.ACTIVE,
       };
 
       const bulkResult = {
@@ -437,6 +470,57 @@ describe('KeywordResolver', () => {
     });
   });
 
+  describe('Mutation: importKeywords', () => {
+    const importInput: ImportKeywordsInputDto = {
+      fileName: 'keywords.csv',
+      content: Buffer.from('keyword,search volume\nsmart camera,5000').toString('base64'),
+      dryRun: false,
+    };
+
+    const mockReport = {
+      dryRun: false,
+      totalRows: 1,
+      createdCount: 1,
+      updatedCount: 0,
+      skippedCount: 0,
+      failedCount: 0,
+      rows: [
+        {
+          rowNumber: 2,
+          text: 'smart camera',
+          action: KeywordImportAction.CREATED,
+          keywordId: mockKeyword.id,
+          errors: [],
+          data: { text: 'smart camera', searchVolume: 5000 },
+        },
+      ],
+    };
+
+    it('should import keywords and clear caches', async () => {
+      // Arrange
+      mockImportService.importKeywords.mockResolvedValue(mockReport);
+
+      // Act
+      const result = await resolver.importKeywords(importInput, mockUser);
+
+      // Assert
+      expect(result).toEqual(mockReport);
+      expect(mockImportService.importKeywords).toHaveBeenCalledWith(importInput, mockUser.id);
+      expect(mockLoaderService.clearAllCaches).toHaveBeenCalled();
+    });
+
+    it('should not clear caches for dry run preview', async () => {
+      // Arrange
+      mockImportService.importKeywords.mockResolvedValue({ ...mockReport, dryRun: true });
+
+      // Act
+      await resolver.importKeywords({ ...importInput, dryRun: true }, mockUser);
+
+      // Assert
+      expect(mockLoaderService.clearAllCaches).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Field Resolvers', () => {
     describe('resolveAssignee', () => {
       it('should return assignee when keyword has assignedTo', async () => {
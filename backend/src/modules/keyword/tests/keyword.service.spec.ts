@@ -10,7 +10,9 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { BadRequestException, NotFoundException, ConflictException } from '@nestjs/common';
 import { Prisma } from '@prisma/client';
 import { KeywordService } from '../services/keyword.service';
-import { PrismaService } from '@/common/services/prisma.service';
+import { PrismaService } from '@/common/prisma.service';
+import { AlertRulesService } from '@/services/alert-rules.service';
+import { KeywordSearchService } from '../services/keyword-search.service';
 import {
   KeywordPriorityLevel,
   KeywordCompetitionLevel,
@@ -22,62 +24,70 @@ import {
   KeywordErrorCode,
 } from '../types/keyword.types';
 
+const mockAlertRulesService = {
+  evaluateKeywordRules: jest.fn(),
+};
+
+const mockKeywordSearchService = {
+  search: jest.fn(),
+};
+
+// 测试数据
+const mockUser = {
+  id: 'user-123',
+  email: 'test@example.com',
+  username: 'testuser',
+  fullName: 'Test User',
+};
+
+const mockKeyword = {
+  id: 'keyword-123',
+  text: 'smart camera',
+  searchVolume: 5000,
+  difficulty: new Prisma.Decimal(45.5),
+  cpc: new Prisma.Decimal(2.50),
+  competitionLevel: KeywordCompetitionLevel.MEDIUM,
+  priorityLevel: KeywordPriorityLevel.P1,
+  intentType: KeywordIntentType.COMMERCIAL,
+  productLine: ProductLine.CAMERA,
+  stage: MarketingFunnelStage.MOFU,
+  aioStatus: AIOStatus.NOT_MONITORED,
+  aioFirstSeenAt: null,
+  aioCoverageScore: null,
+  status: KeywordStatus.APPROVED,
+  assignedTo: null,
+  createdBy: mockUser.id,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+};
+
+// Mock PrismaService
+const mockPrismaService = {
+  keyword: {
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    updateMany: jest.fn(),
+    count: jest.fn(),
+    groupBy: jest.fn(),
+  },
+  user: {
+    findUnique: jest.fn(),
+  },
+  keywordMetric: {
+    upsert: jest.fn(),
+    aggregate: jest.fn(),
+    groupBy: jest.fn(),
+  },
+};
+
 describe('KeywordService', () => {
   let service: KeywordService;
   let prismaService: PrismaService;
 
-  // 测试数据
-  const mockUser = {
-    id: 'user-123',
-    email: 'test@example.com',
-    username: 'testuser',
-    fullName: 'Test User',
-  };
-
-  const mockKeyword = {
-    id: 'keyword-123',
-    text: 'smart camera',
-    searchVolume: 5000,
-    difficulty: new Prisma.Decimal(45.5),
-    cpc: new Prisma.Decimal(2.50),
-    competitionLevel: KeywordCompetitionLevel.MEDIUM,
-    priorityLevel: KeywordPriorityLevel.P1,
-    intentType: KeywordIntentType.COMMERCIAL,
-    productLine: ProductLine.CAMERA,
-    stage: MarketingFunnelStage.MOFU,
-    aioStatus: AIOStatus.NOT_MONITORED,
-    aioFirstSeenAt: null,
-    aioCoverageScore: null,
-    status: KeywordStatus.ACTIVE,
-    assignedTo: null,
-    createdBy: mockUser.id,
-    createdAt: new Date('2024-01-01T00:00:00Z'),
-    updatedAt: new Date('2024-01-01T00:00:00Z'),
-  };
-
-  // Mock PrismaService
-  const mockPrismaService = {
-    keyword: {
-      findFirst: jest.fn(),
-      findUnique: jest.fn(),
-      findMany: jest.fn(),
-      create: jest.fn(),
-      update: jest.fn(),
-      delete: jest.fn(),
-      updateMany: jest.fn(),
-      count: jest.fn(),
-      groupBy: jest.fn(),
-    },
-    user: {
-      findUnique: jest.fn(),
-    },
-    keywordMetric: {
-      upsert: jest.fn(),
-      aggregate: jest.fn(),
-      groupBy: jest.fn(),
-    },
-  };
-
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -86,6 +96,14 @@ describe('KeywordService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: AlertRulesService,
+          useValue: mockAlertRulesService,
+        },
+        {
+          provide: KeywordSearchService,
+          useValue: mockKeywordSearchService,
+        },
       ],
     }).compile();
 
@@ -149,7 +167,7 @@ describe('KeywordService', () => {
           productLine: createInput.productLine,
           stage: createInput.stage,
           createdBy: mockUser.id,
-          status: KeywordStatus.ACTIVE,
+          status: KeywordStatus.PROPOSED,
           aioStatus: AIOStatus.NOT_MONITORED,
         }),
         include: expect.any(Object),
@@ -378,7 +396,7 @@ describe('KeywordService', () => {
       const filters = {
         text: 'camera',
         priorityLevel: KeywordPriorityLevel.P1,
-        status: KeywordStatus.ACTIVE,
+        status: KeywordStatus.APPROVED,
       };
       
       mockPrismaService.keyword.findMany.mockResolvedValue(mockKeywords);
@@ -406,37 +424,31 @@ describe('KeywordService', () => {
   });
 
   describe('searchKeywords', () => {
-    it('should search keywords by text', async () => {
+    it('should return keywords ranked by the search service', async () => {
       // Arrange
       const query = 'camera';
-      mockPrismaService.keyword.findMany.mockResolvedValue([mockKeyword]);
+      mockKeywordSearchService.search.mockResolvedValue({
+        hits: [{ keyword: mockKeyword, score: 0.8, textRank: 0.7, similarity: 0.9, highlights: [] }],
+        total: 1,
+      });
 
       // Act
       const result = await service.searchKeywords(query, 10);
 
       // Assert
       expect(result).toEqual([mockKeyword]);
-      expect(mockPrismaService.keyword.findMany).toHaveBeenCalledWith({
-        where: {
-          OR: [
-            {
-              text: {
-                contains: query.trim(),
-                mode: 'insensitive',
-              },
-            },
-            {
-              text: {
-                search: query.trim().split(' ').join(' & '),
-              },
-            },
-          ],
-          status: KeywordStatus.ACTIVE,
-        },
-        include: expect.any(Object),
-        take: 10,
-        orderBy: expect.any(Array),
-      });
+      expect(mockKeywordSearchService.search).toHaveBeenCalledWith({ query, limit: 10 });
+    });
+
+    it('should cap limit at 50', async () => {
+      // Arrange
+      mockKeywordSearchService.search.mockResolvedValue({ hits: [], total: 0 });
+
+      // Act
+      await service.searchKeywords('camera', 500);
+
+      // Assert
+      expect(mockKeywordSearchService.search).toHaveBeenCalledWith({ query: 'camera', limit: 50 });
     });
 
     it('should return empty array for empty query', async () => {
@@ -445,7 +457,7 @@ describe('KeywordService', () => {
 
       // Assert
       expect(result).toEqual([]);
-      expect(mockPrismaService.keyword.findMany).not.toHaveBeenCalled();
+      expect(mockKeywordSearchService.search).not.toHaveBeenCalled();
     });
   });
 
@@ -453,7 +465,6 @@ describe('KeywordService', () => {
     const bulkInput = {
       keywordIds: ['keyword-123', 'keyword-456'],
       priorityLevel: KeywordPriorityLevel.P0,
-      status: KeywordStatus.ACTIVE,
     };
 
     it('should update multiple keywords successfully', async () => {
@@ -482,7 +493,6 @@ describe('KeywordService', () => {
         },
         data: {
           priorityLevel: bulkInput.priorityLevel,
-          status: bulkInput.status,
         },
       });
     });
@@ -567,6 +577,8 @@ describe('KeywordService', () => {
           aioFirstSeenAt: aioInput.metricDate,
         },
       });
+
+      expect(mockAlertRulesService.evaluateKeywordRules).toHaveBeenCalledWith([aioInput.keywordId]);
     });
 
     it('should throw NotFoundException when keyword not found', async () => {
@@ -627,6 +639,14 @@ describe('KeywordService Error Handling', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: AlertRulesService,
+          useValue: mockAlertRulesService,
+        },
+        {
+          provide: KeywordSearchService,
+          useValue: mockKeywordSearchService,
+        },
       ],
     }).compile();
 
@@ -7,24 +7,15 @@
  */
 
 import { Prisma, Keyword as PrismaKeyword, KeywordMetric as PrismaKeywordMetric } from '@prisma/client';
+import { PriorityTier as KeywordPriorityLevel } from '@geo-platform/shared';
+import { Permission } from '@/common/permissions';
 
 // ==================== 枚举类型定义 ====================
 
 /**
- * 关键词优先级等级
- * P0: 最高优先级（核心产品关键词）
- * P1: 高优先级（主要功能关键词）
- * P2: 中等优先级（辅助功能关键词）
- * P3: 低优先级（长尾关键词）
- * P4: 最低优先级（实验性关键词）
+ * 关键词优先级等级，与工作流任务和前端共用 shared 中的 P0-P4 分级
  */
-export enum KeywordPriorityLevel {
-  P0 = 'P0',
-  P1 = 'P1',
-  P2 = 'P2',
-  P3 = 'P3',
-  P4 = 'P4',
-}
+export { KeywordPriorityLevel };
 
 /**
  * 关键词竞争等级
@@ -76,13 +67,25 @@ export enum AIOStatus {
 }
 
 /**
- * 关键词状态
+ * 关键词生命周期状态
  */
 export enum KeywordStatus {
-  ACTIVE = 'active',        // 活跃
-  INACTIVE = 'inactive',    // 非活跃
-  ARCHIVED = 'archived',    // 已归档
-  DRAFT = 'draft',         // 草稿
+  PROPOSED = 'proposed',        // 待评估
+  RESEARCHING = 'researching',  // 调研中
+  APPROVED = 'approved',        // 已批准
+  IN_CONTENT = 'in_content',    // 内容制作中
+  PUBLISHED = 'published',      // 已发布
+  MONITORING = 'monitoring',    // 监测中
+  RETIRED = 'retired',          // 已退役
+}
+
+/**
+ * 关键词来源
+ */
+export enum KeywordSource {
+  MANUAL = 'manual',                 // 手动创建
+  IMPORT = 'import',                 // 批量导入
+  COMPETITOR_GAP = 'competitor_gap', // 竞品差距分析
 }
 
 // ==================== 核心实体类型 ====================
@@ -101,6 +104,9 @@ export interface Keyword extends PrismaKeyword {
   readonly intentType: KeywordIntentType | null;
   readonly productLine: ProductLine | null;
   readonly stage: MarketingFunnelStage | null;
+  readonly clusterId: string | null;
+  readonly source: KeywordSource;
+  readonly sourceDomains: string[];
   readonly aioStatus: AIOStatus;
   readonly aioFirstSeenAt: Date | null;
   readonly aioCoverageScore: Prisma.Decimal | null;
@@ -127,6 +133,7 @@ export interface KeywordMetric extends PrismaKeywordMetric {
   readonly organicTraffic: number | null;
   readonly organicCtr: Prisma.Decimal | null;
   readonly topCompetitors: Prisma.JsonValue | null;
+  readonly ownResults: Prisma.JsonValue | null;
   readonly createdAt: Date;
 }
 
@@ -173,6 +180,10 @@ export interface CreateKeywordInput {
   readonly productLine?: ProductLine | null;
   readonly stage?: MarketingFunnelStage | null;
   readonly assignedTo?: string | null;
+  readonly source?: KeywordSource;
+  readonly sourceDomains?: ReadonlyArray<string>;
+  /** 未指定时为 not_monitored */
+  readonly aioStatus?: AIOStatus;
 }
 
 /**
@@ -189,7 +200,6 @@ export interface UpdateKeywordInput {
   readonly intentType?: KeywordIntentType | null;
   readonly productLine?: ProductLine | null;
   readonly stage?: MarketingFunnelStage | null;
-  readonly status?: KeywordStatus;
   readonly assignedTo?: string | null;
   readonly aioStatus?: AIOStatus;
   readonly aioCoverageScore?: number | null;
@@ -302,7 +312,7 @@ export interface AIOStats {
 export interface BulkUpdateKeywordsInput {
   readonly keywordIds: ReadonlyArray<string>;
   readonly updates: Partial<Pick<UpdateKeywordInput, 
-    'priorityLevel' | 'status' | 'assignedTo' | 'competitionLevel' | 
+    'priorityLevel' | 'assignedTo' | 'competitionLevel' | 
     'intentType' | 'productLine' | 'stage'
   >>;
 }
@@ -319,6 +329,580 @@ export interface BulkOperationResult {
   }>;
 }
 
+// ==================== 批量导入类型 ====================
+
+/**
+ * 导入行处理结果
+ */
+export enum KeywordImportAction {
+  CREATED = 'created',    // 新建
+  UPDATED = 'updated',    // 更新已有关键词
+  SKIPPED = 'skipped',    // 跳过（重复）
+  FAILED = 'failed',      // 校验或写入失败
+}
+
+/**
+ * 重复关键词处理策略
+ */
+export enum KeywordImportDuplicateStrategy {
+  SKIP = 'skip',          // 跳过已存在的关键词
+  UPDATE = 'update',      // 用文件数据更新已存在的关键词
+}
+
+/**
+ * 可导入的关键词字段
+ */
+export type KeywordImportField =
+  | 'text'
+  | 'searchVolume'
+  | 'difficulty'
+  | 'cpc'
+  | 'productLine'
+  | 'intentType'
+  | 'stage';
+
+/**
+ * 字段到文件表头的映射，未指定的字段按常见表头自动识别
+ */
+export type KeywordImportColumnMapping = Partial<Record<KeywordImportField, string>>;
+
+/**
+ * 批量导入输入
+ */
+export interface KeywordImportInput {
+  readonly fileName: string;
+  readonly content: string; // Base64 编码的文件内容
+  readonly columnMapping?: KeywordImportColumnMapping;
+  readonly duplicateStrategy?: KeywordImportDuplicateStrategy;
+  readonly dryRun?: boolean;
+}
+
+/**
+ * 单行导入结果
+ */
+export interface KeywordImportRowResult {
+  readonly rowNumber: number;
+  readonly text: string | null;
+  readonly action: KeywordImportAction;
+  readonly keywordId: string | null;
+  readonly errors: ReadonlyArray<string>;
+  readonly data: Partial<Omit<CreateKeywordInput, 'assignedTo'>>;
+}
+
+/**
+ * 批量导入报告
+ */
+export interface KeywordImportReport {
+  readonly dryRun: boolean;
+  readonly totalRows: number;
+  readonly createdCount: number;
+  readonly updatedCount: number;
+  readonly skippedCount: number;
+  readonly failedCount: number;
+  readonly rows: ReadonlyArray<KeywordImportRowResult>;
+}
+
+// ==================== 优先级评分类型 ====================
+
+/**
+ * 优先级评分因子，各因子归一化为 0-100 分
+ */
+export enum KeywordScoringFactor {
+  SEARCH_VOLUME = 'searchVolume',   // 搜索量（对数刻度）
+  DIFFICULTY = 'difficulty',        // 难度越低得分越高
+  CPC = 'cpc',                      // 商业价值
+  AIO_SCORE = 'aioScore',           // AIO 适配性
+  INTENT = 'intent',                // 搜索意图与漏斗阶段
+  RANKING = 'ranking',              // 当前排名的提升空间
+}
+
+/**
+ * 各因子权重，计算时按权重之和归一化
+ */
+export type KeywordScoringWeights = Record<KeywordScoringFactor, number>;
+
+/**
+ * 各优先级的最低得分，低于 P3 阈值为 P4
+ */
+export type KeywordTierThresholds = Record<
+  KeywordPriorityLevel.P0 | KeywordPriorityLevel.P1 | KeywordPriorityLevel.P2 | KeywordPriorityLevel.P3,
+  number
+>;
+
+/**
+ * 评分配置，按产品线配置，未配置的产品线使用默认配置
+ */
+export interface KeywordScoringConfig {
+  readonly productLine: string; // 'default' 为默认配置
+  readonly weights: KeywordScoringWeights;
+  readonly thresholds: KeywordTierThresholds;
+  readonly isBuiltIn: boolean;  // 未保存到数据库的内置默认值
+  readonly updatedAt: Date | null;
+}
+
+/**
+ * 评分配置更新输入，未提供的权重和阈值保留当前值
+ */
+export interface KeywordScoringConfigInput {
+  readonly productLine?: string | null;
+  readonly weights?: Partial<KeywordScoringWeights>;
+  readonly thresholds?: Partial<KeywordTierThresholds>;
+}
+
+/**
+ * 单个关键词的评分结果
+ */
+export interface KeywordPriorityScore {
+  readonly keywordId: string;
+  readonly text: string;
+  readonly productLine: string | null;
+  readonly score: number;
+  readonly factors: KeywordScoringWeights; // 各因子得分
+  readonly currentLevel: string | null;
+  readonly suggestedLevel: KeywordPriorityLevel;
+}
+
+/**
+ * 重新评级输入
+ */
+export interface KeywordRegradeInput {
+  readonly productLine?: ProductLine;
+  readonly keywordIds?: ReadonlyArray<string>;
+  /** 临时覆盖权重和阈值，仅用于预览 */
+  readonly weights?: Partial<KeywordScoringWeights>;
+  readonly thresholds?: Partial<KeywordTierThresholds>;
+  readonly dryRun?: boolean;
+}
+
+/**
+ * 重新评级报告
+ */
+export interface KeywordRegradeReport {
+  readonly dryRun: boolean;
+  readonly totalKeywords: number;
+  readonly changedCount: number;
+  readonly upgradedCount: number;
+  readonly downgradedCount: number;
+  readonly distributionBefore: Record<string, number>; // 未评级的关键词计入 unassigned
+  readonly distributionAfter: Record<string, number>;
+  readonly transitions: ReadonlyArray<{
+    readonly from: string | null;
+    readonly to: KeywordPriorityLevel;
+    readonly count: number;
+  }>;
+  readonly changes: ReadonlyArray<KeywordPriorityScore>;
+}
+
+// ==================== 主题聚类类型 ====================
+
+/**
+ * 聚类重建输入
+ */
+export interface KeywordClusteringInput {
+  /** 仅重建该产品线的聚类，未指定时重建全部 */
+  readonly productLine?: ProductLine;
+  /** 与支柱关键词的最低相似度 (0-1) */
+  readonly minSimilarity?: number;
+  /** 成员数低于该值的分组不保存为聚类 */
+  readonly minClusterSize?: number;
+}
+
+/**
+ * 两个关键词的相似度明细
+ */
+export interface KeywordSimilarity {
+  readonly serpOverlap: number | null; // 任一方缺少 SERP 数据时为 null
+  readonly lexical: number;
+  readonly score: number;
+}
+
+/**
+ * 聚类重建报告
+ */
+export interface KeywordClusteringReport {
+  readonly productLine: ProductLine | null;
+  readonly totalKeywords: number;
+  readonly clusterCount: number;
+  readonly clusteredCount: number;
+  readonly unclusteredCount: number;
+  readonly serpCoverage: number; // 有 SERP URL 数据的关键词占比 (0-1)
+  readonly durationMs: number;
+}
+
+/**
+ * 聚类及支柱关键词
+ */
+export type KeywordClusterWithPillar = Prisma.KeywordClusterGetPayload<{
+  include: { pillarKeyword: true };
+}>;
+
+/**
+ * 聚类及全部成员
+ */
+export type KeywordClusterWithKeywords = Prisma.KeywordClusterGetPayload<{
+  include: { pillarKeyword: true; keywords: true };
+}>;
+
+/**
+ * 聚类树视图：聚类为根节点，成员关键词为子节点
+ */
+export interface KeywordClusterTree {
+  readonly clusters: ReadonlyArray<KeywordClusterWithKeywords>;
+  readonly unclusteredCount: number;
+}
+
+// ==================== 内容蚕食类型 ====================
+
+/**
+ * 蚕食严重程度，按竞争页面之间的流量分散程度判定
+ */
+export enum CannibalizationSeverity {
+  HIGH = 'high',
+  MEDIUM = 'medium',
+  LOW = 'low',
+}
+
+/**
+ * 蚕食处理建议
+ */
+export enum CannibalizationAction {
+  MERGE = 'merge',         // 合并到主页面并 301 重定向
+  CANONICAL = 'canonical', // 设置 canonical 指向主页面
+  RETARGET = 'retarget',   // 改为定位其他关键词
+}
+
+/**
+ * 竞争同一关键词的自有页面
+ */
+export interface CannibalizingPage {
+  readonly contentId: string | null; // 仅出现在排名数据中的 URL 为 null
+  readonly title: string | null;
+  readonly contentType: string | null;
+  readonly url: string | null;
+  readonly position: number | null;
+  readonly traffic: number | null; // 事件数或按排名估算的点击，无搜索量时无法估算
+  readonly trafficShare: number; // 0-1
+  readonly isPrimary: boolean;
+}
+
+/**
+ * 单条处理建议
+ */
+export interface CannibalizationSuggestion {
+  readonly action: CannibalizationAction;
+  readonly sourceContentId: string | null;
+  readonly sourceUrl: string | null;
+  readonly targetContentId: string | null;
+  readonly targetUrl: string | null;
+  /** RETARGET 时建议改为定位的关键词（同聚类中尚无已发布内容的关键词） */
+  readonly suggestedKeywordId: string | null;
+  readonly suggestedKeywordText: string | null;
+  readonly reason: string;
+}
+
+/**
+ * 单个关键词的蚕食分析结果
+ */
+export interface KeywordCannibalization {
+  readonly keywordId: string;
+  readonly keywordText: string;
+  readonly productLine: string | null;
+  readonly isCannibalized: boolean;
+  readonly severity: CannibalizationSeverity | null;
+  readonly trafficSplit: number; // 1 - 主页面流量占比
+  readonly trafficSource: 'analytics' | 'estimated';
+  readonly pages: ReadonlyArray<CannibalizingPage>;
+  readonly suggestions: ReadonlyArray<CannibalizationSuggestion>;
+}
+
+/**
+ * 蚕食问题查询选项
+ */
+export interface CannibalizationQueryOptions {
+  readonly productLine?: ProductLine;
+  readonly minSeverity?: CannibalizationSeverity;
+  readonly limit?: number;
+}
+
+// ==================== 竞品差距类型 ====================
+
+/**
+ * 差距关键词的发现来源
+ */
+export enum KeywordGapSource {
+  TRACKED = 'tracked',                   // 已跟踪关键词的最新 SERP 指标
+  AIO_CITATION = 'aio_citation',         // Google AIO 引用观测中未关联关键词的查询
+  COMPETITOR_PAGES = 'competitor_pages', // 竞品站点热门页面标题（实时 SERP 校验）
+}
+
+/**
+ * 差距分析输入
+ */
+export interface KeywordGapAnalysisInput {
+  /** 竞品域名，未指定时为 ring.com、arlo.com、wyze.com */
+  readonly competitorDomains?: ReadonlyArray<string>;
+  readonly productLine?: ProductLine;
+  /** 是否从竞品站点页面发现新关键词（调用 SerpApi，耗时较长） */
+  readonly discover?: boolean;
+  readonly limit?: number;
+}
+
+/**
+ * 差距关键词中单个竞品的表现
+ */
+export interface KeywordGapCompetitor {
+  readonly domain: string;
+  readonly position: number | null; // 自然排名，前 10 以外为 null
+  readonly url: string | null;
+  readonly aioPosition: number | null; // AIO 引用位置，未被引用为 null
+}
+
+/**
+ * 竞品排名或被 AIO 引用、而 Eufy 未排名或未被引用的关键词
+ */
+export interface KeywordGap {
+  readonly text: string;
+  readonly keywordId: string | null; // 已在关键词库中时为对应关键词
+  readonly productLine: ProductLine | null;
+  readonly source: KeywordGapSource;
+  readonly searchVolume: number | null;
+  readonly competitors: ReadonlyArray<KeywordGapCompetitor>;
+  readonly ownPosition: number | null;
+  readonly rankingGap: boolean; // 竞品进入前 10 而 Eufy 未进入
+  readonly aioGap: boolean;     // 竞品被 AIO 引用而 Eufy 未被引用
+  /** 搜索量 × 点击率曲线估算的月点击增量，无搜索量时为 null */
+  readonly estimatedOpportunity: number | null;
+}
+
+/**
+ * 差距分析结果
+ */
+export interface KeywordGapAnalysis {
+  readonly competitorDomains: ReadonlyArray<string>;
+  readonly gaps: ReadonlyArray<KeywordGap>;
+  readonly totalOpportunity: number;
+  readonly analyzedAt: Date;
+}
+
+/**
+ * 加入关键词库的差距关键词
+ */
+export interface KeywordGapBacklogItem {
+  readonly text: string;
+  readonly searchVolume?: number | null;
+  readonly productLine?: ProductLine | null;
+  readonly competitorDomains: ReadonlyArray<string>;
+}
+
+/**
+ * 加入关键词库结果
+ */
+export interface KeywordGapBacklogResult {
+  readonly created: ReadonlyArray<KeywordWithRelations>;
+  readonly skippedTexts: ReadonlyArray<string>; // 已存在的关键词
+}
+
+// ==================== 生命周期类型 ====================
+
+/**
+ * 允许的状态流转及所需权限
+ */
+export interface KeywordStatusTransitionRule {
+  readonly from: KeywordStatus;
+  readonly to: KeywordStatus;
+  /** 执行该流转所需的权限 */
+  readonly permission: Permission;
+  /** 退回和退役需填写原因 */
+  readonly reasonRequired: boolean;
+}
+
+/**
+ * 状态流转输入
+ */
+export interface KeywordStatusTransitionInput {
+  readonly keywordId: string;
+  readonly toStatus: KeywordStatus;
+  readonly reason?: string | null;
+}
+
+/**
+ * 批量状态流转输入
+ */
+export interface BulkKeywordStatusTransitionInput {
+  readonly keywordIds: ReadonlyArray<string>;
+  readonly toStatus: KeywordStatus;
+  readonly reason?: string | null;
+}
+
+/**
+ * 状态历史记录（含操作人）
+ */
+export type KeywordStatusHistoryWithUser = Prisma.KeywordStatusHistoryGetPayload<{
+  include: { user: { select: { id: true; username: true; fullName: true } } };
+}>;
+
+/**
+ * 周期时长统计输入
+ */
+export interface KeywordCycleTimeInput {
+  /** 统计在此时间段内完成的流转，默认最近 90 天 */
+  readonly from?: Date;
+  readonly to?: Date;
+  readonly productLine?: ProductLine;
+}
+
+/**
+ * 各状态停留时长
+ */
+export interface KeywordStatusDuration {
+  readonly status: KeywordStatus;
+  /** 已离开该状态的次数 */
+  readonly count: number;
+  readonly averageDays: number;
+  readonly medianDays: number;
+  readonly p90Days: number;
+}
+
+/**
+ * 里程碑间的周期时长（首次进入 from 到首次进入 to）
+ */
+export interface KeywordMilestoneCycleTime {
+  readonly fromStatus: KeywordStatus;
+  readonly toStatus: KeywordStatus;
+  readonly count: number;
+  readonly averageDays: number;
+  readonly medianDays: number;
+  readonly p90Days: number;
+}
+
+/**
+ * 周期时长报告
+ */
+export interface KeywordCycleTimeReport {
+  readonly from: Date;
+  readonly to: Date;
+  readonly productLine: ProductLine | null;
+  readonly statusDurations: ReadonlyArray<KeywordStatusDuration>;
+  readonly milestones: ReadonlyArray<KeywordMilestoneCycleTime>;
+}
+
+// ==================== 保存视图类型 ====================
+
+/**
+ * 视图排序
+ */
+export interface KeywordSavedViewSort {
+  readonly field: string;
+  readonly direction: 'asc' | 'desc';
+}
+
+/**
+ * 关键词表格保存视图（含所有者）；筛选条件和列由前端表格定义，服务端原样保存
+ */
+export interface KeywordSavedView {
+  readonly id: string;
+  readonly name: string;
+  readonly filter: Readonly<Record<string, unknown>>;
+  readonly sort: KeywordSavedViewSort | null;
+  /** 为空时显示全部列 */
+  readonly visibleColumns: ReadonlyArray<string>;
+  readonly ownerId: string;
+  readonly isShared: boolean;
+  /** 作为这些角色的默认视图 */
+  readonly defaultForRoles: ReadonlyArray<string>;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  readonly owner: { readonly id: string; readonly username: string; readonly fullName: string | null };
+}
+
+/**
+ * 创建保存视图输入
+ */
+export interface CreateKeywordSavedViewInput {
+  readonly name: string;
+  readonly filter?: Readonly<Record<string, unknown>>;
+  readonly sort?: KeywordSavedViewSort | null;
+  readonly visibleColumns?: ReadonlyArray<string>;
+  readonly isShared?: boolean;
+  readonly defaultForRoles?: ReadonlyArray<string>;
+}
+
+/**
+ * 更新保存视图输入
+ */
+export interface UpdateKeywordSavedViewInput extends Partial<CreateKeywordSavedViewInput> {
+  readonly id: string;
+}
+
+// ==================== 检索类型 ====================
+
+/**
+ * 关键词检索输入
+ */
+export interface KeywordSearchInput {
+  readonly query: string;
+  readonly productLine?: ProductLine;
+  readonly priorityLevels?: ReadonlyArray<KeywordPriorityLevel>;
+  readonly statuses?: ReadonlyArray<KeywordStatus>;
+  /** 默认排除已退役关键词 */
+  readonly includeRetired?: boolean;
+  readonly limit?: number;
+  readonly offset?: number;
+}
+
+/**
+ * 关键词文本中命中检索词的区间（按字符计）
+ */
+export interface KeywordTextHighlight {
+  readonly start: number;
+  readonly length: number;
+}
+
+/**
+ * 检索命中
+ */
+export interface KeywordSearchHit {
+  readonly keyword: KeywordWithRelations;
+  /** 综合得分 (0-1)：全文检索排名与三元组相似度的加权 */
+  readonly score: number;
+  /** 全文检索排名 (0-1)，仅模糊匹配命中时为 0 */
+  readonly textRank: number;
+  /** 三元组相似度 (0-1) */
+  readonly similarity: number;
+  readonly highlights: ReadonlyArray<KeywordTextHighlight>;
+}
+
+/**
+ * 检索结果
+ */
+export interface KeywordSearchResult {
+  readonly hits: ReadonlyArray<KeywordSearchHit>;
+  readonly total: number;
+}
+
+/**
+ * 相似关键词查询输入，用于创建前排查近似重复
+ */
+export interface KeywordSimilarInput {
+  readonly text: string;
+  /** 最低相似度 (0.3-1)，默认 0.5 */
+  readonly threshold?: number;
+  readonly limit?: number;
+  /** 编辑已有关键词时排除自身 */
+  readonly excludeKeywordId?: string;
+  readonly productLine?: ProductLine;
+}
+
+/**
+ * 相似关键词
+ */
+export interface KeywordSimilarMatch {
+  readonly keyword: KeywordWithRelations;
+  readonly similarity: number;
+  /** 词干相同仅词序或词形不同（如 "wireless doorbell camera" 与 "doorbell cameras wireless"） */
+  readonly sameTerms: boolean;
+}
+
 // ==================== 错误类型 ====================
 
 /**
@@ -333,6 +917,10 @@ export enum KeywordErrorCode {
   PERMISSION_DENIED = 'PERMISSION_DENIED',
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   DATABASE_ERROR = 'DATABASE_ERROR',
+  IMPORT_FILE_INVALID = 'IMPORT_FILE_INVALID',
+  CLUSTER_NOT_FOUND = 'CLUSTER_NOT_FOUND',
+  INVALID_STATUS_TRANSITION = 'INVALID_STATUS_TRANSITION',
+  SAVED_VIEW_NOT_FOUND = 'SAVED_VIEW_NOT_FOUND',
 }
 
 /**
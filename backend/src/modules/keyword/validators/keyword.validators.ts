@@ -20,7 +20,8 @@ import {
   max,
 } from 'class-validator';
 import { Injectable } from '@nestjs/common';
-import { PrismaService } from '@/common/services/prisma.service';
+import { PRIORITY_TIERS, isPriorityTier } from '@geo-platform/shared';
+import { PrismaService } from '@/common/prisma.service';
 import {
   KeywordPriorityLevel,
   KeywordCompetitionLevel,
@@ -220,6 +221,11 @@ export class IsPriorityLevelCombinationValidConstraint implements ValidatorConst
       return true;
     }
 
+    // 仅接受统一的 P0-P4 分级
+    if (!isPriorityTier(priorityLevel)) {
+      return false;
+    }
+
     // P0 级关键词应该有较高的搜索量
     if (priorityLevel === KeywordPriorityLevel.P0) {
       if (searchVolume && searchVolume < 1000) {
@@ -240,6 +246,10 @@ export class IsPriorityLevelCombinationValidConstraint implements ValidatorConst
   defaultMessage(args: ValidationArguments): string {
     const { priorityLevel } = args.object as any;
     
+    if (!isPriorityTier(priorityLevel)) {
+      return `无效的优先级 ${priorityLevel}，可选值: ${PRIORITY_TIERS.join(', ')}`;
+    }
+    
     if (priorityLevel === KeywordPriorityLevel.P0) {
       return 'P0 级关键词应该具有较高的搜索量 (≥1000)';
     }
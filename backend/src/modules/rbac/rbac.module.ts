@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { RbacResolver } from './rbac.resolver';
+import { CommonModule } from '../../common/common.module';
+
+@Module({
+  imports: [CommonModule],
+  providers: [
+    RbacResolver
+  ]
+})
+export class RbacModule {}
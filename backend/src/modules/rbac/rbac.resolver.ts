@@ -0,0 +1,158 @@
+import { UseGuards } from '@nestjs/common';
+import { Resolver, Query, Mutation, Args, Field, ObjectType, InputType, Int } from '@nestjs/graphql';
+import { RbacService, RoleInput, RoleWithUserCount, UserAccess } from '../../services/rbac.service';
+import { ALL_PERMISSIONS, PERMISSIONS, PERMISSION_DESCRIPTIONS } from '../../common/permissions';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@ObjectType()
+export class PermissionType {
+  @Field()
+  name: string;
+
+  @Field()
+  description: string;
+}
+
+@ObjectType()
+export class RoleType {
+  @Field()
+  id: string;
+
+  @Field()
+  name: string;
+
+  @Field()
+  displayName: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field(() => [String])
+  permissions: string[];
+
+  @Field(() => Int)
+  userCount: number;
+
+  @Field()
+  createdAt: string;
+}
+
+@ObjectType()
+export class UserAccessType {
+  @Field()
+  userId: string;
+
+  @Field()
+  roleId: string;
+
+  @Field()
+  roleName: string;
+
+  @Field(() => [String])
+  permissions: string[];
+}
+
+@InputType()
+export class RoleInputType {
+  @Field({ nullable: true, description: '小写字母开头，仅含小写字母、数字、下划线和连字符；内置角色不可改名' })
+  name?: string;
+
+  @Field({ nullable: true })
+  displayName?: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field(() => [String], { nullable: true, description: '权限列表，见 permissions 查询' })
+  permissions?: string[];
+}
+
+@Resolver()
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class RbacResolver {
+  constructor(private rbac: RbacService) {}
+
+  // ==================== 查询 ====================
+
+  @Query(() => UserAccessType, { description: '当前用户的角色和权限，用于前端控制入口显示' })
+  async myPermissions(@CurrentUser() user: { id: string }): Promise<UserAccessType> {
+    const access = await this.rbac.getUserAccess(user.id);
+    if (!access) {
+      throw new Error(`用户不存在: ${user.id}`);
+    }
+    return this.toUserAccessType(access);
+  }
+
+  @Query(() => [PermissionType])
+  @RequirePermissions(PERMISSIONS.ROLE_MANAGE)
+  permissions(): PermissionType[] {
+    return ALL_PERMISSIONS.map(name => ({ name, description: PERMISSION_DESCRIPTIONS[name] }));
+  }
+
+  @Query(() => [RoleType])
+  @RequirePermissions(PERMISSIONS.ROLE_MANAGE)
+  async roles(): Promise<RoleType[]> {
+    const roles = await this.rbac.listRoles();
+    return roles.map(role => this.toRoleType(role));
+  }
+
+  // ==================== 角色管理 ====================
+
+  @Mutation(() => RoleType)
+  @RequirePermissions(PERMISSIONS.ROLE_MANAGE)
+  async createRole(@Args('input', { type: () => RoleInputType }) input: RoleInputType): Promise<RoleType> {
+    return this.toRoleType(await this.rbac.createRole(this.toRoleInput(input)));
+  }
+
+  @Mutation(() => RoleType)
+  @RequirePermissions(PERMISSIONS.ROLE_MANAGE)
+  async updateRole(
+    @Args('id') id: string,
+    @Args('input', { type: () => RoleInputType }) input: RoleInputType,
+    @CurrentUser() user: { id: string }
+  ): Promise<RoleType> {
+    return this.toRoleType(await this.rbac.updateRole(id, this.toRoleInput(input), user.id));
+  }
+
+  @Mutation(() => Boolean)
+  @RequirePermissions(PERMISSIONS.ROLE_MANAGE)
+  async deleteRole(@Args('id') id: string): Promise<boolean> {
+    return this.rbac.deleteRole(id);
+  }
+
+  @Mutation(() => UserAccessType)
+  @RequirePermissions(PERMISSIONS.ROLE_MANAGE)
+  async assignUserRole(
+    @Args('userId') userId: string,
+    @Args('roleId') roleId: string,
+    @CurrentUser() user: { id: string }
+  ): Promise<UserAccessType> {
+    return this.toUserAccessType(await this.rbac.assignUserRole(userId, roleId, user.id));
+  }
+
+  private toRoleInput(input: RoleInputType): RoleInput {
+    return {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.displayName !== undefined && { displayName: input.displayName }),
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.permissions !== undefined && { permissions: input.permissions }),
+    };
+  }
+
+  private toUserAccessType(access: UserAccess): UserAccessType {
+    return {
+      userId: access.userId,
+      roleId: access.roleId,
+      roleName: access.roleName,
+      permissions: access.permissions,
+    };
+  }
+
+  private toRoleType(role: RoleWithUserCount): RoleType {
+    const { createdAt, ...fields } = role;
+    return { ...fields, createdAt: createdAt.toISOString() };
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { WorkflowResolver } from './workflow.resolver';
+import { PrismaService } from '../../common/prisma.service';
+import { CommonModule } from '../../common/common.module';
+import { WorkflowEngineService } from '../../services/workflow-engine.service';
+import { WorkflowTemplateService } from '../../services/workflow-template.service';
+
+@Module({
+  imports: [ConfigModule, CommonModule],
+  providers: [
+    WorkflowResolver,
+    PrismaService,
+    WorkflowEngineService,
+    WorkflowTemplateService
+  ],
+  exports: [
+    WorkflowEngineService,
+    WorkflowTemplateService
+  ]
+})
+export class WorkflowModule {}
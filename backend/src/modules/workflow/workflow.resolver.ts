@@ -0,0 +1,506 @@
+import { UseGuards } from '@nestjs/common';
+import { Resolver, Query, Mutation, Args, Field, ObjectType, InputType, Int, Float } from '@nestjs/graphql';
+import {
+  WorkflowCriticalPath,
+  WorkflowEngineService,
+  WorkflowInstance,
+  WorkflowPhase,
+  WorkflowTask,
+  WorkflowTemplate,
+} from '../../services/workflow-engine.service';
+import {
+  WorkflowTemplateFormat,
+  WorkflowTemplateService,
+  WorkflowTemplateVersionSummary,
+} from '../../services/workflow-template.service';
+import { PERMISSIONS } from '../../common/permissions';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+const TEMPLATE_FORMATS: WorkflowTemplateFormat[] = ['json', 'yaml'];
+
+const TASK_STATUSES: WorkflowTask['status'][] = ['PENDING', 'IN_PROGRESS', 'REVIEW', 'COMPLETED', 'BLOCKED'];
+
+@ObjectType()
+export class WorkflowTaskType {
+  @Field()
+  id: string;
+
+  @Field({ nullable: true })
+  templateTaskId?: string;
+
+  @Field()
+  title: string;
+
+  @Field()
+  description: string;
+
+  @Field()
+  type: string;
+
+  @Field()
+  priority: string;
+
+  @Field({ description: 'PENDING、IN_PROGRESS、REVIEW、COMPLETED 或 BLOCKED' })
+  status: string;
+
+  @Field({ nullable: true, description: 'dependency:<任务 ID> 表示因前置任务阻塞' })
+  blockedReason?: string;
+
+  @Field({ nullable: true })
+  assignee?: string;
+
+  @Field(() => Float)
+  estimatedHours: number;
+
+  @Field(() => Float, { nullable: true })
+  actualHours?: number;
+
+  @Field()
+  dueDate: string;
+
+  @Field(() => [String])
+  dependencies: string[];
+
+  @Field(() => Int)
+  week: number;
+
+  @Field(() => Int)
+  day: number;
+
+  @Field()
+  phase: string;
+
+  @Field(() => [String])
+  deliverables: string[];
+
+  @Field(() => [String])
+  tools: string[];
+
+  @Field(() => [String])
+  successCriteria: string[];
+
+  @Field(() => [String])
+  resources: string[];
+}
+
+@ObjectType()
+export class WorkflowPhaseType {
+  @Field()
+  id: string;
+
+  @Field()
+  name: string;
+
+  @Field()
+  description: string;
+
+  @Field(() => Int)
+  startDay: number;
+
+  @Field(() => Int)
+  endDay: number;
+
+  @Field(() => [String])
+  objectives: string[];
+
+  @Field(() => [WorkflowTaskType])
+  tasks: WorkflowTaskType[];
+}
+
+@ObjectType()
+export class WorkflowTemplateType {
+  @Field()
+  id: string;
+
+  @Field()
+  name: string;
+
+  @Field()
+  description: string;
+
+  @Field(() => Int)
+  totalDays: number;
+
+  @Field(() => [WorkflowPhaseType])
+  phases: WorkflowPhaseType[];
+
+  @Field(() => Int)
+  version: number;
+
+  @Field()
+  archived: boolean;
+
+  @Field()
+  createdAt: string;
+
+  @Field()
+  updatedAt: string;
+}
+
+@ObjectType()
+export class WorkflowTemplateVersionType {
+  @Field(() => Int)
+  version: number;
+
+  @Field({ nullable: true })
+  createdBy?: string;
+
+  @Field()
+  createdAt: string;
+}
+
+@ObjectType()
+export class WorkflowInstanceType {
+  @Field()
+  id: string;
+
+  @Field()
+  templateId: string;
+
+  @Field(() => Int, { description: '创建实例时固定的模板版本' })
+  templateVersion: number;
+
+  @Field()
+  name: string;
+
+  @Field()
+  description: string;
+
+  @Field()
+  startDate: string;
+
+  @Field()
+  endDate: string;
+
+  @Field({ description: 'PLANNING、ACTIVE、PAUSED、COMPLETED 或 CANCELLED' })
+  status: string;
+
+  @Field(() => Int)
+  progress: number;
+
+  @Field()
+  currentPhase: string;
+
+  @Field(() => Int)
+  currentWeek: number;
+
+  @Field(() => Int)
+  currentDay: number;
+
+  @Field(() => [WorkflowTaskType])
+  tasks: WorkflowTaskType[];
+
+  @Field()
+  createdAt: string;
+
+  @Field()
+  updatedAt: string;
+}
+
+@ObjectType()
+export class WorkflowCriticalPathType {
+  @Field(() => [String], { description: '关键路径上的任务 ID，前置任务在前' })
+  taskIds: string[];
+
+  @Field()
+  plannedEndDate: string;
+
+  @Field()
+  projectedEndDate: string;
+
+  @Field(() => Int)
+  slippedDays: number;
+}
+
+@ObjectType()
+export class WorkflowStatsType {
+  @Field(() => Int)
+  totalTasks: number;
+
+  @Field(() => Int)
+  completedTasks: number;
+
+  @Field(() => Int)
+  inProgressTasks: number;
+
+  @Field(() => Int)
+  pendingTasks: number;
+
+  @Field(() => Int)
+  blockedTasks: number;
+
+  @Field(() => Int)
+  progress: number;
+
+  @Field(() => Float)
+  estimatedHours: number;
+
+  @Field(() => Float)
+  actualHours: number;
+
+  @Field(() => Int)
+  efficiency: number;
+
+  @Field(() => WorkflowCriticalPathType)
+  criticalPath: WorkflowCriticalPathType;
+}
+
+@InputType()
+export class WorkflowTemplateDefinitionInputType {
+  @Field({ description: 'JSON 或 YAML 格式的模板定义' })
+  definition: string;
+
+  @Field({ nullable: true, defaultValue: 'json', description: 'json 或 yaml' })
+  format?: string;
+}
+
+@InputType()
+export class CreateWorkflowInstanceInputType {
+  @Field()
+  templateId: string;
+
+  @Field()
+  name: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field({ description: 'ISO 日期' })
+  startDate: string;
+}
+
+@Resolver()
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class WorkflowResolver {
+  constructor(
+    private workflowEngine: WorkflowEngineService,
+    private workflowTemplateService: WorkflowTemplateService
+  ) {}
+
+  // ==================== 模板 ====================
+
+  @Query(() => [WorkflowTemplateType])
+  async workflowTemplates(): Promise<WorkflowTemplateType[]> {
+    const templates = await this.workflowEngine.getAllWorkflowTemplates();
+    return templates.map(template => this.toWorkflowTemplateType(template));
+  }
+
+  @Query(() => WorkflowTemplateType, { nullable: true })
+  async workflowTemplate(
+    @Args('id') id: string,
+    @Args('version', { type: () => Int, nullable: true, description: '缺省时返回当前版本' }) version?: number
+  ): Promise<WorkflowTemplateType | null> {
+    const template = version !== undefined && version !== null
+      ? await this.workflowEngine.getWorkflowTemplateVersion(id, version)
+      : await this.workflowEngine.getWorkflowTemplate(id, { includeArchived: true });
+    return template ? this.toWorkflowTemplateType(template) : null;
+  }
+
+  @Query(() => [WorkflowTemplateVersionType])
+  async workflowTemplateVersions(@Args('id') id: string): Promise<WorkflowTemplateVersionType[]> {
+    const versions = await this.workflowTemplateService.getTemplateVersions(id);
+    return versions.map(version => this.toWorkflowTemplateVersionType(version));
+  }
+
+  @Query(() => String, { description: '导出模板定义' })
+  async exportWorkflowTemplate(
+    @Args('id') id: string,
+    @Args('format', { nullable: true, defaultValue: 'json', description: 'json 或 yaml' }) format: string,
+    @Args('version', { type: () => Int, nullable: true }) version?: number
+  ): Promise<string> {
+    return this.workflowTemplateService.exportTemplate(id, this.parseFormat(format), version ?? undefined);
+  }
+
+  @Mutation(() => WorkflowTemplateType)
+  @RequirePermissions(PERMISSIONS.WORKFLOW_MANAGE)
+  async createWorkflowTemplate(
+    @Args('input', { type: () => WorkflowTemplateDefinitionInputType }) input: WorkflowTemplateDefinitionInputType,
+    @CurrentUser() user: { id: string }
+  ): Promise<WorkflowTemplateType> {
+    const template = await this.workflowTemplateService.createTemplate(
+      input.definition,
+      this.parseFormat(input.format),
+      user.id
+    );
+    return this.toWorkflowTemplateType(template);
+  }
+
+  @Mutation(() => WorkflowTemplateType, { description: '更新模板定义并生成新版本，已创建的实例不受影响' })
+  @RequirePermissions(PERMISSIONS.WORKFLOW_MANAGE)
+  async updateWorkflowTemplate(
+    @Args('id') id: string,
+    @Args('input', { type: () => WorkflowTemplateDefinitionInputType }) input: WorkflowTemplateDefinitionInputType,
+    @CurrentUser() user: { id: string }
+  ): Promise<WorkflowTemplateType> {
+    const template = await this.workflowTemplateService.updateTemplate(
+      id,
+      input.definition,
+      this.parseFormat(input.format),
+      user.id
+    );
+    return this.toWorkflowTemplateType(template);
+  }
+
+  @Mutation(() => WorkflowTemplateType)
+  @RequirePermissions(PERMISSIONS.WORKFLOW_MANAGE)
+  async cloneWorkflowTemplate(
+    @Args('id') id: string,
+    @Args('newTemplateId') newTemplateId: string,
+    @CurrentUser() user: { id: string },
+    @Args('name', { nullable: true }) name?: string
+  ): Promise<WorkflowTemplateType> {
+    const template = await this.workflowTemplateService.cloneTemplate(id, newTemplateId, name ?? undefined, user.id);
+    return this.toWorkflowTemplateType(template);
+  }
+
+  @Mutation(() => WorkflowTemplateType, { description: '归档模板，不再用于创建新实例' })
+  @RequirePermissions(PERMISSIONS.WORKFLOW_MANAGE)
+  async archiveWorkflowTemplate(@Args('id') id: string): Promise<WorkflowTemplateType> {
+    return this.toWorkflowTemplateType(await this.workflowTemplateService.archiveTemplate(id));
+  }
+
+  // ==================== 实例 ====================
+
+  @Query(() => [WorkflowInstanceType])
+  async workflowInstances(): Promise<WorkflowInstanceType[]> {
+    const instances = await this.workflowEngine.getAllWorkflowInstances();
+    return instances.map(instance => this.toWorkflowInstanceType(instance));
+  }
+
+  @Query(() => WorkflowInstanceType, { nullable: true })
+  async workflowInstance(@Args('id') id: string): Promise<WorkflowInstanceType | null> {
+    const instance = await this.workflowEngine.getWorkflowInstance(id);
+    return instance ? this.toWorkflowInstanceType(instance) : null;
+  }
+
+  @Query(() => [WorkflowTaskType], { description: '截至今天应处理的待办和进行中任务' })
+  async activeWorkflowTasks(@Args('instanceId') instanceId: string): Promise<WorkflowTaskType[]> {
+    const tasks = await this.workflowEngine.getActiveTasks(instanceId);
+    return tasks.map(task => this.toWorkflowTaskType(task));
+  }
+
+  @Query(() => WorkflowStatsType)
+  async workflowStats(@Args('instanceId') instanceId: string): Promise<WorkflowStatsType> {
+    const { criticalPath, ...stats } = await this.workflowEngine.getWorkflowStats(instanceId);
+    return { ...stats, criticalPath: this.toCriticalPathType(criticalPath) };
+  }
+
+  @Mutation(() => WorkflowInstanceType)
+  @RequirePermissions(PERMISSIONS.WORKFLOW_MANAGE)
+  async createWorkflowInstance(
+    @Args('input', { type: () => CreateWorkflowInstanceInputType }) input: CreateWorkflowInstanceInputType
+  ): Promise<WorkflowInstanceType> {
+    const startDate = new Date(input.startDate);
+    if (Number.isNaN(startDate.getTime())) {
+      throw new Error(`开始日期无效: ${input.startDate}`);
+    }
+    const instance = await this.workflowEngine.createWorkflowInstance(
+      input.templateId,
+      input.name,
+      input.description ?? '',
+      startDate
+    );
+    return this.toWorkflowInstanceType(instance);
+  }
+
+  @Mutation(() => WorkflowInstanceType)
+  @RequirePermissions(PERMISSIONS.WORKFLOW_MANAGE)
+  async startWorkflowInstance(@Args('instanceId') instanceId: string): Promise<WorkflowInstanceType> {
+    return this.toWorkflowInstanceType(await this.workflowEngine.startWorkflowInstance(instanceId));
+  }
+
+  @Mutation(() => WorkflowTaskType, { description: '更新任务状态；开始或完成任务前所有前置任务必须已完成' })
+  @RequirePermissions(PERMISSIONS.WORKFLOW_MANAGE)
+  async updateWorkflowTaskStatus(
+    @Args('instanceId') instanceId: string,
+    @Args('taskId') taskId: string,
+    @Args('status', { description: 'PENDING、IN_PROGRESS、REVIEW、COMPLETED 或 BLOCKED' }) status: string,
+    @Args('actualHours', { type: () => Float, nullable: true }) actualHours?: number
+  ): Promise<WorkflowTaskType> {
+    if (!TASK_STATUSES.includes(status as WorkflowTask['status'])) {
+      throw new Error(`不支持的任务状态: ${status}`);
+    }
+    const task = await this.workflowEngine.updateTaskStatus(
+      instanceId,
+      taskId,
+      status as WorkflowTask['status'],
+      actualHours ?? undefined
+    );
+    return this.toWorkflowTaskType(task);
+  }
+
+  @Mutation(() => WorkflowCriticalPathType, { description: '按当前进度重新排期未完成任务' })
+  @RequirePermissions(PERMISSIONS.WORKFLOW_MANAGE)
+  async recalculateWorkflowSchedule(@Args('instanceId') instanceId: string): Promise<WorkflowCriticalPathType> {
+    return this.toCriticalPathType(await this.workflowEngine.recalculateSchedule(instanceId));
+  }
+
+  private parseFormat(format: string | undefined): WorkflowTemplateFormat {
+    const value = (format ?? 'json').toLowerCase();
+    if (!TEMPLATE_FORMATS.includes(value as WorkflowTemplateFormat)) {
+      throw new Error(`不支持的模板格式: ${format}`);
+    }
+    return value as WorkflowTemplateFormat;
+  }
+
+  private toWorkflowTemplateType(template: WorkflowTemplate): WorkflowTemplateType {
+    return {
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      totalDays: template.totalDays,
+      phases: template.phases.map(phase => this.toWorkflowPhaseType(phase)),
+      version: template.version,
+      archived: template.archived,
+      createdAt: template.createdAt.toISOString(),
+      updatedAt: template.updatedAt.toISOString(),
+    };
+  }
+
+  private toWorkflowPhaseType(phase: WorkflowPhase): WorkflowPhaseType {
+    return {
+      ...phase,
+      tasks: phase.tasks.map(task => this.toWorkflowTaskType(task)),
+    };
+  }
+
+  private toWorkflowTemplateVersionType(version: WorkflowTemplateVersionSummary): WorkflowTemplateVersionType {
+    return {
+      version: version.version,
+      ...(version.createdBy && { createdBy: version.createdBy }),
+      createdAt: version.createdAt.toISOString(),
+    };
+  }
+
+  private toWorkflowInstanceType(instance: WorkflowInstance): WorkflowInstanceType {
+    const { metadata: _metadata, tasks, startDate, endDate, createdAt, updatedAt, ...fields } = instance;
+    return {
+      ...fields,
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      tasks: tasks.map(task => this.toWorkflowTaskType(task)),
+      createdAt: createdAt.toISOString(),
+      updatedAt: updatedAt.toISOString(),
+    };
+  }
+
+  private toWorkflowTaskType(task: WorkflowTask): WorkflowTaskType {
+    const { dueDate, createdAt: _createdAt, updatedAt: _updatedAt, ...fields } = task;
+    return {
+      ...fields,
+      dueDate: new Date(dueDate).toISOString(),
+    };
+  }
+
+  private toCriticalPathType(criticalPath: WorkflowCriticalPath): WorkflowCriticalPathType {
+    return {
+      taskIds: criticalPath.taskIds,
+      plannedEndDate: criticalPath.plannedEndDate.toISOString(),
+      projectedEndDate: criticalPath.projectedEndDate.toISOString(),
+      slippedDays: criticalPath.slippedDays,
+    };
+  }
+}
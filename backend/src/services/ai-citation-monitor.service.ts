@@ -1,11 +1,35 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { AlertRulesService } from './alert-rules.service';
+import {
+  BrandCitationSummary,
+  CitationGranularity,
+  CitationObservationService,
+  ShareOfVoiceGroupBy,
+  ShareOfVoicePoint,
+} from './citation-observation.service';
+import {
+  ANSWER_ENGINE_PLATFORMS,
+  AnswerEngineAdapter,
+  AnswerEnginePlatform,
+  CitationBrand,
+  CitationExtraction,
+  createAnswerEngineAdapters,
+  extractCitations,
+} from './answer-engines';
+import {
+  MonitoringQuery,
+  MonitoringQueryService,
+  ResolveQueryGroupsOptions,
+  ResolvedMonitoringQueryGroup,
+} from './monitoring-query.service';
 
 export interface CitationSource {
-  platform: 'google-sge' | 'bing-chat' | 'perplexity' | 'chatgpt' | 'claude' | 'bard';
+  platform: AnswerEnginePlatform;
   query: string;
   citationText: string;
   sourceUrl: string;
+  rank: number; // 在回答来源列表中的位置，从 1 开始
   timestamp: Date;
   confidence: number;
   context: string;
@@ -19,6 +43,22 @@ export interface CompetitorCitation {
   sentiment: 'positive' | 'neutral' | 'negative';
 }
 
+/**
+ * 引用片段的情感提示词，按句匹配；只统计提及该品牌的句子
+ */
+const POSITIVE_SENTIMENT_CUES = [
+  'best', 'excellent', 'great', 'strong', 'reliable', 'recommend', 'top pick', 'sharp', 'easy',
+  'affordable', 'no monthly fee', 'without a subscription', 'popular',
+  '推荐', '出色', '优秀', '可靠', '性价比', '好评',
+];
+const NEGATIVE_SENTIMENT_CUES = [
+  'expensive', 'requires', 'relies on a subscription', 'subscription required', 'limited', 'poor',
+  'issue', 'problem', 'complaint', 'privacy concern', 'breach', 'recall', 'drawback', 'downside', 'lacks',
+  '昂贵', '需要订阅', '问题', '缺点', '隐私', '投诉',
+];
+/** 平均得分超过该阈值才判定为正面 / 负面 */
+const SENTIMENT_THRESHOLD = 0.2;
+
 export interface CitationTrend {
   date: string;
   totalCitations: number;
@@ -32,7 +72,7 @@ export interface CitationTrend {
 
 export interface CitationInsights {
   totalCitations: number;
-  citationRate: number; // 被引用次数/总内容数
+  citationRate: number; // 引用自有品牌的回答数/观测回答总数
   platformDistribution: Record<string, number>;
   topPerformingContent: Array<{
     title: string;
@@ -47,44 +87,112 @@ export interface CitationInsights {
 
 @Injectable()
 export class AICitationMonitorService {
-  private readonly competitors = ['Ring', 'Arlo', 'Nest', 'SimpliSafe', 'Wyze'];
-  private readonly monitoredPlatforms = [
-    'google-sge', 'bing-chat', 'perplexity', 'chatgpt', 'claude', 'bard'
+  private readonly ownBrand: CitationBrand = { name: 'Eufy', domains: ['eufy.com', 'eufylife.com'] };
+  private readonly competitorBrands: CitationBrand[] = [
+    { name: 'Ring', domains: ['ring.com'] },
+    { name: 'Arlo', domains: ['arlo.com'] },
+    { name: 'Nest', domains: ['nest.com', 'store.google.com'] },
+    { name: 'SimpliSafe', domains: ['simplisafe.com'] },
+    { name: 'Wyze', domains: ['wyze.com'] },
   ];
+  private readonly competitors = this.competitorBrands.map(brand => brand.name);
+  private readonly monitoredPlatforms: AnswerEnginePlatform[] = ANSWER_ENGINE_PLATFORMS;
+  private readonly adapters: Map<AnswerEnginePlatform, AnswerEngineAdapter>;
 
-  constructor(private configService: ConfigService) {}
+  constructor(
+    private configService: ConfigService,
+    private citationObservations: CitationObservationService,
+    private monitoringQueries: MonitoringQueryService,
+    private alertRules: AlertRulesService,
+  ) {
+    this.adapters = createAnswerEngineAdapters(this.configService, this.monitoredPlatforms);
+  }
 
   /**
    * 核心：实时监测AI引用
+   *
+   * 按监测查询组查询各平台并将引用观测写入数据库，随后基于历史数据生成洞察。
+   * 默认执行全部启用的查询组；dueOnly 时仅执行按调度周期已到期的组。
    */
-  async monitorAICitations(): Promise<CitationInsights> {
+  async monitorAICitations(options: ResolveQueryGroupsOptions = {}): Promise<CitationInsights> {
     console.log('🔍 开始AI引用监测...');
     
-    // 1. 爬取各大AI平台的引用数据
-    const citations = await this.collectCitationsFromAllPlatforms();
+    // 1. 爬取各大AI平台的引用数据并持久化
+    const groups = await this.monitoringQueries.resolveGroups(options);
+    await this.collectCitationsFromAllPlatforms(groups);
+    await this.monitoringQueries.markGroupsRun(groups.map(({ group }) => group.id));
+    
+    // 2. 基于新的观测评估引用类告警规则
+    await this.alertRules.evaluateCitationRules();
+    
+    // 3. 基于已持久化的观测计算洞察
+    return this.getCitationInsights();
+  }
+
+  /**
+   * 基于已持久化的引用观测生成洞察（不触发新的平台查询）
+   */
+  async getCitationInsights(days: number = 30): Promise<CitationInsights> {
+    const { from, to } = this.getWindow(days);
+    const [summaries, totalAnswers] = await Promise.all([
+      this.citationObservations.getBrandSummaries(from, to),
+      this.citationObservations.countAnswers(from, to),
+    ]);
+
+    // 1. 自有品牌引用明细
+    const citations = await this.getOwnCitations(from, to);
     
     // 2. 分析竞品引用情况
-    const competitorAnalysis = await this.analyzeCompetitorCitations();
+    const competitorAnalysis = await this.analyzeCompetitorCitations(summaries, totalAnswers, from, to);
     
     // 3. 计算趋势数据
-    const trends = await this.calculateCitationTrends();
+    const trends = await this.calculateCitationTrends(from, to);
     
     // 4. 生成洞察和建议
-    const insights = await this.generateInsights(citations, competitorAnalysis, trends);
-    
-    return insights;
+    const ownSummary = summaries.find(summary => summary.brand === this.ownBrand.name);
+    return this.generateInsights(citations, competitorAnalysis, trends, {
+      citedAnswers: ownSummary?.citedAnswers ?? 0,
+      totalAnswers,
+      from,
+      to,
+    });
+  }
+
+  /**
+   * 品牌声量份额，按平台 / 产品线 / 整体分组，按日或周聚合
+   */
+  async getShareOfVoice(
+    days: number = 30,
+    granularity: CitationGranularity = 'week',
+    groupBy: ShareOfVoiceGroupBy = 'overall',
+  ): Promise<ShareOfVoicePoint[]> {
+    const { from, to } = this.getWindow(days);
+    return this.citationObservations.getShareOfVoice(from, to, granularity, groupBy);
   }
 
   /**
    * 从所有平台收集引用数据
    */
-  private async collectCitationsFromAllPlatforms(): Promise<CitationSource[]> {
+  private async collectCitationsFromAllPlatforms(groups: ResolvedMonitoringQueryGroup[]): Promise<CitationSource[]> {
     const allCitations: CitationSource[] = [];
     
     // 并行收集各平台数据
     const platformPromises = this.monitoredPlatforms.map(async (platform) => {
+      const platformGroups = groups.filter(group => group.platforms.includes(platform));
+      if (platformGroups.length === 0) {
+        return [];
+      }
+
+      if (!this.adapters.get(platform)?.isAvailable()) {
+        console.warn(`⚠️ ${platform} 适配器不可用（未配置 API Key 或 Fixture），跳过`);
+        return [];
+      }
+
       try {
-        const citations = await this.collectCitationsFromPlatform(platform as any);
+        const citations: CitationSource[] = [];
+        for (const { group, queries } of platformGroups) {
+          citations.push(...await this.collectCitationsFromPlatform(platform, queries, group.locale));
+        }
         return citations;
       } catch (error) {
         console.warn(`⚠️ ${platform} 数据收集失败:`, error.message);
@@ -106,26 +214,31 @@ export class AICitationMonitorService {
   /**
    * 从特定平台收集引用数据
    */
-  private async collectCitationsFromPlatform(platform: CitationSource['platform']): Promise<CitationSource[]> {
-    const queries = await this.getMonitoringQueries();
+  private async collectCitationsFromPlatform(
+    platform: CitationSource['platform'],
+    queries: MonitoringQuery[],
+    locale: string
+  ): Promise<CitationSource[]> {
     const citations: CitationSource[] = [];
     
     for (const query of queries) {
       try {
-        const result = await this.queryAIPlatform(platform, query);
+        const result = await this.queryAIPlatform(platform, query.text, locale);
+        await this.recordObservation(platform, query, result.extraction, result.fetchedAt);
         if (result.hasCitation) {
           citations.push({
             platform,
-            query,
+            query: query.text,
             citationText: result.citationText,
             sourceUrl: result.sourceUrl,
-            timestamp: new Date(),
+            rank: result.rank,
+            timestamp: result.fetchedAt,
             confidence: result.confidence,
             context: result.context
           });
         }
       } catch (error) {
-        console.warn(`❌ 查询失败 [${platform}] "${query}":`, error.message);
+        console.warn(`❌ 查询失败 [${platform}] "${query.text}":`, error.message);
       }
     }
     
@@ -133,93 +246,99 @@ export class AICitationMonitorService {
   }
 
   /**
-   * 监控查询列表
+   * 持久化单次回答的引用观测，写入失败不影响本次监测
    */
-  private async getMonitoringQueries(): Promise<string[]> {
-    return [
-      // 产品相关查询
-      'best security camera for home',
-      'eufy security camera review',
-      'wireless doorbell camera comparison',
-      'smart home security system',
-      'outdoor security camera night vision',
-      
-      // 技术问题查询
-      'how to install security camera',
-      'security camera not working',
-      'doorbell camera setup guide',
-      'smart camera app not connecting',
-      
-      // 对比查询
-      'eufy vs ring camera',
-      'eufy vs arlo comparison',
-      'eufy vs nest doorbell',
-      
-      // 购买决策查询
-      'which security camera to buy',
-      'affordable home security cameras',
-      'best doorbell camera 2024',
-      'security camera buying guide',
-      
-      // 故障排除查询
-      'security camera troubleshooting',
-      'doorbell camera offline fix',
-      'camera not recording solutions'
-    ];
+  private async recordObservation(
+    platform: AnswerEnginePlatform,
+    query: MonitoringQuery,
+    extraction: CitationExtraction,
+    observedAt: Date,
+  ): Promise<void> {
+    try {
+      await this.citationObservations.recordAnswer({
+        platform,
+        query: query.text,
+        extraction,
+        observedAt,
+        ...(query.keywordId && { keywordId: query.keywordId }),
+        ...(query.productLine && { productLine: query.productLine }),
+      });
+    } catch (error) {
+      console.warn(`⚠️ 引用观测写入失败 [${platform}] "${query.text}":`, error.message);
+    }
   }
 
   /**
-   * 查询AI平台（模拟实现）
+   * 查询AI平台并解析引用
    */
-  private async queryAIPlatform(platform: CitationSource['platform'], query: string): Promise<{
-    hasCitation: boolean;
-    citationText?: string;
-    sourceUrl?: string;
-    confidence?: number;
-    context?: string;
-  }> {
-    // 这里模拟AI平台查询
-    // 实际实现需要调用各平台的API或进行web scraping
-    
-    console.log(`🔍 查询 [${platform}]: ${query}`);
-    
-    // 模拟延迟
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 1000 + 500));
-    
-    // 模拟引用概率（实际需要解析AI回答）
-    const hasCitation = Math.random() > 0.7; // 30%的引用概率
-    
-    if (!hasCitation) {
-      return { hasCitation: false };
+  private async queryAIPlatform(platform: CitationSource['platform'], query: string, locale?: string): Promise<
+    | { hasCitation: false; extraction: CitationExtraction; fetchedAt: Date }
+    | {
+        hasCitation: true;
+        citationText: string;
+        sourceUrl: string;
+        rank: number;
+        confidence: number;
+        context: string;
+        extraction: CitationExtraction;
+        fetchedAt: Date;
+      }
+  > {
+    const adapter = this.adapters.get(platform);
+    if (!adapter) {
+      throw new Error(`未配置 ${platform} 适配器`);
     }
-    
-    // 模拟引用数据
+
+    console.log(`🔍 查询 [${platform}${locale ? `/${locale}` : ''}]: ${query}`);
+
+    const result = await adapter.query(query, locale ? { locale } : {});
+    const extraction = extractCitations(result, this.ownBrand, this.competitorBrands);
+    const ownCitation = extraction.ownCitation;
+
+    if (!ownCitation) {
+      return { hasCitation: false, extraction, fetchedAt: result.fetchedAt };
+    }
+
     return {
       hasCitation: true,
-      citationText: `Eufy provides excellent security camera solutions with advanced AI detection and privacy protection. The wireless design and long battery life make it a popular choice for homeowners.`,
-      sourceUrl: 'https://www.eufy.com/products/security-cameras',
-      confidence: 0.8 + Math.random() * 0.2,
-      context: `AI回答中提及Eufy作为${query}的解决方案`
+      citationText: ownCitation.snippet,
+      sourceUrl: ownCitation.url,
+      rank: ownCitation.rank,
+      confidence: this.rankToConfidence(ownCitation.rank, extraction.citedUrls.length),
+      context: `${platform} 回答第 ${ownCitation.rank}/${extraction.citedUrls.length} 位引用 ${ownCitation.domain}`,
+      extraction,
+      fetchedAt: result.fetchedAt
     };
   }
 
+  /**
+   * 引用排名 -> 置信度：排名越靠前权重越高，首位为 1
+   */
+  private rankToConfidence(rank: number, totalSources: number): number {
+    if (totalSources <= 1) return 1;
+    return Math.round((1 - ((rank - 1) / totalSources) * 0.5) * 100) / 100;
+  }
+
   /**
    * 分析竞品引用情况
    */
-  private async analyzeCompetitorCitations(): Promise<CompetitorCitation[]> {
+  private async analyzeCompetitorCitations(
+    summaries: BrandCitationSummary[],
+    totalAnswers: number,
+    from: Date,
+    to: Date
+  ): Promise<CompetitorCitation[]> {
     const competitorAnalysis: CompetitorCitation[] = [];
     
     for (const competitor of this.competitors) {
-      const mentions = await this.countCompetitorMentions(competitor);
-      const citationRate = await this.calculateCompetitorCitationRate(competitor);
-      const topQueries = await this.getTopQueriesForCompetitor(competitor);
-      const sentiment = await this.analyzeCompetitorSentiment(competitor);
+      const summary = summaries.find(item => item.brand === competitor);
+      const sentiment = await this.analyzeCompetitorSentiment(competitor, from, to);
       
       competitorAnalysis.push({
         competitor,
-        mentions,
-        citationRate,
-        topQueries,
+        mentions: summary?.citations ?? 0,
+        citationRate: totalAnswers > 0 ? (summary?.citedAnswers ?? 0) / totalAnswers : 0,
+        topQueries: summary?.topQueries ?? [],
         sentiment
       });
     }
@@ -228,23 +347,33 @@ export class AICitationMonitorService {
   }
 
   /**
-   * 计算引用趋势
+   * 计算引用趋势（按日，无观测的日期补 0）
    */
-  private async calculateCitationTrends(): Promise<CitationTrend[]> {
+  private async calculateCitationTrends(from: Date, to: Date): Promise<CitationTrend[]> {
+    const [points, topUrls] = await Promise.all([
+      this.citationObservations.getCitationTrend(this.ownBrand.name, from, to, 'day'),
+      this.citationObservations.getDailyTopCitedUrls(this.ownBrand.name, from, to),
+    ]);
     const trends: CitationTrend[] = [];
-    const days = 30; // 过去30天
     
-    for (let i = days; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      
-      const dailyData = await this.getDailyCitationData(date);
+    for (const date = new Date(from); date < to; date.setUTCDate(date.getUTCDate() + 1)) {
+      const day = date.toISOString().split('T')[0]!;
+      const platformBreakdown: Record<string, number> = {};
+      this.monitoredPlatforms.forEach(platform => {
+        platformBreakdown[platform] = 0;
+      });
+
+      for (const point of points.filter(item => item.period === day)) {
+        platformBreakdown[point.platform] = point.citations;
+      }
       
       trends.push({
-        date: date.toISOString().split('T')[0],
-        totalCitations: dailyData.total,
-        platformBreakdown: dailyData.platformBreakdown,
-        topCitedContent: dailyData.topContent
+        date: day,
+        totalCitations: Object.values(platformBreakdown).reduce((sum, count) => sum + count, 0),
+        platformBreakdown,
+        topCitedContent: topUrls
+          .filter(item => item.period === day)
+          .map(item => ({ title: this.extractTitleFromUrl(item.url), citations: item.citations, urls: [item.url] }))
       });
     }
     
@@ -257,19 +386,19 @@ export class AICitationMonitorService {
   private async generateInsights(
     citations: CitationSource[],
     competitors: CompetitorCitation[],
-    trends: CitationTrend[]
+    trends: CitationTrend[],
+    window: { citedAnswers: number; totalAnswers: number; from: Date; to: Date }
   ): Promise<CitationInsights> {
     
-    // 计算总体指标
+    // 计算总体指标：引用率 = 引用了自有品牌的回答数 / 观测回答总数
     const totalCitations = citations.length;
-    const totalContent = await this.getTotalContentCount();
-    const citationRate = totalContent > 0 ? totalCitations / totalContent : 0;
+    const citationRate = window.totalAnswers > 0 ? window.citedAnswers / window.totalAnswers : 0;
     
     // 平台分布
     const platformDistribution = this.calculatePlatformDistribution(citations);
     
     // 表现最佳内容
-    const topPerformingContent = await this.getTopPerformingContent(citations);
+    const topPerformingContent = await this.getTopPerformingContent(window.from, window.to);
     
     // 生成建议
     const recommendations = await this.generateRecommendations(citations, competitors, trends);
@@ -338,60 +467,65 @@ export class AICitationMonitorService {
   }
 
   // 辅助方法
-  private async countCompetitorMentions(competitor: string): Promise<number> {
-    // 模拟实现
-    return Math.floor(Math.random() * 100) + 20;
+  private getWindow(days: number): { from: Date; to: Date } {
+    const to = new Date();
+    to.setUTCHours(0, 0, 0, 0);
+    to.setUTCDate(to.getUTCDate() + 1);
+    const from = new Date(to);
+    from.setUTCDate(from.getUTCDate() - days);
+    return { from, to };
   }
 
-  private async calculateCompetitorCitationRate(competitor: string): Promise<number> {
-    // 模拟实现
-    return Math.random() * 0.3 + 0.1;
-  }
+  private async getOwnCitations(from: Date, to: Date): Promise<CitationSource[]> {
+    const observations = await this.citationObservations.getBrandObservations(this.ownBrand.name, from, to);
 
-  private async getTopQueriesForCompetitor(competitor: string): Promise<string[]> {
-    // 模拟实现
-    return [
-      `${competitor.toLowerCase()} camera review`,
-      `best ${competitor.toLowerCase()} products`,
-      `${competitor.toLowerCase()} vs eufy`
-    ];
+    return observations.map(observation => ({
+      platform: observation.platform as AnswerEnginePlatform,
+      query: observation.query,
+      citationText: observation.snippet ?? '',
+      sourceUrl: observation.citedUrl ?? '',
+      rank: observation.rank ?? 0,
+      timestamp: observation.observedAt,
+      confidence: this.rankToConfidence(observation.rank ?? 1, observation.sourceCount),
+      context: `${observation.platform} 回答第 ${observation.rank}/${observation.sourceCount} 位引用 ${observation.citedDomain}`
+    }));
   }
 
-  private async analyzeCompetitorSentiment(competitor: string): Promise<'positive' | 'neutral' | 'negative'> {
-    // 模拟实现
-    const sentiments: Array<'positive' | 'neutral' | 'negative'> = ['positive', 'neutral', 'negative'];
-    return sentiments[Math.floor(Math.random() * sentiments.length)];
-  }
+  /**
+   * 竞品情感：基于窗口内已存储的引用片段，按提及该竞品的句子中正负面提示词计分后取平均；
+   * 没有片段时为 neutral
+   */
+  private async analyzeCompetitorSentiment(
+    competitor: string,
+    from: Date,
+    to: Date
+  ): Promise<CompetitorCitation['sentiment']> {
+    const observations = await this.citationObservations.getBrandObservations(competitor, from, to);
+    const scores = observations
+      .filter(observation => observation.snippet)
+      .map(observation => this.scoreSnippetSentiment(observation.snippet!, competitor));
+    if (scores.length === 0) {
+      return 'neutral';
+    }
 
-  private async getDailyCitationData(date: Date): Promise<{
-    total: number;
-    platformBreakdown: Record<string, number>;
-    topContent: Array<{ title: string; citations: number; urls: string[] }>;
-  }> {
-    // 模拟实现
-    const total = Math.floor(Math.random() * 10) + 1;
-    const platformBreakdown = {};
-    
-    this.monitoredPlatforms.forEach(platform => {
-      platformBreakdown[platform] = Math.floor(Math.random() * 3);
-    });
-    
-    return {
-      total,
-      platformBreakdown,
-      topContent: [
-        {
-          title: 'Eufy Security Camera Setup Guide',
-          citations: Math.floor(Math.random() * 5) + 1,
-          urls: ['https://www.eufy.com/setup-guide']
-        }
-      ]
-    };
+    const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    if (average > SENTIMENT_THRESHOLD) return 'positive';
+    if (average < -SENTIMENT_THRESHOLD) return 'negative';
+    return 'neutral';
   }
 
-  private async getTotalContentCount(): Promise<number> {
-    // 从数据库获取总内容数
-    return 500; // 模拟值
+  /**
+   * 单个片段的情感得分（-1 ~ 1）
+   */
+  private scoreSnippetSentiment(snippet: string, brand: string): number {
+    const sentences = snippet.split(/(?<=[.!?。！？])\s*/);
+    const brandPattern = new RegExp(`\\b${brand.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i');
+    const relevant = sentences.filter(sentence => brandPattern.test(sentence));
+    const text = (relevant.length > 0 ? relevant : sentences).join(' ').toLowerCase();
+
+    const positive = POSITIVE_SENTIMENT_CUES.filter(cue => text.includes(cue)).length;
+    const negative = NEGATIVE_SENTIMENT_CUES.filter(cue => text.includes(cue)).length;
+    return positive + negative > 0 ? (positive - negative) / (positive + negative) : 0;
   }
 
   private calculatePlatformDistribution(citations: CitationSource[]): Record<string, number> {
@@ -406,31 +540,21 @@ export class AICitationMonitorService {
     return distribution;
   }
 
-  private async getTopPerformingContent(citations: CitationSource[]): Promise<Array<{
+  private async getTopPerformingContent(from: Date, to: Date): Promise<Array<{
     title: string;
     url: string;
     citations: number;
     avgConfidence: number;
   }>> {
-    // 根据URL分组统计
-    const urlGroups = citations.reduce((groups, citation) => {
-      if (!groups[citation.sourceUrl]) {
-        groups[citation.sourceUrl] = [];
-      }
-      groups[citation.sourceUrl].push(citation);
-      return groups;
-    }, {} as Record<string, CitationSource[]>);
-    
-    // 计算每个URL的表现
-    const performance = Object.entries(urlGroups).map(([url, citationList]) => ({
-      title: this.extractTitleFromUrl(url),
-      url,
-      citations: citationList.length,
-      avgConfidence: citationList.reduce((sum, c) => sum + c.confidence, 0) / citationList.length
+    // 按 URL 聚合的引用次数和平均置信度，已按引用次数排序
+    const urls = await this.citationObservations.getTopCitedUrls(this.ownBrand.name, from, to, 10);
+
+    return urls.map(item => ({
+      title: this.extractTitleFromUrl(item.url),
+      url: item.url,
+      citations: item.citations,
+      avgConfidence: Math.round(item.avgConfidence * 100) / 100
     }));
-    
-    // 按引用次数排序
-    return performance.sort((a, b) => b.citations - a.citations).slice(0, 10);
   }
 
   private calculateTrendDirection(trends: CitationTrend[]): number {
@@ -443,7 +567,8 @@ export class AICitationMonitorService {
   }
 
   private async identifyLowPerformanceQueries(citations: CitationSource[]): Promise<string[]> {
-    const queries = await this.getMonitoringQueries();
+    const groups = await this.monitoringQueries.resolveGroups();
+    const queries = [...new Set(groups.flatMap(group => group.queries.map(query => query.text)))];
     const citedQueries = new Set(citations.map(c => c.query));
     
     return queries.filter(query => !citedQueries.has(query));
@@ -493,8 +618,15 @@ export class AICitationMonitorService {
   }
 
   private async getRecentPerformanceMetrics() {
-    // 获取最近性能指标
-    return { citationRate: 0.15 }; // 模拟值
+    // 最近 7 天的自有品牌引用率；无观测数据时不触发预警
+    const { from, to } = this.getWindow(7);
+    const [summaries, totalAnswers] = await Promise.all([
+      this.citationObservations.getBrandSummaries(from, to),
+      this.citationObservations.countAnswers(from, to),
+    ]);
+    const citedAnswers = summaries.find(summary => summary.brand === this.ownBrand.name)?.citedAnswers ?? 0;
+
+    return { citationRate: totalAnswers > 0 ? citedAnswers / totalAnswers : 1 };
   }
 
   private async detectCompetitorSurge() {
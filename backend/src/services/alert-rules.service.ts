@@ -0,0 +1,831 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, Alert as PrismaAlert, AlertRule as PrismaAlertRule } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { CitationObservationService } from './citation-observation.service';
+
+// ==================== 类型定义 ====================
+
+export type AlertRuleType = 'rank_drop' | 'aio_lost' | 'competitor_in_aio' | 'citation_rate_below';
+
+export type AlertSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type AlertChannel = 'in_app' | 'webhook';
+
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ['rank_drop', 'aio_lost', 'competitor_in_aio', 'citation_rate_below'];
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+export const ALERT_CHANNELS: AlertChannel[] = ['in_app', 'webhook'];
+
+export const ALERT_STATUSES: AlertStatus[] = ['open', 'acknowledged', 'resolved'];
+
+/** 关键词类规则：写入 keyword_metrics 后按关键词评估；其余为引用类规则，监测完成后评估 */
+const KEYWORD_RULE_TYPES: AlertRuleType[] = ['rank_drop', 'aio_lost', 'competitor_in_aio'];
+
+/** 关键词规则评估时读取的最近指标条数 */
+const METRIC_LOOKBACK = 14;
+const OWN_BRAND = 'Eufy';
+const AIO_PLATFORM = 'google-aio';
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const DEFAULT_ALERT_LIMIT = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 规则参数，按 ruleType 使用其中部分字段
+ */
+export interface AlertRuleConditions {
+  /** rank_drop: 排名下降超过的名次，默认 3 */
+  minDrop?: number;
+  /** rank_drop: 从有排名变为无排名是否视为下降，默认 true */
+  includeUnranked?: boolean;
+  /** aio_lost: 连续未被 AIO 引用的采集天数，默认 2 */
+  consecutiveDays?: number;
+  /** competitor_in_aio: 竞品名称或域名 */
+  competitors?: string[];
+  /** citation_rate_below: 自有品牌引用率阈值（0-1），默认 0.1 */
+  threshold?: number;
+  /** citation_rate_below: 统计窗口天数，默认 7 */
+  days?: number;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  description?: string;
+  ruleType: AlertRuleType;
+  conditions: AlertRuleConditions;
+  keywordIds: string[];
+  keywordPriorityLevels: string[];
+  keywordProductLines: string[];
+  severity: AlertSeverity;
+  channels: AlertChannel[];
+  webhookUrl?: string;
+  cooldownMinutes: number;
+  isActive: boolean;
+  lastEvaluatedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AlertRuleInput {
+  name?: string;
+  description?: string;
+  ruleType?: string;
+  conditions?: AlertRuleConditions;
+  keywordIds?: string[];
+  keywordPriorityLevels?: string[];
+  keywordProductLines?: string[];
+  severity?: string;
+  channels?: string[];
+  webhookUrl?: string;
+  cooldownMinutes?: number;
+  isActive?: boolean;
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  ruleName?: string;
+  keywordId?: string;
+  dedupKey: string;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  context?: Record<string, unknown>;
+  status: AlertStatus;
+  occurrences: number;
+  firstTriggeredAt: Date;
+  lastTriggeredAt: Date;
+  lastNotifiedAt?: Date;
+  deliveryError?: string;
+  snoozedUntil?: Date;
+  readAt?: Date;
+  acknowledgedAt?: Date;
+  acknowledgedBy?: string;
+  resolvedAt?: Date;
+}
+
+export interface AlertQueryOptions {
+  status?: AlertStatus;
+  keywordId?: string;
+  unreadOnly?: boolean;
+  /** 默认不返回仍在暂停期内的告警 */
+  includeSnoozed?: boolean;
+  limit?: number;
+}
+
+export interface AlertEvaluationResult {
+  evaluatedRules: number;
+  triggered: number;
+  notified: number;
+  resolved: number;
+}
+
+interface AlertCandidate {
+  dedupKey: string;
+  keywordId?: string;
+  title: string;
+  message: string;
+  context: Record<string, unknown>;
+}
+
+interface KeywordSnapshot {
+  id: string;
+  text: string;
+  priorityLevel: string | null;
+  productLine: string | null;
+  /** 按日期倒序 */
+  metrics: Array<{
+    metricDate: Date;
+    googlePosition: number | null;
+    aioDisplayed: boolean;
+    aioPosition: number | null;
+    aioContentSnippet: string | null;
+  }>;
+}
+
+/**
+ * 告警规则引擎
+ *
+ * 规则由用户配置，关键词类规则在写入 keyword_metrics 后评估，引用类规则在 AI 引用监测完成后评估。
+ * 同一规则同一对象未关闭的告警只保留一条（按 dedupKey 去重），重复触发只累加次数，并按冷却时间和暂停期决定是否再次通知；
+ * 条件不再满足时告警自动关闭。告警写入 alerts 表作为站内收件箱，配置 webhook 渠道时同时推送。
+ */
+@Injectable()
+export class AlertRulesService implements OnModuleInit {
+  private readonly logger = new Logger(AlertRulesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly citationObservations: CitationObservationService,
+  ) {}
+
+  async onModuleInit() {
+    await this.initializeDefaultRules();
+  }
+
+  // ==================== 规则管理 ====================
+
+  async listRules(includeInactive = false): Promise<AlertRule[]> {
+    const rules = await this.prisma.alertRule.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rules.map(rule => this.toAlertRule(rule));
+  }
+
+  async getRule(ruleId: string): Promise<AlertRule | null> {
+    const rule = await this.prisma.alertRule.findUnique({ where: { id: ruleId } });
+    return rule ? this.toAlertRule(rule) : null;
+  }
+
+  async createRule(input: AlertRuleInput, userId?: string): Promise<AlertRule> {
+    if (!input.name?.trim()) {
+      throw new Error('告警规则名称不能为空');
+    }
+    if (!input.ruleType) {
+      throw new Error('告警规则类型不能为空');
+    }
+    const data = this.toRuleData(input);
+    this.validateRule(data);
+
+    try {
+      const rule = await this.prisma.alertRule.create({
+        data: { ...data, ruleType: input.ruleType, name: input.name.trim(), createdBy: userId ?? null },
+      });
+      this.logger.log(`已创建告警规则: ${rule.name}`);
+      return this.toAlertRule(rule);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error(`告警规则名称已存在: ${input.name}`);
+      }
+      throw error;
+    }
+  }
+
+  async updateRule(ruleId: string, input: AlertRuleInput): Promise<AlertRule> {
+    const existing = await this.prisma.alertRule.findUnique({ where: { id: ruleId } });
+    if (!existing) {
+      throw new Error(`告警规则不存在: ${ruleId}`);
+    }
+    if (input.name !== undefined && !input.name.trim()) {
+      throw new Error('告警规则名称不能为空');
+    }
+
+    const data = this.toRuleData(input);
+    this.validateRule({ ...this.toRuleData(this.toAlertRule(existing)), ...data });
+
+    try {
+      const rule = await this.prisma.alertRule.update({
+        where: { id: ruleId },
+        data: { ...data, ...(input.name !== undefined && { name: input.name.trim() }) },
+      });
+      return this.toAlertRule(rule);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error(`告警规则名称已存在: ${input.name}`);
+      }
+      throw error;
+    }
+  }
+
+  async deleteRule(ruleId: string): Promise<boolean> {
+    const { count } = await this.prisma.alertRule.deleteMany({ where: { id: ruleId } });
+    if (count === 0) {
+      throw new Error(`告警规则不存在: ${ruleId}`);
+    }
+    return true;
+  }
+
+  // ==================== 规则评估 ====================
+
+  /**
+   * 评估关键词类规则；未指定 keywordIds 时评估各规则范围内的全部活跃关键词
+   */
+  async evaluateKeywordRules(keywordIds?: string[], now: Date = new Date()): Promise<AlertEvaluationResult> {
+    const result: AlertEvaluationResult = { evaluatedRules: 0, triggered: 0, notified: 0, resolved: 0 };
+    const rules = await this.loadActiveRules(KEYWORD_RULE_TYPES);
+    if (rules.length === 0 || keywordIds?.length === 0) {
+      return result;
+    }
+
+    const keywords: KeywordSnapshot[] = await this.prisma.keyword.findMany({
+      where: keywordIds ? { id: { in: keywordIds } } : { status: { not: 'retired' } },
+      select: {
+        id: true,
+        text: true,
+        priorityLevel: true,
+        productLine: true,
+        metrics: {
+          orderBy: { metricDate: 'desc' },
+          take: METRIC_LOOKBACK,
+          select: { metricDate: true, googlePosition: true, aioDisplayed: true, aioPosition: true, aioContentSnippet: true },
+        },
+      },
+    });
+
+    const aioBrands = rules.some(rule => rule.ruleType === 'competitor_in_aio')
+      ? await this.loadAIOCitedBrands(keywords.map(keyword => keyword.id), now)
+      : new Map<string, Set<string>>();
+
+    for (const rule of rules) {
+      const scoped = keywords.filter(keyword => this.isInScope(rule, keyword));
+      try {
+        const candidates = scoped.flatMap(keyword => this.checkKeywordRule(rule, keyword, aioBrands.get(keyword.id)));
+        await this.applyCandidates(rule, candidates, { keywordId: { in: scoped.map(keyword => keyword.id) } }, now, result);
+      } catch (error) {
+        this.logger.error(`告警规则评估失败 [${rule.name}]: ${error.message}`, error.stack);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 评估引用类规则（基于 citation_observations）
+   */
+  async evaluateCitationRules(now: Date = new Date()): Promise<AlertEvaluationResult> {
+    const result: AlertEvaluationResult = { evaluatedRules: 0, triggered: 0, notified: 0, resolved: 0 };
+    const rules = await this.loadActiveRules(['citation_rate_below']);
+
+    for (const rule of rules) {
+      try {
+        const days = rule.conditions.days ?? 7;
+        const threshold = rule.conditions.threshold ?? 0.1;
+        const from = new Date(now.getTime() - days * DAY_MS);
+        const [summaries, totalAnswers] = await Promise.all([
+          this.citationObservations.getBrandSummaries(from, now),
+          this.citationObservations.countAnswers(from, now),
+        ]);
+        // 无观测数据时不触发也不关闭
+        if (totalAnswers === 0) {
+          continue;
+        }
+
+        const citedAnswers = summaries.find(summary => summary.brand === OWN_BRAND)?.citedAnswers ?? 0;
+        const citationRate = citedAnswers / totalAnswers;
+        const candidates: AlertCandidate[] = citationRate < threshold
+          ? [{
+              dedupKey: 'citation_rate',
+              title: 'AI 引用率过低',
+              message: `近 ${days} 天 ${OWN_BRAND} 在 AI 回答中的引用率为 ${this.formatPercent(citationRate)}，低于阈值 ${this.formatPercent(threshold)}`,
+              context: { citationRate, threshold, citedAnswers, totalAnswers, days },
+            }]
+          : [];
+        await this.applyCandidates(rule, candidates, {}, now, result);
+      } catch (error) {
+        this.logger.error(`告警规则评估失败 [${rule.name}]: ${error.message}`, error.stack);
+      }
+    }
+
+    return result;
+  }
+
+  // ==================== 告警收件箱 ====================
+
+  async listAlerts(options: AlertQueryOptions = {}, now: Date = new Date()): Promise<Alert[]> {
+    const alerts = await this.prisma.alert.findMany({
+      where: {
+        ...(options.status && { status: options.status }),
+        ...(options.keywordId && { keywordId: options.keywordId }),
+        ...(options.unreadOnly && { readAt: null }),
+        ...(!options.includeSnoozed && { OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }] }),
+      },
+      include: { rule: { select: { name: true } } },
+      orderBy: { lastTriggeredAt: 'desc' },
+      take: options.limit ?? DEFAULT_ALERT_LIMIT,
+    });
+    return alerts.map(alert => this.toAlert(alert, alert.rule.name));
+  }
+
+  /**
+   * 未读且未关闭的告警数（不含暂停期内的告警）
+   */
+  async countUnread(now: Date = new Date()): Promise<number> {
+    return this.prisma.alert.count({
+      where: {
+        readAt: null,
+        status: { not: 'resolved' },
+        OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }],
+      },
+    });
+  }
+
+  async markRead(alertIds: string[]): Promise<number> {
+    const { count } = await this.prisma.alert.updateMany({
+      where: { id: { in: alertIds }, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return count;
+  }
+
+  async acknowledgeAlert(alertId: string, userId?: string): Promise<Alert> {
+    const alert = await this.findAlertOrThrow(alertId);
+    if (alert.status === 'resolved') {
+      throw new Error('告警已关闭，无法确认');
+    }
+
+    const now = new Date();
+    return this.toAlert(await this.prisma.alert.update({
+      where: { id: alertId },
+      data: { status: 'acknowledged', acknowledgedAt: now, acknowledgedBy: userId ?? null, readAt: alert.readAt ?? now },
+    }));
+  }
+
+  async resolveAlert(alertId: string): Promise<Alert> {
+    const alert = await this.findAlertOrThrow(alertId);
+    if (alert.status === 'resolved') {
+      return this.toAlert(alert);
+    }
+    return this.toAlert(await this.prisma.alert.update({
+      where: { id: alertId },
+      data: { status: 'resolved', resolvedAt: new Date() },
+    }));
+  }
+
+  /**
+   * 暂停告警通知：暂停期内重复触发只累加次数，不通知也不出现在收件箱中；minutes 为 0 时取消暂停
+   */
+  async snoozeAlert(alertId: string, minutes: number): Promise<Alert> {
+    if (!Number.isInteger(minutes) || minutes < 0) {
+      throw new Error('暂停时长必须是非负整数（分钟）');
+    }
+    const alert = await this.findAlertOrThrow(alertId);
+    if (alert.status === 'resolved') {
+      throw new Error('告警已关闭，无法暂停');
+    }
+    return this.toAlert(await this.prisma.alert.update({
+      where: { id: alertId },
+      data: { snoozedUntil: minutes > 0 ? new Date(Date.now() + minutes * 60 * 1000) : null },
+    }));
+  }
+
+  // ==================== 私有方法 ====================
+
+  private async loadActiveRules(ruleTypes: AlertRuleType[]): Promise<AlertRule[]> {
+    const rules = await this.prisma.alertRule.findMany({
+      where: { isActive: true, ruleType: { in: ruleTypes } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rules.map(rule => this.toAlertRule(rule));
+  }
+
+  private isInScope(rule: AlertRule, keyword: KeywordSnapshot): boolean {
+    return (rule.keywordIds.length === 0 || rule.keywordIds.includes(keyword.id))
+      && (rule.keywordPriorityLevels.length === 0 || rule.keywordPriorityLevels.includes(keyword.priorityLevel ?? ''))
+      && (rule.keywordProductLines.length === 0 || rule.keywordProductLines.includes(keyword.productLine ?? ''));
+  }
+
+  /**
+   * 关键词规则判断，返回触发的告警（无触发时为空数组）
+   */
+  private checkKeywordRule(rule: AlertRule, keyword: KeywordSnapshot, aioBrands?: Set<string>): AlertCandidate[] {
+    const [latest, previous] = keyword.metrics;
+    if (!latest) {
+      return [];
+    }
+    const dedupKey = `keyword:${keyword.id}`;
+    const latestDate = this.formatDate(latest.metricDate);
+
+    switch (rule.ruleType) {
+      case 'rank_drop': {
+        if (!previous || previous.googlePosition === null) {
+          return [];
+        }
+        const minDrop = rule.conditions.minDrop ?? 3;
+        if (latest.googlePosition === null) {
+          return rule.conditions.includeUnranked === false ? [] : [{
+            dedupKey,
+            keywordId: keyword.id,
+            title: `关键词排名丢失: ${keyword.text}`,
+            message: `「${keyword.text}」${latestDate} 已无 Google 排名（此前第 ${previous.googlePosition} 位）`,
+            context: { previousPosition: previous.googlePosition, currentPosition: null, metricDate: latestDate },
+          }];
+        }
+        const drop = latest.googlePosition - previous.googlePosition;
+        return drop > minDrop ? [{
+          dedupKey,
+          keywordId: keyword.id,
+          title: `关键词排名下降: ${keyword.text}`,
+          message: `「${keyword.text}」Google 排名从第 ${previous.googlePosition} 位下降到第 ${latest.googlePosition} 位（${latestDate}）`,
+          context: { previousPosition: previous.googlePosition, currentPosition: latest.googlePosition, drop, metricDate: latestDate },
+        }] : [];
+      }
+
+      case 'aio_lost': {
+        // 最近 N 天均未被 AIO 引用，且此前窗口内曾被引用
+        const consecutiveDays = rule.conditions.consecutiveDays ?? 2;
+        const recent = keyword.metrics.slice(0, consecutiveDays);
+        const lastCited = keyword.metrics.slice(consecutiveDays).find(metric => metric.aioPosition !== null);
+        if (recent.length < consecutiveDays || recent.some(metric => metric.aioPosition !== null) || !lastCited) {
+          return [];
+        }
+        const lastCitedDate = this.formatDate(lastCited.metricDate);
+        return [{
+          dedupKey,
+          keywordId: keyword.id,
+          title: `AIO 引用丢失: ${keyword.text}`,
+          message: `「${keyword.text}」已连续 ${consecutiveDays} 天未被 Google AI Overview 引用（最近一次引用: ${lastCitedDate}）`,
+          context: { consecutiveDays, lastCitedDate, aioDisplayed: latest.aioDisplayed, metricDate: latestDate },
+        }];
+      }
+
+      case 'competitor_in_aio': {
+        if (!latest.aioDisplayed) {
+          return [];
+        }
+        const snippet = (latest.aioContentSnippet ?? '').toLowerCase();
+        const citedBrands = [...(aioBrands ?? [])].map(brand => brand.toLowerCase());
+        return (rule.conditions.competitors ?? [])
+          .filter(competitor => {
+            const name = competitor.toLowerCase();
+            return snippet.includes(name) || citedBrands.includes(name);
+          })
+          .map(competitor => ({
+            dedupKey: `${dedupKey}:competitor:${competitor.toLowerCase()}`,
+            keywordId: keyword.id,
+            title: `竞品出现在 AIO 中: ${competitor}`,
+            message: `${competitor} 出现在「${keyword.text}」的 Google AI Overview 中（${latestDate}）`,
+            context: { competitor, aioPosition: latest.aioPosition, metricDate: latestDate },
+          }));
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * 近一天 Google AIO 观测中各关键词被引用的品牌
+   */
+  private async loadAIOCitedBrands(keywordIds: string[], now: Date): Promise<Map<string, Set<string>>> {
+    const observations = await this.prisma.citationObservation.findMany({
+      where: {
+        keywordId: { in: keywordIds },
+        platform: AIO_PLATFORM,
+        brand: { not: null },
+        observedAt: { gte: new Date(now.getTime() - DAY_MS) },
+      },
+      select: { keywordId: true, brand: true },
+    });
+
+    const brands = new Map<string, Set<string>>();
+    for (const observation of observations) {
+      const keywordBrands = brands.get(observation.keywordId!) ?? new Set<string>();
+      keywordBrands.add(observation.brand!);
+      brands.set(observation.keywordId!, keywordBrands);
+    }
+    return brands;
+  }
+
+  /**
+   * 写入触发的告警并关闭范围内条件已不满足的告警
+   */
+  private async applyCandidates(
+    rule: AlertRule,
+    candidates: AlertCandidate[],
+    scope: Prisma.AlertWhereInput,
+    now: Date,
+    result: AlertEvaluationResult,
+  ) {
+    for (const candidate of candidates) {
+      const notified = await this.raiseAlert(rule, candidate, now);
+      result.triggered++;
+      if (notified) result.notified++;
+    }
+
+    const { count } = await this.prisma.alert.updateMany({
+      where: {
+        ...scope,
+        ruleId: rule.id,
+        status: { not: 'resolved' },
+        dedupKey: { notIn: candidates.map(candidate => candidate.dedupKey) },
+      },
+      data: { status: 'resolved', resolvedAt: now },
+    });
+    result.resolved += count;
+    result.evaluatedRules++;
+
+    await this.prisma.alertRule.update({ where: { id: rule.id }, data: { lastEvaluatedAt: now } });
+  }
+
+  /**
+   * 新建或累加告警，返回是否发送了通知
+   */
+  private async raiseAlert(rule: AlertRule, candidate: AlertCandidate, now: Date): Promise<boolean> {
+    const fields = {
+      severity: rule.severity,
+      title: candidate.title,
+      message: candidate.message,
+      context: candidate.context as Prisma.InputJsonValue,
+      lastTriggeredAt: now,
+    };
+
+    const existing = await this.prisma.alert.findFirst({
+      where: { ruleId: rule.id, dedupKey: candidate.dedupKey, status: { not: 'resolved' } },
+      orderBy: { lastTriggeredAt: 'desc' },
+    });
+
+    let alert: PrismaAlert;
+    let notify: boolean;
+    if (existing) {
+      // 已确认或暂停中的告警不再通知；其余按冷却时间通知并重新标记为未读
+      notify = existing.status === 'open'
+        && (!existing.snoozedUntil || existing.snoozedUntil <= now)
+        && (!existing.lastNotifiedAt || now.getTime() - existing.lastNotifiedAt.getTime() >= rule.cooldownMinutes * 60 * 1000);
+      alert = await this.prisma.alert.update({
+        where: { id: existing.id },
+        data: { ...fields, occurrences: { increment: 1 }, ...(notify && { readAt: null }) },
+      });
+    } else {
+      notify = true;
+      alert = await this.prisma.alert.create({
+        data: {
+          ...fields,
+          ruleId: rule.id,
+          keywordId: candidate.keywordId ?? null,
+          dedupKey: candidate.dedupKey,
+          firstTriggeredAt: now,
+        },
+      });
+      this.logger.log(`触发告警 [${rule.name}]: ${candidate.title}`);
+    }
+
+    if (!notify) {
+      return false;
+    }
+
+    const deliveryError = await this.deliver(rule, this.toAlert(alert, rule.name));
+    await this.prisma.alert.update({
+      where: { id: alert.id },
+      data: { lastNotifiedAt: now, deliveryError },
+    });
+    return true;
+  }
+
+  /**
+   * 发送通知；站内通知即告警记录本身，webhook 失败时返回错误信息
+   */
+  private async deliver(rule: AlertRule, alert: Alert): Promise<string | null> {
+    if (!rule.channels.includes('webhook')) {
+      return null;
+    }
+
+    const url = rule.webhookUrl ?? this.configService.get<string>('ALERT_WEBHOOK_URL');
+    if (!url) {
+      return '未配置 webhook 地址';
+    }
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          event: 'alert.triggered',
+          rule: { id: rule.id, name: rule.name, ruleType: rule.ruleType },
+          alert,
+        }),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return null;
+    } catch (error) {
+      this.logger.warn(`告警 webhook 推送失败 [${rule.name}]: ${error.message}`);
+      return `webhook 推送失败: ${error.message}`;
+    }
+  }
+
+  private async findAlertOrThrow(alertId: string): Promise<PrismaAlert> {
+    const alert = await this.prisma.alert.findUnique({ where: { id: alertId } });
+    if (!alert) {
+      throw new Error(`告警不存在: ${alertId}`);
+    }
+    return alert;
+  }
+
+  /**
+   * 初始化默认规则：P0 关键词排名下降、重点关键词 AIO 引用丢失、AI 引用率过低
+   *
+   * 仅在规则表为空时写入，保留用户对规则的修改和删除
+   */
+  private async initializeDefaultRules() {
+    try {
+      const count = await this.prisma.alertRule.count();
+      if (count > 0) {
+        return;
+      }
+
+      await this.prisma.alertRule.createMany({
+        data: [
+          {
+            name: 'P0 关键词排名下降',
+            description: 'P0 关键词 Google 排名较上次采集下降超过 3 位',
+            ruleType: 'rank_drop',
+            conditions: { minDrop: 3 },
+            keywordPriorityLevels: ['P0'],
+            severity: 'high',
+          },
+          {
+            name: '重点关键词 AIO 引用丢失',
+            description: 'P0-P1 关键词连续 2 天未被 Google AI Overview 引用',
+            ruleType: 'aio_lost',
+            conditions: { consecutiveDays: 2 },
+            keywordPriorityLevels: ['P0', 'P1'],
+            severity: 'high',
+          },
+          {
+            name: 'AI 引用率过低',
+            description: '近 7 天 AI 回答中的自有品牌引用率低于 10%',
+            ruleType: 'citation_rate_below',
+            conditions: { threshold: 0.1, days: 7 },
+            severity: 'medium',
+          },
+        ],
+        skipDuplicates: true,
+      });
+      this.logger.log('已初始化默认告警规则');
+    } catch (error) {
+      this.logger.error(`初始化默认告警规则失败: ${error.message}`, error.stack);
+    }
+  }
+
+  /**
+   * 输入 -> 写入字段；仅包含输入中出现的字段
+   */
+  private toRuleData(input: AlertRuleInput) {
+    const trimList = (values: string[]) => values.map(value => value.trim()).filter(Boolean);
+
+    return {
+      ...(input.ruleType !== undefined && { ruleType: input.ruleType }),
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.conditions !== undefined && { conditions: input.conditions as Prisma.InputJsonValue }),
+      ...(input.keywordIds !== undefined && { keywordIds: trimList(input.keywordIds) }),
+      ...(input.keywordPriorityLevels !== undefined && { keywordPriorityLevels: trimList(input.keywordPriorityLevels) }),
+      ...(input.keywordProductLines !== undefined && { keywordProductLines: trimList(input.keywordProductLines) }),
+      ...(input.severity !== undefined && { severity: input.severity }),
+      ...(input.channels !== undefined && { channels: trimList(input.channels) }),
+      ...(input.webhookUrl !== undefined && { webhookUrl: input.webhookUrl.trim() || null }),
+      ...(input.cooldownMinutes !== undefined && { cooldownMinutes: input.cooldownMinutes }),
+      ...(input.isActive !== undefined && { isActive: input.isActive }),
+    };
+  }
+
+  private validateRule(data: ReturnType<AlertRulesService['toRuleData']>) {
+    const errors: string[] = [];
+    const conditions = (data.conditions ?? {}) as AlertRuleConditions;
+    const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+    if (data.ruleType !== undefined && !ALERT_RULE_TYPES.includes(data.ruleType as AlertRuleType)) {
+      errors.push(`不支持的规则类型: ${data.ruleType}`);
+    }
+    if (data.severity !== undefined && !ALERT_SEVERITIES.includes(data.severity as AlertSeverity)) {
+      errors.push(`不支持的告警级别: ${data.severity}`);
+    }
+
+    const unknownChannels = (data.channels ?? []).filter(channel => !ALERT_CHANNELS.includes(channel as AlertChannel));
+    if (unknownChannels.length > 0) {
+      errors.push(`不支持的通知渠道: ${unknownChannels.join(', ')}`);
+    }
+    if (data.channels !== undefined && data.channels.length === 0) {
+      errors.push('至少需要一个通知渠道');
+    }
+    if (data.webhookUrl && !/^https?:\/\//.test(data.webhookUrl)) {
+      errors.push(`webhook 地址无效: ${data.webhookUrl}`);
+    }
+    if (data.cooldownMinutes !== undefined && (!Number.isInteger(data.cooldownMinutes) || data.cooldownMinutes < 0)) {
+      errors.push('冷却时间必须是非负整数（分钟）');
+    }
+
+    switch (data.ruleType) {
+      case 'rank_drop':
+        if (conditions.minDrop !== undefined && !isPositiveInteger(conditions.minDrop)) {
+          errors.push('minDrop 必须是正整数');
+        }
+        break;
+      case 'aio_lost':
+        if (conditions.consecutiveDays !== undefined
+          && (!isPositiveInteger(conditions.consecutiveDays) || conditions.consecutiveDays >= METRIC_LOOKBACK)) {
+          errors.push(`consecutiveDays 必须是 1-${METRIC_LOOKBACK - 1} 之间的整数`);
+        }
+        break;
+      case 'competitor_in_aio':
+        if (!Array.isArray(conditions.competitors) || conditions.competitors.filter(name => name?.trim()).length === 0) {
+          errors.push('competitor_in_aio 规则至少需要一个竞品');
+        }
+        break;
+      case 'citation_rate_below':
+        if (conditions.threshold !== undefined
+          && (typeof conditions.threshold !== 'number' || conditions.threshold <= 0 || conditions.threshold > 1)) {
+          errors.push('threshold 必须在 0-1 之间');
+        }
+        if (conditions.days !== undefined && (!isPositiveInteger(conditions.days) || conditions.days > 90)) {
+          errors.push('days 必须是 1-90 之间的整数');
+        }
+        break;
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`告警规则配置无效: ${errors.join('; ')}`);
+    }
+  }
+
+  private toAlertRule(rule: PrismaAlertRule): AlertRule {
+    return {
+      id: rule.id,
+      name: rule.name,
+      ...(rule.description !== null && { description: rule.description }),
+      ruleType: rule.ruleType as AlertRuleType,
+      conditions: (rule.conditions ?? {}) as AlertRuleConditions,
+      keywordIds: rule.keywordIds,
+      keywordPriorityLevels: rule.keywordPriorityLevels,
+      keywordProductLines: rule.keywordProductLines,
+      severity: rule.severity as AlertSeverity,
+      channels: rule.channels as AlertChannel[],
+      ...(rule.webhookUrl !== null && { webhookUrl: rule.webhookUrl }),
+      cooldownMinutes: rule.cooldownMinutes,
+      isActive: rule.isActive,
+      ...(rule.lastEvaluatedAt !== null && { lastEvaluatedAt: rule.lastEvaluatedAt }),
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+
+  private toAlert(alert: PrismaAlert, ruleName?: string): Alert {
+    return {
+      id: alert.id,
+      ruleId: alert.ruleId,
+      ...(ruleName !== undefined && { ruleName }),
+      ...(alert.keywordId !== null && { keywordId: alert.keywordId }),
+      dedupKey: alert.dedupKey,
+      severity: alert.severity as AlertSeverity,
+      title: alert.title,
+      message: alert.message,
+      ...(alert.context !== null && { context: alert.context as Record<string, unknown> }),
+      status: alert.status as AlertStatus,
+      occurrences: alert.occurrences,
+      firstTriggeredAt: alert.firstTriggeredAt,
+      lastTriggeredAt: alert.lastTriggeredAt,
+      ...(alert.lastNotifiedAt !== null && { lastNotifiedAt: alert.lastNotifiedAt }),
+      ...(alert.deliveryError !== null && { deliveryError: alert.deliveryError }),
+      ...(alert.snoozedUntil !== null && { snoozedUntil: alert.snoozedUntil }),
+      ...(alert.readAt !== null && { readAt: alert.readAt }),
+      ...(alert.acknowledgedAt !== null && { acknowledgedAt: alert.acknowledgedAt }),
+      ...(alert.acknowledgedBy !== null && { acknowledgedBy: alert.acknowledgedBy }),
+      ...(alert.resolvedAt !== null && { resolvedAt: alert.resolvedAt }),
+    };
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0]!;
+  }
+
+  private formatPercent(value: number): string {
+    return `${Math.round(value * 1000) / 10}%`;
+  }
+}
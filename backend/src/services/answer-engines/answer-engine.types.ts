@@ -0,0 +1,51 @@
+/**
+ * AI 问答引擎适配器类型定义
+ *
+ * @description 各 AI 问答平台（ChatGPT、Perplexity、Gemini、Claude、Google AIO）统一的查询接口
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+export type AnswerEnginePlatform = 'chatgpt' | 'perplexity' | 'gemini' | 'claude' | 'google-aio';
+
+export const ANSWER_ENGINE_PLATFORMS: AnswerEnginePlatform[] = [
+  'chatgpt',
+  'perplexity',
+  'gemini',
+  'claude',
+  'google-aio',
+];
+
+/**
+ * 回答引用的来源，按平台给出的顺序排列
+ */
+export interface AnswerEngineSource {
+  url: string;
+  title?: string;
+  /** 平台返回的 URL 为跳转链接时（如 Gemini grounding），由适配器给出真实域名 */
+  domain?: string;
+}
+
+export interface AnswerEngineQueryOptions {
+  /** BCP 47 语言区域，如 en-US、de-DE；平台支持时用于限定搜索地区和语言 */
+  locale?: string;
+}
+
+export interface AnswerEngineResult {
+  platform: AnswerEnginePlatform;
+  query: string;
+  answer: string;
+  sources: AnswerEngineSource[];
+  fetchedAt: Date;
+}
+
+export interface AnswerEngineAdapter {
+  readonly platform: AnswerEnginePlatform;
+
+  /**
+   * 是否具备查询条件（API Key、Fixture 文件等）
+   */
+  isAvailable(): boolean;
+
+  query(query: string, options?: AnswerEngineQueryOptions): Promise<AnswerEngineResult>;
+}
@@ -0,0 +1,160 @@
+/**
+ * AI 回答引用解析
+ *
+ * @description 从回答正文和来源列表中提取被引用的 URL，判断 Eufy 或竞品是否被引用及其排名
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { AnswerEngineResult } from './answer-engine.types';
+
+export interface CitationBrand {
+  name: string;
+  domains: string[];
+}
+
+export interface CitedUrl {
+  rank: number;
+  url: string;
+  domain: string;
+  title?: string;
+  /** 匹配到的品牌名称，未匹配为 null */
+  brand: string | null;
+}
+
+export interface BrandCitation {
+  brand: string;
+  rank: number;
+  url: string;
+  domain: string;
+  snippet: string;
+}
+
+export interface CitationExtraction {
+  citedUrls: CitedUrl[];
+  /** 自有品牌首次被引用的位置，未被引用为 null */
+  ownCitation: BrandCitation | null;
+  competitorCitations: BrandCitation[];
+  /** 正文中提及但未作为来源引用的品牌 */
+  mentionedBrands: string[];
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>()[\]"'`]+/g;
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}*_]+$/;
+const SNIPPET_RADIUS = 140;
+
+/**
+ * 解析 AI 回答中的引用
+ *
+ * 排名以来源列表顺序为准；正文中出现但不在来源列表中的链接依出现顺序追加在后。
+ * 同一品牌仅记录排名最靠前的一次引用。
+ */
+export function extractCitations(
+  result: AnswerEngineResult,
+  ownBrand: CitationBrand,
+  competitors: CitationBrand[],
+): CitationExtraction {
+  const brands = [ownBrand, ...competitors];
+  const citedUrls: CitedUrl[] = [];
+  const seen = new Set<string>();
+
+  const addUrl = (url: string, title?: string, domainHint?: string) => {
+    const normalizedUrl = url.replace(TRAILING_PUNCTUATION, '');
+    const key = normalizedUrl.toLowerCase().replace(/\/$/, '');
+    const domain = normalizeDomain(domainHint ?? hostnameOf(normalizedUrl));
+    if (!domain || seen.has(key)) {
+      return;
+    }
+    seen.add(key);
+
+    citedUrls.push({
+      rank: citedUrls.length + 1,
+      url: normalizedUrl,
+      domain,
+      ...(title !== undefined && { title }),
+      brand: brands.find(brand => matchesBrandDomain(domain, brand))?.name ?? null,
+    });
+  };
+
+  result.sources.forEach(source => addUrl(source.url, source.title, source.domain));
+  for (const match of result.answer.matchAll(URL_PATTERN)) {
+    addUrl(match[0]);
+  }
+
+  const toBrandCitation = (brand: CitationBrand): BrandCitation | null => {
+    const cited = citedUrls.find(url => url.brand === brand.name);
+    if (!cited) {
+      return null;
+    }
+    return {
+      brand: brand.name,
+      rank: cited.rank,
+      url: cited.url,
+      domain: cited.domain,
+      snippet: extractSnippet(result.answer, brand, cited.rank),
+    };
+  };
+
+  const competitorCitations = competitors
+    .map(toBrandCitation)
+    .filter((citation): citation is BrandCitation => citation !== null)
+    .sort((a, b) => a.rank - b.rank);
+
+  const citedBrands = new Set(citedUrls.map(url => url.brand));
+  const mentionedBrands = brands
+    .filter(brand => !citedBrands.has(brand.name) && mentionsBrand(result.answer, brand.name))
+    .map(brand => brand.name);
+
+  return {
+    citedUrls,
+    ownCitation: toBrandCitation(ownBrand),
+    competitorCitations,
+    mentionedBrands,
+  };
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+}
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^www\./, '');
+}
+
+function matchesBrandDomain(domain: string, brand: CitationBrand): boolean {
+  return brand.domains.some(brandDomain => domain === brandDomain || domain.endsWith(`.${brandDomain}`));
+}
+
+function mentionsBrand(text: string, brandName: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(brandName)}\\b`, 'i').test(text);
+}
+
+/**
+ * 截取回答中与引用相关的片段：优先品牌名称附近，其次引用角标 [n] 附近，最后取回答开头
+ */
+function extractSnippet(answer: string, brand: CitationBrand, rank: number): string {
+  const candidates = [
+    new RegExp(`\\b${escapeRegExp(brand.name)}\\b`, 'i'),
+    ...brand.domains.map(domain => new RegExp(escapeRegExp(domain), 'i')),
+    new RegExp(`\\[${rank}\\]`),
+  ];
+
+  for (const pattern of candidates) {
+    const match = pattern.exec(answer);
+    if (match) {
+      const start = Math.max(0, match.index - SNIPPET_RADIUS);
+      const end = Math.min(answer.length, match.index + match[0].length + SNIPPET_RADIUS);
+      return answer.slice(start, end).replace(/\s+/g, ' ').trim();
+    }
+  }
+
+  return answer.slice(0, SNIPPET_RADIUS * 2).replace(/\s+/g, ' ').trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
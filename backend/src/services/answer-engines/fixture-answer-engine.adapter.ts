@@ -0,0 +1,79 @@
+/**
+ * AI 问答引擎 Fixture 适配器
+ *
+ * @description 从本地 JSON 文件读取预录制的回答，用于离线开发和测试；回答内容完全确定，
+ * 抓取时间取当前时间，使 fixture 运行产生的观测落在洞察统计的时间窗口内
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  AnswerEngineAdapter,
+  AnswerEnginePlatform,
+  AnswerEngineResult,
+  AnswerEngineSource,
+} from './answer-engine.types';
+
+/**
+ * Fixture 文件格式：`<fixtureDir>/<platform>.json`
+ *
+ * {
+ *   "best security camera for home": {
+ *     "answer": "...",
+ *     "sources": [{ "url": "https://www.eufy.com/...", "title": "..." }]
+ *   }
+ * }
+ *
+ * 查询按去除首尾空白、忽略大小写匹配；未录制的查询返回空回答。
+ */
+export type AnswerEngineFixtureFile = Record<string, { answer: string; sources?: AnswerEngineSource[] }>;
+
+export class FixtureAnswerEngineAdapter implements AnswerEngineAdapter {
+  private fixtures: Map<string, { answer: string; sources: AnswerEngineSource[] }> | null = null;
+
+  constructor(
+    readonly platform: AnswerEnginePlatform,
+    private readonly fixtureDir: string,
+    /** 抓取时间来源，测试中可注入固定时钟 */
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  isAvailable(): boolean {
+    return existsSync(this.fixturePath);
+  }
+
+  async query(query: string): Promise<AnswerEngineResult> {
+    const fixture = this.loadFixtures().get(this.normalizeQuery(query));
+
+    return {
+      platform: this.platform,
+      query,
+      answer: fixture?.answer ?? '',
+      sources: fixture?.sources ?? [],
+      fetchedAt: this.now(),
+    };
+  }
+
+  private get fixturePath(): string {
+    return join(this.fixtureDir, `${this.platform}.json`);
+  }
+
+  private loadFixtures() {
+    if (!this.fixtures) {
+      const file = JSON.parse(readFileSync(this.fixturePath, 'utf8')) as AnswerEngineFixtureFile;
+      this.fixtures = new Map(
+        Object.entries(file).map(([query, fixture]) => [
+          this.normalizeQuery(query),
+          { answer: fixture.answer, sources: fixture.sources ?? [] },
+        ]),
+      );
+    }
+    return this.fixtures;
+  }
+
+  private normalizeQuery(query: string): string {
+    return query.trim().toLowerCase();
+  }
+}
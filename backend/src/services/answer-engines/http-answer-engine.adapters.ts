@@ -0,0 +1,297 @@
+/**
+ * AI 问答引擎在线适配器
+ *
+ * @description 通过各平台官方 API（Google AIO 通过 SerpApi）获取回答正文和引用来源
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import {
+  AnswerEngineAdapter,
+  AnswerEnginePlatform,
+  AnswerEngineQueryOptions,
+  AnswerEngineResult,
+  AnswerEngineSource,
+} from './answer-engine.types';
+
+const REQUEST_TIMEOUT_MS = 60_000;
+
+/**
+ * 解析语言区域：en-US -> { language: 'en', country: 'US' }
+ */
+function parseLocale(locale?: string): { language?: string; country?: string } {
+  const [language, country] = (locale ?? '').split(/[-_]/);
+  return {
+    ...(language && { language: language.toLowerCase() }),
+    ...(country && { country: country.toUpperCase() }),
+  };
+}
+
+/**
+ * 在线适配器基类：统一 API Key 检查、超时和错误处理
+ */
+abstract class HttpAnswerEngineAdapter implements AnswerEngineAdapter {
+  abstract readonly platform: AnswerEnginePlatform;
+
+  constructor(protected readonly apiKey: string | undefined) {}
+
+  isAvailable(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  async query(query: string, options: AnswerEngineQueryOptions = {}): Promise<AnswerEngineResult> {
+    if (!this.apiKey) {
+      throw new Error(`${this.platform} 未配置 API Key`);
+    }
+
+    const { answer, sources } = await this.fetchAnswer(query, this.apiKey, options);
+    return {
+      platform: this.platform,
+      query,
+      answer,
+      sources,
+      fetchedAt: new Date(),
+    };
+  }
+
+  protected abstract fetchAnswer(
+    query: string,
+    apiKey: string,
+    options: AnswerEngineQueryOptions,
+  ): Promise<{ answer: string; sources: AnswerEngineSource[] }>;
+
+  protected async requestJson(url: string, init: RequestInit = {}): Promise<any> {
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'content-type': 'application/json', ...init.headers },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`${this.platform} 请求失败: HTTP ${response.status} ${body.slice(0, 200)}`);
+    }
+
+    return response.json();
+  }
+}
+
+/**
+ * ChatGPT：OpenAI Responses API + web_search 工具，引用来自 url_citation 注释
+ */
+export class ChatGPTAnswerEngineAdapter extends HttpAnswerEngineAdapter {
+  readonly platform = 'chatgpt' as const;
+
+  constructor(apiKey: string | undefined, private readonly model = 'gpt-4o') {
+    super(apiKey);
+  }
+
+  protected async fetchAnswer(query: string, apiKey: string, options: AnswerEngineQueryOptions) {
+    const { country } = parseLocale(options.locale);
+    const data = await this.requestJson('https://api.openai.com/v1/responses', {
+      method: 'POST',
+      headers: { authorization: `Bearer ${apiKey}` },
+      body: JSON.stringify({
+        model: this.model,
+        tools: [{
+          type: 'web_search_preview',
+          ...(country && { user_location: { type: 'approximate', country } }),
+        }],
+        input: query,
+      }),
+    });
+
+    const texts: string[] = [];
+    const sources: AnswerEngineSource[] = [];
+    for (const item of data.output ?? []) {
+      if (item.type !== 'message') {
+        continue;
+      }
+      for (const content of item.content ?? []) {
+        if (content.type !== 'output_text') {
+          continue;
+        }
+        texts.push(content.text ?? '');
+        for (const annotation of content.annotations ?? []) {
+          if (annotation.type === 'url_citation' && annotation.url) {
+            sources.push({ url: annotation.url, title: annotation.title });
+          }
+        }
+      }
+    }
+
+    return { answer: texts.join('\n'), sources };
+  }
+}
+
+/**
+ * Perplexity：Sonar Chat Completions，引用来自 search_results / citations
+ */
+export class PerplexityAnswerEngineAdapter extends HttpAnswerEngineAdapter {
+  readonly platform = 'perplexity' as const;
+
+  constructor(apiKey: string | undefined, private readonly model = 'sonar') {
+    super(apiKey);
+  }
+
+  protected async fetchAnswer(query: string, apiKey: string, options: AnswerEngineQueryOptions) {
+    const { country } = parseLocale(options.locale);
+    const data = await this.requestJson('https://api.perplexity.ai/chat/completions', {
+      method: 'POST',
+      headers: { authorization: `Bearer ${apiKey}` },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: query }],
+        ...(country && { web_search_options: { user_location: { country } } }),
+      }),
+    });
+
+    const sources: AnswerEngineSource[] = Array.isArray(data.search_results) && data.search_results.length > 0
+      ? data.search_results.map((result: any) => ({ url: result.url, title: result.title }))
+      : (data.citations ?? []).map((url: string) => ({ url }));
+
+    return { answer: data.choices?.[0]?.message?.content ?? '', sources };
+  }
+}
+
+/**
+ * Gemini：generateContent + google_search 工具，引用来自 groundingMetadata
+ *
+ * grounding URI 为 Google 跳转链接，真实域名取 web.title；google_search 工具不支持指定地区，忽略 locale
+ */
+export class GeminiAnswerEngineAdapter extends HttpAnswerEngineAdapter {
+  readonly platform = 'gemini' as const;
+
+  constructor(apiKey: string | undefined, private readonly model = 'gemini-2.0-flash') {
+    super(apiKey);
+  }
+
+  protected async fetchAnswer(query: string, apiKey: string) {
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent`;
+    const data = await this.requestJson(`${url}?key=${encodeURIComponent(apiKey)}`, {
+      method: 'POST',
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: query }] }],
+        tools: [{ google_search: {} }],
+      }),
+    });
+
+    const candidate = data.candidates?.[0];
+    const answer = (candidate?.content?.parts ?? []).map((part: any) => part.text ?? '').join('');
+    const sources: AnswerEngineSource[] = (candidate?.groundingMetadata?.groundingChunks ?? [])
+      .filter((chunk: any) => chunk.web?.uri)
+      .map((chunk: any) => ({
+        url: chunk.web.uri,
+        title: chunk.web.title,
+        ...(chunk.web.title && /^[\w.-]+\.[a-z]{2,}$/i.test(chunk.web.title) && { domain: chunk.web.title }),
+      }));
+
+    return { answer, sources };
+  }
+}
+
+/**
+ * Claude：Messages API + web_search 工具，引用来自文本块 citations 及搜索结果
+ */
+export class ClaudeAnswerEngineAdapter extends HttpAnswerEngineAdapter {
+  readonly platform = 'claude' as const;
+
+  constructor(apiKey: string | undefined, private readonly model = 'claude-sonnet-4-20250514') {
+    super(apiKey);
+  }
+
+  protected async fetchAnswer(query: string, apiKey: string, options: AnswerEngineQueryOptions) {
+    const { country } = parseLocale(options.locale);
+    const data = await this.requestJson('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: 2048,
+        tools: [{
+          type: 'web_search_20250305',
+          name: 'web_search',
+          max_uses: 5,
+          ...(country && { user_location: { type: 'approximate', country } }),
+        }],
+        messages: [{ role: 'user', content: query }],
+      }),
+    });
+
+    const texts: string[] = [];
+    const cited: AnswerEngineSource[] = [];
+    const searched: AnswerEngineSource[] = [];
+    for (const block of data.content ?? []) {
+      if (block.type === 'text') {
+        texts.push(block.text ?? '');
+        for (const citation of block.citations ?? []) {
+          if (citation.url) {
+            cited.push({ url: citation.url, title: citation.title });
+          }
+        }
+      } else if (block.type === 'web_search_tool_result' && Array.isArray(block.content)) {
+        for (const result of block.content) {
+          if (result.type === 'web_search_result' && result.url) {
+            searched.push({ url: result.url, title: result.title });
+          }
+        }
+      }
+    }
+
+    // 正文实际引用的来源排在前面，其余搜索结果随后
+    return { answer: texts.join(''), sources: [...cited, ...searched] };
+  }
+}
+
+/**
+ * Google AI Overview：通过 SerpApi 获取 ai_overview 及其 references
+ */
+export class GoogleAIOAnswerEngineAdapter extends HttpAnswerEngineAdapter {
+  readonly platform = 'google-aio' as const;
+
+  protected async fetchAnswer(query: string, apiKey: string, options: AnswerEngineQueryOptions) {
+    const { language = 'en', country = 'US' } = parseLocale(options.locale);
+    const params = new URLSearchParams({
+      engine: 'google',
+      q: query,
+      hl: language,
+      gl: country.toLowerCase(),
+      api_key: apiKey,
+    });
+    const data = await this.requestJson(`https://serpapi.com/search.json?${params}`);
+
+    let overview = data.ai_overview;
+    // AI Overview 异步生成时需要通过 page_token 二次获取
+    if (overview?.page_token && !overview.text_blocks) {
+      const tokenParams = new URLSearchParams({
+        engine: 'google_ai_overview',
+        page_token: overview.page_token,
+        api_key: apiKey,
+      });
+      overview = (await this.requestJson(`https://serpapi.com/search.json?${tokenParams}`)).ai_overview;
+    }
+
+    if (!overview) {
+      return { answer: '', sources: [] };
+    }
+
+    const answer = this.flattenTextBlocks(overview.text_blocks ?? []).join('\n');
+    const sources: AnswerEngineSource[] = [...(overview.references ?? [])]
+      .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+      .filter((reference: any) => reference.link)
+      .map((reference: any) => ({ url: reference.link, title: reference.title }));
+
+    return { answer, sources };
+  }
+
+  private flattenTextBlocks(blocks: any[]): string[] {
+    return blocks.flatMap(block => [
+      ...(block.snippet ? [block.snippet] : []),
+      ...this.flattenTextBlocks(block.list ?? []),
+      ...this.flattenTextBlocks(block.text_blocks ?? []),
+    ]);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * AI 问答引擎适配器入口
+ *
+ * @description 根据配置创建各平台适配器：AI_CITATION_ADAPTER=fixture 时全部使用本地 Fixture
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+import { AnswerEngineAdapter, AnswerEnginePlatform } from './answer-engine.types';
+import { FixtureAnswerEngineAdapter } from './fixture-answer-engine.adapter';
+import {
+  ChatGPTAnswerEngineAdapter,
+  ClaudeAnswerEngineAdapter,
+  GeminiAnswerEngineAdapter,
+  GoogleAIOAnswerEngineAdapter,
+  PerplexityAnswerEngineAdapter,
+} from './http-answer-engine.adapters';
+
+export * from './answer-engine.types';
+export * from './citation-extractor';
+export { FixtureAnswerEngineAdapter } from './fixture-answer-engine.adapter';
+
+export const DEFAULT_FIXTURE_DIR = join(__dirname, 'fixtures');
+
+export function createAnswerEngineAdapters(
+  configService: ConfigService,
+  platforms: AnswerEnginePlatform[],
+): Map<AnswerEnginePlatform, AnswerEngineAdapter> {
+  const mode = configService.get<string>('AI_CITATION_ADAPTER', 'live');
+
+  if (mode === 'fixture') {
+    const fixtureDir = configService.get<string>('AI_CITATION_FIXTURE_DIR', DEFAULT_FIXTURE_DIR);
+    return new Map(platforms.map(platform => [platform, new FixtureAnswerEngineAdapter(platform, fixtureDir)]));
+  }
+
+  const liveAdapters: Record<AnswerEnginePlatform, () => AnswerEngineAdapter> = {
+    'chatgpt': () => new ChatGPTAnswerEngineAdapter(
+      configService.get<string>('OPENAI_API_KEY'),
+      configService.get<string>('OPENAI_CITATION_MODEL'),
+    ),
+    'perplexity': () => new PerplexityAnswerEngineAdapter(
+      configService.get<string>('PERPLEXITY_API_KEY'),
+      configService.get<string>('PERPLEXITY_CITATION_MODEL'),
+    ),
+    'gemini': () => new GeminiAnswerEngineAdapter(
+      configService.get<string>('GEMINI_API_KEY'),
+      configService.get<string>('GEMINI_CITATION_MODEL'),
+    ),
+    'claude': () => new ClaudeAnswerEngineAdapter(
+      configService.get<string>('ANTHROPIC_API_KEY'),
+      configService.get<string>('ANTHROPIC_CITATION_MODEL'),
+    ),
+    'google-aio': () => new GoogleAIOAnswerEngineAdapter(configService.get<string>('SERPAPI_KEY')),
+  };
+
+  return new Map(platforms.map(platform => [platform, liveAdapters[platform]()]));
+}
@@ -0,0 +1,195 @@
+/**
+ * AI 回答引用解析单元测试
+ *
+ * @description 测试 extractCitations 的引用排名、品牌匹配、片段截取，以及 Fixture 适配器的确定性输出
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { extractCitations, CitationBrand } from '../citation-extractor';
+import { AnswerEngineResult } from '../answer-engine.types';
+import { FixtureAnswerEngineAdapter } from '../fixture-answer-engine.adapter';
+import { DEFAULT_FIXTURE_DIR } from '../index';
+
+describe('extractCitations', () => {
+  const ownBrand: CitationBrand = { name: 'eufy', domains: ['eufy.com'] };
+  const competitors: CitationBrand[] = [
+    { name: 'Arlo', domains: ['arlo.com'] },
+    { name: 'Ring', domains: ['ring.com'] },
+    { name: 'Wyze', domains: ['wyze.com'] },
+  ];
+
+  const buildResult = (overrides: Partial<AnswerEngineResult> = {}): AnswerEngineResult => ({
+    platform: 'chatgpt',
+    query: 'best security camera',
+    answer: '',
+    sources: [],
+    fetchedAt: new Date('2025-03-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  it('should rank sources in order and append inline links after them', () => {
+    // Arrange
+    const result = buildResult({
+      answer: 'Ring is popular (https://ring.com/doorbell). See also https://www.techradar.com/best-cameras.',
+      sources: [
+        { url: 'https://www.arlo.com/pro-5s', title: 'Arlo Pro 5S' },
+        { url: 'https://www.eufy.com/solocam/' },
+      ],
+    });
+
+    // Act
+    const extraction = extractCitations(result, ownBrand, competitors);
+
+    // Assert
+    expect(extraction.citedUrls).toEqual([
+      { rank: 1, url: 'https://www.arlo.com/pro-5s', domain: 'arlo.com', title: 'Arlo Pro 5S', brand: 'Arlo' },
+      { rank: 2, url: 'https://www.eufy.com/solocam/', domain: 'eufy.com', brand: 'eufy' },
+      { rank: 3, url: 'https://ring.com/doorbell', domain: 'ring.com', brand: 'Ring' },
+      { rank: 4, url: 'https://www.techradar.com/best-cameras', domain: 'techradar.com', brand: null },
+    ]);
+    expect(extraction.ownCitation).toMatchObject({ brand: 'eufy', rank: 2 });
+    expect(extraction.competitorCitations.map(citation => [citation.brand, citation.rank])).toEqual([
+      ['Arlo', 1],
+      ['Ring', 3],
+    ]);
+  });
+
+  it('should count repeated URLs once and keep the best rank per brand', () => {
+    // Arrange
+    const result = buildResult({
+      answer: 'Read https://www.eufy.com/solocam and https://eufy.com/homebase again https://www.eufy.com/solocam/',
+      sources: [{ url: 'https://www.eufy.com/solocam' }],
+    });
+
+    // Act
+    const extraction = extractCitations(result, ownBrand, competitors);
+
+    // Assert
+    expect(extraction.citedUrls.map(url => url.url)).toEqual([
+      'https://www.eufy.com/solocam',
+      'https://eufy.com/homebase',
+    ]);
+    expect(extraction.ownCitation?.rank).toBe(1);
+  });
+
+  it('should match subdomains and domain hints from redirect sources', () => {
+    // Arrange
+    const result = buildResult({
+      sources: [
+        { url: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/abc', domain: 'support.wyze.com' },
+        { url: 'https://service.eufy.com/article/123' },
+      ],
+    });
+
+    // Act
+    const extraction = extractCitations(result, ownBrand, competitors);
+
+    // Assert
+    expect(extraction.citedUrls.map(url => url.brand)).toEqual(['Wyze', 'eufy']);
+    expect(extraction.citedUrls[0]!.domain).toBe('support.wyze.com');
+  });
+
+  it('should not match look-alike domains', () => {
+    // Arrange
+    const result = buildResult({ sources: [{ url: 'https://noteufy.com/review' }] });
+
+    // Act
+    const extraction = extractCitations(result, ownBrand, competitors);
+
+    // Assert
+    expect(extraction.citedUrls[0]!.brand).toBeNull();
+    expect(extraction.ownCitation).toBeNull();
+  });
+
+  it('should list brands mentioned in the answer but not cited', () => {
+    // Arrange
+    const result = buildResult({
+      answer: 'Both eufy and Wyze offer local storage, while Ringing alarms are loud.',
+      sources: [{ url: 'https://www.arlo.com/pro-5s' }],
+    });
+
+    // Act
+    const extraction = extractCitations(result, ownBrand, competitors);
+
+    // Assert
+    expect(extraction.mentionedBrands).toEqual(['eufy', 'Wyze']);
+    expect(extraction.ownCitation).toBeNull();
+  });
+
+  it('should take the snippet around the brand name, falling back to the citation marker', () => {
+    // Arrange
+    const filler = 'x'.repeat(300);
+    const result = buildResult({
+      answer: `${filler} The Arlo Pro 5S has sharp video. ${filler} Local storage wins [2]. ${filler}`,
+      sources: [{ url: 'https://www.arlo.com/pro-5s' }, { url: 'https://www.ring.com/plans' }],
+    });
+
+    // Act
+    const extraction = extractCitations(result, ownBrand, competitors);
+
+    // Assert
+    const [arlo, ring] = extraction.competitorCitations;
+    expect(arlo!.snippet).toContain('The Arlo Pro 5S has sharp video.');
+    expect(arlo!.snippet.length).toBeLessThanOrEqual(140 * 2 + 'Arlo'.length);
+    expect(ring!.snippet).toContain('Local storage wins [2]');
+  });
+});
+
+describe('FixtureAnswerEngineAdapter', () => {
+  it('should return recorded answers matched case-insensitively', async () => {
+    // Arrange
+    const adapter = new FixtureAnswerEngineAdapter('chatgpt', DEFAULT_FIXTURE_DIR);
+
+    // Act
+    const result = await adapter.query('  Best Security Camera For Home ');
+
+    // Assert
+    expect(adapter.isAvailable()).toBe(true);
+    expect(result.answer).toContain('eufy SoloCam S340');
+    expect(result.sources.map(source => source.url)).toEqual([
+      'https://www.eufy.com/products/t8170',
+      'https://www.arlo.com/en-us/cameras/pro/arlo-pro-5s.html',
+    ]);
+  });
+
+  it('should return an empty answer for queries that were not recorded', async () => {
+    // Arrange
+    const adapter = new FixtureAnswerEngineAdapter('chatgpt', DEFAULT_FIXTURE_DIR);
+
+    // Act
+    const result = await adapter.query('robot vacuum for pet hair');
+
+    // Assert
+    expect(result).toMatchObject({ answer: '', sources: [] });
+  });
+
+  it('should stamp results with the injected clock', async () => {
+    // Arrange
+    const now = new Date('2025-06-15T12:00:00.000Z');
+    const adapter = new FixtureAnswerEngineAdapter('perplexity', DEFAULT_FIXTURE_DIR, () => now);
+
+    // Act
+    const result = await adapter.query('best security camera for home');
+
+    // Assert
+    expect(result.fetchedAt).toBe(now);
+  });
+
+  it('should default to the current time so fixture runs fall inside insight windows', async () => {
+    // Arrange
+    const adapter = new FixtureAnswerEngineAdapter('gemini', DEFAULT_FIXTURE_DIR);
+    const before = Date.now();
+
+    // Act
+    const result = await adapter.query('best security camera for home');
+
+    // Assert
+    expect(result.fetchedAt.getTime()).toBeGreaterThanOrEqual(before);
+    expect(result.fetchedAt.getTime()).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('should report unavailable when the platform has no fixture file', () => {
+    expect(new FixtureAnswerEngineAdapter('chatgpt', '/nonexistent').isAvailable()).toBe(false);
+  });
+});
@@ -0,0 +1,359 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { PrismaService } from '../common/prisma.service';
+import { PERMISSIONS, Permission, isPermission } from '../common/permissions';
+import { RbacService } from './rbac.service';
+import { AuditLogService, AuditSnapshot } from './audit-log.service';
+
+// ==================== 类型定义 ====================
+
+export type ApiTokenType = 'personal' | 'service';
+
+export const API_TOKEN_TYPES: ApiTokenType[] = ['personal', 'service'];
+
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  type: ApiTokenType;
+  tokenPrefix: string;
+  permissions: Permission[];
+  userId: string;
+  userEmail: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  createdAt: Date;
+}
+
+export interface CreateApiTokenInput {
+  name?: string;
+  type?: string;
+  permissions?: string[];
+  expiresInDays?: number;
+}
+
+/**
+ * 新建的令牌；明文令牌只返回这一次
+ */
+export interface CreatedApiToken {
+  token: string;
+  apiToken: ApiTokenInfo;
+}
+
+/**
+ * 发起令牌管理操作的用户，用于权限判断和审计
+ */
+export interface ApiTokenActor {
+  id: string;
+  email?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface ApiTokenFilter {
+  userId?: string;
+  type?: ApiTokenType;
+  includeRevoked?: boolean;
+}
+
+/**
+ * 令牌认证通过后写入 req.user 的身份；RolesGuard 按 apiTokenPermissions 收窄所有者的角色权限
+ */
+export interface ApiTokenPrincipal {
+  id: string;
+  email: string;
+  username: string;
+  role: string;
+  createdAt: Date;
+  apiTokenId: string;
+  apiTokenPermissions: Permission[];
+}
+
+const TOKEN_PREFIXES: Record<ApiTokenType, string> = {
+  personal: 'geo_pat_',
+  service: 'geo_svc_',
+};
+/** 列表中展示的令牌开头长度（含类型前缀） */
+const TOKEN_DISPLAY_LENGTH = 12;
+const DEFAULT_TTL_DAYS = 90;
+const DEFAULT_MAX_TTL_DAYS = 365;
+/** last_used_at 的最小更新间隔，避免每个请求都写库 */
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const apiTokenInclude = { user: { select: { email: true } } } as const;
+type ApiTokenRow = Prisma.ApiTokenGetPayload<{ include: typeof apiTokenInclude }>;
+
+/**
+ * 判断 Bearer 令牌是否为 API 令牌（否则按 JWT 处理）
+ */
+export function isApiToken(token: string): boolean {
+  return Object.values(TOKEN_PREFIXES).some(prefix => token.startsWith(prefix));
+}
+
+/**
+ * API 令牌（个人令牌和服务令牌），供脚本和 BI 任务调用 GraphQL
+ *
+ * 令牌只保存 SHA-256，明文仅在创建时返回一次；请求以所有者身份执行，生效权限为令牌权限与所有者当前角色权限的交集，
+ * 所有者停用后令牌随之失效。个人令牌由用户自行管理；服务令牌需要 api_token:manage 权限，持有该权限的用户可查看和撤销全部令牌。
+ * 有效期默认 API_TOKEN_DEFAULT_TTL_DAYS（90 天），最长 API_TOKEN_MAX_TTL_DAYS（365 天）；创建和撤销写入审计日志
+ */
+@Injectable()
+export class ApiTokenService {
+  private readonly logger = new Logger(ApiTokenService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly rbacService: RbacService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  // ==================== 令牌管理 ====================
+
+  async create(actor: ApiTokenActor, input: CreateApiTokenInput): Promise<CreatedApiToken> {
+    const startedAt = Date.now();
+    const name = this.validateName(input.name);
+    const type = this.validateType(input.type ?? 'personal');
+
+    const access = await this.rbacService.getUserAccess(actor.id);
+    if (!access || !access.isActive) {
+      throw new Error(`用户不存在或已停用: ${actor.id}`);
+    }
+    if (type === 'service' && !access.permissions.includes(PERMISSIONS.API_TOKEN_MANAGE)) {
+      throw new Error(`创建服务令牌需要 ${PERMISSIONS.API_TOKEN_MANAGE} 权限`);
+    }
+
+    const permissions = this.validatePermissions(input.permissions ?? []);
+    const notGranted = permissions.filter(permission => !access.permissions.includes(permission));
+    if (notGranted.length > 0) {
+      throw new Error(`不能授予自己没有的权限: ${notGranted.join(', ')}`);
+    }
+
+    const token = `${TOKEN_PREFIXES[type]}${randomBytes(32).toString('base64url')}`;
+    const row = await this.prisma.apiToken.create({
+      data: {
+        userId: actor.id,
+        name,
+        type,
+        tokenPrefix: token.slice(0, TOKEN_DISPLAY_LENGTH),
+        tokenHash: this.hashToken(token),
+        permissions,
+        expiresAt: new Date(Date.now() + this.validateTtlDays(input.expiresInDays) * DAY_MS),
+      },
+      include: apiTokenInclude,
+    });
+
+    const apiToken = this.toApiTokenInfo(row);
+    await this.recordAudit(actor, 'CREATE', 'createApiToken', apiToken, null, startedAt);
+    this.logger.log(`创建 API 令牌: ${apiToken.tokenPrefix}… (${type}, ${actor.id})`);
+    return { token, apiToken };
+  }
+
+  /**
+   * 没有 api_token:manage 权限时只返回自己的令牌
+   */
+  async list(actor: ApiTokenActor, filter: ApiTokenFilter = {}): Promise<ApiTokenInfo[]> {
+    const canManage = await this.canManageAll(actor.id);
+    const userId = canManage ? filter.userId : actor.id;
+
+    const rows = await this.prisma.apiToken.findMany({
+      where: {
+        ...(userId && { userId }),
+        ...(filter.type && { type: filter.type }),
+        ...(!filter.includeRevoked && { revokedAt: null }),
+      },
+      include: apiTokenInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+    return rows.map(row => this.toApiTokenInfo(row));
+  }
+
+  /**
+   * 撤销令牌；只能撤销自己的令牌，持有 api_token:manage 权限时可撤销任意令牌。令牌不存在或已撤销时返回 false
+   */
+  async revoke(actor: ApiTokenActor, id: string): Promise<boolean> {
+    const startedAt = Date.now();
+    const existing = await this.prisma.apiToken.findUnique({ where: { id }, include: apiTokenInclude });
+    if (!existing || existing.revokedAt) {
+      return false;
+    }
+    if (existing.userId !== actor.id && !(await this.canManageAll(actor.id))) {
+      throw new Error(`撤销其他用户的令牌需要 ${PERMISSIONS.API_TOKEN_MANAGE} 权限`);
+    }
+
+    const row = await this.prisma.apiToken.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      include: apiTokenInclude,
+    });
+
+    const before = this.toApiTokenInfo(existing);
+    const after = this.toApiTokenInfo(row);
+    await this.recordAudit(actor, 'REVOKE', 'revokeApiToken', after, before, startedAt);
+    this.logger.log(`撤销 API 令牌: ${row.tokenPrefix}… (${actor.id})`);
+    return true;
+  }
+
+  // ==================== 认证 ====================
+
+  /**
+   * 校验令牌并记录最近使用时间；令牌无效、过期、已撤销或所有者已停用时返回空
+   */
+  async authenticate(token: string, client: { ip?: string } = {}): Promise<ApiTokenPrincipal | null> {
+    const row = await this.prisma.apiToken.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+      include: {
+        user: {
+          select: { id: true, email: true, username: true, isActive: true, createdAt: true, role: { select: { name: true } } },
+        },
+      },
+    });
+
+    const now = new Date();
+    if (!row || row.revokedAt || row.expiresAt <= now || !row.user.isActive) {
+      return null;
+    }
+
+    if (!row.lastUsedAt || now.getTime() - row.lastUsedAt.getTime() >= LAST_USED_UPDATE_INTERVAL_MS) {
+      try {
+        await this.prisma.apiToken.update({
+          where: { id: row.id },
+          data: { lastUsedAt: now, lastUsedIp: client.ip ?? null },
+        });
+      } catch (error) {
+        this.logger.warn(`API 令牌使用时间更新失败 [${row.id}]: ${error.message}`);
+      }
+    }
+
+    return {
+      id: row.user.id,
+      email: row.user.email,
+      username: row.user.username,
+      role: row.user.role.name,
+      createdAt: row.user.createdAt,
+      apiTokenId: row.id,
+      apiTokenPermissions: this.parsePermissions(row.permissions),
+    };
+  }
+
+  // ==================== 私有方法 ====================
+
+  private async canManageAll(userId: string): Promise<boolean> {
+    const access = await this.rbacService.getUserAccess(userId);
+    return !!access?.isActive && access.permissions.includes(PERMISSIONS.API_TOKEN_MANAGE);
+  }
+
+  private async recordAudit(
+    actor: ApiTokenActor,
+    operationType: string,
+    operationName: string,
+    after: ApiTokenInfo,
+    before: ApiTokenInfo | null,
+    startedAt: number,
+  ): Promise<void> {
+    await this.auditLogService.record([
+      {
+        operationType,
+        operationName,
+        resourceType: 'api_token',
+        resourceId: after.id,
+        userId: actor.id,
+        ...(actor.email && { userEmail: actor.email }),
+        correlationId: randomUUID(),
+        success: true,
+        before: before && this.toAuditSnapshot(before),
+        after: this.toAuditSnapshot(after),
+        durationMs: Date.now() - startedAt,
+        ...(actor.ip && { clientIp: actor.ip }),
+        ...(actor.userAgent && { userAgent: actor.userAgent }),
+      },
+    ]);
+  }
+
+  /**
+   * 审计快照不含令牌哈希
+   */
+  private toAuditSnapshot(token: ApiTokenInfo): AuditSnapshot {
+    return {
+      name: token.name,
+      type: token.type,
+      tokenPrefix: token.tokenPrefix,
+      permissions: token.permissions,
+      userId: token.userId,
+      expiresAt: token.expiresAt,
+      revokedAt: token.revokedAt ?? null,
+    };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private parsePermissions(value: Prisma.JsonValue): Permission[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+    return value.filter((item): item is Permission => typeof item === 'string' && isPermission(item));
+  }
+
+  private validateName(name?: string): string {
+    const trimmed = name?.trim() ?? '';
+    if (!trimmed || trimmed.length > 100) {
+      throw new Error('令牌名称长度必须在 1-100 个字符之间');
+    }
+    return trimmed;
+  }
+
+  private validateType(type: string): ApiTokenType {
+    if (!API_TOKEN_TYPES.includes(type as ApiTokenType)) {
+      throw new Error(`不支持的令牌类型: ${type}`);
+    }
+    return type as ApiTokenType;
+  }
+
+  private validatePermissions(permissions: string[]): Permission[] {
+    if (permissions.length === 0) {
+      throw new Error('至少需要授予一项权限');
+    }
+    const unknown = permissions.filter(permission => !isPermission(permission));
+    if (unknown.length > 0) {
+      throw new Error(`未知权限: ${unknown.join(', ')}`);
+    }
+    return [...new Set(permissions)] as Permission[];
+  }
+
+  private validateTtlDays(expiresInDays?: number): number {
+    const maxDays = this.getNumber('API_TOKEN_MAX_TTL_DAYS', DEFAULT_MAX_TTL_DAYS);
+    const days = expiresInDays ?? Math.min(this.getNumber('API_TOKEN_DEFAULT_TTL_DAYS', DEFAULT_TTL_DAYS), maxDays);
+    if (!Number.isInteger(days) || days < 1 || days > maxDays) {
+      throw new Error(`有效期必须在 1-${maxDays} 天之间`);
+    }
+    return days;
+  }
+
+  private getNumber(key: string, fallback: number): number {
+    const value = Number(this.configService.get<string>(key, String(fallback)));
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  }
+
+  private toApiTokenInfo(row: ApiTokenRow): ApiTokenInfo {
+    return {
+      id: row.id,
+      name: row.name,
+      type: row.type as ApiTokenType,
+      tokenPrefix: row.tokenPrefix,
+      permissions: this.parsePermissions(row.permissions),
+      userId: row.userId,
+      userEmail: row.user.email,
+      expiresAt: row.expiresAt,
+      ...(row.revokedAt && { revokedAt: row.revokedAt }),
+      ...(row.lastUsedAt && { lastUsedAt: row.lastUsedAt }),
+      ...(row.lastUsedIp && { lastUsedIp: row.lastUsedIp }),
+      createdAt: row.createdAt,
+    };
+  }
+}
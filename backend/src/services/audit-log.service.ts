@@ -0,0 +1,289 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, AuditLog as PrismaAuditLog } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+
+// ==================== 类型定义 ====================
+
+export type AuditResourceType =
+  | 'keyword'
+  | 'keyword_metric'
+  | 'keyword_cluster'
+  | 'keyword_scoring_config'
+  | 'keyword_saved_view'
+  | 'content_item'
+  | 'api_token';
+
+export const AUDIT_RESOURCE_TYPES: AuditResourceType[] = [
+  'keyword',
+  'keyword_metric',
+  'keyword_cluster',
+  'keyword_scoring_config',
+  'keyword_saved_view',
+  'content_item',
+  'api_token',
+];
+
+/** 可读取前后快照并生成字段级差异的资源类型；keyword_metric 记录的是关键词上 AIO 相关字段的变化 */
+const SNAPSHOT_RESOURCE_TYPES: AuditResourceType[] = ['keyword', 'keyword_metric', 'content_item'];
+
+/** 不参与差异比较的字段 */
+const IGNORED_DIFF_FIELDS = new Set(['updatedAt']);
+/** 差异中单个字段值的最大长度，超出部分截断（如内容正文） */
+const DIFF_VALUE_MAX_LENGTH = 1000;
+const DEFAULT_RETENTION_DAYS = 365;
+const DEFAULT_QUERY_LIMIT = 50;
+const MAX_QUERY_LIMIT = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AuditSnapshot = Record<string, unknown>;
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * 待写入的审计记录，before/after 为资源变更前后的快照（创建前、删除后为空）
+ */
+export interface AuditRecordInput {
+  operationType: string;
+  operationName: string;
+  resourceType: AuditResourceType;
+  resourceId?: string;
+  userId?: string;
+  userEmail?: string;
+  correlationId: string;
+  success: boolean;
+  error?: string;
+  inputData?: unknown;
+  before?: AuditSnapshot | null;
+  after?: AuditSnapshot | null;
+  durationMs: number;
+  clientIp?: string;
+  userAgent?: string;
+  /** 通过 API 令牌发起的操作 */
+  apiTokenId?: string;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  occurredAt: Date;
+  operationType: string;
+  operationName: string;
+  resourceType: AuditResourceType;
+  resourceId?: string;
+  userId?: string;
+  userEmail?: string;
+  correlationId: string;
+  success: boolean;
+  error?: string;
+  inputData?: unknown;
+  changes: AuditFieldChange[];
+  durationMs: number;
+  clientIp?: string;
+  userAgent?: string;
+  apiTokenId?: string;
+}
+
+export interface AuditLogFilter {
+  resourceId?: string;
+  resourceType?: AuditResourceType;
+  userId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+}
+
+/**
+ * 审计日志
+ *
+ * 仅追加写入（数据库触发器禁止修改和删除），保留期外的记录由定时任务清理；
+ * 保留天数由 AUDIT_LOG_RETENTION_DAYS 指定，默认 365 天，0 表示永久保留
+ */
+@Injectable()
+export class AuditLogService {
+  private readonly logger = new Logger(AuditLogService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // ==================== 写入 ====================
+
+  /**
+   * 读取资源当前快照，不支持快照的资源类型返回空
+   */
+  async snapshot(resourceType: AuditResourceType, ids: string[]): Promise<Map<string, AuditSnapshot>> {
+    if (ids.length === 0 || !SNAPSHOT_RESOURCE_TYPES.includes(resourceType)) {
+      return new Map();
+    }
+
+    const rows: Array<AuditSnapshot & { id: string }> = resourceType === 'content_item'
+      ? await this.prisma.contentItem.findMany({ where: { id: { in: ids } } })
+      : await this.prisma.keyword.findMany({ where: { id: { in: ids } } });
+    return new Map(rows.map(row => [row.id, row]));
+  }
+
+  /**
+   * 批量写入审计记录；写入失败只记录日志，不影响业务操作
+   */
+  async record(inputs: AuditRecordInput[]): Promise<number> {
+    if (inputs.length === 0) {
+      return 0;
+    }
+
+    const data: Prisma.AuditLogCreateManyInput[] = inputs.map(({ before, after, inputData, ...input }) => ({
+      ...input,
+      inputData: inputData === undefined ? Prisma.JsonNull : this.toJson(inputData),
+      changes: this.toJson(this.diff(before ?? null, after ?? null)),
+    }));
+
+    try {
+      const { count } = await this.prisma.auditLog.createMany({ data });
+      return count;
+    } catch (error) {
+      this.logger.error(`审计日志写入失败 [${inputs[0]?.correlationId}]: ${error.message}`, error.stack);
+      return 0;
+    }
+  }
+
+  /**
+   * 字段级差异：创建时 before 为空，删除时 after 为空
+   */
+  diff(before: AuditSnapshot | null, after: AuditSnapshot | null): AuditFieldChange[] {
+    if (!before && !after) {
+      return [];
+    }
+
+    const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+    const changes: AuditFieldChange[] = [];
+    for (const field of fields) {
+      if (IGNORED_DIFF_FIELDS.has(field)) {
+        continue;
+      }
+      const beforeValue = this.normalizeValue(before?.[field]);
+      const afterValue = this.normalizeValue(after?.[field]);
+      if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+        changes.push({ field, before: beforeValue, after: afterValue });
+      }
+    }
+    return changes;
+  }
+
+  // ==================== 查询 ====================
+
+  /**
+   * 按资源、操作人和时间范围查询，按时间倒序
+   */
+  async query(filter: AuditLogFilter = {}): Promise<AuditLogPage> {
+    if (filter.from && filter.to && filter.from >= filter.to) {
+      throw new Error('开始时间必须早于结束时间');
+    }
+
+    const where: Prisma.AuditLogWhereInput = {
+      ...(filter.resourceId && { resourceId: filter.resourceId }),
+      ...(filter.resourceType && { resourceType: filter.resourceType }),
+      ...(filter.userId && { userId: filter.userId }),
+      ...((filter.from || filter.to) && {
+        occurredAt: {
+          ...(filter.from && { gte: filter.from }),
+          ...(filter.to && { lt: filter.to }),
+        },
+      }),
+    };
+    const limit = Math.min(Math.max(filter.limit ?? DEFAULT_QUERY_LIMIT, 1), MAX_QUERY_LIMIT);
+
+    const [rows, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: { occurredAt: 'desc' },
+        take: limit,
+        skip: Math.max(filter.offset ?? 0, 0),
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+
+    return { entries: rows.map(row => this.toAuditLogEntry(row)), total };
+  }
+
+  // ==================== 保留期 ====================
+
+  /**
+   * 删除保留期外的记录，返回删除条数
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const retentionDays = this.getRetentionDays();
+    if (retentionDays <= 0) {
+      return 0;
+    }
+
+    const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+    const count = await this.prisma.$transaction(async tx => {
+      // 仅在本事务内放行触发器的删除限制
+      await tx.$executeRaw`SELECT set_config('geo.audit_retention', 'on', true)`;
+      const result = await tx.auditLog.deleteMany({ where: { occurredAt: { lt: cutoff } } });
+      return result.count;
+    });
+
+    this.logger.log(`审计日志清理完成: 删除 ${count} 条 ${cutoff.toISOString()} 之前的记录`);
+    return count;
+  }
+
+  getRetentionDays(): number {
+    const days = Number(this.configService.get<string>('AUDIT_LOG_RETENTION_DAYS', String(DEFAULT_RETENTION_DAYS)));
+    return Number.isFinite(days) ? Math.floor(days) : DEFAULT_RETENTION_DAYS;
+  }
+
+  // ==================== 私有方法 ====================
+
+  private normalizeValue(value: unknown): unknown {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (value instanceof Prisma.Decimal) {
+      return value.toNumber();
+    }
+    if (typeof value === 'string' && value.length > DIFF_VALUE_MAX_LENGTH) {
+      return `${value.slice(0, DIFF_VALUE_MAX_LENGTH)}…`;
+    }
+    return value;
+  }
+
+  private toJson(value: unknown): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value ?? null)) as Prisma.InputJsonValue;
+  }
+
+  private toAuditLogEntry(row: PrismaAuditLog): AuditLogEntry {
+    return {
+      id: row.id,
+      occurredAt: row.occurredAt,
+      operationType: row.operationType,
+      operationName: row.operationName,
+      resourceType: row.resourceType as AuditResourceType,
+      ...(row.resourceId && { resourceId: row.resourceId }),
+      ...(row.userId && { userId: row.userId }),
+      ...(row.userEmail && { userEmail: row.userEmail }),
+      correlationId: row.correlationId,
+      success: row.success,
+      ...(row.error && { error: row.error }),
+      ...(row.inputData !== null && { inputData: row.inputData }),
+      changes: (row.changes as unknown as AuditFieldChange[]) ?? [],
+      durationMs: row.durationMs,
+      ...(row.clientIp && { clientIp: row.clientIp }),
+      ...(row.userAgent && { userAgent: row.userAgent }),
+      ...(row.apiTokenId && { apiTokenId: row.apiTokenId }),
+    };
+  }
+}
@@ -0,0 +1,287 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../common/prisma.service';
+import { AnswerEnginePlatform, BrandCitation, CitationExtraction } from './answer-engines';
+
+export type CitationGranularity = 'day' | 'week';
+
+const CITATION_GRANULARITIES: CitationGranularity[] = ['day', 'week'];
+
+export type ShareOfVoiceGroupBy = 'overall' | 'platform' | 'productLine';
+
+export interface CitationAnswerRecord {
+  platform: AnswerEnginePlatform;
+  query: string;
+  extraction: CitationExtraction;
+  observedAt: Date;
+  keywordId?: string;
+  /** 查询未关联关键词时使用的产品线（如手工查询组配置的产品线） */
+  productLine?: string;
+}
+
+export interface CitationTrendPoint {
+  period: string;
+  platform: string;
+  citations: number;
+}
+
+export interface ShareOfVoicePoint {
+  period: string;
+  group: string;
+  brand: string;
+  citations: number;
+  share: number; // 该品牌引用数 / 同一周期同一分组内所有品牌引用数
+}
+
+export interface BrandCitationSummary {
+  brand: string;
+  citations: number;
+  citedAnswers: number;
+  topQueries: string[];
+}
+
+export interface CitedUrlSummary {
+  url: string;
+  citations: number;
+  avgConfidence: number;
+}
+
+export interface DailyCitedUrl extends CitedUrlSummary {
+  period: string;
+}
+
+const SHARE_OF_VOICE_GROUP_COLUMNS: Record<ShareOfVoiceGroupBy, Prisma.Sql> = {
+  overall: Prisma.sql`'all'`,
+  platform: Prisma.sql`platform`,
+  productLine: Prisma.sql`COALESCE(product_line, 'unassigned')`,
+};
+
+/** 与 AICitationMonitorService.rankToConfidence 一致：首位为 1，越靠后越低 */
+const CONFIDENCE_SQL = Prisma.sql`
+  AVG(CASE WHEN source_count <= 1 THEN 1 ELSE 1 - ((rank - 1)::float / source_count) * 0.5 END)
+`;
+
+/**
+ * AI 引用观测持久化与统计
+ *
+ * 每次 AI 回答按引用来源逐行写入 citation_observations，趋势与声量份额均基于该表计算
+ */
+@Injectable()
+export class CitationObservationService {
+  private readonly logger = new Logger(CitationObservationService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==================== 写入 ====================
+
+  /**
+   * 记录一次 AI 回答的引用观测，返回写入行数
+   *
+   * 未指定 keywordId 时按查询文本匹配关键词，以便按产品线统计
+   */
+  async recordAnswer(record: CitationAnswerRecord): Promise<number> {
+    const keyword = await this.resolveKeyword(record.query, record.keywordId);
+    const answerId = randomUUID();
+    const { extraction } = record;
+    const snippets = new Map(
+      [extraction.ownCitation, ...extraction.competitorCitations]
+        .filter((citation): citation is BrandCitation => citation !== null)
+        .map(citation => [citation.url, citation.snippet]),
+    );
+
+    const base = {
+      answerId,
+      platform: record.platform,
+      query: record.query,
+      keywordId: keyword?.id ?? null,
+      productLine: keyword?.productLine ?? record.productLine ?? null,
+      sourceCount: extraction.citedUrls.length,
+      observedAt: record.observedAt,
+    };
+
+    const data: Prisma.CitationObservationCreateManyInput[] = extraction.citedUrls.length > 0
+      ? extraction.citedUrls.map(cited => ({
+          ...base,
+          citedUrl: cited.url,
+          citedDomain: cited.domain,
+          brand: cited.brand,
+          rank: cited.rank,
+          snippet: snippets.get(cited.url) ?? null,
+        }))
+      : [base];
+
+    const { count } = await this.prisma.citationObservation.createMany({ data });
+    return count;
+  }
+
+  // ==================== 统计查询 ====================
+
+  /**
+   * 指定品牌按周期、平台统计的引用数
+   */
+  async getCitationTrend(
+    brand: string,
+    from: Date,
+    to: Date,
+    granularity: CitationGranularity = 'day',
+  ): Promise<CitationTrendPoint[]> {
+    const rows = await this.prisma.$queryRaw<Array<{ period: Date; platform: string; citations: number }>>`
+      SELECT date_trunc(${granularity}, observed_at) AS period, platform, COUNT(*)::int AS citations
+      FROM citation_observations
+      WHERE brand = ${brand} AND observed_at >= ${from} AND observed_at < ${to}
+      GROUP BY 1, 2
+      ORDER BY 1, 2
+    `;
+
+    return rows.map(row => ({ ...row, period: this.formatPeriod(row.period) }));
+  }
+
+  /**
+   * 品牌声量份额（Share of Voice）
+   *
+   * groupBy 为 overall 时即各竞品之间的整体份额；platform / productLine 时在分组内计算份额
+   */
+  async getShareOfVoice(
+    from: Date,
+    to: Date,
+    granularity: CitationGranularity = 'week',
+    groupBy: ShareOfVoiceGroupBy = 'overall',
+  ): Promise<ShareOfVoicePoint[]> {
+    const groupColumn = SHARE_OF_VOICE_GROUP_COLUMNS[groupBy];
+    if (!groupColumn) {
+      throw new Error(`不支持的分组维度: ${groupBy}`);
+    }
+    if (!CITATION_GRANULARITIES.includes(granularity)) {
+      throw new Error(`不支持的统计粒度: ${granularity}`);
+    }
+    const rows = await this.prisma.$queryRaw<Array<{ period: Date; group: string; brand: string; citations: number }>>`
+      SELECT date_trunc(${granularity}, observed_at) AS period, ${groupColumn} AS "group", brand, COUNT(*)::int AS citations
+      FROM citation_observations
+      WHERE brand IS NOT NULL AND observed_at >= ${from} AND observed_at < ${to}
+      GROUP BY 1, 2, 3
+      ORDER BY 1, 2, 4 DESC
+    `;
+
+    const totals = new Map<string, number>();
+    for (const row of rows) {
+      const key = `${row.period.toISOString()}|${row.group}`;
+      totals.set(key, (totals.get(key) ?? 0) + row.citations);
+    }
+
+    return rows.map(row => ({
+      period: this.formatPeriod(row.period),
+      group: row.group,
+      brand: row.brand,
+      citations: row.citations,
+      share: Math.round((row.citations / (totals.get(`${row.period.toISOString()}|${row.group}`) ?? 1)) * 10000) / 10000,
+    }));
+  }
+
+  /**
+   * 区间内被观测的回答总数
+   */
+  async countAnswers(from: Date, to: Date): Promise<number> {
+    const [row] = await this.prisma.$queryRaw<Array<{ answers: number }>>`
+      SELECT COUNT(DISTINCT answer_id)::int AS answers
+      FROM citation_observations
+      WHERE observed_at >= ${from} AND observed_at < ${to}
+    `;
+    return row?.answers ?? 0;
+  }
+
+  /**
+   * 各品牌引用汇总：引用次数、被引用回答数和引用最多的查询
+   */
+  async getBrandSummaries(from: Date, to: Date, topQueryLimit = 3): Promise<BrandCitationSummary[]> {
+    const [totals, queries] = await Promise.all([
+      this.prisma.$queryRaw<Array<{ brand: string; citations: number; citedAnswers: number }>>`
+        SELECT brand, COUNT(*)::int AS citations, COUNT(DISTINCT answer_id)::int AS "citedAnswers"
+        FROM citation_observations
+        WHERE brand IS NOT NULL AND observed_at >= ${from} AND observed_at < ${to}
+        GROUP BY brand
+      `,
+      this.prisma.$queryRaw<Array<{ brand: string; query: string }>>`
+        SELECT brand, query
+        FROM (
+          SELECT brand, query, ROW_NUMBER() OVER (PARTITION BY brand ORDER BY COUNT(*) DESC, query) AS position
+          FROM citation_observations
+          WHERE brand IS NOT NULL AND observed_at >= ${from} AND observed_at < ${to}
+          GROUP BY brand, query
+        ) ranked
+        WHERE position <= ${topQueryLimit}
+        ORDER BY brand, position
+      `,
+    ]);
+
+    return totals.map(total => ({
+      ...total,
+      topQueries: queries.filter(row => row.brand === total.brand).map(row => row.query),
+    }));
+  }
+
+  /**
+   * 品牌被引用最多的 URL
+   */
+  async getTopCitedUrls(brand: string, from: Date, to: Date, limit = 10): Promise<CitedUrlSummary[]> {
+    return this.prisma.$queryRaw<CitedUrlSummary[]>`
+      SELECT cited_url AS url, COUNT(*)::int AS citations, ${CONFIDENCE_SQL} AS "avgConfidence"
+      FROM citation_observations
+      WHERE brand = ${brand} AND observed_at >= ${from} AND observed_at < ${to}
+      GROUP BY cited_url
+      ORDER BY citations DESC, url
+      LIMIT ${limit}
+    `;
+  }
+
+  /**
+   * 品牌每日被引用最多的 URL（每天最多 limit 条）
+   */
+  async getDailyTopCitedUrls(brand: string, from: Date, to: Date, limit = 3): Promise<DailyCitedUrl[]> {
+    const rows = await this.prisma.$queryRaw<Array<CitedUrlSummary & { period: Date }>>`
+      SELECT period, url, citations, "avgConfidence"
+      FROM (
+        SELECT date_trunc('day', observed_at) AS period, cited_url AS url, COUNT(*)::int AS citations,
+               ${CONFIDENCE_SQL} AS "avgConfidence",
+               ROW_NUMBER() OVER (PARTITION BY date_trunc('day', observed_at) ORDER BY COUNT(*) DESC, cited_url) AS position
+        FROM citation_observations
+        WHERE brand = ${brand} AND observed_at >= ${from} AND observed_at < ${to}
+        GROUP BY 1, 2
+      ) ranked
+      WHERE position <= ${limit}
+      ORDER BY period, citations DESC
+    `;
+
+    return rows.map(row => ({ ...row, period: this.formatPeriod(row.period) }));
+  }
+
+  /**
+   * 品牌引用明细（用于生成建议）
+   */
+  async getBrandObservations(brand: string, from: Date, to: Date) {
+    return this.prisma.citationObservation.findMany({
+      where: { brand, observedAt: { gte: from, lt: to } },
+      orderBy: { observedAt: 'asc' },
+    });
+  }
+
+  // ==================== 私有方法 ====================
+
+  private async resolveKeyword(query: string, keywordId?: string) {
+    try {
+      return await this.prisma.keyword.findFirst({
+        where: keywordId
+          ? { id: keywordId }
+          : { text: { equals: query, mode: 'insensitive' } },
+        select: { id: true, productLine: true },
+      });
+    } catch (error) {
+      this.logger.warn(`关键词匹配失败 "${query}": ${error.message}`);
+      return null;
+    }
+  }
+
+  private formatPeriod(period: Date): string {
+    return period.toISOString().split('T')[0]!;
+  }
+}
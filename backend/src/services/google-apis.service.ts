@@ -2,7 +2,19 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { google } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
-const SerpApi = require('serpapi');
+import { getJson } from 'serpapi';
+
+export interface SerpAIOverview {
+  text: string;
+  /** 引用来源，position 从 1 开始 */
+  references: Array<{
+    position: number;
+    title?: string;
+    link: string;
+    source?: string;
+    domain: string;
+  }>;
+}
 
 @Injectable()
 export class GoogleApisService {
@@ -16,9 +28,14 @@ export class GoogleApisService {
   }
 
   private initializeApis() {
-    // 初始化 SerpApi
+    // 初始化 SerpApi（serpapi v2 仅提供 getJson，这里保留 json(params, callback) 的调用方式，默认 engine 为 google）
     const serpApiKey = this.configService.get<string>('SERPAPI_KEY');
-    this.serpApi = new SerpApi.GoogleSearch(serpApiKey);
+    this.serpApi = {
+      json: (params: Record<string, unknown>, callback: (data: any) => void) => {
+        getJson({ engine: 'google', ...params, api_key: serpApiKey })
+          .then(callback, (error: Error) => callback({ error: error.message }));
+      },
+    };
 
     // 初始化 Google OAuth2 客户端
     this.oauth2Client = new google.auth.OAuth2(
@@ -47,21 +64,46 @@ export class GoogleApisService {
         device: 'desktop'
       };
 
-      return new Promise((resolve, reject) => {
+      const data = await new Promise<any>((resolve, reject) => {
         this.serpApi.json(params, (data: any) => {
           if (data.error) {
             reject(data.error);
           } else {
-            resolve(this.parseSearchResults(data));
+            resolve(data);
           }
         });
       });
+
+      // AI Overview 异步生成时只返回 page_token，需要在有效期内二次获取
+      if (data.ai_overview?.page_token && !data.ai_overview.text_blocks) {
+        data.ai_overview = await this.fetchAIOverview(data.ai_overview.page_token).catch(error => {
+          this.logger.warn(`获取 AI Overview 失败 "${keyword}": ${error.message ?? error}`);
+          return { error: 'unavailable' };
+        });
+      }
+
+      return this.parseSearchResults(data);
     } catch (error) {
       this.logger.error(`搜索关键词失败: ${error.message}`);
       throw error;
     }
   }
 
+  /**
+   * 通过 page_token 获取 AI Overview 内容
+   */
+  private fetchAIOverview(pageToken: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.serpApi.json({ engine: 'google_ai_overview', page_token: pageToken }, (data: any) => {
+        if (data.error) {
+          reject(new Error(data.error));
+        } else {
+          resolve(data.ai_overview);
+        }
+      });
+    });
+  }
+
   /**
    * 解析搜索结果
    */
@@ -76,7 +118,8 @@ export class GoogleApisService {
       featured_snippet: null,
       knowledge_graph: null,
       local_pack: [],
-      ads: []
+      ads: [],
+      ai_overview: null as SerpAIOverview | null
     };
 
     // 解析自然搜索结果
@@ -141,6 +184,23 @@ export class GoogleApisService {
       }));
     }
 
+    // 解析 AI Overview（获取失败时仅标记出现，无正文和引用）
+    if (data.ai_overview) {
+      results.ai_overview = {
+        text: this.flattenAIOverviewText(data.ai_overview.text_blocks ?? []).join('\n'),
+        references: [...(data.ai_overview.references ?? [])]
+          .filter((reference: any) => reference.link)
+          .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+          .map((reference: any, index: number) => ({
+            position: index + 1,
+            title: reference.title,
+            link: reference.link,
+            source: reference.source,
+            domain: new URL(reference.link).hostname
+          }))
+      };
+    }
+
     // 解析广告
     if (data.ads) {
       results.ads = data.ads.map((ad: any) => ({
@@ -155,6 +215,14 @@ export class GoogleApisService {
     return results;
   }
 
+  private flattenAIOverviewText(blocks: any[]): string[] {
+    return blocks.flatMap(block => [
+      ...(block.snippet ? [block.snippet] : []),
+      ...this.flattenAIOverviewText(block.list ?? []),
+      ...this.flattenAIOverviewText(block.text_blocks ?? [])
+    ]);
+  }
+
   /**
    * 获取关键词搜索量趋势（使用 Google Trends 非官方 API）
    */
@@ -169,8 +237,7 @@ export class GoogleApisService {
       };
 
       return new Promise((resolve, reject) => {
-        const trendsApi = new SerpApi.GoogleSearch(this.configService.get<string>('SERPAPI_KEY'));
-        trendsApi.json(params, (data: any) => {
+        this.serpApi.json(params, (data: any) => {
           if (data.error) {
             reject(data.error);
           } else {
@@ -282,6 +349,7 @@ export class GoogleApisService {
         has_knowledge_graph: !!searchData.knowledge_graph,
         has_local_pack: searchData.local_pack?.length > 0,
         has_ads: searchData.ads?.length > 0,
+        has_ai_overview: !!searchData.ai_overview,
         ads_count: searchData.ads?.length || 0,
         organic_results_count: searchData.organic_results?.length || 0,
         people_also_ask_count: searchData.people_also_ask?.length || 0,
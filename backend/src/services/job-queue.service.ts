@@ -0,0 +1,428 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, JobRun as PrismaJobRun } from '@prisma/client';
+import Bull from 'bull';
+import { PrismaService } from '../common/prisma.service';
+
+// ==================== 类型定义 ====================
+
+export type JobRunStatus = 'queued' | 'running' | 'retrying' | 'completed' | 'failed' | 'dead_letter';
+
+export interface JobContext {
+  jobId: string;
+  attempt: number;
+  progress(value: number): Promise<void>;
+}
+
+/**
+ * 任务定义
+ *
+ * 失败后按 backoffMs 指数退避重试，attempts 次均失败后转入死信队列
+ */
+export interface JobDefinition<T = any> {
+  name: string;
+  description?: string;
+  handler: (data: T, context: JobContext) => Promise<unknown>;
+  concurrency?: number;
+  attempts?: number;
+  backoffMs?: number;
+  timeoutMs?: number;
+  /** 定时触发规则，cron 表达式 */
+  repeat?: { cron: string; tz?: string };
+}
+
+export interface JobRun {
+  id: string;
+  queue: string;
+  jobName: string;
+  jobId: string;
+  status: JobRunStatus;
+  attempts: number;
+  maxAttempts: number;
+  payload?: unknown;
+  result?: unknown;
+  error?: string;
+  scheduled: boolean;
+  queuedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  retriedAt?: Date;
+  retriedRunId?: string;
+}
+
+export interface JobRunFilter {
+  jobName?: string;
+  status?: JobRunStatus;
+  limit?: number;
+}
+
+export interface JobQueueStats {
+  enabled: boolean;
+  waiting: number;
+  active: number;
+  delayed: number;
+  failed: number;
+  deadLetter: number;
+  jobs: Array<{
+    name: string;
+    description?: string;
+    cron?: string;
+    concurrency: number;
+    attempts: number;
+    nextRunAt?: Date;
+  }>;
+}
+
+interface DeadLetterPayload {
+  runId: string;
+  jobName: string;
+  data: unknown;
+  error: string;
+  failedAt: string;
+}
+
+const QUEUE_NAME = 'geo-jobs';
+const DEAD_LETTER_QUEUE_NAME = `${QUEUE_NAME}-dead-letter`;
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_BACKOFF_MS = 30_000;
+const DEFAULT_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * 后台任务队列
+ *
+ * 基于 Bull + Redis：各业务服务在 onModuleInit 中注册任务定义，应用启动完成后统一挂载处理器并同步定时规则。
+ * 每次执行记录在 job_runs 表中；未配置 REDIS_URL 或 JOBS_ENABLED=false 时队列不启用，仅可查询历史记录。
+ */
+@Injectable()
+export class JobQueueService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(JobQueueService.name);
+  private readonly definitions = new Map<string, JobDefinition>();
+  private queue: Bull.Queue | null = null;
+  private deadLetterQueue: Bull.Queue | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  /**
+   * 注册任务定义，需在应用启动完成前调用
+   */
+  register<T>(definition: JobDefinition<T>): void {
+    if (this.definitions.has(definition.name)) {
+      throw new Error(`任务已注册: ${definition.name}`);
+    }
+    this.definitions.set(definition.name, definition);
+  }
+
+  async onApplicationBootstrap() {
+    const redisUrl = this.configService.get<string>('REDIS_URL');
+    if (!redisUrl || this.configService.get<string>('JOBS_ENABLED') === 'false') {
+      this.logger.warn('任务队列未启用（未配置 REDIS_URL 或 JOBS_ENABLED=false）');
+      return;
+    }
+
+    this.queue = new Bull(QUEUE_NAME, redisUrl);
+    this.deadLetterQueue = new Bull(DEAD_LETTER_QUEUE_NAME, redisUrl);
+
+    for (const definition of this.definitions.values()) {
+      this.queue.process(definition.name, definition.concurrency ?? 1, job => this.runJob(definition, job));
+    }
+    this.queue.on('failed', (job, error) => {
+      this.handleFailed(job, error).catch(handlerError =>
+        this.logger.error(`处理失败任务出错 [${job.name}#${job.id}]: ${handlerError.message}`),
+      );
+    });
+
+    await this.syncRepeatableJobs();
+    this.logger.log(`任务队列已启动，注册任务 ${this.definitions.size} 个`);
+  }
+
+  async onModuleDestroy() {
+    await Promise.all([this.queue?.close(), this.deadLetterQueue?.close()]);
+  }
+
+  // ==================== 入队与重试 ====================
+
+  /**
+   * 立即（或延迟）执行一次任务
+   */
+  async enqueue(name: string, data: Record<string, unknown> = {}, options: { delayMs?: number } = {}): Promise<JobRun> {
+    const definition = this.getDefinition(name);
+    const queue = this.requireQueue();
+
+    const job = await queue.add(name, data, {
+      ...this.toJobOptions(definition),
+      ...(options.delayMs !== undefined && { delay: options.delayMs }),
+    });
+
+    const run = await this.prisma.jobRun.upsert({
+      where: { queue_jobId: { queue: QUEUE_NAME, jobId: String(job.id) } },
+      create: {
+        queue: QUEUE_NAME,
+        jobName: name,
+        jobId: String(job.id),
+        maxAttempts: definition.attempts ?? DEFAULT_ATTEMPTS,
+        payload: data as Prisma.InputJsonValue,
+      },
+      update: {},
+    });
+    return this.toJobRun(run);
+  }
+
+  /**
+   * 重新执行死信队列中的任务，原记录保留为 dead_letter 并标记重试时间和新执行记录，每条死信只能重试一次
+   */
+  async retryDeadLetter(runId: string): Promise<JobRun> {
+    const run = await this.prisma.jobRun.findUnique({ where: { id: runId } });
+    if (!run) {
+      throw new Error(`任务记录不存在: ${runId}`);
+    }
+    if (run.status !== 'dead_letter') {
+      throw new Error(`只能重试死信任务，当前状态: ${run.status}`);
+    }
+
+    // 条件更新占位，并发重试时只有一个请求能成功
+    const { count } = await this.prisma.jobRun.updateMany({
+      where: { id: runId, status: 'dead_letter', retriedAt: null },
+      data: { retriedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new Error(`死信任务已重试过: ${runId}`);
+    }
+
+    let retried: JobRun;
+    try {
+      retried = await this.enqueue(run.jobName, (run.payload ?? {}) as Record<string, unknown>);
+    } catch (error) {
+      await this.prisma.jobRun.update({ where: { id: runId }, data: { retriedAt: null } });
+      throw error;
+    }
+
+    await this.prisma.jobRun.update({ where: { id: runId }, data: { retriedRunId: retried.id } });
+    const deadLetterJob = await this.deadLetterQueue?.getJob(runId);
+    await deadLetterJob?.remove();
+    return retried;
+  }
+
+  // ==================== 查询 ====================
+
+  async listRuns(filter: JobRunFilter = {}): Promise<JobRun[]> {
+    const runs = await this.prisma.jobRun.findMany({
+      where: {
+        ...(filter.jobName && { jobName: filter.jobName }),
+        ...(filter.status && { status: filter.status }),
+      },
+      orderBy: { queuedAt: 'desc' },
+      take: Math.min(filter.limit ?? 50, 500),
+    });
+    return runs.map(run => this.toJobRun(run));
+  }
+
+  async getStats(): Promise<JobQueueStats> {
+    const repeatable = this.queue ? await this.queue.getRepeatableJobs() : [];
+    const jobs = [...this.definitions.values()].map(definition => {
+      const nextRunAt = repeatable.find(item => item.name === definition.name)?.next;
+      return {
+        name: definition.name,
+        ...(definition.description && { description: definition.description }),
+        ...(definition.repeat && { cron: definition.repeat.cron }),
+        concurrency: definition.concurrency ?? 1,
+        attempts: definition.attempts ?? DEFAULT_ATTEMPTS,
+        ...(nextRunAt && { nextRunAt: new Date(nextRunAt) }),
+      };
+    });
+
+    if (!this.queue || !this.deadLetterQueue) {
+      return { enabled: false, waiting: 0, active: 0, delayed: 0, failed: 0, deadLetter: 0, jobs };
+    }
+
+    const [counts, deadLetter] = await Promise.all([
+      this.queue.getJobCounts(),
+      this.deadLetterQueue.getWaitingCount(),
+    ]);
+    return {
+      enabled: true,
+      waiting: counts.waiting,
+      active: counts.active,
+      delayed: counts.delayed,
+      failed: counts.failed,
+      deadLetter,
+      jobs,
+    };
+  }
+
+  // ==================== 私有方法 ====================
+
+  private async runJob(definition: JobDefinition, job: Bull.Job): Promise<unknown> {
+    const attempt = job.attemptsMade + 1;
+    const maxAttempts = job.opts.attempts ?? 1;
+    const startedAt = new Date();
+    const runKey = { queue_jobId: { queue: QUEUE_NAME, jobId: String(job.id) } };
+
+    await this.prisma.jobRun.upsert({
+      where: runKey,
+      create: {
+        queue: QUEUE_NAME,
+        jobName: definition.name,
+        jobId: String(job.id),
+        status: 'running',
+        attempts: attempt,
+        maxAttempts,
+        payload: (job.data ?? {}) as Prisma.InputJsonValue,
+        scheduled: Boolean(job.opts.repeat),
+        queuedAt: new Date(job.timestamp),
+        startedAt,
+      },
+      update: { status: 'running', attempts: attempt, startedAt, error: null },
+    });
+
+    try {
+      const result = await definition.handler(job.data, {
+        jobId: String(job.id),
+        attempt,
+        progress: value => job.progress(value),
+      });
+
+      const finishedAt = new Date();
+      await this.prisma.jobRun.update({
+        where: runKey,
+        data: {
+          status: 'completed',
+          result: (result ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+          finishedAt,
+          durationMs: finishedAt.getTime() - startedAt.getTime(),
+        },
+      });
+      return result;
+    } catch (error) {
+      const finishedAt = new Date();
+      await this.prisma.jobRun.update({
+        where: runKey,
+        data: {
+          status: attempt < maxAttempts ? 'retrying' : 'failed',
+          error: error.message,
+          finishedAt,
+          durationMs: finishedAt.getTime() - startedAt.getTime(),
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 重试次数用尽（包括超时、卡死）的任务转入死信队列
+   */
+  private async handleFailed(job: Bull.Job, error: Error): Promise<void> {
+    const maxAttempts = job.opts.attempts ?? 1;
+    if (job.attemptsMade < maxAttempts) {
+      this.logger.warn(`任务失败，将重试 [${job.name}#${job.id}] ${job.attemptsMade}/${maxAttempts}: ${error.message}`);
+      return;
+    }
+
+    const run = await this.prisma.jobRun.upsert({
+      where: { queue_jobId: { queue: QUEUE_NAME, jobId: String(job.id) } },
+      create: {
+        queue: QUEUE_NAME,
+        jobName: job.name,
+        jobId: String(job.id),
+        status: 'dead_letter',
+        attempts: job.attemptsMade,
+        maxAttempts,
+        payload: (job.data ?? {}) as Prisma.InputJsonValue,
+        error: error.message,
+        scheduled: Boolean(job.opts.repeat),
+        queuedAt: new Date(job.timestamp),
+        finishedAt: new Date(),
+      },
+      update: { status: 'dead_letter', error: error.message },
+    });
+
+    const payload: DeadLetterPayload = {
+      runId: run.id,
+      jobName: job.name,
+      data: job.data,
+      error: error.message,
+      failedAt: new Date().toISOString(),
+    };
+    await this.deadLetterQueue?.add(job.name, payload, { jobId: run.id, removeOnComplete: true });
+    this.logger.error(`任务重试 ${maxAttempts} 次后仍失败，已转入死信队列 [${job.name}#${job.id}]: ${error.message}`);
+  }
+
+  /**
+   * 同步定时规则：删除已移除或 cron 变更的旧规则，再按当前定义添加
+   */
+  private async syncRepeatableJobs(): Promise<void> {
+    const queue = this.requireQueue();
+    const existing = await queue.getRepeatableJobs();
+
+    for (const item of existing) {
+      const definition = this.definitions.get(item.name);
+      if (!definition?.repeat || definition.repeat.cron !== item.cron || (definition.repeat.tz ?? null) !== (item.tz ?? null)) {
+        await queue.removeRepeatableByKey(item.key);
+      }
+    }
+
+    for (const definition of this.definitions.values()) {
+      if (!definition.repeat) {
+        continue;
+      }
+      await queue.add(definition.name, {}, {
+        ...this.toJobOptions(definition),
+        repeat: {
+          cron: definition.repeat.cron,
+          ...(definition.repeat.tz && { tz: definition.repeat.tz }),
+        },
+      });
+    }
+  }
+
+  private toJobOptions(definition: JobDefinition): Bull.JobOptions {
+    return {
+      attempts: definition.attempts ?? DEFAULT_ATTEMPTS,
+      backoff: { type: 'exponential', delay: definition.backoffMs ?? DEFAULT_BACKOFF_MS },
+      timeout: definition.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      removeOnComplete: 1000,
+      removeOnFail: 1000,
+    };
+  }
+
+  private getDefinition(name: string): JobDefinition {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new Error(`未注册的任务: ${name}`);
+    }
+    return definition;
+  }
+
+  private requireQueue(): Bull.Queue {
+    if (!this.queue) {
+      throw new Error('任务队列未启用，请配置 REDIS_URL');
+    }
+    return this.queue;
+  }
+
+  private toJobRun(run: PrismaJobRun): JobRun {
+    return {
+      id: run.id,
+      queue: run.queue,
+      jobName: run.jobName,
+      jobId: run.jobId,
+      status: run.status as JobRunStatus,
+      attempts: run.attempts,
+      maxAttempts: run.maxAttempts,
+      ...(run.payload !== null && { payload: run.payload }),
+      ...(run.result !== null && { result: run.result }),
+      ...(run.error !== null && { error: run.error }),
+      scheduled: run.scheduled,
+      queuedAt: run.queuedAt,
+      ...(run.startedAt !== null && { startedAt: run.startedAt }),
+      ...(run.finishedAt !== null && { finishedAt: run.finishedAt }),
+      ...(run.durationMs !== null && { durationMs: run.durationMs }),
+      ...(run.retriedAt !== null && { retriedAt: run.retriedAt }),
+      ...(run.retriedRunId !== null && { retriedRunId: run.retriedRunId }),
+    };
+  }
+}
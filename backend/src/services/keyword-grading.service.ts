@@ -1,5 +1,11 @@
+import {
+  PRIORITY_TIERS,
+  PRIORITY_TIER_INFO,
+  PriorityTier,
+} from '@geo-platform/shared';
+
 export interface KeywordPriority {
-  level: 'P0' | 'P1' | 'P2' | 'P3' | 'P4' | 'P5';
+  level: PriorityTier;
   minVolume: number;
   maxVolume?: number;
   description: string;
@@ -7,60 +13,26 @@ export interface KeywordPriority {
 }
 
 export class KeywordGradingService {
-  private static priorityLevels: KeywordPriority[] = [
-    {
-      level: 'P0',
-      minVolume: 100000,
-      description: '超高流量，战略核心',
-      resourceAllocation: '最高优先级，全力投入'
-    },
-    {
-      level: 'P1',
-      minVolume: 50000,
-      maxVolume: 99999,
-      description: '高流量，重点投入',
-      resourceAllocation: '高优先级，重点投入'
-    },
-    {
-      level: 'P2',
-      minVolume: 20000,
-      maxVolume: 49999,
-      description: '中高流量，稳定发展',
-      resourceAllocation: '中高优先级，稳定投入'
-    },
-    {
-      level: 'P3',
-      minVolume: 10000,
-      maxVolume: 19999,
-      description: '中等流量，选择投入',
-      resourceAllocation: '中等优先级，选择投入'
-    },
-    {
-      level: 'P4',
-      minVolume: 5000,
-      maxVolume: 9999,
-      description: '低流量，长尾机会',
-      resourceAllocation: '低优先级，机会投入'
-    },
-    {
-      level: 'P5',
-      minVolume: 0,
-      maxVolume: 4999,
-      description: '微流量，精准定位',
-      resourceAllocation: '最低优先级，长尾策略'
-    }
-  ];
+  private static priorityLevels: KeywordPriority[] = PRIORITY_TIERS.map((tier, index) => {
+    const info = PRIORITY_TIER_INFO[tier];
+    const higherTier = PRIORITY_TIERS[index - 1];
+    return {
+      level: tier,
+      minVolume: info.minSearchVolume,
+      ...(higherTier && { maxVolume: PRIORITY_TIER_INFO[higherTier].minSearchVolume - 1 }),
+      description: info.description,
+      resourceAllocation: info.resourceAllocation
+    };
+  });
 
   /**
    * 根据搜索量计算关键词优先级
+   *
+   * @deprecated 仅按搜索量分级，关键词优先级请使用 KeywordScoringService 的多因子评分
    */
-  static calculatePriority(monthlySearchVolume: number): string {
-    if (monthlySearchVolume >= 100000) return 'P0';
-    if (monthlySearchVolume >= 50000) return 'P1';
-    if (monthlySearchVolume >= 20000) return 'P2';
-    if (monthlySearchVolume >= 10000) return 'P3';
-    if (monthlySearchVolume >= 5000) return 'P4';
-    return 'P5';
+  static calculatePriority(monthlySearchVolume: number): PriorityTier {
+    return this.priorityLevels.find(level => monthlySearchVolume >= level.minVolume)?.level
+      ?? PriorityTier.P4;
   }
 
   /**
@@ -91,7 +63,6 @@ export class KeywordGradingService {
       P2: 0,
       P3: 0,
       P4: 0,
-      P5: 0,
       total: keywords.length
     };
 
@@ -107,8 +78,7 @@ export class KeywordGradingService {
         P1: ((distribution.P1 / distribution.total) * 100).toFixed(2) + '%',
         P2: ((distribution.P2 / distribution.total) * 100).toFixed(2) + '%',
         P3: ((distribution.P3 / distribution.total) * 100).toFixed(2) + '%',
-        P4: ((distribution.P4 / distribution.total) * 100).toFixed(2) + '%',
-        P5: ((distribution.P5 / distribution.total) * 100).toFixed(2) + '%'
+        P4: ((distribution.P4 / distribution.total) * 100).toFixed(2) + '%'
       }
     };
   }
@@ -125,8 +95,8 @@ export class KeywordGradingService {
    */
   static updatePriorityRules(newRules: KeywordPriority[]) {
     // 验证规则的完整性和合理性
-    if (newRules.length !== 6) {
-      throw new Error('必须提供6个优先级规则（P0-P5）');
+    if (newRules.length !== PRIORITY_TIERS.length) {
+      throw new Error(`必须提供${PRIORITY_TIERS.length}个优先级规则（P0-P4）`);
     }
     
     // 验证规则的连续性
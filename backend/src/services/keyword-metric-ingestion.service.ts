@@ -0,0 +1,233 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { AlertRulesService } from './alert-rules.service';
+import { GoogleApisService, SerpAIOverview } from './google-apis.service';
+
+/** 关键词 AIO 状态，与关键词模块 AIOStatus 取值一致 */
+const AIO_STATUS = {
+  NOT_MONITORED: 'not_monitored',
+  DISPLAYED: 'displayed',
+  NOT_DISPLAYED: 'not_displayed',
+  COMPETING: 'competing',
+} as const;
+
+/** 按优先级纳入每日采集的关键词；AIO 状态已非 not_monitored 的关键词也会继续采集 */
+const TRACKED_PRIORITY_LEVELS = ['P0', 'P1', 'P2'];
+const OWN_DOMAINS = ['eufy.com', 'eufylife.com'];
+/** 保留前 10 个竞品结果，关键词聚类按结果 URL 重合度分组 */
+const TOP_COMPETITOR_LIMIT = 10;
+const SNIPPET_MAX_LENGTH = 500;
+/** AIO 覆盖率统计窗口（天） */
+const COVERAGE_WINDOW_DAYS = 30;
+const REQUEST_INTERVAL_MS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SerpAnalysis {
+  keyword: string;
+  features: {
+    has_featured_snippet: boolean;
+    has_people_also_ask: boolean;
+    has_ai_overview?: boolean;
+  };
+  serp_data: any;
+}
+
+export interface KeywordMetricFields {
+  googlePosition: number | null;
+  googleFeaturedSnippet: boolean;
+  googlePeopleAlsoAsk: boolean;
+  aioDisplayed: boolean;
+  aioPosition: number | null;
+  aioContentSnippet: string | null;
+  topCompetitors: Array<{ domain: string; url: string; position: number }>;
+  /** 自有域名的全部自然结果，多个 URL 同时排名时用于内容蚕食分析 */
+  ownResults: Array<{ url: string; position: number }>;
+}
+
+export interface KeywordIngestionResult {
+  keywordId: string;
+  metricDate: Date;
+  metric: KeywordMetricFields;
+  aioStatus: string;
+  aioStatusChanged: boolean;
+}
+
+export interface KeywordIngestionSummary {
+  metricDate: Date;
+  processed: number;
+  saved: number;
+  failed: number;
+  aioStatusChanges: number;
+  errors: string[];
+}
+
+/**
+ * 关键词 SERP 指标采集
+ *
+ * 每个关键词每天一条 keyword_metrics（同日重复采集覆盖），并根据 AIO 出现情况更新关键词的
+ * aioStatus、aioFirstSeenAt 和 aioCoverageScore（近 30 天 Eufy 被 AIO 引用的天数占比）
+ */
+@Injectable()
+export class KeywordMetricIngestionService {
+  private readonly logger = new Logger(KeywordMetricIngestionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly googleApis: GoogleApisService,
+    private readonly alertRules: AlertRulesService,
+  ) {}
+
+  /**
+   * 采集关键词指标；未指定 keywordIds 时采集全部跟踪中的关键词
+   */
+  async ingestKeywords(keywordIds?: string[], metricDate: Date = this.today()): Promise<KeywordIngestionSummary> {
+    const keywords = await this.prisma.keyword.findMany({
+      where: keywordIds?.length
+        ? { id: { in: keywordIds } }
+        : {
+            status: { not: 'retired' },
+            OR: [
+              { priorityLevel: { in: TRACKED_PRIORITY_LEVELS } },
+              { aioStatus: { not: AIO_STATUS.NOT_MONITORED } },
+            ],
+          },
+      select: { id: true, text: true },
+    });
+
+    const summary: KeywordIngestionSummary = {
+      metricDate,
+      processed: keywords.length,
+      saved: 0,
+      failed: 0,
+      aioStatusChanges: 0,
+      errors: [],
+    };
+
+    const savedKeywordIds: string[] = [];
+    for (const [index, keyword] of keywords.entries()) {
+      try {
+        const analysis = await this.googleApis.analyzeSerpFeatures(keyword.text);
+        const result = await this.ingestSerpAnalysis(keyword.id, analysis, metricDate);
+        summary.saved++;
+        savedKeywordIds.push(keyword.id);
+        if (result.aioStatusChanged) summary.aioStatusChanges++;
+      } catch (error) {
+        summary.failed++;
+        summary.errors.push(`${keyword.text}: ${error.message}`);
+      }
+
+      // 添加延迟避免速率限制
+      if (index < keywords.length - 1) {
+        await new Promise(resolve => setTimeout(resolve, REQUEST_INTERVAL_MS));
+      }
+    }
+
+    if (savedKeywordIds.length > 0) {
+      await this.alertRules.evaluateKeywordRules(savedKeywordIds);
+    }
+
+    this.logger.log(
+      `关键词指标采集完成: ${summary.saved}/${summary.processed} 成功，AIO 状态变化 ${summary.aioStatusChanges} 个`,
+    );
+    return summary;
+  }
+
+  /**
+   * 写入单个关键词某日的 SERP 分析结果
+   */
+  async ingestSerpAnalysis(keywordId: string, analysis: SerpAnalysis, metricDate: Date): Promise<KeywordIngestionResult> {
+    const metric = this.toMetricFields(analysis);
+    const fields = {
+      ...metric,
+      topCompetitors: metric.topCompetitors as Prisma.InputJsonValue,
+      ownResults: metric.ownResults as Prisma.InputJsonValue,
+    };
+
+    return this.prisma.$transaction(async tx => {
+      await tx.keywordMetric.upsert({
+        where: { keywordId_metricDate: { keywordId, metricDate } },
+        create: { keywordId, metricDate, ...fields },
+        update: fields,
+      });
+
+      const keyword = await tx.keyword.findUniqueOrThrow({
+        where: { id: keywordId },
+        select: { aioStatus: true, aioFirstSeenAt: true, aioCoverageScore: true },
+      });
+
+      const aioStatus = !metric.aioDisplayed
+        ? AIO_STATUS.NOT_DISPLAYED
+        : metric.aioPosition !== null ? AIO_STATUS.DISPLAYED : AIO_STATUS.COMPETING;
+
+      const windowStart = new Date(metricDate.getTime() - (COVERAGE_WINDOW_DAYS - 1) * DAY_MS);
+      const [trackedDays, citedDays] = await Promise.all([
+        tx.keywordMetric.count({ where: { keywordId, metricDate: { gte: windowStart, lte: metricDate } } }),
+        tx.keywordMetric.count({
+          where: { keywordId, metricDate: { gte: windowStart, lte: metricDate }, aioPosition: { not: null } },
+        }),
+      ]);
+      const coverageScore = trackedDays > 0 ? Math.round((citedDays / trackedDays) * 10000) / 100 : 0;
+
+      const aioStatusChanged = keyword.aioStatus !== aioStatus;
+      const firstSeen = metric.aioDisplayed && (!keyword.aioFirstSeenAt || keyword.aioFirstSeenAt > metricDate);
+      const coverageChanged = keyword.aioCoverageScore === null || !keyword.aioCoverageScore.equals(coverageScore);
+
+      if (aioStatusChanged || firstSeen || coverageChanged) {
+        await tx.keyword.update({
+          where: { id: keywordId },
+          data: {
+            aioStatus,
+            ...(firstSeen && { aioFirstSeenAt: metricDate }),
+            aioCoverageScore: new Prisma.Decimal(coverageScore),
+          },
+        });
+      }
+
+      if (aioStatusChanged) {
+        this.logger.log(`关键词 ${keywordId} AIO 状态变化: ${keyword.aioStatus ?? '-'} -> ${aioStatus}`);
+      }
+
+      return { keywordId, metricDate, metric, aioStatus, aioStatusChanged };
+    });
+  }
+
+  /**
+   * SERP 分析结果 -> 指标字段
+   */
+  toMetricFields(analysis: SerpAnalysis): KeywordMetricFields {
+    const serpData = analysis.serp_data ?? {};
+    const organicResults: Array<{ position: number; link: string; domain: string }> = serpData.organic_results ?? [];
+    const aiOverview: SerpAIOverview | null = serpData.ai_overview ?? null;
+
+    const ownResults = organicResults.filter(result => this.isOwnDomain(result.domain));
+    const ownReference = aiOverview?.references.find(reference => this.isOwnDomain(reference.domain));
+
+    return {
+      googlePosition: ownResults[0]?.position ?? null,
+      googleFeaturedSnippet: Boolean(analysis.features.has_featured_snippet),
+      googlePeopleAlsoAsk: Boolean(analysis.features.has_people_also_ask),
+      aioDisplayed: Boolean(aiOverview),
+      aioPosition: ownReference?.position ?? null,
+      aioContentSnippet: aiOverview?.text ? aiOverview.text.slice(0, SNIPPET_MAX_LENGTH) : null,
+      topCompetitors: organicResults
+        .filter(result => !this.isOwnDomain(result.domain))
+        .slice(0, TOP_COMPETITOR_LIMIT)
+        .map(result => ({
+          domain: result.domain.replace(/^www\./, ''),
+          url: result.link,
+          position: result.position,
+        })),
+      ownResults: ownResults.map(result => ({ url: result.link, position: result.position })),
+    };
+  }
+
+  private isOwnDomain(domain: string): boolean {
+    const normalized = domain.toLowerCase().replace(/^www\./, '');
+    return OWN_DOMAINS.some(own => normalized === own || normalized.endsWith(`.${own}`));
+  }
+
+  private today(): Date {
+    return new Date(new Date().toISOString().split('T')[0]!);
+  }
+}
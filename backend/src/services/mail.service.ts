@@ -0,0 +1,177 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+// ==================== 类型定义 ====================
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface OutboxMail extends MailMessage {
+  id: string;
+  from: string;
+  sentAt: string;
+}
+
+/**
+ * 邮件发送方式；可通过 MAIL_TRANSPORT 令牌注入自定义实现（如 SMTP、第三方邮件服务）
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(mail: OutboxMail): Promise<void>;
+}
+
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+export type MailTransportType = 'log' | 'outbox' | 'webhook';
+
+const DEFAULT_FROM = 'GEO Platform <no-reply@geo-platform.local>';
+const DEFAULT_OUTBOX_DIR = '.mail-outbox';
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// ==================== 内置发送方式 ====================
+
+/**
+ * 只记录日志，不发送；用于本地开发
+ */
+export class LogMailTransport implements MailTransport {
+  readonly name = 'log';
+  private readonly logger = new Logger('LogMailTransport');
+
+  async send(mail: OutboxMail): Promise<void> {
+    this.logger.log(`邮件未实际发送 → ${mail.to}: ${mail.subject}`);
+  }
+}
+
+/**
+ * 写入本地目录，每封邮件一个 JSON 文件；用于测试和无邮件服务的环境
+ */
+export class OutboxMailTransport implements MailTransport {
+  readonly name = 'outbox';
+
+  constructor(private readonly directory: string) {}
+
+  async send(mail: OutboxMail): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${mail.sentAt.replace(/[:.]/g, '-')}-${mail.id}.json`;
+    await fs.writeFile(join(this.directory, fileName), JSON.stringify(mail, null, 2));
+  }
+
+  /**
+   * 读取发件箱，按发送时间升序；可按收件人过滤
+   */
+  async list(to?: string): Promise<OutboxMail[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const mails = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .sort()
+        .map(async file => JSON.parse(await fs.readFile(join(this.directory, file), 'utf8')) as OutboxMail),
+    );
+    return to ? mails.filter(mail => mail.to === to) : mails;
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 以 JSON POST 到邮件中继服务
+ */
+export class WebhookMailTransport implements MailTransport {
+  readonly name = 'webhook';
+
+  constructor(private readonly url: string) {}
+
+  async send(mail: OutboxMail): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ event: 'mail.send', mail }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+  }
+}
+
+// ==================== 邮件服务 ====================
+
+/**
+ * 邮件发送
+ *
+ * 默认按 MAIL_TRANSPORT_TYPE 选择内置发送方式：log（默认）、outbox（写入 MAIL_OUTBOX_DIR）、
+ * webhook（POST 到 MAIL_WEBHOOK_URL）；注入 MAIL_TRANSPORT 时优先使用注入的实现
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private readonly transport: MailTransport;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Optional() @Inject(MAIL_TRANSPORT) transport?: MailTransport,
+  ) {
+    this.transport = transport ?? this.createTransport();
+  }
+
+  get transportName(): string {
+    return this.transport.name;
+  }
+
+  async send(message: MailMessage): Promise<OutboxMail> {
+    const mail: OutboxMail = {
+      ...message,
+      id: randomUUID(),
+      from: this.configService.get<string>('MAIL_FROM', DEFAULT_FROM),
+      sentAt: new Date().toISOString(),
+    };
+
+    try {
+      await this.transport.send(mail);
+    } catch (error) {
+      this.logger.error(`邮件发送失败 [${this.transport.name}] → ${mail.to}: ${error.message}`);
+      throw new Error(`邮件发送失败: ${error.message}`);
+    }
+
+    this.logger.debug(`邮件已发送 [${this.transport.name}] → ${mail.to}: ${mail.subject}`);
+    return mail;
+  }
+
+  private createTransport(): MailTransport {
+    const type = this.configService.get<string>('MAIL_TRANSPORT_TYPE', 'log') as MailTransportType;
+
+    switch (type) {
+      case 'outbox':
+        return new OutboxMailTransport(this.configService.get<string>('MAIL_OUTBOX_DIR', DEFAULT_OUTBOX_DIR));
+      case 'webhook': {
+        const url = this.configService.get<string>('MAIL_WEBHOOK_URL');
+        if (!url) {
+          throw new Error('MAIL_TRANSPORT_TYPE=webhook 时必须配置 MAIL_WEBHOOK_URL');
+        }
+        return new WebhookMailTransport(url);
+      }
+      case 'log':
+        return new LogMailTransport();
+      default:
+        throw new Error(`未知的邮件发送方式: ${type}`);
+    }
+  }
+}
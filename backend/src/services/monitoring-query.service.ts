@@ -0,0 +1,401 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Prisma, MonitoringQueryGroup as PrismaMonitoringQueryGroup } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { ANSWER_ENGINE_PLATFORMS, AnswerEnginePlatform } from './answer-engines';
+
+// ==================== 类型定义 ====================
+
+export type MonitoringQuerySource = 'manual' | 'keywords';
+
+export type MonitoringSchedule = 'hourly' | 'daily' | 'weekly' | 'manual';
+
+export const MONITORING_QUERY_SOURCES: MonitoringQuerySource[] = ['manual', 'keywords'];
+
+export const MONITORING_SCHEDULES: MonitoringSchedule[] = ['hourly', 'daily', 'weekly', 'manual'];
+
+/** 各调度周期的最小执行间隔，manual 仅手动触发 */
+const SCHEDULE_INTERVAL_MS: Record<MonitoringSchedule, number | null> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+  manual: null,
+};
+
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+
+export interface MonitoringQueryGroup {
+  id: string;
+  name: string;
+  description?: string;
+  source: MonitoringQuerySource;
+  queries: string[];
+  productLine?: string;
+  keywordPriorityLevels: string[];
+  keywordProductLines: string[];
+  keywordAioStatuses: string[];
+  schedule: MonitoringSchedule;
+  platforms: AnswerEnginePlatform[]; // 空数组表示全部平台
+  locale: string;
+  isActive: boolean;
+  lastRunAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MonitoringQueryGroupInput {
+  name?: string;
+  description?: string;
+  source?: MonitoringQuerySource;
+  queries?: string[];
+  productLine?: string;
+  keywordPriorityLevels?: string[];
+  keywordProductLines?: string[];
+  keywordAioStatuses?: string[];
+  schedule?: MonitoringSchedule;
+  platforms?: string[];
+  locale?: string;
+  isActive?: boolean;
+}
+
+export interface MonitoringQuery {
+  text: string;
+  keywordId?: string;
+  productLine?: string;
+}
+
+/**
+ * 展开后的查询组：查询列表已按来源生成，platforms 已展开为具体平台
+ */
+export interface ResolvedMonitoringQueryGroup {
+  group: MonitoringQueryGroup;
+  queries: MonitoringQuery[];
+  platforms: AnswerEnginePlatform[];
+}
+
+export interface ResolveQueryGroupsOptions {
+  groupIds?: string[];
+  /** 仅返回按调度周期已到期的查询组 */
+  dueOnly?: boolean;
+  now?: Date;
+}
+
+/**
+ * AI 引用监测查询组管理
+ *
+ * 查询组分为两类：manual 为市场人员手工维护的查询；keywords 按优先级、产品线、AIO 状态从关键词表动态生成。
+ * 每组可独立配置调度周期、监测平台和语言区域，新增产品线只需新建查询组，无需发布。
+ */
+@Injectable()
+export class MonitoringQueryService implements OnModuleInit {
+  private readonly logger = new Logger(MonitoringQueryService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async onModuleInit() {
+    await this.initializeDefaultGroups();
+  }
+
+  // ==================== 查询组管理 ====================
+
+  async listGroups(includeInactive = false): Promise<MonitoringQueryGroup[]> {
+    const groups = await this.prisma.monitoringQueryGroup.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    return groups.map(group => this.toMonitoringQueryGroup(group));
+  }
+
+  async getGroup(groupId: string): Promise<MonitoringQueryGroup | null> {
+    const group = await this.prisma.monitoringQueryGroup.findUnique({ where: { id: groupId } });
+    return group ? this.toMonitoringQueryGroup(group) : null;
+  }
+
+  async createGroup(input: MonitoringQueryGroupInput, userId?: string): Promise<MonitoringQueryGroup> {
+    if (!input.name?.trim()) {
+      throw new Error('查询组名称不能为空');
+    }
+    const data = this.toGroupData({ source: 'manual', ...input });
+    this.validateGroup(data);
+
+    try {
+      const group = await this.prisma.monitoringQueryGroup.create({
+        data: { ...data, name: input.name.trim(), createdBy: userId ?? null },
+      });
+      this.logger.log(`已创建监测查询组: ${group.name}`);
+      return this.toMonitoringQueryGroup(group);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error(`查询组名称已存在: ${input.name}`);
+      }
+      throw error;
+    }
+  }
+
+  async updateGroup(groupId: string, input: MonitoringQueryGroupInput): Promise<MonitoringQueryGroup> {
+    const existing = await this.prisma.monitoringQueryGroup.findUnique({ where: { id: groupId } });
+    if (!existing) {
+      throw new Error(`监测查询组不存在: ${groupId}`);
+    }
+    if (input.name !== undefined && !input.name.trim()) {
+      throw new Error('查询组名称不能为空');
+    }
+
+    const data = this.toGroupData(input);
+    this.validateGroup({ ...this.toGroupData(this.toMonitoringQueryGroup(existing)), ...data });
+
+    try {
+      const group = await this.prisma.monitoringQueryGroup.update({
+        where: { id: groupId },
+        data: { ...data, ...(input.name !== undefined && { name: input.name.trim() }) },
+      });
+      return this.toMonitoringQueryGroup(group);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error(`查询组名称已存在: ${input.name}`);
+      }
+      throw error;
+    }
+  }
+
+  async deleteGroup(groupId: string): Promise<boolean> {
+    const { count } = await this.prisma.monitoringQueryGroup.deleteMany({ where: { id: groupId } });
+    if (count === 0) {
+      throw new Error(`监测查询组不存在: ${groupId}`);
+    }
+    return true;
+  }
+
+  // ==================== 查询展开 ====================
+
+  /**
+   * 展开启用中的查询组
+   *
+   * 指定 groupIds 时只展开这些组（包括手动调度的组）；dueOnly 时跳过尚未到期和仅手动执行的组
+   */
+  async resolveGroups(options: ResolveQueryGroupsOptions = {}): Promise<ResolvedMonitoringQueryGroup[]> {
+    const now = options.now ?? new Date();
+    const groups = await this.prisma.monitoringQueryGroup.findMany({
+      where: {
+        isActive: true,
+        ...(options.groupIds && { id: { in: options.groupIds } }),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const selected = groups
+      .map(group => this.toMonitoringQueryGroup(group))
+      .filter(group => !options.dueOnly || this.isDue(group, now));
+
+    const resolved: ResolvedMonitoringQueryGroup[] = [];
+    for (const group of selected) {
+      resolved.push({
+        group,
+        queries: await this.resolveQueries(group),
+        platforms: group.platforms.length > 0 ? group.platforms : ANSWER_ENGINE_PLATFORMS,
+      });
+    }
+    return resolved;
+  }
+
+  /**
+   * 展开单个查询组的查询列表（同一组内按忽略大小写去重）
+   */
+  async resolveQueries(group: MonitoringQueryGroup): Promise<MonitoringQuery[]> {
+    const queries: MonitoringQuery[] = group.source === 'keywords'
+      ? await this.resolveKeywordQueries(group)
+      : group.queries.map(text => ({
+          text,
+          ...(group.productLine && { productLine: group.productLine }),
+        }));
+
+    const seen = new Set<string>();
+    return queries.filter(query => {
+      const key = query.text.trim().toLowerCase();
+      if (!key || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  async markGroupsRun(groupIds: string[], runAt: Date = new Date()): Promise<void> {
+    if (groupIds.length === 0) {
+      return;
+    }
+    await this.prisma.monitoringQueryGroup.updateMany({
+      where: { id: { in: groupIds } },
+      data: { lastRunAt: runAt },
+    });
+  }
+
+  isDue(group: MonitoringQueryGroup, now: Date = new Date()): boolean {
+    const interval = SCHEDULE_INTERVAL_MS[group.schedule];
+    if (interval === null) {
+      return false;
+    }
+    return !group.lastRunAt || now.getTime() - group.lastRunAt.getTime() >= interval;
+  }
+
+  // ==================== 私有方法 ====================
+
+  private async resolveKeywordQueries(group: MonitoringQueryGroup): Promise<MonitoringQuery[]> {
+    const keywords = await this.prisma.keyword.findMany({
+      where: {
+        status: { not: 'retired' },
+        ...(group.keywordPriorityLevels.length > 0 && { priorityLevel: { in: group.keywordPriorityLevels } }),
+        ...(group.keywordProductLines.length > 0 && { productLine: { in: group.keywordProductLines } }),
+        ...(group.keywordAioStatuses.length > 0 && { aioStatus: { in: group.keywordAioStatuses } }),
+      },
+      select: { id: true, text: true, productLine: true },
+      orderBy: [{ priorityLevel: 'asc' }, { searchVolume: 'desc' }],
+    });
+
+    return keywords.map(keyword => ({
+      text: keyword.text,
+      keywordId: keyword.id,
+      ...(keyword.productLine && { productLine: keyword.productLine }),
+    }));
+  }
+
+  /**
+   * 初始化默认查询组：P0-P2 已监测关键词，以及原有的核心查询
+   *
+   * 仅在查询组表为空时写入，保留用户对查询组的修改和删除
+   */
+  private async initializeDefaultGroups() {
+    try {
+      const count = await this.prisma.monitoringQueryGroup.count();
+      if (count > 0) {
+        return;
+      }
+
+      await this.prisma.monitoringQueryGroup.createMany({
+        data: [
+          {
+            name: '重点关键词',
+            description: 'P0-P2 且 AIO 状态为已监测的关键词',
+            source: 'keywords',
+            keywordPriorityLevels: ['P0', 'P1', 'P2'],
+            keywordAioStatuses: ['monitored'],
+            schedule: 'daily',
+          },
+          {
+            name: '核心查询',
+            description: '产品、技术问题、对比、购买决策和故障排除类通用查询',
+            source: 'manual',
+            queries: this.buildDefaultQueries(),
+            schedule: 'daily',
+          },
+        ],
+        skipDuplicates: true,
+      });
+      this.logger.log('已初始化默认监测查询组');
+    } catch (error) {
+      this.logger.error(`初始化默认监测查询组失败: ${error.message}`, error.stack);
+    }
+  }
+
+  private buildDefaultQueries(): string[] {
+    return [
+      // 产品相关查询
+      'best security camera for home',
+      'eufy security camera review',
+      'wireless doorbell camera comparison',
+      'smart home security system',
+      'outdoor security camera night vision',
+
+      // 技术问题查询
+      'how to install security camera',
+      'security camera not working',
+      'doorbell camera setup guide',
+      'smart camera app not connecting',
+
+      // 对比查询
+      'eufy vs ring camera',
+      'eufy vs arlo comparison',
+      'eufy vs nest doorbell',
+
+      // 购买决策查询
+      'which security camera to buy',
+      'affordable home security cameras',
+      'best doorbell camera 2024',
+      'security camera buying guide',
+
+      // 故障排除查询
+      'security camera troubleshooting',
+      'doorbell camera offline fix',
+      'camera not recording solutions'
+    ];
+  }
+
+  /**
+   * 输入 -> 写入字段；仅包含输入中出现的字段，查询和平台去除空白
+   */
+  private toGroupData(input: MonitoringQueryGroupInput) {
+    const trimList = (values: string[]) => values.map(value => value.trim()).filter(Boolean);
+
+    return {
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.source !== undefined && { source: input.source }),
+      ...(input.queries !== undefined && { queries: trimList(input.queries) }),
+      ...(input.productLine !== undefined && { productLine: input.productLine }),
+      ...(input.keywordPriorityLevels !== undefined && { keywordPriorityLevels: trimList(input.keywordPriorityLevels) }),
+      ...(input.keywordProductLines !== undefined && { keywordProductLines: trimList(input.keywordProductLines) }),
+      ...(input.keywordAioStatuses !== undefined && { keywordAioStatuses: trimList(input.keywordAioStatuses) }),
+      ...(input.schedule !== undefined && { schedule: input.schedule }),
+      ...(input.platforms !== undefined && { platforms: trimList(input.platforms) }),
+      ...(input.locale !== undefined && { locale: input.locale.trim() }),
+      ...(input.isActive !== undefined && { isActive: input.isActive }),
+    };
+  }
+
+  private validateGroup(data: ReturnType<MonitoringQueryService['toGroupData']>) {
+    const errors: string[] = [];
+
+    if (data.source !== undefined && !MONITORING_QUERY_SOURCES.includes(data.source)) {
+      errors.push(`不支持的查询来源: ${data.source}`);
+    }
+    if (data.schedule !== undefined && !MONITORING_SCHEDULES.includes(data.schedule)) {
+      errors.push(`不支持的调度周期: ${data.schedule}`);
+    }
+    if (data.locale !== undefined && !LOCALE_PATTERN.test(data.locale)) {
+      errors.push(`语言区域格式无效: ${data.locale}（示例: en-US）`);
+    }
+
+    const unknownPlatforms = (data.platforms ?? [])
+      .filter(platform => !ANSWER_ENGINE_PLATFORMS.includes(platform as AnswerEnginePlatform));
+    if (unknownPlatforms.length > 0) {
+      errors.push(`不支持的平台: ${unknownPlatforms.join(', ')}`);
+    }
+
+    if (data.source === 'manual' && (data.queries ?? []).length === 0) {
+      errors.push('手工查询组至少需要一条查询');
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`监测查询组配置无效: ${errors.join('; ')}`);
+    }
+  }
+
+  private toMonitoringQueryGroup(group: PrismaMonitoringQueryGroup): MonitoringQueryGroup {
+    return {
+      id: group.id,
+      name: group.name,
+      ...(group.description !== null && { description: group.description }),
+      source: group.source as MonitoringQuerySource,
+      queries: group.queries,
+      ...(group.productLine !== null && { productLine: group.productLine }),
+      keywordPriorityLevels: group.keywordPriorityLevels,
+      keywordProductLines: group.keywordProductLines,
+      keywordAioStatuses: group.keywordAioStatuses,
+      schedule: group.schedule as MonitoringSchedule,
+      platforms: group.platforms as AnswerEnginePlatform[],
+      locale: group.locale,
+      isActive: group.isActive,
+      ...(group.lastRunAt !== null && { lastRunAt: group.lastRunAt }),
+      createdAt: group.createdAt,
+      updatedAt: group.updatedAt,
+    };
+  }
+}
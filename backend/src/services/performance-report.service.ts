@@ -0,0 +1,180 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+
+export type PerformanceReportType = 'daily' | 'weekly' | 'monthly';
+
+export interface PerformanceReportMetrics {
+  aio_coverage: number; // 区间内出现过 AIO 的关键词 / 有指标数据的关键词
+  organic_traffic: number;
+  conversion_rate: number; // conversion 事件数 / page_view 事件数
+  roi: number | null; // 暂无投入成本数据
+}
+
+export interface PerformanceReportSummary {
+  id: string;
+  reportType: PerformanceReportType;
+  reportDate: Date;
+  metrics: PerformanceReportMetrics;
+  generatedAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_KEYWORD_LIMIT = 20;
+
+/**
+ * 效果报告生成
+ *
+ * 汇总区间内的关键词指标和分析事件，写入 performance_reports；同一类型同一日期重复生成时覆盖
+ */
+@Injectable()
+export class PerformanceReportService {
+  private readonly logger = new Logger(PerformanceReportService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 生成周报
+   *
+   * reportDate 为报告周的周一（UTC）；未指定时为上一个完整周
+   */
+  async generateWeeklyReport(reportDate?: Date): Promise<PerformanceReportSummary> {
+    const weekStart = reportDate ? this.startOfWeek(reportDate) : new Date(this.startOfWeek(new Date()).getTime() - 7 * DAY_MS);
+    const weekEnd = new Date(weekStart.getTime() + 7 * DAY_MS);
+    return this.generateReport('weekly', weekStart, weekEnd);
+  }
+
+  async generateReport(reportType: PerformanceReportType, from: Date, to: Date): Promise<PerformanceReportSummary> {
+    const [keywordStats, eventStats, contentStats] = await Promise.all([
+      this.collectKeywordStats(from, to),
+      this.prisma.analyticsEvent.groupBy({
+        by: ['source', 'eventType'],
+        where: { occurredAt: { gte: from, lt: to } },
+        _count: { _all: true },
+      }),
+      this.prisma.analyticsEvent.groupBy({
+        by: ['contentId', 'eventType'],
+        where: { occurredAt: { gte: from, lt: to }, contentId: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const countEvents = (eventType: string) => eventStats
+      .filter(stat => stat.eventType === eventType)
+      .reduce((sum, stat) => sum + stat._count._all, 0);
+    const pageViews = countEvents('page_view');
+
+    const metrics: PerformanceReportMetrics = {
+      aio_coverage: keywordStats.length > 0
+        ? this.round(keywordStats.filter(stat => stat.aioDisplayedDays > 0).length / keywordStats.length)
+        : 0,
+      organic_traffic: keywordStats.reduce((sum, stat) => sum + stat.organicTraffic, 0),
+      conversion_rate: pageViews > 0 ? this.round(countEvents('conversion') / pageViews) : 0,
+      roi: null,
+    };
+
+    const byKeyword = [...keywordStats]
+      .sort((a, b) => b.organicTraffic - a.organicTraffic || (a.avgPosition ?? Infinity) - (b.avgPosition ?? Infinity))
+      .slice(0, TOP_KEYWORD_LIMIT);
+    const byChannel = this.pivotCounts(eventStats.map((stat): [string, string, number] => [stat.source, stat.eventType, stat._count._all]));
+    const byContent = this.pivotCounts(contentStats.map((stat): [string, string, number] => [stat.contentId!, stat.eventType, stat._count._all]));
+
+    const report = await this.prisma.performanceReport.upsert({
+      where: { reportType_reportDate: { reportType, reportDate: from } },
+      create: {
+        reportType,
+        reportDate: from,
+        metrics: metrics as unknown as Prisma.InputJsonValue,
+        byKeyword: byKeyword as unknown as Prisma.InputJsonValue,
+        byContent,
+        byChannel,
+      },
+      update: {
+        metrics: metrics as unknown as Prisma.InputJsonValue,
+        byKeyword: byKeyword as unknown as Prisma.InputJsonValue,
+        byContent,
+        byChannel,
+        generatedAt: new Date(),
+      },
+    });
+
+    this.logger.log(`已生成${reportType}报告: ${from.toISOString().split('T')[0]}`);
+    return {
+      id: report.id,
+      reportType,
+      reportDate: report.reportDate,
+      metrics,
+      generatedAt: report.generatedAt,
+    };
+  }
+
+  // ==================== 私有方法 ====================
+
+  private async collectKeywordStats(from: Date, to: Date) {
+    const metrics = await this.prisma.keywordMetric.findMany({
+      where: { metricDate: { gte: from, lt: to } },
+      select: {
+        keywordId: true,
+        googlePosition: true,
+        aioDisplayed: true,
+        organicTraffic: true,
+        keyword: { select: { text: true, priorityLevel: true } },
+      },
+    });
+
+    const stats = new Map<string, {
+      keywordId: string;
+      text: string;
+      priorityLevel: string | null;
+      positions: number[];
+      aioDisplayedDays: number;
+      organicTraffic: number;
+    }>();
+    for (const metric of metrics) {
+      let stat = stats.get(metric.keywordId);
+      if (!stat) {
+        stat = {
+          keywordId: metric.keywordId,
+          text: metric.keyword.text,
+          priorityLevel: metric.keyword.priorityLevel,
+          positions: [],
+          aioDisplayedDays: 0,
+          organicTraffic: 0,
+        };
+        stats.set(metric.keywordId, stat);
+      }
+      if (metric.googlePosition !== null) stat.positions.push(metric.googlePosition);
+      if (metric.aioDisplayed) stat.aioDisplayedDays++;
+      stat.organicTraffic += metric.organicTraffic ?? 0;
+    }
+
+    return [...stats.values()].map(({ positions, ...stat }) => ({
+      ...stat,
+      avgPosition: positions.length > 0
+        ? this.round(positions.reduce((sum, position) => sum + position, 0) / positions.length)
+        : null,
+    }));
+  }
+
+  /**
+   * [维度, 事件类型, 数量] -> { 维度: { 事件类型: 数量 } }
+   */
+  private pivotCounts(rows: Array<[string, string, number]>): Record<string, Record<string, number>> {
+    const result: Record<string, Record<string, number>> = {};
+    for (const [dimension, eventType, count] of rows) {
+      const counts = result[dimension] ?? (result[dimension] = {});
+      counts[eventType] = (counts[eventType] ?? 0) + count;
+    }
+    return result;
+  }
+
+  private startOfWeek(date: Date): Date {
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    const offset = (start.getUTCDay() + 6) % 7; // 周一为一周开始
+    return new Date(start.getTime() - offset * DAY_MS);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
@@ -0,0 +1,282 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import {
+  ALL_PERMISSIONS,
+  ALL_PERMISSIONS_WILDCARD,
+  Permission,
+  isPermission,
+} from '../common/permissions';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 用户当前角色及其权限
+ */
+export interface UserAccess {
+  userId: string;
+  roleId: string;
+  roleName: string;
+  permissions: Permission[];
+  isActive: boolean;
+}
+
+export interface RoleWithUserCount {
+  id: string;
+  name: string;
+  displayName: string;
+  description?: string;
+  permissions: Permission[];
+  userCount: number;
+  createdAt: Date;
+}
+
+export interface RoleInput {
+  name?: string;
+  displayName?: string;
+  description?: string | null;
+  permissions?: string[];
+}
+
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]{1,49}$/;
+/** 内置角色不可删除或改名，权限可调整 */
+const BUILT_IN_ROLES = ['admin', 'manager', 'editor', 'analyst'];
+const DEFAULT_CACHE_TTL_SECONDS = 60;
+
+/**
+ * 角色权限
+ *
+ * 按用户缓存其角色和权限（RBAC_CACHE_TTL_SECONDS，默认 60 秒），修改角色或调整用户角色时清除相关缓存；
+ * 多实例部署时其他实例的缓存在 TTL 内过期
+ */
+@Injectable()
+export class RbacService {
+  private readonly logger = new Logger(RbacService.name);
+  private readonly cache = new Map<string, { access: UserAccess | null; expiresAt: number }>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // ==================== 权限解析 ====================
+
+  /**
+   * 用户角色和权限，用户不存在时为空
+   */
+  async getUserAccess(userId: string): Promise<UserAccess | null> {
+    const cached = this.cache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.access;
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, isActive: true, role: { select: { id: true, name: true, permissions: true } } },
+    });
+    const access: UserAccess | null = user
+      ? {
+          userId: user.id,
+          roleId: user.role.id,
+          roleName: user.role.name,
+          permissions: this.parsePermissions(user.role.permissions),
+          isActive: user.isActive,
+        }
+      : null;
+
+    this.cache.set(userId, { access, expiresAt: Date.now() + this.getCacheTtlSeconds() * 1000 });
+    return access;
+  }
+
+  /**
+   * 返回缺少的权限，为空表示全部满足
+   */
+  missingPermissions(access: UserAccess, required: Permission[]): Permission[] {
+    return required.filter(permission => !access.permissions.includes(permission));
+  }
+
+  invalidateUser(userId: string): void {
+    this.cache.delete(userId);
+  }
+
+  invalidateRole(roleId: string): void {
+    for (const [userId, entry] of this.cache) {
+      if (entry.access?.roleId === roleId) {
+        this.cache.delete(userId);
+      }
+    }
+  }
+
+  // ==================== 角色管理 ====================
+
+  async listRoles(): Promise<RoleWithUserCount[]> {
+    const roles = await this.prisma.role.findMany({
+      include: { _count: { select: { users: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return roles.map(role => this.toRole(role));
+  }
+
+  async createRole(input: RoleInput): Promise<RoleWithUserCount> {
+    const name = this.validateRoleName(input.name);
+    const displayName = this.validateDisplayName(input.displayName);
+
+    try {
+      const role = await this.prisma.role.create({
+        data: {
+          name,
+          displayName,
+          description: input.description ?? null,
+          permissions: this.validatePermissions(input.permissions ?? []),
+        },
+        include: { _count: { select: { users: true } } },
+      });
+      this.logger.log(`创建角色: ${role.name}`);
+      return this.toRole(role);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error(`角色已存在: ${name}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 更新角色；内置角色不可改名，不能从自己的角色中移除角色管理权限
+   */
+  async updateRole(id: string, input: RoleInput, actorId: string): Promise<RoleWithUserCount> {
+    const existing = await this.prisma.role.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error(`角色不存在: ${id}`);
+    }
+    if (input.name !== undefined && input.name !== existing.name && BUILT_IN_ROLES.includes(existing.name)) {
+      throw new Error(`内置角色不可改名: ${existing.name}`);
+    }
+    if (input.permissions !== undefined && !input.permissions.includes('role:manage')) {
+      const actor = await this.getUserAccess(actorId);
+      if (actor?.roleId === id) {
+        throw new Error('不能移除自己的角色管理权限');
+      }
+    }
+
+    const role = await this.prisma.role.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined && { name: this.validateRoleName(input.name) }),
+        ...(input.displayName !== undefined && { displayName: this.validateDisplayName(input.displayName) }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.permissions !== undefined && { permissions: this.validatePermissions(input.permissions) }),
+      },
+      include: { _count: { select: { users: true } } },
+    });
+
+    this.invalidateRole(id);
+    this.logger.log(`更新角色: ${role.name}`);
+    return this.toRole(role);
+  }
+
+  /**
+   * 删除角色；内置角色和仍有用户的角色不可删除
+   */
+  async deleteRole(id: string): Promise<boolean> {
+    const role = await this.prisma.role.findUnique({
+      where: { id },
+      include: { _count: { select: { users: true } } },
+    });
+    if (!role) {
+      return false;
+    }
+    if (BUILT_IN_ROLES.includes(role.name)) {
+      throw new Error(`内置角色不可删除: ${role.name}`);
+    }
+    if (role._count.users > 0) {
+      throw new Error(`角色仍有 ${role._count.users} 个用户，请先调整这些用户的角色`);
+    }
+
+    await this.prisma.role.delete({ where: { id } });
+    this.invalidateRole(id);
+    this.logger.log(`删除角色: ${role.name}`);
+    return true;
+  }
+
+  /**
+   * 调整用户角色；不能移除自己的角色管理权限，避免没有管理员
+   */
+  async assignUserRole(userId: string, roleId: string, actorId: string): Promise<UserAccess> {
+    const role = await this.prisma.role.findUnique({ where: { id: roleId } });
+    if (!role) {
+      throw new Error(`角色不存在: ${roleId}`);
+    }
+    if (userId === actorId && !this.parsePermissions(role.permissions).includes('role:manage')) {
+      throw new Error('不能移除自己的角色管理权限');
+    }
+
+    await this.prisma.user.update({ where: { id: userId }, data: { roleId } });
+    this.invalidateUser(userId);
+    this.logger.log(`调整用户角色: ${userId} → ${role.name}`);
+
+    const access = await this.getUserAccess(userId);
+    if (!access) {
+      throw new Error(`用户不存在: ${userId}`);
+    }
+    return access;
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 解析 roles.permissions；'*' 展开为全部权限，未知权限忽略
+   */
+  private parsePermissions(value: Prisma.JsonValue): Permission[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+    const names = value.filter((item): item is string => typeof item === 'string');
+    if (names.includes(ALL_PERMISSIONS_WILDCARD)) {
+      return [...ALL_PERMISSIONS];
+    }
+    return [...new Set(names.filter(isPermission))];
+  }
+
+  private validatePermissions(permissions: string[]): Permission[] {
+    const unknown = permissions.filter(permission => !isPermission(permission));
+    if (unknown.length > 0) {
+      throw new Error(`未知权限: ${unknown.join(', ')}`);
+    }
+    return [...new Set(permissions)] as Permission[];
+  }
+
+  private validateRoleName(name?: string): string {
+    const trimmed = name?.trim() ?? '';
+    if (!ROLE_NAME_PATTERN.test(trimmed)) {
+      throw new Error('角色名称须为 2-50 位小写字母、数字、下划线或连字符，且以字母开头');
+    }
+    return trimmed;
+  }
+
+  private validateDisplayName(displayName?: string): string {
+    const trimmed = displayName?.trim() ?? '';
+    if (!trimmed || trimmed.length > 100) {
+      throw new Error('显示名称长度必须在 1-100 个字符之间');
+    }
+    return trimmed;
+  }
+
+  private getCacheTtlSeconds(): number {
+    const seconds = Number(this.configService.get<string>('RBAC_CACHE_TTL_SECONDS', String(DEFAULT_CACHE_TTL_SECONDS)));
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_CACHE_TTL_SECONDS;
+  }
+
+  private toRole(role: Prisma.RoleGetPayload<{ include: { _count: { select: { users: true } } } }>): RoleWithUserCount {
+    return {
+      id: role.id,
+      name: role.name,
+      displayName: role.displayName,
+      ...(role.description && { description: role.description }),
+      permissions: this.parsePermissions(role.permissions),
+      userCount: role._count.users,
+      createdAt: role.createdAt,
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AICitationMonitorService } from './ai-citation-monitor.service';
+import { AuditLogService } from './audit-log.service';
+import { JobQueueService } from './job-queue.service';
+import { KeywordMetricIngestionService } from './keyword-metric-ingestion.service';
+import { PerformanceReportService } from './performance-report.service';
+
+export const KEYWORD_METRICS_JOB = 'keyword-metrics';
+export const CITATION_SWEEP_JOB = 'citation-sweep';
+export const WEEKLY_PERFORMANCE_REPORT_JOB = 'weekly-performance-report';
+export const AUDIT_LOG_RETENTION_JOB = 'audit-log-retention';
+
+/**
+ * 定时任务注册
+ *
+ * cron 可通过环境变量覆盖，时区由 JOB_TIMEZONE 指定（默认 UTC）
+ */
+@Injectable()
+export class ScheduledJobsService implements OnModuleInit {
+  private readonly logger = new Logger(ScheduledJobsService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jobQueue: JobQueueService,
+    private readonly keywordMetrics: KeywordMetricIngestionService,
+    private readonly citationMonitor: AICitationMonitorService,
+    private readonly performanceReports: PerformanceReportService,
+    private readonly auditLogs: AuditLogService,
+  ) {}
+
+  onModuleInit() {
+    const tz = this.configService.get<string>('JOB_TIMEZONE', 'UTC');
+
+    this.jobQueue.register<{ keywordIds?: string[] }>({
+      name: KEYWORD_METRICS_JOB,
+      description: '每日采集重点关键词 SERP 排名、特性和 AI Overview 展示情况',
+      handler: data => this.collectKeywordMetrics(data.keywordIds),
+      concurrency: 1,
+      attempts: 3,
+      backoffMs: 5 * 60 * 1000,
+      timeoutMs: 2 * 60 * 60 * 1000,
+      repeat: { cron: this.configService.get<string>('JOB_KEYWORD_METRICS_CRON', '0 3 * * *'), tz },
+    });
+
+    // 每小时检查一次，各查询组按自身调度周期决定是否执行
+    this.jobQueue.register({
+      name: CITATION_SWEEP_JOB,
+      description: '按监测查询组调度执行 AI 引用监测',
+      handler: async () => {
+        const insights = await this.citationMonitor.monitorAICitations({ dueOnly: true });
+        return { totalCitations: insights.totalCitations, citationRate: insights.citationRate };
+      },
+      concurrency: 1,
+      attempts: 2,
+      backoffMs: 10 * 60 * 1000,
+      timeoutMs: 2 * 60 * 60 * 1000,
+      repeat: { cron: this.configService.get<string>('JOB_CITATION_SWEEP_CRON', '15 * * * *'), tz },
+    });
+
+    this.jobQueue.register<{ reportDate?: string }>({
+      name: WEEKLY_PERFORMANCE_REPORT_JOB,
+      description: '生成上一完整周的效果周报',
+      handler: async data => {
+        const report = await this.performanceReports.generateWeeklyReport(
+          data.reportDate ? new Date(data.reportDate) : undefined,
+        );
+        return { reportId: report.id, reportDate: report.reportDate, metrics: report.metrics };
+      },
+      attempts: 3,
+      repeat: { cron: this.configService.get<string>('JOB_WEEKLY_REPORT_CRON', '0 5 * * 1'), tz },
+    });
+
+    this.jobQueue.register({
+      name: AUDIT_LOG_RETENTION_JOB,
+      description: '按 AUDIT_LOG_RETENTION_DAYS 清理过期审计日志',
+      handler: async () => ({
+        retentionDays: this.auditLogs.getRetentionDays(),
+        deleted: await this.auditLogs.purgeExpired(),
+      }),
+      attempts: 2,
+      repeat: { cron: this.configService.get<string>('JOB_AUDIT_RETENTION_CRON', '30 4 * * *'), tz },
+    });
+  }
+
+  /**
+   * 采集关键词 SERP/AIO 指标；全部失败时抛出以触发重试
+   */
+  private async collectKeywordMetrics(keywordIds?: string[]) {
+    const summary = await this.keywordMetrics.ingestKeywords(keywordIds);
+
+    if (summary.failed > 0) {
+      this.logger.warn(`关键词指标采集失败 ${summary.failed} 个: ${summary.errors.slice(0, 5).join('; ')}`);
+    }
+    if (summary.processed > 0 && summary.saved === 0) {
+      throw new Error(`关键词指标采集全部失败: ${summary.errors[0]}`);
+    }
+
+    return {
+      keywords: summary.processed,
+      saved: summary.saved,
+      failed: summary.failed,
+      aioStatusChanges: summary.aioStatusChanges,
+    };
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * AI 引用监测服务单元测试
+ *
+ * @description 测试 AICitationMonitorService 基于已存储观测生成的趋势、竞品对比和竞品情感
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AICitationMonitorService } from '../ai-citation-monitor.service';
+import { CitationObservationService } from '../citation-observation.service';
+import { MonitoringQueryService } from '../monitoring-query.service';
+import { AlertRulesService } from '../alert-rules.service';
+
+describe('AICitationMonitorService', () => {
+  let service: AICitationMonitorService;
+
+  const today = new Date('2025-03-10T08:00:00.000Z');
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) => (key === 'AI_CITATION_ADAPTER' ? 'fixture' : defaultValue)),
+  };
+
+  const mockCitationObservationService = {
+    getBrandSummaries: jest.fn(),
+    countAnswers: jest.fn(),
+    getBrandObservations: jest.fn(),
+    getCitationTrend: jest.fn(),
+    getDailyTopCitedUrls: jest.fn(),
+    getTopCitedUrls: jest.fn(),
+  };
+
+  const mockMonitoringQueryService = {
+    resolveGroups: jest.fn(),
+  };
+
+  const buildObservation = (brand: string, snippet: string | null, platform = 'chatgpt') => ({
+    brand,
+    platform,
+    query: 'best security camera',
+    snippet,
+    citedUrl: `https://www.${brand.toLowerCase()}.com/`,
+    citedDomain: `${brand.toLowerCase()}.com`,
+    rank: 1,
+    sourceCount: 2,
+    observedAt: today,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AICitationMonitorService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+        {
+          provide: CitationObservationService,
+          useValue: mockCitationObservationService,
+        },
+        {
+          provide: MonitoringQueryService,
+          useValue: mockMonitoringQueryService,
+        },
+        {
+          provide: AlertRulesService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    service = module.get<AICitationMonitorService>(AICitationMonitorService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: today, doNotFake: ['nextTick', 'setImmediate'] });
+    mockCitationObservationService.getBrandSummaries.mockResolvedValue([]);
+    mockCitationObservationService.countAnswers.mockResolvedValue(0);
+    mockCitationObservationService.getBrandObservations.mockResolvedValue([]);
+    mockCitationObservationService.getCitationTrend.mockResolvedValue([]);
+    mockCitationObservationService.getDailyTopCitedUrls.mockResolvedValue([]);
+    mockCitationObservationService.getTopCitedUrls.mockResolvedValue([]);
+    mockMonitoringQueryService.resolveGroups.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getCitationInsights', () => {
+    it('should fill every day of the window and break citations down by platform', async () => {
+      // Arrange
+      mockCitationObservationService.getCitationTrend.mockResolvedValue([
+        { period: '2025-03-09', platform: 'chatgpt', citations: 2 },
+        { period: '2025-03-09', platform: 'gemini', citations: 1 },
+      ]);
+      mockCitationObservationService.getDailyTopCitedUrls.mockResolvedValue([
+        { period: '2025-03-09', url: 'https://www.eufy.com/products/t8170', citations: 2, avgConfidence: 1 },
+      ]);
+
+      // Act
+      const insights = await service.getCitationInsights(7);
+
+      // Assert
+      expect(mockCitationObservationService.getCitationTrend).toHaveBeenCalledWith(
+        'Eufy',
+        new Date('2025-03-04T00:00:00.000Z'),
+        new Date('2025-03-11T00:00:00.000Z'),
+        'day'
+      );
+      expect(insights.trends.map(trend => trend.date)).toEqual([
+        '2025-03-04', '2025-03-05', '2025-03-06', '2025-03-07', '2025-03-08', '2025-03-09', '2025-03-10',
+      ]);
+      const march9 = insights.trends.find(trend => trend.date === '2025-03-09')!;
+      expect(march9.totalCitations).toBe(3);
+      expect(march9.platformBreakdown).toMatchObject({ chatgpt: 2, gemini: 1, claude: 0 });
+      expect(march9.topCitedContent).toHaveLength(1);
+      expect(insights.trends.find(trend => trend.date === '2025-03-10')!.totalCitations).toBe(0);
+    });
+
+    it('should compute citation rates from cited answers', async () => {
+      // Arrange
+      mockCitationObservationService.countAnswers.mockResolvedValue(10);
+      mockCitationObservationService.getBrandSummaries.mockResolvedValue([
+        { brand: 'Eufy', citations: 6, citedAnswers: 4, topQueries: [] },
+        { brand: 'Ring', citations: 3, citedAnswers: 2, topQueries: ['eufy vs ring'] },
+      ]);
+
+      // Act
+      const insights = await service.getCitationInsights();
+
+      // Assert
+      expect(insights.citationRate).toBe(0.4);
+      expect(insights.competitorComparison.find(item => item.competitor === 'Ring')).toMatchObject({
+        mentions: 3,
+        citationRate: 0.2,
+        topQueries: ['eufy vs ring'],
+      });
+      expect(insights.competitorComparison.find(item => item.competitor === 'Wyze')).toMatchObject({
+        mentions: 0,
+        citationRate: 0,
+      });
+    });
+
+    it('should derive competitor sentiment from stored snippets', async () => {
+      // Arrange
+      mockCitationObservationService.getBrandObservations.mockImplementation(async (brand: string) => {
+        switch (brand) {
+          case 'Arlo':
+            return [
+              buildObservation('Arlo', 'Arlo Pro 5S offers excellent image quality but relies on a subscription for cloud features.'),
+              buildObservation('Arlo', 'Arlo is expensive and requires a plan. eufy is the best pick.'),
+            ];
+          case 'Ring':
+            return [buildObservation('Ring', 'Ring is a popular, reliable choice. Other brands have privacy concerns.')];
+          case 'Wyze':
+            return [buildObservation('Wyze', null)];
+          default:
+            return [];
+        }
+      });
+
+      // Act
+      const insights = await service.getCitationInsights();
+
+      // Assert
+      const sentiment = Object.fromEntries(
+        insights.competitorComparison.map(item => [item.competitor, item.sentiment])
+      );
+      expect(sentiment).toEqual({
+        Ring: 'positive',
+        Arlo: 'negative',
+        Nest: 'neutral',
+        SimpliSafe: 'neutral',
+        Wyze: 'neutral',
+      });
+    });
+
+    it('should return the same sentiment for the same observations', async () => {
+      // Arrange
+      mockCitationObservationService.getBrandObservations.mockResolvedValue([
+        buildObservation('Ring', 'Most advanced Ring features require Ring Protect; the doorbell is easy to install.'),
+      ]);
+
+      // Act
+      const first = await service.getCitationInsights();
+      const second = await service.getCitationInsights();
+
+      // Assert
+      expect(second.competitorComparison.map(item => item.sentiment))
+        .toEqual(first.competitorComparison.map(item => item.sentiment));
+    });
+  });
+});
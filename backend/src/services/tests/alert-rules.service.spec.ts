@@ -0,0 +1,386 @@
+/**
+ * 告警规则引擎单元测试
+ *
+ * @description 测试 AlertRulesService 的规则判断、告警去重、冷却时间、暂停和自动关闭
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AlertRulesService } from '../alert-rules.service';
+import { CitationObservationService } from '../citation-observation.service';
+import { PrismaService } from '@/common/prisma.service';
+
+describe('AlertRulesService', () => {
+  let service: AlertRulesService;
+
+  const now = new Date('2025-03-10T08:00:00.000Z');
+
+  const mockPrismaService = {
+    keyword: {
+      findMany: jest.fn(),
+    },
+    citationObservation: {
+      findMany: jest.fn(),
+    },
+    alertRule: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    alert: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+
+  const mockCitationObservationService = {
+    getBrandSummaries: jest.fn(),
+    countAnswers: jest.fn(),
+  };
+
+  const buildRuleRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'rule-1',
+    name: 'P0 排名下降',
+    description: null,
+    ruleType: 'rank_drop',
+    conditions: { minDrop: 3 },
+    keywordIds: [],
+    keywordPriorityLevels: ['P0'],
+    keywordProductLines: [],
+    severity: 'high',
+    channels: ['in_app'],
+    webhookUrl: null,
+    cooldownMinutes: 60,
+    isActive: true,
+    lastEvaluatedAt: null,
+    createdBy: null,
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  const buildAlertRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'alert-1',
+    ruleId: 'rule-1',
+    keywordId: 'keyword-1',
+    dedupKey: 'keyword:keyword-1',
+    severity: 'high',
+    title: '关键词排名下降: best security camera',
+    message: '',
+    context: null,
+    status: 'open',
+    occurrences: 1,
+    firstTriggeredAt: new Date('2025-03-09T08:00:00.000Z'),
+    lastTriggeredAt: new Date('2025-03-09T08:00:00.000Z'),
+    lastNotifiedAt: new Date('2025-03-09T08:00:00.000Z'),
+    deliveryError: null,
+    snoozedUntil: null,
+    readAt: null,
+    acknowledgedAt: null,
+    acknowledgedBy: null,
+    resolvedAt: null,
+    ...overrides,
+  });
+
+  const buildKeyword = (positions: Array<number | null>, overrides: Record<string, unknown> = {}) => ({
+    id: 'keyword-1',
+    text: 'best security camera',
+    priorityLevel: 'P0',
+    productLine: null,
+    metrics: positions.map((googlePosition, index) => ({
+      metricDate: new Date(Date.UTC(2025, 2, 10 - index)),
+      googlePosition,
+      aioDisplayed: false,
+      aioPosition: null,
+      aioContentSnippet: null,
+    })),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AlertRulesService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+        {
+          provide: CitationObservationService,
+          useValue: mockCitationObservationService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AlertRulesService>(AlertRulesService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockPrismaService.alertRule.findMany.mockResolvedValue([buildRuleRow()]);
+    mockPrismaService.alert.findFirst.mockResolvedValue(null);
+    mockPrismaService.alert.create.mockImplementation(async ({ data }) => buildAlertRow({ ...data, id: 'alert-new' }));
+    mockPrismaService.alert.update.mockImplementation(async ({ where }) => buildAlertRow({ id: where.id }));
+    mockPrismaService.alert.updateMany.mockResolvedValue({ count: 0 });
+  });
+
+  describe('evaluateKeywordRules', () => {
+    it('should raise a rank drop alert only when the drop exceeds the threshold', async () => {
+      // Arrange
+      mockPrismaService.keyword.findMany.mockResolvedValue([
+        buildKeyword([8, 3]),
+        buildKeyword([5, 3], { id: 'keyword-2', text: 'doorbell camera' }),
+      ]);
+
+      // Act
+      const result = await service.evaluateKeywordRules(undefined, now);
+
+      // Assert
+      expect(result).toEqual({ evaluatedRules: 1, triggered: 1, notified: 1, resolved: 0 });
+      expect(mockPrismaService.alert.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          ruleId: 'rule-1',
+          keywordId: 'keyword-1',
+          dedupKey: 'keyword:keyword-1',
+          title: '关键词排名下降: best security camera',
+          firstTriggeredAt: now,
+        }),
+      });
+    });
+
+    it('should skip keywords outside the rule scope', async () => {
+      // Arrange
+      mockPrismaService.keyword.findMany.mockResolvedValue([buildKeyword([20, 3], { priorityLevel: 'P3' })]);
+
+      // Act
+      const result = await service.evaluateKeywordRules(undefined, now);
+
+      // Assert
+      expect(result.triggered).toBe(0);
+      expect(mockPrismaService.alert.create).not.toHaveBeenCalled();
+    });
+
+    it('should raise an AIO loss alert after the configured consecutive days', async () => {
+      // Arrange
+      mockPrismaService.alertRule.findMany.mockResolvedValue([
+        buildRuleRow({ ruleType: 'aio_lost', conditions: { consecutiveDays: 2 }, keywordPriorityLevels: [] }),
+      ]);
+      const keyword = buildKeyword([3, 3, 3]);
+      keyword.metrics[2]!.aioPosition = 1 as never;
+      mockPrismaService.keyword.findMany.mockResolvedValue([keyword]);
+
+      // Act
+      const result = await service.evaluateKeywordRules(['keyword-1'], now);
+
+      // Assert
+      expect(result.triggered).toBe(1);
+      expect(mockPrismaService.alert.create.mock.calls[0][0].data.context).toMatchObject({
+        consecutiveDays: 2,
+        lastCitedDate: '2025-03-08',
+      });
+    });
+
+    it('should raise one alert per competitor found in the AIO snippet or citations', async () => {
+      // Arrange
+      mockPrismaService.alertRule.findMany.mockResolvedValue([
+        buildRuleRow({ ruleType: 'competitor_in_aio', conditions: { competitors: ['Ring', 'Arlo', 'Wyze'] }, keywordPriorityLevels: [] }),
+      ]);
+      const keyword = buildKeyword([3]);
+      Object.assign(keyword.metrics[0]!, { aioDisplayed: true, aioContentSnippet: 'Ring doorbells are popular.' });
+      mockPrismaService.keyword.findMany.mockResolvedValue([keyword]);
+      mockPrismaService.citationObservation.findMany.mockResolvedValue([{ keywordId: 'keyword-1', brand: 'Arlo' }]);
+
+      // Act
+      await service.evaluateKeywordRules(['keyword-1'], now);
+
+      // Assert
+      expect(mockPrismaService.alert.create.mock.calls.map(([args]) => args.data.dedupKey)).toEqual([
+        'keyword:keyword-1:competitor:ring',
+        'keyword:keyword-1:competitor:arlo',
+      ]);
+    });
+
+    it('should resolve open alerts whose condition no longer holds', async () => {
+      // Arrange
+      mockPrismaService.keyword.findMany.mockResolvedValue([buildKeyword([3, 4])]);
+      mockPrismaService.alert.updateMany.mockResolvedValue({ count: 1 });
+
+      // Act
+      const result = await service.evaluateKeywordRules(['keyword-1'], now);
+
+      // Assert
+      expect(result.resolved).toBe(1);
+      expect(mockPrismaService.alert.updateMany).toHaveBeenCalledWith({
+        where: {
+          keywordId: { in: ['keyword-1'] },
+          ruleId: 'rule-1',
+          status: { not: 'resolved' },
+          dedupKey: { notIn: [] },
+        },
+        data: { status: 'resolved', resolvedAt: now },
+      });
+    });
+  });
+
+  describe('deduplication and cooldown', () => {
+    beforeEach(() => {
+      mockPrismaService.keyword.findMany.mockResolvedValue([buildKeyword([8, 3])]);
+    });
+
+    it('should increment the existing alert without notifying inside the cooldown', async () => {
+      // Arrange
+      mockPrismaService.alert.findFirst.mockResolvedValue(buildAlertRow({
+        lastNotifiedAt: new Date('2025-03-10T07:30:00.000Z'),
+      }));
+
+      // Act
+      const result = await service.evaluateKeywordRules(['keyword-1'], now);
+
+      // Assert
+      expect(result).toMatchObject({ triggered: 1, notified: 0 });
+      expect(mockPrismaService.alert.create).not.toHaveBeenCalled();
+      expect(mockPrismaService.alert.update).toHaveBeenCalledTimes(1);
+      const [{ data }] = mockPrismaService.alert.update.mock.calls[0];
+      expect(data.occurrences).toEqual({ increment: 1 });
+      expect(data).not.toHaveProperty('readAt');
+    });
+
+    it('should notify again and mark unread once the cooldown has passed', async () => {
+      // Arrange
+      mockPrismaService.alert.findFirst.mockResolvedValue(buildAlertRow({
+        lastNotifiedAt: new Date('2025-03-10T06:59:00.000Z'),
+        readAt: new Date('2025-03-10T07:00:00.000Z'),
+      }));
+
+      // Act
+      const result = await service.evaluateKeywordRules(['keyword-1'], now);
+
+      // Assert
+      expect(result.notified).toBe(1);
+      expect(mockPrismaService.alert.update.mock.calls[0][0].data.readAt).toBeNull();
+      expect(mockPrismaService.alert.update.mock.calls[1][0]).toEqual({
+        where: { id: 'alert-1' },
+        data: { lastNotifiedAt: now, deliveryError: null },
+      });
+    });
+
+    it('should not notify snoozed or acknowledged alerts', async () => {
+      // Arrange
+      mockPrismaService.alert.findFirst
+        .mockResolvedValueOnce(buildAlertRow({ lastNotifiedAt: null, snoozedUntil: new Date('2025-03-10T09:00:00.000Z') }))
+        .mockResolvedValueOnce(buildAlertRow({ lastNotifiedAt: null, status: 'acknowledged' }));
+
+      // Act
+      const snoozed = await service.evaluateKeywordRules(['keyword-1'], now);
+      const acknowledged = await service.evaluateKeywordRules(['keyword-1'], now);
+
+      // Assert
+      expect(snoozed.notified).toBe(0);
+      expect(acknowledged.notified).toBe(0);
+    });
+
+    it('should record webhook delivery errors without failing the evaluation', async () => {
+      // Arrange
+      mockPrismaService.alertRule.findMany.mockResolvedValue([buildRuleRow({ channels: ['in_app', 'webhook'] })]);
+      mockConfigService.get.mockReturnValue(undefined);
+
+      // Act
+      const result = await service.evaluateKeywordRules(['keyword-1'], now);
+
+      // Assert
+      expect(result.notified).toBe(1);
+      expect(mockPrismaService.alert.update).toHaveBeenCalledWith({
+        where: { id: 'alert-new' },
+        data: { lastNotifiedAt: now, deliveryError: '未配置 webhook 地址' },
+      });
+    });
+  });
+
+  describe('evaluateCitationRules', () => {
+    it('should raise an alert when the citation rate is below the threshold', async () => {
+      // Arrange
+      mockPrismaService.alertRule.findMany.mockResolvedValue([
+        buildRuleRow({ ruleType: 'citation_rate_below', conditions: { threshold: 0.2, days: 7 }, keywordPriorityLevels: [] }),
+      ]);
+      mockCitationObservationService.countAnswers.mockResolvedValue(20);
+      mockCitationObservationService.getBrandSummaries.mockResolvedValue([
+        { brand: 'Eufy', citations: 3, citedAnswers: 2, topQueries: [] },
+      ]);
+
+      // Act
+      const result = await service.evaluateCitationRules(now);
+
+      // Assert
+      expect(result.triggered).toBe(1);
+      expect(mockPrismaService.alert.create.mock.calls[0][0].data).toMatchObject({
+        dedupKey: 'citation_rate',
+        keywordId: null,
+        message: '近 7 天 Eufy 在 AI 回答中的引用率为 10%，低于阈值 20%',
+      });
+    });
+
+    it('should neither raise nor resolve alerts without observations', async () => {
+      // Arrange
+      mockPrismaService.alertRule.findMany.mockResolvedValue([buildRuleRow({ ruleType: 'citation_rate_below' })]);
+      mockCitationObservationService.countAnswers.mockResolvedValue(0);
+      mockCitationObservationService.getBrandSummaries.mockResolvedValue([]);
+
+      // Act
+      const result = await service.evaluateCitationRules(now);
+
+      // Assert
+      expect(result.evaluatedRules).toBe(0);
+      expect(mockPrismaService.alert.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('snoozeAlert', () => {
+    it('should snooze open alerts for the given minutes', async () => {
+      // Arrange
+      jest.useFakeTimers({ now });
+      mockPrismaService.alert.findUnique.mockResolvedValue(buildAlertRow());
+
+      // Act
+      await service.snoozeAlert('alert-1', 90);
+      jest.useRealTimers();
+
+      // Assert
+      expect(mockPrismaService.alert.update).toHaveBeenCalledWith({
+        where: { id: 'alert-1' },
+        data: { snoozedUntil: new Date('2025-03-10T09:30:00.000Z') },
+      });
+    });
+
+    it('should clear the snooze when minutes is 0 and reject invalid durations', async () => {
+      // Arrange
+      mockPrismaService.alert.findUnique.mockResolvedValue(buildAlertRow());
+
+      // Act
+      await service.snoozeAlert('alert-1', 0);
+
+      // Assert
+      expect(mockPrismaService.alert.update).toHaveBeenCalledWith({ where: { id: 'alert-1' }, data: { snoozedUntil: null } });
+      await expect(service.snoozeAlert('alert-1', -5)).rejects.toThrow('暂停时长必须是非负整数（分钟）');
+      await expect(service.snoozeAlert('alert-1', 1.5)).rejects.toThrow('暂停时长必须是非负整数（分钟）');
+    });
+
+    it('should reject snoozing resolved alerts', async () => {
+      // Arrange
+      mockPrismaService.alert.findUnique.mockResolvedValue(buildAlertRow({ status: 'resolved' }));
+
+      // Act & Assert
+      await expect(service.snoozeAlert('alert-1', 30)).rejects.toThrow('告警已关闭，无法暂停');
+    });
+  });
+});
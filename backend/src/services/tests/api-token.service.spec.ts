@@ -0,0 +1,242 @@
+/**
+ * API 令牌服务单元测试
+ *
+ * @description 测试 ApiTokenService 的权限范围校验、按所有者限定的列表和撤销，以及令牌认证
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { ApiTokenService, isApiToken } from '../api-token.service';
+import { PrismaService } from '../../common/prisma.service';
+import { PERMISSIONS } from '../../common/permissions';
+import { RbacService, UserAccess } from '../rbac.service';
+import { AuditLogService } from '../audit-log.service';
+
+describe('ApiTokenService', () => {
+  let service: ApiTokenService;
+
+  const actor = { id: 'user-1', email: 'editor@example.com' };
+
+  const mockPrismaService = {
+    apiToken: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+
+  const mockRbacService = {
+    getUserAccess: jest.fn(),
+  };
+
+  const mockAuditLogService = {
+    record: jest.fn(),
+  };
+
+  const buildAccess = (permissions: string[]): UserAccess => ({
+    userId: actor.id,
+    roleId: 'role-editor',
+    roleName: 'editor',
+    permissions: permissions as UserAccess['permissions'],
+    isActive: true,
+  });
+
+  const buildRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'token-1',
+    name: 'BI export',
+    type: 'personal',
+    tokenPrefix: 'geo_pat_abcd',
+    tokenHash: 'hash',
+    permissions: [PERMISSIONS.KEYWORD_READ],
+    userId: actor.id,
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    revokedAt: null,
+    lastUsedAt: null,
+    lastUsedIp: null,
+    createdAt: new Date('2025-03-01T00:00:00.000Z'),
+    user: {
+      id: actor.id,
+      email: actor.email,
+      username: 'editor',
+      isActive: true,
+      createdAt: new Date('2025-03-01T00:00:00.000Z'),
+      role: { name: 'editor' },
+    },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiTokenService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+        {
+          provide: RbacService,
+          useValue: mockRbacService,
+        },
+        {
+          provide: AuditLogService,
+          useValue: mockAuditLogService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ApiTokenService>(ApiTokenService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockConfigService.get.mockImplementation((_key: string, defaultValue?: string) => defaultValue);
+    mockRbacService.getUserAccess.mockResolvedValue(buildAccess([PERMISSIONS.KEYWORD_READ, PERMISSIONS.KEYWORD_WRITE]));
+    mockPrismaService.apiToken.create.mockImplementation(({ data }) => Promise.resolve(buildRow(data)));
+    mockPrismaService.apiToken.findMany.mockResolvedValue([]);
+  });
+
+  describe('create', () => {
+    it('should store only the hash of a personal token scoped to owned permissions', async () => {
+      // Act
+      const { token, apiToken } = await service.create(actor, {
+        name: ' BI export ',
+        permissions: [PERMISSIONS.KEYWORD_READ, PERMISSIONS.KEYWORD_READ],
+      });
+
+      // Assert
+      expect(isApiToken(token)).toBe(true);
+      const { data } = mockPrismaService.apiToken.create.mock.calls[0][0];
+      expect(data).toMatchObject({
+        userId: actor.id,
+        name: 'BI export',
+        type: 'personal',
+        tokenPrefix: token.slice(0, 12),
+        tokenHash: createHash('sha256').update(token).digest('hex'),
+        permissions: [PERMISSIONS.KEYWORD_READ],
+      });
+      expect(JSON.stringify(data)).not.toContain(token);
+      expect(apiToken.permissions).toEqual([PERMISSIONS.KEYWORD_READ]);
+      expect(mockAuditLogService.record.mock.calls[0][0][0]).toMatchObject({
+        operationName: 'createApiToken',
+        resourceType: 'api_token',
+        after: expect.not.objectContaining({ tokenHash: expect.anything() }),
+      });
+    });
+
+    it('should reject permissions the owner does not have and service tokens without api_token:manage', async () => {
+      // Act & Assert
+      await expect(service.create(actor, { name: 'Escalate', permissions: [PERMISSIONS.ROLE_MANAGE] }))
+        .rejects.toThrow('不能授予自己没有的权限: role:manage');
+      await expect(service.create(actor, { name: 'Pipeline', type: 'service', permissions: [PERMISSIONS.KEYWORD_READ] }))
+        .rejects.toThrow('创建服务令牌需要 api_token:manage 权限');
+      await expect(service.create(actor, { name: 'Unknown', permissions: ['content:approve'] }))
+        .rejects.toThrow('未知权限: content:approve');
+      await expect(service.create(actor, { name: 'Forever', permissions: [PERMISSIONS.KEYWORD_READ], expiresInDays: 366 }))
+        .rejects.toThrow('有效期必须在 1-365 天之间');
+      expect(mockPrismaService.apiToken.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('list', () => {
+    it('should only return own tokens without api_token:manage', async () => {
+      // Act
+      await service.list(actor, { userId: 'user-2' });
+
+      // Assert
+      expect(mockPrismaService.apiToken.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId: actor.id, revokedAt: null },
+      }));
+    });
+
+    it('should let token managers list any user or all tokens', async () => {
+      // Arrange
+      mockRbacService.getUserAccess.mockResolvedValue(buildAccess([PERMISSIONS.API_TOKEN_MANAGE]));
+
+      // Act
+      await service.list(actor, { userId: 'user-2', includeRevoked: true });
+      await service.list(actor);
+
+      // Assert
+      expect(mockPrismaService.apiToken.findMany.mock.calls[0][0].where).toEqual({ userId: 'user-2' });
+      expect(mockPrismaService.apiToken.findMany.mock.calls[1][0].where).toEqual({ revokedAt: null });
+    });
+  });
+
+  describe('revoke', () => {
+    it('should reject revoking tokens of other users without api_token:manage', async () => {
+      // Arrange
+      mockPrismaService.apiToken.findUnique.mockResolvedValue(buildRow({ userId: 'user-2' }));
+
+      // Act & Assert
+      await expect(service.revoke(actor, 'token-1')).rejects.toThrow('撤销其他用户的令牌需要 api_token:manage 权限');
+      expect(mockPrismaService.apiToken.update).not.toHaveBeenCalled();
+    });
+
+    it('should revoke own tokens and ignore already revoked ones', async () => {
+      // Arrange
+      mockPrismaService.apiToken.findUnique
+        .mockResolvedValueOnce(buildRow())
+        .mockResolvedValueOnce(buildRow({ revokedAt: new Date() }));
+      mockPrismaService.apiToken.update.mockResolvedValue(buildRow({ revokedAt: new Date() }));
+
+      // Act & Assert
+      await expect(service.revoke(actor, 'token-1')).resolves.toBe(true);
+      await expect(service.revoke(actor, 'token-1')).resolves.toBe(false);
+      expect(mockPrismaService.apiToken.update).toHaveBeenCalledTimes(1);
+      expect(mockAuditLogService.record.mock.calls[0][0][0]).toMatchObject({ operationName: 'revokeApiToken' });
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should return the owner with the token permissions and drop unknown ones', async () => {
+      // Arrange
+      mockPrismaService.apiToken.findUnique.mockResolvedValue(buildRow({
+        permissions: [PERMISSIONS.KEYWORD_READ, 'content:approve'],
+      }));
+
+      // Act
+      const principal = await service.authenticate('geo_pat_secret', { ip: '10.0.0.1' });
+
+      // Assert
+      expect(mockPrismaService.apiToken.findUnique.mock.calls[0][0].where).toEqual({
+        tokenHash: createHash('sha256').update('geo_pat_secret').digest('hex'),
+      });
+      expect(principal).toMatchObject({
+        id: actor.id,
+        role: 'editor',
+        apiTokenId: 'token-1',
+        apiTokenPermissions: [PERMISSIONS.KEYWORD_READ],
+      });
+      expect(mockPrismaService.apiToken.update).toHaveBeenCalledWith({
+        where: { id: 'token-1' },
+        data: { lastUsedAt: expect.any(Date), lastUsedIp: '10.0.0.1' },
+      });
+    });
+
+    it('should reject revoked, expired and disabled-owner tokens', async () => {
+      // Arrange
+      mockPrismaService.apiToken.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(buildRow({ revokedAt: new Date() }))
+        .mockResolvedValueOnce(buildRow({ expiresAt: new Date(Date.now() - 1000) }))
+        .mockResolvedValueOnce(buildRow({ user: { ...buildRow().user, isActive: false } }));
+
+      // Act & Assert
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await expect(service.authenticate('geo_pat_secret')).resolves.toBeNull();
+      }
+      expect(mockPrismaService.apiToken.update).not.toHaveBeenCalled();
+    });
+  });
+});
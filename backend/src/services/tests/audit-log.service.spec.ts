@@ -0,0 +1,252 @@
+/**
+ * 审计日志服务单元测试
+ *
+ * @description 测试 AuditLogService 的字段级差异、快照读取、批量写入、查询过滤和保留期清理
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { AuditLogService, AuditRecordInput } from '../audit-log.service';
+import { PrismaService } from '../../common/prisma.service';
+
+describe('AuditLogService', () => {
+  let service: AuditLogService;
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    $executeRaw: jest.fn(),
+    keyword: {
+      findMany: jest.fn(),
+    },
+    contentItem: {
+      findMany: jest.fn(),
+    },
+    auditLog: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+
+  const buildInput = (overrides: Partial<AuditRecordInput> = {}): AuditRecordInput => ({
+    operationType: 'UPDATE',
+    operationName: 'updateKeyword',
+    resourceType: 'keyword',
+    resourceId: 'keyword-1',
+    correlationId: 'corr-1',
+    success: true,
+    durationMs: 12,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditLogService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditLogService>(AuditLogService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockConfigService.get.mockImplementation((_key: string, defaultValue?: string) => defaultValue);
+    mockPrismaService.$transaction.mockImplementation(callback => callback(mockPrismaService));
+  });
+
+  describe('diff', () => {
+    it('should report changed fields and ignore updatedAt', () => {
+      // Act
+      const changes = service.diff(
+        { text: 'security camera', searchVolume: 100, difficulty: new Prisma.Decimal('12.5'), updatedAt: new Date(1) },
+        { text: 'security camera', searchVolume: 200, difficulty: new Prisma.Decimal('12.5'), updatedAt: new Date(2) },
+      );
+
+      // Assert
+      expect(changes).toEqual([{ field: 'searchVolume', before: 100, after: 200 }]);
+    });
+
+    it('should diff against null on create and delete and normalize values', () => {
+      // Act
+      const created = service.diff(null, {
+        publishedAt: new Date('2025-03-01T00:00:00.000Z'),
+        cpc: new Prisma.Decimal('1.25'),
+        notes: undefined,
+      });
+      const deleted = service.diff({ text: 'doorbell' }, null);
+
+      // Assert
+      expect(created).toEqual([
+        { field: 'publishedAt', before: null, after: '2025-03-01T00:00:00.000Z' },
+        { field: 'cpc', before: null, after: 1.25 },
+      ]);
+      expect(deleted).toEqual([{ field: 'text', before: 'doorbell', after: null }]);
+      expect(service.diff(null, null)).toEqual([]);
+    });
+
+    it('should truncate long values and compare structured values by content', () => {
+      // Act
+      const changes = service.diff(
+        { body: 'a'.repeat(1500), tags: ['camera'] },
+        { body: 'b'.repeat(1500), tags: ['camera'] },
+      );
+
+      // Assert
+      expect(changes).toHaveLength(1);
+      expect(changes[0]!.after).toBe(`${'b'.repeat(1000)}…`);
+    });
+  });
+
+  describe('snapshot', () => {
+    it('should read keyword or content rows by id and skip unsupported types', async () => {
+      // Arrange
+      mockPrismaService.contentItem.findMany.mockResolvedValue([{ id: 'content-1', title: 'Guide' }]);
+
+      // Act
+      const content = await service.snapshot('content_item', ['content-1']);
+      const clusters = await service.snapshot('keyword_cluster', ['cluster-1']);
+
+      // Assert
+      expect(content.get('content-1')).toEqual({ id: 'content-1', title: 'Guide' });
+      expect(clusters.size).toBe(0);
+      expect(mockPrismaService.keyword.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('record', () => {
+    it('should persist diffs instead of full snapshots', async () => {
+      // Arrange
+      mockPrismaService.auditLog.createMany.mockResolvedValue({ count: 2 });
+
+      // Act
+      const count = await service.record([
+        buildInput({ before: { status: 'proposed' }, after: { status: 'approved' }, inputData: { id: 'keyword-1' } }),
+        buildInput({ resourceId: 'keyword-2', success: false, error: '关键词不存在' }),
+      ]);
+
+      // Assert
+      expect(count).toBe(2);
+      const { data } = mockPrismaService.auditLog.createMany.mock.calls[0][0];
+      expect(data[0]).toMatchObject({
+        resourceId: 'keyword-1',
+        inputData: { id: 'keyword-1' },
+        changes: [{ field: 'status', before: 'proposed', after: 'approved' }],
+      });
+      expect(data[0]).not.toHaveProperty('before');
+      expect(data[0]).not.toHaveProperty('after');
+      expect(data[1]).toMatchObject({ inputData: Prisma.JsonNull, changes: [], error: '关键词不存在' });
+    });
+
+    it('should swallow write failures', async () => {
+      // Arrange
+      mockPrismaService.auditLog.createMany.mockRejectedValue(new Error('connection lost'));
+
+      // Act & Assert
+      await expect(service.record([buildInput()])).resolves.toBe(0);
+      await expect(service.record([])).resolves.toBe(0);
+      expect(mockPrismaService.auditLog.createMany).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('query', () => {
+    it('should filter by resource, user and time range and clamp the page size', async () => {
+      // Arrange
+      const from = new Date('2025-03-01T00:00:00.000Z');
+      const to = new Date('2025-04-01T00:00:00.000Z');
+      mockPrismaService.auditLog.findMany.mockResolvedValue([{
+        id: 'log-1',
+        occurredAt: from,
+        operationType: 'UPDATE',
+        operationName: 'updateKeyword',
+        resourceType: 'keyword',
+        resourceId: 'keyword-1',
+        userId: null,
+        userEmail: null,
+        correlationId: 'corr-1',
+        success: true,
+        error: null,
+        inputData: null,
+        changes: [{ field: 'status', before: 'proposed', after: 'approved' }],
+        durationMs: 12,
+        clientIp: null,
+        userAgent: null,
+        apiTokenId: 'token-1',
+      }]);
+      mockPrismaService.auditLog.count.mockResolvedValue(1);
+
+      // Act
+      const page = await service.query({ resourceId: 'keyword-1', userId: 'user-1', from, to, limit: 1000 });
+
+      // Assert
+      expect(mockPrismaService.auditLog.findMany).toHaveBeenCalledWith({
+        where: { resourceId: 'keyword-1', userId: 'user-1', occurredAt: { gte: from, lt: to } },
+        orderBy: { occurredAt: 'desc' },
+        take: 200,
+        skip: 0,
+      });
+      expect(page.total).toBe(1);
+      expect(page.entries[0]).not.toHaveProperty('userId');
+      expect(page.entries[0]).not.toHaveProperty('inputData');
+      expect(page.entries[0]).toMatchObject({ apiTokenId: 'token-1', changes: [{ field: 'status' }] });
+    });
+
+    it('should reject an inverted time range', async () => {
+      // Act & Assert
+      await expect(service.query({ from: new Date(2), to: new Date(1) })).rejects.toThrow('开始时间必须早于结束时间');
+    });
+  });
+
+  describe('purgeExpired', () => {
+    const now = new Date('2025-06-01T00:00:00.000Z');
+
+    it('should delete records older than the retention window inside the retention transaction', async () => {
+      // Arrange
+      mockConfigService.get.mockReturnValue('30');
+      mockPrismaService.auditLog.deleteMany.mockResolvedValue({ count: 7 });
+
+      // Act
+      const count = await service.purgeExpired(now);
+
+      // Assert
+      expect(count).toBe(7);
+      expect(mockPrismaService.$executeRaw).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.auditLog.deleteMany).toHaveBeenCalledWith({
+        where: { occurredAt: { lt: new Date('2025-05-02T00:00:00.000Z') } },
+      });
+    });
+
+    it('should default to 365 days and keep everything when retention is 0', async () => {
+      // Arrange
+      mockPrismaService.auditLog.deleteMany.mockResolvedValue({ count: 0 });
+
+      // Act
+      await service.purgeExpired(now);
+      mockConfigService.get.mockReturnValue('0');
+      const kept = await service.purgeExpired(now);
+
+      // Assert
+      expect(service.getRetentionDays()).toBe(0);
+      expect(kept).toBe(0);
+      expect(mockPrismaService.auditLog.deleteMany).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.auditLog.deleteMany).toHaveBeenCalledWith({
+        where: { occurredAt: { lt: new Date('2024-06-01T00:00:00.000Z') } },
+      });
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * AI 引用观测服务单元测试
+ *
+ * @description 测试 CitationObservationService 的观测写入、引用趋势和声量份额计算
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { CitationObservationService } from '../citation-observation.service';
+import { CitationExtraction } from '../answer-engines';
+import { PrismaService } from '@/common/prisma.service';
+
+describe('CitationObservationService', () => {
+  let service: CitationObservationService;
+
+  const from = new Date('2025-03-01T00:00:00.000Z');
+  const to = new Date('2025-03-15T00:00:00.000Z');
+  const observedAt = new Date('2025-03-02T10:00:00.000Z');
+
+  const mockPrismaService = {
+    $queryRaw: jest.fn(),
+    keyword: {
+      findFirst: jest.fn(),
+    },
+    citationObservation: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CitationObservationService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CitationObservationService>(CitationObservationService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockPrismaService.citationObservation.createMany.mockImplementation(async ({ data }) => ({ count: data.length }));
+  });
+
+  describe('recordAnswer', () => {
+    const extraction: CitationExtraction = {
+      citedUrls: [
+        { rank: 1, url: 'https://www.arlo.com/pro-5s', domain: 'arlo.com', brand: 'Arlo' },
+        { rank: 2, url: 'https://www.eufy.com/solocam', domain: 'eufy.com', brand: 'Eufy' },
+        { rank: 3, url: 'https://www.techradar.com/best', domain: 'techradar.com', brand: null },
+      ],
+      ownCitation: { brand: 'Eufy', rank: 2, url: 'https://www.eufy.com/solocam', domain: 'eufy.com', snippet: 'eufy stores video locally' },
+      competitorCitations: [
+        { brand: 'Arlo', rank: 1, url: 'https://www.arlo.com/pro-5s', domain: 'arlo.com', snippet: 'Arlo relies on a subscription' },
+      ],
+      mentionedBrands: [],
+    };
+
+    it('should write one row per cited URL sharing the same answer id', async () => {
+      // Arrange
+      mockPrismaService.keyword.findFirst.mockResolvedValue({ id: 'keyword-1', productLine: 'security' });
+
+      // Act
+      const count = await service.recordAnswer({ platform: 'chatgpt', query: 'best security camera', extraction, observedAt });
+
+      // Assert
+      expect(count).toBe(3);
+      const [{ data }] = mockPrismaService.citationObservation.createMany.mock.calls[0];
+      expect(new Set(data.map((row: { answerId: string }) => row.answerId)).size).toBe(1);
+      expect(data).toEqual([
+        expect.objectContaining({ brand: 'Arlo', rank: 1, snippet: 'Arlo relies on a subscription', sourceCount: 3 }),
+        expect.objectContaining({ brand: 'Eufy', rank: 2, snippet: 'eufy stores video locally', keywordId: 'keyword-1' }),
+        expect.objectContaining({ brand: null, rank: 3, snippet: null, productLine: 'security', observedAt }),
+      ]);
+      expect(mockPrismaService.keyword.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { text: { equals: 'best security camera', mode: 'insensitive' } } })
+      );
+    });
+
+    it('should record answers without sources so they count towards the citation rate', async () => {
+      // Arrange
+      mockPrismaService.keyword.findFirst.mockResolvedValue(null);
+
+      // Act
+      const count = await service.recordAnswer({
+        platform: 'gemini',
+        query: 'doorbell camera offline fix',
+        extraction: { citedUrls: [], ownCitation: null, competitorCitations: [], mentionedBrands: [] },
+        observedAt,
+        productLine: 'doorbell',
+      });
+
+      // Assert
+      expect(count).toBe(1);
+      const [{ data }] = mockPrismaService.citationObservation.createMany.mock.calls[0];
+      expect(data[0]).toMatchObject({ platform: 'gemini', sourceCount: 0, productLine: 'doorbell' });
+      expect(data[0]).not.toHaveProperty('brand');
+    });
+
+    it('should fall back to the query product line when keyword lookup fails', async () => {
+      // Arrange
+      mockPrismaService.keyword.findFirst.mockRejectedValue(new Error('connection reset'));
+
+      // Act
+      await service.recordAnswer({ platform: 'claude', query: 'q', extraction, observedAt, productLine: 'camera' });
+
+      // Assert
+      const [{ data }] = mockPrismaService.citationObservation.createMany.mock.calls[0];
+      expect(data[0]).toMatchObject({ keywordId: null, productLine: 'camera' });
+    });
+  });
+
+  describe('getCitationTrend', () => {
+    it('should format periods as dates', async () => {
+      // Arrange
+      mockPrismaService.$queryRaw.mockResolvedValue([
+        { period: new Date('2025-03-02T00:00:00.000Z'), platform: 'chatgpt', citations: 4 },
+        { period: new Date('2025-03-03T00:00:00.000Z'), platform: 'gemini', citations: 1 },
+      ]);
+
+      // Act
+      const trend = await service.getCitationTrend('Eufy', from, to, 'day');
+
+      // Assert
+      expect(trend).toEqual([
+        { period: '2025-03-02', platform: 'chatgpt', citations: 4 },
+        { period: '2025-03-03', platform: 'gemini', citations: 1 },
+      ]);
+    });
+  });
+
+  describe('getShareOfVoice', () => {
+    it('should compute each brand share within its period and group', async () => {
+      // Arrange
+      const week1 = new Date('2025-03-03T00:00:00.000Z');
+      const week2 = new Date('2025-03-10T00:00:00.000Z');
+      mockPrismaService.$queryRaw.mockResolvedValue([
+        { period: week1, group: 'chatgpt', brand: 'Eufy', citations: 3 },
+        { period: week1, group: 'chatgpt', brand: 'Ring', citations: 1 },
+        { period: week1, group: 'gemini', brand: 'Arlo', citations: 2 },
+        { period: week2, group: 'chatgpt', brand: 'Eufy', citations: 1 },
+        { period: week2, group: 'chatgpt', brand: 'Ring', citations: 2 },
+      ]);
+
+      // Act
+      const points = await service.getShareOfVoice(from, to, 'week', 'platform');
+
+      // Assert
+      expect(points.map(point => [point.period, point.group, point.brand, point.share])).toEqual([
+        ['2025-03-03', 'chatgpt', 'Eufy', 0.75],
+        ['2025-03-03', 'chatgpt', 'Ring', 0.25],
+        ['2025-03-03', 'gemini', 'Arlo', 1],
+        ['2025-03-10', 'chatgpt', 'Eufy', 0.3333],
+        ['2025-03-10', 'chatgpt', 'Ring', 0.6667],
+      ]);
+    });
+
+    it('should reject unknown dimensions before querying', async () => {
+      await expect(service.getShareOfVoice(from, to, 'week', 'country' as never)).rejects.toThrow('不支持的分组维度');
+      await expect(service.getShareOfVoice(from, to, 'month' as never, 'overall')).rejects.toThrow('不支持的统计粒度');
+      expect(mockPrismaService.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBrandSummaries', () => {
+    it('should attach the top queries of each brand', async () => {
+      // Arrange
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([
+          { brand: 'Eufy', citations: 5, citedAnswers: 4 },
+          { brand: 'Ring', citations: 2, citedAnswers: 2 },
+        ])
+        .mockResolvedValueOnce([
+          { brand: 'Eufy', query: 'best security camera' },
+          { brand: 'Eufy', query: 'eufy vs ring' },
+          { brand: 'Ring', query: 'eufy vs ring' },
+        ]);
+
+      // Act
+      const summaries = await service.getBrandSummaries(from, to);
+
+      // Assert
+      expect(summaries).toEqual([
+        { brand: 'Eufy', citations: 5, citedAnswers: 4, topQueries: ['best security camera', 'eufy vs ring'] },
+        { brand: 'Ring', citations: 2, citedAnswers: 2, topQueries: ['eufy vs ring'] },
+      ]);
+    });
+  });
+});
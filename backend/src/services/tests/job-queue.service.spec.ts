@@ -0,0 +1,251 @@
+/**
+ * 后台任务队列服务单元测试
+ *
+ * @description 测试 JobQueueService 的执行记录、失败重试、死信队列和死信重试
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JobQueueService } from '../job-queue.service';
+import { PrismaService } from '@/common/prisma.service';
+
+interface MockQueue {
+  name: string;
+  process: jest.Mock;
+  on: jest.Mock;
+  add: jest.Mock;
+  getJob: jest.Mock;
+  getRepeatableJobs: jest.Mock;
+  removeRepeatableByKey: jest.Mock;
+  close: jest.Mock;
+}
+
+const mockQueues: MockQueue[] = [];
+
+jest.mock('bull', () =>
+  jest.fn().mockImplementation((name: string) => {
+    const queue: MockQueue = {
+      name,
+      process: jest.fn(),
+      on: jest.fn(),
+      add: jest.fn(),
+      getJob: jest.fn(),
+      getRepeatableJobs: jest.fn().mockResolvedValue([]),
+      removeRepeatableByKey: jest.fn(),
+      close: jest.fn(),
+    };
+    mockQueues.push(queue);
+    return queue;
+  }),
+);
+
+describe('JobQueueService', () => {
+  let service: JobQueueService;
+  let queue: MockQueue;
+  let deadLetterQueue: MockQueue;
+
+  const handler = jest.fn();
+
+  const mockConfigService = {
+    get: jest.fn((key: string) => (key === 'REDIS_URL' ? 'redis://localhost:6379' : undefined)),
+  };
+
+  const mockPrismaService = {
+    jobRun: {
+      upsert: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+
+  const buildRunRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'run-1',
+    queue: 'geo-jobs',
+    jobName: 'sync-metrics',
+    jobId: '1',
+    status: 'queued',
+    attempts: 0,
+    maxAttempts: 3,
+    payload: { keywordIds: ['keyword-1'] },
+    result: null,
+    error: null,
+    scheduled: false,
+    queuedAt: new Date('2025-03-01T00:00:00.000Z'),
+    startedAt: null,
+    finishedAt: null,
+    durationMs: null,
+    retriedAt: null,
+    retriedRunId: null,
+    ...overrides,
+  });
+
+  const buildJob = (attemptsMade: number) => ({
+    id: 7,
+    name: 'sync-metrics',
+    data: { keywordIds: ['keyword-1'] },
+    attemptsMade,
+    opts: { attempts: 3 },
+    timestamp: new Date('2025-03-01T00:00:00.000Z').getTime(),
+    progress: jest.fn(),
+  });
+
+  const getProcessor = () => queue.process.mock.calls[0][2] as (job: unknown) => Promise<unknown>;
+  const getFailedListener = () =>
+    queue.on.mock.calls.find(([event]) => event === 'failed')![1] as (job: unknown, error: Error) => void;
+
+  beforeEach(async () => {
+    mockQueues.length = 0;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobQueueService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<JobQueueService>(JobQueueService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    service.register({ name: 'sync-metrics', handler, attempts: 3 });
+    await service.onApplicationBootstrap();
+    [queue, deadLetterQueue] = mockQueues as [MockQueue, MockQueue];
+  });
+
+  describe('runJob', () => {
+    it('should record completed runs with their result', async () => {
+      // Arrange
+      handler.mockResolvedValue({ updated: 4 });
+
+      // Act
+      const result = await getProcessor()(buildJob(0));
+
+      // Assert
+      expect(result).toEqual({ updated: 4 });
+      expect(mockPrismaService.jobRun.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: expect.objectContaining({ status: 'running', attempts: 1 }),
+      }));
+      expect(mockPrismaService.jobRun.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'completed', result: { updated: 4 } }),
+      }));
+    });
+
+    it('should mark the run as retrying while attempts remain and failed on the last attempt', async () => {
+      // Arrange
+      handler.mockRejectedValue(new Error('upstream timeout'));
+
+      // Act
+      await expect(getProcessor()(buildJob(0))).rejects.toThrow('upstream timeout');
+      await expect(getProcessor()(buildJob(2))).rejects.toThrow('upstream timeout');
+
+      // Assert
+      const statuses = mockPrismaService.jobRun.update.mock.calls.map(([args]) => args.data.status);
+      expect(statuses).toEqual(['retrying', 'failed']);
+    });
+  });
+
+  describe('handleFailed', () => {
+    it('should not dead-letter jobs that will be retried', async () => {
+      // Act
+      getFailedListener()(buildJob(1), new Error('upstream timeout'));
+      await new Promise(resolve => setImmediate(resolve));
+
+      // Assert
+      expect(mockPrismaService.jobRun.upsert).not.toHaveBeenCalled();
+      expect(deadLetterQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should move exhausted jobs to the dead letter queue keyed by run id', async () => {
+      // Arrange
+      mockPrismaService.jobRun.upsert.mockResolvedValue(buildRunRow({ status: 'dead_letter' }));
+
+      // Act
+      getFailedListener()(buildJob(3), new Error('upstream timeout'));
+      await new Promise(resolve => setImmediate(resolve));
+
+      // Assert
+      expect(mockPrismaService.jobRun.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: { status: 'dead_letter', error: 'upstream timeout' },
+      }));
+      expect(deadLetterQueue.add).toHaveBeenCalledWith(
+        'sync-metrics',
+        expect.objectContaining({ runId: 'run-1', error: 'upstream timeout' }),
+        expect.objectContaining({ jobId: 'run-1' }),
+      );
+    });
+  });
+
+  describe('retryDeadLetter', () => {
+    it('should enqueue a new run and link it from the dead letter run', async () => {
+      // Arrange
+      const deadLetterJob = { remove: jest.fn() };
+      mockPrismaService.jobRun.findUnique.mockResolvedValue(buildRunRow({ status: 'dead_letter' }));
+      mockPrismaService.jobRun.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.jobRun.upsert.mockResolvedValue(buildRunRow({ id: 'run-2', jobId: '8' }));
+      queue.add.mockResolvedValue({ id: 8 });
+      deadLetterQueue.getJob.mockResolvedValue(deadLetterJob);
+
+      // Act
+      const retried = await service.retryDeadLetter('run-1');
+
+      // Assert
+      expect(retried.id).toBe('run-2');
+      expect(queue.add).toHaveBeenCalledWith('sync-metrics', { keywordIds: ['keyword-1'] }, expect.any(Object));
+      expect(mockPrismaService.jobRun.updateMany).toHaveBeenCalledWith({
+        where: { id: 'run-1', status: 'dead_letter', retriedAt: null },
+        data: { retriedAt: expect.any(Date) },
+      });
+      expect(mockPrismaService.jobRun.update).toHaveBeenCalledWith({
+        where: { id: 'run-1' },
+        data: { retriedRunId: 'run-2' },
+      });
+      expect(deadLetterJob.remove).toHaveBeenCalled();
+    });
+
+    it('should reject a second retry of the same dead letter run', async () => {
+      // Arrange
+      mockPrismaService.jobRun.findUnique.mockResolvedValue(
+        buildRunRow({ status: 'dead_letter', retriedAt: new Date(), retriedRunId: 'run-2' }),
+      );
+      mockPrismaService.jobRun.updateMany.mockResolvedValue({ count: 0 });
+
+      // Act & Assert
+      await expect(service.retryDeadLetter('run-1')).rejects.toThrow('死信任务已重试过: run-1');
+      expect(queue.add).not.toHaveBeenCalled();
+    });
+
+    it('should reject runs that are not dead-lettered', async () => {
+      // Arrange
+      mockPrismaService.jobRun.findUnique.mockResolvedValue(buildRunRow({ status: 'completed' }));
+
+      // Act & Assert
+      await expect(service.retryDeadLetter('run-1')).rejects.toThrow('只能重试死信任务，当前状态: completed');
+      expect(mockPrismaService.jobRun.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should release the retry mark when enqueueing fails', async () => {
+      // Arrange
+      mockPrismaService.jobRun.findUnique.mockResolvedValue(buildRunRow({ status: 'dead_letter' }));
+      mockPrismaService.jobRun.updateMany.mockResolvedValue({ count: 1 });
+      queue.add.mockRejectedValue(new Error('redis unavailable'));
+
+      // Act & Assert
+      await expect(service.retryDeadLetter('run-1')).rejects.toThrow('redis unavailable');
+      expect(mockPrismaService.jobRun.update).toHaveBeenCalledWith({
+        where: { id: 'run-1' },
+        data: { retriedAt: null },
+      });
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * 关键词分级与优先级模型单元测试
+ *
+ * @description 测试共享优先级模型的规范化和排序，以及 KeywordGradingService 按搜索量映射到 P0-P4
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import {
+  PRIORITY_TIERS,
+  PriorityTier,
+  comparePriorityTiers,
+  normalizePriorityTier,
+  priorityTierFromSearchVolume,
+} from '@geo-platform/shared';
+import { KeywordGradingService } from '../keyword-grading.service';
+
+describe('priority tier model', () => {
+  it('should define exactly P0-P4 in priority order', () => {
+    expect(PRIORITY_TIERS).toEqual(['P0', 'P1', 'P2', 'P3', 'P4']);
+    expect(['P3', 'P0', 'P4', 'P1'].sort((a, b) => comparePriorityTiers(a as PriorityTier, b as PriorityTier)))
+      .toEqual(['P0', 'P1', 'P3', 'P4']);
+  });
+
+  it('should normalize case and fold the legacy P5 tier into P4', () => {
+    expect(normalizePriorityTier('p1')).toBe(PriorityTier.P1);
+    expect(normalizePriorityTier(' P2 ')).toBe(PriorityTier.P2);
+    expect(normalizePriorityTier('P5')).toBe(PriorityTier.P4);
+    expect(normalizePriorityTier('p5')).toBe(PriorityTier.P4);
+  });
+
+  it('should return null for unknown or empty values', () => {
+    expect(normalizePriorityTier('P6')).toBeNull();
+    expect(normalizePriorityTier('high')).toBeNull();
+    expect(normalizePriorityTier('')).toBeNull();
+    expect(normalizePriorityTier(null)).toBeNull();
+    expect(normalizePriorityTier(undefined)).toBeNull();
+  });
+});
+
+describe('KeywordGradingService', () => {
+  it('should map search volume boundaries to tiers', () => {
+    expect(KeywordGradingService.calculatePriority(100000)).toBe(PriorityTier.P0);
+    expect(KeywordGradingService.calculatePriority(99999)).toBe(PriorityTier.P1);
+    expect(KeywordGradingService.calculatePriority(50000)).toBe(PriorityTier.P1);
+    expect(KeywordGradingService.calculatePriority(20000)).toBe(PriorityTier.P2);
+    expect(KeywordGradingService.calculatePriority(10000)).toBe(PriorityTier.P3);
+    expect(KeywordGradingService.calculatePriority(9999)).toBe(PriorityTier.P4);
+    expect(KeywordGradingService.calculatePriority(0)).toBe(PriorityTier.P4);
+  });
+
+  it('should agree with the shared search volume mapping', () => {
+    for (const volume of [0, 500, 10000, 19999, 20000, 49999, 50000, 100000, 2000000]) {
+      expect(KeywordGradingService.calculatePriority(volume)).toBe(priorityTierFromSearchVolume(volume));
+    }
+  });
+
+  it('should never produce a tier outside P0-P4', () => {
+    const { total, percentages, ...distribution } = KeywordGradingService.getPriorityDistribution(
+      [0, 5000, 15000, 30000, 60000, 150000].map(searchVolume => ({ searchVolume })),
+    );
+
+    expect(total).toBe(6);
+    expect(distribution).toEqual({ P0: 1, P1: 1, P2: 1, P3: 1, P4: 2 });
+    expect(Object.keys(percentages)).toEqual(['P0', 'P1', 'P2', 'P3', 'P4']);
+  });
+
+  it('should expose contiguous volume ranges per tier', () => {
+    const configuration = KeywordGradingService.getPriorityConfiguration();
+
+    expect(configuration.map(level => level.level)).toEqual(PRIORITY_TIERS);
+    expect(configuration[0]!.maxVolume).toBeUndefined();
+    for (let index = 1; index < configuration.length; index++) {
+      expect(configuration[index]!.maxVolume).toBe(configuration[index - 1]!.minVolume - 1);
+    }
+  });
+
+  it('should reject rule sets that do not cover exactly five tiers', () => {
+    const rules = KeywordGradingService.getPriorityConfiguration();
+
+    expect(() => KeywordGradingService.updatePriorityRules([...rules, { ...rules[4]!, minVolume: -1 }]))
+      .toThrow('必须提供5个优先级规则（P0-P4）');
+    expect(() => KeywordGradingService.updatePriorityRules([rules[1]!, rules[0]!, ...rules.slice(2)]))
+      .toThrow('优先级规则必须按搜索量降序排列');
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * 关键词 SERP 指标采集服务单元测试
+ *
+ * @description 测试 KeywordMetricIngestionService 的 SERP 字段映射、每日指标 upsert、AIO 状态和覆盖率计算
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { KeywordMetricIngestionService, SerpAnalysis } from '../keyword-metric-ingestion.service';
+import { GoogleApisService } from '../google-apis.service';
+import { AlertRulesService } from '../alert-rules.service';
+import { PrismaService } from '@/common/prisma.service';
+
+describe('KeywordMetricIngestionService', () => {
+  let service: KeywordMetricIngestionService;
+
+  const metricDate = new Date('2025-03-10T00:00:00.000Z');
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    keyword: {
+      findMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+    },
+    keywordMetric: {
+      upsert: jest.fn(),
+      count: jest.fn(),
+    },
+  };
+
+  const mockGoogleApisService = {
+    analyzeSerpFeatures: jest.fn(),
+  };
+
+  const mockAlertRulesService = {
+    evaluateKeywordRules: jest.fn(),
+  };
+
+  const buildAnalysis = (overrides: { aiOverview?: unknown; organic?: unknown[] } = {}): SerpAnalysis => ({
+    keyword: 'best security camera',
+    features: { has_featured_snippet: true, has_people_also_ask: false },
+    serp_data: {
+      organic_results: overrides.organic ?? [
+        { position: 1, link: 'https://www.arlo.com/pro-5s', domain: 'www.arlo.com' },
+        { position: 2, link: 'https://www.eufy.com/solocam', domain: 'www.eufy.com' },
+        { position: 5, link: 'https://us.eufylife.com/blog', domain: 'us.eufylife.com' },
+      ],
+      ai_overview: overrides.aiOverview ?? null,
+    },
+  });
+
+  const aiOverviewCitingEufy = {
+    text: 'eufy cameras store video locally.',
+    references: [
+      { position: 1, link: 'https://www.ring.com/plans', domain: 'ring.com' },
+      { position: 2, link: 'https://www.eufy.com/solocam', domain: 'eufy.com' },
+    ],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KeywordMetricIngestionService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: GoogleApisService,
+          useValue: mockGoogleApisService,
+        },
+        {
+          provide: AlertRulesService,
+          useValue: mockAlertRulesService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<KeywordMetricIngestionService>(KeywordMetricIngestionService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation(callback => callback(mockPrismaService));
+  });
+
+  describe('toMetricFields', () => {
+    it('should map own results, competitors and AIO citation position', () => {
+      // Act
+      const metric = service.toMetricFields(buildAnalysis({ aiOverview: aiOverviewCitingEufy }));
+
+      // Assert
+      expect(metric).toEqual({
+        googlePosition: 2,
+        googleFeaturedSnippet: true,
+        googlePeopleAlsoAsk: false,
+        aioDisplayed: true,
+        aioPosition: 2,
+        aioContentSnippet: 'eufy cameras store video locally.',
+        topCompetitors: [{ domain: 'arlo.com', url: 'https://www.arlo.com/pro-5s', position: 1 }],
+        ownResults: [
+          { url: 'https://www.eufy.com/solocam', position: 2 },
+          { url: 'https://us.eufylife.com/blog', position: 5 },
+        ],
+      });
+    });
+
+    it('should leave position empty when the keyword does not rank', () => {
+      // Act
+      const metric = service.toMetricFields(buildAnalysis({
+        organic: [{ position: 1, link: 'https://noteufy.com/review', domain: 'noteufy.com' }],
+      }));
+
+      // Assert
+      expect(metric.googlePosition).toBeNull();
+      expect(metric.aioDisplayed).toBe(false);
+      expect(metric.topCompetitors).toHaveLength(1);
+    });
+  });
+
+  describe('ingestSerpAnalysis', () => {
+    it('should upsert one metric row per keyword and day', async () => {
+      // Arrange
+      mockPrismaService.keyword.findUniqueOrThrow.mockResolvedValue({
+        aioStatus: 'not_displayed',
+        aioFirstSeenAt: null,
+        aioCoverageScore: new Prisma.Decimal(0),
+      });
+      mockPrismaService.keywordMetric.count.mockResolvedValueOnce(4).mockResolvedValueOnce(1);
+
+      // Act
+      await service.ingestSerpAnalysis('keyword-1', buildAnalysis({ aiOverview: aiOverviewCitingEufy }), metricDate);
+
+      // Assert
+      expect(mockPrismaService.keywordMetric.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { keywordId_metricDate: { keywordId: 'keyword-1', metricDate } },
+        create: expect.objectContaining({ keywordId: 'keyword-1', metricDate, googlePosition: 2, aioPosition: 2 }),
+        update: expect.objectContaining({ googlePosition: 2, aioPosition: 2 }),
+      }));
+    });
+
+    it('should mark first AIO appearance and compute 30-day coverage', async () => {
+      // Arrange
+      mockPrismaService.keyword.findUniqueOrThrow.mockResolvedValue({
+        aioStatus: 'not_displayed',
+        aioFirstSeenAt: null,
+        aioCoverageScore: new Prisma.Decimal(0),
+      });
+      mockPrismaService.keywordMetric.count.mockResolvedValueOnce(3).mockResolvedValueOnce(1);
+
+      // Act
+      const result = await service.ingestSerpAnalysis('keyword-1', buildAnalysis({ aiOverview: aiOverviewCitingEufy }), metricDate);
+
+      // Assert
+      expect(result).toMatchObject({ aioStatus: 'displayed', aioStatusChanged: true });
+      expect(mockPrismaService.keywordMetric.count).toHaveBeenCalledWith({
+        where: {
+          keywordId: 'keyword-1',
+          metricDate: { gte: new Date('2025-02-09T00:00:00.000Z'), lte: metricDate },
+        },
+      });
+      const [{ data }] = mockPrismaService.keyword.update.mock.calls[0];
+      expect(data.aioStatus).toBe('displayed');
+      expect(data.aioFirstSeenAt).toBe(metricDate);
+      expect(data.aioCoverageScore.toNumber()).toBe(33.33);
+    });
+
+    it('should mark keywords as competing when AIO shows without citing own domains', async () => {
+      // Arrange
+      mockPrismaService.keyword.findUniqueOrThrow.mockResolvedValue({
+        aioStatus: 'displayed',
+        aioFirstSeenAt: new Date('2025-03-01T00:00:00.000Z'),
+        aioCoverageScore: new Prisma.Decimal(50),
+      });
+      mockPrismaService.keywordMetric.count.mockResolvedValueOnce(2).mockResolvedValueOnce(1);
+
+      // Act
+      const result = await service.ingestSerpAnalysis('keyword-1', buildAnalysis({
+        aiOverview: { text: 'Ring and Arlo lead.', references: [{ position: 1, link: 'https://ring.com', domain: 'ring.com' }] },
+      }), metricDate);
+
+      // Assert
+      expect(result).toMatchObject({ aioStatus: 'competing', aioStatusChanged: true });
+      const [{ data }] = mockPrismaService.keyword.update.mock.calls[0];
+      expect(data).not.toHaveProperty('aioFirstSeenAt');
+    });
+
+    it('should skip the keyword update when nothing changed', async () => {
+      // Arrange
+      mockPrismaService.keyword.findUniqueOrThrow.mockResolvedValue({
+        aioStatus: 'not_displayed',
+        aioFirstSeenAt: null,
+        aioCoverageScore: new Prisma.Decimal(0),
+      });
+      mockPrismaService.keywordMetric.count.mockResolvedValueOnce(5).mockResolvedValueOnce(0);
+
+      // Act
+      const result = await service.ingestSerpAnalysis('keyword-1', buildAnalysis(), metricDate);
+
+      // Assert
+      expect(result.aioStatusChanged).toBe(false);
+      expect(mockPrismaService.keyword.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ingestKeywords', () => {
+    it('should continue after failures and evaluate alert rules for saved keywords', async () => {
+      // Arrange
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      mockPrismaService.keyword.findMany.mockResolvedValue([
+        { id: 'keyword-1', text: 'best security camera' },
+        { id: 'keyword-2', text: 'doorbell camera' },
+      ]);
+      mockGoogleApisService.analyzeSerpFeatures
+        .mockRejectedValueOnce(new Error('quota exceeded'))
+        .mockResolvedValueOnce(buildAnalysis());
+      mockPrismaService.keyword.findUniqueOrThrow.mockResolvedValue({
+        aioStatus: 'not_monitored',
+        aioFirstSeenAt: null,
+        aioCoverageScore: null,
+      });
+      mockPrismaService.keywordMetric.count.mockResolvedValue(1);
+
+      // Act
+      const pending = service.ingestKeywords(undefined, metricDate);
+      await jest.runAllTimersAsync();
+      const summary = await pending;
+      jest.useRealTimers();
+
+      // Assert
+      expect(summary).toMatchObject({
+        processed: 2,
+        saved: 1,
+        failed: 1,
+        aioStatusChanges: 1,
+        errors: ['best security camera: quota exceeded'],
+      });
+      expect(mockAlertRulesService.evaluateKeywordRules).toHaveBeenCalledWith(['keyword-2']);
+    });
+  });
+});
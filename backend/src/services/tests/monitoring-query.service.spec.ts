@@ -0,0 +1,208 @@
+/**
+ * 监测查询组服务单元测试
+ *
+ * @description 测试 MonitoringQueryService 的查询组展开、调度到期判断和配置校验
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { MonitoringQueryService, MonitoringQueryGroup } from '../monitoring-query.service';
+import { PrismaService } from '@/common/prisma.service';
+
+describe('MonitoringQueryService', () => {
+  let service: MonitoringQueryService;
+
+  const now = new Date('2025-03-10T12:00:00.000Z');
+
+  const mockPrismaService = {
+    keyword: {
+      findMany: jest.fn(),
+    },
+    monitoringQueryGroup: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  const buildGroupRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'group-1',
+    name: '核心查询',
+    description: null,
+    source: 'manual',
+    queries: ['best security camera'],
+    productLine: null,
+    keywordPriorityLevels: [],
+    keywordProductLines: [],
+    keywordAioStatuses: [],
+    schedule: 'daily',
+    platforms: [],
+    locale: 'en-US',
+    isActive: true,
+    lastRunAt: null,
+    createdBy: null,
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  const buildGroup = (overrides: Partial<MonitoringQueryGroup> = {}): MonitoringQueryGroup => ({
+    id: 'group-1',
+    name: '核心查询',
+    source: 'manual',
+    queries: [],
+    keywordPriorityLevels: [],
+    keywordProductLines: [],
+    keywordAioStatuses: [],
+    schedule: 'daily',
+    platforms: [],
+    locale: 'en-US',
+    isActive: true,
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MonitoringQueryService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MonitoringQueryService>(MonitoringQueryService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+  });
+
+  describe('resolveQueries', () => {
+    it('should dedupe manual queries case-insensitively and attach the product line', async () => {
+      // Arrange
+      const group = buildGroup({
+        queries: ['Best Security Camera', 'best security camera ', 'eufy vs ring', ''],
+        productLine: 'security',
+      });
+
+      // Act
+      const queries = await service.resolveQueries(group);
+
+      // Assert
+      expect(queries).toEqual([
+        { text: 'Best Security Camera', productLine: 'security' },
+        { text: 'eufy vs ring', productLine: 'security' },
+      ]);
+      expect(mockPrismaService.keyword.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should build keyword queries from the configured filters', async () => {
+      // Arrange
+      const group = buildGroup({
+        source: 'keywords',
+        keywordPriorityLevels: ['P0', 'P1'],
+        keywordAioStatuses: ['monitored'],
+      });
+      mockPrismaService.keyword.findMany.mockResolvedValue([
+        { id: 'keyword-1', text: 'doorbell camera', productLine: 'doorbell' },
+        { id: 'keyword-2', text: 'Doorbell Camera', productLine: null },
+        { id: 'keyword-3', text: 'solar camera', productLine: null },
+      ]);
+
+      // Act
+      const queries = await service.resolveQueries(group);
+
+      // Assert
+      expect(mockPrismaService.keyword.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          status: { not: 'retired' },
+          priorityLevel: { in: ['P0', 'P1'] },
+          aioStatus: { in: ['monitored'] },
+        },
+      }));
+      expect(queries).toEqual([
+        { text: 'doorbell camera', keywordId: 'keyword-1', productLine: 'doorbell' },
+        { text: 'solar camera', keywordId: 'keyword-3' },
+      ]);
+    });
+  });
+
+  describe('resolveGroups', () => {
+    it('should skip groups that are not due or run manually when dueOnly is set', async () => {
+      // Arrange
+      mockPrismaService.monitoringQueryGroup.findMany.mockResolvedValue([
+        buildGroupRow({ id: 'never-run', name: 'A' }),
+        buildGroupRow({ id: 'ran-recently', name: 'B', lastRunAt: new Date('2025-03-10T06:00:00.000Z') }),
+        buildGroupRow({ id: 'ran-yesterday', name: 'C', lastRunAt: new Date('2025-03-09T11:00:00.000Z') }),
+        buildGroupRow({ id: 'manual-only', name: 'D', schedule: 'manual' }),
+      ]);
+
+      // Act
+      const resolved = await service.resolveGroups({ dueOnly: true, now });
+
+      // Assert
+      expect(resolved.map(item => item.group.id)).toEqual(['never-run', 'ran-yesterday']);
+    });
+
+    it('should include manually scheduled groups when requested by id and default to all platforms', async () => {
+      // Arrange
+      mockPrismaService.monitoringQueryGroup.findMany.mockResolvedValue([
+        buildGroupRow({ id: 'manual-only', schedule: 'manual' }),
+        buildGroupRow({ id: 'gemini-only', name: 'E', platforms: ['gemini'] }),
+      ]);
+
+      // Act
+      const resolved = await service.resolveGroups({ groupIds: ['manual-only', 'gemini-only'], now });
+
+      // Assert
+      expect(mockPrismaService.monitoringQueryGroup.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { isActive: true, id: { in: ['manual-only', 'gemini-only'] } },
+      }));
+      expect(resolved).toHaveLength(2);
+      expect(resolved[0]!.platforms.length).toBeGreaterThan(1);
+      expect(resolved[1]!.platforms).toEqual(['gemini']);
+      expect(resolved[0]!.queries).toEqual([{ text: 'best security camera' }]);
+    });
+  });
+
+  describe('createGroup', () => {
+    it('should record the creating user', async () => {
+      // Arrange
+      mockPrismaService.monitoringQueryGroup.create.mockResolvedValue(buildGroupRow({ createdBy: 'user-1' }));
+
+      // Act
+      await service.createGroup({ name: ' 核心查询 ', queries: ['best security camera'] }, 'user-1');
+
+      // Assert
+      expect(mockPrismaService.monitoringQueryGroup.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ name: '核心查询', source: 'manual', createdBy: 'user-1' }),
+      });
+    });
+
+    it('should reject invalid configuration before writing', async () => {
+      await expect(service.createGroup({ name: '空组', queries: [] })).rejects.toThrow('手工查询组至少需要一条查询');
+      await expect(service.createGroup({ name: '坏平台', queries: ['q'], platforms: ['bing'] }))
+        .rejects.toThrow('不支持的平台: bing');
+      await expect(service.createGroup({ name: '坏区域', queries: ['q'], locale: 'english' }))
+        .rejects.toThrow('语言区域格式无效');
+      expect(mockPrismaService.monitoringQueryGroup.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteGroup', () => {
+    it('should throw when the group does not exist', async () => {
+      // Arrange
+      mockPrismaService.monitoringQueryGroup.deleteMany.mockResolvedValue({ count: 0 });
+
+      // Act & Assert
+      await expect(service.deleteGroup('missing')).rejects.toThrow('监测查询组不存在: missing');
+    });
+  });
+});
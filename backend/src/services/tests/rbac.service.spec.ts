@@ -0,0 +1,145 @@
+/**
+ * 角色权限服务单元测试
+ *
+ * @description 测试 RbacService 的权限解析与缓存、内置角色保护，以及调整角色时防止移除自己的角色管理权限
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { RbacService } from '../rbac.service';
+import { PrismaService } from '../../common/prisma.service';
+import { ALL_PERMISSIONS } from '../../common/permissions';
+
+describe('RbacService', () => {
+  let service: RbacService;
+
+  const actorId = 'user-admin';
+
+  const mockPrismaService = {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    role: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+
+  const buildRole = (overrides: Record<string, unknown> = {}) => ({
+    id: 'role-admin',
+    name: 'admin',
+    displayName: '管理员',
+    description: null,
+    permissions: ['role:manage', 'keyword:read'],
+    createdAt: new Date('2025-03-01T00:00:00.000Z'),
+    _count: { users: 1 },
+    ...overrides,
+  });
+
+  const mockUser = (roleId: string, permissions: unknown = ['role:manage']) => {
+    mockPrismaService.user.findUnique.mockResolvedValue({
+      id: actorId,
+      isActive: true,
+      role: { id: roleId, name: 'admin', permissions },
+    });
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RbacService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RbacService>(RbacService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockConfigService.get.mockImplementation((_key: string, defaultValue?: string) => defaultValue);
+    mockPrismaService.role.update.mockImplementation(({ data }) => Promise.resolve(buildRole(data)));
+  });
+
+  describe('getUserAccess', () => {
+    it('should expand the wildcard, drop unknown permissions and cache the result', async () => {
+      // Arrange
+      mockUser('role-admin', ['*']);
+
+      // Act
+      const access = await service.getUserAccess(actorId);
+      await service.getUserAccess(actorId);
+
+      // Assert
+      expect(access?.permissions).toEqual(ALL_PERMISSIONS);
+      expect(mockPrismaService.user.findUnique).toHaveBeenCalledTimes(1);
+
+      service.invalidateUser(actorId);
+      mockUser('role-admin', ['keyword:read', 'content:approve', 42]);
+      await expect(service.getUserAccess(actorId)).resolves.toMatchObject({ permissions: ['keyword:read'] });
+    });
+  });
+
+  describe('updateRole', () => {
+    it('should reject removing role:manage from the role of the acting user', async () => {
+      // Arrange
+      mockPrismaService.role.findUnique.mockResolvedValue(buildRole());
+      mockUser('role-admin');
+
+      // Act & Assert
+      await expect(service.updateRole('role-admin', { permissions: ['keyword:read'] }, actorId))
+        .rejects.toThrow('不能移除自己的角色管理权限');
+      expect(mockPrismaService.role.update).not.toHaveBeenCalled();
+    });
+
+    it('should allow changing permissions of other roles and keeping role:manage on the own role', async () => {
+      // Arrange
+      mockPrismaService.role.findUnique.mockResolvedValue(buildRole({ id: 'role-editor', name: 'editor' }));
+      mockUser('role-admin');
+
+      // Act
+      await service.updateRole('role-editor', { permissions: ['keyword:read', 'keyword:read'] }, actorId);
+      await service.updateRole('role-admin', { permissions: ['role:manage'] }, actorId);
+      await service.updateRole('role-admin', { displayName: '超级管理员' }, actorId);
+
+      // Assert
+      expect(mockPrismaService.role.update).toHaveBeenCalledTimes(3);
+      expect(mockPrismaService.role.update.mock.calls[0][0].data).toEqual({ permissions: ['keyword:read'] });
+    });
+
+    it('should reject renaming built-in roles and unknown permissions', async () => {
+      // Arrange
+      mockPrismaService.role.findUnique.mockResolvedValue(buildRole({ id: 'role-editor', name: 'editor' }));
+      mockUser('role-admin');
+
+      // Act & Assert
+      await expect(service.updateRole('role-editor', { name: 'writer' }, actorId)).rejects.toThrow('内置角色不可改名: editor');
+      await expect(service.updateRole('role-editor', { permissions: ['content:approve'] }, actorId))
+        .rejects.toThrow('未知权限: content:approve');
+    });
+  });
+
+  describe('assignUserRole', () => {
+    it('should reject moving the acting user to a role without role:manage', async () => {
+      // Arrange
+      mockPrismaService.role.findUnique.mockResolvedValue(buildRole({ id: 'role-editor', permissions: ['keyword:read'] }));
+
+      // Act & Assert
+      await expect(service.assignUserRole(actorId, 'role-editor', actorId)).rejects.toThrow('不能移除自己的角色管理权限');
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * 工作流引擎服务单元测试
+ *
+ * @description 测试 WorkflowEngineService 的前置依赖校验、阻塞传播、实例进度和关键路径计算
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { Task, WorkflowInstance } from '@prisma/client';
+import { WorkflowEngineService, WorkflowTemplate } from '../workflow-engine.service';
+import { PrismaService } from '@/common/prisma.service';
+
+describe('WorkflowEngineService', () => {
+  let service: WorkflowEngineService;
+
+  const instanceId = 'instance-1';
+  const startDate = new Date('2025-03-01T00:00:00.000Z');
+
+  const buildTask = (overrides: Partial<Task> & Pick<Task, 'id' | 'templateTaskId'>): Task => ({
+    title: overrides.templateTaskId ?? overrides.id,
+    description: null,
+    taskType: 'content_creation',
+    priority: 'P2',
+    keywordId: null,
+    contentId: null,
+    assignedTo: null,
+    dueDate: null,
+    estimatedHours: null,
+    actualHours: null,
+    status: 'pending',
+    blockedReason: null,
+    completedAt: null,
+    workflowInstanceId: instanceId,
+    week: 1,
+    day: 1,
+    phase: 'phase-1',
+    dependencies: [],
+    deliverables: [],
+    tools: [],
+    successCriteria: [],
+    resources: [],
+    createdBy: null,
+    createdAt: startDate,
+    updatedAt: startDate,
+    ...overrides,
+  });
+
+  const buildInstance = (overrides: Partial<WorkflowInstance> = {}): WorkflowInstance => ({
+    id: instanceId,
+    workflowId: 'template-1',
+    templateVersion: 1,
+    entityType: 'campaign',
+    entityId: 'campaign-1',
+    currentStage: null,
+    status: 'active',
+    startedBy: null,
+    startedAt: startDate,
+    completedAt: null,
+    name: '测试执行周期',
+    description: null,
+    startDate,
+    endDate: null,
+    progress: 0,
+    currentWeek: 1,
+    currentDay: 1,
+    metadata: null,
+    updatedAt: startDate,
+    ...overrides,
+  });
+
+  let tasks: Task[];
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    $executeRaw: jest.fn(),
+    workflowInstance: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    task: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+      count: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowEngineService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WorkflowEngineService>(WorkflowEngineService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    tasks = [];
+    mockPrismaService.$transaction.mockImplementation(callback => callback(mockPrismaService));
+    mockPrismaService.$executeRaw.mockResolvedValue(1);
+    mockPrismaService.workflowInstance.findUnique.mockResolvedValue(buildInstance());
+    mockPrismaService.workflowInstance.update.mockResolvedValue(buildInstance());
+    mockPrismaService.task.findMany.mockImplementation(async () => tasks);
+    mockPrismaService.task.update.mockImplementation(async ({ where, data }) => {
+      const updated = { ...tasks.find(task => task.id === where.id)!, ...data };
+      tasks = tasks.map(task => (task.id === where.id ? updated : task));
+      return updated;
+    });
+    mockPrismaService.task.count.mockImplementation(async ({ where }) =>
+      tasks.filter(task => !where.status || task.status === where.status).length
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('updateTaskStatus', () => {
+    it('should lock the instance row before reading tasks', async () => {
+      // Arrange
+      tasks = [buildTask({ id: 'task-a', templateTaskId: 'a' })];
+
+      // Act
+      await service.updateTaskStatus(instanceId, 'task-a', 'IN_PROGRESS');
+
+      // Assert
+      const [query] = mockPrismaService.$executeRaw.mock.calls[0];
+      expect(query.join('?')).toContain('FOR UPDATE');
+      expect(mockPrismaService.$executeRaw.mock.invocationCallOrder[0])
+        .toBeLessThan(mockPrismaService.task.findMany.mock.invocationCallOrder[0]!);
+    });
+
+    it('should reject starting a task whose dependencies are not completed', async () => {
+      // Arrange
+      tasks = [
+        buildTask({ id: 'task-a', templateTaskId: 'a', status: 'in_progress' }),
+        buildTask({ id: 'task-b', templateTaskId: 'b', dependencies: ['a'], day: 2 }),
+      ];
+
+      // Act & Assert
+      await expect(service.updateTaskStatus(instanceId, 'task-b', 'IN_PROGRESS'))
+        .rejects.toThrow('任务前置依赖未完成');
+      expect(mockPrismaService.task.update).not.toHaveBeenCalled();
+    });
+
+    it('should allow blocking a task regardless of its dependencies', async () => {
+      // Arrange
+      tasks = [
+        buildTask({ id: 'task-a', templateTaskId: 'a' }),
+        buildTask({ id: 'task-b', templateTaskId: 'b', dependencies: ['a'], day: 2 }),
+      ];
+
+      // Act
+      const result = await service.updateTaskStatus(instanceId, 'task-b', 'BLOCKED');
+
+      // Assert
+      expect(result.status).toBe('BLOCKED');
+    });
+
+    it('should propagate a blocked dependency to pending downstream tasks and release it afterwards', async () => {
+      // Arrange
+      tasks = [
+        buildTask({ id: 'task-a', templateTaskId: 'a' }),
+        buildTask({ id: 'task-b', templateTaskId: 'b', dependencies: ['a'], day: 2 }),
+        buildTask({ id: 'task-c', templateTaskId: 'c', dependencies: ['b'], day: 3 }),
+      ];
+
+      // Act
+      await service.updateTaskStatus(instanceId, 'task-a', 'BLOCKED');
+
+      // Assert
+      expect(tasks.find(task => task.id === 'task-b')).toMatchObject({ status: 'blocked', blockedReason: 'dependency:a' });
+      expect(tasks.find(task => task.id === 'task-c')).toMatchObject({ status: 'blocked', blockedReason: 'dependency:b' });
+
+      // Act
+      await service.updateTaskStatus(instanceId, 'task-a', 'IN_PROGRESS');
+
+      // Assert
+      expect(tasks.find(task => task.id === 'task-b')).toMatchObject({ status: 'pending', blockedReason: null });
+      expect(tasks.find(task => task.id === 'task-c')).toMatchObject({ status: 'pending', blockedReason: null });
+    });
+
+    it('should not release a manually blocked task', async () => {
+      // Arrange
+      tasks = [
+        buildTask({ id: 'task-a', templateTaskId: 'a' }),
+        buildTask({ id: 'task-b', templateTaskId: 'b', dependencies: ['a'], status: 'blocked', blockedReason: '等待法务审核' }),
+      ];
+
+      // Act
+      await service.updateTaskStatus(instanceId, 'task-a', 'COMPLETED');
+
+      // Assert
+      expect(tasks.find(task => task.id === 'task-b')).toMatchObject({ status: 'blocked', blockedReason: '等待法务审核' });
+    });
+
+    it('should mark the instance completed when every task is completed', async () => {
+      // Arrange
+      tasks = [
+        buildTask({ id: 'task-a', templateTaskId: 'a', status: 'completed', completedAt: startDate }),
+        buildTask({ id: 'task-b', templateTaskId: 'b', dependencies: ['a'], status: 'in_progress' }),
+      ];
+
+      // Act
+      await service.updateTaskStatus(instanceId, 'task-b', 'COMPLETED');
+
+      // Assert
+      expect(mockPrismaService.workflowInstance.update).toHaveBeenCalledWith({
+        where: { id: instanceId },
+        data: { progress: 100, status: 'completed', completedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reopen a completed instance when a task is reopened', async () => {
+      // Arrange
+      mockPrismaService.workflowInstance.findUnique.mockResolvedValue(
+        buildInstance({ status: 'completed', progress: 100, completedAt: startDate })
+      );
+      tasks = [
+        buildTask({ id: 'task-a', templateTaskId: 'a', status: 'completed', completedAt: startDate }),
+        buildTask({ id: 'task-b', templateTaskId: 'b', status: 'completed', completedAt: startDate }),
+      ];
+
+      // Act
+      await service.updateTaskStatus(instanceId, 'task-b', 'IN_PROGRESS');
+
+      // Assert
+      expect(mockPrismaService.workflowInstance.update).toHaveBeenCalledWith({
+        where: { id: instanceId },
+        data: { progress: 50, status: 'active', completedAt: null },
+      });
+    });
+
+    it('should keep a paused instance paused when progress changes', async () => {
+      // Arrange
+      mockPrismaService.workflowInstance.findUnique.mockResolvedValue(buildInstance({ status: 'paused' }));
+      tasks = [
+        buildTask({ id: 'task-a', templateTaskId: 'a' }),
+        buildTask({ id: 'task-b', templateTaskId: 'b' }),
+      ];
+
+      // Act
+      await service.updateTaskStatus(instanceId, 'task-a', 'COMPLETED');
+
+      // Assert
+      expect(mockPrismaService.workflowInstance.update).toHaveBeenCalledWith({
+        where: { id: instanceId },
+        data: { progress: 50 },
+      });
+    });
+  });
+
+  describe('recalculateSchedule', () => {
+    it('should slip downstream due dates and report the critical path', async () => {
+      // Arrange: 今天是第 5 天，a 计划第 2 天完成但仍未完成
+      jest.useFakeTimers({ now: new Date('2025-03-05T08:00:00.000Z') });
+      tasks = [
+        buildTask({ id: 'task-a', templateTaskId: 'a', day: 2 }),
+        buildTask({ id: 'task-b', templateTaskId: 'b', dependencies: ['a'], day: 4 }),
+        buildTask({ id: 'task-c', templateTaskId: 'c', day: 6 }),
+      ];
+
+      // Act
+      const result = await service.recalculateSchedule(instanceId);
+
+      // Assert
+      expect(result).toEqual({
+        taskIds: ['task-a', 'task-b'],
+        plannedEndDate: new Date('2025-03-06T00:00:00.000Z'),
+        projectedEndDate: new Date('2025-03-07T00:00:00.000Z'),
+        slippedDays: 1,
+      });
+      expect(tasks.find(task => task.id === 'task-a')!.dueDate).toEqual(new Date('2025-03-05T00:00:00.000Z'));
+      expect(tasks.find(task => task.id === 'task-b')!.dueDate).toEqual(new Date('2025-03-07T00:00:00.000Z'));
+      expect(tasks.find(task => task.id === 'task-c')!.dueDate).toEqual(new Date('2025-03-06T00:00:00.000Z'));
+    });
+
+    it('should use the actual completion day of completed tasks', async () => {
+      // Arrange
+      jest.useFakeTimers({ now: new Date('2025-03-02T08:00:00.000Z') });
+      tasks = [
+        buildTask({ id: 'task-a', templateTaskId: 'a', day: 1, status: 'completed', completedAt: new Date('2025-03-02T06:00:00.000Z') }),
+        buildTask({ id: 'task-b', templateTaskId: 'b', dependencies: ['a'], day: 3 }),
+      ];
+
+      // Act
+      const result = await service.recalculateSchedule(instanceId);
+
+      // Assert
+      expect(result.taskIds).toEqual(['task-a', 'task-b']);
+      expect(result.slippedDays).toBe(1);
+    });
+
+    it('should throw when the instance does not exist', async () => {
+      // Arrange
+      mockPrismaService.workflowInstance.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.recalculateSchedule('missing')).rejects.toThrow('工作流实例不存在');
+    });
+  });
+
+  describe('validateTemplateDependencies', () => {
+    const buildTemplate = (dependencies: Record<string, string[]>): WorkflowTemplate => ({
+      id: 'template-1',
+      name: '模板',
+      description: '',
+      totalDays: 3,
+      version: 1,
+      archived: false,
+      createdAt: startDate,
+      updatedAt: startDate,
+      phases: [
+        {
+          id: 'phase-1',
+          name: '阶段一',
+          description: '',
+          startDay: 1,
+          endDay: 3,
+          objectives: [],
+          tasks: Object.entries(dependencies).map(([id, taskDependencies], index) => ({
+            id,
+            title: id,
+            description: '',
+            type: 'CONTENT_CREATION',
+            priority: 'P2',
+            status: 'PENDING',
+            estimatedHours: 1,
+            dueDate: startDate,
+            dependencies: taskDependencies,
+            week: 1,
+            day: index + 1,
+            phase: 'phase-1',
+            deliverables: [],
+            tools: [],
+            successCriteria: [],
+            resources: [],
+            createdAt: startDate,
+            updatedAt: startDate,
+          })),
+        },
+      ],
+    });
+
+    it('should accept an acyclic template', () => {
+      expect(() => service.validateTemplateDependencies(buildTemplate({ a: [], b: ['a'], c: ['a', 'b'] }))).not.toThrow();
+    });
+
+    it('should reject dependencies on unknown tasks', () => {
+      expect(() => service.validateTemplateDependencies(buildTemplate({ a: [], b: ['x'] })))
+        .toThrow('任务 b 依赖了不存在的任务: x');
+    });
+
+    it('should reject dependency cycles', () => {
+      expect(() => service.validateTemplateDependencies(buildTemplate({ a: ['c'], b: ['a'], c: ['b'] })))
+        .toThrow('存在循环依赖: a -> c -> b -> a');
+    });
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * 工作流模板服务单元测试
+ *
+ * @description 测试 WorkflowTemplateService 的 JSON / YAML 定义解析、校验、版本更新、克隆和导出
+ * @author AI Assistant
+ * @version 1.0.0
+ */
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { parse as parseYaml } from 'yaml';
+import { WorkflowTemplateService, WorkflowTemplateValidationError } from '../workflow-template.service';
+import { WorkflowEngineService } from '../workflow-engine.service';
+import { PrismaService } from '@/common/prisma.service';
+
+describe('WorkflowTemplateService', () => {
+  let service: WorkflowTemplateService;
+
+  const userId = 'user-123';
+  const createdAt = new Date('2025-03-01T00:00:00.000Z');
+
+  const yamlDefinition = [
+    'id: launch-campaign',
+    'name: 新品上市',
+    'totalDays: 14',
+    'phases:',
+    '  - id: research',
+    '    name: 调研',
+    '    startDay: 1',
+    '    endDay: 7',
+    '    tasks:',
+    '      - id: keyword-audit',
+    '        title: 关键词审计',
+    '        type: KEYWORD_RESEARCH',
+    '        priority: P1',
+    '        day: 1',
+    '        estimatedHours: 4',
+    '      - id: outline',
+    '        title: 内容大纲',
+    '        type: CONTENT_CREATION',
+    '        priority: P2',
+    '        day: 3',
+    '        estimatedHours: 2.5',
+    '        dependencies: [keyword-audit]',
+  ].join('\n');
+
+  const buildDefinition = (overrides: Record<string, unknown> = {}) => ({
+    ...(parseYaml(yamlDefinition) as Record<string, unknown>),
+    ...overrides,
+  });
+
+  const expectValidationErrors = (action: () => unknown, ...messages: string[]) => {
+    let thrown: unknown;
+    try {
+      action();
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).toBeInstanceOf(WorkflowTemplateValidationError);
+    for (const message of messages) {
+      expect((thrown as WorkflowTemplateValidationError).errors).toEqual(
+        expect.arrayContaining([expect.stringContaining(message)])
+      );
+    }
+  };
+
+  const toWorkflowRecord = (definition: Record<string, any>, overrides: Record<string, unknown> = {}) => ({
+    id: definition['id'],
+    name: definition['name'],
+    description: '',
+    workflowType: 'campaign',
+    stages: definition['phases'].map((phase: Record<string, any>) => ({
+      description: '',
+      objectives: [],
+      ...phase,
+      tasks: phase['tasks'].map((task: Record<string, any>) => ({
+        description: '',
+        dependencies: [],
+        deliverables: [],
+        tools: [],
+        successCriteria: [],
+        resources: [],
+        status: 'PENDING',
+        week: 1,
+        phase: phase['id'],
+        dueDate: createdAt.toISOString(),
+        createdAt: createdAt.toISOString(),
+        updatedAt: createdAt.toISOString(),
+        ...task,
+      })),
+    })),
+    totalDays: definition['totalDays'],
+    version: 1,
+    isActive: true,
+    createdBy: userId,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  });
+
+  const mockPrismaService = {
+    $transaction: jest.fn(),
+    workflow: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    workflowTemplateVersion: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkflowTemplateService,
+        WorkflowEngineService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WorkflowTemplateService>(WorkflowTemplateService);
+
+    // 重置所有 mock
+    jest.clearAllMocks();
+    mockPrismaService.$transaction.mockImplementation(callback => callback(mockPrismaService));
+  });
+
+  describe('parseDefinition', () => {
+    it('should parse a YAML definition', () => {
+      // Act
+      const definition = service.parseDefinition(yamlDefinition, 'yaml');
+
+      // Assert
+      expect(definition.id).toBe('launch-campaign');
+      expect(definition.phases[0]!.tasks.map(task => task.id)).toEqual(['keyword-audit', 'outline']);
+      expect(definition.phases[0]!.tasks[1]!.dependencies).toEqual(['keyword-audit']);
+    });
+
+    it('should accept the same definition as JSON', () => {
+      // Act
+      const definition = service.parseDefinition(JSON.stringify(buildDefinition()), 'json');
+
+      // Assert
+      expect(definition.name).toBe('新品上市');
+      expect(definition.totalDays).toBe(14);
+    });
+
+    it('should reject syntax errors', () => {
+      expectValidationErrors(() => service.parseDefinition('{ "id": ', 'json'), '无法解析 JSON');
+    });
+
+    it('should reject documents that are not objects', () => {
+      expectValidationErrors(() => service.parseDefinition('- a\n- b', 'yaml'), '模板定义必须是对象');
+    });
+
+    it('should report schema errors with their paths', () => {
+      // Arrange
+      const definition = buildDefinition({ id: 'Launch Campaign', owner: 'marketing' });
+      (definition['phases'] as any)[0].tasks[0].type = 'WRITING';
+
+      // Act & Assert
+      expectValidationErrors(
+        () => service.parseDefinition(JSON.stringify(definition), 'json'),
+        'id: id 只能包含小写字母、数字和连字符',
+        'property owner should not exist',
+        'phases[0].tasks[0].type:'
+      );
+    });
+
+    it('should reject tasks scheduled outside their phase and phases beyond the template', () => {
+      // Arrange
+      const definition = buildDefinition({ totalDays: 5 });
+      (definition['phases'] as any)[0].tasks[1].day = 9;
+
+      // Act & Assert
+      expectValidationErrors(
+        () => service.parseDefinition(JSON.stringify(definition), 'json'),
+        'phases[0].endDay: 超出模板总天数 5',
+        'phases[0].tasks[1].day: 第 9 天不在阶段范围 1-7 内'
+      );
+    });
+
+    it('should reject unknown and circular dependencies', () => {
+      // Arrange
+      const unknown = buildDefinition();
+      (unknown['phases'] as any)[0].tasks[1].dependencies = ['missing-task'];
+      const circular = buildDefinition();
+      (circular['phases'] as any)[0].tasks[0].dependencies = ['outline'];
+
+      // Act & Assert
+      expectValidationErrors(
+        () => service.parseDefinition(JSON.stringify(unknown), 'json'),
+        '任务 outline 依赖了不存在的任务: missing-task'
+      );
+      expectValidationErrors(
+        () => service.parseDefinition(JSON.stringify(circular), 'json'),
+        '存在循环依赖'
+      );
+    });
+  });
+
+  describe('createTemplate', () => {
+    it('should store the template and its first version', async () => {
+      // Arrange
+      mockPrismaService.workflow.findUnique.mockResolvedValue(null);
+      mockPrismaService.workflow.findFirst.mockResolvedValue(toWorkflowRecord(buildDefinition()));
+
+      // Act
+      const template = await service.createTemplate(yamlDefinition, 'yaml', userId);
+
+      // Assert
+      expect(mockPrismaService.workflow.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          id: 'launch-campaign',
+          workflowType: 'campaign',
+          version: 1,
+          createdBy: userId,
+          versions: {
+            create: expect.objectContaining({ version: 1, createdBy: userId }),
+          },
+        }),
+      });
+      expect(template).toMatchObject({ id: 'launch-campaign', version: 1, archived: false });
+    });
+
+    it('should refuse to overwrite an existing template', async () => {
+      // Arrange
+      mockPrismaService.workflow.findUnique.mockResolvedValue(toWorkflowRecord(buildDefinition()));
+
+      // Act & Assert
+      await expect(service.createTemplate(yamlDefinition, 'yaml', userId))
+        .rejects.toThrow('工作流模板已存在: launch-campaign');
+      expect(mockPrismaService.workflow.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('should bump the version with an optimistic lock and record a snapshot', async () => {
+      // Arrange
+      const record = toWorkflowRecord(buildDefinition(), { version: 3 });
+      mockPrismaService.workflow.findFirst
+        .mockResolvedValueOnce(record)
+        .mockResolvedValueOnce({ ...record, version: 4 });
+      mockPrismaService.workflow.updateMany.mockResolvedValue({ count: 1 });
+
+      // Act
+      const template = await service.updateTemplate('launch-campaign', yamlDefinition, 'yaml', userId);
+
+      // Assert
+      expect(mockPrismaService.workflow.updateMany).toHaveBeenCalledWith({
+        where: { id: 'launch-campaign', version: 3 },
+        data: expect.objectContaining({ version: 4 }),
+      });
+      expect(mockPrismaService.workflowTemplateVersion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ workflowId: 'launch-campaign', version: 4, createdBy: userId }),
+      });
+      expect(template.version).toBe(4);
+    });
+
+    it('should fail when another update won the race', async () => {
+      // Arrange
+      mockPrismaService.workflow.findFirst.mockResolvedValue(toWorkflowRecord(buildDefinition()));
+      mockPrismaService.workflow.updateMany.mockResolvedValue({ count: 0 });
+
+      // Act & Assert
+      await expect(service.updateTemplate('launch-campaign', yamlDefinition, 'yaml', userId))
+        .rejects.toThrow('工作流模板已被其他用户更新');
+      expect(mockPrismaService.workflowTemplateVersion.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject updates to archived templates', async () => {
+      // Arrange
+      mockPrismaService.workflow.findFirst.mockResolvedValue(
+        toWorkflowRecord(buildDefinition(), { isActive: false })
+      );
+
+      // Act & Assert
+      await expect(service.updateTemplate('launch-campaign', yamlDefinition, 'yaml', userId))
+        .rejects.toThrow('工作流模板已归档');
+    });
+
+    it('should reject a definition whose id does not match', async () => {
+      await expect(service.updateTemplate('other-template', yamlDefinition, 'yaml', userId))
+        .rejects.toThrow('定义中的 id (launch-campaign) 与模板 other-template 不一致');
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cloneTemplate', () => {
+    it('should copy an archived template into a new template at version 1', async () => {
+      // Arrange
+      const source = toWorkflowRecord(buildDefinition(), { version: 5, isActive: false });
+      mockPrismaService.workflow.findFirst
+        .mockResolvedValueOnce(source)
+        .mockResolvedValueOnce({ ...source, id: 'launch-campaign-eu', name: '欧洲上市', version: 1, isActive: true });
+      mockPrismaService.workflow.findUnique.mockResolvedValue(null);
+
+      // Act
+      const template = await service.cloneTemplate('launch-campaign', 'launch-campaign-eu', '欧洲上市', userId);
+
+      // Assert
+      expect(mockPrismaService.workflow.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ id: 'launch-campaign-eu', name: '欧洲上市', version: 1 }),
+      });
+      expect(template).toMatchObject({ id: 'launch-campaign-eu', version: 1, archived: false });
+    });
+  });
+
+  describe('exportTemplate', () => {
+    it('should export a pinned version as YAML that parses back to the same definition', async () => {
+      // Arrange
+      const record = toWorkflowRecord(buildDefinition());
+      mockPrismaService.workflowTemplateVersion.findUnique.mockResolvedValue({
+        workflowId: 'launch-campaign',
+        version: 2,
+        definition: {
+          name: record.name,
+          description: record.description,
+          totalDays: record.totalDays,
+          phases: record.stages,
+        },
+        createdBy: userId,
+        createdAt,
+        workflow: record,
+      });
+
+      // Act
+      const exported = await service.exportTemplate('launch-campaign', 'yaml', 2);
+
+      // Assert
+      expect(mockPrismaService.workflowTemplateVersion.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { workflowId_version: { workflowId: 'launch-campaign', version: 2 } } })
+      );
+      const definition = service.parseDefinition(exported, 'yaml');
+      expect(definition.id).toBe('launch-campaign');
+      expect(definition.phases[0]!.tasks[1]).toMatchObject({ id: 'outline', day: 3, dependencies: ['keyword-audit'] });
+    });
+
+    it('should throw when the version does not exist', async () => {
+      // Arrange
+      mockPrismaService.workflowTemplateVersion.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.exportTemplate('launch-campaign', 'json', 9))
+        .rejects.toThrow('工作流模板不存在: launch-campaign v9');
+    });
+  });
+});
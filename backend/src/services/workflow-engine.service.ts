@@ -1,12 +1,22 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import {
+  Prisma,
+  Task as PrismaTask,
+  Workflow as PrismaWorkflow,
+  WorkflowInstance as PrismaWorkflowInstance,
+} from '@prisma/client';
+import { PriorityTier, normalizePriorityTier } from '@geo-platform/shared';
+import { PrismaService } from '../common/prisma.service';
 
 export interface WorkflowTask {
   id: string;
+  templateTaskId?: string;
   title: string;
   description: string;
   type: 'KEYWORD_RESEARCH' | 'CONTENT_CREATION' | 'REVIEW' | 'PUBLICATION' | 'MONITORING' | 'OPTIMIZATION';
-  priority: 'P0' | 'P1' | 'P2' | 'P3' | 'P4' | 'P5';
+  priority: `${PriorityTier}`;
   status: 'PENDING' | 'IN_PROGRESS' | 'REVIEW' | 'COMPLETED' | 'BLOCKED';
+  blockedReason?: string;
   assignee?: string;
   estimatedHours: number;
   actualHours?: number;
@@ -29,10 +39,22 @@ export interface WorkflowTemplate {
   description: string;
   totalDays: number;
   phases: WorkflowPhase[];
+  version: number;
+  archived: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * 模板版本快照，存储于 workflow_template_versions.definition
+ */
+export interface WorkflowTemplateSnapshot {
+  name: string;
+  description: string;
+  totalDays: number;
+  phases: WorkflowPhase[];
+}
+
 export interface WorkflowPhase {
   id: string;
   name: string;
@@ -46,6 +68,7 @@ export interface WorkflowPhase {
 export interface WorkflowInstance {
   id: string;
   templateId: string;
+  templateVersion: number;
   name: string;
   description: string;
   startDate: Date;
@@ -61,21 +84,89 @@ export interface WorkflowInstance {
   updatedAt: Date;
 }
 
+export interface WorkflowCriticalPath {
+  taskIds: string[];
+  plannedEndDate: Date;
+  projectedEndDate: Date;
+  slippedDays: number;
+}
+
+/** 执行周期类工作流在 workflows.workflow_type 中的取值 */
+export const CAMPAIGN_WORKFLOW_TYPE = 'campaign';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 转入这些状态前，所有前置任务必须已完成 */
+const DEPENDENCY_GATED_STATUSES: WorkflowTask['status'][] = ['IN_PROGRESS', 'REVIEW', 'COMPLETED'];
+
+/** 因前置任务阻塞而自动标记的 blockedReason 前缀，用于与手动阻塞区分 */
+const DEPENDENCY_BLOCK_PREFIX = 'dependency:';
+
+interface ScheduledTask {
+  plannedDay: number;
+  projectedDay: number;
+  drivenBy: string | null;
+}
+
+type WorkflowInstanceWithTasks = Prisma.WorkflowInstanceGetPayload<{ include: { tasks: true } }>;
+
 @Injectable()
-export class WorkflowEngineService {
+export class WorkflowEngineService implements OnModuleInit {
   private readonly logger = new Logger(WorkflowEngineService.name);
-  private templates = new Map<string, WorkflowTemplate>();
-  private instances = new Map<string, WorkflowInstance>();
 
-  constructor() {
-    this.initializeDefaultTemplate();
+  constructor(private readonly prisma: PrismaService) {}
+
+  async onModuleInit() {
+    await this.initializeDefaultTemplate();
   }
 
   /**
    * 初始化Eufy GEO 30天执行模板
+   *
+   * 模板以固定 ID 写入 workflows 表并记录为版本 1；已存在时不覆盖，以保留用户对模板的修改。
+   * 多副本同时启动时的重复写入以唯一约束冲突忽略。
+   */
+  private async initializeDefaultTemplate() {
+    const defaultTemplate = this.buildDefaultTemplate();
+    this.validateTemplateDependencies(defaultTemplate);
+
+    const existing = await this.prisma.workflow.findUnique({ where: { id: defaultTemplate.id } });
+    if (existing) {
+      return;
+    }
+
+    const snapshot = this.toTemplateSnapshot(defaultTemplate);
+
+    try {
+      await this.prisma.workflow.create({
+        data: {
+          id: defaultTemplate.id,
+          name: snapshot.name,
+          description: snapshot.description,
+          workflowType: CAMPAIGN_WORKFLOW_TYPE,
+          stages: snapshot.phases as unknown as Prisma.InputJsonValue,
+          totalDays: snapshot.totalDays,
+          version: 1,
+          versions: {
+            create: { version: 1, definition: snapshot as unknown as Prisma.InputJsonValue },
+          },
+        },
+      });
+      this.logger.log(`已初始化默认工作流模板: ${defaultTemplate.name}`);
+    } catch (error) {
+      // 另一副本已并发写入同一模板
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return;
+      }
+      this.logger.error(`初始化默认工作流模板失败: ${error.message}`, error.stack);
+    }
+  }
+
+  /**
+   * 构建Eufy GEO 30天执行模板
    */
-  private initializeDefaultTemplate() {
-    const defaultTemplate: WorkflowTemplate = {
+  private buildDefaultTemplate(): WorkflowTemplate {
+    return {
       id: 'eufy-geo-30day',
       name: 'Eufy GEO 30天执行模板',
       description: '基于Eufy GEO 30天执行文档的标准化工作流程',
@@ -130,7 +221,7 @@ export class WorkflowEngineService {
           startDay: 22,
           endDay: 30,
           objectives: [
-            '完成P5长尾关键词覆盖',
+            '完成P4长尾关键词覆盖',
             '建立可持续的内容生产流程',
             '总结30天执行经验',
             '制定下个周期的优化计划'
@@ -138,12 +229,11 @@ export class WorkflowEngineService {
           tasks: this.generateWeek4Tasks()
         }
       ],
+      version: 1,
+      archived: false,
       createdAt: new Date(),
       updatedAt: new Date()
     };
-
-    this.templates.set(defaultTemplate.id, defaultTemplate);
-    this.logger.log(`已初始化默认工作流模板: ${defaultTemplate.name}`);
   }
 
   /**
@@ -437,10 +527,10 @@ export class WorkflowEngineService {
     return [
       {
         id: 'w4-d22-p5-longtail-coverage',
-        title: 'P5长尾关键词覆盖',
-        description: '完成所有P5长尾关键词的内容覆盖',
+        title: 'P4长尾关键词覆盖',
+        description: '完成所有P4长尾关键词的内容覆盖',
         type: 'CONTENT_CREATION',
-        priority: 'P5',
+        priority: 'P4',
         status: 'PENDING',
         estimatedHours: 12,
         dueDate: new Date(Date.now() + 22 * 24 * 60 * 60 * 1000),
@@ -448,9 +538,9 @@ export class WorkflowEngineService {
         week: 4,
         day: 22,
         phase: 'week4-scaling',
-        deliverables: ['P5关键词内容包', '长尾词策略总结'],
+        deliverables: ['P4关键词内容包', '长尾词策略总结'],
         tools: ['Automated Content Generator', 'Long-tail Keyword Tool'],
-        successCriteria: ['P5关键词覆盖率>90%', '自动化率>80%'],
+        successCriteria: ['P4关键词覆盖率>90%', '自动化率>80%'],
         resources: ['内容自动化专员', 'AI系统'],
         createdAt: new Date(),
         updatedAt: new Date()
@@ -528,75 +618,90 @@ export class WorkflowEngineService {
     startDate: Date,
     metadata: Record<string, any> = {}
   ): Promise<WorkflowInstance> {
-    const template = this.templates.get(templateId);
+    const template = await this.getWorkflowTemplate(templateId);
     if (!template) {
       throw new Error(`工作流模板不存在: ${templateId}`);
     }
+    this.validateTemplateDependencies(template);
 
-    const instance: WorkflowInstance = {
-      id: `instance-${Date.now()}`,
-      templateId,
-      name,
-      description,
-      startDate,
-      endDate: new Date(startDate.getTime() + template.totalDays * 24 * 60 * 60 * 1000),
-      status: 'PLANNING',
-      progress: 0,
-      currentPhase: template.phases[0]?.id || '',
-      currentWeek: 1,
-      currentDay: 1,
-      tasks: this.generateTasksFromTemplate(template, startDate),
-      metadata,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
+    const record = await this.prisma.workflowInstance.create({
+      data: {
+        workflowId: template.id,
+        templateVersion: template.version,
+        entityType: CAMPAIGN_WORKFLOW_TYPE,
+        entityId: template.id,
+        name,
+        description,
+        startDate,
+        endDate: new Date(startDate.getTime() + template.totalDays * DAY_MS),
+        status: 'planning',
+        progress: 0,
+        currentStage: template.phases[0]?.id || '',
+        currentWeek: 1,
+        currentDay: 1,
+        metadata: metadata as Prisma.InputJsonValue,
+        tasks: {
+          create: this.generateTasksFromTemplate(template, startDate),
+        },
+      },
+      include: { tasks: { orderBy: { day: 'asc' } } },
+    });
 
-    this.instances.set(instance.id, instance);
-    this.logger.log(`创建工作流实例: ${instance.name} (${instance.id})`);
-    
-    return instance;
+    this.logger.log(`创建工作流实例: ${record.name} (${record.id})`);
+
+    return this.toWorkflowInstance(record);
   }
 
   /**
    * 从模板生成任务
    */
-  private generateTasksFromTemplate(template: WorkflowTemplate, startDate: Date): WorkflowTask[] {
-    const tasks: WorkflowTask[] = [];
-    
-    for (const phase of template.phases) {
-      for (const task of phase.tasks) {
-        const newTask: WorkflowTask = {
-          ...task,
-          id: `${task.id}-${Date.now()}`,
-          dueDate: new Date(startDate.getTime() + (task.day - 1) * 24 * 60 * 60 * 1000),
-          createdAt: new Date(),
-          updatedAt: new Date()
-        };
-        tasks.push(newTask);
-      }
-    }
-    
-    return tasks;
+  private generateTasksFromTemplate(
+    template: WorkflowTemplate,
+    startDate: Date
+  ): Prisma.TaskCreateWithoutWorkflowInstanceInput[] {
+    return template.phases.flatMap(phase =>
+      phase.tasks.map(task => ({
+        templateTaskId: task.id,
+        title: task.title,
+        description: task.description,
+        taskType: task.type.toLowerCase(),
+        priority: task.priority,
+        status: task.status.toLowerCase(),
+        estimatedHours: task.estimatedHours,
+        dueDate: new Date(startDate.getTime() + (task.day - 1) * DAY_MS),
+        week: task.week,
+        day: task.day,
+        phase: task.phase,
+        dependencies: task.dependencies,
+        deliverables: task.deliverables,
+        tools: task.tools,
+        successCriteria: task.successCriteria,
+        resources: task.resources,
+      }))
+    );
   }
 
   /**
    * 启动工作流实例
    */
   async startWorkflowInstance(instanceId: string): Promise<WorkflowInstance> {
-    const instance = this.instances.get(instanceId);
-    if (!instance) {
-      throw new Error(`工作流实例不存在: ${instanceId}`);
-    }
+    await this.findInstanceOrThrow(instanceId);
 
-    instance.status = 'ACTIVE';
-    instance.updatedAt = new Date();
-    
-    this.logger.log(`启动工作流实例: ${instance.name}`);
-    return instance;
+    const record = await this.prisma.workflowInstance.update({
+      where: { id: instanceId },
+      data: { status: 'active' },
+      include: { tasks: { orderBy: { day: 'asc' } } },
+    });
+
+    this.logger.log(`启动工作流实例: ${record.name}`);
+    return this.toWorkflowInstance(record);
   }
 
   /**
    * 更新任务状态
+   *
+   * 任务更新、阻塞传播、截止日期重排与实例进度重算在同一事务内完成；
+   * 事务开始时锁定实例行，同一实例的任务更新串行执行，并发完成兄弟任务时依赖判断不会读到旧状态
    */
   async updateTaskStatus(
     instanceId: string,
@@ -604,90 +709,200 @@ export class WorkflowEngineService {
     status: WorkflowTask['status'],
     actualHours?: number
   ): Promise<WorkflowTask> {
-    const instance = this.instances.get(instanceId);
-    if (!instance) {
-      throw new Error(`工作流实例不存在: ${instanceId}`);
-    }
+    const task = await this.prisma.$transaction(async tx => {
+      await tx.$executeRaw`SELECT id FROM workflow_instances WHERE id = ${instanceId} FOR UPDATE`;
+      const instance = await tx.workflowInstance.findUnique({ where: { id: instanceId } });
+      if (!instance) {
+        throw new Error(`工作流实例不存在: ${instanceId}`);
+      }
 
-    const task = instance.tasks.find(t => t.id === taskId);
-    if (!task) {
-      throw new Error(`任务不存在: ${taskId}`);
-    }
+      const tasks = await tx.task.findMany({ where: { workflowInstanceId: instanceId } });
+      const existing = tasks.find(t => t.id === taskId);
+      if (!existing) {
+        throw new Error(`任务不存在: ${taskId}`);
+      }
 
-    task.status = status;
-    task.updatedAt = new Date();
-    if (actualHours !== undefined) {
-      task.actualHours = actualHours;
-    }
+      // 前置依赖校验
+      if (DEPENDENCY_GATED_STATUSES.includes(status)) {
+        const openDependencies = this.getDependencyTasks(existing, tasks)
+          .filter(dependency => dependency.status !== 'completed');
+        if (openDependencies.length > 0) {
+          throw new Error(
+            `任务前置依赖未完成: ${existing.title} <- ${openDependencies.map(t => t.title).join(', ')}`
+          );
+        }
+      }
+
+      const updated = await tx.task.update({
+        where: { id: taskId },
+        data: {
+          status: status.toLowerCase(),
+          blockedReason: null,
+          completedAt: status === 'COMPLETED' ? new Date() : null,
+          ...(actualHours !== undefined && { actualHours }),
+        },
+      });
+      const currentTasks = await this.propagateBlockedStatus(
+        tx,
+        tasks.map(t => (t.id === updated.id ? updated : t))
+      );
+      await this.rescheduleDueDates(tx, instance.startDate ?? instance.startedAt, currentTasks);
+
+      // 更新实例进度
+      await this.updateInstanceProgress(tx, instance);
+
+      return updated;
+    });
 
-    // 更新实例进度
-    this.updateInstanceProgress(instance);
-    
     this.logger.log(`任务状态更新: ${task.title} -> ${status}`);
-    return task;
+    return this.toWorkflowTask(task);
   }
 
   /**
    * 更新实例进度
+   *
+   * 全部任务完成时实例标记为完成；已完成的实例有任务被重新打开时恢复为进行中
    */
-  private updateInstanceProgress(instance: WorkflowInstance) {
-    const completedTasks = instance.tasks.filter(t => t.status === 'COMPLETED').length;
-    const totalTasks = instance.tasks.length;
-    
-    instance.progress = Math.round((completedTasks / totalTasks) * 100);
-    instance.updatedAt = new Date();
-    
-    // 检查是否完成
-    if (instance.progress === 100) {
-      instance.status = 'COMPLETED';
-    }
+  private async updateInstanceProgress(tx: Prisma.TransactionClient, instance: PrismaWorkflowInstance) {
+    const [totalTasks, completedTasks] = await Promise.all([
+      tx.task.count({ where: { workflowInstanceId: instance.id } }),
+      tx.task.count({ where: { workflowInstanceId: instance.id, status: 'completed' } }),
+    ]);
+
+    const progress = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
+
+    await tx.workflowInstance.update({
+      where: { id: instance.id },
+      data: {
+        progress,
+        ...(progress === 100 && { status: 'completed', completedAt: new Date() }),
+        ...(progress < 100 && instance.status === 'completed' && { status: 'active', completedAt: null }),
+      },
+    });
+  }
+
+  /**
+   * 获取工作流模板（当前版本）
+   *
+   * 默认不返回已归档模板，归档后不能再用于创建实例
+   */
+  async getWorkflowTemplate(
+    templateId: string,
+    options: { includeArchived?: boolean } = {}
+  ): Promise<WorkflowTemplate | null> {
+    const record = await this.prisma.workflow.findFirst({
+      where: {
+        id: templateId,
+        workflowType: CAMPAIGN_WORKFLOW_TYPE,
+        ...(!options.includeArchived && { isActive: true }),
+      },
+    });
+    return record ? this.toWorkflowTemplate(record) : null;
   }
 
   /**
-   * 获取工作流模板
+   * 获取工作流模板的指定版本，用于查看实例创建时固定的模板定义
    */
-  async getWorkflowTemplate(templateId: string): Promise<WorkflowTemplate | null> {
-    return this.templates.get(templateId) || null;
+  async getWorkflowTemplateVersion(templateId: string, version: number): Promise<WorkflowTemplate | null> {
+    const record = await this.prisma.workflowTemplateVersion.findUnique({
+      where: { workflowId_version: { workflowId: templateId, version } },
+      include: { workflow: true },
+    });
+    if (!record) {
+      return null;
+    }
+
+    const snapshot = record.definition as unknown as WorkflowTemplateSnapshot;
+    return {
+      id: record.workflowId,
+      name: snapshot.name,
+      description: snapshot.description,
+      totalDays: snapshot.totalDays,
+      phases: this.restorePhases(snapshot.phases),
+      version: record.version,
+      archived: !record.workflow.isActive,
+      createdAt: record.createdAt,
+      updatedAt: record.createdAt,
+    };
   }
 
   /**
    * 获取所有工作流模板
    */
   async getAllWorkflowTemplates(): Promise<WorkflowTemplate[]> {
-    return Array.from(this.templates.values());
+    const records = await this.prisma.workflow.findMany({
+      where: { workflowType: CAMPAIGN_WORKFLOW_TYPE, isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    return records.map(record => this.toWorkflowTemplate(record));
   }
 
   /**
    * 获取工作流实例
    */
   async getWorkflowInstance(instanceId: string): Promise<WorkflowInstance | null> {
-    return this.instances.get(instanceId) || null;
+    const record = await this.prisma.workflowInstance.findUnique({
+      where: { id: instanceId },
+      include: { tasks: { orderBy: { day: 'asc' } } },
+    });
+    return record ? this.toWorkflowInstance(record) : null;
   }
 
   /**
    * 获取所有工作流实例
    */
   async getAllWorkflowInstances(): Promise<WorkflowInstance[]> {
-    return Array.from(this.instances.values());
+    const records = await this.prisma.workflowInstance.findMany({
+      where: { entityType: CAMPAIGN_WORKFLOW_TYPE },
+      include: { tasks: { orderBy: { day: 'asc' } } },
+      orderBy: { startedAt: 'desc' },
+    });
+    return records.map(record => this.toWorkflowInstance(record));
   }
 
   /**
    * 获取当前活跃任务
    */
   async getActiveTasks(instanceId: string): Promise<WorkflowTask[]> {
-    const instance = this.instances.get(instanceId);
+    const instance = await this.prisma.workflowInstance.findUnique({ where: { id: instanceId } });
     if (!instance) {
       return [];
     }
 
     const today = new Date();
-    const startDate = instance.startDate;
-    const currentDay = Math.ceil((today.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+    const startDate = instance.startDate ?? instance.startedAt;
+    const currentDay = Math.ceil((today.getTime() - startDate.getTime()) / DAY_MS) + 1;
 
-    return instance.tasks.filter(task => 
-      task.day <= currentDay && 
-      (task.status === 'PENDING' || task.status === 'IN_PROGRESS')
-    );
+    const tasks = await this.prisma.task.findMany({
+      where: {
+        workflowInstanceId: instanceId,
+        day: { lte: currentDay },
+        status: { in: ['pending', 'in_progress'] },
+      },
+      orderBy: { day: 'asc' },
+    });
+
+    return tasks.map(task => this.toWorkflowTask(task));
+  }
+
+  /**
+   * 重新计算实例内未完成任务的截止日期
+   *
+   * 供定时任务调用，使逾期任务的顺延及时反映到下游任务
+   */
+  async recalculateSchedule(instanceId: string): Promise<WorkflowCriticalPath> {
+    return this.prisma.$transaction(async tx => {
+      const instance = await tx.workflowInstance.findUnique({ where: { id: instanceId } });
+      if (!instance) {
+        throw new Error(`工作流实例不存在: ${instanceId}`);
+      }
+
+      const tasks = await tx.task.findMany({ where: { workflowInstanceId: instanceId } });
+      const startDate = instance.startDate ?? instance.startedAt;
+      await this.rescheduleDueDates(tx, startDate, tasks);
+
+      return this.buildCriticalPath(startDate, tasks);
+    });
   }
 
   /**
@@ -703,11 +918,16 @@ export class WorkflowEngineService {
     estimatedHours: number;
     actualHours: number;
     efficiency: number;
+    criticalPath: WorkflowCriticalPath;
   }> {
-    const instance = this.instances.get(instanceId);
-    if (!instance) {
+    const record = await this.prisma.workflowInstance.findUnique({
+      where: { id: instanceId },
+      include: { tasks: { orderBy: { day: 'asc' } } },
+    });
+    if (!record) {
       throw new Error(`工作流实例不存在: ${instanceId}`);
     }
+    const instance = this.toWorkflowInstance(record);
 
     const stats = {
       totalTasks: instance.tasks.length,
@@ -718,7 +938,8 @@ export class WorkflowEngineService {
       progress: instance.progress,
       estimatedHours: instance.tasks.reduce((sum, task) => sum + task.estimatedHours, 0),
       actualHours: instance.tasks.reduce((sum, task) => sum + (task.actualHours || 0), 0),
-      efficiency: 0
+      efficiency: 0,
+      criticalPath: this.buildCriticalPath(instance.startDate, record.tasks)
     };
 
     // 计算效率 (预估时间 vs 实际时间)
@@ -728,4 +949,360 @@ export class WorkflowEngineService {
 
     return stats;
   }
+
+  // ==================== 依赖与关键路径 ====================
+
+  /**
+   * 校验模板任务依赖：依赖必须指向模板内已存在的任务，且不得形成循环
+   */
+  validateTemplateDependencies(template: WorkflowTemplate): void {
+    const tasks = template.phases.flatMap(phase => phase.tasks);
+    const taskIds = new Set<string>();
+
+    for (const task of tasks) {
+      if (taskIds.has(task.id)) {
+        throw new Error(`工作流模板任务 ID 重复: ${task.id}`);
+      }
+      taskIds.add(task.id);
+    }
+
+    for (const task of tasks) {
+      const missing = task.dependencies.filter(dependency => !taskIds.has(dependency));
+      if (missing.length > 0) {
+        throw new Error(`任务 ${task.id} 依赖了不存在的任务: ${missing.join(', ')}`);
+      }
+    }
+
+    const cycle = this.findDependencyCycle(tasks.map(task => ({ id: task.id, dependencies: task.dependencies })));
+    if (cycle) {
+      throw new Error(`工作流模板 ${template.id} 存在循环依赖: ${cycle.join(' -> ')}`);
+    }
+  }
+
+  /**
+   * 深度优先查找依赖环，返回环上的节点序列（首尾相同）
+   */
+  private findDependencyCycle(nodes: Array<{ id: string; dependencies: string[] }>): string[] | null {
+    const dependencyMap = new Map(nodes.map(node => [node.id, node.dependencies]));
+    const state = new Map<string, 'visiting' | 'visited'>();
+    const path: string[] = [];
+
+    const visit = (id: string): string[] | null => {
+      if (state.get(id) === 'visited') {
+        return null;
+      }
+      if (state.get(id) === 'visiting') {
+        return [...path.slice(path.indexOf(id)), id];
+      }
+
+      state.set(id, 'visiting');
+      path.push(id);
+      for (const dependency of dependencyMap.get(id) ?? []) {
+        const cycle = visit(dependency);
+        if (cycle) {
+          return cycle;
+        }
+      }
+      path.pop();
+      state.set(id, 'visited');
+      return null;
+    };
+
+    for (const node of nodes) {
+      const cycle = visit(node.id);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 获取任务的前置任务（依赖以模板任务 ID 记录）
+   */
+  private getDependencyTasks(task: PrismaTask, tasks: PrismaTask[]): PrismaTask[] {
+    return task.dependencies
+      .map(dependency => tasks.find(t => t.templateTaskId === dependency))
+      .filter((t): t is PrismaTask => t !== undefined);
+  }
+
+  /**
+   * 按依赖关系拓扑排序，前置任务在前
+   */
+  private sortByDependencies(tasks: PrismaTask[]): PrismaTask[] {
+    const remaining = new Map(tasks.map(task => [task.id, this.getDependencyTasks(task, tasks).length]));
+    const dependents = new Map<string, PrismaTask[]>();
+    for (const task of tasks) {
+      for (const dependency of this.getDependencyTasks(task, tasks)) {
+        dependents.set(dependency.id, [...(dependents.get(dependency.id) ?? []), task]);
+      }
+    }
+
+    const queue = tasks.filter(task => remaining.get(task.id) === 0);
+    const sorted: PrismaTask[] = [];
+    while (queue.length > 0) {
+      const task = queue.shift()!;
+      sorted.push(task);
+      for (const dependent of dependents.get(task.id) ?? []) {
+        const count = (remaining.get(dependent.id) ?? 0) - 1;
+        remaining.set(dependent.id, count);
+        if (count === 0) {
+          queue.push(dependent);
+        }
+      }
+    }
+
+    // 模板创建时已校验无环，这里兜底保留剩余任务
+    return [...sorted, ...tasks.filter(task => !sorted.includes(task))];
+  }
+
+  /**
+   * 阻塞状态传播
+   *
+   * 前置任务为 BLOCKED 时，待处理的下游任务自动转为 BLOCKED；前置任务解除阻塞后恢复为 PENDING。
+   * 手动标记的 BLOCKED（无 dependency: 前缀）不会被自动解除。
+   */
+  private async propagateBlockedStatus(tx: Prisma.TransactionClient, tasks: PrismaTask[]): Promise<PrismaTask[]> {
+    const current = new Map(tasks.map(task => [task.id, task]));
+
+    for (const task of this.sortByDependencies(tasks)) {
+      const latest = current.get(task.id)!;
+      const autoBlocked = latest.status === 'blocked'
+        && latest.blockedReason?.startsWith(DEPENDENCY_BLOCK_PREFIX) === true;
+      if (latest.status !== 'pending' && !autoBlocked) {
+        continue;
+      }
+
+      const blocker = this.getDependencyTasks(latest, tasks)
+        .map(dependency => current.get(dependency.id)!)
+        .find(dependency => dependency.status === 'blocked');
+
+      let next: { status: string; blockedReason: string | null } | null = null;
+      if (blocker && latest.status === 'pending') {
+        next = { status: 'blocked', blockedReason: `${DEPENDENCY_BLOCK_PREFIX}${blocker.templateTaskId}` };
+      } else if (!blocker && autoBlocked) {
+        next = { status: 'pending', blockedReason: null };
+      }
+
+      if (next) {
+        current.set(task.id, await tx.task.update({ where: { id: task.id }, data: next }));
+        this.logger.log(`任务阻塞状态传播: ${task.title} -> ${next.status.toUpperCase()}`);
+      }
+    }
+
+    return tasks.map(task => current.get(task.id)!);
+  }
+
+  /**
+   * 计算排期
+   *
+   * 计划日取模板中的第 N 天；未完成任务的预计日不早于今天，且与前置任务保持计划中的间隔，
+   * 因此前置任务顺延会沿依赖链传递到下游。已完成任务以实际完成日为准。
+   */
+  private computeSchedule(startDate: Date, tasks: PrismaTask[], now = new Date()): Map<string, ScheduledTask> {
+    const schedule = new Map<string, ScheduledTask>();
+    const today = this.toDayIndex(startDate, now);
+
+    for (const task of this.sortByDependencies(tasks)) {
+      const plannedDay = task.day ?? this.toDayIndex(startDate, task.dueDate ?? task.createdAt);
+
+      if (task.status === 'completed') {
+        const completedDay = task.completedAt ? this.toDayIndex(startDate, task.completedAt) : plannedDay;
+        schedule.set(task.id, { plannedDay, projectedDay: completedDay, drivenBy: null });
+        continue;
+      }
+
+      let projectedDay = Math.max(plannedDay, today);
+      let drivenBy: string | null = null;
+      for (const dependency of this.getDependencyTasks(task, tasks)) {
+        const scheduled = schedule.get(dependency.id);
+        if (!scheduled) {
+          continue;
+        }
+        const candidate = scheduled.projectedDay + Math.max(1, plannedDay - scheduled.plannedDay);
+        if (candidate >= projectedDay) {
+          projectedDay = candidate;
+          drivenBy = dependency.id;
+        }
+      }
+
+      schedule.set(task.id, { plannedDay, projectedDay, drivenBy });
+    }
+
+    return schedule;
+  }
+
+  /**
+   * 将顺延后的截止日期写回未完成任务
+   */
+  private async rescheduleDueDates(tx: Prisma.TransactionClient, startDate: Date, tasks: PrismaTask[]) {
+    const schedule = this.computeSchedule(startDate, tasks);
+
+    for (const task of tasks) {
+      const scheduled = schedule.get(task.id);
+      if (!scheduled || task.status === 'completed') {
+        continue;
+      }
+
+      const dueDate = this.fromDayIndex(startDate, scheduled.projectedDay);
+      if (!task.dueDate || this.toDayIndex(startDate, task.dueDate) !== scheduled.projectedDay) {
+        await tx.task.update({ where: { id: task.id }, data: { dueDate } });
+        this.logger.log(`任务截止日期顺延: ${task.title} -> ${dueDate.toISOString().slice(0, 10)}`);
+      }
+    }
+  }
+
+  /**
+   * 关键路径：从预计最晚完成的任务沿决定其日期的前置任务回溯
+   */
+  private buildCriticalPath(startDate: Date, tasks: PrismaTask[]): WorkflowCriticalPath {
+    const schedule = this.computeSchedule(startDate, tasks);
+
+    let plannedEndDay = 0;
+    let endTaskId: string | null = null;
+    let projectedEndDay = 0;
+    for (const [taskId, scheduled] of schedule) {
+      plannedEndDay = Math.max(plannedEndDay, scheduled.plannedDay);
+      if (scheduled.projectedDay > projectedEndDay) {
+        projectedEndDay = scheduled.projectedDay;
+        endTaskId = taskId;
+      }
+    }
+
+    const taskIds: string[] = [];
+    for (let taskId = endTaskId; taskId; taskId = schedule.get(taskId)?.drivenBy ?? null) {
+      taskIds.unshift(taskId);
+    }
+
+    return {
+      taskIds,
+      plannedEndDate: this.fromDayIndex(startDate, plannedEndDay),
+      projectedEndDate: this.fromDayIndex(startDate, projectedEndDay),
+      slippedDays: Math.max(0, projectedEndDay - plannedEndDay),
+    };
+  }
+
+  /**
+   * 日期 -> 执行周期第 N 天（开始日为第 1 天，按 UTC 自然日计算）
+   */
+  private toDayIndex(startDate: Date, date: Date): number {
+    const startDay = Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate());
+    const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    return Math.round((day - startDay) / DAY_MS) + 1;
+  }
+
+  private fromDayIndex(startDate: Date, dayIndex: number): Date {
+    const startDay = Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate());
+    return new Date(startDay + (dayIndex - 1) * DAY_MS);
+  }
+
+  // ==================== 持久化映射 ====================
+
+  private async findInstanceOrThrow(instanceId: string) {
+    const instance = await this.prisma.workflowInstance.findUnique({ where: { id: instanceId } });
+    if (!instance) {
+      throw new Error(`工作流实例不存在: ${instanceId}`);
+    }
+    return instance;
+  }
+
+  /**
+   * 工作流模板 -> 版本快照
+   */
+  toTemplateSnapshot(template: WorkflowTemplate): WorkflowTemplateSnapshot {
+    return {
+      name: template.name,
+      description: template.description,
+      totalDays: template.totalDays,
+      phases: template.phases,
+    };
+  }
+
+  /**
+   * 阶段以 JSON 存储，日期字段需要还原为 Date
+   */
+  private restorePhases(stages: unknown): WorkflowPhase[] {
+    return (stages as WorkflowPhase[]).map(phase => ({
+      ...phase,
+      tasks: phase.tasks.map(task => ({
+        ...task,
+        dueDate: new Date(task.dueDate),
+        createdAt: new Date(task.createdAt),
+        updatedAt: new Date(task.updatedAt),
+      })),
+    }));
+  }
+
+  /**
+   * workflows 记录 -> 工作流模板
+   */
+  private toWorkflowTemplate(record: PrismaWorkflow): WorkflowTemplate {
+    const phases = this.restorePhases(record.stages);
+
+    return {
+      id: record.id,
+      name: record.name,
+      description: record.description ?? '',
+      totalDays: record.totalDays ?? Math.max(0, ...phases.map(phase => phase.endDay)),
+      phases,
+      version: record.version,
+      archived: !record.isActive,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  /**
+   * workflow_instances 记录 -> 工作流实例
+   */
+  private toWorkflowInstance(record: WorkflowInstanceWithTasks): WorkflowInstance {
+    return {
+      id: record.id,
+      templateId: record.workflowId,
+      templateVersion: record.templateVersion ?? 1,
+      name: record.name ?? '',
+      description: record.description ?? '',
+      startDate: record.startDate ?? record.startedAt,
+      endDate: record.endDate ?? record.startedAt,
+      status: record.status.toUpperCase() as WorkflowInstance['status'],
+      progress: record.progress,
+      currentPhase: record.currentStage ?? '',
+      currentWeek: record.currentWeek ?? 1,
+      currentDay: record.currentDay ?? 1,
+      tasks: record.tasks.map(task => this.toWorkflowTask(task)),
+      metadata: (record.metadata as Record<string, any>) ?? {},
+      createdAt: record.startedAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  /**
+   * tasks 记录 -> 工作流任务
+   */
+  private toWorkflowTask(record: PrismaTask): WorkflowTask {
+    return {
+      id: record.id,
+      ...(record.templateTaskId !== null && { templateTaskId: record.templateTaskId }),
+      title: record.title,
+      description: record.description ?? '',
+      type: record.taskType.toUpperCase() as WorkflowTask['type'],
+      priority: normalizePriorityTier(record.priority) ?? PriorityTier.P4,
+      status: record.status.toUpperCase() as WorkflowTask['status'],
+      ...(record.blockedReason !== null && { blockedReason: record.blockedReason }),
+      ...(record.assignedTo !== null && { assignee: record.assignedTo }),
+      estimatedHours: Number(record.estimatedHours ?? 0),
+      ...(record.actualHours !== null && { actualHours: Number(record.actualHours) }),
+      dueDate: record.dueDate ?? record.createdAt,
+      dependencies: record.dependencies,
+      week: record.week ?? 0,
+      day: record.day ?? 0,
+      phase: record.phase ?? '',
+      deliverables: record.deliverables,
+      tools: record.tools,
+      successCriteria: record.successCriteria,
+      resources: record.resources,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,559 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { plainToInstance, Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+  ValidationError,
+  validateSync,
+} from 'class-validator';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { PRIORITY_TIERS } from '@geo-platform/shared';
+import { PrismaService } from '../common/prisma.service';
+import {
+  CAMPAIGN_WORKFLOW_TYPE,
+  WorkflowEngineService,
+  WorkflowPhase,
+  WorkflowTask,
+  WorkflowTemplate,
+} from './workflow-engine.service';
+
+// ==================== 模板定义 DSL ====================
+
+export const WORKFLOW_TASK_TYPES: WorkflowTask['type'][] = [
+  'KEYWORD_RESEARCH',
+  'CONTENT_CREATION',
+  'REVIEW',
+  'PUBLICATION',
+  'MONITORING',
+  'OPTIMIZATION',
+];
+
+export const WORKFLOW_TASK_PRIORITIES: WorkflowTask['priority'][] = [...PRIORITY_TIERS];
+
+export type WorkflowTemplateFormat = 'json' | 'yaml';
+
+/** 模板、阶段、任务 ID：小写字母、数字和连字符 */
+const DEFINITION_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 任务定义
+ *
+ * day 为相对模板开始日的第 N 天，dependencies 引用同一模板内的任务 ID
+ */
+export class WorkflowTaskDefinition {
+  @IsString()
+  @Matches(DEFINITION_ID_PATTERN, { message: 'id 只能包含小写字母、数字和连字符' })
+  @MaxLength(64)
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsIn(WORKFLOW_TASK_TYPES)
+  type: WorkflowTask['type'];
+
+  @IsIn(WORKFLOW_TASK_PRIORITIES)
+  priority: WorkflowTask['priority'];
+
+  @IsInt()
+  @Min(1)
+  day: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(999)
+  estimatedHours: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  dependencies?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  deliverables?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tools?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  successCriteria?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  resources?: string[];
+}
+
+/**
+ * 阶段定义
+ */
+export class WorkflowPhaseDefinition {
+  @IsString()
+  @Matches(DEFINITION_ID_PATTERN, { message: 'id 只能包含小写字母、数字和连字符' })
+  @MaxLength(64)
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsInt()
+  @Min(1)
+  startDay: number;
+
+  @IsInt()
+  @Min(1)
+  endDay: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  objectives?: string[];
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => WorkflowTaskDefinition)
+  tasks: WorkflowTaskDefinition[];
+}
+
+/**
+ * 模板定义（JSON / YAML 文档的根节点）
+ */
+export class WorkflowTemplateDefinition {
+  @IsString()
+  @Matches(DEFINITION_ID_PATTERN, { message: 'id 只能包含小写字母、数字和连字符' })
+  @MaxLength(64)
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  totalDays: number;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => WorkflowPhaseDefinition)
+  phases: WorkflowPhaseDefinition[];
+}
+
+export interface WorkflowTemplateVersionSummary {
+  version: number;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+/**
+ * 模板定义校验失败
+ */
+export class WorkflowTemplateValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`工作流模板定义无效: ${errors.join('; ')}`);
+    this.name = 'WorkflowTemplateValidationError';
+  }
+}
+
+// ==================== 模板管理服务 ====================
+
+@Injectable()
+export class WorkflowTemplateService {
+  private readonly logger = new Logger(WorkflowTemplateService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly workflowEngine: WorkflowEngineService,
+  ) {}
+
+  /**
+   * 解析并校验模板定义
+   */
+  parseDefinition(source: string, format: WorkflowTemplateFormat): WorkflowTemplateDefinition {
+    let raw: unknown;
+    try {
+      raw = format === 'yaml' ? parseYaml(source) : JSON.parse(source);
+    } catch (error) {
+      throw new WorkflowTemplateValidationError([`无法解析 ${format.toUpperCase()}: ${error.message}`]);
+    }
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new WorkflowTemplateValidationError(['模板定义必须是对象']);
+    }
+
+    const definition = plainToInstance(WorkflowTemplateDefinition, raw);
+    const schemaErrors = this.flattenValidationErrors(
+      validateSync(definition, { whitelist: true, forbidNonWhitelisted: true }),
+    );
+    if (schemaErrors.length > 0) {
+      throw new WorkflowTemplateValidationError(schemaErrors);
+    }
+
+    const errors = this.validateSchedule(definition);
+    if (errors.length === 0) {
+      try {
+        this.workflowEngine.validateTemplateDependencies(this.toWorkflowTemplate(definition));
+      } catch (error) {
+        errors.push(error.message);
+      }
+    }
+    if (errors.length > 0) {
+      throw new WorkflowTemplateValidationError(errors);
+    }
+
+    return definition;
+  }
+
+  /**
+   * 创建模板（版本 1）
+   */
+  async createTemplate(
+    source: string,
+    format: WorkflowTemplateFormat,
+    userId?: string,
+  ): Promise<WorkflowTemplate> {
+    const definition = this.parseDefinition(source, format);
+    const template = await this.saveNewTemplate(this.toWorkflowTemplate(definition), userId);
+
+    this.logger.log(`创建工作流模板: ${template.name} (${template.id})`);
+    return template;
+  }
+
+  /**
+   * 更新模板定义，生成新版本
+   *
+   * 已创建的实例保留其创建时的任务和 templateVersion，不受更新影响
+   */
+  async updateTemplate(
+    templateId: string,
+    source: string,
+    format: WorkflowTemplateFormat,
+    userId?: string,
+  ): Promise<WorkflowTemplate> {
+    const definition = this.parseDefinition(source, format);
+    if (definition.id !== templateId) {
+      throw new WorkflowTemplateValidationError([`定义中的 id (${definition.id}) 与模板 ${templateId} 不一致`]);
+    }
+
+    const template = this.toWorkflowTemplate(definition);
+    const snapshot = this.workflowEngine.toTemplateSnapshot(template);
+
+    const version = await this.prisma.$transaction(async tx => {
+      const record = await tx.workflow.findFirst({
+        where: { id: templateId, workflowType: CAMPAIGN_WORKFLOW_TYPE },
+      });
+      if (!record) {
+        throw new Error(`工作流模板不存在: ${templateId}`);
+      }
+      if (!record.isActive) {
+        throw new Error(`工作流模板已归档: ${templateId}`);
+      }
+
+      const nextVersion = record.version + 1;
+
+      // 以当前版本号做乐观锁，避免并发更新产生相同版本
+      const { count } = await tx.workflow.updateMany({
+        where: { id: templateId, version: record.version },
+        data: {
+          name: snapshot.name,
+          description: snapshot.description,
+          stages: snapshot.phases as unknown as Prisma.InputJsonValue,
+          totalDays: snapshot.totalDays,
+          version: nextVersion,
+        },
+      });
+      if (count === 0) {
+        throw new Error(`工作流模板已被其他用户更新，请刷新后重试: ${templateId}`);
+      }
+
+      await tx.workflowTemplateVersion.create({
+        data: {
+          workflowId: templateId,
+          version: nextVersion,
+          definition: snapshot as unknown as Prisma.InputJsonValue,
+          createdBy: userId ?? null,
+        },
+      });
+
+      return nextVersion;
+    });
+
+    this.logger.log(`更新工作流模板: ${templateId} -> v${version}`);
+    return (await this.workflowEngine.getWorkflowTemplate(templateId))!;
+  }
+
+  /**
+   * 克隆模板为新模板（版本从 1 开始）
+   */
+  async cloneTemplate(
+    templateId: string,
+    newTemplateId: string,
+    name?: string,
+    userId?: string,
+  ): Promise<WorkflowTemplate> {
+    const source = await this.workflowEngine.getWorkflowTemplate(templateId, { includeArchived: true });
+    if (!source) {
+      throw new Error(`工作流模板不存在: ${templateId}`);
+    }
+
+    const definition = {
+      ...this.toDefinition(source),
+      id: newTemplateId,
+      name: name ?? `${source.name} (副本)`,
+    };
+    const template = await this.saveNewTemplate(
+      this.toWorkflowTemplate(this.parseDefinition(JSON.stringify(definition), 'json')),
+      userId,
+    );
+
+    this.logger.log(`克隆工作流模板: ${templateId} -> ${newTemplateId}`);
+    return template;
+  }
+
+  /**
+   * 归档模板：不再用于创建新实例，运行中的实例不受影响
+   */
+  async archiveTemplate(templateId: string): Promise<WorkflowTemplate> {
+    const template = await this.workflowEngine.getWorkflowTemplate(templateId, { includeArchived: true });
+    if (!template) {
+      throw new Error(`工作流模板不存在: ${templateId}`);
+    }
+
+    await this.prisma.workflow.update({
+      where: { id: templateId },
+      data: { isActive: false },
+    });
+
+    this.logger.log(`归档工作流模板: ${templateId}`);
+    return { ...template, archived: true };
+  }
+
+  /**
+   * 获取模板版本历史（新版本在前）
+   */
+  async getTemplateVersions(templateId: string): Promise<WorkflowTemplateVersionSummary[]> {
+    return this.prisma.workflowTemplateVersion.findMany({
+      where: { workflowId: templateId },
+      select: { version: true, createdBy: true, createdAt: true },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  /**
+   * 导出模板定义，version 缺省时导出当前版本
+   */
+  async exportTemplate(
+    templateId: string,
+    format: WorkflowTemplateFormat,
+    version?: number,
+  ): Promise<string> {
+    const template = version !== undefined
+      ? await this.workflowEngine.getWorkflowTemplateVersion(templateId, version)
+      : await this.workflowEngine.getWorkflowTemplate(templateId, { includeArchived: true });
+    if (!template) {
+      throw new Error(`工作流模板不存在: ${templateId}${version !== undefined ? ` v${version}` : ''}`);
+    }
+
+    const definition = this.toDefinition(template);
+    return format === 'yaml' ? stringifyYaml(definition) : JSON.stringify(definition, null, 2);
+  }
+
+  // ==================== 私有方法 ====================
+
+  private async saveNewTemplate(template: WorkflowTemplate, userId?: string): Promise<WorkflowTemplate> {
+    const existing = await this.prisma.workflow.findUnique({ where: { id: template.id } });
+    if (existing) {
+      throw new Error(`工作流模板已存在: ${template.id}`);
+    }
+
+    const snapshot = this.workflowEngine.toTemplateSnapshot(template);
+    await this.prisma.workflow.create({
+      data: {
+        id: template.id,
+        name: snapshot.name,
+        description: snapshot.description,
+        workflowType: CAMPAIGN_WORKFLOW_TYPE,
+        stages: snapshot.phases as unknown as Prisma.InputJsonValue,
+        totalDays: snapshot.totalDays,
+        version: 1,
+        createdBy: userId ?? null,
+        versions: {
+          create: {
+            version: 1,
+            definition: snapshot as unknown as Prisma.InputJsonValue,
+            createdBy: userId ?? null,
+          },
+        },
+      },
+    });
+
+    return (await this.workflowEngine.getWorkflowTemplate(template.id))!;
+  }
+
+  /**
+   * 校验阶段与任务的日期范围
+   */
+  private validateSchedule(definition: WorkflowTemplateDefinition): string[] {
+    const errors: string[] = [];
+    const phaseIds = new Set<string>();
+
+    definition.phases.forEach((phase, phaseIndex) => {
+      const path = `phases[${phaseIndex}]`;
+
+      if (phaseIds.has(phase.id)) {
+        errors.push(`${path}.id: 阶段 ID 重复 (${phase.id})`);
+      }
+      phaseIds.add(phase.id);
+
+      if (phase.startDay > phase.endDay) {
+        errors.push(`${path}: startDay (${phase.startDay}) 不能大于 endDay (${phase.endDay})`);
+      }
+      if (phase.endDay > definition.totalDays) {
+        errors.push(`${path}.endDay: 超出模板总天数 ${definition.totalDays}`);
+      }
+
+      phase.tasks.forEach((task, taskIndex) => {
+        if (task.day < phase.startDay || task.day > phase.endDay) {
+          errors.push(
+            `${path}.tasks[${taskIndex}].day: 第 ${task.day} 天不在阶段范围 ${phase.startDay}-${phase.endDay} 内`,
+          );
+        }
+      });
+    });
+
+    return errors;
+  }
+
+  /**
+   * class-validator 错误 -> 带路径的错误信息
+   */
+  private flattenValidationErrors(errors: ValidationError[], parentPath = ''): string[] {
+    return errors.flatMap(error => {
+      const isIndex = /^\d+$/.test(error.property);
+      const path = isIndex
+        ? `${parentPath}[${error.property}]`
+        : parentPath ? `${parentPath}.${error.property}` : error.property;
+
+      const messages = Object.values(error.constraints ?? {}).map(message => `${path}: ${message}`);
+      return [...messages, ...this.flattenValidationErrors(error.children ?? [], path)];
+    });
+  }
+
+  /**
+   * 模板定义 -> 工作流模板
+   */
+  private toWorkflowTemplate(definition: WorkflowTemplateDefinition): WorkflowTemplate {
+    const now = new Date();
+
+    const phases: WorkflowPhase[] = definition.phases.map(phase => ({
+      id: phase.id,
+      name: phase.name,
+      description: phase.description ?? '',
+      startDay: phase.startDay,
+      endDay: phase.endDay,
+      objectives: phase.objectives ?? [],
+      tasks: phase.tasks.map(task => ({
+        id: task.id,
+        title: task.title,
+        description: task.description ?? '',
+        type: task.type,
+        priority: task.priority,
+        status: 'PENDING' as const,
+        estimatedHours: task.estimatedHours,
+        dueDate: new Date(now.getTime() + task.day * DAY_MS),
+        dependencies: task.dependencies ?? [],
+        week: Math.ceil(task.day / 7),
+        day: task.day,
+        phase: phase.id,
+        deliverables: task.deliverables ?? [],
+        tools: task.tools ?? [],
+        successCriteria: task.successCriteria ?? [],
+        resources: task.resources ?? [],
+        createdAt: now,
+        updatedAt: now,
+      })),
+    }));
+
+    return {
+      id: definition.id,
+      name: definition.name,
+      description: definition.description ?? '',
+      totalDays: definition.totalDays,
+      phases,
+      version: 1,
+      archived: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * 工作流模板 -> 模板定义（用于导出和克隆）
+   */
+  private toDefinition(template: WorkflowTemplate): WorkflowTemplateDefinition {
+    return {
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      totalDays: template.totalDays,
+      phases: template.phases.map(phase => ({
+        id: phase.id,
+        name: phase.name,
+        description: phase.description,
+        startDay: phase.startDay,
+        endDay: phase.endDay,
+        objectives: phase.objectives,
+        tasks: phase.tasks.map(task => ({
+          id: task.id,
+          title: task.title,
+          description: task.description,
+          type: task.type,
+          priority: task.priority,
+          day: task.day,
+          estimatedHours: task.estimatedHours,
+          dependencies: task.dependencies,
+          deliverables: task.deliverables,
+          tools: task.tools,
+          successCriteria: task.successCriteria,
+          resources: task.resources,
+        })),
+      })),
+    };
+  }
+}
@@ -4,6 +4,7 @@ import { GraphQLModule } from '@nestjs/graphql';
 import { ApolloDriver, ApolloDriverConfig } from '@nestjs/apollo';
 import { ConfigModule } from '@nestjs/config';
 import { GEOModule } from './modules/geo/geo.module';
+import { JobsModule } from './modules/jobs/jobs.module';
 
 @Module({
   imports: [
@@ -18,7 +19,8 @@ import { GEOModule } from './modules/geo/geo.module';
       introspection: true,
       context: () => ({}),
     }),
-    GEOModule
+    GEOModule,
+    JobsModule
   ]
 })
 class GEOTestModule {}
@@ -44,12 +46,14 @@ async function bootstrap() {
   console.log(`   • AI引用实时监测`);
   console.log(`   • FAQ智能重构系统`);
   console.log(`   • AI引擎兼容性评估`);
+  console.log(`   • 定时任务队列（关键词指标、引用巡检、效果周报）`);
   console.log('');
   console.log('📝 可用查询示例:');
   console.log('   query { geoStatus }');
   console.log('   query { geoHealthCheck }');
   console.log('   query { geoCapabilities }');
   console.log('   query { getAICitationInsights }');
+  console.log('   query { jobQueueStats { enabled waiting deadLetter jobs { name cron nextRunAt } } }');
   console.log('');
   console.log('💡 可用变更示例:');
   console.log('   mutation { optimizeContentForGEO(...) }');
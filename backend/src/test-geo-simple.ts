@@ -1,5 +1,9 @@
 import { GEOCoreEngineService } from './services/geo-core-engine.service';
 import { AICitationMonitorService } from './services/ai-citation-monitor.service';
+import { CitationObservationService } from './services/citation-observation.service';
+import { AlertRulesService } from './services/alert-rules.service';
+import { MonitoringQueryService } from './services/monitoring-query.service';
+import { PrismaService } from './common/prisma.service';
 import { FAQRestructuringService } from './services/faq-restructuring.service';
 import { ShortVideoContentService } from './services/short-video-content.service';
 import { AmazonRufusOptimizationService } from './services/amazon-rufus-optimization.service';
@@ -29,7 +33,16 @@ async function testGEOServices() {
 
     // 2. 测试AI引用监测
     console.log('🔍 测试 AI 引用监测服务...');
-    const citationMonitor = new AICitationMonitorService(mockConfigService);
+    const prisma = new PrismaService();
+    const monitoringQueries = new MonitoringQueryService(prisma);
+    await monitoringQueries.onModuleInit(); // 初始化默认查询组
+    const citationObservations = new CitationObservationService(prisma);
+    const citationMonitor = new AICitationMonitorService(
+      mockConfigService,
+      citationObservations,
+      monitoringQueries,
+      new AlertRulesService(prisma, mockConfigService, citationObservations),
+    );
     
     const citationInsights = await citationMonitor.monitorAICitations();
     console.log(`✅ 引用监测完成，总引用数: ${citationInsights.totalCitations}`);
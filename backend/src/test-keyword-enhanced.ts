@@ -127,9 +127,6 @@ class PriorityDistribution {
   @Field()
   P4: number = 0;
 
-  @Field()
-  P5: number = 0;
-
   @Field()
   total: number = 0;
 }
@@ -150,9 +147,6 @@ class PriorityDistributionPercentages {
 
   @Field()
   P4: string = '';
-
-  @Field()
-  P5: string = '';
 }
 
 @ObjectType()
@@ -465,7 +459,6 @@ class KeywordService {
         P2: distribution.P2,
         P3: distribution.P3,
         P4: distribution.P4,
-        P5: distribution.P5,
         total: distribution.total,
       },
       percentages: distribution.percentages as PriorityDistributionPercentages,
@@ -526,7 +519,7 @@ class KeywordResolver {
 
   @Query(() => String)
   async keywordHealth(): Promise<string> {
-    return 'Enhanced Keyword module with P0-P5 grading and AIO scoring! 🚀';
+    return 'Enhanced Keyword module with P0-P4 grading and AIO scoring! 🚀';
   }
 
   @Query(() => Keyword, { nullable: true })
@@ -612,7 +605,7 @@ async function bootstrap() {
   
   console.log(`🚀 Enhanced Keyword API running on http://localhost:${port}`);
   console.log(`📊 GraphQL Playground: http://localhost:${port}/graphql`);
-  console.log(`🎯 Features: P0-P5 Auto-grading | AIO Adaptability Scoring`);
+  console.log(`🎯 Features: P0-P4 Auto-grading | AIO Adaptability Scoring`);
   console.log(`📈 Sample keywords with automatic priority and AIO analysis loaded!`);
 }
 
@@ -6,8 +6,10 @@ import { ConfigModule } from '@nestjs/config';
 import { ValidationPipe } from '@nestjs/common';
 import { Resolver, Query, Mutation, Args, ObjectType, Field, InputType } from '@nestjs/graphql';
 import { Injectable } from '@nestjs/common';
-import { IsString, IsOptional, IsNumber, IsEnum, IsDateString } from 'class-validator';
+import { IsString, IsOptional, IsNumber, IsEnum, IsDateString, IsIn } from 'class-validator';
 import { WorkflowEngineService, WorkflowTask, WorkflowTemplate, WorkflowInstance } from './services/workflow-engine.service';
+import { WorkflowTemplateService, WorkflowTemplateFormat, WorkflowTemplateVersionSummary } from './services/workflow-template.service';
+import { PrismaService } from './common/prisma.service';
 
 // GraphQL Types
 @ObjectType()
@@ -114,6 +116,12 @@ class WorkflowTemplateType {
   @Field(() => [WorkflowPhaseType])
   phases: WorkflowPhaseType[] = [];
 
+  @Field()
+  version: number = 1;
+
+  @Field()
+  archived: boolean = false;
+
   @Field()
   createdAt: Date = new Date();
 
@@ -129,6 +137,9 @@ class WorkflowInstanceType {
   @Field()
   templateId: string = '';
 
+  @Field()
+  templateVersion: number = 1;
+
   @Field()
   name: string = '';
 
@@ -196,7 +207,46 @@ class WorkflowStatsType {
   efficiency: number = 0;
 }
 
+@ObjectType()
+class WorkflowTemplateVersionType {
+  @Field()
+  version: number = 0;
+
+  @Field({ nullable: true })
+  createdBy: string = '';
+
+  @Field()
+  createdAt: Date = new Date();
+}
+
 // Input Types
+@InputType()
+class WorkflowTemplateDefinitionInput {
+  @Field()
+  @IsString()
+  definition: string = '';
+
+  @Field({ defaultValue: 'json' })
+  @IsIn(['json', 'yaml'])
+  format: string = 'json';
+}
+
+@InputType()
+class CloneWorkflowTemplateInput {
+  @Field()
+  @IsString()
+  templateId: string = '';
+
+  @Field()
+  @IsString()
+  newTemplateId: string = '';
+
+  @Field({ nullable: true })
+  @IsOptional()
+  @IsString()
+  name?: string;
+}
+
 @InputType()
 class CreateWorkflowInstanceInput {
   @Field()
@@ -239,7 +289,10 @@ class UpdateTaskStatusInput {
 // Service
 @Injectable()
 class WorkflowService {
-  constructor(private workflowEngine: WorkflowEngineService) {}
+  constructor(
+    private workflowEngine: WorkflowEngineService,
+    private workflowTemplates: WorkflowTemplateService
+  ) {}
 
   async getAllTemplates(): Promise<WorkflowTemplate[]> {
     return this.workflowEngine.getAllWorkflowTemplates();
@@ -249,6 +302,34 @@ class WorkflowService {
     return this.workflowEngine.getWorkflowTemplate(id);
   }
 
+  async getTemplateVersion(id: string, version: number): Promise<WorkflowTemplate | null> {
+    return this.workflowEngine.getWorkflowTemplateVersion(id, version);
+  }
+
+  async getTemplateVersions(id: string): Promise<WorkflowTemplateVersionSummary[]> {
+    return this.workflowTemplates.getTemplateVersions(id);
+  }
+
+  async exportTemplate(id: string, format: string, version?: number): Promise<string> {
+    return this.workflowTemplates.exportTemplate(id, format as WorkflowTemplateFormat, version);
+  }
+
+  async createTemplate(input: WorkflowTemplateDefinitionInput): Promise<WorkflowTemplate> {
+    return this.workflowTemplates.createTemplate(input.definition, input.format as WorkflowTemplateFormat);
+  }
+
+  async updateTemplate(id: string, input: WorkflowTemplateDefinitionInput): Promise<WorkflowTemplate> {
+    return this.workflowTemplates.updateTemplate(id, input.definition, input.format as WorkflowTemplateFormat);
+  }
+
+  async cloneTemplate(input: CloneWorkflowTemplateInput): Promise<WorkflowTemplate> {
+    return this.workflowTemplates.cloneTemplate(input.templateId, input.newTemplateId, input.name);
+  }
+
+  async archiveTemplate(id: string): Promise<WorkflowTemplate> {
+    return this.workflowTemplates.archiveTemplate(id);
+  }
+
   async createInstance(input: CreateWorkflowInstanceInput): Promise<WorkflowInstance> {
     return this.workflowEngine.createWorkflowInstance(
       input.templateId,
@@ -308,6 +389,28 @@ class WorkflowResolver {
     return this.workflowService.getTemplate(id);
   }
 
+  @Query(() => WorkflowTemplateType, { nullable: true })
+  async workflowTemplateVersion(
+    @Args('id') id: string,
+    @Args('version') version: number
+  ): Promise<WorkflowTemplate | null> {
+    return this.workflowService.getTemplateVersion(id, version);
+  }
+
+  @Query(() => [WorkflowTemplateVersionType])
+  async workflowTemplateVersions(@Args('id') id: string): Promise<WorkflowTemplateVersionSummary[]> {
+    return this.workflowService.getTemplateVersions(id);
+  }
+
+  @Query(() => String)
+  async exportWorkflowTemplate(
+    @Args('id') id: string,
+    @Args('format', { defaultValue: 'json' }) format: string,
+    @Args('version', { nullable: true }) version?: number
+  ): Promise<string> {
+    return this.workflowService.exportTemplate(id, format, version);
+  }
+
   @Query(() => [WorkflowInstanceType])
   async workflowInstances(): Promise<WorkflowInstance[]> {
     return this.workflowService.getAllInstances();
@@ -329,6 +432,29 @@ class WorkflowResolver {
     return stats as WorkflowStatsType;
   }
 
+  @Mutation(() => WorkflowTemplateType)
+  async createWorkflowTemplate(@Args('input') input: WorkflowTemplateDefinitionInput): Promise<WorkflowTemplate> {
+    return this.workflowService.createTemplate(input);
+  }
+
+  @Mutation(() => WorkflowTemplateType)
+  async updateWorkflowTemplate(
+    @Args('id') id: string,
+    @Args('input') input: WorkflowTemplateDefinitionInput
+  ): Promise<WorkflowTemplate> {
+    return this.workflowService.updateTemplate(id, input);
+  }
+
+  @Mutation(() => WorkflowTemplateType)
+  async cloneWorkflowTemplate(@Args('input') input: CloneWorkflowTemplateInput): Promise<WorkflowTemplate> {
+    return this.workflowService.cloneTemplate(input);
+  }
+
+  @Mutation(() => WorkflowTemplateType)
+  async archiveWorkflowTemplate(@Args('id') id: string): Promise<WorkflowTemplate> {
+    return this.workflowService.archiveTemplate(id);
+  }
+
   @Mutation(() => WorkflowInstanceType)
   async createWorkflowInstance(@Args('input') input: CreateWorkflowInstanceInput): Promise<WorkflowInstance> {
     return this.workflowService.createInstance(input);
@@ -356,7 +482,7 @@ class WorkflowResolver {
       introspection: true,
     }),
   ],
-  providers: [WorkflowEngineService, WorkflowService, WorkflowResolver],
+  providers: [PrismaService, WorkflowEngineService, WorkflowTemplateService, WorkflowService, WorkflowResolver],
 })
 class WorkflowModule {}
 
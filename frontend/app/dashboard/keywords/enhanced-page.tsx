@@ -42,6 +42,7 @@ import {
 } from '@ant-design/icons';
 import { useRouter } from 'next/navigation';
 import ReactECharts from 'echarts-for-react';
+import { PRIORITY_TIERS, PRIORITY_TIER_INFO } from '@geo-platform/shared';
 
 const { Title, Text, Paragraph } = Typography;
 const { Option } = Select;
@@ -89,7 +90,6 @@ interface PriorityDistribution {
     P2: number;
     P3: number;
     P4: number;
-    P5: number;
     total: number;
   };
   percentages: {
@@ -98,7 +98,6 @@ interface PriorityDistribution {
     P2: string;
     P3: string;
     P4: string;
-    P5: string;
   };
 }
 
@@ -107,8 +106,7 @@ const priorityColors: { [key: string]: string } = {
   P1: '#fa541c',  // 红色
   P2: '#fa8c16',  // 橙色
   P3: '#faad14',  // 黄色
-  P4: '#1890ff',  // 蓝色
-  P5: '#8c8c8c',  // 灰色
+  P4: '#8c8c8c',  // 灰色
 };
 
 const statusColors: { [key: string]: string } = {
@@ -180,10 +178,10 @@ export default function EnhancedKeywordsPage() {
               }
               keywordPriorityDistribution {
                 counts {
-                  P0 P1 P2 P3 P4 P5 total
+                  P0 P1 P2 P3 P4 total
                 }
                 percentages {
-                  P0 P1 P2 P3 P4 P5
+                  P0 P1 P2 P3 P4
                 }
               }
             }
@@ -283,7 +281,7 @@ export default function EnhancedKeywordsPage() {
       },
       xAxis: {
         type: 'category',
-        data: ['P0', 'P1', 'P2', 'P3', 'P4', 'P5']
+        data: [...PRIORITY_TIERS]
       },
       yAxis: {
         type: 'value'
@@ -292,14 +290,10 @@ export default function EnhancedKeywordsPage() {
         {
           name: '关键词数量',
           type: 'bar',
-          data: [
-            { value: distribution.counts.P0, itemStyle: { color: priorityColors.P0 } },
-            { value: distribution.counts.P1, itemStyle: { color: priorityColors.P1 } },
-            { value: distribution.counts.P2, itemStyle: { color: priorityColors.P2 } },
-            { value: distribution.counts.P3, itemStyle: { color: priorityColors.P3 } },
-            { value: distribution.counts.P4, itemStyle: { color: priorityColors.P4 } },
-            { value: distribution.counts.P5, itemStyle: { color: priorityColors.P5 } },
-          ],
+          data: PRIORITY_TIERS.map(tier => ({
+            value: distribution.counts[tier],
+            itemStyle: { color: priorityColors[tier] },
+          })),
           label: {
             show: true,
             position: 'top',
@@ -373,14 +367,10 @@ export default function EnhancedKeywordsPage() {
           </Tag>
         </Tooltip>
       ),
-      filters: [
-        { text: 'P0 - 战略核心', value: 'P0' },
-        { text: 'P1 - 重点投入', value: 'P1' },
-        { text: 'P2 - 稳定发展', value: 'P2' },
-        { text: 'P3 - 选择投入', value: 'P3' },
-        { text: 'P4 - 长尾机会', value: 'P4' },
-        { text: 'P5 - 精准定位', value: 'P5' },
-      ],
+      filters: PRIORITY_TIERS.map(tier => ({
+        text: `${tier} - ${PRIORITY_TIER_INFO[tier].description}`,
+        value: tier,
+      })),
       onFilter: (value: any, record: Keyword) => record.priority === value,
     },
     {
@@ -577,7 +567,7 @@ export default function EnhancedKeywordsPage() {
         </div>
 
         <Alert 
-          message="P0-P5自动分级系统已启用" 
+          message="P0-P4自动分级系统已启用" 
           description="关键词优先级将根据搜索量自动计算，AIO评分将评估在Google AI Overview中的表现潜力。"
           type="info" 
           showIcon 
@@ -622,7 +612,7 @@ export default function EnhancedKeywordsPage() {
             name="searchVolume"
             label="月搜索量"
             rules={[{ required: true, message: '请输入搜索量' }]}
-            extra="系统将根据搜索量自动分配P0-P5优先级"
+            extra="系统将根据搜索量自动分配P0-P4优先级"
           >
             <InputNumber
               style={{ width: '100%' }}
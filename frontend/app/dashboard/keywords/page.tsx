@@ -319,7 +319,7 @@ export default function KeywordsPage() {
               icon={<BarChartOutlined />}
               onClick={() => router.push('/dashboard/keywords/enhanced-page')}
             >
-              增强版 (P0-P5 + AIO)
+              增强版 (P0-P4 + AIO)
             </Button>
             <Button
               type="primary"
@@ -137,8 +137,7 @@ const priorityColors: { [key: string]: string } = {
   P1: '#fa541c',
   P2: '#fa8c16',
   P3: '#faad14',
-  P4: '#1890ff',
-  P5: '#8c8c8c'
+  P4: '#8c8c8c'
 };
 
 const taskTypeIcons: { [key: string]: any } = {
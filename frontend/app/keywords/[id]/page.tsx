@@ -19,7 +19,6 @@ import {
   message,
   Breadcrumb,
   Tabs,
-  Timeline,
   Avatar,
   Tooltip,
 } from 'antd';
@@ -34,8 +33,6 @@ import {
   HistoryOutlined,
   TrendingUpOutlined,
   TrendingDownOutlined,
-  CheckCircleOutlined,
-  ExclamationCircleOutlined,
 } from '@ant-design/icons';
 import { PerformanceChart } from '@/components/charts/performance-chart';
 import {
@@ -45,6 +42,8 @@ import {
   ChannelBadge,
   TierBadge,
 } from '@/components/keyword/keyword-badge';
+import { KeywordCannibalizationPanel } from '@/components/keyword/keyword-cannibalization';
+import { KeywordAuditHistory } from '@/components/keyword/keyword-audit-history';
 import { Keyword, AIOConfig, MetricsTrend } from '@/types/keyword';
 import {
   formatNumber,
@@ -538,54 +537,16 @@ export default function KeywordDetailPage() {
             )}
           </TabPane>
           
-          <TabPane tab="操作历史" key="history">
-            <Timeline
-              items={[
-                {
-                  dot: <CheckCircleOutlined className="text-green-500" />,
-                  children: (
-                    <div>
-                      <Text strong>AIO 配置更新</Text>
-                      <br />
-                      <Text type="secondary">目标排名从 5 调整为 3</Text>
-                      <br />
-                      <Text type="secondary" className="text-xs">
-                        {formatDateTime('2024-03-15T14:22:00Z')} · 管理员
-                      </Text>
-                    </div>
-                  ),
-                },
-                {
-                  dot: <ExclamationCircleOutlined className="text-orange-500" />,
-                  children: (
-                    <div>
-                      <Text strong>优先级调整</Text>
-                      <br />
-                      <Text type="secondary">从 P2 提升至 P1</Text>
-                      <br />
-                      <Text type="secondary" className="text-xs">
-                        {formatDateTime('2024-03-10T09:15:00Z')} · 运营团队
-                      </Text>
-                    </div>
-                  ),
-                },
-                {
-                  dot: <CheckCircleOutlined className="text-blue-500" />,
-                  children: (
-                    <div>
-                      <Text strong>关键词创建</Text>
-                      <br />
-                      <Text type="secondary">初始优先级 P2，目标排名 5</Text>
-                      <br />
-                      <Text type="secondary" className="text-xs">
-                        {formatDateTime('2024-01-15T10:30:00Z')} · 系统
-                      </Text>
-                    </div>
-                  ),
-                },
-              ]}
+          <TabPane tab="内容蚕食" key="cannibalization">
+            <KeywordCannibalizationPanel
+              keywordId={keywordId}
+              onSelectKeyword={(id) => router.push(`/keywords/${id}`)}
             />
           </TabPane>
+          
+          <TabPane tab="操作历史" key="history">
+            <KeywordAuditHistory keywordId={keywordId} />
+          </TabPane>
         </Tabs>
       </Card>
     </div>
@@ -14,7 +14,8 @@ import {
   message,
   Card,
   Typography,
-  Popconfirm
+  Popconfirm,
+  Segmented
 } from 'antd';
 import { 
   PlusOutlined, 
@@ -27,6 +28,14 @@ import {
   ExportOutlined
 } from '@ant-design/icons';
 import { useRouter } from 'next/navigation';
+import { useKeywordStore } from '@/stores/keyword-store';
+import { KeywordClusterTree } from '@/components/keyword/keyword-cluster-tree';
+import { KeywordGapAnalysisPanel } from '@/components/keyword/keyword-gap-analysis';
+import { KeywordSavedViews } from '@/components/keyword/keyword-saved-views';
+import { KeywordSearchBox, KeywordSimilarAlert } from '@/components/keyword/keyword-search';
+import { decodeKeywordViewState, KEYWORD_VIEW_STATE_PARAM } from '@/lib/keyword-view-state';
+import { KeywordFilter, KeywordSortField, SortDirection } from '@/types/keyword';
+import type { TableProps } from 'antd';
 
 const { Title } = Typography;
 const { Option } = Select;
@@ -62,7 +71,22 @@ export default function KeywordsPage() {
   const [modalVisible, setModalVisible] = useState(false);
   const [editingKeyword, setEditingKeyword] = useState<Keyword | null>(null);
   const [form] = Form.useForm();
+  const keywordText: string = Form.useWatch('text', form) ?? '';
   const router = useRouter();
+  const {
+    viewMode,
+    setViewMode,
+    filter,
+    sort,
+    currentPage,
+    pageSize,
+    visibleColumns,
+    setFilter,
+    setSort,
+    setPagination,
+    applyViewState,
+    applyDefaultView,
+  } = useKeywordStore();
 
   // 检查认证
   useEffect(() => {
@@ -117,6 +141,22 @@ export default function KeywordsPage() {
     fetchKeywords();
   }, []);
 
+  // 分享链接中的视图状态优先，否则应用当前角色的默认视图
+  useEffect(() => {
+    const encoded = new URLSearchParams(window.location.search).get(KEYWORD_VIEW_STATE_PARAM);
+    const shared = encoded ? decodeKeywordViewState(encoded) : null;
+    if (shared) {
+      applyViewState(shared);
+      return;
+    }
+    if (encoded) {
+      message.warning('分享链接中的视图无效，已使用默认视图');
+    }
+    applyDefaultView().catch(() => {
+      // 默认视图加载失败时保持当前状态
+    });
+  }, [applyViewState, applyDefaultView]);
+
   // 处理表单提交
   const handleSubmit = async (values: any) => {
     try {
@@ -216,11 +256,37 @@ export default function KeywordsPage() {
     router.push('/login');
   };
 
+  const sortOrderOf = (field: KeywordSortField) =>
+    sort.field === field ? (sort.direction === SortDirection.ASC ? 'ascend' as const : 'descend' as const) : null;
+
+  // 表格内的筛选、排序、分页写回 store，以便保存视图和生成分享链接
+  const handleTableChange: TableProps<Keyword>['onChange'] = (pagination, filters, sorter, extra) => {
+    if (extra.action === 'paginate') {
+      setPagination(pagination.current ?? 1, pagination.pageSize);
+    } else if (extra.action === 'filter') {
+      setFilter({
+        term: (filters.text?.[0] as string | undefined) || undefined,
+        priority: (filters.priority ?? undefined) as KeywordFilter['priority'],
+        status: (filters.status ?? undefined) as KeywordFilter['status'],
+      });
+    } else if (extra.action === 'sort' && !Array.isArray(sorter)) {
+      const field = sorter.columnKey === 'cpc' ? KeywordSortField.CPC : KeywordSortField.SEARCH_VOLUME;
+      setSort(
+        sorter.order
+          ? { field, direction: sorter.order === 'ascend' ? SortDirection.ASC : SortDirection.DESC }
+          : { field: KeywordSortField.UPDATED_AT, direction: SortDirection.DESC }
+      );
+    }
+  };
+
   const columns = [
     {
       title: '关键词',
       dataIndex: 'text',
       key: 'text',
+      filteredValue: filter.term ? [filter.term] : null,
+      onFilter: (value: any, record: Keyword) =>
+        record.text.toLowerCase().includes(String(value).toLowerCase()),
       filterDropdown: ({ setSelectedKeys, selectedKeys, confirm }: any) => (
         <div style={{ padding: 8 }}>
           <Input
@@ -250,6 +316,7 @@ export default function KeywordsPage() {
       dataIndex: 'searchVolume',
       key: 'searchVolume',
       sorter: (a: Keyword, b: Keyword) => a.searchVolume - b.searchVolume,
+      sortOrder: sortOrderOf(KeywordSortField.SEARCH_VOLUME),
       render: (volume: number) => volume.toLocaleString(),
     },
     {
@@ -257,6 +324,7 @@ export default function KeywordsPage() {
       dataIndex: 'cpc',
       key: 'cpc',
       sorter: (a: Keyword, b: Keyword) => a.cpc - b.cpc,
+      sortOrder: sortOrderOf(KeywordSortField.CPC),
       render: (cpc: number) => `$${cpc.toFixed(2)}`,
     },
     {
@@ -270,6 +338,8 @@ export default function KeywordsPage() {
         { text: 'P3', value: 'P3' },
         { text: 'P4', value: 'P4' },
       ],
+      filteredValue: filter.priority?.length ? filter.priority : null,
+      onFilter: (value: any, record: Keyword) => record.priority === value,
       render: (priority: string) => (
         <Tag color={priorityColors[priority] || 'default'}>{priority}</Tag>
       ),
@@ -283,6 +353,8 @@ export default function KeywordsPage() {
         { text: '非活跃', value: 'INACTIVE' },
         { text: '草稿', value: 'DRAFT' },
       ],
+      filteredValue: filter.status?.length ? filter.status : null,
+      onFilter: (value: any, record: Keyword) => record.status === value,
       render: (status: string) => (
         <Tag color={statusColors[status] || 'default'}>
           {status === 'ACTIVE' ? '活跃' : status === 'INACTIVE' ? '非活跃' : '草稿'}
@@ -316,12 +388,26 @@ export default function KeywordsPage() {
     },
   ];
 
+  const visibleTableColumns = visibleColumns.length > 0
+    ? columns.filter((column) => column.key === 'action' || visibleColumns.includes(column.key))
+    : columns;
+
   return (
     <div style={{ padding: 24 }}>
       <Card>
         <div style={{ marginBottom: 24, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
           <Title level={3} style={{ margin: 0 }}>关键词管理</Title>
           <Space>
+            <KeywordSearchBox onSelectKeyword={(id) => router.push(`/keywords/${id}`)} />
+            <Segmented
+              value={viewMode === 'tree' || viewMode === 'gap' ? viewMode : 'table'}
+              onChange={(value) => setViewMode(value as 'table' | 'tree' | 'gap')}
+              options={[
+                { label: '列表', value: 'table' },
+                { label: '主题树', value: 'tree' },
+                { label: '竞品差距', value: 'gap' },
+              ]}
+            />
             <Button 
               icon={<ReloadOutlined />} 
               onClick={fetchKeywords}
@@ -373,13 +459,27 @@ export default function KeywordsPage() {
           </Space>
         </div>
 
-        <Table
-          columns={columns}
-          dataSource={keywords}
-          rowKey="id"
-          loading={loading}
-          pagination={{ pageSize: 10 }}
-        />
+        {viewMode === 'tree' ? (
+          <KeywordClusterTree onSelectKeyword={(id) => router.push(`/keywords/${id}`)} />
+        ) : viewMode === 'gap' ? (
+          <KeywordGapAnalysisPanel onSelectKeyword={(id) => router.push(`/keywords/${id}`)} />
+        ) : (
+          <>
+            <KeywordSavedViews
+              columns={columns
+                .filter((column) => column.key !== 'action')
+                .map((column) => ({ key: column.key, title: column.title }))}
+            />
+            <Table
+              columns={visibleTableColumns}
+              dataSource={keywords}
+              rowKey="id"
+              loading={loading}
+              onChange={handleTableChange}
+              pagination={{ current: currentPage, pageSize, showSizeChanger: true }}
+            />
+          </>
+        )}
       </Card>
 
       <Modal
@@ -405,6 +505,10 @@ export default function KeywordsPage() {
             <Input placeholder="例如: eufy security camera" />
           </Form.Item>
 
+          {modalVisible && (
+            <KeywordSimilarAlert text={keywordText} {...(editingKeyword && { excludeKeywordId: editingKeyword.id })} />
+          )}
+
           <Form.Item
             name="searchVolume"
             label="搜索量"
@@ -18,6 +18,7 @@ import {
   message,
   Upload,
   Card,
+  Table,
 } from 'antd';
 import {
   DeleteOutlined,
@@ -36,10 +37,13 @@ import {
   AIOStatus,
   BulkActionType,
   Keyword,
+  KeywordImportAction,
+  KeywordImportDuplicateStrategy,
+  KeywordImportReport,
 } from '@/types/keyword';
 import { useKeywordStore } from '@/stores/keyword-store';
 import { PriorityBadge, AIOStatusBadge, KeywordStatusBadge } from './keyword-badge';
-import { formatNumber, downloadFile } from '@/lib/utils';
+import { formatNumber, downloadFile, readFileAsBase64 } from '@/lib/utils';
 
 const { Option } = Select;
 const { Text, Title } = Typography;
@@ -454,62 +458,110 @@ export function BulkActions({
 interface BulkImportProps {
   visible: boolean;
   onClose: () => void;
-  onImport: (keywords: any[]) => Promise<void>;
+  onImported?: (report: KeywordImportReport) => void;
 }
 
-export function BulkImport({ visible, onClose, onImport }: BulkImportProps) {
-  const [fileData, setFileData] = useState<any[]>([]);
-  const [isProcessing, setIsProcessing] = useState(false);
+const importActionConfig: Record<KeywordImportAction, { color: string; label: string }> = {
+  [KeywordImportAction.CREATED]: { color: 'green', label: '新建' },
+  [KeywordImportAction.UPDATED]: { color: 'blue', label: '更新' },
+  [KeywordImportAction.SKIPPED]: { color: 'default', label: '跳过' },
+  [KeywordImportAction.FAILED]: { color: 'red', label: '失败' },
+};
+
+const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+
+export function BulkImport({ visible, onClose, onImported }: BulkImportProps) {
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [duplicateStrategy, setDuplicateStrategy] = useState(KeywordImportDuplicateStrategy.SKIP);
+  const [report, setReport] = useState<KeywordImportReport | null>(null);
+
+  const { importKeywords, isImporting } = useKeywordStore();
+
+  const runImport = async (
+    source: { name: string; content: string },
+    strategy: KeywordImportDuplicateStrategy,
+    dryRun: boolean,
+  ) => {
+    try {
+      const result = await importKeywords({
+        fileName: source.name,
+        content: source.content,
+        duplicateStrategy: strategy,
+        dryRun,
+      });
+      setReport(result);
+      return result;
+    } catch (error: any) {
+      message.error(error.message || (dryRun ? '文件解析失败' : '导入失败'));
+      return null;
+    }
+  };
+
+  const handleBeforeUpload = async (uploadFile: File) => {
+    if (uploadFile.size > MAX_IMPORT_FILE_SIZE) {
+      message.error('文件大小不能超过 5MB');
+      return Upload.LIST_IGNORE;
+    }
+
+    const source = { name: uploadFile.name, content: await readFileAsBase64(uploadFile) };
+    setFile(source);
+    setReport(null);
+    await runImport(source, duplicateStrategy, true);
 
-  const handleFileUpload = (info: any) => {
-    const { file, fileList } = info;
-    
-    if (file.status === 'done' || file.status === 'uploading') {
-      // 这里应该解析 CSV/Excel 文件
-      // 暂时模拟数据
-      const mockData = [
-        { term: '智能门锁', priority: 'P1', channelType: 'GOOGLE', tier: 1 },
-        { term: '智能摄像头', priority: 'P2', channelType: 'GOOGLE', tier: 1 },
-      ];
-      setFileData(mockData);
+    // 阻止 antd 自动上传，文件内容通过 GraphQL 提交
+    return false;
+  };
+
+  const handleStrategyChange = async (strategy: KeywordImportDuplicateStrategy) => {
+    setDuplicateStrategy(strategy);
+    if (file) {
+      await runImport(file, strategy, true);
     }
   };
 
   const handleImport = async () => {
-    if (fileData.length === 0) {
+    if (!file) {
       message.warning('请先上传文件');
       return;
     }
 
-    try {
-      setIsProcessing(true);
-      await onImport(fileData);
-      message.success(`成功导入 ${fileData.length} 个关键词`);
-      onClose();
-    } catch (error) {
-      message.error('导入失败');
-    } finally {
-      setIsProcessing(false);
+    const result = await runImport(file, duplicateStrategy, false);
+    if (result) {
+      message.success(`导入完成：新建 ${result.createdCount}，更新 ${result.updatedCount}，跳过 ${result.skippedCount}，失败 ${result.failedCount}`);
+      onImported?.(result);
     }
   };
 
+  const handleClose = () => {
+    setFile(null);
+    setReport(null);
+    setDuplicateStrategy(KeywordImportDuplicateStrategy.SKIP);
+    onClose();
+  };
+
+  const importableCount = report ? report.createdCount + report.updatedCount : 0;
+  const isCommitted = report !== null && !report.dryRun;
+
   return (
     <Modal
       title="批量导入关键词"
       open={visible}
-      onCancel={onClose}
-      width={600}
+      onCancel={handleClose}
+      width={800}
       footer={
         <Space>
-          <Button onClick={onClose}>取消</Button>
-          <Button
-            type="primary"
-            onClick={handleImport}
-            loading={isProcessing}
-            disabled={fileData.length === 0}
-          >
-            导入 {fileData.length > 0 && `(${fileData.length})`}
-          </Button>
+          <Button onClick={handleClose}>{isCommitted ? '关闭' : '取消'}</Button>
+          {!isCommitted && (
+            <Button
+              type="primary"
+              icon={<ImportOutlined />}
+              onClick={handleImport}
+              loading={isImporting}
+              disabled={importableCount === 0}
+            >
+              导入 {importableCount > 0 && `(${importableCount})`}
+            </Button>
+          )}
         </Space>
       }
     >
@@ -518,10 +570,11 @@ export function BulkImport({ visible, onClose, onImport }: BulkImportProps) {
           message="导入说明"
           description={
             <ul className="list-disc list-inside mt-2">
-              <li>支持 CSV 和 Excel 文件格式</li>
-              <li>文件大小不超过 5MB</li>
+              <li>支持 CSV 和 Excel 文件格式，文件大小不超过 5MB</li>
               <li>单次最多导入 1000 个关键词</li>
-              <li>必填字段：关键词、优先级、渠道类型、层级</li>
+              <li>必填列：关键词（keyword / text）</li>
+              <li>可选列：搜索量、难度 (KD)、CPC、产品线、搜索意图、漏斗阶段</li>
+              <li>上传后先预览校验结果，确认后再写入</li>
             </ul>
           }
           type="info"
@@ -531,13 +584,14 @@ export function BulkImport({ visible, onClose, onImport }: BulkImportProps) {
         <Dragger
           name="file"
           multiple={false}
+          maxCount={1}
           accept=".csv,.xlsx,.xls"
-          customRequest={({ onSuccess }) => {
-            setTimeout(() => {
-              onSuccess?.('ok');
-            }, 1000);
+          beforeUpload={handleBeforeUpload}
+          onRemove={() => {
+            setFile(null);
+            setReport(null);
           }}
-          onChange={handleFileUpload}
+          disabled={isImporting}
         >
           <p className="ant-upload-drag-icon">
             <InboxOutlined />
@@ -548,28 +602,79 @@ export function BulkImport({ visible, onClose, onImport }: BulkImportProps) {
           </p>
         </Dragger>
 
-        {fileData.length > 0 && (
-          <Card size="small" title={`预览数据 (${fileData.length} 条)`}>
-            <div style={{ maxHeight: 200, overflow: 'auto' }}>
-              <List
-                size="small"
-                dataSource={fileData}
-                renderItem={(item, index) => (
-                  <List.Item>
-                    <Space>
-                      <Text>{index + 1}.</Text>
-                      <Text strong>{item.term}</Text>
-                      <PriorityBadge priority={item.priority} />
-                      <Tag>{item.channelType}</Tag>
-                      <Tag>T{item.tier}</Tag>
+        <Form layout="inline">
+          <Form.Item label="已存在的关键词">
+            <Select
+              value={duplicateStrategy}
+              onChange={handleStrategyChange}
+              disabled={isImporting || isCommitted}
+              style={{ width: 200 }}
+            >
+              <Option value={KeywordImportDuplicateStrategy.SKIP}>跳过</Option>
+              <Option value={KeywordImportDuplicateStrategy.UPDATE}>用文件数据更新</Option>
+            </Select>
+          </Form.Item>
+        </Form>
+
+        {report && (
+          <Card
+            size="small"
+            title={report.dryRun ? `预览数据 (${report.totalRows} 条)` : `导入结果 (${report.totalRows} 条)`}
+            extra={
+              <Space size={4}>
+                <Tag color="green">新建 {report.createdCount}</Tag>
+                <Tag color="blue">更新 {report.updatedCount}</Tag>
+                <Tag>跳过 {report.skippedCount}</Tag>
+                <Tag color="red">失败 {report.failedCount}</Tag>
+              </Space>
+            }
+          >
+            <Table
+              size="small"
+              rowKey="rowNumber"
+              dataSource={report.rows}
+              pagination={report.rows.length > 10 ? { pageSize: 10, size: 'small' } : false}
+              columns={[
+                { title: '行', dataIndex: 'rowNumber', width: 60 },
+                {
+                  title: '关键词',
+                  dataIndex: 'text',
+                  render: (text: string | null) => text ? <Text strong>{text}</Text> : <Text type="secondary">-</Text>,
+                },
+                {
+                  title: '搜索量',
+                  dataIndex: ['data', 'searchVolume'],
+                  width: 100,
+                  render: (value: number | null) => value != null ? formatNumber(value) : '-',
+                },
+                {
+                  title: '结果',
+                  dataIndex: 'action',
+                  width: 80,
+                  render: (action: KeywordImportAction) => (
+                    <Tag color={importActionConfig[action].color}>{importActionConfig[action].label}</Tag>
+                  ),
+                },
+                {
+                  title: '说明',
+                  dataIndex: 'errors',
+                  render: (errors: string[]) => errors.length > 0 ? (
+                    <Space direction="vertical" size={0}>
+                      {errors.map((error, index) => (
+                        <Text key={index} type="danger" className="text-xs">
+                          <WarningOutlined /> {error}
+                        </Text>
+                      ))}
                     </Space>
-                  </List.Item>
-                )}
-              />
-            </div>
+                  ) : (
+                    <CheckCircleOutlined className="text-green-500" />
+                  ),
+                },
+              ]}
+            />
           </Card>
         )}
       </div>
     </Modal>
   );
-}
\ No newline at end of file
+}
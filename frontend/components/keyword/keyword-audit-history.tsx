@@ -0,0 +1,158 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, Button, Empty, Space, Spin, Tag, Timeline, Typography } from 'antd';
+import {
+  CheckCircleOutlined,
+  CloseCircleOutlined,
+  DeleteOutlined,
+  EditOutlined,
+  PlusCircleOutlined,
+  ReloadOutlined,
+} from '@ant-design/icons';
+import { AuditFieldChange, AuditLogEntry } from '@/types/keyword';
+import { useKeywordStore } from '@/stores/keyword-store';
+import { formatDateTime } from '@/lib/utils';
+
+const { Text } = Typography;
+
+const PAGE_SIZE = 20;
+
+const operationConfig: Record<string, { color: string; label: string; icon: JSX.Element }> = {
+  CREATE: { color: 'green', label: '创建', icon: <PlusCircleOutlined /> },
+  UPDATE: { color: 'blue', label: '更新', icon: <EditOutlined /> },
+  BULK_UPDATE: { color: 'blue', label: '批量更新', icon: <EditOutlined /> },
+  DELETE: { color: 'red', label: '删除', icon: <DeleteOutlined /> },
+  AIO_MONITORING: { color: 'purple', label: 'AIO 监测', icon: <CheckCircleOutlined /> },
+};
+
+const fieldLabels: Record<string, string> = {
+  text: '关键词',
+  searchVolume: '搜索量',
+  difficulty: '难度',
+  cpc: 'CPC',
+  competitionLevel: '竞争程度',
+  priorityLevel: '优先级',
+  intentType: '搜索意图',
+  productLine: '产品线',
+  stage: '漏斗阶段',
+  clusterId: '主题聚类',
+  status: '状态',
+  assignedTo: '负责人',
+  aioStatus: 'AIO 状态',
+  aioFirstSeenAt: 'AIO 首次出现',
+  aioCoverageScore: 'AIO 覆盖分',
+};
+
+/** 后端以 JSON 字符串返回字段值 */
+function formatValue(value?: string | null): string {
+  if (value == null) {
+    return '空';
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.join(', ') || '空' : String(parsed);
+  } catch {
+    return value;
+  }
+}
+
+function FieldChange({ change }: { change: AuditFieldChange }) {
+  return (
+    <div>
+      <Text type="secondary">{fieldLabels[change.field] ?? change.field}：</Text>
+      <Text delete type="secondary">{formatValue(change.before)}</Text>
+      <Text type="secondary"> → </Text>
+      <Text>{formatValue(change.after)}</Text>
+    </div>
+  );
+}
+
+interface KeywordAuditHistoryProps {
+  keywordId: string;
+}
+
+/**
+ * 关键词操作历史：审计日志中的字段级变更记录，按时间倒序
+ */
+export function KeywordAuditHistory({ keywordId }: KeywordAuditHistoryProps) {
+  const fetchAuditLog = useKeywordStore((state) => state.fetchAuditLog);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (offset: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await fetchAuditLog(keywordId, { limit: PAGE_SIZE, offset });
+      setEntries((current) => (offset === 0 ? page.entries : [...current, ...page.entries]));
+      setTotal(page.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '加载操作历史失败');
+    } finally {
+      setLoading(false);
+    }
+  }, [keywordId, fetchAuditLog]);
+
+  useEffect(() => {
+    load(0);
+  }, [load]);
+
+  const items = entries.map((entry) => {
+    const operation = operationConfig[entry.operationType] ?? operationConfig.UPDATE;
+    const creation = entry.operationType === 'CREATE';
+
+    return {
+      key: entry.id,
+      color: entry.success ? operation.color : 'red',
+      dot: entry.success ? operation.icon : <CloseCircleOutlined />,
+      children: (
+        <Space direction="vertical" size={2}>
+          <Space size={4}>
+            <Text strong>{operation.label}</Text>
+            <Tag>{entry.operationName}</Tag>
+            {!entry.success && <Tag color="red">失败</Tag>}
+          </Space>
+          {entry.error && <Text type="danger">{entry.error}</Text>}
+          {!creation && entry.changes.map((change) => (
+            <FieldChange key={change.field} change={change} />
+          ))}
+          {entry.success && !creation && entry.changes.length === 0 && (
+            <Text type="secondary">无字段变更</Text>
+          )}
+          <Text type="secondary" className="text-xs">
+            {formatDateTime(entry.occurredAt)} · {entry.userEmail ?? entry.userId ?? '系统'}
+          </Text>
+        </Space>
+      ),
+    };
+  });
+
+  return (
+    <Spin spinning={loading}>
+      <div className="mb-4 flex justify-end">
+        <Button icon={<ReloadOutlined />} onClick={() => load(0)} loading={loading}>
+          刷新
+        </Button>
+      </div>
+
+      {error && <Alert type="error" message={error} showIcon className="mb-4" />}
+
+      {!loading && entries.length === 0 ? (
+        <Empty description="暂无操作记录" />
+      ) : (
+        <Timeline items={items} />
+      )}
+
+      {entries.length < total && (
+        <div className="text-center">
+          <Button onClick={() => load(entries.length)} loading={loading}>
+            加载更多（{entries.length}/{total}）
+          </Button>
+        </div>
+      )}
+    </Spin>
+  );
+}
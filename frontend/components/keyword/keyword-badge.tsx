@@ -1,6 +1,7 @@
 'use client';
 
 import { Tag } from 'antd';
+import { PRIORITY_TIER_INFO } from '@geo-platform/shared';
 import { cn } from '@/lib/utils';
 import {
   KeywordPriority,
@@ -23,21 +24,14 @@ interface PriorityBadgeProps {
 }
 
 export function PriorityBadge({ priority, className }: PriorityBadgeProps) {
-  const colors = {
-    [KeywordPriority.P0]: { color: '#dc2626', background: '#fef2f2', border: '#fecaca' },
-    [KeywordPriority.P1]: { color: '#ea580c', background: '#fff7ed', border: '#fed7aa' },
-    [KeywordPriority.P2]: { color: '#ca8a04', background: '#fefce8', border: '#fde047' },
-    [KeywordPriority.P3]: { color: '#16a34a', background: '#f0fdf4', border: '#bbf7d0' },
-    [KeywordPriority.P4]: { color: '#6b7280', background: '#f9fafb', border: '#e5e7eb' },
-  };
-
-  const style = colors[priority];
+  const style = PRIORITY_TIER_INFO[priority].color;
 
   return (
     <Tag
-      color={style.color}
+      color={style.text}
+      title={getPriorityName(priority)}
       style={{
-        color: style.color,
+        color: style.text,
         backgroundColor: style.background,
         borderColor: style.border,
         border: `1px solid ${style.border}`,
@@ -0,0 +1,194 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  Empty,
+  List,
+  Progress,
+  Space,
+  Spin,
+  Table,
+  Tag,
+  Typography,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { ReloadOutlined, StarFilled } from '@ant-design/icons';
+import {
+  CannibalizationAction,
+  CannibalizationSeverity,
+  CannibalizingPage,
+  KeywordCannibalization,
+} from '@/types/keyword';
+import { useKeywordStore } from '@/stores/keyword-store';
+import { formatNumber } from '@/lib/utils';
+
+const { Text, Link } = Typography;
+
+const severityConfig: Record<CannibalizationSeverity, { color: string; label: string; alert: 'error' | 'warning' | 'info' }> = {
+  [CannibalizationSeverity.HIGH]: { color: 'red', label: '严重', alert: 'error' },
+  [CannibalizationSeverity.MEDIUM]: { color: 'orange', label: '中等', alert: 'warning' },
+  [CannibalizationSeverity.LOW]: { color: 'blue', label: '轻微', alert: 'info' },
+};
+
+const actionConfig: Record<CannibalizationAction, { color: string; label: string }> = {
+  [CannibalizationAction.MERGE]: { color: 'magenta', label: '合并' },
+  [CannibalizationAction.CANONICAL]: { color: 'geekblue', label: 'Canonical' },
+  [CannibalizationAction.RETARGET]: { color: 'cyan', label: '改定位' },
+};
+
+interface KeywordCannibalizationPanelProps {
+  keywordId: string;
+  onSelectKeyword?: (keywordId: string) => void;
+}
+
+/**
+ * 关键词内容蚕食分析：竞争页面的流量拆分及处理建议
+ */
+export function KeywordCannibalizationPanel({ keywordId, onSelectKeyword }: KeywordCannibalizationPanelProps) {
+  const fetchCannibalization = useKeywordStore((state) => state.fetchCannibalization);
+  const [analysis, setAnalysis] = useState<KeywordCannibalization | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setAnalysis(await fetchCannibalization(keywordId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '内容蚕食分析失败');
+    } finally {
+      setLoading(false);
+    }
+  }, [keywordId, fetchCannibalization]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const columns: ColumnsType<CannibalizingPage> = [
+    {
+      title: '页面',
+      key: 'page',
+      render: (_, page) => (
+        <Space direction="vertical" size={0}>
+          <Space size={4}>
+            {page.isPrimary && <StarFilled style={{ color: '#faad14' }} title="主页面" />}
+            <Text strong>{page.title || '未关联内容'}</Text>
+            {page.contentType && <Tag>{page.contentType}</Tag>}
+          </Space>
+          {page.url && (
+            <Link href={page.url} target="_blank" className="text-xs">
+              {page.url}
+            </Link>
+          )}
+        </Space>
+      ),
+    },
+    {
+      title: '排名',
+      dataIndex: 'position',
+      key: 'position',
+      width: 80,
+      render: (position?: number | null) => position ?? <Text type="secondary">-</Text>,
+    },
+    {
+      title: analysis?.trafficSource === 'analytics' ? '流量（30 天事件）' : '预估点击',
+      dataIndex: 'traffic',
+      key: 'traffic',
+      width: 140,
+      render: (traffic?: number | null) => (traffic != null ? formatNumber(traffic) : '-'),
+    },
+    {
+      title: '流量占比',
+      dataIndex: 'trafficShare',
+      key: 'trafficShare',
+      width: 180,
+      render: (share: number) => <Progress percent={Math.round(share * 100)} size="small" />,
+    },
+  ];
+
+  return (
+    <Card
+      size="small"
+      title="内容蚕食"
+      extra={
+        <Button size="small" icon={<ReloadOutlined />} loading={loading} onClick={load}>
+          重新分析
+        </Button>
+      }
+    >
+      <Spin spinning={loading}>
+        {error && <Alert type="error" message={error} showIcon className="mb-4" />}
+
+        {analysis && analysis.pages.length === 0 && (
+          <Empty description="暂无已发布内容定位或排名该关键词" />
+        )}
+
+        {analysis && analysis.pages.length > 0 && (
+          <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+            {analysis.isCannibalized && analysis.severity ? (
+              <Alert
+                type={severityConfig[analysis.severity].alert}
+                showIcon
+                message={
+                  <Space>
+                    <span>{analysis.pages.length} 个自有页面竞争该关键词</span>
+                    <Tag color={severityConfig[analysis.severity].color}>
+                      {severityConfig[analysis.severity].label}
+                    </Tag>
+                  </Space>
+                }
+                description={`非主页面分走 ${Math.round(analysis.trafficSplit * 100)}% 的流量${
+                  analysis.trafficSource === 'estimated' ? '（按排名估算）' : ''
+                }`}
+              />
+            ) : (
+              <Alert type="success" showIcon message="仅有一个页面定位该关键词，未发现蚕食" />
+            )}
+
+            <Table
+              size="small"
+              rowKey={(page) => page.contentId ?? page.url ?? ''}
+              columns={columns}
+              dataSource={analysis.pages}
+              pagination={false}
+            />
+
+            {analysis.suggestions.length > 0 && (
+              <List
+                size="small"
+                header={<Text strong>处理建议</Text>}
+                dataSource={analysis.suggestions}
+                renderItem={(suggestion) => (
+                  <List.Item>
+                    <Space direction="vertical" size={0}>
+                      <Space size={4}>
+                        <Tag color={actionConfig[suggestion.action].color}>
+                          {actionConfig[suggestion.action].label}
+                        </Tag>
+                        <Text>{suggestion.sourceUrl ?? suggestion.sourceContentId}</Text>
+                      </Space>
+                      <Text type="secondary">{suggestion.reason}</Text>
+                      {suggestion.suggestedKeywordId && (
+                        <Text type="secondary">
+                          建议关键词：
+                          <Link onClick={() => onSelectKeyword?.(suggestion.suggestedKeywordId!)}>
+                            {suggestion.suggestedKeywordText}
+                          </Link>
+                        </Text>
+                      )}
+                    </Space>
+                  </List.Item>
+                )}
+              />
+            )}
+          </Space>
+        )}
+      </Spin>
+    </Card>
+  );
+}
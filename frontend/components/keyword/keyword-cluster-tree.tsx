@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Tree,
+  Card,
+  Space,
+  Button,
+  Select,
+  Empty,
+  Spin,
+  Tag,
+  Typography,
+  message,
+} from 'antd';
+import type { DataNode } from 'antd/es/tree';
+import { ApartmentOutlined, ReloadOutlined, StarFilled } from '@ant-design/icons';
+import { KeywordClusterMember, KeywordClusterNode, ProductLine } from '@/types/keyword';
+import { useKeywordStore } from '@/stores/keyword-store';
+import { PriorityBadge } from './keyword-badge';
+import { formatNumber } from '@/lib/utils';
+
+const { Option } = Select;
+const { Text } = Typography;
+
+const productLineNames: Record<ProductLine, string> = {
+  [ProductLine.CAMERA]: '摄像头',
+  [ProductLine.DOORBELL]: '门铃',
+  [ProductLine.VACUUM]: '扫地机',
+  [ProductLine.LOCK]: '智能锁',
+};
+
+interface KeywordClusterTreeProps {
+  onSelectKeyword?: (keywordId: string) => void;
+}
+
+/**
+ * 关键词主题树：聚类为根节点（支柱关键词），成员关键词为子节点
+ */
+export function KeywordClusterTree({ onSelectKeyword }: KeywordClusterTreeProps) {
+  const { clusterTree, isTreeLoading, isClustering, fetchClusterTree, rebuildClusters } = useKeywordStore();
+  const [productLine, setProductLine] = useState<ProductLine | undefined>();
+
+  useEffect(() => {
+    fetchClusterTree(productLine).catch((error) => {
+      message.error(error instanceof Error ? error.message : '获取聚类失败');
+    });
+  }, [productLine, fetchClusterTree]);
+
+  const handleRebuild = async () => {
+    try {
+      const report = await rebuildClusters({ productLine });
+      message.success(
+        `已生成 ${report.clusterCount} 个聚类，归类 ${report.clusteredCount}/${report.totalKeywords} 个关键词`
+      );
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '重建聚类失败');
+    }
+  };
+
+  const treeData: DataNode[] = useMemo(
+    () => (clusterTree?.clusters ?? []).map((cluster) => ({
+      key: cluster.id,
+      title: renderClusterTitle(cluster),
+      selectable: false,
+      children: cluster.keywords.map((keyword) => ({
+        key: `${cluster.id}:${keyword.id}`,
+        title: renderKeywordTitle(keyword, keyword.id === cluster.pillarKeywordId),
+        isLeaf: true,
+      })),
+    })),
+    [clusterTree]
+  );
+
+  return (
+    <Card
+      title={
+        <Space>
+          <ApartmentOutlined />
+          <span>主题聚类</span>
+          {clusterTree && (
+            <Text type="secondary" className="text-sm font-normal">
+              {clusterTree.clusters.length} 个聚类，{clusterTree.unclusteredCount} 个关键词未归类
+            </Text>
+          )}
+        </Space>
+      }
+      extra={
+        <Space>
+          <Select
+            allowClear
+            placeholder="全部产品线"
+            style={{ width: 140 }}
+            value={productLine}
+            onChange={(value) => setProductLine(value)}
+          >
+            {Object.values(ProductLine).map((line) => (
+              <Option key={line} value={line}>
+                {productLineNames[line]}
+              </Option>
+            ))}
+          </Select>
+          <Button icon={<ReloadOutlined />} loading={isClustering} onClick={handleRebuild}>
+            重新聚类
+          </Button>
+        </Space>
+      }
+    >
+      <Spin spinning={isTreeLoading}>
+        {treeData.length > 0 ? (
+          <Tree
+            showLine
+            blockNode
+            treeData={treeData}
+            onSelect={(_, { node }) => {
+              const keywordId = String(node.key).split(':')[1];
+              if (keywordId) {
+                onSelectKeyword?.(keywordId);
+              }
+            }}
+          />
+        ) : (
+          <Empty description="暂无聚类，点击“重新聚类”生成" />
+        )}
+      </Spin>
+    </Card>
+  );
+}
+
+function renderClusterTitle(cluster: KeywordClusterNode) {
+  return (
+    <Space size={8}>
+      <Text strong>{cluster.name}</Text>
+      <Tag>{cluster.keywordCount} 个关键词</Tag>
+      <Text type="secondary" className="text-xs">
+        总搜索量 {formatNumber(cluster.totalSearchVolume)}
+      </Text>
+      {cluster.cohesion != null && (
+        <Text type="secondary" className="text-xs">
+          相似度 {Math.round(Number(cluster.cohesion) * 100)}%
+        </Text>
+      )}
+    </Space>
+  );
+}
+
+function renderKeywordTitle(keyword: KeywordClusterMember, isPillar: boolean) {
+  return (
+    <Space size={8}>
+      {isPillar && <StarFilled style={{ color: '#faad14' }} title="支柱关键词" />}
+      <span>{keyword.text}</span>
+      {keyword.priorityLevel && <PriorityBadge priority={keyword.priorityLevel} />}
+      {keyword.searchVolume != null && (
+        <Text type="secondary" className="text-xs">
+          {formatNumber(keyword.searchVolume)}
+        </Text>
+      )}
+    </Space>
+  );
+}
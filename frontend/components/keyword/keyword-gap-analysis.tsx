@@ -0,0 +1,277 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  Select,
+  Space,
+  Switch,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+  message,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { PlusOutlined, SearchOutlined } from '@ant-design/icons';
+import {
+  KeywordGap,
+  KeywordGapAnalysis,
+  KeywordGapBacklogItemInput,
+  KeywordGapSource,
+  ProductLine,
+} from '@/types/keyword';
+import { useKeywordStore } from '@/stores/keyword-store';
+import { formatNumber } from '@/lib/utils';
+
+const { Option } = Select;
+const { Text, Link } = Typography;
+
+const DEFAULT_COMPETITORS = ['ring.com', 'arlo.com', 'wyze.com'];
+
+const sourceConfig: Record<KeywordGapSource, { color: string; label: string }> = {
+  [KeywordGapSource.TRACKED]: { color: 'default', label: '已跟踪' },
+  [KeywordGapSource.AIO_CITATION]: { color: 'purple', label: 'AIO 引用' },
+  [KeywordGapSource.COMPETITOR_PAGES]: { color: 'cyan', label: '竞品页面' },
+};
+
+const productLineNames: Record<ProductLine, string> = {
+  [ProductLine.CAMERA]: '摄像头',
+  [ProductLine.DOORBELL]: '门铃',
+  [ProductLine.VACUUM]: '扫地机',
+  [ProductLine.LOCK]: '智能锁',
+};
+
+interface KeywordGapAnalysisPanelProps {
+  onSelectKeyword?: (keywordId: string) => void;
+}
+
+/**
+ * 竞品差距分析：竞品排名或被 AIO 引用而 Eufy 未覆盖的关键词，可一键加入关键词库
+ */
+export function KeywordGapAnalysisPanel({ onSelectKeyword }: KeywordGapAnalysisPanelProps) {
+  const { fetchKeywordGaps, addGapsToBacklog } = useKeywordStore();
+  const [competitorDomains, setCompetitorDomains] = useState<string[]>(DEFAULT_COMPETITORS);
+  const [productLine, setProductLine] = useState<ProductLine | undefined>();
+  const [discover, setDiscover] = useState(false);
+  const [analysis, setAnalysis] = useState<KeywordGapAnalysis | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [selectedTexts, setSelectedTexts] = useState<string[]>([]);
+
+  const analyze = useCallback(async (withDiscovery: boolean) => {
+    setLoading(true);
+    try {
+      setAnalysis(await fetchKeywordGaps({ competitorDomains, productLine, discover: withDiscovery }));
+      setSelectedTexts([]);
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '竞品差距分析失败');
+    } finally {
+      setLoading(false);
+    }
+  }, [competitorDomains, productLine, fetchKeywordGaps]);
+
+  // 首次进入仅分析已有数据，发现新关键词需手动触发（调用 SerpApi）
+  useEffect(() => {
+    analyze(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleAdd = async (gaps: KeywordGap[]) => {
+    const items: KeywordGapBacklogItemInput[] = gaps.map((gap) => ({
+      text: gap.text,
+      searchVolume: gap.searchVolume,
+      productLine: productLine ?? gap.productLine,
+      competitorDomains: gap.competitors.map((competitor) => competitor.domain),
+    }));
+
+    setAdding(true);
+    try {
+      const result = await addGapsToBacklog(items);
+      const createdIds = new Map(result.created.map((keyword) => [keyword.text.toLowerCase(), keyword.id]));
+      setAnalysis((current) => current && {
+        ...current,
+        gaps: current.gaps.map((gap) => ({
+          ...gap,
+          keywordId: gap.keywordId ?? createdIds.get(gap.text.toLowerCase()) ?? null,
+        })),
+      });
+      setSelectedTexts([]);
+      message.success(
+        `已加入 ${result.created.length} 个关键词${
+          result.skippedTexts.length > 0 ? `，${result.skippedTexts.length} 个已存在` : ''
+        }`
+      );
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '加入关键词库失败');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const columns: ColumnsType<KeywordGap> = [
+    {
+      title: '关键词',
+      key: 'text',
+      render: (_, gap) => (
+        <Space size={4}>
+          {gap.keywordId ? (
+            <Link onClick={() => onSelectKeyword?.(gap.keywordId!)}>{gap.text}</Link>
+          ) : (
+            <Text strong>{gap.text}</Text>
+          )}
+          <Tag color={sourceConfig[gap.source].color}>{sourceConfig[gap.source].label}</Tag>
+        </Space>
+      ),
+    },
+    {
+      title: '竞品表现',
+      key: 'competitors',
+      render: (_, gap) => (
+        <Space size={[4, 4]} wrap>
+          {gap.competitors.map((competitor) => (
+            <Tooltip key={competitor.domain} title={competitor.url}>
+              <Tag>
+                {competitor.domain}
+                {competitor.position != null && ` #${competitor.position}`}
+                {competitor.aioPosition != null && ` · AIO #${competitor.aioPosition}`}
+              </Tag>
+            </Tooltip>
+          ))}
+        </Space>
+      ),
+    },
+    {
+      title: '差距',
+      key: 'gap',
+      width: 140,
+      render: (_, gap) => (
+        <Space size={4}>
+          {gap.rankingGap && <Tag color="orange">排名</Tag>}
+          {gap.aioGap && <Tag color="purple">AIO</Tag>}
+        </Space>
+      ),
+    },
+    {
+      title: 'Eufy 排名',
+      dataIndex: 'ownPosition',
+      key: 'ownPosition',
+      width: 100,
+      render: (position?: number | null) => position ?? <Text type="secondary">未排名</Text>,
+    },
+    {
+      title: '搜索量',
+      dataIndex: 'searchVolume',
+      key: 'searchVolume',
+      width: 100,
+      render: (volume?: number | null) => (volume != null ? formatNumber(volume) : '-'),
+    },
+    {
+      title: '预估机会',
+      dataIndex: 'estimatedOpportunity',
+      key: 'estimatedOpportunity',
+      width: 120,
+      render: (opportunity?: number | null) => (
+        opportunity != null ? `${formatNumber(opportunity)} 次点击/月` : <Text type="secondary">-</Text>
+      ),
+    },
+    {
+      title: '操作',
+      key: 'actions',
+      width: 120,
+      render: (_, gap) => gap.keywordId ? (
+        <Text type="secondary">已在关键词库</Text>
+      ) : (
+        <Button size="small" icon={<PlusOutlined />} loading={adding} onClick={() => handleAdd([gap])}>
+          加入关键词库
+        </Button>
+      ),
+    },
+  ];
+
+  const selectedGaps = (analysis?.gaps ?? []).filter((gap) => selectedTexts.includes(gap.text));
+
+  return (
+    <Card
+      title={
+        <Space>
+          <span>竞品差距</span>
+          {analysis && (
+            <Text type="secondary" className="text-sm font-normal">
+              {analysis.gaps.length} 个关键词，预估机会 {formatNumber(analysis.totalOpportunity)} 次点击/月
+            </Text>
+          )}
+        </Space>
+      }
+      extra={
+        <Space>
+          <Select
+            mode="tags"
+            style={{ minWidth: 260 }}
+            placeholder="竞品域名"
+            value={competitorDomains}
+            onChange={setCompetitorDomains}
+          />
+          <Select
+            allowClear
+            placeholder="全部产品线"
+            style={{ width: 140 }}
+            value={productLine}
+            onChange={(value) => setProductLine(value)}
+          >
+            {Object.values(ProductLine).map((line) => (
+              <Option key={line} value={line}>
+                {productLineNames[line]}
+              </Option>
+            ))}
+          </Select>
+          <Tooltip title="从竞品站点热门页面发现新关键词并实时查询 SERP，耗时较长">
+            <Space size={4}>
+              <Switch size="small" checked={discover} onChange={setDiscover} />
+              <Text>发现新词</Text>
+            </Space>
+          </Tooltip>
+          <Button
+            type="primary"
+            icon={<SearchOutlined />}
+            loading={loading}
+            disabled={competitorDomains.length === 0}
+            onClick={() => analyze(discover)}
+          >
+            分析
+          </Button>
+        </Space>
+      }
+    >
+      {selectedGaps.length > 0 && (
+        <Alert
+          className="mb-4"
+          type="info"
+          showIcon
+          message={`已选择 ${selectedGaps.length} 个关键词`}
+          action={
+            <Button size="small" type="primary" loading={adding} onClick={() => handleAdd(selectedGaps)}>
+              加入关键词库
+            </Button>
+          }
+        />
+      )}
+
+      <Table
+        size="small"
+        rowKey="text"
+        loading={loading}
+        columns={columns}
+        dataSource={analysis?.gaps ?? []}
+        pagination={{ pageSize: 20 }}
+        rowSelection={{
+          selectedRowKeys: selectedTexts,
+          onChange: (keys) => setSelectedTexts(keys as string[]),
+          getCheckboxProps: (gap) => ({ disabled: Boolean(gap.keywordId) }),
+        }}
+      />
+    </Card>
+  );
+}
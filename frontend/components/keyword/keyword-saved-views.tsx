@@ -0,0 +1,211 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Button,
+  Checkbox,
+  Form,
+  Input,
+  Modal,
+  Popconfirm,
+  Popover,
+  Select,
+  Space,
+  Switch,
+  message,
+} from 'antd';
+import {
+  DeleteOutlined,
+  LinkOutlined,
+  SaveOutlined,
+  SettingOutlined,
+} from '@ant-design/icons';
+import { SaveKeywordViewOptions } from '@/types/keyword';
+import { useKeywordStore } from '@/stores/keyword-store';
+import { buildKeywordViewUrl } from '@/lib/keyword-view-state';
+import { copyToClipboard } from '@/lib/utils';
+
+const roleOptions = [
+  { label: '管理员', value: 'admin' },
+  { label: '经理', value: 'manager' },
+  { label: '编辑', value: 'editor' },
+  { label: '分析师', value: 'analyst' },
+];
+
+interface KeywordSavedViewsProps {
+  /** 可选择显示的列，key 与表格列 key 一致 */
+  columns: Array<{ key: string; title: string }>;
+}
+
+/**
+ * 关键词表格视图工具栏：切换/保存/共享视图、选择显示列、复制分享链接
+ */
+export function KeywordSavedViews({ columns }: KeywordSavedViewsProps) {
+  const {
+    savedViews,
+    activeViewId,
+    visibleColumns,
+    fetchSavedViews,
+    applyViewState,
+    getViewState,
+    saveView,
+    updateSavedView,
+    deleteSavedView,
+    setVisibleColumns,
+  } = useKeywordStore();
+  const [saveModalOpen, setSaveModalOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form] = Form.useForm<SaveKeywordViewOptions>();
+
+  useEffect(() => {
+    fetchSavedViews().catch((error: Error) => message.error(error.message));
+  }, [fetchSavedViews]);
+
+  const activeView = savedViews.find((view) => view.id === activeViewId) ?? null;
+
+  const viewOptions = useMemo(() => {
+    const personal = savedViews.filter((view) => !view.isShared);
+    const shared = savedViews.filter((view) => view.isShared);
+    return [
+      { label: '我的视图', options: personal.map((view) => ({ label: view.name, value: view.id })) },
+      {
+        label: '团队共享',
+        options: shared.map((view) => ({
+          label: `${view.name}（${view.owner.fullName || view.owner.username}）`,
+          value: view.id,
+        })),
+      },
+    ].filter((group) => group.options.length > 0);
+  }, [savedViews]);
+
+  const handleSelect = (viewId: string) => {
+    const view = savedViews.find((item) => item.id === viewId);
+    if (!view) {
+      return;
+    }
+    const current = getViewState();
+    applyViewState(
+      { filter: view.filter, sort: view.sort ?? current.sort, visibleColumns: view.visibleColumns },
+      view.id
+    );
+  };
+
+  const handleSave = async (values: SaveKeywordViewOptions) => {
+    setSaving(true);
+    try {
+      await saveView(values);
+      message.success('视图已保存');
+      setSaveModalOpen(false);
+      form.resetFields();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '保存视图失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!activeView) {
+      return;
+    }
+    try {
+      await updateSavedView(activeView.id);
+      message.success('视图已更新');
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '更新视图失败');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeView) {
+      return;
+    }
+    try {
+      await deleteSavedView(activeView.id);
+      message.success('视图已删除');
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '删除视图失败');
+    }
+  };
+
+  const handleCopyLink = async () => {
+    const copied = await copyToClipboard(buildKeywordViewUrl(getViewState()));
+    if (copied) {
+      message.success('链接已复制');
+    } else {
+      message.error('复制失败');
+    }
+  };
+
+  const columnChooser = (
+    <Checkbox.Group
+      className="flex flex-col gap-2"
+      options={columns.map((column) => ({ label: column.title, value: column.key }))}
+      value={visibleColumns.length > 0 ? visibleColumns : columns.map((column) => column.key)}
+      onChange={(values) => {
+        const selected = values as string[];
+        // 全选时存为空数组，新增的列默认可见
+        setVisibleColumns(selected.length === columns.length ? [] : selected);
+      }}
+    />
+  );
+
+  return (
+    <Space wrap className="mb-4">
+      <Select
+        allowClear
+        placeholder="选择视图"
+        style={{ minWidth: 220 }}
+        value={activeViewId ?? undefined}
+        options={viewOptions}
+        onChange={(value?: string) => (value ? handleSelect(value) : applyViewState(getViewState(), null))}
+      />
+      <Button icon={<SaveOutlined />} onClick={() => setSaveModalOpen(true)}>
+        另存为视图
+      </Button>
+      {activeView && (
+        <>
+          <Button onClick={handleUpdate}>更新视图</Button>
+          <Popconfirm title={`确定删除视图「${activeView.name}」吗？`} onConfirm={handleDelete}>
+            <Button danger icon={<DeleteOutlined />}>删除视图</Button>
+          </Popconfirm>
+        </>
+      )}
+      <Popover trigger="click" title="显示列" content={columnChooser}>
+        <Button icon={<SettingOutlined />}>显示列</Button>
+      </Popover>
+      <Button icon={<LinkOutlined />} onClick={handleCopyLink}>
+        复制链接
+      </Button>
+
+      <Modal
+        title="保存视图"
+        open={saveModalOpen}
+        confirmLoading={saving}
+        onOk={() => form.submit()}
+        onCancel={() => setSaveModalOpen(false)}
+        destroyOnClose
+      >
+        <Form form={form} layout="vertical" onFinish={handleSave} initialValues={{ isShared: false }}>
+          <Form.Item
+            name="name"
+            label="视图名称"
+            rules={[{ required: true, whitespace: true, max: 100, message: '请输入 1-100 个字符的视图名称' }]}
+          >
+            <Input placeholder="如：P0 活跃关键词" />
+          </Form.Item>
+          <Form.Item name="isShared" label="共享给团队" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+          <Form.Item
+            name="defaultForRoles"
+            label="设为角色默认视图"
+            extra="仅管理员和经理可设置，设置后视图自动共享"
+          >
+            <Select mode="multiple" allowClear options={roleOptions} placeholder="不设置" />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </Space>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Alert, AutoComplete, Input, Space, Tag, Typography } from 'antd';
+import { SearchOutlined } from '@ant-design/icons';
+import { KeywordSearchHit, SimilarKeyword } from '@/types/keyword';
+import { useKeywordStore } from '@/stores/keyword-store';
+import { formatNumber } from '@/lib/utils';
+
+const { Text } = Typography;
+
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_LIMIT = 10;
+
+/**
+ * 按命中区间高亮关键词文本
+ */
+function HighlightedText({ text, highlights }: Pick<KeywordSearchHit, 'highlights'> & { text: string }) {
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+
+  [...highlights]
+    .sort((a, b) => a.start - b.start)
+    .forEach(({ start, length }) => {
+      if (start < cursor) {
+        return;
+      }
+      if (start > cursor) {
+        parts.push(<span key={`t${cursor}`}>{text.slice(cursor, start)}</span>);
+      }
+      parts.push(<mark key={`h${start}`}>{text.slice(start, start + length)}</mark>);
+      cursor = start + length;
+    });
+  if (cursor < text.length) {
+    parts.push(<span key={`t${cursor}`}>{text.slice(cursor)}</span>);
+  }
+
+  return <>{parts}</>;
+}
+
+interface KeywordSearchBoxProps {
+  onSelectKeyword: (keywordId: string) => void;
+}
+
+/**
+ * 关键词快速检索：全文检索 + 模糊匹配，容忍词形、词序差异和拼写错误
+ */
+export function KeywordSearchBox({ onSelectKeyword }: KeywordSearchBoxProps) {
+  const searchKeywords = useKeywordStore((state) => state.searchKeywords);
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<KeywordSearchHit[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setHits([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const result = await searchKeywords({ query: trimmed, limit: SEARCH_LIMIT });
+        if (!cancelled) {
+          setHits(result.hits);
+        }
+      } catch {
+        if (!cancelled) {
+          setHits([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, searchKeywords]);
+
+  const options = hits.map((hit) => ({
+    value: hit.keyword.id,
+    label: (
+      <div className="flex justify-between gap-4">
+        <span>
+          <HighlightedText text={hit.keyword.text} highlights={hit.highlights} />
+        </span>
+        <Space size={4}>
+          {hit.keyword.priorityLevel && <Tag>{hit.keyword.priorityLevel}</Tag>}
+          <Text type="secondary">{formatNumber(hit.keyword.searchVolume ?? 0)}</Text>
+        </Space>
+      </div>
+    ),
+  }));
+
+  return (
+    <AutoComplete
+      value={query}
+      options={options}
+      onSearch={setQuery}
+      onSelect={(keywordId: string) => {
+        setQuery('');
+        onSelectKeyword(keywordId);
+      }}
+      notFoundContent={query.trim() && !loading ? '未找到匹配的关键词' : null}
+      style={{ width: 320 }}
+    >
+      <Input prefix={<SearchOutlined />} placeholder="检索关键词（支持拼写错误）" allowClear />
+    </AutoComplete>
+  );
+}
+
+interface KeywordSimilarAlertProps {
+  text: string;
+  /** 编辑已有关键词时排除自身 */
+  excludeKeywordId?: string;
+}
+
+/**
+ * 创建关键词前提示近似重复的已有关键词
+ */
+export function KeywordSimilarAlert({ text, excludeKeywordId }: KeywordSimilarAlertProps) {
+  const findSimilarKeywords = useKeywordStore((state) => state.findSimilarKeywords);
+  const [matches, setMatches] = useState<SimilarKeyword[]>([]);
+
+  useEffect(() => {
+    const trimmed = text.trim();
+    if (trimmed.length < 3) {
+      setMatches([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      findSimilarKeywords({ text: trimmed, limit: 5, ...(excludeKeywordId && { excludeKeywordId }) })
+        .then((result) => {
+          if (!cancelled) {
+            setMatches(result);
+          }
+        })
+        .catch(() => {
+          // 相似检查失败不影响创建
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [text, excludeKeywordId, findSimilarKeywords]);
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert
+      type="warning"
+      showIcon
+      className="mb-4"
+      message="已存在相似关键词，请确认是否重复"
+      description={
+        <Space direction="vertical" size={2}>
+          {matches.map((match) => (
+            <Space key={match.keyword.id} size={4}>
+              <Text>{match.keyword.text}</Text>
+              {match.sameTerms ? (
+                <Tag color="red">疑似重复</Tag>
+              ) : (
+                <Tag>相似度 {Math.round(match.similarity * 100)}%</Tag>
+              )}
+              <Text type="secondary">{match.keyword.status}</Text>
+            </Space>
+          ))}
+        </Space>
+      }
+    />
+  );
+}
@@ -0,0 +1,120 @@
+import {
+  KeywordFilter,
+  KeywordSort,
+  KeywordSortField,
+  KeywordViewState,
+  SortDirection,
+} from '@/types/keyword';
+
+/** 分享链接中保存视图状态的查询参数 */
+export const KEYWORD_VIEW_STATE_PARAM = 'view';
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseSort(value: unknown): KeywordSort | null {
+  if (!isPlainObject(value)) {
+    return null;
+  }
+  const field = String(value.field).toUpperCase() as KeywordSortField;
+  const direction = String(value.direction).toUpperCase() as SortDirection;
+  if (!Object.values(KeywordSortField).includes(field) || !Object.values(SortDirection).includes(direction)) {
+    return null;
+  }
+  return { field, direction };
+}
+
+/**
+ * 视图状态编码为 URL 参数（JSON + base64url），空筛选和默认分页不写入
+ */
+export function encodeKeywordViewState(state: KeywordViewState): string {
+  const compact = Object.fromEntries(
+    Object.entries(state.filter).filter(([, value]) =>
+      value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)
+    )
+  );
+
+  return toBase64Url(JSON.stringify({
+    f: compact,
+    s: state.sort,
+    ...(state.visibleColumns.length > 0 && { c: state.visibleColumns }),
+    ...(state.currentPage && state.currentPage > 1 && { p: state.currentPage }),
+    ...(state.pageSize && { n: state.pageSize }),
+  }));
+}
+
+/**
+ * 解析 URL 参数中的视图状态，格式无效时返回 null
+ */
+export function decodeKeywordViewState(value: string): KeywordViewState | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fromBase64Url(value));
+  } catch {
+    return null;
+  }
+  if (!isPlainObject(parsed)) {
+    return null;
+  }
+
+  const sort = parseSort(parsed.s);
+  if (!sort) {
+    return null;
+  }
+
+  return {
+    filter: isPlainObject(parsed.f) ? (parsed.f as KeywordFilter) : {},
+    sort,
+    visibleColumns: Array.isArray(parsed.c) ? parsed.c.filter((column): column is string => typeof column === 'string') : [],
+    ...(typeof parsed.p === 'number' && parsed.p > 0 && { currentPage: Math.floor(parsed.p) }),
+    ...(typeof parsed.n === 'number' && parsed.n > 0 && { pageSize: Math.floor(parsed.n) }),
+  };
+}
+
+/**
+ * 当前页面的分享链接
+ */
+export function buildKeywordViewUrl(state: KeywordViewState): string {
+  const url = new URL(window.location.href);
+  url.searchParams.set(KEYWORD_VIEW_STATE_PARAM, encodeKeywordViewState(state));
+  return url.toString();
+}
+
+/**
+ * 保存视图中的排序 <-> 后端排序（方向使用小写）
+ */
+export function toSavedViewSort(sort: KeywordSort): { field: string; direction: 'asc' | 'desc' } {
+  return { field: sort.field, direction: sort.direction === SortDirection.ASC ? 'asc' : 'desc' };
+}
+
+export function fromSavedViewSort(sort?: { field: string; direction: string } | null): KeywordSort | null {
+  return parseSort(sort);
+}
+
+/**
+ * 保存视图的筛选条件 JSON 解析失败时按无筛选处理
+ */
+export function parseSavedViewFilter(filter: string): KeywordFilter {
+  try {
+    const parsed = JSON.parse(filter);
+    return isPlainObject(parsed) ? (parsed as KeywordFilter) : {};
+  } catch {
+    return {};
+  }
+}
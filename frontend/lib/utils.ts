@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { PRIORITY_TIER_INFO } from '@geo-platform/shared';
 import { KeywordPriority, AIOStatus, ChannelType } from '@/types/keyword';
 
 export function cn(...inputs: ClassValue[]) {
@@ -124,14 +125,7 @@ export function getChannelName(channelType: ChannelType): string {
 
 // 获取优先级名称
 export function getPriorityName(priority: KeywordPriority): string {
-  const names = {
-    [KeywordPriority.P0]: '最高优先级',
-    [KeywordPriority.P1]: '高优先级',
-    [KeywordPriority.P2]: '中优先级',
-    [KeywordPriority.P3]: '低优先级',
-    [KeywordPriority.P4]: '最低优先级',
-  };
-  return names[priority] || priority;
+  return PRIORITY_TIER_INFO[priority]?.name || priority;
 }
 
 // 获取 AIO 状态名称
@@ -314,4 +308,16 @@ export function downloadFile(content: string, filename: string, contentType = 't
   link.click();
   document.body.removeChild(link);
   window.URL.revokeObjectURL(url);
-}
\ No newline at end of file
+}
+// 读取文件为 Base64（不含 data URL 前缀）
+export function readFileAsBase64(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = typeof reader.result === 'string' ? reader.result : '';
+      resolve(result.slice(result.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
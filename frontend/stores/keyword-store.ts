@@ -1,6 +1,10 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
+import { gql } from '@apollo/client';
+import { ImportKeywordsInputSchema } from '@geo-platform/shared';
+import type { KeywordSavedView as KeywordSavedViewPayload } from '@geo-platform/shared';
+import { apolloClient } from '@/lib/apollo-client';
 import {
   Keyword,
   KeywordFilter,
@@ -10,7 +14,307 @@ import {
   LoadingState,
   KeywordSortField,
   SortDirection,
+  KeywordImportInput,
+  KeywordImportReport,
+  KeywordClusterTree,
+  KeywordClusteringReport,
+  ProductLine,
+  RebuildKeywordClustersInput,
+  KeywordCannibalization,
+  KeywordGapAnalysis,
+  KeywordGapAnalysisInput,
+  KeywordGapBacklogItemInput,
+  KeywordGapBacklogResult,
+  AuditLogPage,
+  AuditDateRangeInput,
+  KeywordSavedView,
+  KeywordViewState,
+  SaveKeywordViewOptions,
+  KeywordSearchInput,
+  KeywordSearchResult,
+  SimilarKeywordsInput,
+  SimilarKeyword,
 } from '@/types/keyword';
+import { fromSavedViewSort, parseSavedViewFilter, toSavedViewSort } from '@/lib/keyword-view-state';
+
+const IMPORT_KEYWORDS_MUTATION = gql`
+  mutation ImportKeywords($input: ImportKeywordsInput!) {
+    importKeywords(input: $input) {
+      dryRun
+      totalRows
+      createdCount
+      updatedCount
+      skippedCount
+      failedCount
+      rows {
+        rowNumber
+        text
+        action
+        keywordId
+        errors
+        data {
+          text
+          searchVolume
+          difficulty
+          cpc
+          productLine
+          intentType
+          stage
+        }
+      }
+    }
+  }
+`;
+
+const KEYWORD_CLUSTER_TREE_QUERY = gql`
+  query KeywordClusterTree($productLine: ProductLine) {
+    keywordClusterTree(productLine: $productLine) {
+      unclusteredCount
+      clusters {
+        id
+        name
+        productLine
+        pillarKeywordId
+        keywordCount
+        totalSearchVolume
+        cohesion
+        keywords {
+          id
+          text
+          searchVolume
+          priorityLevel
+          aioStatus
+        }
+      }
+    }
+  }
+`;
+
+const REBUILD_KEYWORD_CLUSTERS_MUTATION = gql`
+  mutation RebuildKeywordClusters($input: RebuildKeywordClustersInput) {
+    rebuildKeywordClusters(input: $input) {
+      productLine
+      totalKeywords
+      clusterCount
+      clusteredCount
+      unclusteredCount
+      serpCoverage
+      durationMs
+    }
+  }
+`;
+
+const KEYWORD_CANNIBALIZATION_QUERY = gql`
+  query KeywordCannibalization($keywordId: ID!) {
+    keywordCannibalization(keywordId: $keywordId) {
+      keywordId
+      keywordText
+      productLine
+      isCannibalized
+      severity
+      trafficSplit
+      trafficSource
+      pages {
+        contentId
+        title
+        contentType
+        url
+        position
+        traffic
+        trafficShare
+        isPrimary
+      }
+      suggestions {
+        action
+        sourceContentId
+        sourceUrl
+        targetContentId
+        targetUrl
+        suggestedKeywordId
+        suggestedKeywordText
+        reason
+      }
+    }
+  }
+`;
+
+const KEYWORD_GAP_ANALYSIS_QUERY = gql`
+  query KeywordGapAnalysis($input: KeywordGapAnalysisInput) {
+    keywordGapAnalysis(input: $input) {
+      competitorDomains
+      totalOpportunity
+      analyzedAt
+      gaps {
+        text
+        keywordId
+        productLine
+        source
+        searchVolume
+        ownPosition
+        rankingGap
+        aioGap
+        estimatedOpportunity
+        competitors {
+          domain
+          position
+          url
+          aioPosition
+        }
+      }
+    }
+  }
+`;
+
+const ADD_KEYWORD_GAPS_MUTATION = gql`
+  mutation AddKeywordGapsToBacklog($input: AddKeywordGapsInput!) {
+    addKeywordGapsToBacklog(input: $input) {
+      created {
+        id
+        text
+        source
+        sourceDomains
+      }
+      skippedTexts
+    }
+  }
+`;
+
+const AUDIT_LOG_QUERY = gql`
+  query AuditLog($resourceId: String, $dateRange: AuditDateRangeInputType, $limit: Int, $offset: Int) {
+    auditLog(resourceId: $resourceId, dateRange: $dateRange, limit: $limit, offset: $offset) {
+      entries {
+        id
+        occurredAt
+        operationType
+        operationName
+        resourceType
+        userId
+        userEmail
+        success
+        error
+        changes {
+          field
+          before
+          after
+        }
+      }
+      total
+    }
+  }
+`;
+
+const KEYWORD_SAVED_VIEWS_QUERY = gql`
+  query KeywordSavedViews {
+    keywordSavedViews {
+      id
+      name
+      filter
+      sort { field direction }
+      visibleColumns
+      ownerId
+      isShared
+      defaultForRoles
+      updatedAt
+      owner { id username fullName }
+    }
+  }
+`;
+
+const DEFAULT_KEYWORD_SAVED_VIEW_QUERY = gql`
+  query DefaultKeywordSavedView {
+    defaultKeywordSavedView {
+      id
+      name
+      filter
+      sort { field direction }
+      visibleColumns
+      ownerId
+      isShared
+      defaultForRoles
+      updatedAt
+      owner { id username fullName }
+    }
+  }
+`;
+
+const CREATE_KEYWORD_SAVED_VIEW_MUTATION = gql`
+  mutation CreateKeywordSavedView($input: CreateKeywordSavedViewInput!) {
+    createKeywordSavedView(input: $input) {
+      id
+      name
+      filter
+      sort { field direction }
+      visibleColumns
+      ownerId
+      isShared
+      defaultForRoles
+      updatedAt
+      owner { id username fullName }
+    }
+  }
+`;
+
+const UPDATE_KEYWORD_SAVED_VIEW_MUTATION = gql`
+  mutation UpdateKeywordSavedView($input: UpdateKeywordSavedViewInput!) {
+    updateKeywordSavedView(input: $input) {
+      id
+      name
+      filter
+      sort { field direction }
+      visibleColumns
+      ownerId
+      isShared
+      defaultForRoles
+      updatedAt
+      owner { id username fullName }
+    }
+  }
+`;
+
+const DELETE_KEYWORD_SAVED_VIEW_MUTATION = gql`
+  mutation DeleteKeywordSavedView($id: ID!) {
+    deleteKeywordSavedView(id: $id)
+  }
+`;
+
+const KEYWORD_SEARCH_QUERY = gql`
+  query KeywordSearch($input: KeywordSearchInput!) {
+    keywordSearch(input: $input) {
+      hits {
+        keyword { id text searchVolume priorityLevel status productLine }
+        score
+        highlights { start length }
+      }
+      total
+    }
+  }
+`;
+
+const SIMILAR_KEYWORDS_QUERY = gql`
+  query SimilarKeywords($input: SimilarKeywordsInput!) {
+    similarKeywords(input: $input) {
+      keyword { id text searchVolume priorityLevel status productLine }
+      similarity
+      sameTerms
+    }
+  }
+`;
+
+/** 后端保存视图 -> store 视图（解析筛选条件 JSON） */
+function toKeywordSavedView(view: KeywordSavedViewPayload): KeywordSavedView {
+  return {
+    id: view.id,
+    name: view.name,
+    filter: parseSavedViewFilter(view.filter),
+    sort: fromSavedViewSort(view.sort),
+    visibleColumns: view.visibleColumns,
+    ownerId: view.ownerId,
+    isShared: view.isShared,
+    defaultForRoles: view.defaultForRoles,
+    owner: view.owner,
+    updatedAt: view.updatedAt,
+  };
+}
 
 interface KeywordState {
   // 数据状态
@@ -18,21 +322,28 @@ interface KeywordState {
   connection: KeywordConnection | null;
   selectedKeywords: string[];
   currentKeyword: Keyword | null;
+  clusterTree: KeywordClusterTree | null;
+  savedViews: KeywordSavedView[];
+  activeViewId: string | null;
   
   // 查询状态
   filter: KeywordFilter;
   sort: KeywordSort;
   currentPage: number;
   pageSize: number;
+  visibleColumns: string[]; // 为空时显示全部列
   
   // UI 状态
   loading: LoadingState;
   isTableLoading: boolean;
   isExporting: boolean;
   isBulkActionLoading: boolean;
+  isImporting: boolean;
+  isTreeLoading: boolean;
+  isClustering: boolean;
   
   // 视图状态
-  viewMode: 'table' | 'grid' | 'tree';
+  viewMode: 'table' | 'grid' | 'tree' | 'gap';
   showFilters: boolean;
   showMetrics: boolean;
   
@@ -55,6 +366,20 @@ interface KeywordState {
   clearFilter: () => void;
   setSort: (sort: KeywordSort) => void;
   setPagination: (page: number, pageSize?: number) => void;
+  setVisibleColumns: (columns: string[]) => void;
+  
+  // 检索
+  searchKeywords: (input: KeywordSearchInput) => Promise<KeywordSearchResult>;
+  findSimilarKeywords: (input: SimilarKeywordsInput) => Promise<SimilarKeyword[]>;
+  
+  // 保存视图和分享链接
+  getViewState: () => KeywordViewState;
+  applyViewState: (viewState: KeywordViewState, viewId?: string | null) => void;
+  fetchSavedViews: () => Promise<void>;
+  applyDefaultView: () => Promise<boolean>;
+  saveView: (options: SaveKeywordViewOptions) => Promise<KeywordSavedView>;
+  updateSavedView: (id: string, options?: Partial<SaveKeywordViewOptions>) => Promise<KeywordSavedView>;
+  deleteSavedView: (id: string) => Promise<void>;
   
   // 加载状态
   setLoading: (loading: Partial<LoadingState>) => void;
@@ -63,13 +388,33 @@ interface KeywordState {
   setBulkActionLoading: (loading: boolean) => void;
   
   // 视图状态
-  setViewMode: (mode: 'table' | 'grid' | 'tree') => void;
+  setViewMode: (mode: 'table' | 'grid' | 'tree' | 'gap') => void;
   toggleFilters: () => void;
   toggleMetrics: () => void;
   
   // 批量操作
   executeBulkAction: (action: BulkActionInput) => Promise<void>;
   
+  // 批量导入（dryRun 时仅返回预览报告）
+  importKeywords: (input: KeywordImportInput) => Promise<KeywordImportReport>;
+  
+  // 主题聚类（树形视图）
+  fetchClusterTree: (productLine?: ProductLine) => Promise<void>;
+  rebuildClusters: (input?: RebuildKeywordClustersInput) => Promise<KeywordClusteringReport>;
+  
+  // 内容蚕食分析
+  fetchCannibalization: (keywordId: string) => Promise<KeywordCannibalization>;
+  
+  // 竞品差距分析
+  fetchKeywordGaps: (input?: KeywordGapAnalysisInput) => Promise<KeywordGapAnalysis>;
+  addGapsToBacklog: (items: KeywordGapBacklogItemInput[]) => Promise<KeywordGapBacklogResult>;
+  
+  // 操作历史（审计日志）
+  fetchAuditLog: (
+    resourceId: string,
+    options?: { dateRange?: AuditDateRangeInput; limit?: number; offset?: number }
+  ) => Promise<AuditLogPage>;
+  
   // 重置状态
   reset: () => void;
 }
@@ -94,16 +439,23 @@ export const useKeywordStore = create<KeywordState>()(
       connection: null,
       selectedKeywords: [],
       currentKeyword: null,
+      clusterTree: null,
+      savedViews: [],
+      activeViewId: null,
       
       filter: initialFilter,
       sort: initialSort,
       currentPage: 1,
       pageSize: 20,
+      visibleColumns: [],
       
       loading: initialLoading,
       isTableLoading: false,
       isExporting: false,
       isBulkActionLoading: false,
+      isImporting: false,
+      isTreeLoading: false,
+      isClustering: false,
       
       viewMode: 'table',
       showFilters: false,
@@ -209,6 +561,154 @@ export const useKeywordStore = create<KeywordState>()(
           }
         }),
       
+      setVisibleColumns: (columns) =>
+        set((state) => {
+          state.visibleColumns = columns;
+        }),
+      
+      // 检索
+      searchKeywords: async (input) => {
+        const { data, errors } = await apolloClient.query<{ keywordSearch: KeywordSearchResult }>({
+          query: KEYWORD_SEARCH_QUERY,
+          variables: { input },
+          fetchPolicy: 'network-only',
+        });
+        
+        if (errors?.length || !data) {
+          throw new Error(errors?.[0]?.message || '检索关键词失败');
+        }
+        
+        return data.keywordSearch;
+      },
+      
+      findSimilarKeywords: async (input) => {
+        const { data, errors } = await apolloClient.query<{ similarKeywords: SimilarKeyword[] }>({
+          query: SIMILAR_KEYWORDS_QUERY,
+          variables: { input },
+          fetchPolicy: 'network-only',
+        });
+        
+        if (errors?.length || !data) {
+          throw new Error(errors?.[0]?.message || '查询相似关键词失败');
+        }
+        
+        return data.similarKeywords;
+      },
+      
+      // 保存视图和分享链接
+      getViewState: () => {
+        const { filter, sort, visibleColumns, currentPage, pageSize } = get();
+        return { filter, sort, visibleColumns, currentPage, pageSize };
+      },
+      
+      applyViewState: (viewState, viewId = null) =>
+        set((state) => {
+          state.filter = viewState.filter;
+          state.sort = viewState.sort;
+          state.visibleColumns = viewState.visibleColumns;
+          state.currentPage = viewState.currentPage ?? 1;
+          if (viewState.pageSize !== undefined) {
+            state.pageSize = viewState.pageSize;
+          }
+          state.activeViewId = viewId;
+        }),
+      
+      fetchSavedViews: async () => {
+        const { data, errors } = await apolloClient.query<{ keywordSavedViews: KeywordSavedViewPayload[] }>({
+          query: KEYWORD_SAVED_VIEWS_QUERY,
+          fetchPolicy: 'network-only',
+        });
+        
+        if (errors?.length || !data) {
+          throw new Error(errors?.[0]?.message || '加载保存视图失败');
+        }
+        
+        set((state) => {
+          state.savedViews = data.keywordSavedViews.map(toKeywordSavedView);
+        });
+      },
+      
+      applyDefaultView: async () => {
+        const { data, errors } = await apolloClient.query<{ defaultKeywordSavedView: KeywordSavedViewPayload | null }>({
+          query: DEFAULT_KEYWORD_SAVED_VIEW_QUERY,
+          fetchPolicy: 'network-only',
+        });
+        
+        if (errors?.length || !data) {
+          throw new Error(errors?.[0]?.message || '加载默认视图失败');
+        }
+        if (!data.defaultKeywordSavedView) {
+          return false;
+        }
+        
+        const view = toKeywordSavedView(data.defaultKeywordSavedView);
+        get().applyViewState(
+          { filter: view.filter, sort: view.sort ?? initialSort, visibleColumns: view.visibleColumns },
+          view.id
+        );
+        return true;
+      },
+      
+      saveView: async (options) => {
+        const { filter, sort, visibleColumns } = get().getViewState();
+        const { data, errors } = await apolloClient.mutate<{ createKeywordSavedView: KeywordSavedViewPayload }>({
+          mutation: CREATE_KEYWORD_SAVED_VIEW_MUTATION,
+          variables: {
+            input: { ...options, filter: JSON.stringify(filter), sort: toSavedViewSort(sort), visibleColumns },
+          },
+        });
+        
+        if (errors?.length || !data) {
+          throw new Error(errors?.[0]?.message || '保存视图失败');
+        }
+        
+        const view = toKeywordSavedView(data.createKeywordSavedView);
+        set((state: KeywordState) => {
+          state.savedViews.push(view);
+          state.savedViews.sort((a, b) => a.name.localeCompare(b.name));
+          state.activeViewId = view.id;
+        });
+        return view;
+      },
+      
+      updateSavedView: async (id, options) => {
+        const { filter, sort, visibleColumns } = get().getViewState();
+        const { data, errors } = await apolloClient.mutate<{ updateKeywordSavedView: KeywordSavedViewPayload }>({
+          mutation: UPDATE_KEYWORD_SAVED_VIEW_MUTATION,
+          variables: {
+            input: { id, ...options, filter: JSON.stringify(filter), sort: toSavedViewSort(sort), visibleColumns },
+          },
+        });
+        
+        if (errors?.length || !data) {
+          throw new Error(errors?.[0]?.message || '更新视图失败');
+        }
+        
+        const view = toKeywordSavedView(data.updateKeywordSavedView);
+        set((state: KeywordState) => {
+          state.savedViews = state.savedViews.map((existing) => (existing.id === id ? view : existing));
+        });
+        return view;
+      },
+      
+      deleteSavedView: async (id) => {
+        const { data, errors } = await apolloClient.mutate<{ deleteKeywordSavedView: boolean }>({
+          mutation: DELETE_KEYWORD_SAVED_VIEW_MUTATION,
+          variables: { id },
+        });
+        
+        if (errors?.length || !data) {
+          throw new Error(errors?.[0]?.message || '删除视图失败');
+        }
+        
+        set((state: KeywordState) => {
+          state.savedViews = state.savedViews.filter((view) => view.id !== id);
+          if (state.activeViewId === id) {
+            state.activeViewId = null;
+          }
+        });
+      },
+      
       // 加载状态
       setLoading: (loading) =>
         set((state) => {
@@ -298,6 +798,135 @@ export const useKeywordStore = create<KeywordState>()(
         }
       },
       
+      // 批量导入
+      importKeywords: async (input) => {
+        set((state) => {
+          state.isImporting = true;
+        });
+        
+        try {
+          const { data, errors } = await apolloClient.mutate<{ importKeywords: KeywordImportReport }>({
+            mutation: IMPORT_KEYWORDS_MUTATION,
+            variables: { input: ImportKeywordsInputSchema.parse(input) },
+          });
+          
+          if (errors?.length || !data) {
+            throw new Error(errors?.[0]?.message || '导入失败');
+          }
+          
+          return data.importKeywords;
+        } finally {
+          set((state) => {
+            state.isImporting = false;
+          });
+        }
+      },
+      
+      fetchClusterTree: async (productLine) => {
+        set((state) => {
+          state.isTreeLoading = true;
+        });
+        
+        try {
+          const { data, errors } = await apolloClient.query<{ keywordClusterTree: KeywordClusterTree }>({
+            query: KEYWORD_CLUSTER_TREE_QUERY,
+            variables: { productLine },
+            fetchPolicy: 'network-only',
+          });
+          
+          if (errors?.length || !data) {
+            throw new Error(errors?.[0]?.message || '获取聚类失败');
+          }
+          
+          set((state) => {
+            state.clusterTree = data.keywordClusterTree;
+          });
+        } finally {
+          set((state) => {
+            state.isTreeLoading = false;
+          });
+        }
+      },
+      
+      rebuildClusters: async (input) => {
+        set((state) => {
+          state.isClustering = true;
+        });
+        
+        try {
+          const { data, errors } = await apolloClient.mutate<{ rebuildKeywordClusters: KeywordClusteringReport }>({
+            mutation: REBUILD_KEYWORD_CLUSTERS_MUTATION,
+            variables: { input },
+          });
+          
+          if (errors?.length || !data) {
+            throw new Error(errors?.[0]?.message || '重建聚类失败');
+          }
+          
+          await get().fetchClusterTree(input?.productLine ?? undefined);
+          return data.rebuildKeywordClusters;
+        } finally {
+          set((state) => {
+            state.isClustering = false;
+          });
+        }
+      },
+      
+      fetchCannibalization: async (keywordId) => {
+        const { data, errors } = await apolloClient.query<{ keywordCannibalization: KeywordCannibalization }>({
+          query: KEYWORD_CANNIBALIZATION_QUERY,
+          variables: { keywordId },
+          fetchPolicy: 'network-only',
+        });
+        
+        if (errors?.length || !data) {
+          throw new Error(errors?.[0]?.message || '内容蚕食分析失败');
+        }
+        
+        return data.keywordCannibalization;
+      },
+      
+      fetchKeywordGaps: async (input) => {
+        const { data, errors } = await apolloClient.query<{ keywordGapAnalysis: KeywordGapAnalysis }>({
+          query: KEYWORD_GAP_ANALYSIS_QUERY,
+          variables: { input },
+          fetchPolicy: 'network-only',
+        });
+        
+        if (errors?.length || !data) {
+          throw new Error(errors?.[0]?.message || '竞品差距分析失败');
+        }
+        
+        return data.keywordGapAnalysis;
+      },
+      
+      addGapsToBacklog: async (items) => {
+        const { data, errors } = await apolloClient.mutate<{ addKeywordGapsToBacklog: KeywordGapBacklogResult }>({
+          mutation: ADD_KEYWORD_GAPS_MUTATION,
+          variables: { input: { items } },
+        });
+        
+        if (errors?.length || !data) {
+          throw new Error(errors?.[0]?.message || '加入关键词库失败');
+        }
+        
+        return data.addKeywordGapsToBacklog;
+      },
+      
+      fetchAuditLog: async (resourceId, options) => {
+        const { data, errors } = await apolloClient.query<{ auditLog: AuditLogPage }>({
+          query: AUDIT_LOG_QUERY,
+          variables: { resourceId, ...options },
+          fetchPolicy: 'network-only',
+        });
+        
+        if (errors?.length || !data) {
+          throw new Error(errors?.[0]?.message || '加载操作历史失败');
+        }
+        
+        return data.auditLog;
+      },
+      
       // 重置状态
       reset: () =>
         set((state) => {
@@ -305,14 +934,21 @@ export const useKeywordStore = create<KeywordState>()(
           state.connection = null;
           state.selectedKeywords = [];
           state.currentKeyword = null;
+          state.clusterTree = null;
+          state.savedViews = [];
+          state.activeViewId = null;
           state.filter = initialFilter;
           state.sort = initialSort;
           state.currentPage = 1;
           state.pageSize = 20;
+          state.visibleColumns = [];
           state.loading = initialLoading;
           state.isTableLoading = false;
           state.isExporting = false;
           state.isBulkActionLoading = false;
+          state.isImporting = false;
+          state.isTreeLoading = false;
+          state.isClustering = false;
           state.viewMode = 'table';
           state.showFilters = false;
           state.showMetrics = true;
@@ -325,6 +961,7 @@ export const useKeywordStore = create<KeywordState>()(
         filter: state.filter,
         sort: state.sort,
         pageSize: state.pageSize,
+        visibleColumns: state.visibleColumns,
         viewMode: state.viewMode,
         showFilters: state.showFilters,
         showMetrics: state.showMetrics,
@@ -349,6 +986,9 @@ export const useKeywordLoading = () => useKeywordStore((state) => ({
   isTableLoading: state.isTableLoading,
   isExporting: state.isExporting,
   isBulkActionLoading: state.isBulkActionLoading,
+  isImporting: state.isImporting,
+  isTreeLoading: state.isTreeLoading,
+  isClustering: state.isClustering,
 }));
 export const useKeywordViewState = () => useKeywordStore((state) => ({
   viewMode: state.viewMode,
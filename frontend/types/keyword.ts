@@ -1,11 +1,12 @@
-// 关键词优先级枚举
-export enum KeywordPriority {
-  P0 = 'P0',
-  P1 = 'P1', 
-  P2 = 'P2',
-  P3 = 'P3',
-  P4 = 'P4',
-}
+import { PriorityTier as KeywordPriority } from '@geo-platform/shared';
+import type {
+  Keyword as ContractKeyword,
+  KeywordCluster as ContractKeywordCluster,
+  KeywordSavedView as ContractKeywordSavedView,
+} from '@geo-platform/shared';
+
+// 关键词优先级枚举（与后端共用 P0-P4 分级）
+export { KeywordPriority };
 
 // AIO 状态枚举
 export enum AIOStatus {
@@ -182,6 +183,127 @@ export interface BulkActionInput {
   value?: any;
 }
 
+// 批量导入（与后端 GraphQL 契约一致）
+export {
+  KeywordImportAction,
+  KeywordImportDuplicateStrategy,
+  type KeywordImportColumnMappingInput as KeywordImportColumnMapping,
+  type ImportKeywordsInput as KeywordImportInput,
+  type KeywordImportRowResult,
+  type KeywordImportReport,
+} from '@geo-platform/shared';
+
+// 主题聚类（与后端 GraphQL 契约一致，仅包含树形视图查询的字段）
+export {
+  ProductLine,
+  type RebuildKeywordClustersInput,
+  type KeywordClusteringReport,
+} from '@geo-platform/shared';
+
+export type KeywordClusterMember = Pick<
+  ContractKeyword,
+  'id' | 'text' | 'searchVolume' | 'priorityLevel' | 'aioStatus'
+>;
+
+export interface KeywordClusterNode extends Pick<
+  ContractKeywordCluster,
+  'id' | 'name' | 'productLine' | 'pillarKeywordId' | 'keywordCount' | 'totalSearchVolume' | 'cohesion'
+> {
+  keywords: KeywordClusterMember[];
+}
+
+export interface KeywordClusterTree {
+  clusters: KeywordClusterNode[];
+  unclusteredCount: number;
+}
+
+// 内容蚕食分析（与后端 GraphQL 契约一致）
+export {
+  CannibalizationSeverity,
+  CannibalizationAction,
+  type CannibalizingPage,
+  type CannibalizationSuggestion,
+  type KeywordCannibalization,
+} from '@geo-platform/shared';
+
+// 竞品差距分析（与后端 GraphQL 契约一致）
+export {
+  KeywordSource,
+  KeywordGapSource,
+  type KeywordGapCompetitor,
+  type KeywordGap,
+  type KeywordGapAnalysis,
+  type KeywordGapAnalysisInput,
+  type KeywordGapBacklogItemInput,
+} from '@geo-platform/shared';
+
+export interface KeywordGapBacklogResult {
+  created: Array<Pick<ContractKeyword, 'id' | 'text' | 'source' | 'sourceDomains'>>;
+  skippedTexts: string[];
+}
+
+// 操作历史（与后端 GraphQL 契约一致）
+export {
+  type AuditFieldChangeType as AuditFieldChange,
+  type AuditLogEntryType as AuditLogEntry,
+  type AuditLogPageType as AuditLogPage,
+  type AuditDateRangeInputType as AuditDateRangeInput,
+} from '@geo-platform/shared';
+
+// 关键词检索（与后端 GraphQL 契约一致，仅包含结果列表展示的关键词字段）
+export {
+  type KeywordTextHighlight,
+  type KeywordSearchInput,
+  type SimilarKeywordsInput,
+} from '@geo-platform/shared';
+
+export type KeywordSearchMatch = Pick<
+  ContractKeyword,
+  'id' | 'text' | 'searchVolume' | 'priorityLevel' | 'status' | 'productLine'
+>;
+
+export interface KeywordSearchHit {
+  keyword: KeywordSearchMatch;
+  score: number;
+  highlights: Array<{ start: number; length: number }>;
+}
+
+export interface KeywordSearchResult {
+  hits: KeywordSearchHit[];
+  total: number;
+}
+
+export interface SimilarKeyword {
+  keyword: KeywordSearchMatch;
+  similarity: number;
+  sameTerms: boolean; // 仅词序或词形不同，基本可判定为重复
+}
+
+// 关键词表格视图状态（保存视图和分享链接共用）
+export interface KeywordViewState {
+  filter: KeywordFilter;
+  sort: KeywordSort;
+  visibleColumns: string[]; // 为空时显示全部列
+  currentPage?: number;
+  pageSize?: number;
+}
+
+// 保存视图（后端以 JSON 字符串保存筛选条件，store 中解析为 KeywordFilter）
+export interface KeywordSavedView extends Pick<
+  ContractKeywordSavedView,
+  'id' | 'name' | 'ownerId' | 'isShared' | 'defaultForRoles' | 'owner' | 'updatedAt'
+> {
+  filter: KeywordFilter;
+  sort: KeywordSort | null;
+  visibleColumns: string[];
+}
+
+export interface SaveKeywordViewOptions {
+  name: string;
+  isShared?: boolean;
+  defaultForRoles?: string[];
+}
+
 // 关键词创建输入
 export interface CreateKeywordInput {
   term: string;
@@ -0,0 +1,269 @@
+#!/usr/bin/env node
+/**
+ * 根据后端 schema.gql 生成前后端共用的 GraphQL 契约
+ *
+ * - 枚举：值为 GraphQL 传输值（枚举名）
+ * - 对象类型：接口
+ * - 输入类型：zod 校验 schema，类型由 schema 推导
+ *
+ * 用法: node scripts/generate-contract.js [--check]
+ * --check 时仅比对生成结果与已提交文件，不一致则退出码为 1
+ */
+
+const fs = require('fs');
+const path = require('path');
+const {
+  buildSchema,
+  isEnumType,
+  isInputObjectType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isScalarType,
+} = require('graphql');
+
+const SCHEMA_PATH = path.resolve(__dirname, '../../backend/src/schema.gql');
+const OUTPUT_PATH = path.resolve(__dirname, '../src/generated/graphql.ts');
+
+/** 不生成的根类型 */
+const ROOT_TYPES = new Set(['Query', 'Mutation', 'Subscription']);
+
+/** 标量 -> [TypeScript 类型, zod 表达式] */
+const SCALARS = {
+  ID: ['string', 'z.string()'],
+  String: ['string', 'z.string()'],
+  Int: ['number', 'z.number().int()'],
+  Float: ['number', 'z.number()'],
+  Boolean: ['boolean', 'z.boolean()'],
+  DateTime: ['string', 'z.string().datetime({ offset: true })'],
+  Decimal: ['number | string', 'z.coerce.number()'],
+  JSON: ['unknown', 'z.unknown()'],
+};
+
+/**
+ * 由 shared 手写维护的枚举，生成代码直接复用并校验取值一致
+ */
+const SHARED_ENUMS = {
+  KeywordPriorityLevel: { name: 'PriorityTier', from: '../priority' },
+};
+
+function main() {
+  const check = process.argv.includes('--check');
+  const schema = buildSchema(fs.readFileSync(SCHEMA_PATH, 'utf8'));
+  const output = render(schema);
+
+  if (check) {
+    const current = fs.existsSync(OUTPUT_PATH) ? fs.readFileSync(OUTPUT_PATH, 'utf8') : '';
+    if (current !== output) {
+      console.error(`❌ ${path.relative(process.cwd(), OUTPUT_PATH)} 与 schema.gql 不一致，请执行 npm run generate`);
+      process.exit(1);
+    }
+    console.log('✅ GraphQL 契约与 schema.gql 一致');
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(OUTPUT_PATH), { recursive: true });
+  fs.writeFileSync(OUTPUT_PATH, output);
+  console.log(`✅ GraphQL 契约已生成: ${path.relative(process.cwd(), OUTPUT_PATH)}`);
+}
+
+// ==================== 渲染 ====================
+
+function render(schema) {
+  const types = Object.values(schema.getTypeMap())
+    .filter(type => !type.name.startsWith('__') && !ROOT_TYPES.has(type.name));
+
+  for (const type of types.filter(isScalarType)) {
+    if (!SCALARS[type.name]) {
+      throw new Error(`未配置标量映射: ${type.name}`);
+    }
+  }
+
+  const enums = types.filter(isEnumType);
+  const objects = types.filter(isObjectType);
+  const inputs = sortInputs(types.filter(isInputObjectType));
+
+  const sharedImports = enums
+    .filter(type => SHARED_ENUMS[type.name])
+    .map(type => ({ ...SHARED_ENUMS[type.name], alias: type.name }));
+
+  const lines = [
+    '/**',
+    ' * GraphQL 契约',
+    ' *',
+    ' * 由 scripts/generate-contract.js 根据 backend/src/schema.gql 自动生成，请勿手动修改',
+    ' */',
+    '',
+    "import { z } from 'zod';",
+    ...sharedImports.map(({ name, from, alias }) => `import { ${name} as ${alias} } from '${from}';`),
+    '',
+    'export type Maybe<T> = T | null;',
+    '',
+    '// ==================== 枚举 ====================',
+    '',
+  ];
+
+  for (const type of enums) {
+    lines.push(...renderEnum(type), '');
+  }
+
+  lines.push('// ==================== 对象类型 ====================', '');
+  for (const type of objects) {
+    lines.push(...renderObject(type), '');
+  }
+
+  lines.push('// ==================== 输入类型 ====================', '');
+  for (const type of inputs) {
+    lines.push(...renderInput(type), '');
+  }
+
+  return lines.join('\n').replace(/\n+$/, '\n');
+}
+
+function renderEnum(type) {
+  const values = type.getValues().map(value => value.name);
+  const shared = SHARED_ENUMS[type.name];
+
+  if (shared) {
+    const union = values.map(value => `'${value}'`).join(' | ');
+    return [
+      ...renderDescription(type.description),
+      `export { ${type.name} };`,
+      '',
+      `// schema.gql 与 ${shared.name} 取值不一致时编译失败`,
+      `const ${lowerFirst(type.name)}Values = {`,
+      ...values.map(value => `  ${value}: ${type.name}.${value},`),
+      `} satisfies Record<${union}, ${type.name}> & Record<\`\${${type.name}}\`, ${type.name}>;`,
+      `void ${lowerFirst(type.name)}Values;`,
+    ];
+  }
+
+  return [
+    ...renderDescription(type.description),
+    `export enum ${type.name} {`,
+    ...type.getValues().flatMap(value => [
+      ...renderDescription(value.description, '  '),
+      `  ${value.name} = '${value.name}',`,
+    ]),
+    '}',
+  ];
+}
+
+function renderObject(type) {
+  return [
+    ...renderDescription(type.description),
+    `export interface ${type.name} {`,
+    ...Object.values(type.getFields()).flatMap(field => {
+      const nullable = !isNonNullType(field.type);
+      return [
+        ...renderDescription(field.description, '  '),
+        `  ${field.name}${nullable ? '?' : ''}: ${tsType(field.type)};`,
+      ];
+    }),
+    '}',
+  ];
+}
+
+function renderInput(type) {
+  return [
+    ...renderDescription(type.description),
+    `export const ${type.name}Schema = z.object({`,
+    ...Object.values(type.getFields()).flatMap(field => [
+      ...renderDescription(field.description, '  '),
+      `  ${field.name}: ${zodType(field.type)},`,
+    ]),
+    '});',
+    '',
+    `export type ${type.name} = z.infer<typeof ${type.name}Schema>;`,
+  ];
+}
+
+function renderDescription(description, indent = '') {
+  if (!description) {
+    return [];
+  }
+  const text = description.replace(/\*\//g, '*\\/');
+  return text.includes('\n')
+    ? [`${indent}/**`, ...text.split('\n').map(line => `${indent} * ${line}`.trimEnd()), `${indent} */`]
+    : [`${indent}/** ${text} */`];
+}
+
+// ==================== 类型映射 ====================
+
+function tsType(type) {
+  if (isNonNullType(type)) {
+    return baseTsType(type.ofType);
+  }
+  return `Maybe<${baseTsType(type)}>`;
+}
+
+function baseTsType(type) {
+  if (isListType(type)) {
+    return `Array<${tsType(type.ofType)}>`;
+  }
+  if (isScalarType(type)) {
+    return SCALARS[type.name][0];
+  }
+  return type.name;
+}
+
+function zodType(type) {
+  if (isNonNullType(type)) {
+    return baseZodType(type.ofType);
+  }
+  return `${baseZodType(type)}.nullish()`;
+}
+
+function baseZodType(type) {
+  if (isListType(type)) {
+    return `z.array(${zodType(type.ofType)})`;
+  }
+  if (isScalarType(type)) {
+    return SCALARS[type.name][1];
+  }
+  if (isEnumType(type)) {
+    return `z.nativeEnum(${type.name})`;
+  }
+  return `${type.name}Schema`;
+}
+
+/**
+ * 输入类型按依赖排序，保证引用的 schema 先声明
+ */
+function sortInputs(inputs) {
+  const sorted = [];
+  const visiting = new Set();
+  const visited = new Set();
+
+  const visit = type => {
+    if (visited.has(type.name)) {
+      return;
+    }
+    if (visiting.has(type.name)) {
+      throw new Error(`输入类型存在循环引用: ${type.name}`);
+    }
+    visiting.add(type.name);
+    for (const field of Object.values(type.getFields())) {
+      const named = namedType(field.type);
+      if (isInputObjectType(named)) {
+        visit(named);
+      }
+    }
+    visiting.delete(type.name);
+    visited.add(type.name);
+    sorted.push(type);
+  };
+
+  inputs.forEach(visit);
+  return sorted;
+}
+
+function namedType(type) {
+  return isNonNullType(type) || isListType(type) ? namedType(type.ofType) : type;
+}
+
+function lowerFirst(value) {
+  return value.charAt(0).toLowerCase() + value.slice(1);
+}
+
+main();
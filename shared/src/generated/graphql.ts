@@ -0,0 +1,1539 @@
+/**
+ * GraphQL 契约
+ *
+ * 由 scripts/generate-contract.js 根据 backend/src/schema.gql 自动生成，请勿手动修改
+ */
+
+import { z } from 'zod';
+import { PriorityTier as KeywordPriorityLevel } from '../priority';
+
+export type Maybe<T> = T | null;
+
+// ==================== 枚举 ====================
+
+/** 关键词竞争等级 */
+export enum KeywordCompetitionLevel {
+  LOW = 'LOW',
+  MEDIUM = 'MEDIUM',
+  HIGH = 'HIGH',
+}
+
+/** 关键词优先级等级 (P0-P4) */
+export { KeywordPriorityLevel };
+
+// schema.gql 与 PriorityTier 取值不一致时编译失败
+const keywordPriorityLevelValues = {
+  P0: KeywordPriorityLevel.P0,
+  P1: KeywordPriorityLevel.P1,
+  P2: KeywordPriorityLevel.P2,
+  P3: KeywordPriorityLevel.P3,
+  P4: KeywordPriorityLevel.P4,
+} satisfies Record<'P0' | 'P1' | 'P2' | 'P3' | 'P4', KeywordPriorityLevel> & Record<`${KeywordPriorityLevel}`, KeywordPriorityLevel>;
+void keywordPriorityLevelValues;
+
+/** 搜索意图类型 */
+export enum KeywordIntentType {
+  INFORMATIONAL = 'INFORMATIONAL',
+  NAVIGATIONAL = 'NAVIGATIONAL',
+  TRANSACTIONAL = 'TRANSACTIONAL',
+  COMMERCIAL = 'COMMERCIAL',
+}
+
+/** 产品线分类 */
+export enum ProductLine {
+  CAMERA = 'CAMERA',
+  DOORBELL = 'DOORBELL',
+  VACUUM = 'VACUUM',
+  LOCK = 'LOCK',
+}
+
+/** 营销漏斗阶段 */
+export enum MarketingFunnelStage {
+  TOFU = 'TOFU',
+  MOFU = 'MOFU',
+  BOFU = 'BOFU',
+}
+
+/** 关键词来源 */
+export enum KeywordSource {
+  MANUAL = 'MANUAL',
+  IMPORT = 'IMPORT',
+  COMPETITOR_GAP = 'COMPETITOR_GAP',
+}
+
+/** AIO (AI Overview) 状态 */
+export enum AIOStatus {
+  NOT_MONITORED = 'NOT_MONITORED',
+  MONITORED = 'MONITORED',
+  DISPLAYED = 'DISPLAYED',
+  NOT_DISPLAYED = 'NOT_DISPLAYED',
+  COMPETING = 'COMPETING',
+}
+
+/** 关键词生命周期状态 */
+export enum KeywordStatus {
+  PROPOSED = 'PROPOSED',
+  RESEARCHING = 'RESEARCHING',
+  APPROVED = 'APPROVED',
+  IN_CONTENT = 'IN_CONTENT',
+  PUBLISHED = 'PUBLISHED',
+  MONITORING = 'MONITORING',
+  RETIRED = 'RETIRED',
+}
+
+/** 导入行处理结果 */
+export enum KeywordImportAction {
+  CREATED = 'CREATED',
+  UPDATED = 'UPDATED',
+  SKIPPED = 'SKIPPED',
+  FAILED = 'FAILED',
+}
+
+/** 内容蚕食处理建议 */
+export enum CannibalizationAction {
+  MERGE = 'MERGE',
+  CANONICAL = 'CANONICAL',
+  RETARGET = 'RETARGET',
+}
+
+/** 内容蚕食严重程度 */
+export enum CannibalizationSeverity {
+  HIGH = 'HIGH',
+  MEDIUM = 'MEDIUM',
+  LOW = 'LOW',
+}
+
+/** 差距关键词的发现来源 */
+export enum KeywordGapSource {
+  TRACKED = 'TRACKED',
+  AIO_CITATION = 'AIO_CITATION',
+  COMPETITOR_PAGES = 'COMPETITOR_PAGES',
+}
+
+/** 重复关键词处理策略 */
+export enum KeywordImportDuplicateStrategy {
+  SKIP = 'SKIP',
+  UPDATE = 'UPDATE',
+}
+
+// ==================== 对象类型 ====================
+
+export interface User {
+  id: string;
+  email: string;
+  username: string;
+  role: string;
+  createdAt: string;
+}
+
+export interface AuthResponse {
+  access_token: string;
+  /** 用于 refreshToken 换取新令牌，每次使用后轮换 */
+  refresh_token: string;
+  /** access_token 有效秒数 */
+  expires_in: number;
+  user: User;
+  /** SSO 登录前所在的站内页面 */
+  returnTo?: Maybe<string>;
+}
+
+export interface PermissionType {
+  name: string;
+  description: string;
+}
+
+export interface RoleType {
+  id: string;
+  name: string;
+  displayName: string;
+  description?: Maybe<string>;
+  permissions: Array<string>;
+  userCount: number;
+  createdAt: string;
+}
+
+export interface UserAccessType {
+  userId: string;
+  roleId: string;
+  roleName: string;
+  permissions: Array<string>;
+}
+
+export interface ApiTokenInfoType {
+  id: string;
+  name: string;
+  /** personal 或 service */
+  type: string;
+  /** 令牌开头几位，用于辨认 */
+  tokenPrefix: string;
+  permissions: Array<string>;
+  userId: string;
+  userEmail: string;
+  expiresAt: string;
+  revokedAt?: Maybe<string>;
+  lastUsedAt?: Maybe<string>;
+  lastUsedIp?: Maybe<string>;
+  createdAt: string;
+}
+
+export interface CreatedApiTokenType {
+  /** 明文令牌，只返回这一次 */
+  token: string;
+  apiToken: ApiTokenInfoType;
+}
+
+export interface UserInfo {
+  id: string;
+  username: string;
+  fullName?: Maybe<string>;
+}
+
+export interface KeywordMetric {
+  id: string;
+  keywordId: string;
+  metricDate: string;
+  /** Google 搜索排名位置 */
+  googlePosition?: Maybe<number>;
+  /** 是否出现在 Google 精选摘要中 */
+  googleFeaturedSnippet: boolean;
+  /** 是否出现在 People Also Ask 中 */
+  googlePeopleAlsoAsk: boolean;
+  /** AIO 是否显示 */
+  aioDisplayed: boolean;
+  /** AIO 显示位置 */
+  aioPosition?: Maybe<number>;
+  /** AIO 内容摘要 */
+  aioContentSnippet?: Maybe<string>;
+  /** 自然流量 */
+  organicTraffic?: Maybe<number>;
+  /** 自然点击率 */
+  organicCtr?: Maybe<number | string>;
+  createdAt: string;
+}
+
+export interface ContentItemInfo {
+  id: string;
+  title: string;
+  status: string;
+}
+
+export interface TaskInfo {
+  id: string;
+  title: string;
+  status: string;
+}
+
+export interface Keyword {
+  id: string;
+  /** 关键词文本 */
+  text: string;
+  /** 搜索量 */
+  searchVolume?: Maybe<number>;
+  /** 关键词难度 (0-100) */
+  difficulty?: Maybe<number | string>;
+  /** 每次点击成本 (CPC) */
+  cpc?: Maybe<number | string>;
+  /** 竞争等级 */
+  competitionLevel?: Maybe<KeywordCompetitionLevel>;
+  /** 优先级等级 */
+  priorityLevel?: Maybe<KeywordPriorityLevel>;
+  /** 搜索意图类型 */
+  intentType?: Maybe<KeywordIntentType>;
+  /** 产品线 */
+  productLine?: Maybe<ProductLine>;
+  /** 营销漏斗阶段 */
+  stage?: Maybe<MarketingFunnelStage>;
+  /** 所属主题聚类 ID */
+  clusterId?: Maybe<string>;
+  /** 关键词来源 */
+  source: KeywordSource;
+  /** 来源竞品域名（竞品差距分析加入时） */
+  sourceDomains: Array<string>;
+  /** AIO 状态 */
+  aioStatus: AIOStatus;
+  /** AIO 首次发现时间 */
+  aioFirstSeenAt?: Maybe<string>;
+  /** AIO 覆盖率得分 */
+  aioCoverageScore?: Maybe<number | string>;
+  /** 关键词状态 */
+  status: KeywordStatus;
+  /** 分配给用户 ID */
+  assignedTo?: Maybe<string>;
+  /** 创建者用户 ID */
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  assignee?: Maybe<UserInfo>;
+  creator: UserInfo;
+  metrics?: Maybe<Array<KeywordMetric>>;
+  contentItems?: Maybe<Array<ContentItemInfo>>;
+  tasks?: Maybe<Array<TaskInfo>>;
+  /** 最新 Google 排名位置 */
+  latestPosition?: Maybe<number>;
+  /** 综合性能分数 (0-100) */
+  performanceScore?: Maybe<number>;
+  /** 竞争强度等级 */
+  competitionIntensity?: Maybe<string>;
+}
+
+export interface PaginationInfo {
+  /** 总记录数 */
+  total: number;
+  /** 当前页码 */
+  page: number;
+  /** 每页记录数 */
+  limit: number;
+  /** 总页数 */
+  totalPages: number;
+  /** 是否有下一页 */
+  hasNextPage: boolean;
+  /** 是否有上一页 */
+  hasPreviousPage: boolean;
+}
+
+export interface PaginatedKeywords {
+  /** 关键词列表 */
+  data: Array<Keyword>;
+  /** 分页信息 */
+  pagination: PaginationInfo;
+}
+
+export interface AIOStatsByPriority {
+  /** 监测数量 */
+  monitored: number;
+  /** 显示数量 */
+  displayed: number;
+  /** 显示率 */
+  rate: number;
+}
+
+export interface AIOStats {
+  /** 总监测数量 */
+  totalMonitored: number;
+  /** 总显示数量 */
+  totalDisplayed: number;
+  /** 整体显示率 */
+  displayRate: number;
+  /** 平均显示位置 */
+  averagePosition?: Maybe<number>;
+  /** P0 级别统计 */
+  p0Stats: AIOStatsByPriority;
+  /** P1 级别统计 */
+  p1Stats: AIOStatsByPriority;
+  /** P2 级别统计 */
+  p2Stats: AIOStatsByPriority;
+  /** P3 级别统计 */
+  p3Stats: AIOStatsByPriority;
+  /** P4 级别统计 */
+  p4Stats: AIOStatsByPriority;
+}
+
+export interface BulkOperationResult {
+  /** 操作是否成功 */
+  success: boolean;
+  /** 更新成功的记录数 */
+  updatedCount: number;
+  /** 错误信息列表 */
+  errors: Array<string>;
+}
+
+export interface KeywordImportRowData {
+  text?: Maybe<string>;
+  searchVolume?: Maybe<number>;
+  difficulty?: Maybe<number>;
+  cpc?: Maybe<number>;
+  productLine?: Maybe<ProductLine>;
+  intentType?: Maybe<KeywordIntentType>;
+  stage?: Maybe<MarketingFunnelStage>;
+}
+
+export interface KeywordImportRowResult {
+  /** 文件中的行号（表头为第 1 行） */
+  rowNumber: number;
+  /** 关键词文本 */
+  text?: Maybe<string>;
+  /** 处理结果 */
+  action: KeywordImportAction;
+  /** 创建或匹配到的关键词 ID */
+  keywordId?: Maybe<string>;
+  /** 该行的错误信息 */
+  errors: Array<string>;
+  /** 解析后的行数据 */
+  data: KeywordImportRowData;
+}
+
+export interface KeywordImportReport {
+  /** 是否为预览 */
+  dryRun: boolean;
+  /** 数据行总数 */
+  totalRows: number;
+  /** 新建数量 */
+  createdCount: number;
+  /** 更新数量 */
+  updatedCount: number;
+  /** 跳过数量 */
+  skippedCount: number;
+  /** 失败数量 */
+  failedCount: number;
+  /** 逐行结果 */
+  rows: Array<KeywordImportRowResult>;
+}
+
+export interface KeywordScoringWeights {
+  /** 搜索量 */
+  searchVolume: number;
+  /** 关键词难度（越低越好） */
+  difficulty: number;
+  /** 点击成本 */
+  cpc: number;
+  /** AIO 适配性 */
+  aioScore: number;
+  /** 搜索意图与漏斗阶段 */
+  intent: number;
+  /** 当前排名的提升空间 */
+  ranking: number;
+}
+
+export interface KeywordTierThresholds {
+  P0: number;
+  P1: number;
+  P2: number;
+  P3: number;
+}
+
+export interface KeywordScoringConfig {
+  /** 产品线，default 为默认配置 */
+  productLine: string;
+  weights: KeywordScoringWeights;
+  /** 各级别最低得分，低于 P3 为 P4 */
+  thresholds: KeywordTierThresholds;
+  /** 是否为未保存的内置默认值 */
+  isBuiltIn: boolean;
+  updatedAt?: Maybe<string>;
+}
+
+export interface KeywordPriorityScore {
+  keywordId: string;
+  text: string;
+  productLine?: Maybe<string>;
+  /** 加权得分 (0-100) */
+  score: number;
+  /** 各因子得分 (0-100) */
+  factors: KeywordScoringWeights;
+  /** 当前优先级 */
+  currentLevel?: Maybe<string>;
+  /** 建议优先级 */
+  suggestedLevel: KeywordPriorityLevel;
+}
+
+export interface KeywordTierCount {
+  /** 优先级，未评级为 unassigned */
+  level: string;
+  count: number;
+}
+
+export interface KeywordTierTransition {
+  from?: Maybe<string>;
+  to: KeywordPriorityLevel;
+  count: number;
+}
+
+export interface KeywordRegradeReport {
+  /** 是否为预览 */
+  dryRun: boolean;
+  totalKeywords: number;
+  /** 级别变化的关键词数 */
+  changedCount: number;
+  upgradedCount: number;
+  downgradedCount: number;
+  distributionBefore: Array<KeywordTierCount>;
+  distributionAfter: Array<KeywordTierCount>;
+  transitions: Array<KeywordTierTransition>;
+  /** 级别变化明细（按得分降序，最多 200 条） */
+  changes: Array<KeywordPriorityScore>;
+}
+
+export interface KeywordCluster {
+  id: string;
+  /** 聚类名称，默认为支柱关键词文本 */
+  name: string;
+  /** 产品线 */
+  productLine?: Maybe<ProductLine>;
+  /** 支柱关键词 ID */
+  pillarKeywordId?: Maybe<string>;
+  /** 成员关键词数 */
+  keywordCount: number;
+  /** 成员总搜索量 */
+  totalSearchVolume: number;
+  /** 成员与支柱关键词的平均相似度 (0-1) */
+  cohesion?: Maybe<number | string>;
+  createdAt: string;
+  updatedAt: string;
+  /** 支柱关键词 */
+  pillarKeyword?: Maybe<Keyword>;
+  /** 成员关键词（按搜索量降序，含支柱关键词） */
+  keywords?: Maybe<Array<Keyword>>;
+}
+
+export interface KeywordClusterTree {
+  /** 聚类（含成员关键词） */
+  clusters: Array<KeywordCluster>;
+  /** 未归类的活跃关键词数 */
+  unclusteredCount: number;
+}
+
+export interface KeywordClusteringReport {
+  productLine?: Maybe<ProductLine>;
+  /** 参与聚类的活跃关键词数 */
+  totalKeywords: number;
+  clusterCount: number;
+  clusteredCount: number;
+  unclusteredCount: number;
+  /** 有 SERP URL 数据的关键词占比 (0-1) */
+  serpCoverage: number;
+  durationMs: number;
+}
+
+export interface CannibalizingPage {
+  /** 内容 ID，仅出现在排名数据中的 URL 为空 */
+  contentId?: Maybe<string>;
+  title?: Maybe<string>;
+  contentType?: Maybe<string>;
+  url?: Maybe<string>;
+  /** Google 排名 */
+  position?: Maybe<number>;
+  /** 流量事件数或按排名估算的点击 */
+  traffic?: Maybe<number>;
+  /** 流量占比 (0-1) */
+  trafficShare: number;
+  /** 是否为主页面（流量最高） */
+  isPrimary: boolean;
+}
+
+export interface CannibalizationSuggestion {
+  action: CannibalizationAction;
+  sourceContentId?: Maybe<string>;
+  sourceUrl?: Maybe<string>;
+  /** 主页面内容 ID */
+  targetContentId?: Maybe<string>;
+  /** 主页面 URL */
+  targetUrl?: Maybe<string>;
+  /** 建议改为定位的关键词 ID */
+  suggestedKeywordId?: Maybe<string>;
+  suggestedKeywordText?: Maybe<string>;
+  reason: string;
+}
+
+export interface KeywordCannibalization {
+  keywordId: string;
+  keywordText: string;
+  productLine?: Maybe<string>;
+  /** 是否有多个页面竞争该关键词 */
+  isCannibalized: boolean;
+  severity?: Maybe<CannibalizationSeverity>;
+  /** 非主页面的流量占比 (0-1) */
+  trafficSplit: number;
+  /** 流量数据来源: analytics 为站内埋点, estimated 为按排名估算 */
+  trafficSource: string;
+  /** 按流量降序 */
+  pages: Array<CannibalizingPage>;
+  /** 各非主页面的处理建议 */
+  suggestions: Array<CannibalizationSuggestion>;
+}
+
+export interface KeywordGapCompetitor {
+  domain: string;
+  /** 自然排名，前 10 以外为空 */
+  position?: Maybe<number>;
+  url?: Maybe<string>;
+  /** AIO 引用位置，未被引用为空 */
+  aioPosition?: Maybe<number>;
+}
+
+export interface KeywordGap {
+  text: string;
+  /** 已在关键词库中时为对应关键词 ID */
+  keywordId?: Maybe<string>;
+  productLine?: Maybe<ProductLine>;
+  source: KeywordGapSource;
+  searchVolume?: Maybe<number>;
+  /** 排名或被 AIO 引用的竞品 */
+  competitors: Array<KeywordGapCompetitor>;
+  /** Eufy 自然排名 */
+  ownPosition?: Maybe<number>;
+  /** 竞品进入前 10 而 Eufy 未进入 */
+  rankingGap: boolean;
+  /** 竞品被 AIO 引用而 Eufy 未被引用 */
+  aioGap: boolean;
+  /** 预估月点击增量（搜索量 × 点击率曲线），无搜索量时为空 */
+  estimatedOpportunity?: Maybe<number>;
+}
+
+export interface KeywordGapAnalysis {
+  competitorDomains: Array<string>;
+  /** 按预估机会降序 */
+  gaps: Array<KeywordGap>;
+  /** 预估月点击增量合计 */
+  totalOpportunity: number;
+  analyzedAt: string;
+}
+
+export interface AddKeywordGapsResult {
+  /** 新建的关键词 */
+  created: Array<Keyword>;
+  /** 已存在而跳过的关键词 */
+  skippedTexts: Array<string>;
+}
+
+export interface KeywordStatusTransitionRule {
+  from: KeywordStatus;
+  to: KeywordStatus;
+  /** 执行该流转所需的权限 */
+  permission: string;
+  /** 是否需填写原因 */
+  reasonRequired: boolean;
+}
+
+export interface KeywordStatusHistory {
+  id: string;
+  keywordId: string;
+  /** 创建关键词时为空 */
+  fromStatus?: Maybe<KeywordStatus>;
+  toStatus: KeywordStatus;
+  reason?: Maybe<string>;
+  changedBy: string;
+  changedAt: string;
+  /** 操作人 */
+  user: UserInfo;
+}
+
+export interface KeywordStatusDuration {
+  status: KeywordStatus;
+  /** 区间内离开该状态的次数 */
+  count: number;
+  /** 平均停留天数 */
+  averageDays: number;
+  /** 停留天数中位数 */
+  medianDays: number;
+  /** 停留天数 90 分位 */
+  p90Days: number;
+}
+
+export interface KeywordMilestoneCycleTime {
+  fromStatus: KeywordStatus;
+  toStatus: KeywordStatus;
+  /** 区间内首次到达 toStatus 的关键词数 */
+  count: number;
+  averageDays: number;
+  medianDays: number;
+  p90Days: number;
+}
+
+export interface KeywordCycleTimeReport {
+  from: string;
+  to: string;
+  productLine?: Maybe<ProductLine>;
+  /** 各状态停留时长，按生命周期顺序 */
+  statusDurations: Array<KeywordStatusDuration>;
+  /** 提议→批准、批准→发布、提议→发布 */
+  milestones: Array<KeywordMilestoneCycleTime>;
+}
+
+export interface KeywordSavedViewSort {
+  /** 排序字段 */
+  field: string;
+  /** 排序方向 asc 或 desc */
+  direction: string;
+}
+
+export interface KeywordSavedView {
+  id: string;
+  name: string;
+  /** 筛选条件 JSON，由前端关键词表格定义 */
+  filter: string;
+  sort?: Maybe<KeywordSavedViewSort>;
+  /** 显示列，为空时显示全部列 */
+  visibleColumns: Array<string>;
+  ownerId: string;
+  /** 是否团队共享 */
+  isShared: boolean;
+  /** 作为这些角色的默认视图 */
+  defaultForRoles: Array<string>;
+  createdAt: string;
+  updatedAt: string;
+  /** 所有者 */
+  owner: UserInfo;
+}
+
+export interface KeywordTextHighlight {
+  /** 在关键词文本中的起始位置 */
+  start: number;
+  length: number;
+}
+
+export interface KeywordSearchHit {
+  keyword: Keyword;
+  /** 综合得分 (0-1) */
+  score: number;
+  /** 全文检索排名 (0-1)，仅模糊匹配命中时为 0 */
+  textRank: number;
+  /** 三元组相似度 (0-1) */
+  similarity: number;
+  /** 全文检索命中的词，模糊匹配命中时为空 */
+  highlights: Array<KeywordTextHighlight>;
+}
+
+export interface KeywordSearchResult {
+  /** 按综合得分降序 */
+  hits: Array<KeywordSearchHit>;
+  total: number;
+}
+
+export interface SimilarKeyword {
+  keyword: Keyword;
+  /** 三元组相似度 (0-1) */
+  similarity: number;
+  /** 词干相同，仅词序或词形不同 */
+  sameTerms: boolean;
+}
+
+export interface AuditFieldChangeType {
+  field: string;
+  before?: Maybe<string>;
+  after?: Maybe<string>;
+}
+
+export interface AuditLogEntryType {
+  id: string;
+  occurredAt: string;
+  operationType: string;
+  operationName: string;
+  resourceType: string;
+  resourceId?: Maybe<string>;
+  userId?: Maybe<string>;
+  userEmail?: Maybe<string>;
+  correlationId: string;
+  success: boolean;
+  error?: Maybe<string>;
+  inputData?: Maybe<string>;
+  changes: Array<AuditFieldChangeType>;
+  durationMs: number;
+  clientIp?: Maybe<string>;
+  userAgent?: Maybe<string>;
+  /** 通过 API 令牌发起的操作对应的令牌 ID */
+  apiTokenId?: Maybe<string>;
+}
+
+export interface AuditLogPageType {
+  entries: Array<AuditLogEntryType>;
+  total: number;
+}
+
+export interface AlertRuleType {
+  id: string;
+  name: string;
+  description?: Maybe<string>;
+  ruleType: string;
+  conditions: string;
+  keywordIds: Array<string>;
+  keywordPriorityLevels: Array<string>;
+  keywordProductLines: Array<string>;
+  severity: string;
+  channels: Array<string>;
+  webhookUrl?: Maybe<string>;
+  cooldownMinutes: number;
+  isActive: boolean;
+  lastEvaluatedAt?: Maybe<string>;
+  updatedAt: string;
+}
+
+export interface AlertType {
+  id: string;
+  ruleId: string;
+  ruleName?: Maybe<string>;
+  keywordId?: Maybe<string>;
+  severity: string;
+  title: string;
+  message: string;
+  context?: Maybe<string>;
+  status: string;
+  occurrences: number;
+  firstTriggeredAt: string;
+  lastTriggeredAt: string;
+  lastNotifiedAt?: Maybe<string>;
+  deliveryError?: Maybe<string>;
+  snoozedUntil?: Maybe<string>;
+  read: boolean;
+  acknowledgedAt?: Maybe<string>;
+  resolvedAt?: Maybe<string>;
+}
+
+export interface AlertEvaluationResultType {
+  evaluatedRules: number;
+  triggered: number;
+  notified: number;
+  resolved: number;
+}
+
+export interface JobRunType {
+  id: string;
+  jobName: string;
+  jobId: string;
+  status: string;
+  attempts: number;
+  maxAttempts: number;
+  payload?: Maybe<string>;
+  result?: Maybe<string>;
+  error?: Maybe<string>;
+  scheduled: boolean;
+  queuedAt: string;
+  startedAt?: Maybe<string>;
+  finishedAt?: Maybe<string>;
+  durationMs?: Maybe<number>;
+  retriedAt?: Maybe<string>;
+  retriedRunId?: Maybe<string>;
+}
+
+export interface JobDefinitionType {
+  name: string;
+  description?: Maybe<string>;
+  cron?: Maybe<string>;
+  concurrency: number;
+  attempts: number;
+  nextRunAt?: Maybe<string>;
+}
+
+export interface JobQueueStatsType {
+  enabled: boolean;
+  waiting: number;
+  active: number;
+  delayed: number;
+  failed: number;
+  deadLetter: number;
+  jobs: Array<JobDefinitionType>;
+}
+
+export interface MetaTagsType {
+  title: string;
+  description: string;
+  keywords: Array<string>;
+}
+
+export interface GEOOptimizedContentType {
+  originalContent: string;
+  optimizedContent: string;
+  structuredData: string;
+  aiReadinessScore: number;
+  recommendedImprovements: Array<string>;
+  metaTags: MetaTagsType;
+}
+
+export interface AIEngineCompatibilityType {
+  googleSGE: number;
+  bingChat: number;
+  perplexity: number;
+  chatGPT: number;
+  overall: number;
+}
+
+export interface CompetitorCitationType {
+  competitor: string;
+  mentions: number;
+  citationRate: number;
+  topQueries: Array<string>;
+  sentiment: string;
+}
+
+export interface CitationTrendType {
+  date: string;
+  totalCitations: number;
+  platformBreakdown: string;
+  topCitedContent: string;
+}
+
+export interface CitationInsightsType {
+  totalCitations: number;
+  citationRate: number;
+  platformDistribution: string;
+  topPerformingContent: string;
+  competitorComparison: Array<CompetitorCitationType>;
+  trends: Array<CitationTrendType>;
+  recommendations: Array<string>;
+}
+
+export interface CitationShareOfVoiceType {
+  period: string;
+  group: string;
+  brand: string;
+  citations: number;
+  share: number;
+}
+
+export interface MonitoringQueryGroupType {
+  id: string;
+  name: string;
+  description?: Maybe<string>;
+  source: string;
+  queries: Array<string>;
+  productLine?: Maybe<string>;
+  keywordPriorityLevels: Array<string>;
+  keywordProductLines: Array<string>;
+  keywordAioStatuses: Array<string>;
+  schedule: string;
+  platforms: Array<string>;
+  locale: string;
+  isActive: boolean;
+  lastRunAt?: Maybe<string>;
+  updatedAt: string;
+}
+
+export interface FAQEntryType {
+  id: string;
+  question: string;
+  answer: string;
+  category: string;
+  priority: string;
+  targetKeywords: Array<string>;
+  aiOptimizationScore: number;
+  lastOptimized: string;
+}
+
+export interface RecommendedStructureType {
+  primaryQuestion: string;
+  subQuestions: Array<string>;
+  unifiedAnswer: string;
+}
+
+export interface FAQClusterType {
+  clusterId: string;
+  theme: string;
+  entries: Array<FAQEntryType>;
+  combinedScore: number;
+  recommendedStructure: RecommendedStructureType;
+}
+
+export interface FAQOptimizationResultType {
+  originalFAQs: Array<FAQEntryType>;
+  optimizedClusters: Array<FAQClusterType>;
+  structuredData: string;
+  overallImprovementScore: number;
+  recommendations: Array<string>;
+}
+
+export interface WorkflowTaskType {
+  id: string;
+  templateTaskId?: Maybe<string>;
+  title: string;
+  description: string;
+  type: string;
+  priority: string;
+  /** PENDING、IN_PROGRESS、REVIEW、COMPLETED 或 BLOCKED */
+  status: string;
+  /** dependency:<任务 ID> 表示因前置任务阻塞 */
+  blockedReason?: Maybe<string>;
+  assignee?: Maybe<string>;
+  estimatedHours: number;
+  actualHours?: Maybe<number>;
+  dueDate: string;
+  dependencies: Array<string>;
+  week: number;
+  day: number;
+  phase: string;
+  deliverables: Array<string>;
+  tools: Array<string>;
+  successCriteria: Array<string>;
+  resources: Array<string>;
+}
+
+export interface WorkflowPhaseType {
+  id: string;
+  name: string;
+  description: string;
+  startDay: number;
+  endDay: number;
+  objectives: Array<string>;
+  tasks: Array<WorkflowTaskType>;
+}
+
+export interface WorkflowTemplateType {
+  id: string;
+  name: string;
+  description: string;
+  totalDays: number;
+  phases: Array<WorkflowPhaseType>;
+  version: number;
+  archived: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkflowTemplateVersionType {
+  version: number;
+  createdBy?: Maybe<string>;
+  createdAt: string;
+}
+
+export interface WorkflowInstanceType {
+  id: string;
+  templateId: string;
+  /** 创建实例时固定的模板版本 */
+  templateVersion: number;
+  name: string;
+  description: string;
+  startDate: string;
+  endDate: string;
+  /** PLANNING、ACTIVE、PAUSED、COMPLETED 或 CANCELLED */
+  status: string;
+  progress: number;
+  currentPhase: string;
+  currentWeek: number;
+  currentDay: number;
+  tasks: Array<WorkflowTaskType>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkflowCriticalPathType {
+  /** 关键路径上的任务 ID，前置任务在前 */
+  taskIds: Array<string>;
+  plannedEndDate: string;
+  projectedEndDate: string;
+  slippedDays: number;
+}
+
+export interface WorkflowStatsType {
+  totalTasks: number;
+  completedTasks: number;
+  inProgressTasks: number;
+  pendingTasks: number;
+  blockedTasks: number;
+  progress: number;
+  estimatedHours: number;
+  actualHours: number;
+  efficiency: number;
+  criticalPath: WorkflowCriticalPathType;
+}
+
+// ==================== 输入类型 ====================
+
+export const KeywordFiltersInputSchema = z.object({
+  /** 关键词文本搜索 */
+  text: z.string().nullish(),
+  /** 优先级等级过滤 */
+  priorityLevels: z.array(z.nativeEnum(KeywordPriorityLevel)).nullish(),
+  /** 状态过滤 */
+  statuses: z.array(z.nativeEnum(KeywordStatus)).nullish(),
+  /** 竞争等级过滤 */
+  competitionLevels: z.array(z.nativeEnum(KeywordCompetitionLevel)).nullish(),
+  /** 搜索意图类型过滤 */
+  intentTypes: z.array(z.nativeEnum(KeywordIntentType)).nullish(),
+  /** 产品线过滤 */
+  productLines: z.array(z.nativeEnum(ProductLine)).nullish(),
+  /** AIO 状态过滤 */
+  aioStatuses: z.array(z.nativeEnum(AIOStatus)).nullish(),
+  /** 分配用户过滤 */
+  assignedToUsers: z.array(z.string()).nullish(),
+  /** 最小搜索量 */
+  searchVolumeMin: z.number().int().nullish(),
+  /** 最大搜索量 */
+  searchVolumeMax: z.number().int().nullish(),
+  /** 最小难度 */
+  difficultyMin: z.number().nullish(),
+  /** 最大难度 */
+  difficultyMax: z.number().nullish(),
+  /** 创建时间起始 */
+  createdAfter: z.string().datetime({ offset: true }).nullish(),
+  /** 创建时间结束 */
+  createdBefore: z.string().datetime({ offset: true }).nullish(),
+});
+
+export type KeywordFiltersInput = z.infer<typeof KeywordFiltersInputSchema>;
+
+export const KeywordSortInputSchema = z.object({
+  /** 排序字段 */
+  field: z.string(),
+  /** 排序方向 */
+  direction: z.string(),
+});
+
+export type KeywordSortInput = z.infer<typeof KeywordSortInputSchema>;
+
+export const PaginationInputSchema = z.object({
+  /** 页码 (从 1 开始) */
+  page: z.number().int().nullish(),
+  /** 每页记录数 */
+  limit: z.number().int().nullish(),
+});
+
+export type PaginationInput = z.infer<typeof PaginationInputSchema>;
+
+export const KeywordQueryInputSchema = z.object({
+  /** 过滤条件 */
+  filters: KeywordFiltersInputSchema.nullish(),
+  /** 排序选项 */
+  sort: z.array(KeywordSortInputSchema).nullish(),
+  /** 分页选项 */
+  pagination: PaginationInputSchema.nullish(),
+});
+
+export type KeywordQueryInput = z.infer<typeof KeywordQueryInputSchema>;
+
+export const KeywordScoringWeightsInputSchema = z.object({
+  searchVolume: z.number().nullish(),
+  difficulty: z.number().nullish(),
+  cpc: z.number().nullish(),
+  aioScore: z.number().nullish(),
+  intent: z.number().nullish(),
+  ranking: z.number().nullish(),
+});
+
+export type KeywordScoringWeightsInput = z.infer<typeof KeywordScoringWeightsInputSchema>;
+
+export const KeywordTierThresholdsInputSchema = z.object({
+  P0: z.number().nullish(),
+  P1: z.number().nullish(),
+  P2: z.number().nullish(),
+  P3: z.number().nullish(),
+});
+
+export type KeywordTierThresholdsInput = z.infer<typeof KeywordTierThresholdsInputSchema>;
+
+export const KeywordRegradeInputSchema = z.object({
+  /** 仅评级该产品线的关键词 */
+  productLine: z.nativeEnum(ProductLine).nullish(),
+  /** 仅评级这些关键词，未指定时评级全部活跃关键词 */
+  keywordIds: z.array(z.string()).nullish(),
+  /** 临时覆盖权重，仅预览可用 */
+  weights: KeywordScoringWeightsInputSchema.nullish(),
+  /** 临时覆盖阈值，仅预览可用 */
+  thresholds: KeywordTierThresholdsInputSchema.nullish(),
+});
+
+export type KeywordRegradeInput = z.infer<typeof KeywordRegradeInputSchema>;
+
+export const KeywordCannibalizationQueryInputSchema = z.object({
+  productLine: z.nativeEnum(ProductLine).nullish(),
+  /** 最低严重程度，默认 LOW */
+  minSeverity: z.nativeEnum(CannibalizationSeverity).nullish(),
+  /** 返回数量，默认 50 */
+  limit: z.number().int().nullish(),
+});
+
+export type KeywordCannibalizationQueryInput = z.infer<typeof KeywordCannibalizationQueryInputSchema>;
+
+export const KeywordGapAnalysisInputSchema = z.object({
+  /** 竞品域名，默认 ring.com、arlo.com、wyze.com */
+  competitorDomains: z.array(z.string()).nullish(),
+  productLine: z.nativeEnum(ProductLine).nullish(),
+  /** 是否从竞品站点页面发现新关键词（实时查询 SERP，耗时较长） */
+  discover: z.boolean().nullish(),
+  /** 返回数量，默认 100 */
+  limit: z.number().int().nullish(),
+});
+
+export type KeywordGapAnalysisInput = z.infer<typeof KeywordGapAnalysisInputSchema>;
+
+export const KeywordCycleTimeInputSchema = z.object({
+  /** 统计起始时间，默认结束时间前 90 天 */
+  from: z.string().datetime({ offset: true }).nullish(),
+  /** 统计结束时间，默认当前时间 */
+  to: z.string().datetime({ offset: true }).nullish(),
+  productLine: z.nativeEnum(ProductLine).nullish(),
+});
+
+export type KeywordCycleTimeInput = z.infer<typeof KeywordCycleTimeInputSchema>;
+
+export const KeywordSearchInputSchema = z.object({
+  /** 检索文本，支持词形、词序差异和拼写错误 */
+  query: z.string(),
+  productLine: z.nativeEnum(ProductLine).nullish(),
+  priorityLevels: z.array(z.nativeEnum(KeywordPriorityLevel)).nullish(),
+  /** 未指定时排除已退役关键词 */
+  statuses: z.array(z.nativeEnum(KeywordStatus)).nullish(),
+  /** 是否包含已退役关键词 */
+  includeRetired: z.boolean().nullish(),
+  /** 返回数量，默认 20 */
+  limit: z.number().int().nullish(),
+  offset: z.number().int().nullish(),
+});
+
+export type KeywordSearchInput = z.infer<typeof KeywordSearchInputSchema>;
+
+export const SimilarKeywordsInputSchema = z.object({
+  /** 待创建或编辑的关键词文本 */
+  text: z.string(),
+  /** 最低相似度 (0.3-1)，默认 0.5 */
+  threshold: z.number().nullish(),
+  /** 返回数量，默认 10 */
+  limit: z.number().int().nullish(),
+  /** 编辑已有关键词时排除自身 */
+  excludeKeywordId: z.string().nullish(),
+  productLine: z.nativeEnum(ProductLine).nullish(),
+});
+
+export type SimilarKeywordsInput = z.infer<typeof SimilarKeywordsInputSchema>;
+
+export const AuditDateRangeInputTypeSchema = z.object({
+  /** ISO 时间，包含 */
+  from: z.string().nullish(),
+  /** ISO 时间，不包含 */
+  to: z.string().nullish(),
+});
+
+export type AuditDateRangeInputType = z.infer<typeof AuditDateRangeInputTypeSchema>;
+
+export const LoginInputSchema = z.object({
+  email: z.string(),
+  password: z.string(),
+});
+
+export type LoginInput = z.infer<typeof LoginInputSchema>;
+
+export const RegisterInputSchema = z.object({
+  email: z.string(),
+  username: z.string(),
+  password: z.string(),
+});
+
+export type RegisterInput = z.infer<typeof RegisterInputSchema>;
+
+export const ChangePasswordInputSchema = z.object({
+  currentPassword: z.string(),
+  newPassword: z.string(),
+});
+
+export type ChangePasswordInput = z.infer<typeof ChangePasswordInputSchema>;
+
+export const ResetPasswordInputSchema = z.object({
+  token: z.string(),
+  newPassword: z.string(),
+});
+
+export type ResetPasswordInput = z.infer<typeof ResetPasswordInputSchema>;
+
+export const RoleInputTypeSchema = z.object({
+  /** 小写字母开头，仅含小写字母、数字、下划线和连字符；内置角色不可改名 */
+  name: z.string().nullish(),
+  displayName: z.string().nullish(),
+  description: z.string().nullish(),
+  /** 权限列表，见 permissions 查询 */
+  permissions: z.array(z.string()).nullish(),
+});
+
+export type RoleInputType = z.infer<typeof RoleInputTypeSchema>;
+
+export const CreateApiTokenInputTypeSchema = z.object({
+  name: z.string(),
+  /** personal（默认）或 service；服务令牌需要 api_token:manage 权限 */
+  type: z.string().nullish(),
+  /** 令牌可用的权限，不能超出自己当前拥有的权限 */
+  permissions: z.array(z.string()),
+  /** 有效天数，默认 90 天 */
+  expiresInDays: z.number().int().nullish(),
+});
+
+export type CreateApiTokenInputType = z.infer<typeof CreateApiTokenInputTypeSchema>;
+
+export const CreateKeywordInputSchema = z.object({
+  /** 关键词文本 */
+  text: z.string(),
+  /** 搜索量 */
+  searchVolume: z.number().int().nullish(),
+  /** 关键词难度 (0-100) */
+  difficulty: z.number().nullish(),
+  /** 每次点击成本 (CPC) */
+  cpc: z.number().nullish(),
+  /** 竞争等级 */
+  competitionLevel: z.nativeEnum(KeywordCompetitionLevel).nullish(),
+  /** 优先级等级 */
+  priorityLevel: z.nativeEnum(KeywordPriorityLevel).nullish(),
+  /** 搜索意图类型 */
+  intentType: z.nativeEnum(KeywordIntentType).nullish(),
+  /** 产品线 */
+  productLine: z.nativeEnum(ProductLine).nullish(),
+  /** 营销漏斗阶段 */
+  stage: z.nativeEnum(MarketingFunnelStage).nullish(),
+  /** 分配给用户 ID */
+  assignedTo: z.string().nullish(),
+});
+
+export type CreateKeywordInput = z.infer<typeof CreateKeywordInputSchema>;
+
+export const UpdateKeywordInputSchema = z.object({
+  /** 关键词 ID */
+  id: z.string(),
+  /** 关键词文本 */
+  text: z.string().nullish(),
+  /** 搜索量 */
+  searchVolume: z.number().int().nullish(),
+  /** 关键词难度 (0-100) */
+  difficulty: z.number().nullish(),
+  /** 每次点击成本 (CPC) */
+  cpc: z.number().nullish(),
+  /** 竞争等级 */
+  competitionLevel: z.nativeEnum(KeywordCompetitionLevel).nullish(),
+  /** 优先级等级 */
+  priorityLevel: z.nativeEnum(KeywordPriorityLevel).nullish(),
+  /** 搜索意图类型 */
+  intentType: z.nativeEnum(KeywordIntentType).nullish(),
+  /** 产品线 */
+  productLine: z.nativeEnum(ProductLine).nullish(),
+  /** 营销漏斗阶段 */
+  stage: z.nativeEnum(MarketingFunnelStage).nullish(),
+  /** 分配给用户 ID */
+  assignedTo: z.string().nullish(),
+  /** AIO 状态 */
+  aioStatus: z.nativeEnum(AIOStatus).nullish(),
+  /** AIO 覆盖率得分 */
+  aioCoverageScore: z.number().nullish(),
+});
+
+export type UpdateKeywordInput = z.infer<typeof UpdateKeywordInputSchema>;
+
+export const BulkUpdateKeywordsInputSchema = z.object({
+  /** 关键词 ID 列表 */
+  keywordIds: z.array(z.string()),
+  /** 批量更新优先级 */
+  priorityLevel: z.nativeEnum(KeywordPriorityLevel).nullish(),
+  /** 批量分配给用户 */
+  assignedTo: z.string().nullish(),
+  /** 批量更新竞争等级 */
+  competitionLevel: z.nativeEnum(KeywordCompetitionLevel).nullish(),
+  /** 批量更新搜索意图 */
+  intentType: z.nativeEnum(KeywordIntentType).nullish(),
+  /** 批量更新产品线 */
+  productLine: z.nativeEnum(ProductLine).nullish(),
+  /** 批量更新营销漏斗阶段 */
+  stage: z.nativeEnum(MarketingFunnelStage).nullish(),
+});
+
+export type BulkUpdateKeywordsInput = z.infer<typeof BulkUpdateKeywordsInputSchema>;
+
+export const AIOMonitoringInputSchema = z.object({
+  /** 关键词 ID */
+  keywordId: z.string(),
+  /** AIO 是否显示 */
+  aioDisplayed: z.boolean(),
+  /** AIO 显示位置 */
+  aioPosition: z.number().int().nullish(),
+  /** AIO 内容摘要 */
+  aioContentSnippet: z.string().nullish(),
+  /** 监测日期 */
+  metricDate: z.string().datetime({ offset: true }),
+});
+
+export type AIOMonitoringInput = z.infer<typeof AIOMonitoringInputSchema>;
+
+export const KeywordImportColumnMappingInputSchema = z.object({
+  /** 关键词文本列名 */
+  text: z.string().nullish(),
+  /** 搜索量列名 */
+  searchVolume: z.string().nullish(),
+  /** 关键词难度列名 */
+  difficulty: z.string().nullish(),
+  /** CPC 列名 */
+  cpc: z.string().nullish(),
+  /** 产品线列名 */
+  productLine: z.string().nullish(),
+  /** 搜索意图列名 */
+  intentType: z.string().nullish(),
+  /** 营销漏斗阶段列名 */
+  stage: z.string().nullish(),
+});
+
+export type KeywordImportColumnMappingInput = z.infer<typeof KeywordImportColumnMappingInputSchema>;
+
+export const ImportKeywordsInputSchema = z.object({
+  /** 文件名 (.csv / .xlsx / .xls) */
+  fileName: z.string(),
+  /** Base64 编码的文件内容 */
+  content: z.string(),
+  /** 列映射，未指定时按表头自动识别 */
+  columnMapping: KeywordImportColumnMappingInputSchema.nullish(),
+  /** 重复关键词处理策略 */
+  duplicateStrategy: z.nativeEnum(KeywordImportDuplicateStrategy).nullish(),
+  /** 仅预览，不写入数据库 */
+  dryRun: z.boolean().nullish(),
+});
+
+export type ImportKeywordsInput = z.infer<typeof ImportKeywordsInputSchema>;
+
+export const KeywordScoringConfigInputSchema = z.object({
+  /** 产品线，为空时保存默认配置 */
+  productLine: z.nativeEnum(ProductLine).nullish(),
+  /** 未提供的权重保留当前值 */
+  weights: KeywordScoringWeightsInputSchema.nullish(),
+  /** 未提供的阈值保留当前值 */
+  thresholds: KeywordTierThresholdsInputSchema.nullish(),
+});
+
+export type KeywordScoringConfigInput = z.infer<typeof KeywordScoringConfigInputSchema>;
+
+export const RebuildKeywordClustersInputSchema = z.object({
+  /** 仅重建该产品线的聚类 */
+  productLine: z.nativeEnum(ProductLine).nullish(),
+  /** 与支柱关键词的最低相似度 (0-1)，默认 0.35 */
+  minSimilarity: z.number().nullish(),
+  /** 最小聚类规模，默认 2 */
+  minClusterSize: z.number().int().nullish(),
+});
+
+export type RebuildKeywordClustersInput = z.infer<typeof RebuildKeywordClustersInputSchema>;
+
+export const KeywordGapBacklogItemInputSchema = z.object({
+  /** 关键词文本 */
+  text: z.string(),
+  searchVolume: z.number().int().nullish(),
+  productLine: z.nativeEnum(ProductLine).nullish(),
+  /** 发现差距的竞品域名 */
+  competitorDomains: z.array(z.string()),
+});
+
+export type KeywordGapBacklogItemInput = z.infer<typeof KeywordGapBacklogItemInputSchema>;
+
+export const AddKeywordGapsInputSchema = z.object({
+  items: z.array(KeywordGapBacklogItemInputSchema),
+});
+
+export type AddKeywordGapsInput = z.infer<typeof AddKeywordGapsInputSchema>;
+
+export const KeywordStatusTransitionInputSchema = z.object({
+  keywordId: z.string(),
+  toStatus: z.nativeEnum(KeywordStatus),
+  /** 流转原因，退回和退役时必填 */
+  reason: z.string().nullish(),
+});
+
+export type KeywordStatusTransitionInput = z.infer<typeof KeywordStatusTransitionInputSchema>;
+
+export const BulkKeywordStatusTransitionInputSchema = z.object({
+  /** 关键词 ID 列表 */
+  keywordIds: z.array(z.string()),
+  toStatus: z.nativeEnum(KeywordStatus),
+  /** 流转原因，退回和退役时必填 */
+  reason: z.string().nullish(),
+});
+
+export type BulkKeywordStatusTransitionInput = z.infer<typeof BulkKeywordStatusTransitionInputSchema>;
+
+export const KeywordSavedViewSortInputSchema = z.object({
+  /** 排序字段 */
+  field: z.string(),
+  /** 排序方向 */
+  direction: z.string(),
+});
+
+export type KeywordSavedViewSortInput = z.infer<typeof KeywordSavedViewSortInputSchema>;
+
+export const CreateKeywordSavedViewInputSchema = z.object({
+  /** 视图名称，同一用户下唯一 */
+  name: z.string(),
+  /** 筛选条件 JSON 对象 */
+  filter: z.string().nullish(),
+  sort: KeywordSavedViewSortInputSchema.nullish(),
+  /** 显示列，为空时显示全部列 */
+  visibleColumns: z.array(z.string()).nullish(),
+  /** 是否团队共享 */
+  isShared: z.boolean().nullish(),
+  /** 作为这些角色的默认视图，仅 admin / manager 可设置 */
+  defaultForRoles: z.array(z.string()).nullish(),
+});
+
+export type CreateKeywordSavedViewInput = z.infer<typeof CreateKeywordSavedViewInputSchema>;
+
+export const UpdateKeywordSavedViewInputSchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  /** 筛选条件 JSON 对象 */
+  filter: z.string().nullish(),
+  sort: KeywordSavedViewSortInputSchema.nullish(),
+  visibleColumns: z.array(z.string()).nullish(),
+  isShared: z.boolean().nullish(),
+  /** 仅 admin / manager 可设置 */
+  defaultForRoles: z.array(z.string()).nullish(),
+});
+
+export type UpdateKeywordSavedViewInput = z.infer<typeof UpdateKeywordSavedViewInputSchema>;
+
+export const AlertRuleInputTypeSchema = z.object({
+  name: z.string().nullish(),
+  description: z.string().nullish(),
+  /** rank_drop、aio_lost、competitor_in_aio 或 citation_rate_below */
+  ruleType: z.string().nullish(),
+  /** JSON 对象，如 {"minDrop": 3} */
+  conditions: z.string().nullish(),
+  keywordIds: z.array(z.string()).nullish(),
+  keywordPriorityLevels: z.array(z.string()).nullish(),
+  keywordProductLines: z.array(z.string()).nullish(),
+  /** low、medium、high 或 critical */
+  severity: z.string().nullish(),
+  /** in_app、webhook */
+  channels: z.array(z.string()).nullish(),
+  webhookUrl: z.string().nullish(),
+  cooldownMinutes: z.number().int().nullish(),
+  isActive: z.boolean().nullish(),
+});
+
+export type AlertRuleInputType = z.infer<typeof AlertRuleInputTypeSchema>;
+
+export const GEOContentInputTypeSchema = z.object({
+  title: z.string(),
+  content: z.string(),
+  type: z.string(),
+  targetKeywords: z.array(z.string()),
+  sourceUrl: z.string().nullish(),
+});
+
+export type GEOContentInputType = z.infer<typeof GEOContentInputTypeSchema>;
+
+export const MonitoringQueryGroupInputTypeSchema = z.object({
+  name: z.string().nullish(),
+  description: z.string().nullish(),
+  /** manual 或 keywords */
+  source: z.string().nullish(),
+  queries: z.array(z.string()).nullish(),
+  productLine: z.string().nullish(),
+  keywordPriorityLevels: z.array(z.string()).nullish(),
+  keywordProductLines: z.array(z.string()).nullish(),
+  keywordAioStatuses: z.array(z.string()).nullish(),
+  /** hourly、daily、weekly 或 manual */
+  schedule: z.string().nullish(),
+  /** 为空表示全部平台 */
+  platforms: z.array(z.string()).nullish(),
+  locale: z.string().nullish(),
+  isActive: z.boolean().nullish(),
+});
+
+export type MonitoringQueryGroupInputType = z.infer<typeof MonitoringQueryGroupInputTypeSchema>;
+
+export const FAQEntryInputTypeSchema = z.object({
+  id: z.string(),
+  question: z.string(),
+  answer: z.string(),
+  category: z.string(),
+  priority: z.string(),
+  targetKeywords: z.array(z.string()),
+  aiOptimizationScore: z.number(),
+  lastOptimized: z.string(),
+});
+
+export type FAQEntryInputType = z.infer<typeof FAQEntryInputTypeSchema>;
+
+export const WorkflowTemplateDefinitionInputTypeSchema = z.object({
+  /** JSON 或 YAML 格式的模板定义 */
+  definition: z.string(),
+  /** json 或 yaml */
+  format: z.string().nullish(),
+});
+
+export type WorkflowTemplateDefinitionInputType = z.infer<typeof WorkflowTemplateDefinitionInputTypeSchema>;
+
+export const CreateWorkflowInstanceInputTypeSchema = z.object({
+  templateId: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  /** ISO 日期 */
+  startDate: z.string(),
+});
+
+export type CreateWorkflowInstanceInputType = z.infer<typeof CreateWorkflowInstanceInputTypeSchema>;
@@ -0,0 +1,6 @@
+/**
+ * GEO Platform 前后端共享类型与工具
+ */
+
+export * from './priority';
+export * from './generated/graphql';
@@ -0,0 +1,126 @@
+/**
+ * 优先级分级模型
+ *
+ * 关键词、工作流任务和前端展示统一使用 P0-P4 五级；历史数据中的 P5 并入 P4
+ */
+
+/**
+ * 优先级等级
+ * P0: 最高优先级（核心产品关键词）
+ * P1: 高优先级（主要功能关键词）
+ * P2: 中等优先级（辅助功能关键词）
+ * P3: 低优先级（长尾关键词）
+ * P4: 最低优先级（实验性关键词）
+ */
+export enum PriorityTier {
+  P0 = 'P0',
+  P1 = 'P1',
+  P2 = 'P2',
+  P3 = 'P3',
+  P4 = 'P4',
+}
+
+/** 按优先级从高到低排列 */
+export const PRIORITY_TIERS: readonly PriorityTier[] = [
+  PriorityTier.P0,
+  PriorityTier.P1,
+  PriorityTier.P2,
+  PriorityTier.P3,
+  PriorityTier.P4,
+];
+
+export interface PriorityTierInfo {
+  readonly tier: PriorityTier;
+  readonly name: string;
+  readonly description: string;
+  readonly resourceAllocation: string;
+  /** 按搜索量分级时的最低月搜索量 */
+  readonly minSearchVolume: number;
+  readonly color: {
+    readonly text: string;
+    readonly background: string;
+    readonly border: string;
+  };
+}
+
+export const PRIORITY_TIER_INFO: Readonly<Record<PriorityTier, PriorityTierInfo>> = {
+  [PriorityTier.P0]: {
+    tier: PriorityTier.P0,
+    name: '最高优先级',
+    description: '超高流量，战略核心',
+    resourceAllocation: '最高优先级，全力投入',
+    minSearchVolume: 100000,
+    color: { text: '#dc2626', background: '#fef2f2', border: '#fecaca' },
+  },
+  [PriorityTier.P1]: {
+    tier: PriorityTier.P1,
+    name: '高优先级',
+    description: '高流量，重点投入',
+    resourceAllocation: '高优先级，重点投入',
+    minSearchVolume: 50000,
+    color: { text: '#ea580c', background: '#fff7ed', border: '#fed7aa' },
+  },
+  [PriorityTier.P2]: {
+    tier: PriorityTier.P2,
+    name: '中优先级',
+    description: '中高流量，稳定发展',
+    resourceAllocation: '中高优先级，稳定投入',
+    minSearchVolume: 20000,
+    color: { text: '#ca8a04', background: '#fefce8', border: '#fde047' },
+  },
+  [PriorityTier.P3]: {
+    tier: PriorityTier.P3,
+    name: '低优先级',
+    description: '中等流量，选择投入',
+    resourceAllocation: '中等优先级，选择投入',
+    minSearchVolume: 10000,
+    color: { text: '#16a34a', background: '#f0fdf4', border: '#bbf7d0' },
+  },
+  [PriorityTier.P4]: {
+    tier: PriorityTier.P4,
+    name: '最低优先级',
+    description: '低流量，长尾机会',
+    resourceAllocation: '低优先级，长尾策略',
+    minSearchVolume: 0,
+    color: { text: '#6b7280', background: '#f9fafb', border: '#e5e7eb' },
+  },
+};
+
+/**
+ * 已废弃的等级 -> 统一等级
+ */
+export const LEGACY_PRIORITY_TIERS: Readonly<Record<string, PriorityTier>> = {
+  P5: PriorityTier.P4,
+};
+
+export function isPriorityTier(value: unknown): value is PriorityTier {
+  return typeof value === 'string' && (PRIORITY_TIERS as readonly string[]).includes(value);
+}
+
+/**
+ * 规范化优先级（兼容小写和已废弃的 P5），无法识别时返回 null
+ */
+export function normalizePriorityTier(value: string | null | undefined): PriorityTier | null {
+  if (!value) {
+    return null;
+  }
+  const normalized = value.trim().toUpperCase();
+  if (isPriorityTier(normalized)) {
+    return normalized;
+  }
+  return LEGACY_PRIORITY_TIERS[normalized] ?? null;
+}
+
+/**
+ * 优先级排序比较，P0 在前
+ */
+export function comparePriorityTiers(a: PriorityTier, b: PriorityTier): number {
+  return PRIORITY_TIERS.indexOf(a) - PRIORITY_TIERS.indexOf(b);
+}
+
+/**
+ * 按月搜索量确定优先级
+ */
+export function priorityTierFromSearchVolume(monthlySearchVolume: number): PriorityTier {
+  return PRIORITY_TIERS.find(tier => monthlySearchVolume >= PRIORITY_TIER_INFO[tier].minSearchVolume) ?? PriorityTier.P4;
+}
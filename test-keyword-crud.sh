@@ -5,11 +5,14 @@ echo "=============================================="
 echo ""
 
 API_URL="http://localhost:4004/graphql"
+# API 令牌（createApiToken 创建，需 keyword:read / keyword:write / keyword:delete 权限），避免在脚本中使用账号密码
+AUTH_HEADER="Authorization: Bearer ${GEO_API_TOKEN:-}"
 
 echo "1. 🏥 关键词服务健康检查"
 echo "----------------------------------------"
 HEALTH_RESPONSE=$(curl -s -X POST $API_URL \
   -H "Content-Type: application/json" \
+  -H "$AUTH_HEADER" \
   -d '{"query":"{ keywordHealth }"}')
 
 if [[ $HEALTH_RESPONSE == *"Keyword module is healthy"* ]]; then
@@ -24,6 +27,7 @@ echo "2. 📋 获取关键词列表"
 echo "----------------------------------------"
 LIST_RESPONSE=$(curl -s -X POST $API_URL \
   -H "Content-Type: application/json" \
+  -H "$AUTH_HEADER" \
   -d '{
     "query": "{ keywords { items { id text searchVolume cpc priority status } total } }"
   }')
@@ -43,6 +47,7 @@ echo "3. ➕ 创建新关键词"
 echo "----------------------------------------"
 CREATE_RESPONSE=$(curl -s -X POST $API_URL \
   -H "Content-Type: application/json" \
+  -H "$AUTH_HEADER" \
   -d '{
     "query": "mutation CreateKeyword($input: CreateKeywordInput!) { createKeyword(input: $input) { id text searchVolume cpc priority status } }",
     "variables": {
@@ -73,6 +78,7 @@ echo "----------------------------------------"
 if [ ! -z "$NEW_ID" ]; then
   UPDATE_RESPONSE=$(curl -s -X POST $API_URL \
     -H "Content-Type: application/json" \
+    -H "$AUTH_HEADER" \
     -d "{
       \"query\": \"mutation UpdateKeyword(\\\$input: UpdateKeywordInput!) { updateKeyword(input: \\\$input) { id text searchVolume priority status } }\",
       \"variables\": {
@@ -102,6 +108,7 @@ echo "5. 🔎 按条件筛选关键词"
 echo "----------------------------------------"
 FILTER_RESPONSE=$(curl -s -X POST $API_URL \
   -H "Content-Type: application/json" \
+  -H "$AUTH_HEADER" \
   -d '{
     "query": "{ keywords(input: { priority: \"P0\" }) { items { text priority } total } }"
   }')
@@ -120,6 +127,7 @@ echo "6. 🔍 搜索关键词"
 echo "----------------------------------------"
 SEARCH_RESPONSE=$(curl -s -X POST $API_URL \
   -H "Content-Type: application/json" \
+  -H "$AUTH_HEADER" \
   -d '{
     "query": "{ keywords(input: { search: \"camera\" }) { items { text } total } }"
   }')
@@ -138,6 +146,7 @@ echo "7. 📑 分页功能测试"
 echo "----------------------------------------"
 PAGE_RESPONSE=$(curl -s -X POST $API_URL \
   -H "Content-Type: application/json" \
+  -H "$AUTH_HEADER" \
   -d '{
     "query": "{ keywords(input: { page: 1, limit: 2 }) { items { text } total } }"
   }')
@@ -157,6 +166,7 @@ echo "----------------------------------------"
 if [ ! -z "$NEW_ID" ]; then
   DELETE_RESPONSE=$(curl -s -X POST $API_URL \
     -H "Content-Type: application/json" \
+    -H "$AUTH_HEADER" \
     -d "{
       \"query\": \"mutation DeleteKeyword(\\\$id: String!) { deleteKeyword(id: \\\$id) }\",
       \"variables\": {